@@ -55,6 +55,6 @@ export default async (data: Handler) => {
         required: false,
       },
     ],
-    ["createdAt", "updatedAt"]
+    ["createdAt", "updatedAt", "encryptedSecret"]
   );
 };
@@ -94,6 +94,7 @@ export default async (data) => {
   // Fetch the API key and validate ownership
   const apiKey = await models.apiKey.findOne({
     where: { id },
+    attributes: { exclude: ["encryptedSecret"] },
   });
   if (!apiKey)
     throw createError({ statusCode: 404, message: "API Key not found" });
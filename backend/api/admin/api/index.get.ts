@@ -41,6 +41,9 @@ export const metadata: OperationObject = {
                       type: "array",
                       items: { type: "string" },
                     },
+                    lastUsedAt: { type: "string", format: "date-time" },
+                    lastUsedIp: { type: "string" },
+                    usageCount: { type: "number" },
                     createdAt: { type: "string", format: "date-time" },
                     updatedAt: { type: "string", format: "date-time" },
                     user: {
@@ -76,6 +79,7 @@ export default async (data: Handler) => {
     model: models.apiKey,
     query,
     sortField: query.sortField || "createdAt",
+    excludeFields: ["encryptedSecret"],
     includeModels: [
       {
         model: models.user,
@@ -1,6 +1,6 @@
 import { storeRecord, storeRecordResponses } from "@b/utils/query";
 import { apiKeyStoreSchema, apiKeyUpdateSchema } from "./utils";
-import { generateApiKey } from "@b/api/api-key/index.post";
+import { generateApiKey, generateApiSecret } from "@b/utils/apiKey";
 
 export const metadata: OperationObject = {
   summary: "Stores a new API Key",
@@ -27,16 +27,22 @@ export default async (data: Handler) => {
   const formattedPermissions = Array.isArray(permissions) ? permissions : [];
   const formattedIPWhitelist = Array.isArray(ipWhitelist) ? ipWhitelist : [];
 
-  return await storeRecord({
+  const key = generateApiKey();
+  const { secret, encryptedSecret } = generateApiSecret();
+  const result = await storeRecord({
     model: "apiKey",
     data: {
       userId,
       name,
-      key: generateApiKey(), // Function to generate a secure API key
+      key,
+      encryptedSecret,
       type,
       permissions: formattedPermissions,
       ipRestriction,
       ipWhitelist: formattedIPWhitelist,
     },
   });
+
+  // The secret is not stored, so this is the only time it can be handed over
+  return { ...result, key, secret };
 };
@@ -1,7 +1,4 @@
-import { promises as fs } from "fs";
-import { join, sep } from "path";
-import { filterMediaCache, publicDirectory } from "../utils";
-import { sanitizePath } from "@b/utils/validation";
+import { deleteMediaFile } from "../utils";
 
 export const metadata: OperationObject = {
   summary: "Deletes an image file by id",
@@ -47,19 +44,12 @@ export default async (data: any) => {
     throw new Error("Image id is required");
   }
 
-  // Sanitize the image path to prevent LFI
-  const sanitizedPath = sanitizePath(imagePath.replace(/_/g, sep));
-  const fullPath = join(publicDirectory, sanitizedPath);
-
   try {
-    await fs.unlink(fullPath);
-    filterMediaCache(sanitizedPath);
+    await deleteMediaFile(imagePath);
 
     return { message: "Image file deleted successfully" };
   } catch (error) {
-    if (error.code === "ENOENT") {
-      throw new Error("Image file not found");
-    } else if (error.code === "EBUSY") {
+    if (error.code === "EBUSY") {
       throw new Error("File is busy or locked");
     } else {
       throw new Error("Failed to delete image file");
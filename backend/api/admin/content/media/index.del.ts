@@ -1,6 +1,4 @@
-import { promises as fs } from "fs";
-import { join } from "path";
-import { filterMediaCache, publicDirectory } from "./utils";
+import { deleteMediaFile } from "./utils";
 
 export const metadata: OperationObject = {
   summary: "Bulk deletes image files by ids",
@@ -56,13 +54,9 @@ export default async (data: any) => {
 
   for (const imagePath of ids) {
     try {
-      const fullPath = join(publicDirectory, imagePath.replace(/_/g, "/"));
-      await fs.unlink(fullPath);
-      filterMediaCache("/uploads" + imagePath);
+      await deleteMediaFile(imagePath);
     } catch (error) {
-      if (error.code === "ENOENT") {
-        throw new Error("Image file not found");
-      } else if (error.code === "EBUSY") {
+      if (error.code === "EBUSY") {
         throw new Error("File is busy or locked");
       } else {
         throw new Error("Failed to delete image file");
@@ -1,5 +1,5 @@
 import { crudParameters } from "@b/utils/constants";
-import { cacheInitialized, initMediaWatcher, mediaCache } from "./utils";
+import { mediaCache, refreshMediaCache } from "./utils";
 import { operatorMap } from "../../system/log/utils";
 
 export const metadata: OperationObject = {
@@ -33,7 +33,7 @@ export const metadata: OperationObject = {
 };
 
 export default async (data: any) => {
-  if (!cacheInitialized) await initMediaWatcher();
+  await refreshMediaCache();
 
   const { query } = data;
   const page = query.page ? parseInt(query.page) : 1;
@@ -1,11 +1,16 @@
-import { promises as fs, watch } from "fs";
+import { watch } from "fs";
 import { join } from "path";
 import sharp from "sharp";
+import { getStorage, LocalStorageDriver } from "@b/utils/storage";
+import { sanitizePath } from "@b/utils/validation";
 
 export let mediaCache: MediaFile[] = [];
 export let cacheInitialized = false;
 export const mediaDirectory = join(process.cwd(), "public", "uploads");
-export const publicDirectory = join(process.cwd(), "public");
+
+// Remote stores can't be watched, their listing is refreshed after this long
+const REMOTE_CACHE_TTL = 60 * 1000;
+let cacheUpdatedAt = 0;
 
 interface MediaFile {
   id: string;
@@ -20,49 +25,73 @@ export function filterMediaCache(imagePath) {
   mediaCache = mediaCache.filter((file) => file.id !== imagePath);
 }
 
-async function updateMediaCache(directory: string) {
+// Media ids are the file path under /uploads with slashes replaced by
+// underscores
+const mediaKey = (id: string) =>
+  sanitizePath(id.replace(/_/g, "/")).replace(/\\/g, "/").replace(/^\/+/, "");
+
+export async function deleteMediaFile(id: string) {
+  const key = mediaKey(id);
+  if (!key.startsWith("uploads/")) {
+    throw new Error("Invalid image id");
+  }
+  await getStorage().delete(key);
+  filterMediaCache(id);
+}
+
+async function updateMediaCache() {
+  const storage = getStorage();
+  const objects = await storage.list("uploads");
   const fileList: MediaFile[] = [];
-  async function readMediaFiles(dir: string) {
-    const files = await fs.readdir(dir, { withFileTypes: true });
-    for (const file of files) {
-      const filePath = join(dir, file.name);
-      if (file.isDirectory()) {
-        await readMediaFiles(filePath);
-      } else if (/\.(jpg|jpeg|png|gif|webp)$/i.test(file.name)) {
-        // Only read dimensions for image files
-        try {
-          const { mtime } = await fs.stat(filePath);
-          let webPath = filePath
-            .substring(mediaDirectory.length)
-            .replace(/\\/g, "/");
-          if (!webPath.startsWith("/")) webPath = "/" + webPath;
 
-          const image = sharp(filePath);
-          const metadata = await image.metadata();
+  for (const object of objects) {
+    if (!/\.(jpg|jpeg|png|gif|webp)$/i.test(object.key)) continue;
+    const webPath = object.key.slice("uploads".length);
+    const file: MediaFile = {
+      id: "/uploads" + webPath.replace(/\//g, "_"),
+      name: webPath.split("/").pop() as string,
+      path: storage.url(object.key),
+      dateModified: object.lastModified,
+    };
 
-          fileList.push({
-            id: "/uploads" + webPath.replace(/\//g, "_"),
-            name: file.name,
-            path: "/uploads" + webPath,
-            width: metadata.width,
-            height: metadata.height,
-            dateModified: mtime,
-          });
-        } catch (error) {
-          console.error(`Error accessing file: ${filePath}`, error);
-        }
+    // Dimensions are only read from local files, remote stores would need
+    // every image downloaded
+    if (storage instanceof LocalStorageDriver) {
+      try {
+        const metadata = await sharp(
+          storage.resolvePath(object.key)
+        ).metadata();
+        file.width = metadata.width;
+        file.height = metadata.height;
+      } catch (error) {
+        console.error(`Error accessing file: ${object.key}`, error);
       }
     }
+    fileList.push(file);
   }
-  await readMediaFiles(directory);
+
   mediaCache = fileList;
   cacheInitialized = true;
+  cacheUpdatedAt = Date.now();
 }
 
 // Initialize cache and set up watcher
 export async function initMediaWatcher() {
-  await updateMediaCache(mediaDirectory);
-  watch(mediaDirectory, { recursive: true }, async (eventType, filename) => {
-    await updateMediaCache(mediaDirectory);
-  });
+  await updateMediaCache();
+  if (getStorage() instanceof LocalStorageDriver) {
+    watch(mediaDirectory, { recursive: true }, async () => {
+      await updateMediaCache();
+    });
+  }
+}
+
+export async function refreshMediaCache() {
+  if (!cacheInitialized) {
+    await initMediaWatcher();
+  } else if (
+    !(getStorage() instanceof LocalStorageDriver) &&
+    Date.now() - cacheUpdatedAt > REMOTE_CACHE_TTL
+  ) {
+    await updateMediaCache();
+  }
 }
@@ -8,6 +8,7 @@ import {
 } from "@b/utils/query";
 import { kycApplicationSchema } from "../utils"; // Assuming the schema is in a separate file.
 import { models } from "@b/db";
+import { signPrivateReferences } from "@b/utils/storage";
 
 export const metadata: OperationObject = {
   summary: "Retrieves a specific KYC application by ID",
@@ -46,7 +47,7 @@ export const metadata: OperationObject = {
 export default async (data: Handler) => {
   const { params } = data;
 
-  return await getRecord("kyc", params.id, [
+  const kyc: any = await getRecord("kyc", params.id, [
     {
       model: models.user,
       as: "user",
@@ -66,4 +67,11 @@ export default async (data: Handler) => {
       as: "template",
     },
   ]);
+
+  // Documents are private files, sent as short-lived signed URLs
+  kyc.data =
+    typeof kyc.data === "string"
+      ? JSON.stringify(await signPrivateReferences(JSON.parse(kyc.data)))
+      : await signPrivateReferences(kyc.data);
+  return kyc;
 };
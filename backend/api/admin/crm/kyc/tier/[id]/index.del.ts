@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Deletes a specific KYC Tier",
+  operationId: "deleteKycTier",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: deleteRecordParams("KYC Tier"),
+  responses: deleteRecordResponses("KYC Tier"),
+  permission: "Access KYC Tier Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "kycTier",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { kycTierSchema } from "../utils";
+
+export const metadata = {
+  summary: "Retrieves detailed information of a specific KYC tier by ID",
+  operationId: "getKycTierById",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the KYC tier to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "KYC tier details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: kycTierSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("KYC Tier"),
+    500: serverErrorResponse,
+  },
+  permission: "Access KYC Tier Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return await getRecord("kycTier", params.id);
+};
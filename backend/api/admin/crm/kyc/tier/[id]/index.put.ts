@@ -0,0 +1,38 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import { kycTierData, kycTierUpdateSchema } from "../utils";
+
+export const metadata = {
+  summary: "Updates a specific KYC Tier",
+  operationId: "updateKycTier",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the KYC Tier to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    description: "New data for the KYC Tier",
+    content: {
+      "application/json": {
+        schema: kycTierUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("KYC Tier"),
+  requiresAuth: true,
+  permission: "Access KYC Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+
+  return await updateRecord("kycTier", id, kycTierData(body));
+};
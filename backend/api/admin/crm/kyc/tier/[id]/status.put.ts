@@ -0,0 +1,45 @@
+import { updateRecordResponses, updateStatus } from "@b/utils/query";
+
+export const metadata = {
+  summary: "Updates the status of a KYC tier",
+  operationId: "updateKycTierStatus",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the KYC tier to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "boolean",
+              description:
+                "New status to apply (true for active, false for inactive)",
+            },
+          },
+          required: ["status"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("KYC Tier"),
+  requiresAuth: true,
+  permission: "Access KYC Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { status } = body;
+  return updateStatus("kycTier", id, status);
+};
@@ -0,0 +1,45 @@
+// /server/api/admin/crm/kyc/tier/index.del.ts
+
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Bulk deletes KYC Tiers by IDs",
+  operationId: "bulkDeleteKycTiers",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: commonBulkDeleteParams("KYC Tiers"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of KYC Tier IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("KYC Tiers"),
+  requiresAuth: true,
+  permission: "Access KYC Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "kycTier",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,63 @@
+// /server/api/admin/crm/kyc/tier/index.get.ts
+
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { kycTierSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists KYC Tiers with pagination and optional filtering",
+  operationId: "listKycTiers",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of KYC Tiers with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: kycTierSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("KYC Tiers"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access KYC Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.kycTier,
+    query,
+    sortField: query.sortField || "level",
+    paranoid: false,
+    numericFields: [
+      "level",
+      "dailyWithdrawLimit",
+      "monthlyWithdrawLimit",
+      "dailyDepositLimit",
+      "monthlyDepositLimit",
+    ],
+  });
+};
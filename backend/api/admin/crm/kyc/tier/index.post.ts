@@ -0,0 +1,30 @@
+// /server/api/admin/crm/kyc/tier/index.post.ts
+
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import { kycTierData, kycTierStoreSchema, kycTierUpdateSchema } from "./utils";
+
+export const metadata = {
+  summary: "Stores a new KYC Tier",
+  operationId: "storeKycTier",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: kycTierUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(kycTierStoreSchema, "KYC Tier"),
+  requiresAuth: true,
+  permission: "Access KYC Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+
+  return await storeRecord({
+    model: "kycTier",
+    data: kycTierData(body),
+  });
+};
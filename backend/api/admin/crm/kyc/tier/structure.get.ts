@@ -0,0 +1,162 @@
+// /server/api/admin/crm/kyc/tier/structure.get.ts
+
+import { structureSchema } from "@b/utils/constants";
+
+export const metadata = {
+  summary: "Get form structure for KYC Tiers",
+  operationId: "getKycTierStructure",
+  tags: ["Admin", "CRM", "KYC Tier"],
+  responses: {
+    200: {
+      description: "Form structure for managing KYC Tiers",
+      content: structureSchema,
+    },
+  },
+  permission: "Access KYC Tier Management",
+};
+
+const booleanField = (name: string, label: string, placeholder: string) => ({
+  type: "select",
+  label,
+  name,
+  placeholder,
+  options: [
+    { label: "Yes", value: true },
+    { label: "No", value: false },
+  ],
+  ts: "boolean",
+});
+
+const limitField = (name: string, label: string) => ({
+  type: "input",
+  label: `${label} (USD)`,
+  name,
+  placeholder: "Leave empty for unlimited",
+  ts: "number",
+});
+
+export const kycTierStructure = () => {
+  const name = {
+    type: "input",
+    label: "Name",
+    name: "name",
+    placeholder: "Enter the name of the tier, e.g. Verified",
+  };
+
+  const level = {
+    type: "input",
+    label: "KYC Level",
+    name: "level",
+    placeholder: "Approved KYC level that unlocks the tier",
+    ts: "number",
+  };
+
+  const description = {
+    type: "textarea",
+    label: "Description",
+    name: "description",
+    placeholder: "Describe what the tier unlocks",
+  };
+
+  const dailyWithdrawLimit = limitField(
+    "dailyWithdrawLimit",
+    "Daily Withdrawal Limit"
+  );
+  const monthlyWithdrawLimit = limitField(
+    "monthlyWithdrawLimit",
+    "Monthly Withdrawal Limit"
+  );
+  const dailyDepositLimit = limitField(
+    "dailyDepositLimit",
+    "Daily Deposit Limit"
+  );
+  const monthlyDepositLimit = limitField(
+    "monthlyDepositLimit",
+    "Monthly Deposit Limit"
+  );
+
+  const p2pAccess = booleanField(
+    "p2pAccess",
+    "P2P Trading",
+    "Whether the tier can trade P2P"
+  );
+  const futuresAccess = booleanField(
+    "futuresAccess",
+    "Futures Trading",
+    "Whether the tier can trade futures"
+  );
+  const icoAccess = booleanField(
+    "icoAccess",
+    "ICO Contributions",
+    "Whether the tier can contribute to ICOs"
+  );
+  const fiatAccess = booleanField(
+    "fiatAccess",
+    "Fiat Deposits & Withdrawals",
+    "Whether the tier can deposit and withdraw fiat"
+  );
+
+  const status = booleanField(
+    "status",
+    "Status",
+    "Select the status of the tier"
+  );
+
+  return {
+    name,
+    level,
+    description,
+    dailyWithdrawLimit,
+    monthlyWithdrawLimit,
+    dailyDepositLimit,
+    monthlyDepositLimit,
+    p2pAccess,
+    futuresAccess,
+    icoAccess,
+    fiatAccess,
+    status,
+  };
+};
+
+export default (): object => {
+  const {
+    name,
+    level,
+    description,
+    dailyWithdrawLimit,
+    monthlyWithdrawLimit,
+    dailyDepositLimit,
+    monthlyDepositLimit,
+    p2pAccess,
+    futuresAccess,
+    icoAccess,
+    fiatAccess,
+    status,
+  } = kycTierStructure();
+
+  return {
+    get: [
+      name,
+      level,
+      description,
+      dailyWithdrawLimit,
+      monthlyWithdrawLimit,
+      dailyDepositLimit,
+      monthlyDepositLimit,
+      p2pAccess,
+      futuresAccess,
+      icoAccess,
+      fiatAccess,
+      status,
+    ],
+    set: [
+      [name, level],
+      description,
+      [dailyWithdrawLimit, monthlyWithdrawLimit],
+      [dailyDepositLimit, monthlyDepositLimit],
+      [p2pAccess, futuresAccess],
+      [icoAccess, fiatAccess],
+      status,
+    ],
+  };
+};
@@ -0,0 +1,96 @@
+import {
+  baseBooleanSchema,
+  baseIntegerSchema,
+  baseNumberSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+const limitSchema = (description: string) =>
+  baseNumberSchema(`${description} in USD, empty for unlimited`, true);
+
+const id = baseStringSchema("ID of the KYC Tier");
+const name = baseStringSchema("Name of the KYC Tier");
+const level = baseIntegerSchema("Approved KYC level that unlocks the tier");
+const description = baseStringSchema(
+  "Description of the KYC Tier",
+  1000,
+  0,
+  true
+);
+const dailyWithdrawLimit = limitSchema("Daily withdrawal limit");
+const monthlyWithdrawLimit = limitSchema("Monthly withdrawal limit");
+const dailyDepositLimit = limitSchema("Daily deposit limit");
+const monthlyDepositLimit = limitSchema("Monthly deposit limit");
+const p2pAccess = baseBooleanSchema("Whether the tier can trade P2P");
+const futuresAccess = baseBooleanSchema("Whether the tier can trade futures");
+const icoAccess = baseBooleanSchema("Whether the tier can contribute to ICOs");
+const fiatAccess = baseBooleanSchema(
+  "Whether the tier can deposit and withdraw fiat"
+);
+const status = baseBooleanSchema("Whether the tier is enforced");
+
+export const kycTierSchema = {
+  id,
+  name,
+  level,
+  description,
+  dailyWithdrawLimit,
+  monthlyWithdrawLimit,
+  dailyDepositLimit,
+  monthlyDepositLimit,
+  p2pAccess,
+  futuresAccess,
+  icoAccess,
+  fiatAccess,
+  status,
+};
+
+export const kycTierUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    level,
+    description,
+    dailyWithdrawLimit,
+    monthlyWithdrawLimit,
+    dailyDepositLimit,
+    monthlyDepositLimit,
+    p2pAccess,
+    futuresAccess,
+    icoAccess,
+    fiatAccess,
+    status,
+  },
+  required: ["name", "level"],
+};
+
+export const kycTierStoreSchema = {
+  description: `KYC Tier created or updated successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: kycTierSchema,
+      },
+    },
+  },
+};
+
+// Empty limit inputs are stored as null, meaning unlimited
+const toLimit = (value: any) =>
+  value === null || value === undefined || value === "" ? null : Number(value);
+
+export const kycTierData = (body: any) => ({
+  name: body.name,
+  level: body.level,
+  description: body.description || null,
+  dailyWithdrawLimit: toLimit(body.dailyWithdrawLimit),
+  monthlyWithdrawLimit: toLimit(body.monthlyWithdrawLimit),
+  dailyDepositLimit: toLimit(body.dailyDepositLimit),
+  monthlyDepositLimit: toLimit(body.monthlyDepositLimit),
+  p2pAccess: body.p2pAccess,
+  futuresAccess: body.futuresAccess,
+  icoAccess: body.icoAccess,
+  fiatAccess: body.fiatAccess,
+  status: body.status,
+});
@@ -2,6 +2,7 @@ import { models, sequelize } from "@b/db";
 import { cacheRoles } from "../utils";
 import { deleteRecordResponses } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Deletes a role",
@@ -60,6 +61,32 @@ export default async (data: Handler) => {
     });
   }
 
+  const approval = await requestApproval(
+    "roleDelete",
+    {
+      summary: `Delete the ${roleToDelete.name} role`,
+      payload: { roleId: id },
+    },
+    user,
+    data.body?.comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return deleteRole(id);
+};
+
+export async function deleteRole(id: string) {
+  const role = await models.role.findByPk(id);
+  if (!role) {
+    throw createError({ statusCode: 404, message: "Role not found" });
+  }
+  if (role.name === "Super Admin") {
+    throw createError({
+      statusCode: 403,
+      message: "Forbidden - Cannot delete the Super Admin role",
+    });
+  }
+
   try {
     await sequelize.transaction(async (transaction) => {
       await models.rolePermission.destroy({
@@ -86,4 +113,4 @@ export default async (data: Handler) => {
     console.error("Transaction failed:", error);
     throw new Error("Failed to remove the role");
   }
-};
+}
@@ -2,6 +2,7 @@ import { updateRecordResponses } from "@b/utils/query";
 import { roleUpdateSchema } from "../utils";
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Updates an existing role",
@@ -61,6 +62,36 @@ export default async (data: Handler) => {
     });
   }
 
+  const role = await models.role.findByPk(id);
+  if (!role) {
+    throw createError({ statusCode: 404, message: "Role not found" });
+  }
+
+  const approval = await requestApproval(
+    "roleUpdate",
+    {
+      summary: `Update the ${role.name} role${
+        permissions ? ` with ${permissions.length} permissions` : ""
+      }`,
+      payload: {
+        roleId: id,
+        name,
+        permissions: permissions?.map(({ id, name }) => ({ id, name })),
+      },
+    },
+    user,
+    body.comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return updateRole(id, name, permissions);
+};
+
+export async function updateRole(
+  id: string,
+  name?: string,
+  permissions?: { id: number }[]
+) {
   try {
     // Fetch the role by id, including current permissions
     const role = await models.role.findByPk(id, {
@@ -91,4 +122,4 @@ export default async (data: Handler) => {
   } catch (error: any) {
     throw new Error(error.message);
   }
-};
+}
@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { cacheRoles } from "../utils";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Syncs roles with the database",
@@ -106,16 +107,38 @@ export const metadata: OperationObject = {
 };
 
 export default async (data) => {
-  const response = await syncPermissions(
-    data.params.id,
-    data.body.permissionIds
+  const { params, body, user } = data;
+
+  const role = await models.role.findByPk(params.id);
+  if (!role) {
+    throw new Error("Role not found");
+  }
+
+  const approval = await requestApproval(
+    "rolePermissionSync",
+    {
+      summary: `Sync the ${role.name} role to ${body.permissionIds.length} permissions`,
+      payload: { roleId: params.id, permissionIds: body.permissionIds },
+    },
+    user,
+    body.comment
   );
+  if (approval) return approvalPendingResponse(approval);
+
+  return syncRolePermissions(params.id, body.permissionIds);
+};
+
+export async function syncRolePermissions(
+  roleId: number,
+  permissionIds: number[]
+) {
+  const response = await syncPermissions(roleId, permissionIds);
   await cacheRoles(); // Assuming this function is implemented correctly elsewhere
   return {
-    ...response.get({ plain: true }),
+    ...response,
     message: "Role permissions synced successfully",
   };
-};
+}
 
 export async function syncPermissions(
   roleId: number,
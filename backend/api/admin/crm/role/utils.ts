@@ -88,6 +88,12 @@ export const roleUpdateSchema = {
   properties: {
     name,
     permissions,
+    comment: baseStringSchema(
+      "Reason for the change, shown to the admin approving it",
+      1000,
+      0,
+      true
+    ),
   },
   required: ["name", "permissions"], // Ensure that name and permissions are mandatory for updates
 };
@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   deleteRecordParams,
   deleteRecordResponses,
@@ -23,27 +24,34 @@ export default async (data: Handler) => {
   const preDelete = async () => {
     const transaction = await models.transaction.findOne({
       where: { referenceId: params.id },
-      include: [{ model: models.wallet }],
     });
 
     if (!transaction) {
       throw new Error("Transaction not found");
     }
 
-    const { wallet } = transaction;
-
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
+    await sequelize.transaction(async (t) => {
+      const wallet = await models.wallet.findByPk(transaction.walletId, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
 
-    // Calculate new balance, assuming transaction.amount needs to be added back to the wallet.
-    const newBalance = wallet.balance + transaction.amount;
+      if (!wallet) {
+        throw new Error("Wallet not found");
+      }
 
-    // Update wallet balance
-    await models.wallet.update(
-      { balance: newBalance },
-      { where: { id: wallet.id } }
-    );
+      // Add the invested amount back to the wallet
+      await setWalletBalances(
+        wallet,
+        { balance: wallet.balance + transaction.amount },
+        {
+          description: "Refund of a deleted AI investment",
+          referenceType: "aiInvestment",
+          referenceId: params.id,
+        },
+        t
+      );
+    });
 
     // Store transaction ID for later use in postDelete
     externalData.transactionId = transaction.id;
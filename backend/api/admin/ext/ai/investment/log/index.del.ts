@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   commonBulkDeleteParams,
   commonBulkDeleteResponses,
@@ -43,17 +44,29 @@ export default async (data: Handler) => {
     for (const id of ids) {
       const transaction = await models.transaction.findOne({
         where: { referenceId: id },
-        include: [{ model: models.wallet }],
       });
 
-      if (transaction && transaction.wallet) {
-        const newBalance = transaction.wallet.balance + transaction.amount;
+      if (transaction) {
+        await sequelize.transaction(async (t) => {
+          const wallet = await models.wallet.findByPk(transaction.walletId, {
+            transaction: t,
+            lock: t.LOCK.UPDATE,
+          });
 
-        // Update wallet balance
-        await models.wallet.update(
-          { balance: newBalance },
-          { where: { id: transaction.wallet.id } }
-        );
+          if (wallet) {
+            // Add the invested amount back to the wallet
+            await setWalletBalances(
+              wallet,
+              { balance: wallet.balance + transaction.amount },
+              {
+                description: "Refund of a deleted AI investment",
+                referenceType: "aiInvestment",
+                referenceId: id,
+              },
+              t
+            );
+          }
+        });
       }
     }
   };
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { updateRecordResponses } from "@b/utils/query";
 import { sendOrderStatusUpdateEmail } from "../utils";
 
@@ -61,19 +62,30 @@ export default async (data) => {
     throw new Error("Transaction not found");
   }
 
-  const wallet = await models.wallet.findByPk(transaction.walletId);
+  await sequelize.transaction(async (t) => {
+    const wallet = await models.wallet.findByPk(transaction.walletId, {
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
 
-  if (!wallet) {
-    throw new Error("Wallet not found");
-  }
+    if (!wallet) {
+      throw new Error("Wallet not found");
+    }
 
-  await sequelize.transaction(async (t) => {
     order.status = status;
     await order.save({ transaction: t });
 
     if (status === "CANCELLED" || status === "REJECTED") {
-      wallet.balance += transaction.amount;
-      wallet.save({ transaction: t });
+      await setWalletBalances(
+        wallet,
+        { balance: wallet.balance + transaction.amount },
+        {
+          description: "Refund of a cancelled ecommerce order",
+          referenceType: "ecommerceOrder",
+          referenceId: order.id,
+        },
+        t
+      );
     }
 
     return order;
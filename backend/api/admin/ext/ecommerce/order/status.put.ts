@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { updateRecordResponses, updateStatus } from "@b/utils/query";
 import { sendOrderStatusUpdateEmail } from "./utils";
 
@@ -60,7 +61,10 @@ export default async (data: Handler) => {
         throw new Error(`Transaction not found for order ${order.id}`);
       }
 
-      const wallet = await models.wallet.findByPk(transaction.walletId);
+      const wallet = await models.wallet.findByPk(transaction.walletId, {
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
 
       if (!wallet) {
         throw new Error(`Wallet not found for transaction ${transaction.id}`);
@@ -70,8 +74,16 @@ export default async (data: Handler) => {
       await order.save({ transaction: t });
 
       if (status === "CANCELLED" || status === "REJECTED") {
-        wallet.balance += transaction.amount;
-        await wallet.save({ transaction: t });
+        await setWalletBalances(
+          wallet,
+          { balance: wallet.balance + transaction.amount },
+          {
+            description: "Refund of a cancelled ecommerce order",
+            referenceType: "ecommerceOrder",
+            referenceId: order.id,
+          },
+          t
+        );
       }
     }
 
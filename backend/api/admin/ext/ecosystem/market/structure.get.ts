@@ -89,6 +89,18 @@ export const ecosystemMarketStructure = async () => {
           ts: "number",
         },
       ],
+      {
+        type: "select",
+        label: "Self-Trade Prevention",
+        name: "selfTradePrevention",
+        options: [
+          { label: "Cancel Newest", value: "CANCEL_NEWEST" },
+          { label: "Cancel Oldest", value: "CANCEL_OLDEST" },
+          { label: "Cancel Both", value: "CANCEL_BOTH" },
+          { label: "Decrement", value: "DECREMENT" },
+        ],
+        ts: "string",
+      },
       {
         type: "object",
         label: "Precision",
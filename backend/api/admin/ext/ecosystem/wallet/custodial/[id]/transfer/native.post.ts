@@ -10,6 +10,7 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Transfer native tokens from Ecosystem Custodial Wallet",
@@ -79,8 +80,32 @@ export default async (data: Handler) => {
     throw new Error("Authentication required to transfer native tokens");
   }
   const { id } = params;
-  const { recipient, amount } = body;
+  const { recipient, amount, comment } = body;
 
+  const custodialWallet = await models.ecosystemCustodialWallet.findByPk(id);
+  if (!custodialWallet) {
+    throw new Error(`Custodial wallet not found`);
+  }
+
+  const approval = await requestApproval(
+    "custodialNativeTransfer",
+    {
+      summary: `Transfer ${amount} wei from the ${custodialWallet.chain} custodial wallet ${custodialWallet.address} to ${recipient}`,
+      payload: { id, recipient, amount },
+    },
+    user,
+    comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return transferCustodialNative(id, recipient, amount);
+};
+
+export async function transferCustodialNative(
+  id: string,
+  recipient: string,
+  amount: string
+) {
   try {
     const custodialWallet = await models.ecosystemCustodialWallet.findByPk(id);
     if (!custodialWallet) {
@@ -118,4 +143,4 @@ export default async (data: Handler) => {
     console.error(`Failed to transfer native tokens: ${error.message}`);
     throw new Error(error.message);
   }
-};
+}
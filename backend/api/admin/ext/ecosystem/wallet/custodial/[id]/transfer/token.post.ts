@@ -10,6 +10,7 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Transfer ERC-20 tokens from Ecosystem Custodial Wallet",
@@ -83,8 +84,33 @@ export default async (data: Handler) => {
     throw new Error("Authentication required to transfer tokens");
   }
   const { id } = params;
-  const { tokenAddress, recipient, amount } = body;
+  const { tokenAddress, recipient, amount, comment } = body;
 
+  const custodialWallet = await models.ecosystemCustodialWallet.findByPk(id);
+  if (!custodialWallet) {
+    throw new Error(`Custodial wallet not found`);
+  }
+
+  const approval = await requestApproval(
+    "custodialTokenTransfer",
+    {
+      summary: `Transfer ${amount} units of token ${tokenAddress} from the ${custodialWallet.chain} custodial wallet ${custodialWallet.address} to ${recipient}`,
+      payload: { id, tokenAddress, recipient, amount },
+    },
+    user,
+    comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return transferCustodialTokens(id, tokenAddress, recipient, amount);
+};
+
+export async function transferCustodialTokens(
+  id: string,
+  tokenAddress: string,
+  recipient: string,
+  amount: string
+) {
   try {
     const custodialWallet = await models.ecosystemCustodialWallet.findByPk(id);
     if (!custodialWallet) {
@@ -126,4 +152,4 @@ export default async (data: Handler) => {
     console.error(`Failed to transfer ERC-20 tokens: ${error.message}`);
     throw new Error(error.message);
   }
-};
+}
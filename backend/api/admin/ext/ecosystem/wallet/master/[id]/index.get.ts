@@ -8,14 +8,7 @@ import {
   updateMasterWalletBalance,
 } from "../utils";
 import { models } from "@b/db";
-import { getProvider } from "@b/utils/eco/provider";
-import { fetchUTXOWalletBalance } from "@b/utils/eco/utxo";
-import { ethers } from "ethers";
-import { chainConfigs } from "@b/utils/eco/chains";
-import SolanaService from "@b/blockchains/sol";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
-import TonService from "@b/blockchains/ton";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 
 export const metadata: OperationObject = {
   summary:
@@ -90,30 +83,10 @@ const getWalletBalance = async (
   wallet: ecosystemMasterWalletAttributes
 ): Promise<void> => {
   try {
-    let formattedBalance;
-    if (wallet.chain === "SOL") {
-      const solanaService = await SolanaService.getInstance();
-      formattedBalance = await solanaService.getBalance(wallet.address);
-    } else if (wallet.chain === "TRON") {
-      const tronService = await TronService.getInstance();
-      formattedBalance = await tronService.getBalance(wallet.address);
-    } else if (wallet.chain === "XMR") {
-      const moneroService = await MoneroService.getInstance();
-      formattedBalance = await moneroService.getBalance("master_wallet");
-    } else if (wallet.chain === "TON") {
-      const tonService = await TonService.getInstance();
-      formattedBalance = await tonService.getBalance(wallet.address);
-    } else if (["BTC", "LTC", "DOGE", "DASH"].includes(wallet.chain)) {
-      formattedBalance = await fetchUTXOWalletBalance(
-        wallet.chain,
-        wallet.address
-      );
-    } else {
-      const provider = await getProvider(wallet.chain);
-      const balance = await provider.getBalance(wallet.address);
-      const decimals = chainConfigs[wallet.chain].decimals;
-      formattedBalance = ethers.formatUnits(balance.toString(), decimals);
-    }
+    const formattedBalance = await getChainAdapter(wallet.chain).getBalance(
+      wallet.chain,
+      wallet.address
+    );
 
     if (!formattedBalance || isNaN(parseFloat(formattedBalance))) {
       console.error(
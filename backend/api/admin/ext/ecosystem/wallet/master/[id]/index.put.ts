@@ -1,5 +1,8 @@
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
 import { ecosystemMasterWalletUpdateSchema } from "../utils";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata: OperationObject = {
   summary: "Updates a specific master wallet",
@@ -31,7 +34,7 @@ export const metadata: OperationObject = {
 };
 
 export default async (data) => {
-  const { body, params } = data;
+  const { body, params, user } = data;
   const { id } = params;
   const {
     chain,
@@ -41,9 +44,9 @@ export default async (data) => {
     data: walletData,
     status,
     lastIndex,
+    comment,
   } = body;
-
-  return await updateRecord("ecosystemMasterWallet", id, {
+  const fields = {
     chain,
     currency,
     address,
@@ -51,5 +54,23 @@ export default async (data) => {
     data: walletData,
     status,
     lastIndex,
-  });
+  };
+
+  const wallet = await models.ecosystemMasterWallet.findByPk(id);
+  if (!wallet) {
+    throw createError({ statusCode: 404, message: "Master wallet not found" });
+  }
+
+  const approval = await requestApproval(
+    "masterWalletUpdate",
+    {
+      summary: `Update the ${wallet.chain} master wallet ${wallet.address}`,
+      payload: { id, fields },
+    },
+    user,
+    comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return await updateRecord("ecosystemMasterWallet", id, fields);
 };
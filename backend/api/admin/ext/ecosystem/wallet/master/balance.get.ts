@@ -2,10 +2,7 @@ import { createError } from "@b/utils/error";
 import { getAllMasterWallets, updateMasterWalletBalance } from "./utils";
 import { RedisSingleton } from "@b/utils/redis";
 import { differenceInMinutes } from "date-fns";
-import { fetchUTXOWalletBalance } from "@b/utils/eco/utxo";
-import { getProvider } from "@b/utils/eco/provider";
-import { chainConfigs } from "@b/utils/eco/chains";
-import { ethers } from "ethers";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 
 export const metadata: OperationObject = {
   summary: "Updates and retrieves balances for all master wallets",
@@ -100,20 +97,10 @@ const getWalletBalance = async (
       }
     }
 
-    let formattedBalance;
-    if (["BTC", "LTC", "DOGE", "DASH"].includes(wallet.chain)) {
-      formattedBalance = await fetchUTXOWalletBalance(
-        wallet.chain,
-        wallet.address
-      );
-    } else {
-      const provider = await getProvider(wallet.chain);
-
-      const balance = await provider.getBalance(wallet.address);
-
-      const decimals = chainConfigs[wallet.chain].decimals;
-      formattedBalance = ethers.formatUnits(balance.toString(), decimals);
-    }
+    const formattedBalance = await getChainAdapter(wallet.chain).getBalance(
+      wallet.chain,
+      wallet.address
+    );
 
     if (!formattedBalance || isNaN(parseFloat(formattedBalance))) {
       console.error(
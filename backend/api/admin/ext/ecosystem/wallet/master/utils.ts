@@ -1,5 +1,4 @@
 import * as fs from "fs";
-import { createUTXOWallet, fetchUTXOWalletBalance } from "@b/utils/eco/utxo";
 import { decrypt, encrypt } from "@b/utils/encrypt";
 import {
   baseStringSchema,
@@ -12,13 +11,9 @@ import { differenceInMinutes } from "date-fns";
 import { getAdjustedGasPrice } from "@b/utils/eco/gas";
 import { models } from "@b/db";
 import { getProvider } from "@b/utils/eco/provider";
-import { chainConfigs } from "@b/utils/eco/chains";
 import { getSmartContract } from "@b/utils/eco/smartContract";
 import { walletResponseAttributes } from "@b/utils/eco/wallet";
-import SolanaService from "@b/blockchains/sol";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
-import TonService from "@b/blockchains/ton";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 
 // Fetch all master wallets
 export async function getAllMasterWallets(): Promise<
@@ -154,27 +149,10 @@ export const ecosystemMasterWalletStoreSchema = {
 export const createAndEncryptWallet = async (
   chain: string
 ): Promise<Web3WalletData> => {
-  let wallet;
-
-  if (["BTC", "LTC", "DOGE", "DASH"].includes(chain)) {
-    // Generate a UTXO wallet
-    wallet = createUTXOWallet(chain);
-  } else if (chain === "SOL") {
-    const solanaService = await SolanaService.getInstance();
-    wallet = solanaService.createWallet();
-  } else if (chain === "TRON") {
-    const tronService = await TronService.getInstance();
-    wallet = tronService.createWallet();
-  } else if (chain === "XMR") {
-    const moneroService = await MoneroService.getInstance();
-    wallet = await moneroService.createWallet("master_wallet");
-  } else if (chain === "TON") {
-    const tonService = await TonService.getInstance();
-    wallet = await tonService.createWallet();
-  } else {
-    // Generate an EVM wallet
-    wallet = createEVMWallet();
-  }
+  const wallet = await getChainAdapter(chain).createWallet(
+    chain,
+    "master_wallet"
+  );
 
   // Define the directory and file path
   const walletDir = `${process.cwd()}/ecosystem/wallets`;
@@ -196,49 +174,6 @@ export const createAndEncryptWallet = async (
   };
 };
 
-export const createEVMWallet = () => {
-  // Generate a random wallet
-  const wallet = ethers.Wallet.createRandom();
-
-  if (!wallet.mnemonic) {
-    throw new Error("Mnemonic not found");
-  }
-
-  // Derive the HDNode from the wallet's mnemonic
-  const hdNode = ethers.HDNodeWallet.fromPhrase(wallet.mnemonic.phrase);
-
-  if (!hdNode) {
-    throw new Error("HDNode not found");
-  }
-
-  const xprv = hdNode.extendedKey;
-  const xpub = hdNode.neuter().extendedKey;
-
-  if (!hdNode.mnemonic) {
-    throw new Error("Mnemonic not found");
-  }
-
-  const mnemonic = hdNode.mnemonic.phrase;
-  const address = hdNode.address;
-  const publicKey = hdNode.publicKey;
-  const privateKey = hdNode.privateKey;
-  const path = hdNode.path;
-  const chainCode = hdNode.chainCode;
-
-  return {
-    address,
-    data: {
-      mnemonic,
-      publicKey,
-      privateKey,
-      xprv,
-      xpub,
-      chainCode,
-      path,
-    },
-  };
-};
-
 export const getEcosystemMasterWalletBalance = async (
   wallet: EcosystemMasterWallet
 ): Promise<void> => {
@@ -263,32 +198,10 @@ export const getEcosystemMasterWalletBalance = async (
       }
     }
 
-    let formattedBalance;
-    if (["BTC", "LTC", "DOGE", "DASH"].includes(wallet.chain)) {
-      formattedBalance = await fetchUTXOWalletBalance(
-        wallet.chain,
-        wallet.address
-      );
-    } else if (wallet.chain === "SOL") {
-      const solanaService = await SolanaService.getInstance();
-      formattedBalance = await solanaService.getBalance(wallet.address);
-    } else if (wallet.chain === "TRON") {
-      const tronService = await TronService.getInstance();
-      formattedBalance = await tronService.getBalance(wallet.address);
-    } else if (wallet.chain === "XMR") {
-      const moneroService = await MoneroService.getInstance();
-      formattedBalance = await moneroService.getBalance("master_wallet");
-    } else if (wallet.chain === "TON") {
-      const tonService = await TonService.getInstance();
-      formattedBalance = await tonService.getBalance(wallet.address);
-    } else {
-      const provider = await getProvider(wallet.chain);
-
-      const balance = await provider.getBalance(wallet.address);
-
-      const decimals = chainConfigs[wallet.chain].decimals;
-      formattedBalance = ethers.formatUnits(balance.toString(), decimals);
-    }
+    const formattedBalance = await getChainAdapter(wallet.chain).getBalance(
+      wallet.chain,
+      wallet.address
+    );
 
     if (!formattedBalance || isNaN(parseFloat(formattedBalance))) {
       console.log(
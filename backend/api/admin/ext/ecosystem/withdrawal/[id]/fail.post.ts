@@ -0,0 +1,55 @@
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import WithdrawalQueue from "@b/utils/eco/withdrawalQueue";
+
+export const metadata: OperationObject = {
+  summary: "Fails a queued or dead-lettered withdrawal job",
+  description:
+    "Fails the withdrawal and refunds the user. For a dead-lettered job, only do this once the chain shows the withdrawal was not sent.",
+  operationId: "failEcosystemWithdrawalJob",
+  tags: ["Admin", "Ecosystem", "Withdrawals"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the withdrawal job to fail",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              description: "Reason shown to the user",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Ecosystem Withdrawal Job"),
+  requiresAuth: true,
+  permission: "Access Ecosystem Withdrawal Queue Management",
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+
+  try {
+    await WithdrawalQueue.getInstance().failJob(
+      params.id,
+      body?.reason || "Withdrawal cancelled by an administrator"
+    );
+  } catch (error) {
+    throw createError({ statusCode: 400, message: error.message });
+  }
+
+  return { message: "Withdrawal job failed and refunded successfully" };
+};
@@ -0,0 +1,36 @@
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import WithdrawalQueue from "@b/utils/eco/withdrawalQueue";
+
+export const metadata: OperationObject = {
+  summary: "Requeues a dead-lettered withdrawal job",
+  description:
+    "Puts a dead-lettered withdrawal back in the queue with a fresh set of attempts. Only requeue once the chain shows the withdrawal was not sent, or it will be sent twice.",
+  operationId: "requeueEcosystemWithdrawalJob",
+  tags: ["Admin", "Ecosystem", "Withdrawals"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the withdrawal job to requeue",
+      schema: { type: "string" },
+    },
+  ],
+  responses: updateRecordResponses("Ecosystem Withdrawal Job"),
+  requiresAuth: true,
+  permission: "Access Ecosystem Withdrawal Queue Management",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  try {
+    await WithdrawalQueue.getInstance().requeueJob(params.id);
+  } catch (error) {
+    throw createError({ statusCode: 400, message: error.message });
+  }
+
+  return { message: "Withdrawal job requeued successfully" };
+};
@@ -0,0 +1,81 @@
+// /server/api/admin/ext/ecosystem/withdrawal/index.get.ts
+
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { ecosystemWithdrawalJobSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary:
+    "Lists ecosystem withdrawal jobs with pagination and optional filtering",
+  description:
+    "Lists the jobs of the persistent withdrawal queue. Dead-lettered jobs need a decision: check the chain, then requeue or fail them.",
+  operationId: "listEcosystemWithdrawalJobs",
+  tags: ["Admin", "Ecosystem", "Withdrawals"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of withdrawal jobs with their transaction",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: ecosystemWithdrawalJobSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Ecosystem Withdrawal Jobs"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access Ecosystem Withdrawal Queue Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.ecosystemWithdrawalJob,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.transaction,
+        as: "transaction",
+        attributes: [
+          "id",
+          "status",
+          "amount",
+          "fee",
+          "metadata",
+          "referenceId",
+        ],
+        includeModels: [
+          {
+            model: models.user,
+            as: "user",
+            attributes: ["avatar", "firstName", "lastName", "email"],
+          },
+        ],
+      },
+    ],
+    numericFields: ["attempts", "maxAttempts"],
+  });
+};
@@ -0,0 +1,45 @@
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+export const ecosystemWithdrawalJobSchema = {
+  id: baseStringSchema("ID of the withdrawal job"),
+  transactionId: baseStringSchema("ID of the withdrawal transaction"),
+  idempotencyKey: baseStringSchema(
+    "Key preventing the withdrawal from being queued twice"
+  ),
+  status: {
+    ...baseStringSchema("Status of the job"),
+    enum: [
+      "PENDING",
+      "PROCESSING",
+      "BROADCASTING",
+      "COMPLETED",
+      "FAILED",
+      "DEAD",
+    ],
+  },
+  attempts: baseNumberSchema("Number of attempts made"),
+  maxAttempts: baseNumberSchema("Attempts allowed before the job fails"),
+  nextAttemptAt: baseStringSchema("Date the job is next attempted"),
+  lockedBy: baseStringSchema("Worker holding the job", 191, 0, true),
+  lockedAt: baseStringSchema("Date the job was claimed", 255, 0, true),
+  broadcastAt: baseStringSchema(
+    "Date the withdrawal was handed to the chain",
+    255,
+    0,
+    true
+  ),
+  lastError: baseStringSchema("Error of the last attempt", 65535, 0, true),
+  createdAt: baseStringSchema("Date the job was queued"),
+  updatedAt: baseStringSchema("Date the job was last updated"),
+  transaction: {
+    type: "object",
+    properties: {
+      id: baseStringSchema("ID of the transaction"),
+      status: baseStringSchema("Status of the transaction"),
+      amount: baseNumberSchema("Amount withdrawn"),
+      fee: baseNumberSchema("Fee of the withdrawal"),
+      metadata: baseStringSchema("Chain and destination of the withdrawal"),
+      referenceId: baseStringSchema("On-chain reference", 191, 0, true),
+    },
+  },
+};
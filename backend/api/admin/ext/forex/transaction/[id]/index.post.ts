@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendForexTransactionEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
 
@@ -113,28 +114,45 @@ export default async (data: Handler) => {
       }
     }
 
-    // Update wallet if necessary
-    if (walletBalance !== wallet.balance) {
-      await models.wallet.update(
-        { balance: walletBalance },
-        {
-          where: { id: wallet.id },
-        }
-      );
-    }
+    const updatedTransaction = await sequelize.transaction(async (t) => {
+      // Update wallet if necessary
+      if (walletBalance !== wallet.balance) {
+        const lockedWallet = await models.wallet.findByPk(wallet.id, {
+          transaction: t,
+          lock: t.LOCK.UPDATE,
+        });
+        if (!lockedWallet) throw new Error("Wallet not found");
+
+        await setWalletBalances(
+          lockedWallet,
+          { balance: lockedWallet.balance + (walletBalance - wallet.balance) },
+          {
+            description:
+              status === "REJECTED"
+                ? "Refund of a rejected Forex deposit"
+                : "Forex withdrawal",
+            referenceType: "transaction",
+            referenceId: transaction.id,
+          },
+          t
+        );
+      }
 
-    // Update forex account if necessary
-    if (balance !== account.balance) {
-      await models.forexAccount.update(
-        { balance },
-        {
-          where: { id: account.id },
-        }
-      );
-    }
+      // Update forex account if necessary
+      if (balance !== account.balance) {
+        await models.forexAccount.update(
+          { balance },
+          {
+            where: { id: account.id },
+            transaction: t,
+          }
+        );
+      }
 
-    const updatedTransaction = await models.transaction.update(updateData, {
-      where: { id },
+      return await models.transaction.update(updateData, {
+        where: { id },
+        transaction: t,
+      });
     });
 
     // Fetch user information for email
@@ -0,0 +1,60 @@
+// backend/api/admin/ext/futures/insurance/index.get.ts
+
+import { models } from "@b/db";
+import { getInsuranceFundUserId } from "@b/utils/futures/insuranceFund";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { insuranceFundSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "List all futures insurance funds",
+  description:
+    "Retrieves the insurance fund wallet of every currency with its current balance.",
+  operationId: "listFuturesInsuranceFunds",
+  tags: ["Admin", "Futures Insurance Fund"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Futures insurance funds retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: insuranceFundSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Futures Insurance Funds"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Futures Insurance Fund Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.wallet,
+    query,
+    where: { userId: await getInsuranceFundUserId(), type: "FUTURES" },
+    sortField: query.sortField || "currency",
+    numericFields: ["balance"],
+  });
+};
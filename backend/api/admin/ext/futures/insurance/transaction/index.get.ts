@@ -0,0 +1,86 @@
+// backend/api/admin/ext/futures/insurance/transaction/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getInsuranceFundUserId,
+  INSURANCE_FUND_TRANSACTION_TYPES,
+} from "@b/utils/futures/insuranceFund";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { insuranceFundTransactionSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List the futures insurance fund history",
+  description:
+    "Retrieves a paginated list of liquidation surpluses paid into and shortfalls covered by the futures insurance funds.",
+  operationId: "listFuturesInsuranceFundTransactions",
+  tags: ["Admin", "Futures Insurance Fund"],
+  parameters: [
+    ...crudParameters,
+    {
+      name: "type",
+      in: "query",
+      description: "Filter by transaction type",
+      schema: {
+        type: "string",
+        enum: INSURANCE_FUND_TRANSACTION_TYPES,
+      },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Insurance fund transactions retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: insuranceFundTransactionSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Insurance Fund Transactions"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Futures Insurance Fund Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.transaction,
+    query,
+    where: {
+      userId: await getInsuranceFundUserId(),
+      type: INSURANCE_FUND_TRANSACTION_TYPES.includes(query.type)
+        ? query.type
+        : INSURANCE_FUND_TRANSACTION_TYPES,
+    },
+    sortField: query.sortField || "createdAt",
+    numericFields: ["amount"],
+    includeModels: [
+      {
+        model: models.wallet,
+        as: "wallet",
+        attributes: ["id", "currency"],
+      },
+    ],
+  });
+};
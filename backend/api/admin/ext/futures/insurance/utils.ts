@@ -0,0 +1,46 @@
+// backend/api/admin/ext/futures/insurance/utils.ts
+
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the insurance fund wallet");
+const currency = baseStringSchema("Currency the insurance fund is held in");
+
+export const insuranceFundSchema = {
+  id,
+  currency,
+  balance: baseNumberSchema("Current balance of the insurance fund"),
+  createdAt: baseStringSchema("Creation date of the insurance fund"),
+  updatedAt: baseStringSchema("Date of the last fund movement"),
+};
+
+export const insuranceFundTransactionSchema = {
+  id: baseStringSchema("ID of the insurance fund transaction"),
+  walletId: baseStringSchema("ID of the insurance fund wallet"),
+  type: {
+    ...baseStringSchema("Type of the insurance fund transaction"),
+    enum: ["LIQUIDATION_SURPLUS", "LIQUIDATION_SHORTFALL"],
+  },
+  amount: baseNumberSchema("Amount paid into or out of the fund"),
+  referenceId: {
+    ...baseStringSchema("ID of the liquidation order"),
+    nullable: true,
+  },
+  description: {
+    ...baseStringSchema("Description of the transaction"),
+    nullable: true,
+  },
+  metadata: {
+    ...baseStringSchema(
+      "Liquidated symbol and user, and the fund balance after the transaction"
+    ),
+    nullable: true,
+  },
+  createdAt: baseStringSchema("Date of the transaction"),
+  wallet: {
+    type: "object",
+    properties: {
+      id,
+      currency,
+    },
+  },
+};
@@ -58,6 +58,24 @@ const metadata = {
     },
     taker: baseNumberSchema("Taker fee"),
     maker: baseNumberSchema("Maker fee"),
+    marginTiers: {
+      type: "array",
+      nullable: true,
+      description:
+        "Maintenance margin tiers by position notional, in ascending order",
+      items: {
+        type: "object",
+        properties: {
+          maxNotional: baseNumberSchema(
+            "Upper bound of the position notional, null for the last tier",
+            true
+          ),
+          maintenanceMarginRate: baseNumberSchema(
+            "Maintenance margin rate in percent"
+          ),
+        },
+      },
+    },
   },
 };
 
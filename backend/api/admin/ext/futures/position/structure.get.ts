@@ -31,6 +31,7 @@ export const positionStructure = () => {
       { value: "OPEN", label: "Open" },
       { value: "CLOSED", label: "Closed" },
       { value: "CANCELLED", label: "Cancelled" },
+      { value: "LIQUIDATED", label: "Liquidated" },
     ],
     placeholder: "Select status",
     ts: "string",
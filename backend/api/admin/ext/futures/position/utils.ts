@@ -12,7 +12,7 @@ const userId = {
 };
 const status = {
   ...baseStringSchema("Current status of the position"),
-  enum: ["OPEN", "CLOSED", "CANCELLED"],
+  enum: ["OPEN", "CLOSED", "CANCELLED", "LIQUIDATED"],
 };
 const symbol = baseStringSchema("Trading symbol of the position");
 const side = {
@@ -27,6 +27,14 @@ const unrealizedPnl = baseNumberSchema(
 );
 const stopLossPrice = baseNumberSchema("Stop loss price of the position");
 const takeProfitPrice = baseNumberSchema("Take profit price of the position");
+const marginMode = {
+  ...baseStringSchema("Margin mode of the position (ISOLATED, CROSS)"),
+  enum: ["ISOLATED", "CROSS"],
+};
+const margin = baseNumberSchema("Margin held by the position", true);
+const liquidationPrice = baseNumberSchema(
+  "Mark price at which the position gets liquidated"
+);
 
 const user = {
   type: "object",
@@ -60,6 +68,9 @@ export const baseFuturesPositionSchema = {
   unrealizedPnl,
   stopLossPrice,
   takeProfitPrice,
+  liquidationPrice,
+  marginMode,
+  margin,
   user,
 };
 
@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   deleteRecordParams,
   deleteRecordResponses,
@@ -41,26 +42,33 @@ export default async (data: Handler) => {
       throw new Error("Contribution not found");
     }
 
-    const wallet = await models.wallet.findOne({
-      where: {
-        userId: contribution.userId,
-        currency: contribution.phase.token.purchaseCurrency,
-        type: contribution.phase.token.purchaseWalletType,
-      },
-    });
-
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
+    await sequelize.transaction(async (transaction) => {
+      const wallet = await models.wallet.findOne({
+        where: {
+          userId: contribution.userId,
+          currency: contribution.phase.token.purchaseCurrency,
+          type: contribution.phase.token.purchaseWalletType,
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
 
-    // Calculate new balance
-    const newBalance = wallet.balance + contribution.amount;
+      if (!wallet) {
+        throw new Error("Wallet not found");
+      }
 
-    // Update wallet balance
-    await models.wallet.update(
-      { balance: newBalance },
-      { where: { id: wallet.id } }
-    );
+      // Refund the contribution to the wallet
+      await setWalletBalances(
+        wallet,
+        { balance: wallet.balance + contribution.amount },
+        {
+          description: "Refund of a deleted ICO contribution",
+          referenceType: "icoContribution",
+          referenceId: contribution.id,
+        },
+        transaction
+      );
+    });
 
     // Store the contribution UUID for later use in postDelete
     externalData.contributionId = contribution.id;
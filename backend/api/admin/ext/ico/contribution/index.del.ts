@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   commonBulkDeleteParams,
   commonBulkDeleteResponses,
@@ -56,23 +57,31 @@ export default async (data: Handler) => {
       });
 
       if (contribution) {
-        const wallet = await models.wallet.findOne({
-          where: {
-            userId: contribution.userId,
-            currency: contribution.phase.token.purchaseCurrency,
-            type: contribution.phase.token.purchaseWalletType,
-          },
-        });
-
-        if (wallet) {
-          const newBalance = wallet.balance + contribution.amount;
+        await sequelize.transaction(async (transaction) => {
+          const wallet = await models.wallet.findOne({
+            where: {
+              userId: contribution.userId,
+              currency: contribution.phase.token.purchaseCurrency,
+              type: contribution.phase.token.purchaseWalletType,
+            },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
 
-          // Update wallet balance
-          await models.wallet.update(
-            { balance: newBalance },
-            { where: { id: wallet.id } }
-          );
-        }
+          if (wallet) {
+            // Refund the contribution to the wallet
+            await setWalletBalances(
+              wallet,
+              { balance: wallet.balance + contribution.amount },
+              {
+                description: "Refund of a deleted ICO contribution",
+                referenceType: "icoContribution",
+                referenceId: contribution.id,
+              },
+              transaction
+            );
+          }
+        });
       }
     }
   };
@@ -45,11 +45,22 @@ export const metadata = {
 export default async (data) => {
   const { params } = data;
 
-  return await getRecord("mailwizardCampaign", params.id, [
+  const campaign: any = await getRecord("mailwizardCampaign", params.id, [
     {
       model: models.mailwizardTemplate,
       as: "template",
       attributes: ["id", "name"],
     },
+    {
+      model: models.mailwizardSegment,
+      as: "segment",
+      attributes: ["id", "name"],
+    },
   ]);
+
+  // Edited as one subject per line
+  return {
+    ...campaign,
+    subjectVariants: (campaign.subjectVariants || []).join("\n"),
+  };
 };
@@ -1,3 +1,4 @@
+import { parseSubjectVariants } from "@b/utils/mailwizard";
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
 import { mailwizardCampaignUpdateSchema } from "../utils";
 
@@ -32,7 +33,16 @@ export const metadata = {
 export default async (data) => {
   const { body, params } = data;
   const { id } = params;
-  const { name, subject, status, speed, targets, templateId } = body;
+  const {
+    name,
+    subject,
+    status,
+    speed,
+    targets,
+    templateId,
+    segmentId,
+    subjectVariants,
+  } = body;
 
   return await updateRecord("mailwizardCampaign", id, {
     name,
@@ -41,5 +51,9 @@ export default async (data) => {
     speed,
     targets,
     templateId,
+    ...(segmentId !== undefined && { segmentId: segmentId || null }),
+    ...(subjectVariants !== undefined && {
+      subjectVariants: parseSubjectVariants(subjectVariants),
+    }),
   });
 };
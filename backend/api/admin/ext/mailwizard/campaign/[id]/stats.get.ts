@@ -0,0 +1,68 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getCampaignStats } from "@b/utils/mailwizard";
+import {
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary:
+    "Retrieves the delivery and engagement stats of a Mailwizard Campaign",
+  operationId: "getMailwizardCampaignStats",
+  tags: ["Admin", "Marketing", "Mailwizard Campaigns"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the Mailwizard Campaign",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description:
+        "Recipient counts, opens, clicks and unsubscribes, overall and per subject variant",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              recipients: { type: "number" },
+              pending: { type: "number" },
+              sent: { type: "number" },
+              failed: { type: "number" },
+              skipped: { type: "number" },
+              opened: { type: "number" },
+              clicked: { type: "number" },
+              unsubscribed: { type: "number" },
+              openRate: { type: "number" },
+              clickRate: { type: "number" },
+              unsubscribeRate: { type: "number" },
+              variants: { type: "array", items: { type: "object" } },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Mailwizard Campaign"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Mailwizard Campaign Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const campaign = await models.mailwizardCampaign.findByPk(params.id);
+  if (!campaign) {
+    throw createError({ statusCode: 404, message: "Campaign not found" });
+  }
+
+  return getCampaignStats(campaign);
+};
@@ -53,31 +53,40 @@ export default async (data) => {
   if (status === "STOPPED") {
     // Find the campaign with its targets
     const campaign = await models.mailwizardCampaign.findByPk(id, {
-      attributes: ["id", "targets"],
+      attributes: ["id", "targets", "segmentId"],
     });
 
     if (!campaign) {
       throw new Error("Campaign not found");
     }
 
-    if (!campaign.targets) {
+    if (!campaign.targets && !campaign.segmentId) {
       throw new Error("Campaign targets not found");
     }
 
-    const targets = JSON.parse(campaign.targets);
-    if (targets) {
-      const updatedTargets = targets.map((target) => ({
-        ...target,
-        status: "PENDING",
-      }));
+    const targets = campaign.targets ? JSON.parse(campaign.targets) : null;
+    const updatedTargets = targets
+      ? targets.map((target) => ({
+          ...target,
+          status: "PENDING",
+        }))
+      : null;
 
-      await models.mailwizardCampaign.update(
-        { status, targets: JSON.stringify(updatedTargets) },
-        {
-          where: { id },
-        }
-      );
-    }
+    // Stopping starts the campaign over, its recipients are resolved again
+    // on the next start
+    await models.mailwizardRecipient.destroy({
+      where: { campaignId: id },
+    });
+    await models.mailwizardCampaign.update(
+      {
+        status,
+        recipientsResolvedAt: null,
+        ...(updatedTargets && { targets: JSON.stringify(updatedTargets) }),
+      },
+      {
+        where: { id },
+      }
+    );
   } else {
     // For other statuses, just update the campaign status
     await models.mailwizardCampaign.update(
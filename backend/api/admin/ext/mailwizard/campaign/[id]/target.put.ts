@@ -1,3 +1,5 @@
+import { models } from "@b/db";
+import { addCampaignRecipients, parseCampaignTargets } from "@b/utils/mailwizard";
 import { updateRecord, updateRecordResponses } from "@b/utils/query";
 
 export const metadata = {
@@ -41,7 +43,21 @@ export default async (data) => {
   const { id } = params;
   const { targets } = body;
 
-  return await updateRecord("mailwizardCampaign", id, {
+  const result = await updateRecord("mailwizardCampaign", id, {
     targets,
   });
+
+  // Targets added once sending started are queued right away
+  const campaign = await models.mailwizardCampaign.findByPk(id);
+  if (campaign?.recipientsResolvedAt) {
+    await addCampaignRecipients(
+      campaign,
+      parseCampaignTargets(targets).map((target) => ({
+        email: target.email,
+        userId: target.id,
+      }))
+    );
+  }
+
+  return result;
 };
@@ -67,6 +67,11 @@ export default async (data: Handler) => {
         as: "template",
         attributes: ["id", "name"],
       },
+      {
+        model: models.mailwizardSegment,
+        as: "segment",
+        attributes: ["id", "name"],
+      },
     ],
   });
 };
@@ -1,5 +1,6 @@
 // /api/admin/mailwizard/campaigns/store.post.ts
 
+import { parseSubjectVariants } from "@b/utils/mailwizard";
 import { storeRecord, storeRecordResponses } from "@b/utils/query";
 import {
   mailwizardCampaignStoreSchema,
@@ -28,7 +29,7 @@ export const metadata = {
 
 export default async (data: Handler) => {
   const { body } = data;
-  const { name, subject, speed, templateId } = body;
+  const { name, subject, speed, templateId, segmentId, subjectVariants } = body;
 
   return await storeRecord({
     model: "mailwizardCampaign",
@@ -38,6 +39,8 @@ export default async (data: Handler) => {
       status: "PENDING",
       speed,
       templateId,
+      segmentId: segmentId || null,
+      subjectVariants: parseSubjectVariants(subjectVariants),
     },
   });
 };
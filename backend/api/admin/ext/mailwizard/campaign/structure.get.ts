@@ -18,6 +18,9 @@ export const metadata = {
 
 export const mailwizardCampaignStructure = async () => {
   const templates = await models.mailwizardTemplate.findAll();
+  const segments = await models.mailwizardSegment.findAll({
+    attributes: ["id", "name"],
+  });
   const name = {
     type: "input",
     label: "Name",
@@ -73,6 +76,28 @@ export const mailwizardCampaignStructure = async () => {
     placeholder: "Select the template ID",
   };
 
+  const segmentId = {
+    type: "select",
+    label: "Segment",
+    name: "segmentId",
+    options: [
+      { value: "", label: "No segment" },
+      ...segments.map((segment) => ({
+        value: segment.id,
+        label: segment.name,
+      })),
+    ],
+    placeholder: "Select the segment to send to",
+  };
+
+  const subjectVariants = {
+    type: "textarea",
+    label: "Subject Variants",
+    name: "subjectVariants",
+    placeholder:
+      "Alternative subjects for A/B testing, one per line. Recipients are split evenly between them and the subject.",
+  };
+
   return {
     name,
     subject,
@@ -80,12 +105,22 @@ export const mailwizardCampaignStructure = async () => {
     speed,
     targets,
     templateId,
+    segmentId,
+    subjectVariants,
   };
 };
 
 export default async () => {
-  const { name, subject, status, speed, targets, templateId } =
-    await mailwizardCampaignStructure();
+  const {
+    name,
+    subject,
+    status,
+    speed,
+    targets,
+    templateId,
+    segmentId,
+    subjectVariants,
+  } = await mailwizardCampaignStructure();
 
   return {
     get: [
@@ -98,12 +133,20 @@ export default async () => {
         name: "template.name",
         icon: "ph:wallet-light",
       },
+      {
+        type: "input",
+        label: "Segment",
+        name: "segment.name",
+        icon: "ph:users-three-light",
+      },
       status,
     ],
     set: [
       [name, subject],
       [templateId, speed],
+      segmentId,
+      subjectVariants,
     ],
-    edit: [subject, speed, templateId],
+    edit: [subject, speed, templateId, segmentId, subjectVariants],
   };
 };
@@ -24,6 +24,18 @@ const targets = baseStringSchema(
   true
 );
 const templateId = baseStringSchema("Associated template ID");
+const segmentId = baseStringSchema(
+  "Segment whose users receive the campaign",
+  191,
+  0,
+  true
+);
+const subjectVariants = baseStringSchema(
+  "Alternative subjects for A/B testing, one per line",
+  2000,
+  0,
+  true
+);
 const createdAt = baseDateTimeSchema("Creation date of the campaign");
 const updatedAt = baseDateTimeSchema("Last update date of the campaign", true);
 
@@ -33,6 +45,7 @@ export const mailwizardCampaignSchema = {
   subject,
   speed,
   templateId,
+  segmentId,
 };
 
 export const baseMailwizardCampaignSchema = {
@@ -42,6 +55,7 @@ export const baseMailwizardCampaignSchema = {
   speed,
   targets,
   templateId,
+  segmentId,
 };
 
 export const mailwizardCampaignUpdateSchema = {
@@ -51,6 +65,8 @@ export const mailwizardCampaignUpdateSchema = {
     subject,
     speed,
     templateId,
+    segmentId,
+    subjectVariants,
   },
   required: ["name", "subject", "speed", "templateId"],
 };
@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes a specific Mailwizard segment",
+  operationId: "deleteMailwizardSegment",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  parameters: deleteRecordParams("Mailwizard segment"),
+  responses: deleteRecordResponses("Mailwizard segment"),
+  permission: "Access Mailwizard Campaign Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "mailwizardSegment",
+    id: params.id,
+    query,
+  });
+};
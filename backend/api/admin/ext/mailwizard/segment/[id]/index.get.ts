@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  unauthorizedResponse,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+} from "@b/utils/query";
+import { baseMailwizardSegmentSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves a specific Mailwizard Segment by ID",
+  operationId: "getMailwizardSegmentById",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the Mailwizard Segment to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Mailwizard Segment details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: baseMailwizardSegmentSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Mailwizard Segment"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Mailwizard Campaign Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return await getRecord("mailwizardSegment", params.id);
+};
@@ -0,0 +1,43 @@
+import { validateSegmentRules } from "@b/utils/mailwizard";
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import { mailwizardSegmentUpdateSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Updates a specific Mailwizard Segment",
+  operationId: "updateMailwizardSegment",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      description: "ID of the Mailwizard Segment to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    description: "New data for the Mailwizard Segment",
+    content: {
+      "application/json": {
+        schema: mailwizardSegmentUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("Mailwizard Segment"),
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { name, description, rules } = body;
+
+  return await updateRecord("mailwizardSegment", id, {
+    name,
+    description,
+    rules: validateSegmentRules(rules),
+  });
+};
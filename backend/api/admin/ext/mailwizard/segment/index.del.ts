@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Bulk deletes Mailwizard segments by IDs",
+  operationId: "bulkDeleteMailwizardSegments",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  parameters: commonBulkDeleteParams("Mailwizard Segments"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of Mailwizard segment IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("Mailwizard Segments"),
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "mailwizardSegment",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,48 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { getFiltered } from "@b/utils/query";
+import { baseMailwizardSegmentSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary:
+    "Lists all Mailwizard Segments with pagination and optional filtering",
+  operationId: "listMailwizardSegments",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of Mailwizard Segments with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseMailwizardSegmentSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized access" },
+    500: { description: "Internal server error" },
+  },
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.mailwizardSegment,
+    query,
+    sortField: query.sortField || "createdAt",
+  });
+};
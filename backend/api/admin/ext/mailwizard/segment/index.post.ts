@@ -0,0 +1,40 @@
+import { validateSegmentRules } from "@b/utils/mailwizard";
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import {
+  mailwizardSegmentStoreSchema,
+  mailwizardSegmentUpdateSchema,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Stores a new Mailwizard Segment",
+  operationId: "storeMailwizardSegment",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: mailwizardSegmentUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(
+    mailwizardSegmentStoreSchema,
+    "Mailwizard Segment"
+  ),
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const { name, description, rules } = body;
+
+  return await storeRecord({
+    model: "mailwizardSegment",
+    data: {
+      name,
+      description,
+      rules: validateSegmentRules(rules),
+    },
+  });
+};
@@ -0,0 +1,43 @@
+import { countSegmentUsers, validateSegmentRules } from "@b/utils/mailwizard";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import {
+  mailwizardSegmentPreviewResponseSchema,
+  mailwizardSegmentPreviewSchema,
+} from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Counts the users that currently match segment rules",
+  operationId: "previewMailwizardSegment",
+  tags: ["Admin", "Mailwizard", "Segments"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: mailwizardSegmentPreviewSchema,
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Number of matching users",
+      content: {
+        "application/json": {
+          schema: mailwizardSegmentPreviewResponseSchema,
+        },
+      },
+    },
+    400: { description: "Invalid segment rules" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+
+  return {
+    users: await countSegmentUsers(validateSegmentRules(body.rules)),
+  };
+};
@@ -0,0 +1,80 @@
+import {
+  baseStringSchema,
+  baseDateTimeSchema,
+  baseNumberSchema,
+} from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the Mailwizard Segment");
+const name = baseStringSchema("Segment Name", 191);
+const description = baseStringSchema("Segment Description", 1000, 0, true);
+const rules = {
+  type: "array",
+  description:
+    "Rules a user must all match: kycLevel, walletBalance, lastLogin, extension or emailVerified",
+  items: {
+    type: "object",
+    properties: {
+      field: baseStringSchema("Attribute the rule checks"),
+      operator: baseStringSchema("Comparison of the rule", 191, 0, true),
+      value: {
+        type: "string",
+        description:
+          "Value the attribute is compared with, parsed as the number or flag the rule expects",
+        nullable: true,
+      },
+      currency: baseStringSchema("Wallet currency", 191, 0, true),
+      walletType: baseStringSchema("Wallet type", 191, 0, true),
+      extension: baseStringSchema("Extension name", 191, 0, true),
+    },
+    required: ["field"],
+  },
+};
+const users = baseNumberSchema("Number of users currently in the segment");
+const createdAt = baseDateTimeSchema("Creation date of the segment");
+const updatedAt = baseDateTimeSchema("Last update date of the segment", true);
+
+export const baseMailwizardSegmentSchema = {
+  id,
+  name,
+  description,
+  rules,
+  createdAt,
+  updatedAt,
+};
+
+export const mailwizardSegmentUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    description,
+    rules,
+  },
+  required: ["name", "rules"],
+};
+
+export const mailwizardSegmentPreviewSchema = {
+  type: "object",
+  properties: {
+    rules,
+  },
+  required: ["rules"],
+};
+
+export const mailwizardSegmentPreviewResponseSchema = {
+  type: "object",
+  properties: {
+    users,
+  },
+};
+
+export const mailwizardSegmentStoreSchema = {
+  description: `Mailwizard Segment created or updated successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: baseMailwizardSegmentSchema,
+      },
+    },
+  },
+};
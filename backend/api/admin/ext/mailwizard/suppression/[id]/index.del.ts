@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Removes an address from the suppression list",
+  operationId: "deleteMailwizardSuppression",
+  tags: ["Admin", "Mailwizard", "Suppressions"],
+  parameters: deleteRecordParams("Suppressed address"),
+  responses: deleteRecordResponses("Suppressed address"),
+  permission: "Access Mailwizard Campaign Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "mailwizardSuppression",
+    id: params.id,
+    query,
+  });
+};
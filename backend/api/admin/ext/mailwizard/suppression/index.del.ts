@@ -0,0 +1,43 @@
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Removes addresses from the suppression list",
+  operationId: "bulkDeleteMailwizardSuppressions",
+  tags: ["Admin", "Mailwizard", "Suppressions"],
+  parameters: commonBulkDeleteParams("Suppressed addresses"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "IDs of the suppressed addresses to remove",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("Suppressed addresses"),
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "mailwizardSuppression",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,48 @@
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { getFiltered } from "@b/utils/query";
+import { baseMailwizardSuppressionSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Lists the addresses excluded from marketing emails",
+  operationId: "listMailwizardSuppressions",
+  tags: ["Admin", "Mailwizard", "Suppressions"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Suppressed addresses with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseMailwizardSuppressionSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized access" },
+    500: { description: "Internal server error" },
+  },
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.mailwizardSuppression,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+  });
+};
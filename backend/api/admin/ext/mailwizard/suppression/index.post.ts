@@ -0,0 +1,39 @@
+import { suppressEmail } from "@b/utils/mailwizard";
+import { storeRecordResponses } from "@b/utils/query";
+import { mailwizardSuppressionStoreSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Adds an address to the suppression list",
+  operationId: "storeMailwizardSuppression",
+  tags: ["Admin", "Mailwizard", "Suppressions"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            email: {
+              type: "string",
+              description: "Email address to exclude from marketing emails",
+            },
+          },
+          required: ["email"],
+        },
+      },
+    },
+  },
+  responses: storeRecordResponses(
+    mailwizardSuppressionStoreSchema,
+    "Suppressed address"
+  ),
+  requiresAuth: true,
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+
+  await suppressEmail(body.email, "MANUAL");
+  return { message: "Address added to the suppression list" };
+};
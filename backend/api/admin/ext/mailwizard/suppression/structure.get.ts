@@ -0,0 +1,28 @@
+import { structureSchema } from "@b/utils/constants";
+
+export const metadata: OperationObject = {
+  summary: "Get form structure for the suppression list",
+  operationId: "getMailwizardSuppressionStructure",
+  tags: ["Admin", "Mailwizard", "Suppressions"],
+  responses: {
+    200: {
+      description: "Form structure for adding suppressed addresses",
+      content: structureSchema,
+    },
+  },
+  permission: "Access Mailwizard Campaign Management",
+};
+
+export default async () => {
+  const email = {
+    type: "input",
+    label: "Email",
+    name: "email",
+    placeholder: "Enter the email address to suppress",
+  };
+
+  return {
+    get: [email],
+    set: [email],
+  };
+};
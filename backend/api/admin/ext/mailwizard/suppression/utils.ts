@@ -0,0 +1,41 @@
+import {
+  baseStringSchema,
+  baseDateTimeSchema,
+  baseEnumSchema,
+} from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the suppressed address");
+const email = baseStringSchema("Email address that gets no marketing emails");
+const reason = baseEnumSchema("Reason the address is suppressed", [
+  "UNSUBSCRIBED",
+  "BOUNCED",
+  "COMPLAINED",
+  "MANUAL",
+]);
+const campaignId = baseStringSchema(
+  "Campaign the address unsubscribed from",
+  191,
+  0,
+  true
+);
+const createdAt = baseDateTimeSchema("Date the address was suppressed");
+
+export const baseMailwizardSuppressionSchema = {
+  id,
+  email,
+  reason,
+  campaignId,
+  createdAt,
+};
+
+export const mailwizardSuppressionStoreSchema = {
+  description: `Address added to the suppression list`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: baseMailwizardSuppressionSchema,
+      },
+    },
+  },
+};
@@ -0,0 +1,38 @@
+// backend/api/admin/ext/nft/asset/[id]/index.del.ts
+
+import { createError } from "@b/utils/error";
+import { getActiveAuction } from "@b/api/ext/nft/utils";
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes an NFT asset",
+  description:
+    "Deletes an asset. Assets on a running auction cannot be deleted.",
+  operationId: "deleteNftAsset",
+  tags: ["Admin", "NFT", "Assets"],
+  parameters: deleteRecordParams("NFT asset"),
+  responses: deleteRecordResponses("NFT asset"),
+  permission: "Access NFT Asset Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+
+  if (!query.restore && (await getActiveAuction(params.id))) {
+    throw createError({
+      statusCode: 400,
+      message: "Cancel the running auction of the asset first",
+    });
+  }
+
+  return handleSingleDelete({
+    model: "nftAsset",
+    id: params.id,
+    query,
+  });
+};
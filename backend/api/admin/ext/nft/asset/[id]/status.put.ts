@@ -0,0 +1,48 @@
+// backend/api/admin/ext/nft/asset/[id]/status.put.ts
+
+import { updateStatus, updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Updates the status of an NFT Asset",
+  description: "Hides or restores an NFT Asset on the marketplace.",
+  operationId: "updateNftAssetStatus",
+  tags: ["Admin", "NFT"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the NFT Asset to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            status: {
+              type: "boolean",
+              description:
+                "New status to apply to the NFT Asset (true for visible, false for hidden)",
+            },
+          },
+          required: ["status"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Asset"),
+  requiresAuth: true,
+  permission: "Access NFT Asset Management",
+};
+
+export default async (data) => {
+  const { body, params } = data;
+  const { id } = params;
+  const { status } = body;
+  return updateStatus("nftAsset", id, status);
+};
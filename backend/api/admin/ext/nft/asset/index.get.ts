@@ -0,0 +1,68 @@
+// backend/api/admin/ext/nft/asset/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseAssetSchema } from "@b/api/ext/nft/utils";
+
+export const metadata: OperationObject = {
+  summary: "List all NFT assets",
+  description: "Retrieves the NFT assets of all collections for moderation.",
+  operationId: "listNftAssets",
+  tags: ["Admin", "NFT", "Assets"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "NFT Assets retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseAssetSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Assets"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access NFT Asset Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftAsset,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name", "currency", "walletType"],
+      },
+      {
+        model: models.user,
+        as: "owner",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+  });
+};
@@ -0,0 +1,86 @@
+// backend/api/admin/ext/nft/auction/[id]/cancel.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { handleNotification } from "@b/utils/notifications";
+import { releaseBid } from "@b/api/ext/nft/utils";
+import { updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Cancels an NFT auction",
+  description:
+    "Cancels a running auction and releases the escrow of its highest bid.",
+  operationId: "cancelNftAuction",
+  tags: ["Admin", "NFT", "Auctions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the auction to cancel",
+      schema: { type: "string" },
+    },
+  ],
+  responses: updateRecordResponses("NFT Auction"),
+  requiresAuth: true,
+  permission: "Access NFT Auction Management",
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const { asset, bid } = await sequelize.transaction(async (transaction) => {
+    const auction = await models.nftAuction.findOne({
+      where: { id: params.id, status: "ACTIVE" },
+      include: [
+        {
+          model: models.nftAsset,
+          as: "nftAsset",
+          include: [{ model: models.nftCollection, as: "collection" }],
+        },
+      ],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!auction) {
+      throw createError({ statusCode: 404, message: "Auction not found" });
+    }
+
+    const bid = auction.currentBidId
+      ? await models.nftBid.findOne({
+          where: { id: auction.currentBidId, status: "PENDING" },
+          transaction,
+        })
+      : null;
+    if (bid) {
+      await releaseBid(bid, auction.nftAsset.collection, transaction);
+      await bid.update({ status: "DECLINED" }, { transaction });
+    }
+
+    await auction.update({ status: "CANCELLED" }, { transaction });
+    return { asset: auction.nftAsset, bid };
+  });
+
+  try {
+    const message = `The auction for "${asset.name}" was cancelled by an administrator.`;
+    await handleNotification({
+      userId: asset.ownerId,
+      title: "Auction Cancelled",
+      message,
+      type: "ACTIVITY",
+    });
+    if (bid) {
+      await handleNotification({
+        userId: bid.bidderId,
+        title: "Auction Cancelled",
+        message: `${message} Your bid has been released.`,
+        type: "ACTIVITY",
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to send notification: ${error.message}`);
+  }
+
+  return { message: "Auction cancelled successfully" };
+};
@@ -0,0 +1,64 @@
+// backend/api/admin/ext/nft/auction/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseAuctionSchema } from "@b/api/ext/nft/utils";
+
+export const metadata: OperationObject = {
+  summary: "List all NFT auctions",
+  description: "Retrieves the NFT auctions with their asset.",
+  operationId: "listNftAuctions",
+  tags: ["Admin", "NFT", "Auctions"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "NFT Auctions retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseAuctionSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Auctions"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access NFT Auction Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftAuction,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.nftAsset,
+        as: "nftAsset",
+        attributes: ["id", "name", "image", "ownerId"],
+      },
+    ],
+  });
+};
@@ -0,0 +1,59 @@
+// backend/api/admin/ext/nft/collection/[id]/index.del.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes an NFT collection",
+  description:
+    "Deletes a collection together with its assets. Collections with a running auction cannot be deleted.",
+  operationId: "deleteNftCollection",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: deleteRecordParams("NFT collection"),
+  responses: deleteRecordResponses("NFT collection"),
+  permission: "Access NFT Collection Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+
+  const auctions = await models.nftAuction.count({
+    where: { status: "ACTIVE" },
+    include: [
+      {
+        model: models.nftAsset,
+        as: "nftAsset",
+        where: { collectionId: params.id },
+      },
+    ],
+  });
+  if (auctions > 0 && !query.restore) {
+    throw createError({
+      statusCode: 400,
+      message: "Cancel the running auctions of the collection first",
+    });
+  }
+
+  return handleSingleDelete({
+    model: "nftCollection",
+    id: params.id,
+    query,
+    postDelete: async () => {
+      if (!query.restore) {
+        await models.nftAsset.destroy({
+          where: { collectionId: params.id },
+          force: !!query.force,
+        });
+      }
+    },
+    restoreRelated: async () => {
+      await models.nftAsset.restore({ where: { collectionId: params.id } });
+    },
+  });
+};
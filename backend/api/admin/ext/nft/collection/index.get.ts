@@ -0,0 +1,63 @@
+// backend/api/admin/ext/nft/collection/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseCollectionSchema } from "@b/api/ext/nft/utils";
+
+export const metadata: OperationObject = {
+  summary: "List all NFT collections",
+  description: "Retrieves the NFT collections of all creators for moderation.",
+  operationId: "listNftCollections",
+  tags: ["Admin", "NFT", "Collections"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "NFT Collections retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseCollectionSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Collections"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access NFT Collection Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftCollection,
+    query,
+    sortField: query.sortField || "createdAt",
+    includeModels: [
+      {
+        model: models.user,
+        as: "creator",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+  });
+};
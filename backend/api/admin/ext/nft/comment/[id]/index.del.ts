@@ -0,0 +1,26 @@
+// backend/api/admin/ext/nft/comment/[id]/index.del.ts
+
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Deletes an NFT comment",
+  operationId: "deleteNftComment",
+  tags: ["Admin", "NFT", "Comments"],
+  parameters: deleteRecordParams("NFT comment"),
+  responses: deleteRecordResponses("NFT comment"),
+  permission: "Access NFT Comment Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "nftComment",
+    id: params.id,
+    query,
+  });
+};
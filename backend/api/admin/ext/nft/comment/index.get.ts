@@ -0,0 +1,70 @@
+// backend/api/admin/ext/nft/comment/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseCommentSchema } from "@b/api/ext/nft/utils";
+
+export const metadata: OperationObject = {
+  summary: "List all NFT comments",
+  description:
+    "Retrieves the comments posted on NFT collections for moderation.",
+  operationId: "listNftComments",
+  tags: ["Admin", "NFT", "Comments"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "NFT Comments retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseCommentSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Comments"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access NFT Comment Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftComment,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        attributes: ["id", "name"],
+      },
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+  });
+};
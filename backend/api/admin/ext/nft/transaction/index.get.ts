@@ -0,0 +1,74 @@
+// backend/api/admin/ext/nft/transaction/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { baseTransactionSchema } from "@b/api/ext/nft/utils";
+
+export const metadata: OperationObject = {
+  summary: "List all NFT transactions",
+  description: "Retrieves the completed NFT sales and purchases.",
+  operationId: "listNftTransactions",
+  tags: ["Admin", "NFT", "Transactions"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "NFT Transactions retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: baseTransactionSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Transactions"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access NFT Transaction Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.nftTransaction,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.nftAsset,
+        as: "nftAsset",
+        attributes: ["id", "name", "image"],
+      },
+      {
+        model: models.user,
+        as: "buyer",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "firstName", "lastName", "email", "avatar"],
+      },
+    ],
+  });
+};
@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   deleteRecordParams,
   deleteRecordResponses,
@@ -34,27 +35,34 @@ export default async (data: Handler) => {
       throw new Error("Offer not found");
     }
 
-    const wallet = await models.wallet.findOne({
-      where: {
-        userId: offer.userId, // Assuming this field exists and is named correctly
-        type: offer.walletType, // Make sure the field names are correctly camelCased as per Sequelize model definitions
-        currency: offer.currency,
-      },
-    });
-
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
+    await sequelize.transaction(async (transaction) => {
+      const wallet = await models.wallet.findOne({
+        where: {
+          userId: offer.userId,
+          type: offer.walletType,
+          currency: offer.currency,
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
 
-    // Update the wallet balance by incrementing it with the offer amount
-    await models.wallet.update(
-      {
-        balance: wallet.balance + offer.amount, // Sequelize doesn't support increment in the update method directly
-      },
-      {
-        where: { id: wallet.id },
+      if (!wallet) {
+        throw new Error("Wallet not found");
       }
-    );
+
+      // Return the offer amount to the wallet
+      await setWalletBalances(
+        wallet,
+        { balance: wallet.balance + offer.amount },
+        {
+          account: "ORDER_ESCROW",
+          description: "Refund of a deleted P2P offer",
+          referenceType: "p2pOffer",
+          referenceId: offer.id,
+        },
+        transaction
+      );
+    });
   };
 
   const postDelete = async () => {
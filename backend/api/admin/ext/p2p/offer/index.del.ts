@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   commonBulkDeleteParams,
   commonBulkDeleteResponses,
@@ -51,23 +52,32 @@ export default async (data: Handler) => {
       });
 
       if (offer) {
-        const wallet = await models.wallet.findOne({
-          where: {
-            userId: offer.userId,
-            type: offer.walletType,
-            currency: offer.currency,
-          },
-        });
-
-        if (wallet) {
-          const newBalance = wallet.balance + offer.amount;
+        await sequelize.transaction(async (transaction) => {
+          const wallet = await models.wallet.findOne({
+            where: {
+              userId: offer.userId,
+              type: offer.walletType,
+              currency: offer.currency,
+            },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
 
-          // Update the wallet balance
-          await models.wallet.update(
-            { balance: newBalance },
-            { where: { id: wallet.id } }
-          );
-        }
+          if (wallet) {
+            // Return the offer amount to the wallet
+            await setWalletBalances(
+              wallet,
+              { balance: wallet.balance + offer.amount },
+              {
+                account: "ORDER_ESCROW",
+                description: "Refund of a deleted P2P offer",
+                referenceType: "p2pOffer",
+                referenceId: offer.id,
+              },
+              transaction
+            );
+          }
+        });
       }
     }
   };
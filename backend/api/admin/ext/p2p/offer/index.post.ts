@@ -33,6 +33,7 @@ export default async (data: Handler) => {
     inOrder,
     price,
     paymentMethodId,
+    paymentWindow,
     status,
   } = body;
 
@@ -49,6 +50,7 @@ export default async (data: Handler) => {
       inOrder,
       price,
       paymentMethodId,
+      paymentWindow,
       status,
     },
   });
@@ -104,6 +104,14 @@ export const p2pOfferStructure = async () => {
     ts: "number",
   };
 
+  const paymentWindow = {
+    type: "input",
+    label: "Payment Window (minutes)",
+    name: "paymentWindow",
+    placeholder: "Minutes the buyer has to pay",
+    ts: "number",
+  };
+
   const inOrder = {
     type: "input",
     label: "In Order",
@@ -144,6 +152,7 @@ export const p2pOfferStructure = async () => {
     inOrder,
     price,
     paymentMethodId,
+    paymentWindow,
     status,
   };
 };
@@ -160,6 +169,7 @@ export default async () => {
     inOrder,
     price,
     paymentMethodId,
+    paymentWindow,
     status,
   } = await p2pOfferStructure();
 
@@ -187,7 +197,7 @@ export default async () => {
       [walletType, currency, chain],
       [amount, price],
       [minAmount, maxAmount],
-      inOrder,
+      [inOrder, paymentWindow],
       status,
     ],
     set: [
@@ -195,7 +205,7 @@ export default async () => {
       [walletType, currency, chain],
       [amount, price],
       [minAmount, maxAmount],
-      inOrder,
+      [inOrder, paymentWindow],
       status,
     ],
   };
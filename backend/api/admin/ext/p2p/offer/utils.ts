@@ -20,6 +20,9 @@ const maxAmount = baseNumberSchema("Maximum amount acceptable", true);
 const inOrder = baseNumberSchema("Amount currently in order");
 const price = baseNumberSchema("Price per unit of currency");
 const paymentMethodId = baseStringSchema("ID of the payment method used");
+const paymentWindow = baseNumberSchema(
+  "Minutes a buyer has to pay before the trade is cancelled"
+);
 const status = baseEnumSchema("Current status of the offer", [
   "PENDING",
   "ACTIVE",
@@ -41,6 +44,7 @@ export const p2pOfferSchema = {
   inOrder,
   price,
   paymentMethodId,
+  paymentWindow,
   status,
   createdAt,
   updatedAt,
@@ -58,6 +62,7 @@ export const baseP2pOfferSchema = {
   inOrder,
   price,
   paymentMethodId,
+  paymentWindow,
   status,
   createdAt,
   updatedAt,
@@ -71,6 +76,7 @@ export const p2pOfferUpdateSchema = {
     minAmount,
     maxAmount,
     price,
+    paymentWindow,
     status,
   },
   required: ["status", "amount", "minAmount", "price"],
@@ -1,4 +1,4 @@
-import { handleTradeCancellation } from "@b/api/ext/p2p/trade/[id]/cancel.post";
+import { handleTradeCancellation } from "@b/api/ext/p2p/trade/utils";
 import {
   unauthorizedResponse,
   notFoundMetadataResponse,
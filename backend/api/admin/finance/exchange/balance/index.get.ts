@@ -9,6 +9,16 @@ export const metadata: OperationObject = {
     "Fetches the exchange balance associated with the currently authenticated user.",
   operationId: "getExchangeBalance",
   tags: ["Admin", "Exchange", "Balance"],
+  parameters: [
+    {
+      name: "provider",
+      in: "query",
+      description:
+        "Exchange provider to fetch the balance from, defaults to the primary one",
+      schema: { type: "string" },
+      required: false,
+    },
+  ],
   requiresAuth: true,
   responses: {
     200: {
@@ -49,13 +59,25 @@ export const metadata: OperationObject = {
 };
 
 export default async (data: Handler) => {
-  const { user } = data;
+  const { user, query } = data;
   if (!user?.id) {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  if (
+    query?.provider &&
+    !(await ExchangeManager.getActiveProviders()).includes(query.provider)
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "Exchange provider is not active",
+    });
+  }
+
   try {
-    const exchange = await ExchangeManager.startExchange();
+    const exchange = query?.provider
+      ? await ExchangeManager.startExchangeProvider(query.provider)
+      : await ExchangeManager.startExchange();
 
     if (!exchange) {
       throw createError({
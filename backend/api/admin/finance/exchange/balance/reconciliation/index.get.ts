@@ -0,0 +1,82 @@
+// backend/api/admin/finance/exchange/balance/reconciliation/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  baseDateTimeSchema,
+  baseEnumSchema,
+  baseNumberSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+const exchangeReconciliationSchema = {
+  id: baseStringSchema("ID of the reconciliation record"),
+  currency: baseStringSchema("Reconciled currency"),
+  providerBalances: {
+    type: "object",
+    description: "Total balance held on each active exchange provider",
+    additionalProperties: { type: "number" },
+  },
+  providerTotal: baseNumberSchema("Total balance across the providers"),
+  walletTotal: baseNumberSchema("Total balance of the users' spot wallets"),
+  difference: baseNumberSchema("Provider total minus wallet total"),
+  status: baseEnumSchema("Reconciliation status", [
+    "BALANCED",
+    "SURPLUS",
+    "DEFICIT",
+  ]),
+  updatedAt: baseDateTimeSchema("Time of the last reconciliation"),
+};
+
+export const metadata: OperationObject = {
+  summary: "List exchange balance reconciliations",
+  description:
+    "Retrieves, per currency, how the balances held on the active exchange providers compare with the users' spot wallets.",
+  operationId: "listExchangeReconciliations",
+  tags: ["Admin", "Exchange", "Balance"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Exchange reconciliations retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: exchangeReconciliationSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Exchange Reconciliations"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Exchange Balance Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.exchangeReconciliation,
+    query,
+    sortField: query.sortField || "currency",
+    paranoid: false,
+  });
+};
@@ -2,6 +2,7 @@ import {
   baseStringSchema,
   baseBooleanSchema,
   baseNumberSchema,
+  baseEnumSchema,
 } from "@b/utils/schema";
 
 const id = baseStringSchema("ID of the market");
@@ -61,6 +62,15 @@ const metadata = {
     },
     taker: baseNumberSchema("Taker fee"),
     maker: baseNumberSchema("Maker fee"),
+    selfTradePrevention: {
+      ...baseEnumSchema("Self-trade prevention mode (ecosystem markets)", [
+        "CANCEL_NEWEST",
+        "CANCEL_OLDEST",
+        "CANCEL_BOTH",
+        "DECREMENT",
+      ]),
+      nullable: true,
+    },
   },
 };
 
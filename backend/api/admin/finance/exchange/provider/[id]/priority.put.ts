@@ -0,0 +1,64 @@
+import { models } from "@b/db";
+import { updateRecordResponses } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import ExchangeManager from "@b/utils/exchange";
+
+export const metadata = {
+  summary: "Updates the routing priority of an Exchange",
+  operationId: "updateExchangePriority",
+  tags: ["Admin", "Exchanges"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the exchange to update",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            priority: {
+              type: "number",
+              description:
+                "Routing priority, exchanges with lower values are tried first",
+            },
+          },
+          required: ["priority"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Exchange"),
+  requiresAuth: true,
+  permission: "Access Exchange Provider Management",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+  const priority = Number(body.priority);
+
+  if (!Number.isInteger(priority)) {
+    throw createError({
+      statusCode: 400,
+      message: "Priority must be an integer",
+    });
+  }
+
+  const exchange = await models.exchange.findByPk(id);
+  if (!exchange) {
+    throw createError({ statusCode: 404, message: "Exchange not found" });
+  }
+
+  await exchange.update({ priority });
+  ExchangeManager.refreshProviders();
+
+  return { message: "Exchange priority updated successfully" };
+};
@@ -1,6 +1,6 @@
-import { models, sequelize } from "@b/db";
+import { models } from "@b/db";
 import { updateRecordResponses } from "@b/utils/query";
-import { Op } from "sequelize";
+import ExchangeManager from "@b/utils/exchange";
 
 export const metadata = {
   summary: "Updates the status of an Exchange",
@@ -44,21 +44,10 @@ export default async (data: Handler) => {
   const { id } = params;
   const { status } = body;
 
-  const transaction = await sequelize.transaction();
-
   try {
-    // Deactivate all other exchanges if status is true
-    if (status) {
-      await models.exchange.update(
-        { status: false },
-        { where: { id: { [Op.ne]: id } }, transaction }
-      );
-    }
-
-    // Update the status of the selected exchange
-    await models.exchange.update({ status }, { where: { id }, transaction });
-
-    await transaction.commit();
+    // Several exchanges can be active at once, orders are routed between them
+    await models.exchange.update({ status }, { where: { id } });
+    ExchangeManager.refreshProviders();
 
     return {
       statusCode: 200,
@@ -67,7 +56,6 @@ export default async (data: Handler) => {
       },
     };
   } catch (error) {
-    await transaction.rollback();
     return {
       statusCode: 500,
       body: {
@@ -10,6 +10,7 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { exchangeSchema } from "./utils";
+import ExchangeManager from "@b/utils/exchange";
 
 export const metadata = {
   summary: "Lists all exchanges with pagination and optional filtering",
@@ -71,10 +72,20 @@ export const metadata = {
 export default async (data: Handler) => {
   const { query } = data;
 
-  return getFiltered({
+  const { items, pagination } = await getFiltered({
     model: models.exchange,
     query,
     sortField: query.sortField || "name",
     paranoid: false,
   });
+
+  // Attach the routing health of each exchange
+  const exchanges = await Promise.all(
+    items.map(async (exchange: any) => ({
+      ...exchange,
+      health: await ExchangeManager.getProviderHealth(exchange.name),
+    }))
+  );
+
+  return { items: exchanges, pagination };
 };
@@ -1,5 +1,9 @@
 // Assume base schemas from your provided utilities
-import { baseStringSchema, baseBooleanSchema } from "@b/utils/schema";
+import {
+  baseStringSchema,
+  baseBooleanSchema,
+  baseNumberSchema,
+} from "@b/utils/schema";
 
 const id = baseStringSchema("ID of the exchange");
 const name = baseStringSchema("Name of the exchange");
@@ -25,6 +29,9 @@ const type = baseStringSchema(
   0,
   true
 );
+const priority = baseNumberSchema(
+  "Routing priority of the exchange, lower values are tried first"
+);
 const icon = baseStringSchema("URL to the exchange's icon", 1000, 0, true);
 
 export const exchangeSchema = {
@@ -37,6 +44,7 @@ export const exchangeSchema = {
   version,
   productId,
   type,
+  priority,
   icon,
 };
 
@@ -50,6 +58,7 @@ export const baseExchangeSchema = {
   version,
   productId,
   type,
+  priority,
 };
 
 export const exchangeUpdateSchema = {
@@ -0,0 +1,24 @@
+import {
+  deleteRecordParams,
+  deleteRecordResponses,
+  handleSingleDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Deletes a specific Fee Tier",
+  operationId: "deleteFeeTier",
+  tags: ["Admin", "Fee Tiers"],
+  parameters: deleteRecordParams("Fee Tier"),
+  responses: deleteRecordResponses("Fee Tier"),
+  permission: "Access Fee Tier Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query } = data;
+  return handleSingleDelete({
+    model: "feeTier",
+    id: params.id,
+    query,
+  });
+};
@@ -0,0 +1,47 @@
+import {
+  getRecord,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { feeTierSchema } from "../utils";
+
+export const metadata = {
+  summary: "Retrieves detailed information of a specific fee tier by ID",
+  operationId: "getFeeTierById",
+  tags: ["Admin", "Fee Tiers"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the fee tier to retrieve",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Fee tier details",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: feeTierSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Fee Tier"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Fee Tier Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return await getRecord("feeTier", params.id);
+};
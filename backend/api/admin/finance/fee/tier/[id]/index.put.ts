@@ -0,0 +1,57 @@
+import { updateRecord, updateRecordResponses } from "@b/utils/query";
+import { feeTierUpdateSchema } from "../utils";
+
+export const metadata = {
+  summary: "Updates a specific Fee Tier",
+  operationId: "updateFeeTier",
+  tags: ["Admin", "Fee Tiers"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the Fee Tier to update",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    description: "New data for the Fee Tier",
+    content: {
+      "application/json": {
+        schema: feeTierUpdateSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("Fee Tier"),
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+  const {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency,
+    makerFee,
+    takerFee,
+    status,
+  } = body;
+
+  return await updateRecord("feeTier", id, {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency: balanceCurrency || null,
+    makerFee,
+    takerFee,
+    status,
+  });
+};
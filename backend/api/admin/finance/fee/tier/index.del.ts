@@ -0,0 +1,45 @@
+// /server/api/admin/finance/fee/tier/index.del.ts
+
+import {
+  commonBulkDeleteParams,
+  commonBulkDeleteResponses,
+  handleBulkDelete,
+} from "@b/utils/query";
+
+export const metadata = {
+  summary: "Bulk deletes Fee Tiers by IDs",
+  operationId: "bulkDeleteFeeTiers",
+  tags: ["Admin", "Fee Tiers"],
+  parameters: commonBulkDeleteParams("Fee Tiers"),
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            ids: {
+              type: "array",
+              items: { type: "string" },
+              description: "Array of Fee Tier IDs to delete",
+            },
+          },
+          required: ["ids"],
+        },
+      },
+    },
+  },
+  responses: commonBulkDeleteResponses("Fee Tiers"),
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body, query } = data;
+  const { ids } = body;
+  return handleBulkDelete({
+    model: "feeTier",
+    ids,
+    query,
+  });
+};
@@ -0,0 +1,57 @@
+// /server/api/admin/finance/fee/tier/index.get.ts
+
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { feeTierSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists Fee Tiers with pagination and optional filtering",
+  operationId: "listFeeTiers",
+  tags: ["Admin", "Finance", "Fee Tiers"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of Fee Tiers with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: feeTierSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Fee Tiers"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.feeTier,
+    query,
+    sortField: query.sortField || "level",
+    paranoid: false,
+    numericFields: ["level", "minVolume", "minBalance", "makerFee", "takerFee"],
+  });
+};
@@ -0,0 +1,49 @@
+// /server/api/admin/finance/fee/tier/index.post.ts
+
+import { storeRecord, storeRecordResponses } from "@b/utils/query";
+import { feeTierStoreSchema, feeTierUpdateSchema } from "./utils";
+
+export const metadata = {
+  summary: "Stores a new Fee Tier",
+  operationId: "storeFeeTier",
+  tags: ["Admin", "Fee Tiers"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: feeTierUpdateSchema,
+      },
+    },
+  },
+  responses: storeRecordResponses(feeTierStoreSchema, "Fee Tier"),
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency,
+    makerFee,
+    takerFee,
+    status,
+  } = body;
+
+  return await storeRecord({
+    model: "feeTier",
+    data: {
+      name,
+      level,
+      minVolume,
+      minBalance,
+      balanceCurrency: balanceCurrency || null,
+      makerFee,
+      takerFee,
+      status,
+    },
+  });
+};
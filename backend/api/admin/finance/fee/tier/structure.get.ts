@@ -0,0 +1,127 @@
+// /server/api/admin/finance/fee/tier/structure.get.ts
+
+import { structureSchema } from "@b/utils/constants";
+
+export const metadata = {
+  summary: "Get form structure for Fee Tiers",
+  operationId: "getFeeTierStructure",
+  tags: ["Admin", "Fee Tiers"],
+  responses: {
+    200: {
+      description: "Form structure for managing Fee Tiers",
+      content: structureSchema,
+    },
+  },
+  permission: "Access Fee Tier Management",
+};
+
+export const feeTierStructure = () => {
+  const name = {
+    type: "input",
+    label: "Name",
+    name: "name",
+    placeholder: "Enter the name of the tier, e.g. VIP 1",
+  };
+
+  const level = {
+    type: "input",
+    label: "Level",
+    name: "level",
+    placeholder: "Rank of the tier, higher levels win",
+    ts: "number",
+  };
+
+  const minVolume = {
+    type: "input",
+    label: "Minimum 30-Day Volume (USD)",
+    name: "minVolume",
+    placeholder: "Traded volume required to reach the tier",
+    ts: "number",
+  };
+
+  const minBalance = {
+    type: "input",
+    label: "Minimum Balance",
+    name: "minBalance",
+    placeholder: "Holdings required to reach the tier",
+    ts: "number",
+  };
+
+  const balanceCurrency = {
+    type: "input",
+    label: "Balance Currency",
+    name: "balanceCurrency",
+    placeholder: "Currency the holdings are measured in, e.g. BTC",
+  };
+
+  const makerFee = {
+    type: "input",
+    label: "Maker Fee (%)",
+    name: "makerFee",
+    placeholder: "Maker fee paid in the tier",
+    ts: "number",
+  };
+
+  const takerFee = {
+    type: "input",
+    label: "Taker Fee (%)",
+    name: "takerFee",
+    placeholder: "Taker fee paid in the tier",
+    ts: "number",
+  };
+
+  const status = {
+    type: "select",
+    label: "Status",
+    name: "status",
+    placeholder: "Select the status of the tier",
+    options: [
+      { label: "Yes", value: true },
+      { label: "No", value: false },
+    ],
+    ts: "boolean",
+  };
+
+  return {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency,
+    makerFee,
+    takerFee,
+    status,
+  };
+};
+
+export default (): object => {
+  const {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency,
+    makerFee,
+    takerFee,
+    status,
+  } = feeTierStructure();
+
+  return {
+    get: [
+      name,
+      level,
+      minVolume,
+      minBalance,
+      balanceCurrency,
+      makerFee,
+      takerFee,
+      status,
+    ],
+    set: [
+      [name, level],
+      [minVolume, minBalance, balanceCurrency],
+      [makerFee, takerFee],
+      status,
+    ],
+  };
+};
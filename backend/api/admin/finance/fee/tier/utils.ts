@@ -0,0 +1,60 @@
+import {
+  baseBooleanSchema,
+  baseIntegerSchema,
+  baseNumberSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+const id = baseStringSchema("ID of the Fee Tier");
+const name = baseStringSchema("Name of the Fee Tier");
+const level = baseIntegerSchema("Rank of the tier, higher levels win");
+const minVolume = baseNumberSchema("Minimum 30-day traded volume in USD");
+const minBalance = baseNumberSchema("Minimum holdings of the balance currency");
+const balanceCurrency = baseStringSchema(
+  "Currency the holdings requirement is measured in",
+  191,
+  0,
+  true
+);
+const makerFee = baseNumberSchema("Maker fee in percent");
+const takerFee = baseNumberSchema("Taker fee in percent");
+const status = baseBooleanSchema("Whether users can be placed in the tier");
+
+export const feeTierSchema = {
+  id,
+  name,
+  level,
+  minVolume,
+  minBalance,
+  balanceCurrency,
+  makerFee,
+  takerFee,
+  status,
+};
+
+export const feeTierUpdateSchema = {
+  type: "object",
+  properties: {
+    name,
+    level,
+    minVolume,
+    minBalance,
+    balanceCurrency,
+    makerFee,
+    takerFee,
+    status,
+  },
+  required: ["name", "level", "minVolume", "makerFee", "takerFee"],
+};
+
+export const feeTierStoreSchema = {
+  description: `Fee Tier created or updated successfully`,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: feeTierSchema,
+      },
+    },
+  },
+};
@@ -0,0 +1,75 @@
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { userFeeOverrideSchema } from "../utils";
+
+export const metadata = {
+  summary: "Sets the fee override of a user",
+  description:
+    "Sets the maker and taker rates a user pays on every market regardless of their tier, typically for market makers. Sending null for a rate puts it back on the tier schedule.",
+  operationId: "updateUserFeeOverride",
+  tags: ["Admin", "Fee Tiers"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      description: "ID of the user to override the fees of",
+      required: true,
+      schema: {
+        type: "string",
+      },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: userFeeOverrideSchema,
+      },
+    },
+  },
+  responses: updateRecordResponses("User Fee Override"),
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+const toRate = (value: any) =>
+  value === null || value === undefined || value === "" ? null : Number(value);
+
+export default async (data: Handler) => {
+  const { body, params } = data;
+  const { id } = params;
+
+  const user = await models.user.findOne({ where: { id } });
+  if (!user) {
+    throw createError({ statusCode: 404, message: "User not found" });
+  }
+
+  const makerFeeOverride = toRate(body.makerFeeOverride);
+  const takerFeeOverride = toRate(body.takerFeeOverride);
+  if (
+    [makerFeeOverride, takerFeeOverride].some(
+      (rate) => rate !== null && !(rate >= 0)
+    )
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "Fee overrides cannot be negative",
+    });
+  }
+
+  const overrides = {
+    makerFeeOverride,
+    takerFeeOverride,
+    overrideNote: body.overrideNote || null,
+  };
+  const record = await models.userFeeTier.findOne({ where: { userId: id } });
+  if (record) {
+    await record.update(overrides);
+  } else {
+    await models.userFeeTier.create({ userId: id, ...overrides });
+  }
+
+  return { message: "User fee override updated successfully" };
+};
@@ -0,0 +1,69 @@
+// /server/api/admin/finance/fee/user/index.get.ts
+
+import { models } from "@b/db";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { userFeeTierSchema } from "./utils";
+
+export const metadata = {
+  summary: "Lists the fee tiers and overrides of users",
+  operationId: "listUserFeeTiers",
+  tags: ["Admin", "Finance", "Fee Tiers"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "List of user fee tiers with pagination information",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: userFeeTierSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("User Fee Tiers"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access Fee Tier Management",
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.userFeeTier,
+    query,
+    sortField: query.sortField || "volume",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["firstName", "lastName", "email", "avatar"],
+      },
+      {
+        model: models.feeTier,
+        as: "tier",
+        attributes: ["id", "name", "level"],
+      },
+    ],
+    numericFields: ["volume", "makerFeeOverride", "takerFeeOverride"],
+  });
+};
@@ -0,0 +1,56 @@
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+export const userFeeTierSchema = {
+  id: baseStringSchema("ID of the user fee tier record"),
+  userId: baseStringSchema("ID of the user"),
+  feeTierId: baseStringSchema(
+    "ID of the tier the user was placed in",
+    255,
+    0,
+    true
+  ),
+  volume: baseNumberSchema("30-day traded volume in USD at the last run"),
+  makerFeeOverride: baseNumberSchema(
+    "Maker fee charged regardless of tier",
+    true
+  ),
+  takerFeeOverride: baseNumberSchema(
+    "Taker fee charged regardless of tier",
+    true
+  ),
+  overrideNote: baseStringSchema("Reason for the override", 191, 0, true),
+  computedAt: baseStringSchema("Date the tier was last computed", 255, 0, true),
+  user: {
+    type: "object",
+    properties: {
+      firstName: baseStringSchema("First name of the user"),
+      lastName: baseStringSchema("Last name of the user"),
+      email: baseStringSchema("Email of the user"),
+      avatar: baseStringSchema("Avatar of the user", 255, 0, true),
+    },
+  },
+  tier: {
+    type: "object",
+    nullable: true,
+    properties: {
+      id: baseStringSchema("ID of the tier"),
+      name: baseStringSchema("Name of the tier"),
+      level: baseNumberSchema("Level of the tier"),
+    },
+  },
+};
+
+export const userFeeOverrideSchema = {
+  type: "object",
+  properties: {
+    makerFeeOverride: baseNumberSchema(
+      "Maker fee in percent, null to follow the tier",
+      true
+    ),
+    takerFeeOverride: baseNumberSchema(
+      "Taker fee in percent, null to follow the tier",
+      true
+    ),
+    overrideNote: baseStringSchema("Reason for the override", 191, 0, true),
+  },
+};
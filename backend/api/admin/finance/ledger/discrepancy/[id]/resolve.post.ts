@@ -0,0 +1,93 @@
+// backend/api/admin/finance/ledger/discrepancy/[id]/resolve.post.ts
+
+import { createError } from "@b/utils/error";
+import { resolveLedgerDiscrepancy } from "@b/utils/ledger";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Resolve a ledger discrepancy",
+  description:
+    "Resolves an open discrepancy either by adjusting the ledger to the wallet balances or by restoring the wallet to its ledger projection.",
+  operationId: "resolveLedgerDiscrepancy",
+  tags: ["Admin", "Ledger"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the discrepancy to resolve",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            resolution: {
+              type: "string",
+              description:
+                "ADJUST_LEDGER posts an adjustment journal, RESTORE_WALLET resets the wallet to the ledger",
+              enum: ["ADJUST_LEDGER", "RESTORE_WALLET"],
+            },
+            description: {
+              type: "string",
+              description: "Note recorded on the adjustment journal",
+            },
+          },
+          required: ["resolution"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Discrepancy resolved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string", description: "Success message" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Ledger Discrepancy"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+  permission: "Access Ledger Management",
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+  const { id } = params;
+  const { resolution, description } = body;
+
+  if (!["ADJUST_LEDGER", "RESTORE_WALLET"].includes(resolution)) {
+    throw createError({
+      statusCode: 400,
+      message: "Resolution must be ADJUST_LEDGER or RESTORE_WALLET",
+    });
+  }
+
+  try {
+    await resolveLedgerDiscrepancy(id, resolution, description);
+  } catch (error) {
+    throw createError({
+      statusCode: error.message === "Open discrepancy not found" ? 404 : 500,
+      message: error.message,
+    });
+  }
+
+  return { message: "Discrepancy resolved successfully" };
+};
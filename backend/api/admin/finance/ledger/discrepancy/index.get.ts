@@ -0,0 +1,65 @@
+// backend/api/admin/finance/ledger/discrepancy/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { ledgerDiscrepancySchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List ledger discrepancies",
+  description:
+    "Retrieves the wallets whose balances drifted from their ledger projection.",
+  operationId: "listLedgerDiscrepancies",
+  tags: ["Admin", "Ledger"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Ledger discrepancies retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: ledgerDiscrepancySchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Ledger Discrepancies"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Ledger Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.ledgerDiscrepancy,
+    query,
+    sortField: query.sortField || "updatedAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.wallet,
+        as: "wallet",
+        attributes: ["id", "userId", "type", "currency"],
+      },
+    ],
+  });
+};
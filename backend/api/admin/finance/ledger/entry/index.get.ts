@@ -0,0 +1,76 @@
+// backend/api/admin/finance/ledger/entry/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { ledgerEntrySchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List ledger entries",
+  description:
+    "Retrieves the entries of the ledger with their journal and account.",
+  operationId: "listLedgerEntries",
+  tags: ["Admin", "Ledger"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Ledger entries retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: ledgerEntrySchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Ledger Entries"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Ledger Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.ledgerEntry,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.ledgerJournal,
+        as: "journal",
+        attributes: [
+          "id",
+          "type",
+          "description",
+          "referenceType",
+          "referenceId",
+        ],
+      },
+      {
+        model: models.ledgerAccount,
+        as: "account",
+        attributes: ["id", "key", "type", "name", "currency", "walletId"],
+      },
+    ],
+  });
+};
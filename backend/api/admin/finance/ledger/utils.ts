@@ -0,0 +1,73 @@
+// backend/api/admin/finance/ledger/utils.ts
+
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+const wallet = {
+  type: "object",
+  properties: {
+    id: baseStringSchema("ID of the wallet"),
+    userId: baseStringSchema("ID of the wallet owner"),
+    type: baseStringSchema("Type of the wallet"),
+    currency: baseStringSchema("Currency of the wallet"),
+  },
+};
+
+export const ledgerDiscrepancySchema = {
+  id: baseStringSchema("ID of the discrepancy"),
+  walletId: baseStringSchema("ID of the drifted wallet"),
+  balance: baseNumberSchema("Available balance held by the wallet"),
+  ledgerBalance: baseNumberSchema("Available balance projected by the ledger"),
+  inOrder: baseNumberSchema("In-order balance held by the wallet"),
+  ledgerInOrder: baseNumberSchema("In-order balance projected by the ledger"),
+  status: {
+    ...baseStringSchema("Status of the discrepancy"),
+    enum: ["OPEN", "RESOLVED"],
+  },
+  resolution: {
+    ...baseStringSchema("How the discrepancy was resolved"),
+    enum: ["ADJUST_LEDGER", "RESTORE_WALLET", "SELF_CORRECTED"],
+    nullable: true,
+  },
+  createdAt: baseStringSchema("Date the discrepancy was first flagged"),
+  updatedAt: baseStringSchema("Date the discrepancy was last checked"),
+  wallet,
+};
+
+export const ledgerEntrySchema = {
+  id: baseStringSchema("ID of the entry"),
+  journalId: baseStringSchema("ID of the journal the entry belongs to"),
+  accountId: baseStringSchema("ID of the account the entry is posted to"),
+  direction: {
+    ...baseStringSchema("Side of the account the entry is posted to"),
+    enum: ["DEBIT", "CREDIT"],
+  },
+  amount: baseStringSchema("Amount of the entry in 1e-8 units"),
+  createdAt: baseStringSchema("Date of the entry"),
+  journal: {
+    type: "object",
+    properties: {
+      id: baseStringSchema("ID of the journal"),
+      type: {
+        ...baseStringSchema("Type of the journal"),
+        enum: ["OPENING", "WALLET_CHANGE", "ADJUSTMENT"],
+      },
+      description: baseStringSchema("Description of the journal"),
+      referenceType: baseStringSchema("Type of the record the journal is for"),
+      referenceId: baseStringSchema("ID of the record the journal is for"),
+    },
+  },
+  account: {
+    type: "object",
+    properties: {
+      id: baseStringSchema("ID of the account"),
+      key: baseStringSchema("Unique key of the account"),
+      type: {
+        ...baseStringSchema("Type of the account"),
+        enum: ["USER", "SYSTEM"],
+      },
+      name: baseStringSchema("Name of the account"),
+      currency: baseStringSchema("Currency of the account"),
+      walletId: baseStringSchema("ID of the wallet backed by the account"),
+    },
+  },
+};
@@ -0,0 +1,58 @@
+// backend/api/admin/finance/reserve/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { reserveSnapshotSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "List proof of reserves snapshots",
+  description:
+    "Retrieves the history of proof of reserves snapshots with their published roots, liabilities and assets.",
+  operationId: "listReserveSnapshotsHistory",
+  tags: ["Admin", "Finance", "Reserves"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Reserve snapshots retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: reserveSnapshotSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Reserve Snapshots"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Proof of Reserves Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.reserveSnapshot,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+  });
+};
@@ -0,0 +1,38 @@
+// backend/api/admin/finance/reserve/ratio.get.ts
+
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { getLatestReserveSnapshots } from "@b/utils/reserves";
+import { reserveSnapshotSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "Get the reserve ratio of every currency",
+  description:
+    "Retrieves the latest proof of reserves snapshot of each currency, with its reserve ratio and the assets behind it.",
+  operationId: "getReserveRatios",
+  tags: ["Admin", "Finance", "Reserves"],
+  responses: {
+    200: {
+      description: "Reserve ratios retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: reserveSnapshotSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  permission: "Access Proof of Reserves Management",
+  requiresAuth: true,
+};
+
+export default async () => {
+  const snapshots = await getLatestReserveSnapshots();
+  return snapshots.map((snapshot) => snapshot.get({ plain: true }));
+};
@@ -0,0 +1,23 @@
+// backend/api/admin/finance/reserve/utils.ts
+
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+export const reserveSnapshotSchema = {
+  id: baseStringSchema("ID of the snapshot"),
+  currency: baseStringSchema("Currency of the snapshot"),
+  rootHash: baseStringSchema("Root hash of the liabilities Merkle sum tree"),
+  totalLiabilities: baseNumberSchema("Total of the user balances in the tree"),
+  totalAssets: baseNumberSchema("Total of the assets covering them"),
+  assets: {
+    type: "object",
+    description:
+      "Assets per source: masterWallets, custodialWallets and exchangeProviders",
+    additionalProperties: { type: "number" },
+  },
+  reserveRatio: {
+    ...baseNumberSchema("Total assets over total liabilities"),
+    nullable: true,
+  },
+  leafCount: baseNumberSchema("Number of user balances in the tree"),
+  createdAt: baseStringSchema("Date the snapshot was taken"),
+};
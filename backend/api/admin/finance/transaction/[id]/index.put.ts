@@ -10,6 +10,7 @@ import {
 import ExchangeManager from "@b/utils/exchange";
 import { RedisSingleton } from "@b/utils/redis";
 import { getLastCandles } from "@b/utils/eco/scylla/queries";
+import { setWalletBalances } from "@b/utils/ledger";
 
 export const metadata = {
   summary: "Updates an existing transaction",
@@ -103,6 +104,7 @@ async function handleIncomingTransfer(transaction, rejection, t) {
   const wallet = await models.wallet.findOne({
     where: { id: transaction.walletId },
     transaction: t,
+    lock: t.LOCK.UPDATE,
   });
   if (!wallet) throw new Error("Wallet not found");
 
@@ -151,11 +153,15 @@ async function handleIncomingTransfer(transaction, rejection, t) {
 
   const amountToAdd = Number(transaction.amount) * price;
 
-  let walletBalance = Number(wallet.balance);
-  walletBalance += amountToAdd;
-  await models.wallet.update(
-    { balance: walletBalance },
-    { where: { id: wallet.id }, transaction: t }
+  await setWalletBalances(
+    wallet,
+    { balance: Number(wallet.balance) + amountToAdd },
+    {
+      description: "Incoming transfer approved",
+      referenceType: "transaction",
+      referenceId: transaction.id,
+    },
+    t
   );
 
   if (rejection) {
@@ -180,6 +186,7 @@ async function handleForexTransaction(transaction, status, rejection, t) {
     const wallet = await models.wallet.findOne({
       where: { id: transaction.walletId },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
     if (!wallet) throw new Error("Wallet not found");
 
@@ -216,6 +223,7 @@ async function handleWalletTransaction(transaction, status, rejection, t) {
   const wallet = await models.wallet.findOne({
     where: { id: transaction.walletId },
     transaction: t,
+    lock: t.LOCK.UPDATE,
   });
   if (!wallet) throw new Error("Wallet not found");
 
@@ -254,7 +262,7 @@ async function handleForexCompletion(transaction, account, wallet, cost, t) {
     // Wallet balance was already decreased during the deposit request
   } else if (transaction.type === "FOREX_WITHDRAW") {
     // Increase wallet balance
-    await updateWalletBalance(wallet, cost, true, t);
+    await updateWalletBalance(wallet, cost, true, t, transaction.id);
     // Forex account balance was already decreased during the withdrawal request
   }
 }
@@ -262,7 +270,7 @@ async function handleForexCompletion(transaction, account, wallet, cost, t) {
 async function handleForexRejection(transaction, account, wallet, cost, t) {
   if (transaction.type === "FOREX_DEPOSIT") {
     // Refund amount to wallet
-    await updateWalletBalance(wallet, cost, true, t);
+    await updateWalletBalance(wallet, cost, true, t, transaction.id);
     // Forex account balance was not changed
   } else if (transaction.type === "FOREX_WITHDRAW") {
     // Refund amount to forex account
@@ -277,21 +285,39 @@ async function handleWalletRejection(transaction, wallet, t) {
     balance += Number(transaction.amount);
   }
   if (wallet.balance !== balance) {
-    await models.wallet.update(
+    await setWalletBalances(
+      wallet,
       { balance },
-      { where: { id: wallet.id }, transaction: t }
+      {
+        account: wallet.type === "SPOT" ? "EXCHANGE" : "CLEARING",
+        description: "Refund of a rejected withdrawal",
+        referenceType: "transaction",
+        referenceId: transaction.id,
+      },
+      t
     );
   }
 }
 
 async function handleWalletCompletion(transaction, wallet, t) {
-  let balance = Number(wallet.balance);
-  if (transaction.type === "DEPOSIT") {
-    balance += Number(transaction.amount) - Number(transaction.fee);
-  }
-  await models.wallet.update(
-    { balance },
-    { where: { id: wallet.id }, transaction: t }
+  if (transaction.type !== "DEPOSIT") return;
+
+  await setWalletBalances(
+    wallet,
+    {
+      balance:
+        Number(wallet.balance) +
+        Number(transaction.amount) -
+        Number(transaction.fee),
+    },
+    {
+      account: wallet.type === "SPOT" ? "EXCHANGE" : "CLEARING",
+      fee: Number(transaction.fee),
+      description: "Deposit approved",
+      referenceType: "transaction",
+      referenceId: transaction.id,
+    },
+    t
   );
 }
 
@@ -312,15 +338,21 @@ async function updateForexAccountBalance(account, cost, refund, t) {
   });
 }
 
-async function updateWalletBalance(wallet, cost, refund, t) {
+async function updateWalletBalance(wallet, cost, refund, t, transactionId) {
   let walletBalance = Number(wallet.balance);
   walletBalance = refund ? walletBalance + cost : walletBalance - cost;
 
   if (walletBalance < 0) throw new Error("Insufficient wallet balance");
 
-  await models.wallet.update(
+  await setWalletBalances(
+    wallet,
     { balance: walletBalance },
-    { where: { id: wallet.id }, transaction: t }
+    {
+      description: "Forex account transfer",
+      referenceType: "transaction",
+      referenceId: transactionId,
+    },
+    t
   );
 
   return wallet;
@@ -374,11 +406,20 @@ async function handleIcoContributionRejection(contribution, transaction, t) {
   const wallet = await models.wallet.findOne({
     where: { id: transaction.walletId },
     transaction: t,
+    lock: t.LOCK.UPDATE,
   });
   if (!wallet) throw new Error("Wallet not found");
 
-  wallet.balance += Number(transaction.amount);
-  await wallet.save({ transaction: t });
+  await setWalletBalances(
+    wallet,
+    { balance: wallet.balance + Number(transaction.amount) },
+    {
+      description: "Refund of a rejected ICO contribution",
+      referenceType: "icoContribution",
+      referenceId: contribution.id,
+    },
+    t
+  );
 
   contribution.status = "REJECTED";
   await contribution.save({ transaction: t });
@@ -2,7 +2,8 @@
 
 import { sendTransactionStatusUpdateEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 
 export const metadata = {
   summary: "Updates the status of a transaction",
@@ -127,38 +128,54 @@ export async function updateTransactionStatusQuery(
     metadata: transaction.metadata,
   };
 
-  const wallet = await models.wallet.findOne({
-    where: { id: transaction.walletId },
-  });
+  const { wallet, balance } = await sequelize.transaction(async (t) => {
+    const wallet = await models.wallet.findOne({
+      where: { id: transaction.walletId },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
 
-  if (!wallet) {
-    throw new Error("Wallet not found");
-  }
+    if (!wallet) {
+      throw new Error("Wallet not found");
+    }
 
-  let balance = Number(wallet.balance);
+    let balance = Number(wallet.balance);
 
-  if (status === "REJECTED") {
-    if (message) {
-      updateData.metadata.note = message;
+    if (status === "REJECTED") {
+      if (message) {
+        updateData.metadata.note = message;
+      }
+      if (transaction.type === "WITHDRAW") {
+        balance += Number(transaction.amount);
+      }
+    } else if (status === "COMPLETED" && transaction.type === "DEPOSIT") {
+      balance += Number(transaction.amount) - Number(transaction.fee);
     }
-    if (transaction.type === "WITHDRAW") {
-      balance += Number(transaction.amount);
+
+    if (wallet.balance !== balance) {
+      const deposit = transaction.type === "DEPOSIT";
+      await setWalletBalances(
+        wallet,
+        { balance },
+        {
+          account: wallet.type === "SPOT" ? "EXCHANGE" : "CLEARING",
+          fee: deposit ? Number(transaction.fee) : 0,
+          description: deposit
+            ? "Deposit approved"
+            : "Refund of a rejected withdrawal",
+          referenceType: "transaction",
+          referenceId: transaction.id,
+        },
+        t
+      );
     }
-  } else if (status === "COMPLETED" && transaction.type === "DEPOSIT") {
-    balance += Number(transaction.amount) - Number(transaction.fee);
-  }
 
-  if (wallet.balance !== balance) {
-    await models.wallet.update(
-      { balance: balance },
-      {
-        where: { id: wallet.id },
-      }
-    );
-  }
+    await models.transaction.update(updateData, {
+      where: { id: referenceId },
+      transaction: t,
+    });
 
-  await models.transaction.update(updateData, {
-    where: { id: referenceId },
+    return { wallet, balance };
   });
 
   const updatedTransaction = await models.transaction.findOne({
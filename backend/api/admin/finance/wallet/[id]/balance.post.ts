@@ -1,8 +1,11 @@
 // /server/api/admin/wallets/updateBalance.post.ts
 
 import { sendWalletBalanceUpdateEmail } from "@b/utils/emails";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
 import { updateRecordResponses } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata = {
   summary: "Updates the balance of a wallet",
@@ -35,6 +38,11 @@ export const metadata = {
               type: "number",
               description: "Amount by which to update the wallet balance",
             },
+            comment: {
+              type: "string",
+              description:
+                "Reason for the update, shown to the admin approving it",
+            },
           },
           required: ["id", "type", "amount"],
         },
@@ -48,7 +56,28 @@ export const metadata = {
 
 export default async (data: Handler) => {
   const { id } = data.params;
-  const { type, amount } = data.body;
+  const { type, amount, comment } = data.body;
+
+  const wallet = await models.wallet.findOne({ where: { id } });
+  if (!wallet)
+    throw createError({ statusCode: 404, message: "Wallet not found" });
+
+  const approval = await requestApproval(
+    "walletBalance",
+    {
+      summary: `${type === "ADD" ? "Add" : "Subtract"} ${amount} ${
+        wallet.currency
+      } ${type === "ADD" ? "to" : "from"} the ${wallet.type} wallet of user ${
+        wallet.userId
+      }`,
+      payload: { walletId: id, type, amount },
+      amount: { currency: wallet.currency, value: amount },
+    },
+    data.user,
+    comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
   await updateWalletBalance(id, type, amount);
   return {
     message: "Wallet balance updated successfully",
@@ -60,50 +89,61 @@ export async function updateWalletBalance(
   type: "ADD" | "SUBTRACT",
   amount: number
 ): Promise<void> {
-  const wallet = await models.wallet.findOne({
-    where: { id },
-  });
-
-  if (!wallet) throw new Error("Wallet not found");
+  const { user, updatedWallet, newBalance } = await sequelize.transaction(
+    async (transaction) => {
+      const wallet = await models.wallet.findOne({
+        where: { id },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
 
-  // Fetch the user information to pass to the email function
-  const user = await models.user.findOne({
-    where: { id: wallet.userId },
-  });
+      if (!wallet) throw new Error("Wallet not found");
 
-  if (!user) throw new Error("User not found");
+      // Fetch the user information to pass to the email function
+      const user = await models.user.findOne({
+        where: { id: wallet.userId },
+        transaction,
+      });
 
-  const newBalance =
-    type === "ADD" ? wallet.balance + amount : wallet.balance - amount;
+      if (!user) throw new Error("User not found");
 
-  if (newBalance < 0) throw new Error("Insufficient funds in wallet");
+      const newBalance =
+        type === "ADD" ? wallet.balance + amount : wallet.balance - amount;
 
-  await models.wallet.update(
-    { balance: newBalance },
-    {
-      where: { id },
-    }
-  );
+      if (newBalance < 0) throw new Error("Insufficient funds in wallet");
 
-  const updatedWallet = await models.wallet.findOne({
-    where: { id },
-  });
+      const record = await models.transaction.create(
+        {
+          userId: wallet.userId,
+          walletId: wallet.id,
+          amount: amount,
+          type: type === "ADD" ? "INCOMING_TRANSFER" : "OUTGOING_TRANSFER",
+          status: "COMPLETED",
+          metadata: {
+            method: "ADMIN",
+          },
+          description: `Admin ${
+            type === "ADD" ? "added" : "subtracted"
+          } ${amount} ${wallet.currency} to wallet`,
+        },
+        { transaction }
+      );
 
-  if (!updatedWallet) throw new Error("Wallet not found");
+      await setWalletBalances(
+        wallet,
+        { balance: newBalance },
+        {
+          account: "ADJUSTMENT",
+          description: `Admin balance ${type === "ADD" ? "credit" : "debit"}`,
+          referenceType: "transaction",
+          referenceId: record.id,
+        },
+        transaction
+      );
 
-  await models.transaction.create({
-    userId: wallet.userId,
-    walletId: wallet.id,
-    amount: amount,
-    type: type === "ADD" ? "INCOMING_TRANSFER" : "OUTGOING_TRANSFER",
-    status: "COMPLETED",
-    metadata: {
-      method: "ADMIN",
-    },
-    description: `Admin ${type === "ADD" ? "added" : "subtracted"} ${amount} ${
-      wallet.currency
-    } to wallet`,
-  });
+      return { user, updatedWallet: wallet, newBalance };
+    }
+  );
 
   await sendWalletBalanceUpdateEmail(
     user,
@@ -8,6 +8,7 @@ import {
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { approvalPendingResponse, requestApproval } from "@b/utils/approvals";
 
 export const metadata = {
   summary: "Approves a spot wallet withdrawal request",
@@ -22,6 +23,23 @@ export const metadata = {
       schema: { type: "string", format: "uuid" },
     },
   ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            comment: {
+              type: "string",
+              description:
+                "Reason for the approval, shown to the admin confirming it",
+            },
+          },
+        },
+      },
+    },
+  },
   responses: {
     200: {
       description: "Withdrawal request approved successfully",
@@ -45,8 +63,39 @@ export const metadata = {
 };
 
 export default async (data: Handler) => {
-  const { params } = data;
+  const { params, body, user } = data;
   const { id } = params;
+
+  const transaction = await models.transaction.findOne({
+    where: { id },
+  });
+  if (!transaction) {
+    throw createError({ statusCode: 404, message: "Transaction not found" });
+  }
+  if (transaction.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: "Transaction is not pending",
+    });
+  }
+
+  const { currency, address } = transaction.metadata as any;
+  const approval = await requestApproval(
+    "withdrawalApproval",
+    {
+      summary: `Approve the withdrawal of ${transaction.amount} ${currency} to ${address}`,
+      payload: { transactionId: id },
+      amount: { currency, value: Number(transaction.amount) },
+    },
+    user,
+    body?.comment
+  );
+  if (approval) return approvalPendingResponse(approval);
+
+  return approveSpotWithdrawal(id);
+};
+
+export async function approveSpotWithdrawal(id: string) {
   try {
     const transaction = await models.transaction.findOne({
       where: { id },
@@ -231,7 +280,7 @@ export default async (data: Handler) => {
   } catch (error) {
     throw new Error(error.message);
   }
-};
+}
 
 export async function getWalletQuery(userId: string, currency: string) {
   const wallet = await models.wallet.findOne({
@@ -1,11 +1,11 @@
 import { sendTransactionStatusUpdateEmail } from "@b/utils/emails";
-import { createError } from "@b/utils/error";
 import { models } from "@b/db";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
+import { updateUserWalletBalance } from "../../utils";
 
 export const metadata = {
   summary: "Rejects a spot wallet withdrawal request",
@@ -111,7 +111,8 @@ export default async (data: Handler) => {
       walletId,
       Number(trx.amount),
       Number(trx.fee),
-      "REFUND_WITHDRAWAL"
+      "REFUND_WITHDRAWAL",
+      trx.id
     )) as unknown as Wallet;
 
     try {
@@ -138,68 +139,6 @@ export default async (data: Handler) => {
   }
 };
 
-export async function updateUserWalletBalance(
-  id: string,
-  amount: number,
-  fee: number,
-  type: "DEPOSIT" | "WITHDRAWAL" | "REFUND_WITHDRAWAL"
-) {
-  const wallet = await models.wallet.findOne({
-    where: {
-      id,
-    },
-  });
-
-  if (!wallet) {
-    return new Error("Wallet not found");
-  }
-
-  let balance;
-  switch (type) {
-    case "WITHDRAWAL":
-      balance = wallet.balance - (amount + fee);
-      break;
-    case "DEPOSIT":
-      balance = wallet.balance + (amount - fee);
-      break;
-    case "REFUND_WITHDRAWAL":
-      balance = wallet.balance + amount + fee;
-      break;
-    default:
-      break;
-  }
-
-  if (balance < 0) {
-    throw new Error("Insufficient balance");
-  }
-
-  await models.wallet.update(
-    {
-      balance: balance,
-    },
-    {
-      where: {
-        id: wallet.id,
-      },
-    }
-  );
-
-  const updatedWallet = await models.wallet.findOne({
-    where: {
-      id: wallet.id,
-    },
-  });
-
-  if (!updatedWallet) {
-    throw createError({
-      message: "Failed to update wallet balance",
-      statusCode: 500,
-    });
-  }
-
-  return updatedWallet;
-}
-
 // model wallet {
 //   id                       String                     @id @unique @default(uuid())
 //   userId                  String
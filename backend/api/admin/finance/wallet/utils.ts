@@ -1,4 +1,5 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   baseNumberSchema,
   baseStringSchema,
@@ -17,59 +18,70 @@ export async function updateUserWalletBalance(
   id: string,
   amount: number,
   fee: number,
-  type: "DEPOSIT" | "WITHDRAWAL" | "REFUND_WITHDRAWAL"
+  type: "DEPOSIT" | "WITHDRAWAL" | "REFUND_WITHDRAWAL",
+  referenceId?: string
 ) {
-  const wallet = await models.wallet.findOne({
-    where: {
-      id,
-    },
-  });
+  return await sequelize.transaction(async (transaction) => {
+    const wallet = await models.wallet.findOne({
+      where: {
+        id,
+      },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
 
-  if (!wallet) {
-    return new Error("Wallet not found");
-  }
+    if (!wallet) {
+      return new Error("Wallet not found");
+    }
+
+    let balance;
+    // The fee is booked as fee revenue, and a refund takes it back
+    let ledgerFee = fee;
+    switch (type) {
+      case "WITHDRAWAL":
+        balance = wallet.balance - (amount + fee);
+        break;
+      case "DEPOSIT":
+        balance = wallet.balance + (amount - fee);
+        break;
+      case "REFUND_WITHDRAWAL":
+        balance = wallet.balance + amount + fee;
+        ledgerFee = -fee;
+        break;
+      default:
+        break;
+    }
 
-  let balance;
-  switch (type) {
-    case "WITHDRAWAL":
-      balance = wallet.balance - (amount + fee);
-      break;
-    case "DEPOSIT":
-      balance = wallet.balance + (amount - fee);
-      break;
-    case "REFUND_WITHDRAWAL":
-      balance = wallet.balance + amount + fee;
-      break;
-    default:
-      break;
-  }
+    if (balance < 0) {
+      throw new Error("Insufficient balance");
+    }
 
-  if (balance < 0) {
-    throw new Error("Insufficient balance");
-  }
+    await setWalletBalances(
+      wallet,
+      { balance },
+      {
+        account: wallet.type === "SPOT" ? "EXCHANGE" : "CLEARING",
+        fee: ledgerFee,
+        description: `Admin ${type.toLowerCase().replace("_", " ")}`,
+        referenceType: referenceId ? "transaction" : undefined,
+        referenceId,
+      },
+      transaction
+    );
 
-  await models.wallet.update(
-    {
-      balance: balance,
-    },
-    {
+    const response = await models.wallet.findOne({
       where: {
         id: wallet.id,
       },
+      transaction,
+    });
+
+    if (!response) {
+      throw new Error("Wallet not found");
     }
-  );
 
-  const response = await models.wallet.findOne({
-    where: {
-      id: wallet.id,
-    },
+    return response;
   });
-
-  if (!response) {
-    throw new Error("Wallet not found");
-  }
-
-  return response;
 }
 
 // Reusable schema components for wallets
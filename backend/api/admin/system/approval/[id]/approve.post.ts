@@ -0,0 +1,41 @@
+// backend/api/admin/system/approval/[id]/approve.post.ts
+
+import { createError } from "@b/utils/error";
+import { reviewApprovalRequest } from "@b/utils/approvals";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  approvalRequestIdParameter,
+  approvalReviewBodySchema,
+  approvalReviewResponseSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Approve an approval request",
+  description:
+    "Approves a pending request and runs its action. The reviewer must be another admin than the requester, allowed to run the action.",
+  operationId: "approveApprovalRequest",
+  tags: ["Admin", "Approvals"],
+  parameters: [approvalRequestIdParameter],
+  requestBody: approvalReviewBodySchema,
+  responses: {
+    200: approvalReviewResponseSchema,
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Request"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  return reviewApprovalRequest(params.id, user.id, "APPROVE", body?.comment);
+};
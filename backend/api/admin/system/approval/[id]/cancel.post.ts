@@ -0,0 +1,41 @@
+// backend/api/admin/system/approval/[id]/cancel.post.ts
+
+import { createError } from "@b/utils/error";
+import { cancelApprovalRequest } from "@b/utils/approvals";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  approvalRequestIdParameter,
+  approvalReviewBodySchema,
+  approvalReviewResponseSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Cancel an approval request",
+  description:
+    "Lets the admin who requested an action withdraw it while it is pending.",
+  operationId: "cancelApprovalRequest",
+  tags: ["Admin", "Approvals"],
+  parameters: [approvalRequestIdParameter],
+  requestBody: approvalReviewBodySchema,
+  responses: {
+    200: approvalReviewResponseSchema,
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Request"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  return cancelApprovalRequest(params.id, user.id, body?.comment);
+};
@@ -0,0 +1,75 @@
+// backend/api/admin/system/approval/[id]/comment.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { addApprovalComment } from "@b/utils/approvals";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { baseStringSchema } from "@b/utils/schema";
+import { approvalCommentSchema, approvalRequestIdParameter } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Comment on an approval request",
+  description:
+    "Adds a comment to an approval request, for the requester and reviewers to discuss it.",
+  operationId: "commentApprovalRequest",
+  tags: ["Admin", "Approvals"],
+  parameters: [approvalRequestIdParameter],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            message: baseStringSchema("Comment", 1000, 1),
+          },
+          required: ["message"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Comment added successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: approvalCommentSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Request"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const request = await models.approvalRequest.findByPk(params.id);
+  if (!request) {
+    throw createError({
+      statusCode: 404,
+      message: "Approval request not found",
+    });
+  }
+
+  const comment = await addApprovalComment(request.id, user.id, body.message);
+  if (!comment) {
+    throw createError({ statusCode: 400, message: "Comment cannot be empty" });
+  }
+
+  return { message: "Comment added successfully", comment };
+};
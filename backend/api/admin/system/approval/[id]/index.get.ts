@@ -0,0 +1,91 @@
+// backend/api/admin/system/approval/[id]/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  approvalCommentSchema,
+  approvalRequestIdParameter,
+  approvalRequestSchema,
+  approvalUserAttributes,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Get an approval request",
+  description: "Retrieves an approval request with its comments.",
+  operationId: "getApprovalRequest",
+  tags: ["Admin", "Approvals"],
+  parameters: [approvalRequestIdParameter],
+  responses: {
+    200: {
+      description: "Approval request retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              ...approvalRequestSchema,
+              comments: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: approvalCommentSchema,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Request"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { id } = data.params;
+
+  const request = await models.approvalRequest.findByPk(id, {
+    include: [
+      {
+        model: models.user,
+        as: "requestedBy",
+        attributes: approvalUserAttributes,
+      },
+      {
+        model: models.user,
+        as: "reviewedBy",
+        attributes: approvalUserAttributes,
+      },
+      {
+        model: models.approvalComment,
+        as: "comments",
+        include: [
+          {
+            model: models.user,
+            as: "user",
+            attributes: approvalUserAttributes,
+          },
+        ],
+      },
+    ],
+    order: [
+      [{ model: models.approvalComment, as: "comments" }, "createdAt", "ASC"],
+    ],
+  });
+  if (!request) {
+    throw createError({
+      statusCode: 404,
+      message: "Approval request not found",
+    });
+  }
+
+  return request.get({ plain: true });
+};
@@ -0,0 +1,40 @@
+// backend/api/admin/system/approval/[id]/reject.post.ts
+
+import { createError } from "@b/utils/error";
+import { reviewApprovalRequest } from "@b/utils/approvals";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  approvalRequestIdParameter,
+  approvalReviewBodySchema,
+  approvalReviewResponseSchema,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Reject an approval request",
+  description: "Rejects a pending request, its action is not run.",
+  operationId: "rejectApprovalRequest",
+  tags: ["Admin", "Approvals"],
+  parameters: [approvalRequestIdParameter],
+  requestBody: approvalReviewBodySchema,
+  responses: {
+    200: approvalReviewResponseSchema,
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Request"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  return reviewApprovalRequest(params.id, user.id, "REJECT", body?.comment);
+};
@@ -0,0 +1,70 @@
+// backend/api/admin/system/approval/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { approvalRequestSchema, approvalUserAttributes } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "List approval requests",
+  description:
+    "Retrieves the sensitive admin actions waiting for, or given, the approval of a second admin.",
+  operationId: "listApprovalRequests",
+  tags: ["Admin", "Approvals"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Approval requests retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: approvalRequestSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Approval Requests"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Approval Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.approvalRequest,
+    query,
+    sortField: query.sortField || "createdAt",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.user,
+        as: "requestedBy",
+        attributes: approvalUserAttributes,
+      },
+      {
+        model: models.user,
+        as: "reviewedBy",
+        attributes: approvalUserAttributes,
+      },
+    ],
+  });
+};
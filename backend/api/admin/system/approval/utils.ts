@@ -0,0 +1,115 @@
+// backend/api/admin/system/approval/utils.ts
+
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+const userSchema = (description: string) => ({
+  type: "object",
+  description,
+  properties: {
+    firstName: baseStringSchema("First name of the admin"),
+    lastName: baseStringSchema("Last name of the admin"),
+    email: baseStringSchema("Email of the admin"),
+    avatar: baseStringSchema("Avatar of the admin"),
+  },
+});
+
+export const approvalCommentSchema = {
+  id: baseStringSchema("ID of the comment"),
+  approvalRequestId: baseStringSchema("ID of the approval request"),
+  userId: baseStringSchema("ID of the admin who wrote the comment"),
+  message: baseStringSchema("Comment"),
+  createdAt: baseStringSchema("Date of the comment"),
+  user: userSchema("Admin who wrote the comment"),
+};
+
+export const approvalRequestSchema = {
+  id: baseStringSchema("ID of the approval request"),
+  type: {
+    ...baseStringSchema("Type of the action"),
+    enum: ["WALLET_BALANCE", "WITHDRAWAL", "ROLE_CHANGE", "MASTER_WALLET"],
+  },
+  action: baseStringSchema("Operation run once the request is approved"),
+  summary: baseStringSchema("Description of the action"),
+  payload: {
+    type: "object",
+    description: "Input the operation runs with",
+    additionalProperties: true,
+  },
+  valueUsd: {
+    ...baseNumberSchema("USD value of the action"),
+    nullable: true,
+  },
+  status: {
+    ...baseStringSchema("Status of the approval request"),
+    enum: ["PENDING", "APPROVED", "REJECTED", "CANCELLED", "EXPIRED", "FAILED"],
+  },
+  requestedById: baseStringSchema("ID of the admin who requested the action"),
+  reviewedById: baseStringSchema(
+    "ID of the admin who reviewed it",
+    255,
+    0,
+    true
+  ),
+  reviewedAt: baseStringSchema("Date of the review", 255, 0, true),
+  expiresAt: baseStringSchema("Date the request expires if not reviewed"),
+  result: {
+    type: "object",
+    description: "Result of the operation",
+    nullable: true,
+    additionalProperties: true,
+  },
+  error: baseStringSchema("Error the operation failed with", 10000, 0, true),
+  createdAt: baseStringSchema("Date of the request"),
+  updatedAt: baseStringSchema("Date of the last update"),
+  requestedBy: userSchema("Admin who requested the action"),
+  reviewedBy: userSchema("Admin who reviewed the action"),
+};
+
+export const approvalReviewBodySchema = {
+  required: false,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          comment: baseStringSchema(
+            "Comment added to the request with the decision",
+            1000,
+            0,
+            true
+          ),
+        },
+      },
+    },
+  },
+};
+
+export const approvalReviewResponseSchema = {
+  description: "Approval request reviewed successfully",
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: {
+          message: baseStringSchema("Outcome of the review"),
+        },
+      },
+    },
+  },
+};
+
+export const approvalRequestIdParameter = {
+  index: 0,
+  name: "id",
+  in: "path" as const,
+  required: true,
+  description: "ID of the approval request",
+  schema: { type: "string" },
+};
+
+export const approvalUserAttributes = [
+  "firstName",
+  "lastName",
+  "email",
+  "avatar",
+];
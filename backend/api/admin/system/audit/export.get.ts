@@ -0,0 +1,82 @@
+// backend/api/admin/system/audit/export.get.ts
+
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { auditLogSchema } from "./utils";
+
+// Larger ranges have to be exported in several parts
+const MAX_EXPORT_ENTRIES = 10000;
+const DEFAULT_EXPORT_DAYS = 30;
+
+export const metadata: OperationObject = {
+  summary: "Export audit trail entries",
+  description:
+    "Exports the audit trail entries of a period in chain order, with the hashes needed to verify them.",
+  operationId: "exportAuditLogs",
+  tags: ["Admin", "Audit"],
+  parameters: [
+    {
+      in: "query",
+      name: "from",
+      required: false,
+      schema: { type: "string", format: "date-time" },
+      description: "Start of the period, 30 days ago by default",
+    },
+    {
+      in: "query",
+      name: "to",
+      required: false,
+      schema: { type: "string", format: "date-time" },
+      description: "End of the period, now by default",
+    },
+  ],
+  responses: {
+    200: {
+      description: "Audit trail entries exported successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: auditLogSchema,
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid period" },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  permission: "Access Audit Trail Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - DEFAULT_EXPORT_DAYS * 86400000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    throw createError({ statusCode: 400, message: "Invalid export period" });
+  }
+
+  const entries = await models.adminAuditLog.findAll({
+    where: { createdAt: { [Op.between]: [from, to] } },
+    order: [["sequence", "ASC"]],
+    limit: MAX_EXPORT_ENTRIES + 1,
+  });
+  if (entries.length > MAX_EXPORT_ENTRIES) {
+    throw createError({
+      statusCode: 400,
+      message: `The period holds more than ${MAX_EXPORT_ENTRIES} entries, export a shorter one`,
+    });
+  }
+
+  return entries.map((entry) => entry.get({ plain: true }));
+};
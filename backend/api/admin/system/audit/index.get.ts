@@ -0,0 +1,65 @@
+// backend/api/admin/system/audit/index.get.ts
+
+import { models } from "@b/db";
+import {
+  getFiltered,
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { crudParameters, paginationSchema } from "@b/utils/constants";
+import { auditLogSchema } from "./utils";
+
+export const metadata: OperationObject = {
+  summary: "List audit trail entries",
+  description:
+    "Retrieves the entries of the admin audit trail with the admins who made them.",
+  operationId: "listAuditLogs",
+  tags: ["Admin", "Audit"],
+  parameters: crudParameters,
+  responses: {
+    200: {
+      description: "Audit trail entries retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              data: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: auditLogSchema,
+                },
+              },
+              pagination: paginationSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Audit Logs"),
+    500: serverErrorResponse,
+  },
+  permission: "Access Audit Trail Management",
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { query } = data;
+
+  return getFiltered({
+    model: models.adminAuditLog,
+    query,
+    sortField: query.sortField || "sequence",
+    paranoid: false,
+    includeModels: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["firstName", "lastName", "email", "avatar"],
+      },
+    ],
+  });
+};
@@ -0,0 +1,51 @@
+// backend/api/admin/system/audit/utils.ts
+
+import {
+  baseIntegerSchema,
+  baseObjectSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+export const auditLogSchema = {
+  id: baseStringSchema("ID of the entry"),
+  sequence: baseIntegerSchema("Position of the entry in the chain"),
+  userId: baseStringSchema("ID of the admin who made the request"),
+  ip: baseStringSchema("IP address the request came from"),
+  method: baseStringSchema("HTTP method of the request"),
+  route: baseStringSchema("Route that handled the request"),
+  path: baseStringSchema("Path the request was made to"),
+  params: baseObjectSchema("Route parameters of the request", true, true),
+  statusCode: baseIntegerSchema("Status code of the response", true),
+  reason: baseStringSchema("Reason given for the change", 500, 0, true),
+  changes: {
+    type: "array",
+    description:
+      "Rows changed by the request, with their values before and after",
+    items: {
+      type: "object",
+      properties: {
+        model: baseStringSchema("Model of the changed row"),
+        action: {
+          ...baseStringSchema("What was done to the row"),
+          enum: ["CREATE", "UPDATE", "DELETE", "OMITTED"],
+        },
+        id: baseStringSchema("ID of the changed row"),
+        before: baseObjectSchema("Values before the change", true),
+        after: baseObjectSchema("Values after the change", true),
+        count: baseIntegerSchema("Number of changes left out of the entry"),
+      },
+    },
+  },
+  previousHash: baseStringSchema("Hash of the entry before this one"),
+  hash: baseStringSchema("Hash of the entry chained to the previous hash"),
+  createdAt: baseStringSchema("Date of the request"),
+  user: {
+    type: "object",
+    properties: {
+      firstName: baseStringSchema("First name of the admin"),
+      lastName: baseStringSchema("Last name of the admin"),
+      email: baseStringSchema("Email of the admin"),
+      avatar: baseStringSchema("Avatar of the admin"),
+    },
+  },
+};
@@ -0,0 +1,60 @@
+// backend/api/admin/system/audit/verify.get.ts
+
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { verifyAuditChain } from "@b/utils/audit";
+import {
+  baseBooleanSchema,
+  baseIntegerSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+export const metadata: OperationObject = {
+  summary: "Verify the audit trail",
+  description:
+    "Walks the hash chain of the audit trail and reports the first entry that is missing, unlinked or altered.",
+  operationId: "verifyAuditTrail",
+  tags: ["Admin", "Audit"],
+  responses: {
+    200: {
+      description: "Audit trail verified",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              valid: baseBooleanSchema("Whether the chain is intact"),
+              checked: baseIntegerSchema("Number of entries verified"),
+              head: {
+                type: "object",
+                nullable: true,
+                properties: {
+                  sequence: baseIntegerSchema("Sequence of the last entry"),
+                  hash: baseStringSchema("Hash of the last entry"),
+                },
+              },
+              brokenAt: {
+                type: "object",
+                nullable: true,
+                properties: {
+                  id: baseStringSchema("ID of the first broken entry"),
+                  sequence: baseIntegerSchema(
+                    "Sequence of the first broken entry"
+                  ),
+                  reason: baseStringSchema("Why the chain breaks there"),
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  permission: "Access Audit Trail Management",
+  requiresAuth: true,
+};
+
+export default async () => {
+  return verifyAuditChain();
+};
@@ -77,6 +77,7 @@ export default async (data) => {
 
   const apiKey = await models.apiKey.findOne({
     where: { id, userId: user.id },
+    attributes: { exclude: ["encryptedSecret"] },
   });
   if (!apiKey)
     throw createError({ statusCode: 404, message: "API Key not found" });
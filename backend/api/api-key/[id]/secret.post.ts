@@ -0,0 +1,61 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+import { generateApiSecret } from "@b/utils/apiKey";
+
+export const metadata: OperationObject = {
+  summary: "Regenerates the secret of an API key",
+  description:
+    "Issues a new secret for signing requests with an API key, invalidating the previous one. The secret is only returned in this response.",
+  operationId: "regenerateApiKeySecret",
+  tags: ["API Key Management"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "The ID of the API key",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Secret regenerated successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              key: { type: "string" },
+              secret: {
+                type: "string",
+                description: "Secret for signing requests, shown only once",
+              },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+    404: { description: "API key not found" },
+    500: { description: "Server error" },
+  },
+  requiresAuth: true,
+};
+
+export default async (data) => {
+  const { user, params } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const apiKey = await models.apiKey.findOne({
+    where: { id: params.id, userId: user.id },
+  });
+  if (!apiKey)
+    throw createError({ statusCode: 404, message: "API Key not found" });
+
+  const { secret, encryptedSecret } = generateApiSecret();
+  await apiKey.update({ encryptedSecret });
+
+  return { id: apiKey.id, key: apiKey.key, secret };
+};
@@ -22,6 +22,15 @@ export const metadata: OperationObject = {
                 key: { type: "string" },
                 permissions: { type: "array", items: { type: "string" } },
                 ipWhitelist: { type: "array", items: { type: "string" } },
+                ipRestriction: { type: "boolean" },
+                hasSecret: {
+                  type: "boolean",
+                  description: "Whether the key can sign requests",
+                },
+                lastUsedAt: { type: "string", format: "date-time" },
+                lastUsedIp: { type: "string" },
+                usageCount: { type: "number" },
+                createdAt: { type: "string", format: "date-time" },
               },
             },
           },
@@ -40,8 +49,23 @@ export default async (data) => {
 
   const apiKeys = await models.apiKey.findAll({
     where: { userId: user.id },
-    attributes: ["id", "name", "key", "permissions", "ipWhitelist"],
+    attributes: [
+      "id",
+      "name",
+      "key",
+      "encryptedSecret",
+      "permissions",
+      "ipWhitelist",
+      "ipRestriction",
+      "lastUsedAt",
+      "lastUsedIp",
+      "usageCount",
+      "createdAt",
+    ],
   });
 
-  return apiKeys;
+  return apiKeys.map((apiKey) => {
+    const { encryptedSecret, ...rest } = apiKey.get({ plain: true });
+    return { ...rest, hasSecret: !!encryptedSecret };
+  });
 };
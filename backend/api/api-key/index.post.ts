@@ -1,9 +1,11 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
+import { generateApiKey, generateApiSecret } from "@b/utils/apiKey";
 
 export const metadata: OperationObject = {
   summary: "Creates a new API key",
-  description: "Generates a new API key for the authenticated user.",
+  description:
+    "Generates a new API key for the authenticated user. The secret used to sign requests is only returned in this response.",
   operationId: "createApiKey",
   tags: ["API Key Management"],
   requestBody: {
@@ -46,6 +48,10 @@ export const metadata: OperationObject = {
               id: { type: "string" },
               name: { type: "string" },
               key: { type: "string" },
+              secret: {
+                type: "string",
+                description: "Secret for signing requests, shown only once",
+              },
               permissions: { type: "array", items: { type: "string" } },
               ipWhitelist: { type: "array", items: { type: "string" } },
               ipRestriction: { type: "boolean" },
@@ -61,17 +67,6 @@ export const metadata: OperationObject = {
   requiresAuth: true,
 };
 
-// Custom API Key Generator
-export function generateApiKey(length = 64) {
-  const characters =
-    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  let apiKey = "";
-  for (let i = 0; i < length; i++) {
-    apiKey += characters.charAt(Math.floor(Math.random() * characters.length));
-  }
-  return apiKey;
-}
-
 export default async (data) => {
   const { user, body } = data;
   if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
@@ -90,15 +85,29 @@ export default async (data) => {
     });
   }
 
+  const { secret, encryptedSecret } = generateApiSecret();
   const newKey = await models.apiKey.create({
     userId: user.id,
     name: name,
-    key: generateApiKey(), // Use the custom API key generator
+    key: generateApiKey(),
+    encryptedSecret,
     permissions: permissions || [],
     ipWhitelist: ipWhitelist || [],
     ipRestriction: ipRestriction ?? false,
     type: "user",
   });
 
-  return newKey;
+  return {
+    id: newKey.id,
+    name: newKey.name,
+    key: newKey.key,
+    secret,
+    permissions: newKey.permissions,
+    ipWhitelist: newKey.ipWhitelist,
+    ipRestriction: newKey.ipRestriction,
+    hasSecret: true,
+    usageCount: 0,
+    lastUsedAt: null,
+    lastUsedIp: null,
+  };
 };
@@ -13,6 +13,11 @@ import {
   verifyRecaptcha,
 } from "../utils";
 import { emailQueue } from "@b/utils/emails";
+import {
+  getAuthenticationOptions,
+  isAdminRole,
+  isSecurityKeyRequiredForAdmins,
+} from "@b/utils/webauthn";
 
 const recaptchaEnabled =
   process.env.NEXT_PUBLIC_GOOGLE_RECAPTCHA_STATUS === "true";
@@ -109,6 +114,10 @@ export default async (data: Handler) => {
     await verifyPasswordOrThrow(user, password);
     await handleLoginAttempts(user);
 
+    if (await isSecurityKeyRequired(user)) {
+      return await handlePasskeyAuthentication(user);
+    }
+
     if (await isTwoFactorAuthenticationRequired(user)) {
       return await handleTwoFactorAuthentication(user);
     }
@@ -230,6 +239,26 @@ async function handleLoginAttempts(user: any) {
   );
 }
 
+// Admins who enrolled a security key must use it when the platform requires
+// one, those without one can still log in to enrol it
+async function isSecurityKeyRequired(user: any) {
+  if (!isAdminRole(user.roleId)) return false;
+  if (!(await isSecurityKeyRequiredForAdmins())) return false;
+  return (await models.userPasskey.count({ where: { userId: user.id } })) > 0;
+}
+
+async function handlePasskeyAuthentication(user: any) {
+  return {
+    twoFactor: {
+      enabled: true,
+      type: "WEBAUTHN",
+    },
+    id: user.id,
+    webauthn: await getAuthenticationOptions("2fa", user.id),
+    message: "2FA required",
+  };
+}
+
 async function isTwoFactorAuthenticationRequired(user: any) {
   return (
     user.twoFactor?.enabled && process.env.NEXT_PUBLIC_2FA_STATUS === "true"
@@ -251,6 +280,8 @@ async function handleTwoFactorAuthentication(user: any) {
     case "APP":
       // Handle APP OTP logic here if required
       break;
+    case "WEBAUTHN":
+      return await handlePasskeyAuthentication(user);
     default:
       throw createError({ statusCode: 400, message: "Invalid 2FA type" });
   }
@@ -65,6 +65,12 @@ export default async (data: Handler) => {
   validateRequestBody(id, otp);
 
   const user = await getUserWith2FA(id);
+  if (user.twoFactor.type === "WEBAUTHN") {
+    throw createError({
+      statusCode: 400,
+      message: "This account uses a passkey as second factor",
+    });
+  }
 
   const isValid = verifyOtp(user.twoFactor.secret, otp);
 
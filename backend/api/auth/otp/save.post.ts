@@ -1,11 +1,13 @@
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { makeRandomString32 } from "@b/utils/passwords";
 
 export const metadata: OperationObject = {
   summary: "Saves the OTP",
   operationId: "saveOTP",
   tags: ["Auth"],
-  description: "Saves the OTP secret and type for the user",
+  description:
+    "Saves the OTP secret and type for the user. Passkeys (WEBAUTHN) need no secret but at least one registered passkey.",
   requiresAuth: true,
   requestBody: {
     required: true,
@@ -20,11 +22,11 @@ export const metadata: OperationObject = {
             },
             type: {
               type: "string",
-              enum: ["EMAIL", "SMS", "APP"],
+              enum: ["EMAIL", "SMS", "APP", "WEBAUTHN"],
               description: "Type of 2FA",
             },
           },
-          required: ["secret", "type"],
+          required: ["type"],
         },
       },
     },
@@ -61,7 +63,23 @@ export default async (data: Handler) => {
 
   validateRequestBody(body);
 
-  const otpDetails = await saveOrUpdateOTP(user.id, body.secret, body.type);
+  let secret = body.secret;
+  if (body.type === "WEBAUTHN") {
+    const passkeys = await models.userPasskey.count({
+      where: { userId: user.id },
+    });
+    if (passkeys === 0) {
+      throw createError({
+        statusCode: 400,
+        message: "Register a passkey before using it for 2FA",
+      });
+    }
+    // Passkeys sign their own challenges, the secret only keeps OTP codes
+    // from ever matching
+    secret = makeRandomString32();
+  }
+
+  const otpDetails = await saveOrUpdateOTP(user.id, secret, body.type);
 
   return {
     message: "OTP saved successfully",
@@ -72,14 +90,14 @@ export default async (data: Handler) => {
 // Validate the request body
 function validateRequestBody(body: { secret: string; type: string }) {
   const { secret, type } = body;
-  if (!secret || !type) {
+  if (!type || (!secret && type !== "WEBAUTHN")) {
     throw createError({
       statusCode: 400,
       message: "Missing required parameters: 'secret' and 'type'",
     });
   }
 
-  const validTypes = ["EMAIL", "SMS", "APP"];
+  const validTypes = ["EMAIL", "SMS", "APP", "WEBAUTHN"];
   if (!validTypes.includes(type)) {
     throw createError({
       statusCode: 400,
@@ -92,7 +110,7 @@ function validateRequestBody(body: { secret: string; type: string }) {
 export async function saveOrUpdateOTP(
   userId: string,
   secret: string,
-  type: "EMAIL" | "SMS" | "APP"
+  type: TwoFactorType
 ) {
   const existingTwoFactor = await models.twoFactor.findOne({
     where: { userId },
@@ -111,7 +129,7 @@ export async function saveOrUpdateOTP(
 async function updateTwoFactor(
   recordId: string,
   secret: string,
-  type: "EMAIL" | "SMS" | "APP"
+  type: TwoFactorType
 ) {
   try {
     const [_, [updatedRecord]] = await models.twoFactor.update(
@@ -131,7 +149,7 @@ async function updateTwoFactor(
 async function createTwoFactor(
   userId: string,
   secret: string,
-  type: "EMAIL" | "SMS" | "APP"
+  type: TwoFactorType
 ) {
   try {
     return await models.twoFactor.create({
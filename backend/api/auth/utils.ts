@@ -58,12 +58,22 @@ export const userRegisterSchema = {
   required: ["token"],
 };
 
-export const returnUserWithTokens = async ({ user, message }) => {
+export const returnUserWithTokens = async ({
+  user,
+  message,
+  webauthn = false,
+}: {
+  user: any;
+  message: string;
+  webauthn?: boolean;
+}) => {
   // Prepare user data for token generation, excluding sensitive information
-  const publicUser = {
+  const publicUser: Record<string, any> = {
     id: user.id,
     role: user.roleId,
   };
+  // Marks sessions opened with a passkey, which admin routes may require
+  if (webauthn) publicUser.webauthn = true;
 
   // Generate tokens and CSRF token
   const { accessToken, refreshToken, csrfToken, sessionId } =
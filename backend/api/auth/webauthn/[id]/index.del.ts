@@ -0,0 +1,69 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+
+export const metadata: OperationObject = {
+  summary: "Removes a passkey",
+  operationId: "deletePasskey",
+  tags: ["Auth"],
+  description:
+    "Removes a passkey from the current user. The last passkey cannot be removed while passkeys are the user's second factor.",
+  requiresAuth: true,
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the passkey",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Passkey removed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Passkey is still needed for two-factor login" },
+    401: { description: "Unauthorized" },
+    404: { description: "Passkey not found" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const passkey = await models.userPasskey.findOne({
+    where: { id: params.id, userId: user.id },
+  });
+  if (!passkey) {
+    throw createError({ statusCode: 404, message: "Passkey not found" });
+  }
+
+  const [remaining, twoFactor] = await Promise.all([
+    models.userPasskey.count({ where: { userId: user.id } }),
+    models.twoFactor.findOne({
+      where: { userId: user.id, type: "WEBAUTHN", enabled: true },
+    }),
+  ]);
+  if (twoFactor && remaining <= 1) {
+    throw createError({
+      statusCode: 400,
+      message:
+        "Switch to another two-factor method before removing your last passkey",
+    });
+  }
+
+  await passkey.destroy();
+  return { message: "Passkey removed successfully" };
+};
@@ -0,0 +1,48 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+
+export const metadata: OperationObject = {
+  summary: "Lists passkeys",
+  operationId: "listPasskeys",
+  tags: ["Auth"],
+  description: "Lists the passkeys and security keys of the current user",
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Passkeys retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                backedUp: {
+                  type: "boolean",
+                  description: "Whether the passkey is synced to a cloud",
+                },
+                lastUsedAt: { type: "string", format: "date-time" },
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  return await models.userPasskey.findAll({
+    where: { userId: user.id },
+    attributes: ["id", "name", "backedUp", "lastUsedAt", "createdAt"],
+    order: [["createdAt", "ASC"]],
+  });
+};
@@ -0,0 +1,92 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+import { verifyPasskeyAssertion } from "@b/utils/webauthn";
+import { returnUserWithTokens } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Logs in with a passkey",
+  operationId: "loginWithPasskey",
+  tags: ["Auth"],
+  description:
+    "Verifies a passkey assertion and returns a session. With a user ID it completes a login that required a passkey as second factor, without one it signs in passwordless.",
+  requiresAuth: false,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              format: "uuid",
+              description: "ID of the user completing a second factor",
+            },
+            challengeId: {
+              type: "string",
+              description: "ID of the challenge the passkey signed",
+            },
+            credential: {
+              type: "object",
+              description: "Authentication response from the browser",
+            },
+          },
+          required: ["challengeId", "credential"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Passkey verified successfully, user logged in",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid or expired passkey response" },
+    401: { description: "Passkey not recognised" },
+    403: { description: "Account not allowed to log in" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { id, challengeId, credential } = data.body;
+
+  const passkey = await verifyPasskeyAssertion(id ? "2fa" : "passwordless", {
+    challengeId,
+    credential,
+  });
+  if (id && passkey.userId !== id) {
+    throw createError({ statusCode: 401, message: "Unknown passkey" });
+  }
+
+  const user = await models.user.findByPk(passkey.userId);
+  if (!user) {
+    throw createError({ statusCode: 401, message: "Unknown passkey" });
+  }
+  if (user.status !== "ACTIVE") {
+    throw createError({
+      statusCode: 403,
+      message: "Your account is not active. Please contact support.",
+    });
+  }
+
+  await user.update({
+    failedLoginAttempts: 0,
+    lastFailedLogin: null,
+    lastLogin: new Date(),
+  });
+
+  return await returnUserWithTokens({
+    user,
+    message: "You have been logged in successfully",
+    webauthn: true,
+  });
+};
@@ -0,0 +1,30 @@
+import { getAuthenticationOptions } from "@b/utils/webauthn";
+
+export const metadata: OperationObject = {
+  summary: "Generates passwordless login options",
+  operationId: "generatePasskeyLoginOptions",
+  tags: ["Auth"],
+  description:
+    "Generates the options for signing in with a passkey instead of a password. The browser offers any passkey saved for this site.",
+  requiresAuth: false,
+  responses: {
+    200: {
+      description: "Login options generated successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              challengeId: { type: "string" },
+              options: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export default async () => {
+  return await getAuthenticationOptions("passwordless");
+};
@@ -0,0 +1,72 @@
+import { createError } from "@b/utils/error";
+import { registerPasskey } from "@b/utils/webauthn";
+import { baseStringSchema } from "@b/utils/schema";
+
+export const metadata: OperationObject = {
+  summary: "Registers a passkey",
+  operationId: "registerPasskey",
+  tags: ["Auth"],
+  description:
+    "Verifies the response of a passkey or security key to a registration challenge and adds it to the account",
+  requiresAuth: true,
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            challengeId: {
+              type: "string",
+              description: "ID of the registration challenge",
+            },
+            credential: {
+              type: "object",
+              description: "Registration response from the browser",
+            },
+            name: baseStringSchema("Name to recognise the passkey by", 191),
+          },
+          required: ["challengeId", "credential"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Passkey registered successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string" },
+              passkey: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "Invalid or expired registration response" },
+    401: { description: "Unauthorized" },
+    409: { description: "Passkey already registered" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const { challengeId, credential, name } = body;
+  const passkey = await registerPasskey(user.id, challengeId, credential, name);
+
+  return {
+    message: "Passkey registered successfully",
+    passkey: {
+      id: passkey.id,
+      name: passkey.name,
+      backedUp: passkey.backedUp,
+      createdAt: passkey.createdAt,
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+import { getRegistrationOptions } from "@b/utils/webauthn";
+
+export const metadata: OperationObject = {
+  summary: "Generates passkey registration options",
+  operationId: "generatePasskeyRegistrationOptions",
+  tags: ["Auth"],
+  description:
+    "Generates the options for enrolling a new passkey or security key, along with the ID of the challenge to send back with the response",
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Registration options generated successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              challengeId: { type: "string" },
+              options: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const account = await models.user.findByPk(user.id);
+  if (!account)
+    throw createError({ statusCode: 404, message: "User not found" });
+
+  return await getRegistrationOptions(account);
+};
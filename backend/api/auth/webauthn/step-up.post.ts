@@ -0,0 +1,37 @@
+import { createError } from "@b/utils/error";
+import { getAuthenticationOptions } from "@b/utils/webauthn";
+
+export const metadata: OperationObject = {
+  summary: "Generates passkey confirmation options",
+  operationId: "generatePasskeyStepUpOptions",
+  tags: ["Auth"],
+  description:
+    "Generates the options for confirming a sensitive action, such as a withdrawal, with one of the user's passkeys",
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Confirmation options generated successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              challengeId: { type: "string" },
+              options: { type: "object" },
+            },
+          },
+        },
+      },
+    },
+    400: { description: "No passkey registered" },
+    401: { description: "Unauthorized" },
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  return await getAuthenticationOptions("stepup", user.id);
+};
@@ -41,6 +41,17 @@ jest.mock("@b/handler/Websocket", () => ({
   sendMessageToRoute: jest.fn(),
 }));
 
+jest.mock("@b/utils/ledger", () => ({
+  setWalletBalances: jest.fn(async (wallet, values, _context, transaction) => {
+    const { models } = jest.requireMock("@b/db");
+    await models.wallet.update(values, {
+      where: { id: wallet.id },
+      transaction,
+    });
+    Object.assign(wallet, values);
+  }),
+}));
+
 jest.mock("@b/db", () => {
   const transactionMock = jest.fn();
   return {
@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendBinaryOrderEmail } from "@b/utils/emails";
 import { handleNotification } from "@b/utils/notifications";
 import { sendMessageToRoute } from "@b/handler/Websocket";
@@ -124,11 +125,6 @@ export class BinaryOrderService {
             message: "Insufficient balance",
           });
         }
-
-        await models.wallet.update(
-          { balance: newBalance },
-          { where: { id: wallet.id }, transaction: t }
-        );
       }
 
       const exchange = await ensureExchange();
@@ -180,6 +176,17 @@ export class BinaryOrderService {
       );
 
       if (!isDemo) {
+        await setWalletBalances(
+          wallet,
+          { balance: wallet.balance - amount },
+          {
+            description: "Binary order stake",
+            referenceType: "binaryOrder",
+            referenceId: finalOrder.id,
+          },
+          t
+        );
+
         await models.transaction.create(
           {
             userId: userId,
@@ -473,11 +480,15 @@ export class BinaryOrderService {
           if (partialReturn < 0) partialReturn = 0;
         }
 
-        const newBalance = wallet.balance + partialReturn;
-
-        await models.wallet.update(
-          { balance: newBalance },
-          { where: { id: wallet.id }, transaction: t }
+        await setWalletBalances(
+          wallet,
+          { balance: wallet.balance + partialReturn },
+          {
+            description: "Binary order cancellation refund",
+            referenceType: "binaryOrder",
+            referenceId: order.id,
+          },
+          t
         );
 
         await models.transaction.destroy({
@@ -643,13 +654,15 @@ export class BinaryOrderService {
 
         if (!wallet) throw new Error("Wallet not found to update balance");
 
-        let { balance } = wallet;
-
-        balance = applyFinalPayout(order, balance);
-
-        await models.wallet.update(
-          { balance },
-          { where: { id: wallet.id }, transaction: t }
+        await setWalletBalances(
+          wallet,
+          { balance: applyFinalPayout(order, wallet.balance) },
+          {
+            description: `Binary order ${order.status.toLowerCase()} payout`,
+            referenceType: "binaryOrder",
+            referenceId: order.id,
+          },
+          t
         );
       }
 
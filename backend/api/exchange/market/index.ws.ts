@@ -20,10 +20,16 @@ class BaseMarketDataHandler {
       if (Object.keys(data).length > 0) {
         const route = `/api/exchange/market`;
         const payload = { ...data.payload, symbol: data.symbol };
-        sendMessageToRoute(route, payload, {
-          stream: streamKey, // Do not include the symbol in the stream key for frontend
-          data: data.msg,
-        });
+        // Every instance watches the markets its own clients subscribed to
+        sendMessageToRoute(
+          route,
+          payload,
+          {
+            stream: streamKey, // Do not include the symbol in the stream key for frontend
+            data: data.msg,
+          },
+          { local: true }
+        );
         delete this.accumulatedBuffer[streamKey];
       }
     });
@@ -12,6 +12,8 @@ import {
 import { getWallet } from "@b/api/finance/wallet/utils";
 import { removeOrderFromTrackedOrders } from "../index.ws";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
+import { exchangeOrderLedgerContext } from "../index.post";
 import { formatWaitTime, handleBanStatus, loadBanStatus } from "../../utils";
 
 export const metadata: OperationObject = {
@@ -79,7 +81,10 @@ export default async (data: Handler) => {
 
     if (order.userId !== user.id) throw createError(401, "Unauthorized");
 
-    const exchange = await ExchangeManager.startExchange();
+    // Orders have to be cancelled on the provider they were routed to
+    const exchange = order.provider
+      ? await ExchangeManager.startExchangeProvider(order.provider)
+      : await ExchangeManager.startExchange();
     if (!exchange) throw createError(503, "Service currently unavailable");
 
     try {
@@ -120,20 +125,24 @@ export default async (data: Handler) => {
       await exchange.cancelOrder(order.referenceId, order.symbol);
 
       await sequelize.transaction(async (transaction) => {
-        if (order.side.toUpperCase() === "BUY") {
-          // Refund cost to pairWallet (e.g., USDT)
-          const cost = Number(order.amount) * Number(order.price);
-          await models.wallet.update(
-            { balance: pairWallet.balance + cost },
-            { where: { id: pairWallet.id }, transaction }
-          );
-        } else {
-          // Refund amount to currencyWallet (e.g., BTC)
-          await models.wallet.update(
-            { balance: currencyWallet.balance + Number(order.amount) },
-            { where: { id: currencyWallet.id }, transaction }
-          );
-        }
+        // Refund cost to pairWallet (e.g., USDT) for a buy, and amount to
+        // currencyWallet (e.g., BTC) for a sell
+        const buy = order.side.toUpperCase() === "BUY";
+        const wallet = await models.wallet.findByPk(
+          buy ? pairWallet.id : currencyWallet.id,
+          { transaction, lock: transaction.LOCK.UPDATE }
+        );
+        if (!wallet) throw createError(500, "Failed to fetch wallets");
+
+        const refund = buy
+          ? Number(order.amount) * Number(order.price)
+          : Number(order.amount);
+        await setWalletBalances(
+          wallet,
+          { balance: wallet.balance + refund },
+          exchangeOrderLedgerContext(order.id, "Order canceled"),
+          transaction
+        );
 
         // delete the order
         await models.exchangeOrder.destroy({
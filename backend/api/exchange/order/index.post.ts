@@ -11,6 +11,8 @@ import ExchangeManager from "@b/utils/exchange";
 import { addOrderToTrackedOrders, addUserToWatchlist } from "./index.ws";
 import { createRecordResponses } from "@b/utils/query";
 import { adjustOrderData } from "./utils";
+import { getUserFeeRates } from "@b/utils/fees";
+import { LedgerContext, recordWalletChange } from "@b/utils/ledger";
 
 export const metadata: OperationObject = {
   summary: "Create Order",
@@ -145,19 +147,22 @@ export default async (data: Handler) => {
       );
     }
 
-    // Step 5: Initialize exchange and fetch ticker for price if market order
-    const exchange = await ExchangeManager.startExchange();
-    const provider = await ExchangeManager.getProvider();
-    if (!exchange) {
+    // Step 5: Route the order to the available providers and fetch the
+    // price for market orders from the preferred one
+    const routes = await ExchangeManager.getOrderRoutes(symbol, side, amount);
+    if (!routes.length) {
       throw new Error("Exchange service is currently unavailable");
     }
     let orderPrice = price;
     if (type.toLowerCase() === "market") {
-      const ticker = await exchange.fetchTicker(symbol);
-      if (!ticker || !ticker.last) {
-        throw new Error("Unable to fetch current market price");
+      orderPrice = routes[0].price;
+      if (!orderPrice) {
+        const ticker = await routes[0].exchange.fetchTicker(symbol);
+        if (!ticker || !ticker.last) {
+          throw new Error("Unable to fetch current market price");
+        }
+        orderPrice = ticker.last;
       }
-      orderPrice = ticker.last;
     }
 
     // Step 6: Calculate and validate cost
@@ -195,25 +200,34 @@ export default async (data: Handler) => {
       );
     }
 
-    // Step 8: Get custom fee rate and fee currency
-    const feeRate =
-      side === "BUY" ? Number(metadata.taker) : Number(metadata.maker);
+    // Step 8: Get the user's fee rate and fee currency
+    const feeRates = await getUserFeeRates(user.id, metadata);
+    const feeRate = side === "BUY" ? feeRates.taker : feeRates.maker;
     const feeCurrency = side === "BUY" ? currency : pair;
 
-    // Step 9: Create order with provider
-    let order;
-    try {
-      order = await exchange.createOrder(
-        symbol,
-        type.toLowerCase(),
-        side.toLowerCase(),
-        formattedAmount,
-        type.toLowerCase() === "limit" ? formattedPrice : undefined
-      );
-    } catch (error) {
-      throw new Error(
-        `Unable to process order: ${sanitizeErrorMessage(error.message)}`
-      );
+    // Step 9: Create the order, failing over to the next provider when the
+    // current one can't take it
+    let order, exchange, provider;
+    for (const route of routes) {
+      try {
+        order = await route.exchange.createOrder(
+          symbol,
+          type.toLowerCase(),
+          side.toLowerCase(),
+          formattedAmount,
+          type.toLowerCase() === "limit" ? formattedPrice : undefined
+        );
+        ({ exchange, provider } = route);
+        await ExchangeManager.reportProviderSuccess(provider);
+        break;
+      } catch (error) {
+        if (!ExchangeManager.isFailoverError(error)) {
+          throw new Error(
+            `Unable to process order: ${sanitizeErrorMessage(error.message)}`
+          );
+        }
+        await ExchangeManager.reportProviderFailure(route.provider, error);
+      }
     }
     if (!order || !order.id) {
       throw new Error("Unable to process order");
@@ -232,7 +246,8 @@ export default async (data: Handler) => {
         await updateWalletQuery(
           pairWallet.id,
           pairWallet.balance - cost,
-          transaction
+          transaction,
+          exchangeOrderLedgerContext(order.id, "Order placed")
         );
         if (["closed", "filled"].includes(orderData.status)) {
           const netAmount =
@@ -240,14 +255,20 @@ export default async (data: Handler) => {
           await updateWalletQuery(
             currencyWallet.id,
             currencyWallet.balance + netAmount,
-            transaction
+            transaction,
+            exchangeOrderLedgerContext(
+              order.id,
+              "Order filled",
+              Number(orderData.fee || 0)
+            )
           );
         }
       } else {
         await updateWalletQuery(
           currencyWallet.id,
           currencyWallet.balance - formattedAmount,
-          transaction
+          transaction,
+          exchangeOrderLedgerContext(order.id, "Order placed")
         );
         if (["closed", "filled"].includes(orderData.status)) {
           const proceeds = Number(orderData.amount) * Number(orderData.price);
@@ -255,7 +276,12 @@ export default async (data: Handler) => {
           await updateWalletQuery(
             pairWallet.id,
             pairWallet.balance + netProceeds,
-            transaction
+            transaction,
+            exchangeOrderLedgerContext(
+              order.id,
+              "Order filled",
+              Number(orderData.fee || 0)
+            )
           );
         }
       }
@@ -268,6 +294,7 @@ export default async (data: Handler) => {
           referenceId: order.id,
           fee: Number(orderData.fee || 0), // Ensure fee is a number
           feeCurrency,
+          provider,
         },
         transaction
       );
@@ -322,15 +349,36 @@ const createWallet = async (userId: string, currency: string) => {
   });
 };
 
+// Orders hand their funds to the exchange provider, which fills them less
+// the platform fee
+export const exchangeOrderLedgerContext = (
+  orderId: string,
+  description: string,
+  fee?: number
+): LedgerContext => ({
+  account: "EXCHANGE",
+  fee,
+  description,
+  referenceType: "exchangeOrder",
+  referenceId: orderId,
+});
+
 export async function updateWalletQuery(
   id: string,
   balance: number,
-  transaction?: any
+  transaction?: any,
+  ledger: LedgerContext = {}
 ): Promise<Wallet> {
-  // Lock the wallet row for update only if a transaction is provided
+  // The balance change and its journal are written in one transaction
+  if (!transaction) {
+    return sequelize.transaction((t) =>
+      updateWalletQuery(id, balance, t, ledger)
+    );
+  }
+
   const wallet = await models.wallet.findByPk(id, {
     transaction,
-    lock: transaction ? transaction.LOCK.UPDATE : undefined,
+    lock: transaction.LOCK.UPDATE,
   });
 
   if (!wallet) {
@@ -341,8 +389,9 @@ export async function updateWalletQuery(
     throw new Error("Invalid operation: balance cannot go below zero");
   }
 
-  // Update the wallet balance, with or without a transaction based on the input
-  await wallet.update({ balance }, transaction ? { transaction } : {});
+  const previous = { balance: wallet.balance, inOrder: wallet.inOrder || 0 };
+  await wallet.update({ balance }, { transaction });
+  await recordWalletChange(wallet, previous, ledger, transaction);
 
   return wallet.get({ plain: true }) as unknown as Wallet;
 }
@@ -384,5 +433,6 @@ const mapOrderData = (order: any) => {
     trades: JSON.stringify(order.trades),
     fee: Number(order.fee || 0), // Ensure fee is a number
     feeCurrency: order.feeCurrency,
+    provider: order.provider,
   };
 };
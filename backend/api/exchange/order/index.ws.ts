@@ -2,7 +2,7 @@ import ExchangeManager from "@b/utils/exchange";
 import { hasClients, sendMessageToRoute } from "@b/handler/Websocket";
 import { models } from "@b/db";
 import { getWallet } from "@b/api/finance/wallet/utils";
-import { updateWalletQuery } from "./index.post";
+import { exchangeOrderLedgerContext, updateWalletQuery } from "./index.post";
 import { logError } from "@b/utils/logger";
 import {
   loadBanStatus,
@@ -11,6 +11,7 @@ import {
   formatWaitTime,
 } from "../utils";
 import { adjustOrderData } from "./utils";
+import { getUserFeeRates } from "@b/utils/fees";
 
 export const metadata = {};
 
@@ -67,9 +68,9 @@ class OrderHandler {
           ? JSON.parse(market.metadata)
           : market.metadata;
 
-      // Determine fee rate and currency based on order side
-      const feeRate =
-        order.side === "BUY" ? Number(metadata.taker) : Number(metadata.maker);
+      // Determine the user's fee rate based on order side
+      const feeRates = await getUserFeeRates(userId, metadata);
+      const feeRate = order.side === "BUY" ? feeRates.taker : feeRates.maker;
 
       // Adjust order data with fee information
       order = adjustOrderData(order, provider, feeRate);
@@ -85,12 +86,18 @@ class OrderHandler {
         throw new Error("Wallet not found");
       }
 
+      const ledger = exchangeOrderLedgerContext(order.id, "Order filled", fee);
       if (order.side === "BUY") {
         const newBalance = currencyWallet.balance + (amount - fee);
-        await updateWalletQuery(currencyWallet.id, newBalance);
+        await updateWalletQuery(
+          currencyWallet.id,
+          newBalance,
+          undefined,
+          ledger
+        );
       } else {
         const newBalance = pairWallet.balance + (cost - fee);
-        await updateWalletQuery(pairWallet.id, newBalance);
+        await updateWalletQuery(pairWallet.id, newBalance, undefined, ledger);
       }
     } catch (error) {
       logError("wallet", error, __filename);
@@ -123,7 +130,8 @@ class OrderHandler {
           sendMessageToRoute(
             route,
             { userId },
-            { stream: streamKey, data: orders }
+            { stream: streamKey, data: orders },
+            { local: true }
           );
         }
       });
@@ -133,7 +141,7 @@ class OrderHandler {
     }
   }
 
-  private async fetchOpenOrdersWithRetries(exchange, symbol, provider) {
+  private async fetchOpenOrdersWithRetries(userId, exchange, symbol, provider) {
     for (let attempt = 1; attempt <= 3; attempt++) {
       try {
         if (Date.now() < this.unblockTime) {
@@ -160,12 +168,11 @@ class OrderHandler {
             ? JSON.parse(market.metadata)
             : market.metadata;
 
-        // Map and adjust each order using metadata-based fee info
+        // Map and adjust each order using the user's fee rates
+        const feeRates = await getUserFeeRates(userId, metadata);
         const adjustedOrders = orders.map((order) => {
           const feeRate =
-            order.side === "BUY"
-              ? Number(metadata.taker)
-              : Number(metadata.maker);
+            order.side === "BUY" ? feeRates.taker : feeRates.maker;
           return adjustOrderData(order, provider, feeRate);
         });
 
@@ -189,7 +196,7 @@ class OrderHandler {
     }
   }
 
-  private async fetchOrder(exchange, orderId, symbol, provider) {
+  private async fetchOrder(userId, exchange, orderId, symbol, provider) {
     for (let attempt = 1; attempt <= 3; attempt++) {
       try {
         if (Date.now() < this.unblockTime) {
@@ -217,11 +224,9 @@ class OrderHandler {
             ? JSON.parse(market.metadata)
             : market.metadata;
 
-        // Pass fee rate and currency for adjusting the order data
-        const feeRate =
-          order.side === "BUY"
-            ? Number(metadata.taker)
-            : Number(metadata.maker);
+        // Pass the user's fee rate for adjusting the order data
+        const feeRates = await getUserFeeRates(userId, metadata);
+        const feeRate = order.side === "BUY" ? feeRates.taker : feeRates.maker;
 
         return adjustOrderData(order, provider, feeRate);
       } catch (error) {
@@ -312,8 +317,18 @@ class OrderHandler {
     });
   }
 
-  public async fetchOrdersForUser(userId, userOrders, exchange, provider) {
-    let symbols = userOrders.map((order) => order.symbol);
+  // Orders are tracked on the provider they were routed to, falling back to
+  // the primary provider for orders placed before routing was introduced
+  public async fetchOrdersForUser(userId, userOrders, primaryProvider) {
+    const getProvider = (order) => order.provider || primaryProvider;
+    let markets = userOrders
+      .map((order) => ({ symbol: order.symbol, provider: getProvider(order) }))
+      .filter(
+        (market, index, list) =>
+          list.findIndex(
+            (m) => m.symbol === market.symbol && m.provider === market.provider
+          ) === index
+      );
 
     while (
       hasClients("/api/exchange/order") &&
@@ -328,7 +343,7 @@ class OrderHandler {
 
       this.lastFetchTime = Date.now();
 
-      for (const symbol of symbols) {
+      for (const { symbol, provider } of markets) {
         try {
           if (Date.now() < this.unblockTime) {
             const waitTime = this.unblockTime - Date.now();
@@ -342,7 +357,14 @@ class OrderHandler {
             continue;
           }
 
+          const exchange =
+            await ExchangeManager.startExchangeProvider(provider);
+          if (!exchange) {
+            throw new Error(`Exchange provider ${provider} is unavailable`);
+          }
+
           const openOrders = await this.fetchOpenOrdersWithRetries(
+            userId,
             exchange,
             symbol,
             provider
@@ -352,12 +374,17 @@ class OrderHandler {
             throw new Error("Failed to fetch open orders after retries");
           }
 
-          for (const order of userOrders) {
+          const marketOrders = userOrders.filter(
+            (order) =>
+              order.symbol === symbol && getProvider(order) === provider
+          );
+          for (const order of marketOrders) {
             const updatedOrder = openOrders.find(
               (o) => o.id === order.referenceId
             );
             if (!updatedOrder) {
               const fetchedOrder = await this.fetchOrder(
+                userId,
                 exchange,
                 order.referenceId,
                 symbol,
@@ -453,9 +480,12 @@ class OrderHandler {
           }
         } catch (error) {
           logError("exchange", error, __filename);
-          symbols = symbols.filter((s) => s !== symbol);
+          markets = markets.filter(
+            (m) => m.symbol !== symbol || m.provider !== provider
+          );
           const filteredOrders = userOrders.filter(
-            (order) => order.symbol !== symbol
+            (order) =>
+              order.symbol !== symbol || getProvider(order) !== provider
           );
           userOrders.length = 0;
           userOrders.push(...filteredOrders);
@@ -496,7 +526,14 @@ class OrderHandler {
 
     const userOrders = await models.exchangeOrder.findAll({
       where: { userId: user.id, status: "OPEN" },
-      attributes: ["id", "referenceId", "symbol", "status", "createdAt"],
+      attributes: [
+        "id",
+        "referenceId",
+        "symbol",
+        "status",
+        "provider",
+        "createdAt",
+      ],
       raw: true,
     });
 
@@ -505,11 +542,10 @@ class OrderHandler {
       return;
     }
 
-    const exchange = await ExchangeManager.startExchange();
-    if (!exchange) return;
     const provider = await ExchangeManager.getProvider();
+    if (!provider) return;
 
-    this.fetchOrdersForUser(userId, userOrders, exchange, provider);
+    this.fetchOrdersForUser(userId, userOrders, provider);
   }
 }
 
@@ -70,7 +70,8 @@ class TickerHandler {
       {
         stream: "tickers",
         data: tickers,
-      }
+      },
+      { local: true }
     );
   }
 
@@ -5,12 +5,18 @@ const redis = RedisSingleton.getInstance();
 
 export const BAN_STATUS_KEY = "exchange:ban_status";
 
-export async function saveBanStatus(unblockTime) {
-  await redis.set(BAN_STATUS_KEY, unblockTime);
+// Bans of a single provider are kept apart from the global one so the
+// other active providers can keep serving orders
+function getBanStatusKey(provider?: string) {
+  return provider ? `${BAN_STATUS_KEY}:${provider}` : BAN_STATUS_KEY;
 }
 
-export async function loadBanStatus() {
-  const unblockTime = await redis.get(BAN_STATUS_KEY);
+export async function saveBanStatus(unblockTime, provider?: string) {
+  await redis.set(getBanStatusKey(provider), unblockTime);
+}
+
+export async function loadBanStatus(provider?: string) {
+  const unblockTime = await redis.get(getBanStatusKey(provider));
   return unblockTime ? parseInt(unblockTime) : 0;
 }
 
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { createError } from "@b/utils/error";
 import {
   notFoundMetadataResponse,
@@ -92,8 +93,22 @@ export default async (data: Handler) => {
     throw new Error("Wallet not found or could not be created");
 
   await sequelize.transaction(async (transaction) => {
-    const newBalance = updatedWallet.balance + reward.reward;
-    await updatedWallet.update({ balance: newBalance }, { transaction });
+    const wallet = await models.wallet.findByPk(updatedWallet.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!wallet) throw new Error("Wallet not found or could not be created");
+
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance + reward.reward },
+      {
+        description: "Referral reward",
+        referenceType: "mlmReferralReward",
+        referenceId: reward.id,
+      },
+      transaction
+    );
 
     await reward.update({ isClaimed: true }, { transaction });
 
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { createError } from "@b/utils/error";
 import { deleteRecordResponses } from "@b/utils/query";
 
@@ -50,6 +51,7 @@ export default async (data: Handler) => {
         type: investment.type,
       },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
 
     if (!wallet) {
@@ -62,9 +64,15 @@ export default async (data: Handler) => {
       transaction: t,
     });
 
-    await wallet.update(
+    await setWalletBalances(
+      wallet,
       { balance: wallet.balance + investment.amount },
-      { transaction: t }
+      {
+        description: "Cancelled AI investment",
+        referenceType: "aiInvestment",
+        referenceId: id,
+      },
+      t
     );
 
     await models.transaction.destroy({
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendAiInvestmentEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
 import { handleNotification } from "@b/utils/notifications";
@@ -86,6 +87,7 @@ export default async (data: Handler) => {
         type,
       },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
 
     if (!wallet) {
@@ -116,9 +118,15 @@ export default async (data: Handler) => {
       }
     );
 
-    await wallet.update(
+    await setWalletBalances(
+      wallet,
       { balance: wallet.balance - amount },
-      { transaction: t }
+      {
+        description: `AI investment in the ${plan.title} plan`,
+        referenceType: "aiInvestment",
+        referenceId: investmentId,
+      },
+      t
     );
 
     await models.transaction.create(
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { processRewards } from "@b/utils/affiliate";
 import { sendOrderConfirmationEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
@@ -69,8 +70,6 @@ export default async (data: Handler) => {
 
   const { productId, discountId, amount, shippingAddress } = body;
 
-  const transaction = await sequelize.transaction();
-
   const userPk = await models.user.findByPk(user.id);
   if (!userPk) {
     throw new Error("User not found");
@@ -106,79 +105,90 @@ export default async (data: Handler) => {
     cost -= cost * (userDiscount.discount.percentage / 100);
   }
 
-  // Check user wallet balance
-  const wallet = await models.wallet.findOne({
-    where: {
-      userId: user.id,
-      type: product.walletType,
-      currency: product.currency,
-    },
-  });
-
-  if (!wallet || wallet.balance < cost) {
-    throw new Error("Insufficient balance");
-  }
-
-  const newBalance = wallet.balance - cost;
+  const { order, wallet } = await sequelize.transaction(async (transaction) => {
+    // Check user wallet balance
+    const wallet = await models.wallet.findOne({
+      where: {
+        userId: user.id,
+        type: product.walletType,
+        currency: product.currency,
+      },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
 
-  // Create order and order items
-  const order = await models.ecommerceOrder.create(
-    {
-      userId: user.id,
-      status: "PENDING",
-    },
-    { transaction }
-  );
-
-  await models.ecommerceOrderItem.create(
-    {
-      orderId: order.id,
-      productId: productId,
-      quantity: amount,
-    },
-    { transaction }
-  );
+    if (!wallet || wallet.balance < cost) {
+      throw new Error("Insufficient balance");
+    }
 
-  // Update product inventory and user wallet balance
-  await product.update(
-    { inventoryQuantity: sequelize.literal(`inventoryQuantity - ${amount}`) },
-    { transaction }
-  );
+    // Create order and order items
+    const order = await models.ecommerceOrder.create(
+      {
+        userId: user.id,
+        status: "PENDING",
+      },
+      { transaction }
+    );
 
-  await wallet.update({ balance: newBalance }, { transaction });
+    await models.ecommerceOrderItem.create(
+      {
+        orderId: order.id,
+        productId: productId,
+        quantity: amount,
+      },
+      { transaction }
+    );
 
-  // Create a transaction record
-  await models.transaction.create(
-    {
-      userId: user.id,
-      walletId: wallet.id,
-      type: "PAYMENT",
-      status: "COMPLETED",
-      amount: cost,
-      description: `Purchase of ${product.name} x${amount} for ${cost} ${product.currency}`,
-      referenceId: order.id,
-    },
-    { transaction }
-  );
+    // Update product inventory and user wallet balance
+    await product.update(
+      { inventoryQuantity: sequelize.literal(`inventoryQuantity - ${amount}`) },
+      { transaction }
+    );
 
-  // Update discount status if applicable
-  if (userDiscount) {
-    await userDiscount.update({ status: true }, { transaction });
-  }
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance - cost },
+      {
+        description: `Purchase of ${product.name}`,
+        referenceType: "ecommerceOrder",
+        referenceId: order.id,
+      },
+      transaction
+    );
 
-  // Create shipping address if product is physical
-  if (product.type !== "DOWNLOADABLE" && shippingAddress) {
-    await models.ecommerceShippingAddress.create(
+    // Create a transaction record
+    await models.transaction.create(
       {
         userId: user.id,
-        orderId: order.id,
-        ...shippingAddress,
+        walletId: wallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: cost,
+        description: `Purchase of ${product.name} x${amount} for ${cost} ${product.currency}`,
+        referenceId: order.id,
       },
       { transaction }
     );
-  }
 
-  await transaction.commit();
+    // Update discount status if applicable
+    if (userDiscount) {
+      await userDiscount.update({ status: true }, { transaction });
+    }
+
+    // Create shipping address if product is physical
+    if (product.type !== "DOWNLOADABLE" && shippingAddress) {
+      await models.ecommerceShippingAddress.create(
+        {
+          userId: user.id,
+          orderId: order.id,
+          ...shippingAddress,
+        },
+        { transaction }
+      );
+    }
+
+    return { order, wallet };
+  });
 
   // Send order confirmation email
   try {
@@ -2,13 +2,7 @@
 import { createError } from "@b/utils/error";
 import { models } from "@b/db";
 import { getEcosystemToken } from "@b/utils/eco/tokens";
-import { EVMDeposits } from "./util/monitor/EVMDeposits";
-import { UTXODeposits } from "./util/monitor/UTXODeposits";
-import { SolanaDeposits } from "./util/monitor/SolanaDeposits";
-import { TronDeposits } from "./util/monitor/TronDeposits";
-import { MoneroDeposits } from "./util/monitor/MoneroDeposits";
-import { TonDeposits } from "./util/monitor/TonDeposits";
-import { MODeposits } from "./util/monitor/MODeposits";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 import { createWorker } from "@b/utils/cron";
 import { verifyPendingTransactions } from "./util/PendingVerification";
 import { isMainThread } from "worker_threads";
@@ -68,7 +62,7 @@ export default async (data: Handler, message) => {
 
   if (!monitor) {
     // No existing monitor for this user, create a new one
-    monitor = createMonitor(chain, {
+    monitor = getChainAdapter(chain).createDepositMonitor({
       wallet,
       chain,
       currency,
@@ -93,26 +87,6 @@ export default async (data: Handler, message) => {
   }
 };
 
-function createMonitor(chain: string, options: any) {
-  const { wallet, currency, address, contractType } = options;
-
-  if (["BTC", "LTC", "DOGE", "DASH"].includes(chain)) {
-    return new UTXODeposits({ wallet, chain, address });
-  } else if (chain === "SOL") {
-    return new SolanaDeposits({ wallet, chain, currency, address });
-  } else if (chain === "TRON") {
-    return new TronDeposits({ wallet, chain, address });
-  } else if (chain === "XMR") {
-    return new MoneroDeposits({ wallet });
-  } else if (chain === "TON") {
-    return new TonDeposits({ wallet, chain, address });
-  } else if (chain === "MO" && contractType !== "NATIVE") {
-    return new MODeposits({ wallet, chain, currency, address, contractType });
-  } else {
-    return new EVMDeposits({ wallet, chain, currency, address, contractType });
-  }
-}
-
 export const onClose = async (ws, route, clientId) => {
   // Clear any previous pending stop timeouts for this client
   if (monitorStopTimeouts.has(clientId)) {
@@ -2,14 +2,9 @@
 import { loadFromRedis, offloadToRedis } from "@b/utils/eco/redis/deposit";
 import { handleEcosystemDeposit } from "@b/utils/eco/wallet";
 import { hasClients, sendMessageToRoute } from "@b/handler/Websocket";
-import { verifyUTXOTransaction } from "@b/utils/eco/utxo";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 import { handleNotification } from "@b/utils/notifications";
 import { unlockAddress } from "../../wallet/utils";
-import {
-  chainProviders,
-  initializeHttpProvider,
-  initializeWebSocketProvider,
-} from "./ProviderManager";
 
 export async function verifyPendingTransactions() {
   if (!hasClients(`/api/ext/ecosystem/deposit`)) {
@@ -51,57 +46,15 @@ export async function verifyPendingTransactions() {
           processingTransactions.add(txHash);
           const chain = txDetails.chain;
 
-          let isConfirmed = false;
-          let updatedTxDetails: any = null;
-
-          if (["SOL", "TRON", "XMR", "TON"].includes(chain)) {
-            isConfirmed =
-              txDetails.status === "COMPLETED" ||
-              txDetails.status === "CONFIRMED";
-            updatedTxDetails = txDetails;
-          } else if (["BTC", "LTC", "DOGE", "DASH"].includes(chain)) {
-            // UTXO chain verification
-            const data = await verifyUTXOTransaction(chain, txHash);
-            isConfirmed = data.confirmed;
-            updatedTxDetails = {
-              ...txDetails,
-              status: isConfirmed ? "COMPLETED" : "PENDING",
-            };
-          } else {
-            // EVM-compatible chain verification
-            let provider = chainProviders.get(chain);
-            if (!provider) {
-              provider = await initializeWebSocketProvider(chain);
-              if (!provider) {
-                provider = await initializeHttpProvider(chain);
-              }
-            }
-
-            if (!provider) {
-              console.error(`Provider not available for chain ${chain}`);
-              return; // Keep pending
-            }
-
-            try {
-              const receipt = await provider.getTransactionReceipt(txHash);
-              if (!receipt) {
-                console.log(`Transaction ${txHash} not yet confirmed.`);
-                return; // Keep in pending state
-              }
+          const verification = await getChainAdapter(chain).verifyDeposit(
+            chain,
+            txHash,
+            txDetails
+          );
+          if (!verification) return; // Keep pending
 
-              isConfirmed = receipt.status === 1;
-              updatedTxDetails = {
-                ...txDetails,
-                gasUsed: receipt.gasUsed.toString(),
-                status: isConfirmed ? "COMPLETED" : "FAILED",
-              };
-            } catch (error) {
-              console.error(
-                `Error fetching receipt for ${txHash}: ${error.message}`
-              );
-              return; // Keep in pending state
-            }
-          }
+          const isConfirmed = verification.confirmed;
+          const updatedTxDetails = verification.details;
 
           if (isConfirmed && updatedTxDetails) {
             try {
@@ -11,6 +11,7 @@ import {
 import { ethers } from "ethers";
 import { processTransaction, createTransactionDetails } from "../DepositUtils"; // import utilities
 import { storeAndBroadcastTransaction } from "@b/utils/eco/redis/deposit";
+import { isBlockScannerEnabled } from "@b/utils/eco/blockScanner";
 
 interface EVMOptions {
   wallet: walletAttributes;
@@ -36,6 +37,9 @@ export class EVMDeposits implements IDepositMonitor {
   }
 
   public async watchDeposits(): Promise<void> {
+    // Deposits of block scanned chains are credited by the scanner cron
+    if (isBlockScannerEnabled(this.chain)) return;
+
     let provider = chainProviders.get(this.chain);
 
     if (!provider) {
@@ -2,7 +2,7 @@ import { getWallet } from "@b/api/finance/wallet/utils";
 import { fromBigInt } from "@b/utils/eco/blockchain";
 import { MatchingEngine } from "@b/utils/eco/matchingEngine";
 import { cancelOrderByUuid, getOrderByUuid } from "@b/utils/eco/scylla/queries";
-import { updateWalletBalance } from "@b/utils/eco/wallet";
+import { orderLedgerContext, updateWalletBalance } from "@b/utils/eco/wallet";
 import { createError } from "@b/utils/error";
 
 import {
@@ -127,7 +127,12 @@ export default async (data: Handler) => {
     );
 
     // Refund the leftover funds
-    await updateWalletBalance(wallet, refundAmount, "add");
+    await updateWalletBalance(
+      wallet,
+      refundAmount,
+      "add",
+      orderLedgerContext(id, "Order canceled")
+    );
 
     // Remove from orderbook and internal queues
     const matchingEngine = await MatchingEngine.getInstance();
@@ -0,0 +1,109 @@
+import { MatchingEngine } from "@b/utils/eco/matchingEngine";
+import {
+  getTriggerOrderByUuid,
+  updatePendingTriggerOrder,
+} from "@b/utils/eco/scylla/queries";
+import { handleTriggerOrderBroadcast } from "@b/utils/eco/ws";
+import { createError } from "@b/utils/error";
+
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Cancels a pending trigger order",
+  description:
+    "Cancels a stop or trailing-stop order that has not fired yet. No funds are locked by pending trigger orders, so nothing is refunded.",
+  operationId: "cancelTriggerOrder",
+  tags: ["Trading", "Orders"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the trigger order" },
+    },
+    {
+      name: "timestamp",
+      in: "query",
+      required: true,
+      schema: { type: "string", description: "Timestamp of the trigger order" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Trigger order cancelled successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string", description: "Success message" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Trigger Order"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  const { timestamp } = query;
+
+  if (!id || !timestamp) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const triggerOrder = await getTriggerOrderByUuid(user.id, id, timestamp);
+  if (!triggerOrder) {
+    throw createError({ statusCode: 404, message: "Trigger order not found" });
+  }
+  if (triggerOrder.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: "Trigger order is no longer pending",
+    });
+  }
+
+  // Stop watching first so the order cannot fire while being cancelled
+  const matchingEngine = await MatchingEngine.getInstance();
+  matchingEngine.removeTriggerOrder(triggerOrder.symbol, id);
+
+  let cancelled: boolean;
+  try {
+    triggerOrder.status = "CANCELED";
+    cancelled = await updatePendingTriggerOrder(triggerOrder);
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to cancel trigger order: ${error.message}`,
+    });
+  }
+  // The order fired before the cancellation reached it
+  if (!cancelled) {
+    throw createError({
+      statusCode: 400,
+      message: "Trigger order is no longer pending",
+    });
+  }
+
+  handleTriggerOrderBroadcast(triggerOrder);
+
+  return { message: "Trigger order cancelled successfully" };
+};
@@ -0,0 +1,205 @@
+import { models } from "@b/db";
+import { removeTolerance, toBigIntFloat } from "@b/utils/eco/blockchain";
+import { MatchingEngine } from "@b/utils/eco/matchingEngine";
+import {
+  getTriggerOrderByUuid,
+  updatePendingTriggerOrder,
+} from "@b/utils/eco/scylla/queries";
+import { formatTriggerOrder } from "@b/utils/eco/triggerOrders";
+import { handleTriggerOrderBroadcast } from "@b/utils/eco/ws";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { baseTriggerOrderSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Amends a pending trigger order",
+  description:
+    "Updates the amount, limit price, stop price or trailing distance of a trigger order that has not fired yet.",
+  operationId: "updateTriggerOrder",
+  tags: ["Trading", "Orders"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the trigger order" },
+    },
+    {
+      name: "timestamp",
+      in: "query",
+      required: true,
+      schema: { type: "string", description: "Timestamp of the trigger order" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", description: "New amount" },
+            price: { type: "number", description: "New limit price" },
+            stopPrice: { type: "number", description: "New stop price" },
+            trailingPercent: {
+              type: "number",
+              description: "New trailing distance in percent",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Trigger order updated successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string", description: "Success message" },
+              order: { type: "object", properties: baseTriggerOrderSchema },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Trigger Order"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, query, body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  const { timestamp } = query;
+  const { amount, price, stopPrice, trailingPercent } = body;
+
+  if (!id || !timestamp) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const storedOrder = await getTriggerOrderByUuid(user.id, id, timestamp);
+  if (!storedOrder) {
+    throw createError({ statusCode: 404, message: "Trigger order not found" });
+  }
+
+  // Prefer the engine's copy, it holds the latest trailing reference price
+  const matchingEngine = await MatchingEngine.getInstance();
+  const watchedOrder = matchingEngine.getTriggerOrder(storedOrder.symbol, id);
+  // Amend a copy, the watched order only changes once the update is applied
+  const triggerOrder = { ...(watchedOrder ?? storedOrder) };
+
+  if (triggerOrder.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: "Trigger order is no longer pending",
+    });
+  }
+
+  if (amount !== undefined) {
+    if (Number(amount) <= 0) {
+      throw createError({
+        statusCode: 422,
+        message: "Amount must be greater than zero.",
+      });
+    }
+
+    const [currency, pair] = triggerOrder.symbol.split("/");
+    const market = (await models.ecosystemMarket.findOne({
+      where: { currency, pair, status: true },
+    })) as any;
+    if (!market) {
+      throw createError({ statusCode: 404, message: "Market not found." });
+    }
+
+    const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
+    const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
+    if (amount < minAmount || (maxAmount > 0 && amount > maxAmount)) {
+      throw createError({
+        statusCode: 422,
+        message: `Amount must be between ${minAmount} and ${maxAmount || "∞"} ${currency}`,
+      });
+    }
+    triggerOrder.amount = removeTolerance(toBigIntFloat(amount));
+  }
+
+  if (price !== undefined) {
+    if (triggerOrder.type !== "STOP_LIMIT" || Number(price) <= 0) {
+      throw createError({
+        statusCode: 422,
+        message:
+          "Price can only be set to a positive value on stop-limit orders.",
+      });
+    }
+    triggerOrder.price = removeTolerance(toBigIntFloat(price));
+  }
+
+  if (stopPrice !== undefined) {
+    if (triggerOrder.type === "TRAILING_STOP" || Number(stopPrice) <= 0) {
+      throw createError({
+        statusCode: 422,
+        message:
+          "Stop price can only be set to a positive value on stop orders.",
+      });
+    }
+    triggerOrder.stopPrice = removeTolerance(toBigIntFloat(stopPrice));
+  }
+
+  if (trailingPercent !== undefined) {
+    if (
+      triggerOrder.type !== "TRAILING_STOP" ||
+      trailingPercent <= 0 ||
+      trailingPercent >= 100
+    ) {
+      throw createError({
+        statusCode: 422,
+        message:
+          "Trailing percent must be between 0 and 100 on trailing-stop orders.",
+      });
+    }
+    triggerOrder.trailingPercent = Number(trailingPercent);
+  }
+
+  let updated: boolean;
+  try {
+    updated = await updatePendingTriggerOrder(triggerOrder);
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to update trigger order: ${error.message}`,
+    });
+  }
+  if (!updated) {
+    throw createError({
+      statusCode: 400,
+      message: "Trigger order is no longer pending",
+    });
+  }
+
+  if (watchedOrder) {
+    Object.assign(watchedOrder, triggerOrder);
+  }
+
+  handleTriggerOrderBroadcast(triggerOrder);
+
+  return {
+    message: "Trigger order updated successfully",
+    order: formatTriggerOrder(triggerOrder),
+  };
+};
@@ -0,0 +1,70 @@
+// backend\api\ext\ecosystem\order\trigger\index.get.ts
+
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { baseTriggerOrderSchema } from "./utils";
+import { createError } from "@b/utils/error";
+import { getTriggerOrdersByUserId } from "@b/utils/eco/scylla/queries";
+import { formatTriggerOrder } from "@b/utils/eco/triggerOrders";
+
+export const metadata: OperationObject = {
+  summary: "List Trigger Orders",
+  operationId: "listTriggerOrders",
+  tags: ["Trading", "Orders"],
+  description:
+    "Retrieves the stop and trailing-stop orders of the authenticated user.",
+  parameters: [
+    {
+      name: "currency",
+      in: "query",
+      description: "Currency of the market to filter by.",
+      schema: { type: "string" },
+    },
+    {
+      name: "pair",
+      in: "query",
+      description: "Pair of the market to filter by.",
+      schema: { type: "string" },
+    },
+    {
+      name: "status",
+      in: "query",
+      description:
+        "Status to filter by (PENDING, TRIGGERED, CANCELED, REJECTED).",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "A list of trigger orders",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: baseTriggerOrderSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { currency, pair, status } = query;
+  const symbol = currency && pair ? `${currency}/${pair}` : undefined;
+
+  const triggerOrders = await getTriggerOrdersByUserId(user.id, symbol);
+  return triggerOrders
+    .filter((triggerOrder) => !status || triggerOrder.status === status)
+    .map(formatTriggerOrder);
+};
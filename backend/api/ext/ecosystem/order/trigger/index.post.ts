@@ -0,0 +1,192 @@
+// backend\api\ext\ecosystem\order\trigger\index.post.ts
+
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+import { removeTolerance, toBigIntFloat } from "@b/utils/eco/blockchain";
+import { MatchingEngine } from "@b/utils/eco/matchingEngine";
+import { createTriggerOrder } from "@b/utils/eco/scylla/queries";
+import {
+  TRIGGER_ORDER_TYPES,
+  formatTriggerOrder,
+  isStopReached,
+} from "@b/utils/eco/triggerOrders";
+import { getWalletByUserIdAndCurrency } from "@b/utils/eco/wallet";
+import { createRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Creates a new trigger order",
+  description:
+    "Places a stop-limit, stop-market or trailing-stop order. Funds are not locked until the order fires and is converted into a regular order.",
+  operationId: "createTriggerOrder",
+  tags: ["Trading", "Orders"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            currency: {
+              type: "string",
+              description: "Currency symbol (e.g., BTC)",
+            },
+            pair: { type: "string", description: "Pair symbol (e.g., USDT)" },
+            type: {
+              type: "string",
+              enum: TRIGGER_ORDER_TYPES,
+              description: "Trigger order type",
+            },
+            side: { type: "string", description: "Order side, buy or sell" },
+            amount: { type: "number", description: "Amount of the order" },
+            price: {
+              type: "number",
+              description: "Limit price (required for stop-limit)",
+            },
+            stopPrice: {
+              type: "number",
+              description: "Trigger price (required for stop orders)",
+            },
+            trailingPercent: {
+              type: "number",
+              description: "Trailing distance in percent (trailing stop)",
+            },
+          },
+          required: ["currency", "pair", "type", "side", "amount"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("Trigger Order"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { currency, pair, amount, price, stopPrice, trailingPercent } = body;
+  const type = body.type?.toUpperCase();
+  const side = body.side?.toUpperCase();
+
+  if (!currency || !pair) {
+    throw createError({
+      statusCode: 422,
+      message: "Invalid currency/pair symbol.",
+    });
+  }
+  if (!TRIGGER_ORDER_TYPES.includes(type)) {
+    throw createError({
+      statusCode: 422,
+      message: "Type must be one of STOP_LIMIT, STOP_MARKET or TRAILING_STOP.",
+    });
+  }
+  if (side !== "BUY" && side !== "SELL") {
+    throw createError({
+      statusCode: 422,
+      message: "Side must be BUY or SELL.",
+    });
+  }
+  if (!amount || Number(amount) <= 0) {
+    throw createError({
+      statusCode: 422,
+      message: "Amount must be greater than zero.",
+    });
+  }
+  if (type === "STOP_LIMIT" && (!price || price <= 0)) {
+    throw createError({
+      statusCode: 422,
+      message: "Price must be greater than zero for stop-limit orders.",
+    });
+  }
+  if (type !== "TRAILING_STOP" && (!stopPrice || stopPrice <= 0)) {
+    throw createError({
+      statusCode: 422,
+      message: "Stop price must be greater than zero.",
+    });
+  }
+  if (
+    type === "TRAILING_STOP" &&
+    (!trailingPercent || trailingPercent <= 0 || trailingPercent >= 100)
+  ) {
+    throw createError({
+      statusCode: 422,
+      message: "Trailing percent must be between 0 and 100.",
+    });
+  }
+
+  const market = (await models.ecosystemMarket.findOne({
+    where: { currency, pair, status: true },
+  })) as any;
+  if (!market) {
+    throw createError({ statusCode: 404, message: "Market not found." });
+  }
+
+  const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
+  const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
+  if (amount < minAmount || (maxAmount > 0 && amount > maxAmount)) {
+    throw createError({
+      statusCode: 422,
+      message: `Amount must be between ${minAmount} and ${maxAmount || "∞"} ${currency}`,
+    });
+  }
+
+  const symbol = `${currency}/${pair}`;
+  const matchingEngine = await MatchingEngine.getInstance();
+  const lastPrice = matchingEngine.getTicker(symbol).last;
+
+  if (
+    type !== "TRAILING_STOP" &&
+    lastPrice > 0 &&
+    isStopReached(side, toBigIntFloat(stopPrice), toBigIntFloat(lastPrice))
+  ) {
+    throw createError({
+      statusCode: 422,
+      message: `Stop price would trigger immediately at the last price of ${lastPrice} ${pair}`,
+    });
+  }
+
+  // Funds are locked when the order fires, the balance is only checked here
+  const wallet = await getWalletByUserIdAndCurrency(
+    user.id,
+    side === "BUY" ? pair : currency
+  );
+  const requiredBalance =
+    side === "BUY" ? amount * (price || stopPrice || lastPrice) : amount;
+  if (!wallet || wallet.balance < requiredBalance) {
+    throw createError({
+      statusCode: 400,
+      message: `Insufficient balance. You need ${requiredBalance} ${side === "BUY" ? pair : currency}`,
+    });
+  }
+
+  try {
+    const triggerOrder = await createTriggerOrder({
+      userId: user.id,
+      symbol,
+      type,
+      side,
+      amount: toBigIntFloat(amount),
+      price: type === "STOP_LIMIT" ? toBigIntFloat(price) : null,
+      stopPrice: type !== "TRAILING_STOP" ? toBigIntFloat(stopPrice) : null,
+      trailingPercent: type === "TRAILING_STOP" ? trailingPercent : null,
+      trailingPrice:
+        type === "TRAILING_STOP" && lastPrice > 0
+          ? removeTolerance(toBigIntFloat(lastPrice))
+          : null,
+    });
+
+    matchingEngine.addTriggerOrder(triggerOrder);
+
+    return {
+      message: "Trigger order created successfully",
+      order: formatTriggerOrder(triggerOrder),
+    };
+  } catch (error) {
+    throw createError({
+      statusCode: error.statusCode || 400,
+      message: `Failed to create trigger order: ${error.message}`,
+    });
+  }
+};
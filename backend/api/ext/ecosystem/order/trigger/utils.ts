@@ -0,0 +1,17 @@
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+export const baseTriggerOrderSchema = {
+  id: baseStringSchema("Trigger order ID"),
+  symbol: baseStringSchema("Trading symbol"),
+  type: baseStringSchema(
+    "Trigger type (STOP_LIMIT, STOP_MARKET, TRAILING_STOP)"
+  ),
+  side: baseStringSchema("Order side (buy/sell)"),
+  amount: baseNumberSchema("Order amount"),
+  price: baseNumberSchema("Limit price of the resulting order", true),
+  stopPrice: baseNumberSchema("Price at which the order fires", true),
+  trailingPercent: baseNumberSchema("Trailing distance in percent", true),
+  trailingPrice: baseNumberSchema("Best price seen by a trailing stop", true),
+  orderId: baseStringSchema("ID of the order created when fired", 191, 0, true),
+  status: baseStringSchema("Trigger order status"),
+};
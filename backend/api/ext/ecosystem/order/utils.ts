@@ -5,6 +5,7 @@ export const baseOrderSchema = {
   symbol: baseStringSchema("Trading symbol"),
   type: baseStringSchema("Order type"),
   side: baseStringSchema("Order side (buy/sell)"),
+  timeInForce: baseStringSchema("Time in force (GTC, IOC, FOK, PO)"),
   amount: baseStringSchema("Order amount, converted from bigint"),
   price: baseStringSchema("Order price, converted from bigint"),
   cost: baseStringSchema("Total cost, converted from bigint"),
@@ -1,4 +1,5 @@
 import { models, sequelize } from "@b/db";
+import { recordWalletChanges } from "@b/utils/ledger";
 import { getWalletByUserIdAndCurrency, storeWallet } from "@b/utils/eco/wallet";
 import { createError } from "@b/utils/error";
 
@@ -105,24 +106,47 @@ export default async (data: Handler) => {
     }
 
     await sequelize.transaction(async (transaction) => {
-      await models.wallet.update(
-        {
-          balance: senderWallet.balance - amount,
-        },
-        {
-          where: { id: senderWallet.id },
-          transaction,
-        }
+      const sender = await models.wallet.findByPk(senderWallet.id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      const recipient = await models.wallet.findByPk(recipientWallet.id, {
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!sender || !recipient) {
+        throw createError({ statusCode: 404, message: "Wallet not found" });
+      }
+      if (sender.balance < amount) {
+        throw createError({ statusCode: 400, message: "Insufficient funds" });
+      }
+
+      const previous = (wallet) => ({
+        balance: wallet.balance,
+        inOrder: wallet.inOrder || 0,
+      });
+      const changes = [
+        { wallet: sender, previous: previous(sender) },
+        { wallet: recipient, previous: previous(recipient) },
+      ];
+
+      await sender.update(
+        { balance: sender.balance - amount },
+        { transaction }
+      );
+      await recipient.update(
+        { balance: recipient.balance + amount },
+        { transaction }
       );
 
-      await models.wallet.update(
+      await recordWalletChanges(
+        changes,
         {
-          balance: recipientWallet.balance + amount,
+          description: "Ecosystem wallet transfer",
+          referenceType: "wallet",
+          referenceId: sender.id,
         },
-        {
-          where: { id: recipientWallet.id },
-          transaction,
-        }
+        transaction
       );
 
       await models.transaction.create(
@@ -1,11 +1,11 @@
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
 import {
   createPendingTransaction,
   decrementWalletBalance,
-  getWalletData,
   validateAddress,
 } from "@b/utils/eco/wallet";
 import { createError } from "@b/utils/error";
+import { checkKycTierLimit } from "@b/utils/kycTiers";
 import { getEcosystemToken } from "@b/utils/eco/tokens";
 import {
   notFoundMetadataResponse,
@@ -16,9 +16,12 @@ import {
   parseAddresses,
   processInternalTransfer,
 } from "@b/api/finance/transfer/index.post";
+import {
+  verifyPasskeyStepUp,
+  webAuthnAssertionSchema,
+} from "@b/utils/webauthn";
 import WithdrawalQueue from "../../../../utils/eco/withdrawalQueue";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
+import { getChainAdapter } from "@b/utils/eco/adapters";
 
 export const metadata: OperationObject = {
   summary: "Withdraws funds to an external address",
@@ -50,6 +53,7 @@ export const metadata: OperationObject = {
               type: "string",
               description: "Withdraw toAddress",
             },
+            webauthn: webAuthnAssertionSchema,
           },
           required: ["currency", "chain", "amount", "toAddress"],
         },
@@ -86,6 +90,8 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  await verifyPasskeyStepUp(user.id, body.webauthn);
+
   try {
     const { currency, chain, amount, toAddress } = body;
 
@@ -101,6 +107,14 @@ export default async (data: Handler) => {
     const recipientWallet = await findWalletByAddress(toAddress);
 
     if (recipientWallet) {
+      await checkKycTierLimit(
+        user.id,
+        "WITHDRAW",
+        "ECO",
+        currency,
+        parsedAmount
+      );
+
       // Process as internal transfer
       return await processInternalTransfer(
         user.id,
@@ -120,6 +134,10 @@ export default async (data: Handler) => {
       );
     }
   } catch (error) {
+    // Tier limit and other request errors keep their status
+    if (error.statusCode) {
+      throw error;
+    }
     if (error.message === "INSUFFICIENT_FUNDS") {
       console.log("You do not have enough Ether to perform this transaction.");
       throw createError({ statusCode: 400, message: "Insufficient funds" });
@@ -142,10 +160,7 @@ const storeWithdrawal = async (
     throw new Error("Invalid or missing chain parameter");
   }
 
-  // Validate address for non-BTC, LTC, DOGE, and DASH chains
-  if (!["BTC", "LTC", "DOGE", "DASH"].includes(chain)) {
-    validateAddress(toAddress, chain);
-  }
+  validateAddress(toAddress, chain);
 
   // Find the user's wallet
   const userWallet = await models.wallet.findOne({
@@ -176,53 +191,16 @@ const storeWithdrawal = async (
     );
   }
 
-  // Initialize fees and logic for different chains
-  let activationFee = 0;
-  let estimatedFee = 0;
-
-  if (chain === "TRON") {
-    // Handle Tron-specific logic
-    const tronService = await TronService.getInstance();
-
-    // Check if the recipient address is activated
-    const isActivated = await tronService.isAddressActivated(toAddress);
-
-    if (!isActivated) {
-      activationFee = 1; // 1 TRX required to activate a new account
-    }
-
-    // Get wallet data (private key, etc.)
-    const walletData = await getWalletData(userWallet.id, chain);
-    if (!walletData) {
-      throw new Error("Wallet data not found");
-    }
-
-    // Fetch the user's Tron address
-    const addresses =
-      typeof userWallet.address === "string"
-        ? JSON.parse(userWallet.address)
-        : userWallet.address;
-    const fromAddress = addresses[chain].address;
-
-    // Convert amount to Sun (TRX's smaller unit)
-    const amountSun = Math.round(amount * 1e6);
-
-    // Estimate the transaction fee
-    const estimatedFeeSun = await tronService.estimateTransactionFee(
-      fromAddress,
-      toAddress,
-      amountSun
-    );
-
-    estimatedFee = estimatedFeeSun / 1e6; // Convert Sun to TRX
-  } else if (chain === "XMR") {
-    // Handle Monero-specific logic
-    const moneroService = await MoneroService.getInstance();
-    estimatedFee = await moneroService.estimateMoneroFee();
-  }
+  // Network fees the chain charges on top, such as Tron account activation
+  const estimatedFee = await getChainAdapter(chain).estimateWithdrawalFee({
+    chain,
+    wallet: userWallet,
+    toAddress,
+    amount,
+  });
 
   // Calculate the total fee for the transaction
-  const totalFee = withdrawalFee + activationFee + estimatedFee;
+  const totalFee = withdrawalFee + estimatedFee;
 
   // Calculate the total amount to deduct from the wallet (including fees)
   const totalAmount = amount + totalFee;
@@ -231,24 +209,35 @@ const storeWithdrawal = async (
     throw new Error("Insufficient funds");
   }
 
-  // Deduct the total amount from the user's wallet balance
-  await decrementWalletBalance(userWallet, chain, totalAmount);
+  const transaction = await sequelize.transaction(async (t) => {
+    await checkKycTierLimit(userId, "WITHDRAW", "ECO", currency, amount, t);
 
-  // Create the pending transaction
-  const transaction = await createPendingTransaction(
-    userId,
-    userWallet.id,
-    currency,
-    chain,
-    amount,
-    toAddress,
-    totalFee,
-    token
-  );
+    // Create the pending transaction
+    const pending = await createPendingTransaction(
+      userId,
+      userWallet.id,
+      currency,
+      chain,
+      amount,
+      toAddress,
+      totalFee,
+      token,
+      t
+    );
+
+    // Deduct the total amount from the user's wallet balance
+    await decrementWalletBalance(userWallet, chain, totalAmount, t, {
+      description: `Withdrawal on ${chain}`,
+      referenceType: "transaction",
+      referenceId: pending.id,
+    });
+
+    return pending;
+  });
 
   // Add the transaction to the withdrawal queue
   const withdrawalQueue = WithdrawalQueue.getInstance();
-  withdrawalQueue.addTransaction(transaction.id);
+  await withdrawalQueue.addTransaction(transaction.id);
 
   return {
     transaction: transaction.get({ plain: true }),
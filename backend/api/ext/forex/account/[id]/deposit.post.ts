@@ -4,6 +4,7 @@ import {
   processCurrenciesPrices,
 } from "@b/utils/cron";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { createError } from "@b/utils/error";
 
 import {
@@ -123,6 +124,7 @@ export default async (data: Handler) => {
     const wallet = await models.wallet.findOne({
       where: { userId: user.id, type, currency },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
     if (!wallet) throw new Error("Wallet not found");
     if (wallet.balance < amount) throw new Error("Insufficient balance");
@@ -208,8 +210,6 @@ export default async (data: Handler) => {
       )
     );
 
-    await wallet.update({ balance: updatedBalance }, { transaction: t });
-
     const transaction = await models.transaction.create(
       {
         userId: user.id,
@@ -231,6 +231,18 @@ export default async (data: Handler) => {
       { transaction: t }
     );
 
+    await setWalletBalances(
+      wallet,
+      { balance: updatedBalance },
+      {
+        fee: taxAmount,
+        description: `Deposit to Forex account ${account.accountId}`,
+        referenceType: "transaction",
+        referenceId: transaction.id,
+      },
+      t
+    );
+
     return transaction;
   });
 
@@ -86,6 +86,12 @@ export default async (data: Handler) => {
         message: "Order is not open",
       });
     }
+    if (order.isLiquidation) {
+      throw createError({
+        statusCode: 400,
+        message: "Liquidation orders cannot be cancelled",
+      });
+    }
 
     await cancelOrderByUuid(
       user.id,
@@ -0,0 +1,183 @@
+import { createError } from "@b/utils/error";
+import { requireKycFeature } from "@b/utils/kycTiers";
+import { makeUuid } from "@b/utils/passwords";
+import { createRecordResponses } from "@b/utils/query";
+import { FuturesMatchingEngine } from "@b/utils/futures/matchingEngine";
+import {
+  getFuturesOrderQuote,
+  submitFuturesOrder,
+} from "@b/utils/futures/order";
+import {
+  buildProtectionLegs,
+  getClosingSide,
+  validateProtectionPrices,
+} from "@b/utils/futures/orderGroup";
+import { createOrderGroup } from "@b/utils/futures/queries/orderGroup";
+
+export const metadata: OperationObject = {
+  summary: "Creates a bracket order",
+  description:
+    "Submits a futures entry order together with a take-profit and a stop-loss. Once the entry fills, the exit legs are placed as a one-cancels-other pair.",
+  operationId: "createFuturesBracketOrder",
+  tags: ["Futures", "Orders"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            currency: {
+              type: "string",
+              description: "Currency symbol (e.g., BTC)",
+            },
+            pair: { type: "string", description: "Pair symbol (e.g., USDT)" },
+            type: {
+              type: "string",
+              description: "Entry order type, e.g., limit, market",
+            },
+            side: {
+              type: "string",
+              description: "Entry order side, either buy or sell",
+            },
+            amount: { type: "number", description: "Amount of the order" },
+            price: {
+              type: "number",
+              description: "Price of the entry order",
+            },
+            leverage: {
+              type: "number",
+              description: "Leverage for the futures orders",
+            },
+            takeProfitPrice: {
+              type: "number",
+              description: "Limit price of the take-profit leg",
+            },
+            stopLossPrice: {
+              type: "number",
+              description: "Price at which the stop-loss leg fires",
+            },
+          },
+          required: [
+            "currency",
+            "pair",
+            "type",
+            "side",
+            "amount",
+            "price",
+            "leverage",
+            "takeProfitPrice",
+            "stopLossPrice",
+          ],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("Order Group"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await requireKycFeature(user.id, "futures");
+
+  const {
+    currency,
+    pair,
+    type,
+    side,
+    amount,
+    price,
+    leverage,
+    takeProfitPrice,
+    stopLossPrice,
+  } = body;
+
+  if (
+    !currency ||
+    !pair ||
+    !["LIMIT", "MARKET"].includes(type) ||
+    !["BUY", "SELL"].includes(side) ||
+    !(amount > 0) ||
+    !(price > 0) ||
+    !(leverage > 0) ||
+    !(takeProfitPrice > 0) ||
+    !(stopLossPrice > 0)
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+  const symbol = `${currency}/${pair}`;
+  const exitSide = getClosingSide(side);
+
+  try {
+    validateProtectionPrices(exitSide, takeProfitPrice, stopLossPrice, price);
+
+    const entryParams = {
+      currency,
+      pair,
+      amount,
+      price,
+      type,
+      side,
+      leverage,
+    };
+    const quote = await getFuturesOrderQuote(user.id, entryParams);
+    const entryOrderId = makeUuid();
+
+    const group = await createOrderGroup({
+      userId: user.id,
+      symbol,
+      type: "BRACKET",
+      leverage,
+      legs: [
+        {
+          role: "ENTRY",
+          type,
+          side,
+          amount,
+          price,
+          orderId: entryOrderId,
+          status: "OPEN",
+        },
+        ...buildProtectionLegs(
+          exitSide,
+          amount,
+          takeProfitPrice,
+          stopLossPrice,
+          "WAITING"
+        ),
+      ],
+    });
+
+    // The engine must know the group before the entry can fill
+    const matchingEngine = await FuturesMatchingEngine.getInstance();
+    matchingEngine.addOrderGroup(group);
+
+    const [entry] = group.legs;
+    try {
+      await submitFuturesOrder(user.id, entryParams, quote, entryOrderId);
+    } catch (error) {
+      entry.status = "CANCELED";
+      await matchingEngine.cancelOrderGroup(group);
+      throw error;
+    }
+
+    return {
+      message: "Bracket order created successfully",
+      group,
+    };
+  } catch (error) {
+    console.error("Error creating futures bracket order:", error);
+    throw createError({
+      statusCode: 500,
+      message: `Failed to create bracket order: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,87 @@
+import { FuturesMatchingEngine } from "@b/utils/futures/matchingEngine";
+import { getOrderGroupByUuid } from "@b/utils/futures/queries/orderGroup";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Cancels a futures order group",
+  description:
+    "Cancels every leg of an OCO or bracket order group that has not traded yet and refunds their locked balance.",
+  operationId: "cancelFuturesOrderGroup",
+  tags: ["Futures", "Orders"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the order group" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Order group cancelled successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              message: { type: "string", description: "Success message" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Order Group"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  if (!id) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const group = await getOrderGroupByUuid(user.id, id);
+  if (!group) {
+    throw createError({ statusCode: 404, message: "Order group not found" });
+  }
+  if (group.status !== "ACTIVE") {
+    throw createError({
+      statusCode: 400,
+      message: "Order group is not active",
+    });
+  }
+
+  try {
+    // The engine's copy holds the latest leg states
+    const matchingEngine = await FuturesMatchingEngine.getInstance();
+    await matchingEngine.cancelOrderGroup(
+      matchingEngine.getOrderGroup(group.symbol, id) || group
+    );
+
+    return {
+      message: "Order group cancelled and balance refunded successfully",
+    };
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to cancel order group: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,64 @@
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { baseOrderGroupSchema } from "../utils";
+import { createError } from "@b/utils/error";
+import { getOrderGroupsByUserId } from "@b/utils/futures/queries/orderGroup";
+
+export const metadata: OperationObject = {
+  summary: "List Futures Order Groups",
+  operationId: "listFuturesOrderGroups",
+  tags: ["Futures", "Orders"],
+  description:
+    "Retrieves the OCO and bracket order groups of the authenticated user.",
+  parameters: [
+    {
+      name: "currency",
+      in: "query",
+      description: "Currency of the market to filter by.",
+      schema: { type: "string" },
+    },
+    {
+      name: "pair",
+      in: "query",
+      description: "Pair of the market to filter by.",
+      schema: { type: "string" },
+    },
+    {
+      name: "status",
+      in: "query",
+      description: "Status to filter by (ACTIVE, COMPLETED, CANCELED).",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "A list of order groups",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: baseOrderGroupSchema,
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { currency, pair, status } = query;
+  const symbol = currency && pair ? `${currency}/${pair}` : undefined;
+
+  const groups = await getOrderGroupsByUserId(user.id, symbol);
+  return groups.filter((group) => !status || group.status === status);
+};
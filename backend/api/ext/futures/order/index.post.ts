@@ -1,18 +1,16 @@
 import { createError } from "@b/utils/error";
-import { getWallet } from "@b/api/finance/wallet/utils";
-import {
-  fromBigInt,
-  toBigIntFloat,
-  fromBigIntMultiply,
-} from "@b/utils/eco/blockchain";
+import { requireKycFeature } from "@b/utils/kycTiers";
+import { fromBigInt, fromBigIntMultiply } from "@b/utils/eco/blockchain";
 import { createRecordResponses } from "@b/utils/query";
-import { models } from "@b/db";
 import { updateWalletBalance } from "@b/utils/eco/wallet";
 import {
-  createOrder,
   cancelOrderByUuid,
   getOrdersByUserId,
 } from "@b/utils/futures/queries/order";
+import {
+  getFuturesOrderQuote,
+  submitFuturesOrder,
+} from "@b/utils/futures/order";
 
 export const metadata: OperationObject = {
   summary: "Creates a new futures trading order",
@@ -59,6 +57,13 @@ export const metadata: OperationObject = {
               description: "Take profit price for the order",
               nullable: true,
             },
+            marginMode: {
+              type: "string",
+              description:
+                "Margin mode of the resulting position, defaults to ISOLATED",
+              enum: ["ISOLATED", "CROSS"],
+              nullable: true,
+            },
           },
           required: ["currency", "pair", "type", "side", "amount", "leverage"],
         },
@@ -75,6 +80,8 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  await requireKycFeature(user.id, "futures");
+
   const {
     currency,
     pair,
@@ -85,91 +92,38 @@ export default async (data: Handler) => {
     leverage,
     stopLossPrice,
     takeProfitPrice,
+    marginMode = "ISOLATED",
   } = body;
 
   if (!currency || !pair) {
     throw new Error("Invalid symbol");
   }
+  if (!["ISOLATED", "CROSS"].includes(marginMode)) {
+    throw createError({ statusCode: 400, message: "Invalid margin mode" });
+  }
   const symbol = `${currency}/${pair}`;
+  const params = {
+    currency,
+    pair,
+    amount,
+    price,
+    type,
+    side,
+    leverage,
+    stopLossPrice,
+    takeProfitPrice,
+    marginMode,
+  };
 
   try {
-    const market = (await models.futuresMarket.findOne({
-      where: { currency, pair },
-    })) as any;
-
-    if (!market) {
-      throw new Error("Futures market data not found");
-    }
-
-    if (!market.metadata) {
-      throw new Error("Futures market metadata not found");
-    }
-
-    const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
-    const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
-    const minPrice = Number(market.metadata?.limits?.price?.min || 0);
-    const maxPrice = Number(market.metadata?.limits?.price?.max || 0);
-    const minCost = Number(market.metadata?.limits?.cost?.min || 0);
-    const maxCost = Number(market.metadata?.limits?.cost?.max || 0);
-
-    if (side === "SELL" && amount < minAmount) {
-      throw new Error(`Amount is too low. You need ${minAmount} ${currency}`);
-    }
-
-    if (side === "SELL" && maxAmount > 0 && amount > maxAmount) {
-      throw new Error(
-        `Amount is too high. Maximum is ${maxAmount} ${currency}`
-      );
-    }
-
-    if (price && price < minPrice) {
-      throw new Error(`Price is too low. You need ${minPrice} ${pair}`);
-    }
-
-    if (maxPrice > 0 && price > maxPrice) {
-      throw new Error(`Price is too high. Maximum is ${maxPrice} ${pair}`);
-    }
-
-    const precision =
-      Number(
-        side === "BUY"
-          ? market.metadata.precision.amount
-          : market.metadata.precision.price
-      ) || 8;
-    const feeRate =
-      side === "BUY"
-        ? Number(market.metadata.taker)
-        : Number(market.metadata.maker);
-
-    const feeCalculated = (amount * price * feeRate) / 100;
-    const fee = parseFloat(feeCalculated.toFixed(precision));
-    const cost = amount * price;
-
-    if (side === "BUY" && cost < minCost) {
-      throw new Error(`Cost is too low. You need ${minCost} ${pair}`);
-    }
-
-    if (side === "BUY" && maxCost > 0 && cost > maxCost) {
-      throw new Error(`Cost is too high. Maximum is ${maxCost} ${pair}`);
-    }
-
-    let pairWallet;
-    try {
-      pairWallet = await getWallet(user.id, "FUTURES", pair);
-    } catch (error) {}
-    if (!pairWallet) {
-      throw new Error(`Insufficient balance. You need ${cost + fee} ${pair}`);
-    }
-
-    // Check for sufficient balance
-    if (pairWallet.balance < cost + fee) {
-      throw new Error(`Insufficient balance. You need ${cost + fee} ${pair}`);
-    }
+    const quote = await getFuturesOrderQuote(user.id, params);
+    const pairWallet = quote.wallet;
 
     const existingOrders = await getOrdersByUserId(user.id);
 
     for (const existingOrder of existingOrders) {
       if (
+        !existingOrder.isLiquidation &&
         existingOrder.symbol === symbol &&
         existingOrder.leverage === leverage &&
         fromBigInt(existingOrder.amount) === amount &&
@@ -204,22 +158,7 @@ export default async (data: Handler) => {
       }
     }
 
-    const newOrder = await createOrder({
-      userId: user.id,
-      symbol,
-      amount: toBigIntFloat(amount),
-      price: toBigIntFloat(price),
-      cost: toBigIntFloat(cost),
-      type,
-      side,
-      fee: toBigIntFloat(fee),
-      feeCurrency: pair,
-      leverage,
-      stopLossPrice: stopLossPrice ? toBigIntFloat(stopLossPrice) : undefined,
-      takeProfitPrice: takeProfitPrice
-        ? toBigIntFloat(takeProfitPrice)
-        : undefined,
-    });
+    const newOrder = await submitFuturesOrder(user.id, params, quote);
 
     const order = {
       ...newOrder,
@@ -239,9 +178,6 @@ export default async (data: Handler) => {
       average: 0,
     };
 
-    // Subtract the cost and fee from the pair wallet
-    await updateWalletBalance(pairWallet, cost + fee, "subtract");
-
     return {
       message: "Futures order created successfully",
       order,
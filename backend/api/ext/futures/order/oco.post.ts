@@ -0,0 +1,185 @@
+import { createError } from "@b/utils/error";
+import { requireKycFeature } from "@b/utils/kycTiers";
+import { makeUuid } from "@b/utils/passwords";
+import { createRecordResponses } from "@b/utils/query";
+import { FuturesMatchingEngine } from "@b/utils/futures/matchingEngine";
+import {
+  getFuturesOrderQuote,
+  submitFuturesOrder,
+} from "@b/utils/futures/order";
+import {
+  buildProtectionLegs,
+  getClosingSide,
+  validateProtectionPrices,
+} from "@b/utils/futures/orderGroup";
+import {
+  createOrderGroup,
+  updateOrderGroup,
+} from "@b/utils/futures/queries/orderGroup";
+import { getPosition } from "@b/utils/futures/queries/positions";
+
+export const metadata: OperationObject = {
+  summary: "Creates a one-cancels-other order pair",
+  description:
+    "Protects an open futures position with a take-profit limit order and a stop-loss order. When either leg fills the other is canceled.",
+  operationId: "createFuturesOcoOrder",
+  tags: ["Futures", "Orders"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            currency: {
+              type: "string",
+              description: "Currency symbol (e.g., BTC)",
+            },
+            pair: { type: "string", description: "Pair symbol (e.g., USDT)" },
+            side: {
+              type: "string",
+              description:
+                "Side of both legs, opposite to the position they close",
+            },
+            amount: { type: "number", description: "Amount of each leg" },
+            leverage: {
+              type: "number",
+              description: "Leverage for the leg orders",
+            },
+            takeProfitPrice: {
+              type: "number",
+              description: "Limit price of the take-profit leg",
+            },
+            stopLossPrice: {
+              type: "number",
+              description: "Price at which the stop-loss leg fires",
+            },
+          },
+          required: [
+            "currency",
+            "pair",
+            "side",
+            "amount",
+            "leverage",
+            "takeProfitPrice",
+            "stopLossPrice",
+          ],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("Order Group"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await requireKycFeature(user.id, "futures");
+
+  const {
+    currency,
+    pair,
+    side,
+    amount,
+    leverage,
+    takeProfitPrice,
+    stopLossPrice,
+  } = body;
+
+  if (
+    !currency ||
+    !pair ||
+    !["BUY", "SELL"].includes(side) ||
+    !(amount > 0) ||
+    !(leverage > 0) ||
+    !(takeProfitPrice > 0) ||
+    !(stopLossPrice > 0)
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+  const symbol = `${currency}/${pair}`;
+
+  try {
+    const position = await getPosition(user.id, symbol, getClosingSide(side));
+    if (!position) {
+      throw new Error(`No open position to protect on ${symbol}`);
+    }
+
+    const matchingEngine = await FuturesMatchingEngine.getInstance();
+    validateProtectionPrices(
+      side,
+      takeProfitPrice,
+      stopLossPrice,
+      matchingEngine.getTicker(symbol).last
+    );
+
+    const takeProfitParams = {
+      currency,
+      pair,
+      amount,
+      price: takeProfitPrice,
+      type: "LIMIT",
+      side,
+      leverage,
+    };
+    const quote = await getFuturesOrderQuote(user.id, takeProfitParams);
+
+    const [takeProfit, stopLoss] = buildProtectionLegs(
+      side,
+      amount,
+      takeProfitPrice,
+      stopLossPrice,
+      "WAITING"
+    );
+    takeProfit.orderId = makeUuid();
+    takeProfit.status = "OPEN";
+
+    const group = await createOrderGroup({
+      userId: user.id,
+      symbol,
+      type: "OCO",
+      leverage,
+      legs: [takeProfit, stopLoss],
+    });
+
+    // The engine must know the group before the take-profit can fill, while
+    // the stop is only armed once the take-profit is on the book
+    matchingEngine.addOrderGroup(group);
+
+    try {
+      await submitFuturesOrder(
+        user.id,
+        takeProfitParams,
+        quote,
+        takeProfit.orderId
+      );
+    } catch (error) {
+      takeProfit.status = "CANCELED";
+      await matchingEngine.cancelOrderGroup(group);
+      throw error;
+    }
+
+    if (stopLoss.status === "WAITING") {
+      stopLoss.status = "ARMED";
+      await updateOrderGroup(group);
+    }
+
+    return {
+      message: "OCO order created successfully",
+      group,
+    };
+  } catch (error) {
+    console.error("Error creating futures OCO order:", error);
+    throw createError({
+      statusCode: 500,
+      message: `Failed to create OCO order: ${error.message}`,
+    });
+  }
+};
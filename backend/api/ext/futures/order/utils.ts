@@ -18,6 +18,32 @@ export const baseOrderSchema = {
   ),
 };
 
+export const baseOrderGroupLegSchema = {
+  role: baseStringSchema("Leg role (ENTRY, TAKE_PROFIT, STOP_LOSS)"),
+  type: baseStringSchema("Leg order type (LIMIT, MARKET, STOP)"),
+  side: baseStringSchema("Order side (buy/sell)"),
+  amount: baseNumberSchema("Leg amount"),
+  price: baseNumberSchema("Limit price of the leg", true),
+  stopPrice: baseNumberSchema("Price at which a stop leg fires", true),
+  orderId: baseStringSchema("ID of the leg's order once placed", 191, 0, true),
+  status: baseStringSchema("Leg status"),
+};
+
+export const baseOrderGroupSchema = {
+  id: baseStringSchema("Order group ID"),
+  symbol: baseStringSchema("Trading symbol"),
+  type: baseStringSchema("Group type (OCO, BRACKET)"),
+  leverage: baseNumberSchema("Leverage of the group's orders"),
+  legs: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: baseOrderGroupLegSchema,
+    },
+  },
+  status: baseStringSchema("Group status (ACTIVE, COMPLETED, CANCELED)"),
+};
+
 export const baseTickerSchema = {
   symbol: baseStringSchema("Trading symbol"),
   price: baseStringSchema("Latest trading price"),
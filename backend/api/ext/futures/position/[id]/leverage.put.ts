@@ -0,0 +1,86 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { changePositionLeverage } from "@b/utils/futures/margin";
+import { basePositionSchema, formatPosition, getOpenPosition } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Changes the leverage of an open futures position",
+  description:
+    "Sets a new leverage on an open position. Lowering the leverage takes the additional margin from the FUTURES wallet, raising it releases margin back to the wallet.",
+  operationId: "changeFuturesPositionLeverage",
+  tags: ["Futures", "Positions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the position" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            leverage: {
+              type: "number",
+              description: "New leverage of the position",
+            },
+          },
+          required: ["leverage"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Position leverage changed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: basePositionSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Position"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  const leverage = Number(body.leverage);
+  if (!id || !Number.isFinite(leverage) || leverage < 1) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const position = await getOpenPosition(user.id, id);
+
+  try {
+    return formatPosition(await changePositionLeverage(position, leverage));
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: `Failed to change position leverage: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,98 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  addIsolatedMargin,
+  removeIsolatedMargin,
+} from "@b/utils/futures/margin";
+import { basePositionSchema, formatPosition, getOpenPosition } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Adjusts the margin of an isolated futures position",
+  description:
+    "Moves margin between the FUTURES wallet and an open isolated position. Removing margin is limited to what the position does not need for its leverage and unrealized loss.",
+  operationId: "adjustFuturesPositionMargin",
+  tags: ["Futures", "Positions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the position" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              description: "Whether to add or remove margin",
+              enum: ["ADD", "REMOVE"],
+            },
+            amount: {
+              type: "number",
+              description: "Amount of margin to move",
+            },
+          },
+          required: ["type", "amount"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Position margin adjusted successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: basePositionSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Position"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  const { type, amount } = body;
+  if (!id || !["ADD", "REMOVE"].includes(type) || !(amount > 0)) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const position = await getOpenPosition(user.id, id);
+
+  try {
+    const updated =
+      type === "ADD"
+        ? await addIsolatedMargin(position, amount)
+        : await removeIsolatedMargin(position, amount);
+    return formatPosition(updated);
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: `Failed to adjust position margin: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,87 @@
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { changePositionMarginMode } from "@b/utils/futures/margin";
+import { basePositionSchema, formatPosition, getOpenPosition } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Changes the margin mode of an open futures position",
+  description:
+    "Switches an open position between isolated margin, backed by its own margin only, and cross margin, backed by the whole FUTURES wallet of its settlement currency.",
+  operationId: "changeFuturesPositionMarginMode",
+  tags: ["Futures", "Positions"],
+  parameters: [
+    {
+      index: 0,
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string", description: "UUID of the position" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            marginMode: {
+              type: "string",
+              description: "New margin mode of the position",
+              enum: ["ISOLATED", "CROSS"],
+            },
+          },
+          required: ["marginMode"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Position margin mode changed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: basePositionSchema,
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Position"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body, params, user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { id } = params;
+  const { marginMode } = body;
+  if (!id || !["ISOLATED", "CROSS"].includes(marginMode)) {
+    throw createError({
+      statusCode: 400,
+      message: "Invalid request parameters",
+    });
+  }
+
+  const position = await getOpenPosition(user.id, id);
+
+  try {
+    return formatPosition(await changePositionMarginMode(position, marginMode));
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: `Failed to change position margin mode: ${error.message}`,
+    });
+  }
+};
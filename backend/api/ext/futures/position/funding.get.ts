@@ -0,0 +1,81 @@
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import { getFundingHistoryByUserId } from "@b/utils/futures/queries/funding";
+
+export const metadata: OperationObject = {
+  summary: "List Futures Funding Payments",
+  operationId: "listFuturesFundingPayments",
+  tags: ["Futures", "Positions"],
+  description:
+    "Retrieves the funding payments paid and received on the futures positions of the authenticated user.",
+  parameters: [
+    {
+      name: "currency",
+      in: "query",
+      description: "Currency of the positions to retrieve payments for.",
+      schema: { type: "string" },
+    },
+    {
+      name: "pair",
+      in: "query",
+      description: "Pair of the positions to retrieve payments for.",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "A list of funding payments, newest first",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                positionId: { type: "string" },
+                symbol: { type: "string" },
+                side: { type: "string" },
+                fundingRate: { type: "number" },
+                markPrice: { type: "number" },
+                indexPrice: { type: "number" },
+                amount: {
+                  type: "number",
+                  description:
+                    "Amount received when positive, paid when negative",
+                },
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id)
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const { currency, pair } = data.query;
+
+  try {
+    const symbol = currency && pair ? `${currency}/${pair}` : undefined;
+    const payments = await getFundingHistoryByUserId(user.id, symbol);
+
+    return payments.map((payment) => ({
+      ...payment,
+      createdAt: payment.createdAt.toISOString(),
+    }));
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to retrieve funding payments: ${error.message}`,
+    });
+  }
+};
@@ -11,6 +11,7 @@ import {
   updatePositionStatus,
 } from "@b/utils/futures/queries/positions";
 import { getWallet } from "@b/api/finance/wallet/utils";
+import { getPositionMargin } from "@b/utils/futures/liquidation";
 
 export const metadata: OperationObject = {
   summary: "Closes an open futures position",
@@ -134,11 +135,9 @@ export default async (data: Handler) => {
   }
 };
 
+// The margin held by the position is returned together with its PnL
 const calculateFinalBalanceChange = (position) => {
-  const entryPrice = fromBigInt(position.entryPrice);
-  const amount = fromBigInt(position.amount);
   const unrealizedPnl = fromBigInt(position.unrealizedPnl); // Ensure PnL is a number
-  const investedAmount = entryPrice * amount;
-  const finalBalanceChange = investedAmount + unrealizedPnl;
+  const finalBalanceChange = getPositionMargin(position) + unrealizedPnl;
   return finalBalanceChange;
 };
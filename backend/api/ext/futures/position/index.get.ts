@@ -51,6 +51,9 @@ export const metadata: OperationObject = {
                 amount: { type: "string" },
                 leverage: { type: "string" },
                 unrealizedPnl: { type: "string" },
+                liquidationPrice: { type: "string" },
+                marginMode: { type: "string" },
+                margin: { type: "string" },
                 status: { type: "string" },
                 createdAt: { type: "string", format: "date-time" },
                 updatedAt: { type: "string", format: "date-time" },
@@ -89,6 +92,10 @@ export default async (data: Handler) => {
       amount: fromBigInt(position.amount),
       leverage: position.leverage,
       unrealizedPnl: fromBigInt(position.unrealizedPnl),
+      liquidationPrice: position.liquidationPrice
+        ? fromBigInt(position.liquidationPrice)
+        : undefined,
+      margin: position.margin ? fromBigInt(position.margin) : undefined,
       createdAt: position.createdAt.toISOString(),
       updatedAt: position.updatedAt.toISOString(),
     }));
@@ -0,0 +1,55 @@
+import { createError } from "@b/utils/error";
+import { fromBigInt } from "@b/utils/eco/blockchain";
+import {
+  FuturesPosition,
+  getPositionById,
+} from "@b/utils/futures/queries/positions";
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+
+export const basePositionSchema = {
+  id: baseStringSchema("Position ID"),
+  symbol: baseStringSchema("Trading symbol"),
+  side: baseStringSchema("Position side (BUY, SELL)"),
+  entryPrice: baseNumberSchema("Average entry price"),
+  amount: baseNumberSchema("Position size"),
+  leverage: baseNumberSchema("Leverage of the position"),
+  marginMode: baseStringSchema("Margin mode (ISOLATED, CROSS)"),
+  margin: baseNumberSchema("Margin held by the position"),
+  liquidationPrice: baseNumberSchema(
+    "Price at which the position is liquidated"
+  ),
+  status: baseStringSchema("Position status"),
+};
+
+export async function getOpenPosition(
+  userId: string,
+  id: string
+): Promise<FuturesPosition> {
+  const position = await getPositionById(userId, id);
+  if (!position) {
+    throw createError({ statusCode: 404, message: "Position not found" });
+  }
+  if (position.status !== "OPEN") {
+    throw createError({ statusCode: 400, message: "Position is not open" });
+  }
+  return position;
+}
+
+export function formatPosition(position: FuturesPosition) {
+  return {
+    ...position,
+    entryPrice: fromBigInt(position.entryPrice),
+    amount: fromBigInt(position.amount),
+    unrealizedPnl: fromBigInt(position.unrealizedPnl),
+    stopLossPrice: position.stopLossPrice
+      ? fromBigInt(position.stopLossPrice)
+      : undefined,
+    takeProfitPrice: position.takeProfitPrice
+      ? fromBigInt(position.takeProfitPrice)
+      : undefined,
+    liquidationPrice: position.liquidationPrice
+      ? fromBigInt(position.liquidationPrice)
+      : undefined,
+    margin: position.margin ? fromBigInt(position.margin) : undefined,
+  };
+}
@@ -2,6 +2,8 @@ import { models, sequelize } from "@b/db";
 import { processRewards } from "@b/utils/affiliate";
 import { sendIcoContributionEmail } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
+import { requireKycFeature } from "@b/utils/kycTiers";
+import { setWalletBalances } from "@b/utils/ledger";
 import { handleNotification } from "@b/utils/notifications";
 
 import {
@@ -62,6 +64,8 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  await requireKycFeature(user.id, "ico");
+
   const { phaseId, amount } = body;
   if (amount <= 0) {
     throw createError({
@@ -93,6 +97,7 @@ export default async (data: Handler) => {
         type: phase.token.purchaseWalletType,
       },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
 
     if (!wallet || wallet.balance < amount) {
@@ -102,10 +107,6 @@ export default async (data: Handler) => {
       });
     }
 
-    // Deduct amount from wallet
-    wallet.balance -= amount;
-    await wallet.save({ transaction: t });
-
     // Create contribution
     contribution = await models.icoContribution.create(
       {
@@ -116,6 +117,18 @@ export default async (data: Handler) => {
       { transaction: t }
     );
 
+    // Deduct amount from wallet
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance - amount },
+      {
+        description: `Contribution to the ${phase.name} phase`,
+        referenceType: "icoContribution",
+        referenceId: contribution.id,
+      },
+      t
+    );
+
     // Create transaction record
     await models.transaction.create(
       {
@@ -0,0 +1,114 @@
+// backend/api/ext/nft/asset/[id]/auction.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import { getActiveAuction, getAssetOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Start an NFT auction",
+  description:
+    "Puts an asset of the authenticated user up for an English auction. The highest bid at the end buys the asset if it meets the reserve price; a fixed-price listing of the asset is withdrawn.",
+  operationId: "createNftAuction",
+  tags: ["NFT", "Auctions"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            startingBid: {
+              type: "number",
+              description: "Lowest accepted first bid",
+            },
+            reservePrice: {
+              type: "number",
+              description: "Lowest price the asset is sold for",
+            },
+            startTime: {
+              type: "string",
+              format: "date-time",
+              description: "Start of the auction, now when omitted",
+            },
+            endTime: {
+              type: "string",
+              format: "date-time",
+              description: "End of the auction",
+            },
+          },
+          required: ["startingBid", "endTime"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Auction"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const startingBid = Number(body.startingBid);
+  const reservePrice = body.reservePrice ? Number(body.reservePrice) : null;
+  const startTime = body.startTime ? new Date(body.startTime) : new Date();
+  const endTime = new Date(body.endTime);
+
+  if (!(startingBid > 0)) {
+    throw createError({
+      statusCode: 400,
+      message: "Starting bid must be greater than 0",
+    });
+  }
+  if (reservePrice !== null && reservePrice < startingBid) {
+    throw createError({
+      statusCode: 400,
+      message: "Reserve price cannot be lower than the starting bid",
+    });
+  }
+  if (
+    isNaN(endTime.getTime()) ||
+    endTime <= startTime ||
+    endTime <= new Date()
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "End time must be in the future and after the start time",
+    });
+  }
+
+  const asset = await getAssetOwnedBy(params.id, user.id);
+  if (await getActiveAuction(asset.id)) {
+    throw createError({
+      statusCode: 400,
+      message: "Asset is already on auction",
+    });
+  }
+
+  const auction = await models.nftAuction.create({
+    nftAssetId: asset.id,
+    startTime,
+    endTime,
+    startingBid,
+    reservePrice,
+    status: "ACTIVE",
+  });
+  await asset.update({ price: null });
+
+  return {
+    id: auction.id,
+    message: "Auction started successfully",
+  };
+};
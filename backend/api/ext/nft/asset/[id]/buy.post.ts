@@ -0,0 +1,135 @@
+// backend/api/ext/nft/asset/[id]/buy.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { handleNotification } from "@b/utils/notifications";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { settleNftSale } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Buy a listed NFT asset",
+  description:
+    "Buys an asset at its listing price from the wallet of the authenticated user.",
+  operationId: "buyNftAsset",
+  tags: ["NFT", "Listings"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            price: {
+              type: "number",
+              description:
+                "Price the buyer agreed to, rejected if the listing changed",
+            },
+          },
+          required: ["price"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Asset bought successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "ID of the NFT transaction" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Asset"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { asset, nftTransaction, sellerId } = await sequelize.transaction(
+    async (transaction) => {
+      const asset = await models.nftAsset.findOne({
+        where: { id: params.id, status: true },
+        include: [
+          {
+            model: models.nftCollection,
+            as: "collection",
+            where: { status: true },
+          },
+        ],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!asset) {
+        throw createError({ statusCode: 404, message: "Asset not found" });
+      }
+      if (asset.price === null || asset.price === undefined) {
+        throw createError({
+          statusCode: 400,
+          message: "Asset is not listed for sale",
+        });
+      }
+      if (Number(body.price) !== asset.price) {
+        throw createError({
+          statusCode: 409,
+          message: "The listing price has changed",
+        });
+      }
+
+      const sellerId = asset.ownerId;
+      const nftTransaction = await settleNftSale(
+        {
+          asset,
+          collection: asset.collection,
+          buyerId: user.id,
+          price: asset.price,
+          escrowed: false,
+        },
+        transaction
+      );
+
+      return { asset, nftTransaction, sellerId };
+    }
+  );
+
+  try {
+    await handleNotification({
+      userId: sellerId,
+      title: "NFT Sold",
+      message: `Your NFT "${asset.name}" has been sold for ${nftTransaction.price} ${asset.collection.currency}.`,
+      type: "ACTIVITY",
+    });
+  } catch (error) {
+    console.error(`Failed to send notification: ${error.message}`);
+  }
+
+  return {
+    id: nftTransaction.id,
+    message: "Asset bought successfully",
+  };
+};
@@ -0,0 +1,141 @@
+// backend/api/ext/nft/asset/[id]/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import {
+  baseAssetSchema,
+  baseAuctionSchema,
+  baseCollectionSchema,
+  userAttributes,
+} from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Get an NFT asset",
+  description:
+    "Retrieves an asset with its collection, active auction and sale history.",
+  operationId: "getNftAsset",
+  tags: ["NFT", "Assets"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT asset retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              ...baseAssetSchema,
+              liked: { type: "boolean" },
+              collection: {
+                type: "object",
+                properties: baseCollectionSchema,
+              },
+              nftAuction: {
+                type: "object",
+                nullable: true,
+                properties: baseAuctionSchema,
+              },
+              nftTransactions: {
+                type: "array",
+                items: { type: "object" },
+              },
+            },
+          },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT Asset"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+
+  const asset = await models.nftAsset.findOne({
+    where: { id: params.id, status: true },
+    include: [
+      {
+        model: models.nftCollection,
+        as: "collection",
+        where: { status: true },
+        include: [
+          {
+            model: models.user,
+            as: "creator",
+            attributes: userAttributes,
+          },
+        ],
+      },
+      {
+        model: models.user,
+        as: "owner",
+        attributes: userAttributes,
+      },
+      {
+        model: models.nftAuction,
+        as: "nftAuction",
+        where: { status: "ACTIVE" },
+        required: false,
+        include: [
+          {
+            model: models.nftBid,
+            as: "nftBids",
+            where: { status: "PENDING" },
+            required: false,
+            include: [
+              {
+                model: models.user,
+                as: "bidder",
+                attributes: userAttributes,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        model: models.nftTransaction,
+        as: "nftTransactions",
+        where: { status: "COMPLETED" },
+        required: false,
+        attributes: [
+          "id",
+          "sellerId",
+          "buyerId",
+          "price",
+          "type",
+          "transactionHash",
+          "createdAt",
+        ],
+      },
+    ],
+    order: [
+      [
+        { model: models.nftTransaction, as: "nftTransactions" },
+        "createdAt",
+        "DESC",
+      ],
+    ],
+  });
+
+  if (!asset) {
+    throw createError({ statusCode: 404, message: "Asset not found" });
+  }
+
+  const liked = user?.id
+    ? (await models.nftLike.count({
+        where: { nftAssetId: asset.id, userId: user.id },
+      })) > 0
+    : false;
+
+  return { ...asset.get({ plain: true }), liked };
+};
@@ -0,0 +1,72 @@
+// backend/api/ext/nft/asset/[id]/index.put.ts
+
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { getAssetOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Update an NFT asset",
+  description:
+    "Updates an asset the authenticated user created and still owns. Assets that changed hands can no longer be edited.",
+  operationId: "updateNftAsset",
+  tags: ["NFT", "Assets"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the asset" },
+            image: { type: "string", description: "Image of the asset" },
+            attributes: {
+              type: "array",
+              description: "Trait attributes of the asset",
+              items: { type: "object" },
+            },
+            royalty: {
+              type: "number",
+              description: "Royalty paid to the creator on resales, in %",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Asset"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const asset = await getAssetOwnedBy(params.id, user.id);
+  if (asset.collection.creatorId !== user.id) {
+    throw createError({
+      statusCode: 403,
+      message: "Only the creator of an asset can edit it",
+    });
+  }
+
+  const { name, image, attributes, royalty } = body;
+  await asset.update({
+    name,
+    image,
+    attributes: attributes ? JSON.stringify(attributes) : undefined,
+    royalty,
+  });
+
+  return { message: "Asset updated successfully" };
+};
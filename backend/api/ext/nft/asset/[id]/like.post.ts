@@ -0,0 +1,80 @@
+// backend/api/ext/nft/asset/[id]/like.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Like or unlike an NFT asset",
+  description: "Toggles whether the authenticated user likes an asset.",
+  operationId: "toggleNftAssetLike",
+  tags: ["NFT", "Assets"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Like toggled successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              liked: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Asset"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  return sequelize.transaction(async (transaction) => {
+    const asset = await models.nftAsset.findOne({
+      where: { id: params.id, status: true },
+      transaction,
+    });
+    if (!asset) {
+      throw createError({ statusCode: 404, message: "Asset not found" });
+    }
+
+    const like = await models.nftLike.findOne({
+      where: { nftAssetId: asset.id, userId: user.id },
+      transaction,
+    });
+
+    if (like) {
+      await like.destroy({ transaction });
+      await asset.decrement("likes", { transaction });
+      return { liked: false, message: "Asset unliked" };
+    }
+
+    await models.nftLike.create(
+      { nftAssetId: asset.id, userId: user.id },
+      { transaction }
+    );
+    await asset.increment("likes", { transaction });
+    return { liked: true, message: "Asset liked" };
+  });
+};
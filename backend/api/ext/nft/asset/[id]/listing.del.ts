@@ -0,0 +1,35 @@
+// backend/api/ext/nft/asset/[id]/listing.del.ts
+
+import { createError } from "@b/utils/error";
+import { deleteRecordResponses } from "@b/utils/query";
+import { getAssetOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Remove an NFT asset from sale",
+  description: "Withdraws the fixed-price listing of an asset.",
+  operationId: "unlistNftAsset",
+  tags: ["NFT", "Listings"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  responses: deleteRecordResponses("NFT Listing"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const asset = await getAssetOwnedBy(params.id, user.id);
+  await asset.update({ price: null });
+
+  return { message: "Asset unlisted successfully" };
+};
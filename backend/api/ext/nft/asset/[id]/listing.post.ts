@@ -0,0 +1,65 @@
+// backend/api/ext/nft/asset/[id]/listing.post.ts
+
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { getActiveAuction, getAssetOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "List an NFT asset for sale",
+  description:
+    "Puts an asset of the authenticated user up for sale at a fixed price in the currency of its collection.",
+  operationId: "listNftAssetForSale",
+  tags: ["NFT", "Listings"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the asset",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            price: { type: "number", description: "Sale price of the asset" },
+          },
+          required: ["price"],
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Listing"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const price = Number(body.price);
+  if (!(price > 0)) {
+    throw createError({
+      statusCode: 400,
+      message: "Price must be greater than 0",
+    });
+  }
+
+  const asset = await getAssetOwnedBy(params.id, user.id);
+  if (await getActiveAuction(asset.id)) {
+    throw createError({
+      statusCode: 400,
+      message: "Assets on auction cannot be listed",
+    });
+  }
+
+  await asset.update({ price });
+
+  return { message: "Asset listed successfully" };
+};
@@ -0,0 +1,92 @@
+// backend/api/ext/nft/asset/index.get.ts
+
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { serverErrorResponse } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import { baseAssetSchema, userAttributes } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List NFT assets",
+  description:
+    "Retrieves the visible NFT assets, optionally filtered by collection, owner or listing.",
+  operationId: "listNftAssets",
+  tags: ["NFT", "Assets"],
+  parameters: [
+    {
+      name: "collectionId",
+      in: "query",
+      description: "Only return assets of this collection",
+      schema: { type: "string" },
+    },
+    {
+      name: "ownerId",
+      in: "query",
+      description: "Only return assets of this owner",
+      schema: { type: "string" },
+    },
+    {
+      name: "listed",
+      in: "query",
+      description: "Only return assets listed at a fixed price",
+      schema: { type: "boolean" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT assets retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: { type: "object", properties: baseAssetSchema },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { collectionId, ownerId, listed } = data.query;
+
+  const where: any = { status: true };
+  if (collectionId) where.collectionId = collectionId;
+  if (ownerId) where.ownerId = ownerId;
+  if (listed === "true") where.price = { [Op.ne]: null };
+
+  try {
+    return await models.nftAsset.findAll({
+      where,
+      include: [
+        {
+          model: models.nftCollection,
+          as: "collection",
+          where: { status: true },
+          attributes: ["id", "name", "image", "currency", "walletType"],
+        },
+        {
+          model: models.user,
+          as: "owner",
+          attributes: userAttributes,
+        },
+        {
+          model: models.nftAuction,
+          as: "nftAuction",
+          where: { status: "ACTIVE" },
+          required: false,
+        },
+      ],
+      order: [
+        ["featured", "DESC"],
+        ["createdAt", "DESC"],
+      ],
+    });
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to retrieve NFT assets: ${error.message}`,
+    });
+  }
+};
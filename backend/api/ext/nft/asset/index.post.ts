@@ -0,0 +1,74 @@
+// backend/api/ext/nft/asset/index.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+import { getCollectionOwnedBy } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Create an NFT asset",
+  description:
+    "Mints an asset into a collection of the authenticated user, who becomes its first owner.",
+  operationId: "createNftAsset",
+  tags: ["NFT", "Assets"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            collectionId: {
+              type: "string",
+              description: "ID of the collection to mint into",
+            },
+            name: { type: "string", description: "Name of the asset" },
+            image: { type: "string", description: "Image of the asset" },
+            attributes: {
+              type: "array",
+              description: "Trait attributes of the asset",
+              items: { type: "object" },
+            },
+            royalty: {
+              type: "number",
+              description: "Royalty paid to the creator on resales, in %",
+            },
+          },
+          required: ["collectionId", "name", "image"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Asset"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { collectionId, name, image, attributes, royalty } = body;
+  const collection = await getCollectionOwnedBy(collectionId, user.id);
+
+  const index = await models.nftAsset.count({
+    where: { collectionId: collection.id },
+    paranoid: false,
+  });
+
+  const asset = await models.nftAsset.create({
+    collectionId: collection.id,
+    ownerId: user.id,
+    index: index + 1,
+    name,
+    image,
+    attributes: attributes ? JSON.stringify(attributes) : undefined,
+    royalty,
+  });
+
+  return {
+    id: asset.id,
+    message: "Asset created successfully",
+  };
+};
@@ -0,0 +1,145 @@
+// backend/api/ext/nft/auction/[id]/bid.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { handleNotification } from "@b/utils/notifications";
+import { createRecordResponses } from "@b/utils/query";
+import { escrowBid, MIN_BID_INCREMENT, releaseBid } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Bid on an NFT auction",
+  description:
+    "Places a bid of the authenticated user on a running auction. The amount is held in escrow until the bid is outbid or the auction ends; the bid it outbids is released.",
+  operationId: "placeNftBid",
+  tags: ["NFT", "Auctions"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the auction",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", description: "Amount of the bid" },
+          },
+          required: ["amount"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Bid"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const amount = Number(body.amount);
+
+  const { bid, outbid, asset } = await sequelize.transaction(
+    async (transaction) => {
+      const auction = await models.nftAuction.findOne({
+        where: { id: params.id, status: "ACTIVE" },
+        include: [
+          {
+            model: models.nftAsset,
+            as: "nftAsset",
+            include: [{ model: models.nftCollection, as: "collection" }],
+          },
+        ],
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (
+        !auction ||
+        !auction.nftAsset.status ||
+        !auction.nftAsset.collection.status
+      ) {
+        throw createError({ statusCode: 404, message: "Auction not found" });
+      }
+
+      const now = new Date();
+      if (
+        now < new Date(auction.startTime) ||
+        now >= new Date(auction.endTime)
+      ) {
+        throw createError({
+          statusCode: 400,
+          message: "Auction is not running",
+        });
+      }
+
+      const asset = auction.nftAsset;
+      if (asset.ownerId === user.id) {
+        throw createError({
+          statusCode: 400,
+          message: "You cannot bid on your own auction",
+        });
+      }
+
+      const outbid = auction.currentBidId
+        ? await models.nftBid.findOne({
+            where: { id: auction.currentBidId, status: "PENDING" },
+            transaction,
+          })
+        : null;
+
+      const minimum = outbid
+        ? outbid.amount * (1 + MIN_BID_INCREMENT / 100)
+        : auction.startingBid;
+      if (!(amount >= minimum)) {
+        throw createError({
+          statusCode: 400,
+          message: `Bid must be at least ${minimum}`,
+        });
+      }
+
+      if (outbid) {
+        await releaseBid(outbid, asset.collection, transaction);
+        await outbid.update({ status: "DECLINED" }, { transaction });
+      }
+      const bid = await models.nftBid.create(
+        {
+          auctionId: auction.id,
+          nftAssetId: asset.id,
+          bidderId: user.id,
+          amount,
+        },
+        { transaction }
+      );
+      await escrowBid(bid, asset.collection, transaction);
+      await auction.update({ currentBidId: bid.id }, { transaction });
+
+      return { bid, outbid, asset };
+    }
+  );
+
+  if (outbid && outbid.bidderId !== user.id) {
+    try {
+      await handleNotification({
+        userId: outbid.bidderId,
+        title: "Outbid",
+        message: `Your bid on "${asset.name}" was outbid and has been released.`,
+        type: "ACTIVITY",
+      });
+    } catch (error) {
+      console.error(`Failed to send notification: ${error.message}`);
+    }
+  }
+
+  return {
+    id: bid.id,
+    message: "Bid placed successfully",
+  };
+};
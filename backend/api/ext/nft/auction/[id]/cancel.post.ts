@@ -0,0 +1,53 @@
+// backend/api/ext/nft/auction/[id]/cancel.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Cancel an NFT auction",
+  description:
+    "Cancels an auction of the authenticated user that has not received any bid.",
+  operationId: "cancelNftAuction",
+  tags: ["NFT", "Auctions"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the auction",
+      schema: { type: "string" },
+    },
+  ],
+  responses: updateRecordResponses("NFT Auction"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    const auction = await models.nftAuction.findOne({
+      where: { id: params.id, status: "ACTIVE" },
+      include: [{ model: models.nftAsset, as: "nftAsset" }],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!auction || auction.nftAsset.ownerId !== user.id) {
+      throw createError({ statusCode: 404, message: "Auction not found" });
+    }
+    if (auction.currentBidId) {
+      throw createError({
+        statusCode: 400,
+        message: "Auctions with bids cannot be cancelled",
+      });
+    }
+
+    await auction.update({ status: "CANCELLED" }, { transaction });
+  });
+
+  return { message: "Auction cancelled successfully" };
+};
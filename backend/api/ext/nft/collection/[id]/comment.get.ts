@@ -0,0 +1,51 @@
+// backend/api/ext/nft/collection/[id]/comment.get.ts
+
+import { models } from "@b/db";
+import { serverErrorResponse } from "@b/utils/query";
+import { baseCommentSchema, userAttributes } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "List comments of an NFT collection",
+  description: "Retrieves the comments of a collection, newest first.",
+  operationId: "listNftCollectionComments",
+  tags: ["NFT", "Comments"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Comments retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: { type: "object", properties: baseCommentSchema },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  return models.nftComment.findAll({
+    where: { collectionId: params.id },
+    include: [
+      {
+        model: models.user,
+        as: "user",
+        attributes: userAttributes,
+      },
+    ],
+    order: [["createdAt", "DESC"]],
+  });
+};
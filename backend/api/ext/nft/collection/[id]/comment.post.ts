@@ -0,0 +1,62 @@
+// backend/api/ext/nft/collection/[id]/comment.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Comment on an NFT collection",
+  description: "Adds a comment of the authenticated user to a collection.",
+  operationId: "createNftCollectionComment",
+  tags: ["NFT", "Comments"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            comment: { type: "string", description: "Content of the comment" },
+          },
+          required: ["comment"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Comment"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const collection = await models.nftCollection.findOne({
+    where: { id: params.id, status: true },
+  });
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  const comment = await models.nftComment.create({
+    collectionId: collection.id,
+    userId: user.id,
+    comment: body.comment,
+  });
+
+  return {
+    id: comment.id,
+    message: "Comment added successfully",
+  };
+};
@@ -0,0 +1,74 @@
+// backend/api/ext/nft/collection/[id]/follow.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Follow or unfollow an NFT collection",
+  description: "Toggles whether the authenticated user follows a collection.",
+  operationId: "toggleNftCollectionFollow",
+  tags: ["NFT", "Collections"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Follow toggled successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              following: { type: "boolean" },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("NFT Collection"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const collection = await models.nftCollection.findOne({
+    where: { id: params.id, status: true },
+  });
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  const follow = await models.nftFollow.findOne({
+    where: { collectionId: collection.id, followerId: user.id },
+  });
+
+  if (follow) {
+    await follow.destroy();
+    return { following: false, message: "Collection unfollowed" };
+  }
+
+  await models.nftFollow.create({
+    collectionId: collection.id,
+    followerId: user.id,
+  });
+  return { following: true, message: "Collection followed" };
+};
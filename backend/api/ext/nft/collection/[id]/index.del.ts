@@ -0,0 +1,47 @@
+// backend/api/ext/nft/collection/[id]/index.del.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { deleteRecordResponses } from "@b/utils/query";
+import { getCollectionOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Delete an NFT collection",
+  description: "Deletes an empty collection created by the authenticated user.",
+  operationId: "deleteNftCollection",
+  tags: ["NFT", "Collections"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  responses: deleteRecordResponses("NFT Collection"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const collection = await getCollectionOwnedBy(params.id, user.id);
+
+  const assets = await models.nftAsset.count({
+    where: { collectionId: collection.id },
+  });
+  if (assets > 0) {
+    throw createError({
+      statusCode: 400,
+      message: "Collections holding assets cannot be deleted",
+    });
+  }
+
+  await collection.destroy();
+
+  return { message: "Collection deleted successfully" };
+};
@@ -0,0 +1,99 @@
+// backend/api/ext/nft/collection/[id]/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import {
+  baseAssetSchema,
+  baseCollectionSchema,
+  userAttributes,
+} from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Get an NFT collection",
+  description:
+    "Retrieves a collection with its visible assets and follower count, and counts the view.",
+  operationId: "getNftCollection",
+  tags: ["NFT", "Collections"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT collection retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              ...baseCollectionSchema,
+              followers: { type: "number" },
+              following: { type: "boolean" },
+              nftAssets: {
+                type: "array",
+                items: { type: "object", properties: baseAssetSchema },
+              },
+            },
+          },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("NFT Collection"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+
+  const collection = await models.nftCollection.findOne({
+    where: { id: params.id, status: true },
+    include: [
+      {
+        model: models.user,
+        as: "creator",
+        attributes: userAttributes,
+      },
+      {
+        model: models.nftAsset,
+        as: "nftAssets",
+        where: { status: true },
+        required: false,
+        include: [
+          {
+            model: models.user,
+            as: "owner",
+            attributes: userAttributes,
+          },
+        ],
+      },
+    ],
+  });
+
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+
+  await collection.increment("views");
+
+  const [followers, following] = await Promise.all([
+    models.nftFollow.count({ where: { collectionId: collection.id } }),
+    user?.id
+      ? models.nftFollow.count({
+          where: { collectionId: collection.id, followerId: user.id },
+        })
+      : 0,
+  ]);
+
+  return {
+    ...collection.get({ plain: true }),
+    followers,
+    following: following > 0,
+  };
+};
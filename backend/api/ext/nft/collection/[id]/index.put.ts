@@ -0,0 +1,65 @@
+// backend/api/ext/nft/collection/[id]/index.put.ts
+
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { getCollectionOwnedBy } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Update an NFT collection",
+  description:
+    "Updates the presentation of a collection created by the authenticated user. The currency and wallet type of a collection cannot change.",
+  operationId: "updateNftCollection",
+  tags: ["NFT", "Collections"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the collection",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the collection" },
+            description: {
+              type: "string",
+              description: "Description of the collection",
+            },
+            image: { type: "string", description: "Image of the collection" },
+            links: {
+              type: "object",
+              description: "Links of the collection",
+            },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("NFT Collection"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const collection = await getCollectionOwnedBy(params.id, user.id);
+
+  const { name, description, image, links } = body;
+  await collection.update({
+    name,
+    description,
+    image,
+    links: links ? JSON.stringify(links) : undefined,
+  });
+
+  return { message: "Collection updated successfully" };
+};
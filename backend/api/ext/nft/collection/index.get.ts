@@ -0,0 +1,83 @@
+// backend/api/ext/nft/collection/index.get.ts
+
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { serverErrorResponse } from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import { baseCollectionSchema, userAttributes } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List NFT collections",
+  description:
+    "Retrieves the visible NFT collections, optionally filtered by creator, featured flag or name.",
+  operationId: "listNftCollections",
+  tags: ["NFT", "Collections"],
+  parameters: [
+    {
+      name: "creatorId",
+      in: "query",
+      description: "Only return collections of this creator",
+      schema: { type: "string" },
+    },
+    {
+      name: "featured",
+      in: "query",
+      description: "Only return featured collections",
+      schema: { type: "boolean" },
+    },
+    {
+      name: "search",
+      in: "query",
+      description: "Text searched in the collection name",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "NFT collections retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: baseCollectionSchema,
+            },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { creatorId, featured, search } = data.query;
+
+  const where: any = { status: true };
+  if (creatorId) where.creatorId = creatorId;
+  if (featured === "true") where.featured = true;
+  if (search) where.name = { [Op.like]: `%${search}%` };
+
+  try {
+    return await models.nftCollection.findAll({
+      where,
+      include: [
+        {
+          model: models.user,
+          as: "creator",
+          attributes: userAttributes,
+        },
+      ],
+      order: [
+        ["featured", "DESC"],
+        ["createdAt", "DESC"],
+      ],
+    });
+  } catch (error) {
+    throw createError({
+      statusCode: 500,
+      message: `Failed to retrieve NFT collections: ${error.message}`,
+    });
+  }
+};
@@ -0,0 +1,73 @@
+// backend/api/ext/nft/collection/index.post.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { createRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Create an NFT collection",
+  description:
+    "Creates an NFT collection owned by the authenticated user. Assets of the collection are traded in its currency and wallet type.",
+  operationId: "createNftCollection",
+  tags: ["NFT", "Collections"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Name of the collection" },
+            description: {
+              type: "string",
+              description: "Description of the collection",
+            },
+            image: { type: "string", description: "Image of the collection" },
+            chain: { type: "string", description: "Chain of the collection" },
+            currency: {
+              type: "string",
+              description: "Currency the collection is traded in",
+            },
+            walletType: {
+              type: "string",
+              description: "Wallet type the collection is traded from",
+              enum: ["FIAT", "SPOT", "ECO"],
+            },
+            links: {
+              type: "object",
+              description: "Links of the collection",
+            },
+          },
+          required: ["name", "description", "image", "currency", "walletType"],
+        },
+      },
+    },
+  },
+  responses: createRecordResponses("NFT Collection"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { name, description, image, chain, currency, walletType, links } = body;
+
+  const collection = await models.nftCollection.create({
+    creatorId: user.id,
+    name,
+    description,
+    image,
+    chain: chain || "ETH",
+    currency,
+    walletType,
+    links: links ? JSON.stringify(links) : undefined,
+  });
+
+  return {
+    id: collection.id,
+    message: "Collection created successfully",
+  };
+};
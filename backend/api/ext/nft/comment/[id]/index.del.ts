@@ -0,0 +1,41 @@
+// backend/api/ext/nft/comment/[id]/index.del.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { deleteRecordResponses } from "@b/utils/query";
+
+export const metadata: OperationObject = {
+  summary: "Delete an NFT comment",
+  description: "Deletes a comment written by the authenticated user.",
+  operationId: "deleteNftComment",
+  tags: ["NFT", "Comments"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the comment",
+      schema: { type: "string" },
+    },
+  ],
+  responses: deleteRecordResponses("NFT Comment"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, params } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const comment = await models.nftComment.findOne({
+    where: { id: params.id, userId: user.id },
+  });
+  if (!comment) {
+    throw createError({ statusCode: 404, message: "Comment not found" });
+  }
+
+  await comment.destroy();
+
+  return { message: "Comment deleted successfully" };
+};
@@ -0,0 +1,409 @@
+// backend/api/ext/nft/utils.ts
+
+import { Transaction } from "sequelize";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getWalletByUserIdAndCurrency } from "@b/utils/eco/wallet";
+import {
+  recordWalletChanges,
+  setWalletBalances,
+  WalletChange,
+} from "@b/utils/ledger";
+import {
+  baseBooleanSchema,
+  baseNumberSchema,
+  baseStringSchema,
+} from "@b/utils/schema";
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+const userSchema = {
+  type: "object",
+  properties: {
+    id: baseStringSchema("ID of the user"),
+    firstName: baseStringSchema("First name of the user"),
+    lastName: baseStringSchema("Last name of the user"),
+    avatar: baseStringSchema("Avatar of the user", 191, 0, true),
+  },
+};
+
+export const userAttributes = ["id", "firstName", "lastName", "avatar"];
+
+export const baseCollectionSchema = {
+  id: baseStringSchema("ID of the collection"),
+  creatorId: baseStringSchema("ID of the collection creator"),
+  name: baseStringSchema("Name of the collection"),
+  description: baseStringSchema("Description of the collection"),
+  chain: baseStringSchema("Chain of the collection"),
+  image: baseStringSchema("Image of the collection"),
+  currency: baseStringSchema("Currency the collection is traded in"),
+  walletType: baseStringSchema("Wallet type the collection is traded from"),
+  featured: baseBooleanSchema("Whether the collection is featured"),
+  views: baseNumberSchema("Number of views of the collection"),
+  links: baseStringSchema("Links of the collection", 5000, 0, true),
+  status: baseBooleanSchema("Whether the collection is visible"),
+  createdAt: baseStringSchema("Creation date of the collection"),
+  creator: userSchema,
+};
+
+export const baseAssetSchema = {
+  id: baseStringSchema("ID of the asset"),
+  collectionId: baseStringSchema("ID of the collection of the asset"),
+  ownerId: baseStringSchema("ID of the asset owner"),
+  name: baseStringSchema("Name of the asset"),
+  image: baseStringSchema("Image of the asset"),
+  attributes: baseStringSchema("Attributes of the asset", 5000, 0, true),
+  likes: baseNumberSchema("Number of likes of the asset"),
+  price: {
+    ...baseNumberSchema("Listing price, null when the asset is not listed"),
+    nullable: true,
+  },
+  royalty: baseNumberSchema("Royalty paid to the creator on resales, in %"),
+  featured: baseBooleanSchema("Whether the asset is featured"),
+  status: baseBooleanSchema("Whether the asset is visible"),
+  createdAt: baseStringSchema("Creation date of the asset"),
+  owner: userSchema,
+};
+
+export const baseAuctionSchema = {
+  id: baseStringSchema("ID of the auction"),
+  nftAssetId: baseStringSchema("ID of the auctioned asset"),
+  startTime: baseStringSchema("Start of the auction"),
+  endTime: baseStringSchema("End of the auction"),
+  startingBid: baseNumberSchema("Lowest accepted first bid"),
+  reservePrice: {
+    ...baseNumberSchema("Lowest price the asset is sold for"),
+    nullable: true,
+  },
+  currentBidId: {
+    ...baseStringSchema("ID of the highest bid"),
+    nullable: true,
+  },
+  status: baseStringSchema("Status of the auction"),
+};
+
+export const baseCommentSchema = {
+  id: baseStringSchema("ID of the comment"),
+  collectionId: baseStringSchema("ID of the commented collection"),
+  userId: baseStringSchema("ID of the comment author"),
+  comment: baseStringSchema("Content of the comment"),
+  createdAt: baseStringSchema("Creation date of the comment"),
+  user: userSchema,
+};
+
+export const baseTransactionSchema = {
+  id: baseStringSchema("ID of the transaction"),
+  nftAssetId: baseStringSchema("ID of the traded asset"),
+  sellerId: baseStringSchema("ID of the seller"),
+  buyerId: baseStringSchema("ID of the buyer"),
+  price: baseNumberSchema("Price the asset was traded at"),
+  transactionHash: baseStringSchema(
+    "On-chain hash of the transaction, empty for platform sales",
+    255,
+    0,
+    true
+  ),
+  type: baseStringSchema("PURCHASE for listings, SALE for auctions"),
+  status: baseStringSchema("Status of the transaction"),
+  createdAt: baseStringSchema("Date of the transaction"),
+};
+
+// Minimum raise over the current highest bid, in %
+export const MIN_BID_INCREMENT = 5;
+
+export async function getCollectionOwnedBy(id: string, userId: string) {
+  const collection = await models.nftCollection.findOne({ where: { id } });
+  if (!collection) {
+    throw createError({ statusCode: 404, message: "Collection not found" });
+  }
+  if (collection.creatorId !== userId) {
+    throw createError({
+      statusCode: 403,
+      message: "You are not the creator of this collection",
+    });
+  }
+  return collection;
+}
+
+export async function getAssetOwnedBy(id: string, userId: string) {
+  const asset = await models.nftAsset.findOne({
+    where: { id },
+    include: [{ model: models.nftCollection, as: "collection" }],
+  });
+  if (!asset) {
+    throw createError({ statusCode: 404, message: "Asset not found" });
+  }
+  if (asset.ownerId !== userId) {
+    throw createError({
+      statusCode: 403,
+      message: "You are not the owner of this asset",
+    });
+  }
+  return asset;
+}
+
+export async function getActiveAuction(
+  nftAssetId: string,
+  transaction?: Transaction
+) {
+  return models.nftAuction.findOne({
+    where: { nftAssetId, status: "ACTIVE" },
+    transaction,
+  });
+}
+
+async function getCollectionWallet(
+  userId: string,
+  collection: nftCollectionAttributes,
+  transaction: Transaction
+) {
+  return models.wallet.findOne({
+    where: {
+      userId,
+      type: collection.walletType,
+      currency: collection.currency,
+    },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+}
+
+// Wallet credited with sale proceeds and royalties, opened if needed
+async function getOrCreateCollectionWallet(
+  userId: string,
+  collection: nftCollectionAttributes,
+  transaction: Transaction
+) {
+  const wallet = await getCollectionWallet(userId, collection, transaction);
+  if (wallet) return wallet;
+
+  if (collection.walletType === "ECO") {
+    await getWalletByUserIdAndCurrency(userId, collection.currency);
+    return getCollectionWallet(userId, collection, transaction);
+  }
+
+  return models.wallet.create(
+    {
+      userId,
+      type: collection.walletType,
+      currency: collection.currency,
+      balance: 0,
+      inOrder: 0,
+      status: true,
+    },
+    { transaction }
+  );
+}
+
+/**
+ * Moves the amount of a bid from the available balance of the bidder into
+ * escrow, where it stays until the bid is outbid, declined or settled.
+ */
+export async function escrowBid(
+  bid: nftBidAttributes,
+  collection: nftCollectionAttributes,
+  transaction: Transaction
+) {
+  const wallet = await getCollectionWallet(
+    bid.bidderId,
+    collection,
+    transaction
+  );
+  if (!wallet || wallet.balance < bid.amount) {
+    throw createError({ statusCode: 400, message: "Insufficient balance" });
+  }
+
+  await setWalletBalances(
+    wallet,
+    {
+      balance: roundTo8DecimalPlaces(wallet.balance - bid.amount),
+      inOrder: roundTo8DecimalPlaces((wallet.inOrder || 0) + bid.amount),
+    },
+    {
+      account: "ORDER_ESCROW",
+      description: "NFT bid escrow",
+      referenceType: "nftBid",
+      referenceId: bid.id,
+    },
+    transaction
+  );
+}
+
+// Returns the escrowed amount of a bid to the bidder
+export async function releaseBid(
+  bid: nftBidAttributes,
+  collection: nftCollectionAttributes,
+  transaction: Transaction
+) {
+  const wallet = await getCollectionWallet(
+    bid.bidderId,
+    collection,
+    transaction
+  );
+  if (!wallet) {
+    throw new Error(`Wallet of bidder ${bid.bidderId} not found`);
+  }
+
+  await setWalletBalances(
+    wallet,
+    {
+      balance: roundTo8DecimalPlaces(wallet.balance + bid.amount),
+      inOrder: roundTo8DecimalPlaces(
+        Math.max(0, (wallet.inOrder || 0) - bid.amount)
+      ),
+    },
+    {
+      account: "ORDER_ESCROW",
+      description: "NFT bid release",
+      referenceType: "nftBid",
+      referenceId: bid.id,
+    },
+    transaction
+  );
+}
+
+/**
+ * Transfers an asset to its buyer and pays the seller. The price is taken from
+ * the escrow of the buyer for auctions and from their balance otherwise; on
+ * resales the collection creator receives the royalty of the asset.
+ */
+export async function settleNftSale(
+  {
+    asset,
+    collection,
+    buyerId,
+    price,
+    escrowed,
+  }: {
+    asset: any;
+    collection: nftCollectionAttributes;
+    buyerId: string;
+    price: number;
+    escrowed: boolean;
+  },
+  transaction: Transaction
+) {
+  const sellerId = asset.ownerId;
+  if (sellerId === buyerId) {
+    throw createError({
+      statusCode: 400,
+      message: "You already own this asset",
+    });
+  }
+
+  const buyerWallet = await getCollectionWallet(
+    buyerId,
+    collection,
+    transaction
+  );
+  // Balances before the sale, journaled as one transfer once it is recorded
+  const changes: WalletChange[] = [];
+  const track = (wallet: walletAttributes) =>
+    changes.push({
+      wallet,
+      previous: { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+    });
+
+  if (escrowed) {
+    if (!buyerWallet || (buyerWallet.inOrder || 0) < price) {
+      throw new Error(`Escrow of buyer ${buyerId} does not cover ${price}`);
+    }
+    track(buyerWallet);
+    await buyerWallet.update(
+      { inOrder: roundTo8DecimalPlaces(buyerWallet.inOrder - price) },
+      { transaction }
+    );
+  } else {
+    if (!buyerWallet || buyerWallet.balance < price) {
+      throw createError({ statusCode: 400, message: "Insufficient balance" });
+    }
+    track(buyerWallet);
+    await buyerWallet.update(
+      { balance: roundTo8DecimalPlaces(buyerWallet.balance - price) },
+      { transaction }
+    );
+  }
+
+  const royalty =
+    asset.royalty && sellerId !== collection.creatorId
+      ? roundTo8DecimalPlaces((price * asset.royalty) / 100)
+      : 0;
+  const proceeds = roundTo8DecimalPlaces(price - royalty);
+
+  const sellerWallet = await getOrCreateCollectionWallet(
+    sellerId,
+    collection,
+    transaction
+  );
+  track(sellerWallet);
+  await sellerWallet.update(
+    { balance: roundTo8DecimalPlaces(sellerWallet.balance + proceeds) },
+    { transaction }
+  );
+
+  if (royalty > 0) {
+    const creatorWallet = await getOrCreateCollectionWallet(
+      collection.creatorId,
+      collection,
+      transaction
+    );
+    track(creatorWallet);
+    await creatorWallet.update(
+      { balance: roundTo8DecimalPlaces(creatorWallet.balance + royalty) },
+      { transaction }
+    );
+  }
+
+  await asset.update({ ownerId: buyerId, price: null }, { transaction });
+
+  const nftTransaction = await models.nftTransaction.create(
+    {
+      nftAssetId: asset.id,
+      sellerId,
+      buyerId,
+      price,
+      // Sales settle between platform wallets, so there is no on-chain hash
+      type: escrowed ? "SALE" : "PURCHASE",
+      status: "COMPLETED",
+    },
+    { transaction }
+  );
+
+  await recordWalletChanges(
+    changes,
+    {
+      description: `Sale of NFT ${asset.name}`,
+      referenceType: "nftTransaction",
+      referenceId: nftTransaction.id,
+    },
+    transaction
+  );
+
+  await models.transaction.bulkCreate(
+    [
+      {
+        userId: buyerId,
+        walletId: buyerWallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: price,
+        description: `Purchase of NFT ${asset.name} for ${price} ${collection.currency}`,
+        referenceId: nftTransaction.id,
+      },
+      {
+        userId: sellerId,
+        walletId: sellerWallet.id,
+        type: "INCOMING_TRANSFER",
+        status: "COMPLETED",
+        amount: proceeds,
+        fee: royalty,
+        description: `Sale of NFT ${asset.name} for ${price} ${collection.currency}`,
+        referenceId: nftTransaction.id,
+      },
+    ],
+    { transaction }
+  );
+
+  return nftTransaction;
+}
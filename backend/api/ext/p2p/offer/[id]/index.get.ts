@@ -6,6 +6,7 @@ import {
 } from "@b/utils/query";
 import { baseP2pOfferSchema } from "../utils";
 import { models } from "@b/db";
+import { getP2pUserStats } from "../../trade/utils";
 
 export const metadata: OperationObject = {
   summary: "Retrieves detailed information of a specific P2P Offer by ID",
@@ -42,7 +43,7 @@ export const metadata: OperationObject = {
 export default async (data) => {
   const { params } = data;
 
-  return await getRecord("p2pOffer", params.id, [
+  const offer: any = await getRecord("p2pOffer", params.id, [
     {
       model: models.p2pTrade,
       as: "p2pTrades",
@@ -70,4 +71,11 @@ export default async (data) => {
       ],
     },
   ]);
+
+  // Lets buyers judge the seller's track record before trading
+  if (offer.user) {
+    offer.user.stats = await getP2pUserStats(offer.userId);
+  }
+
+  return offer;
 };
@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 
 export const metadata: OperationObject = {
   summary: "Deposits funds to a P2P offer",
@@ -86,6 +87,7 @@ export default async (data: Handler) => {
         currency: offer.currency,
       },
       transaction,
+      lock: transaction.LOCK.UPDATE,
     });
 
     if (!wallet) {
@@ -96,14 +98,16 @@ export default async (data: Handler) => {
       throw new Error("Insufficient funds");
     }
 
-    const balance = wallet.balance - body.amount;
-    await wallet.update(
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance - body.amount },
       {
-        balance,
+        account: "ORDER_ESCROW",
+        description: "Funds moved into a P2P offer",
+        referenceType: "p2pOffer",
+        referenceId: offer.id,
       },
-      {
-        transaction,
-      }
+      transaction
     );
 
     await offer.update(
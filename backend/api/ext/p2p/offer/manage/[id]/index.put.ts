@@ -37,6 +37,7 @@ export default async (data) => {
     minAmount: body.minAmount,
     maxAmount: body.maxAmount,
     price: body.price,
+    paymentWindow: body.paymentWindow,
   };
 
   return await updateRecord("p2pOffer", id, updatedFields);
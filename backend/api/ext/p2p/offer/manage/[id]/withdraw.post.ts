@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 
 export const metadata: OperationObject = {
   summary: "Withdraws an amount from an existing P2P offer",
@@ -93,20 +94,23 @@ export default async (data: Handler) => {
         currency: offer.currency,
       },
       transaction,
+      lock: transaction.LOCK.UPDATE,
     });
 
     if (!wallet) {
       throw new Error("Wallet not found");
     }
 
-    const balance = wallet.balance + body.amount;
-    await wallet.update(
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance + body.amount },
       {
-        balance,
+        account: "ORDER_ESCROW",
+        description: "Funds withdrawn from a P2P offer",
+        referenceType: "p2pOffer",
+        referenceId: offer.id,
       },
-      {
-        transaction,
-      }
+      transaction
     );
 
     const amount = offer.amount - body.amount;
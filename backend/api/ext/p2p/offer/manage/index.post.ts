@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { requireKycFeature } from "@b/utils/kycTiers";
 
 export const metadata: OperationObject = {
   summary: "Creates a new P2P offer",
@@ -37,6 +38,11 @@ export const metadata: OperationObject = {
               type: "number",
               description: "Maximum transaction amount",
             },
+            paymentWindow: {
+              type: "number",
+              description:
+                "Minutes a buyer has to pay before the trade is cancelled",
+            },
           },
           required: [
             "walletType",
@@ -82,6 +88,8 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  await requireKycFeature(user.id, "p2p");
+
   let currency;
   switch (body.walletType) {
     case "FIAT":
@@ -124,6 +132,7 @@ export default async (data: Handler) => {
       paymentMethodId: body.paymentMethodId,
       minAmount: body.minAmount,
       maxAmount: body.maxAmount,
+      ...(body.paymentWindow && { paymentWindow: body.paymentWindow }),
     };
 
     // Create the offer
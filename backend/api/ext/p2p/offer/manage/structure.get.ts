@@ -95,6 +95,14 @@ export const p2pOfferStructure = async (userId: string) => {
     ts: "number",
   };
 
+  const paymentWindow = {
+    type: "input",
+    label: "Payment Window (minutes)",
+    name: "paymentWindow",
+    placeholder: "Minutes the buyer has to pay",
+    ts: "number",
+  };
+
   const inOrder = {
     type: "input",
     label: "In Order",
@@ -135,6 +143,7 @@ export const p2pOfferStructure = async (userId: string) => {
     inOrder,
     price,
     paymentMethodId,
+    paymentWindow,
     status,
   };
 };
@@ -152,6 +161,7 @@ export default async (data: Handler) => {
     maxAmount,
     price,
     paymentMethodId,
+    paymentWindow,
     status,
   } = await p2pOfferStructure(user.id);
 
@@ -160,13 +170,20 @@ export default async (data: Handler) => {
       [walletType, chain, currency],
       [paymentMethodId, price],
       [minAmount, maxAmount],
+      paymentWindow,
       status,
     ],
     set: [
       [walletType, chain, currency],
       [paymentMethodId, price],
       [minAmount, maxAmount],
+      paymentWindow,
+    ],
+    edit: [
+      [paymentMethodId, price],
+      [minAmount, maxAmount],
+      paymentWindow,
+      status,
     ],
-    edit: [[paymentMethodId, price], [minAmount, maxAmount], status],
   };
 };
@@ -1,13 +1,10 @@
-import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
-import { sendP2PTradeCancellationEmail } from "../utils";
+import { handleTradeCancellation } from "../utils";
 import {
   unauthorizedResponse,
   notFoundMetadataResponse,
   serverErrorResponse,
 } from "@b/utils/query";
-import { sendMessageToRoute } from "@b/handler/Websocket";
-import { handleNotification } from "@b/utils/notifications";
 
 export const metadata: OperationObject = {
   summary: "Cancels a P2P trade",
@@ -67,97 +64,3 @@ export default async (data: Handler) => {
     }
   }
 };
-
-export async function handleTradeCancellation(id: string, isAdmin = false) {
-  const trade = await models.p2pTrade.findOne({
-    where: { id },
-    include: [
-      { model: models.p2pOffer, as: "offer" },
-      {
-        model: models.user,
-        as: "user",
-        attributes: ["id", "email", "firstName", "lastName"],
-      },
-      {
-        model: models.user,
-        as: "seller",
-        attributes: ["id", "email", "firstName", "lastName"],
-      },
-    ],
-  });
-  if (!trade) throw new Error("Trade not found");
-
-  await sequelize.transaction(async (transaction) => {
-    if (trade.status !== "PENDING" && !isAdmin)
-      throw new Error("Trade can only be cancelled if it is pending");
-
-    await models.p2pOffer.update(
-      {
-        inOrder: sequelize.literal(`inOrder - ${trade.amount}`),
-      },
-      {
-        where: { id: trade.offerId },
-        transaction,
-      }
-    );
-
-    await trade.update(
-      {
-        status: "CANCELLED",
-      },
-      {
-        transaction,
-      }
-    );
-
-    await models.p2pDispute.destroy({
-      where: { tradeId: trade.id },
-      transaction,
-    });
-
-    await models.p2pCommission.destroy({
-      where: { tradeId: trade.id },
-      transaction,
-    });
-
-    await models.p2pEscrow.destroy({
-      where: { tradeId: trade.id },
-      transaction,
-    });
-  });
-
-  try {
-    const user = trade.user;
-    const seller = trade.seller;
-    await sendP2PTradeCancellationEmail(user, trade);
-    await sendP2PTradeCancellationEmail(seller, trade);
-    await handleNotification({
-      userId: trade.userId,
-      title: "Trade Cancelled",
-      message: `Trade #${trade.id} has been cancelled`,
-      type: "ACTIVITY",
-    });
-    await handleNotification({
-      userId: trade.sellerId,
-      title: "Trade Cancelled",
-      message: `Trade #${trade.id} has been cancelled`,
-      type: "ACTIVITY",
-    });
-  } catch (error) {
-    throw new Error("Failed to send email");
-  }
-
-  sendMessageToRoute(
-    `/api/ext/p2p/trade`,
-    { id },
-    {
-      method: "update",
-      data: {
-        status: trade.status,
-        updatedAt: new Date(),
-      },
-    }
-  );
-
-  return { id: trade.id, status: trade.status };
-}
@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendP2PTradeCompletionEmail } from "../utils";
 import { processRewards } from "@b/utils/affiliate";
 import { getTokenContractAddress } from "@b/utils/eco/tokens";
@@ -94,10 +95,11 @@ export async function handleTradeRelease(id: string, user: any = null) {
     if (!trade)
       throw createError({ statusCode: 404, message: "Trade not found" });
 
-    if (!["PAID", "DISPUTE_OPEN"].includes(trade.status))
+    if (!["PAID", "DISPUTE_OPEN", "ESCROW_REVIEW"].includes(trade.status))
       throw createError({
         statusCode: 400,
-        message: "Trade can only be released if it is paid or in dispute",
+        message:
+          "Trade can only be released if it is paid, in dispute or under escrow review",
       });
 
     const userId = trade.sellerId;
@@ -170,10 +172,20 @@ export async function handleTradeRelease(id: string, user: any = null) {
     ) {
       commission = (trade.amount * Number(commissionPercentage.value)) / 100;
     }
-    const balance = wallet.balance + trade.amount - commission;
     const commissionedAmount = trade.amount - commission;
 
-    await wallet.update({ balance: balance }, { transaction });
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance + commissionedAmount },
+      {
+        account: "ORDER_ESCROW",
+        fee: commission,
+        description: "P2P trade release",
+        referenceType: "p2pTrade",
+        referenceId: trade.id,
+      },
+      transaction
+    );
 
     if (
       trade.offer.walletType === "ECO" &&
@@ -1,6 +1,10 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
-import { sendP2PTradePaymentConfirmationEmail } from "../utils";
+import {
+  addMinutes,
+  getP2pReleaseWindow,
+  sendP2PTradePaymentConfirmationEmail,
+} from "../utils";
 import {
   unauthorizedResponse,
   notFoundMetadataResponse,
@@ -12,7 +16,7 @@ import { handleNotification } from "@b/utils/notifications";
 export const metadata: OperationObject = {
   summary: "Marks a P2P trade as paid",
   description:
-    "Updates the status of a P2P trade to paid after payment confirmation.",
+    "Updates the status of a P2P trade to paid after payment confirmation. The seller must then release within the release window, otherwise the trade is escalated to escrow review.",
   operationId: "markTradeAsPaid",
   tags: ["P2P", "Trade"],
   requiresAuth: true,
@@ -55,6 +59,11 @@ export const metadata: OperationObject = {
                 type: "string",
                 description: "Transaction hash of the payment",
               },
+              releaseDeadline: {
+                type: "string",
+                format: "date-time",
+                description: "Time by which the seller must release",
+              },
             },
           },
         },
@@ -102,6 +111,7 @@ async function handleTradePayment(id: string, userId: string, txHash: string) {
         },
       ],
       transaction,
+      lock: transaction.LOCK.UPDATE,
     });
 
     if (!trade)
@@ -112,10 +122,18 @@ async function handleTradePayment(id: string, userId: string, txHash: string) {
         message: "Trade can only be marked as paid if it is pending",
       });
 
+    if (trade.paymentDeadline && new Date(trade.paymentDeadline) <= new Date())
+      throw createError({
+        statusCode: 400,
+        message: "The payment window for this trade has expired",
+      });
+
+    const releaseDeadline = addMinutes(new Date(), await getP2pReleaseWindow());
     await trade.update(
       {
         status: "PAID",
         txHash,
+        releaseDeadline,
       },
       {
         transaction,
@@ -144,11 +162,13 @@ async function handleTradePayment(id: string, userId: string, txHash: string) {
         data: {
           status: "PAID",
           txHash,
+          releaseDeadline,
+          serverTime: new Date(),
           updatedAt: new Date(),
         },
       }
     );
 
-    return { id: trade.id, status: "PAID", txHash };
+    return { id: trade.id, status: "PAID", txHash, releaseDeadline };
   });
 }
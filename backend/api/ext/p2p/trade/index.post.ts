@@ -1,6 +1,8 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { requireKycFeature } from "@b/utils/kycTiers";
 import {
+  addMinutes,
   sendP2PTradeSaleConfirmationEmail,
   sendP2POfferAmountDepletionEmail,
 } from "./utils";
@@ -13,7 +15,8 @@ import { handleNotification } from "@b/utils/notifications";
 
 export const metadata: OperationObject = {
   summary: "Initiates a new P2P trade",
-  description: "Creates a new trade for a specified offer by a user.",
+  description:
+    "Creates a new trade for a specified offer by a user. The buyer must pay within the offer's payment window, otherwise the trade is cancelled and the escrowed amount returns to the offer.",
   operationId: "createUserTrade",
   tags: ["P2P", "Trade"],
   requiresAuth: true,
@@ -45,6 +48,11 @@ export const metadata: OperationObject = {
                 type: "string",
                 description: "Current status of the trade",
               },
+              paymentDeadline: {
+                type: "string",
+                format: "date-time",
+                description: "Time by which the buyer must pay",
+              },
             },
           },
         },
@@ -62,6 +70,8 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 401, message: "Unauthorized" });
   }
 
+  await requireKycFeature(user.id, "p2p");
+
   const { offerId, amount } = body;
 
   if (!offerId || !amount) {
@@ -97,6 +107,7 @@ export default async (data: Handler) => {
         offerId,
         amount,
         status: "PENDING",
+        paymentDeadline: addMinutes(new Date(), offer.paymentWindow),
       },
       { transaction }
     );
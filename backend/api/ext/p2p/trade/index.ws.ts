@@ -1,7 +1,7 @@
 import { models } from "@b/db";
 import { sendMessageToRoute } from "@b/handler/Websocket";
 import { createError } from "@b/utils/error";
-import { sendP2PTradeReplyEmail } from "./utils";
+import { sendP2PTradeDeadlines, sendP2PTradeReplyEmail } from "./utils";
 
 export const metadata: any = {};
 
@@ -44,7 +44,13 @@ export default async (data: Handler, parsedMessage) => {
     throw createError({ statusCode: 400, message: "Ticket is cancelled" });
   }
 
-  if (!payload.message) return;
+  // Subscribing without a message syncs the client's countdowns
+  if (!payload.message) {
+    if (["PENDING", "PAID"].includes(trade.status)) {
+      sendP2PTradeDeadlines(trade);
+    }
+    return;
+  }
   const { type, time, userId } = payload.message;
 
   // Validate message structure
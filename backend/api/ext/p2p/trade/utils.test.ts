@@ -0,0 +1,71 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { getP2pUserStats } from "./utils";
+
+jest.mock("@b/db", () => ({ models: { p2pTrade: { count: jest.fn() } } }));
+jest.mock("@b/utils/emails", () => ({}));
+jest.mock("@b/utils/cache", () => ({}));
+jest.mock("@b/utils/notifications", () => ({}));
+jest.mock("@b/handler/Websocket", () => ({}));
+
+// Counts the completed trades and the no-shows of the user
+function setCounts(completed: number, noShows: number) {
+  (models.p2pTrade.count as jest.Mock).mockImplementation(async ({ where }) =>
+    where.status === "COMPLETED" ? completed : noShows
+  );
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("getP2pUserStats", () => {
+  it("counts completed trades on either side and no-shows as a buyer", async () => {
+    setCounts(3, 1);
+
+    await expect(getP2pUserStats("user-1")).resolves.toEqual({
+      completedTrades: 3,
+      noShows: 1,
+      completionRate: 75,
+    });
+    expect(models.p2pTrade.count).toHaveBeenCalledWith({
+      where: {
+        status: "COMPLETED",
+        [Op.or]: [{ userId: "user-1" }, { sellerId: "user-1" }],
+      },
+    });
+    expect(models.p2pTrade.count).toHaveBeenCalledWith({
+      where: {
+        userId: "user-1",
+        status: "CANCELLED",
+        cancelReason: "PAYMENT_TIMEOUT",
+      },
+    });
+  });
+
+  it("rounds the completion rate to two decimals", async () => {
+    setCounts(2, 1);
+
+    await expect(getP2pUserStats("user-1")).resolves.toMatchObject({
+      completionRate: 66.67,
+    });
+  });
+
+  it("has no completion rate before any trade settles", async () => {
+    setCounts(0, 0);
+
+    await expect(getP2pUserStats("user-1")).resolves.toEqual({
+      completedTrades: 0,
+      noShows: 0,
+      completionRate: null,
+    });
+  });
+
+  it("drops to zero for a user who never paid", async () => {
+    setCounts(0, 2);
+
+    await expect(getP2pUserStats("user-1")).resolves.toMatchObject({
+      completionRate: 0,
+    });
+  });
+});
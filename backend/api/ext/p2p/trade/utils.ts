@@ -1,4 +1,9 @@
+import { models, sequelize } from "@b/db";
 import { emailQueue } from "@b/utils/emails";
+import { CacheManager } from "@b/utils/cache";
+import { handleNotification } from "@b/utils/notifications";
+import { sendMessageToRoute } from "@b/handler/Websocket";
+import { Op } from "sequelize";
 import {
   baseStringSchema,
   baseNumberSchema,
@@ -29,6 +34,19 @@ const messages = baseStringSchema(
   true
 );
 const txHash = baseStringSchema("Transaction hash if applicable", 255, 0, true);
+const paymentDeadline = baseDateTimeSchema(
+  "Time by which the buyer must pay before the trade is cancelled",
+  true
+);
+const releaseDeadline = baseDateTimeSchema(
+  "Time by which the seller must release before the trade goes to escrow review",
+  true
+);
+const cancelReason = baseEnumSchema("Why the trade was cancelled", [
+  "USER",
+  "ADMIN",
+  "PAYMENT_TIMEOUT",
+]);
 const createdAt = baseDateTimeSchema("Creation date of the trade");
 const updatedAt = baseDateTimeSchema("Last update date of the trade");
 
@@ -41,6 +59,9 @@ export const p2pTradeSchema = {
   status,
   messages,
   txHash,
+  paymentDeadline,
+  releaseDeadline,
+  cancelReason,
   createdAt,
   updatedAt,
 };
@@ -54,6 +75,9 @@ export const baseP2pTradeSchema = {
   status,
   messages,
   txHash,
+  paymentDeadline,
+  releaseDeadline,
+  cancelReason,
   createdAt,
   updatedAt,
   deletedAt: baseDateTimeSchema("Deletion date of the trade, if any"),
@@ -81,6 +105,186 @@ export const p2pTradeStoreSchema = {
   },
 };
 
+// Minutes a seller has to release once the buyer marked the trade as paid
+export const DEFAULT_P2P_RELEASE_WINDOW = 60;
+
+export async function getP2pReleaseWindow(): Promise<number> {
+  const value = Number(
+    await CacheManager.getInstance().getSetting("p2pReleaseWindow")
+  );
+  return value > 0 ? value : DEFAULT_P2P_RELEASE_WINDOW;
+}
+
+export function addMinutes(date: Date, minutes: number) {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Pushes a trade's status and deadlines to its subscribers. The server time is
+ * included so clients can correct their countdowns for clock drift.
+ */
+export function sendP2PTradeDeadlines(trade: p2pTradeAttributes) {
+  sendMessageToRoute(
+    `/api/ext/p2p/trade`,
+    { id: trade.id },
+    {
+      method: "update",
+      data: {
+        status: trade.status,
+        paymentDeadline: trade.paymentDeadline || null,
+        releaseDeadline: trade.releaseDeadline || null,
+        serverTime: new Date(),
+        updatedAt: new Date(),
+      },
+    }
+  );
+}
+
+/**
+ * Summarises a user's P2P track record. Trades a buyer let expire without
+ * paying count as failed, so repeated no-shows lower the completion rate.
+ */
+export async function getP2pUserStats(userId: string) {
+  const [completedTrades, noShows] = await Promise.all([
+    models.p2pTrade.count({
+      where: {
+        status: "COMPLETED",
+        [Op.or]: [{ userId }, { sellerId: userId }],
+      },
+    }),
+    models.p2pTrade.count({
+      where: { userId, status: "CANCELLED", cancelReason: "PAYMENT_TIMEOUT" },
+    }),
+  ]);
+
+  const settledTrades = completedTrades + noShows;
+  return {
+    completedTrades,
+    noShows,
+    completionRate:
+      settledTrades > 0
+        ? Math.round((completedTrades / settledTrades) * 10000) / 100
+        : null,
+  };
+}
+
+/**
+ * Cancels a trade and returns its escrowed amount to the offer. Users can only
+ * cancel pending trades, admins can cancel them in any state.
+ */
+export async function handleTradeCancellation(
+  id: string,
+  isAdmin = false,
+  reason: p2pTradeAttributes["cancelReason"] = isAdmin ? "ADMIN" : "USER"
+) {
+  const trade = await models.p2pTrade.findOne({
+    where: { id },
+    include: [
+      { model: models.p2pOffer, as: "offer" },
+      {
+        model: models.user,
+        as: "user",
+        attributes: ["id", "email", "firstName", "lastName"],
+      },
+      {
+        model: models.user,
+        as: "seller",
+        attributes: ["id", "email", "firstName", "lastName"],
+      },
+    ],
+  });
+  if (!trade) throw new Error("Trade not found");
+
+  await sequelize.transaction(async (transaction) => {
+    // Re-read under lock so a trade marked as paid meanwhile isn't cancelled
+    const current = await models.p2pTrade.findByPk(trade.id, {
+      attributes: ["status"],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (current?.status !== "PENDING" && !isAdmin)
+      throw new Error("Trade can only be cancelled if it is pending");
+
+    // Return the escrowed amount to the offer, reopening it if the trade
+    // had taken up all that was left
+    await models.p2pOffer.update(
+      {
+        inOrder: sequelize.literal(`inOrder - ${trade.amount}`),
+        ...(trade.offer?.status === "COMPLETED" && { status: "ACTIVE" }),
+      },
+      {
+        where: { id: trade.offerId },
+        transaction,
+      }
+    );
+
+    await trade.update(
+      {
+        status: "CANCELLED",
+        cancelReason: reason,
+      },
+      {
+        transaction,
+      }
+    );
+
+    await models.p2pDispute.destroy({
+      where: { tradeId: trade.id },
+      transaction,
+    });
+
+    await models.p2pCommission.destroy({
+      where: { tradeId: trade.id },
+      transaction,
+    });
+
+    await models.p2pEscrow.destroy({
+      where: { tradeId: trade.id },
+      transaction,
+    });
+  });
+
+  try {
+    const user = trade.user;
+    const seller = trade.seller;
+    const message =
+      reason === "PAYMENT_TIMEOUT"
+        ? `Trade #${trade.id} has been cancelled because the payment window expired`
+        : `Trade #${trade.id} has been cancelled`;
+    await sendP2PTradeCancellationEmail(user, trade);
+    await sendP2PTradeCancellationEmail(seller, trade);
+    await handleNotification({
+      userId: trade.userId,
+      title: "Trade Cancelled",
+      message,
+      type: "ACTIVITY",
+    });
+    await handleNotification({
+      userId: trade.sellerId,
+      title: "Trade Cancelled",
+      message,
+      type: "ACTIVITY",
+    });
+  } catch (error) {
+    throw new Error("Failed to send email");
+  }
+
+  sendMessageToRoute(
+    `/api/ext/p2p/trade`,
+    { id },
+    {
+      method: "update",
+      data: {
+        status: trade.status,
+        cancelReason: reason,
+        updatedAt: new Date(),
+      },
+    }
+  );
+
+  return { id: trade.id, status: trade.status };
+}
+
 export async function sendP2PTradeSaleConfirmationEmail(
   seller,
   buyer,
@@ -0,0 +1,49 @@
+// backend/api/ext/payment/intent/[id]/cancel.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { updateRecordResponses } from "@b/utils/query";
+import { getMerchantPaymentIntent, scheduleIpn } from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Cancel a payment intent",
+  description:
+    "Marks a pending payment intent of the merchant as failed so it can no longer be paid.",
+  operationId: "cancelPaymentIntent",
+  tags: ["Payment", "Merchant"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: updateRecordResponses("Payment Intent"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+  const { id } = await getMerchantPaymentIntent(data, params.id);
+
+  await sequelize.transaction(async (transaction) => {
+    const intent = await models.paymentIntent.findOne({
+      where: { id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (intent.status !== "PENDING") {
+      throw createError({
+        statusCode: 400,
+        message: `Payment intent is already ${intent.status.toLowerCase()}`,
+      });
+    }
+
+    await intent.update({ status: "FAILED" }, { transaction });
+    await scheduleIpn(intent, transaction);
+  });
+
+  return { message: "Payment intent cancelled successfully" };
+};
@@ -0,0 +1,71 @@
+// backend/api/ext/payment/intent/[id]/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { notFoundMetadataResponse, serverErrorResponse } from "@b/utils/query";
+import {
+  basePaymentIntentSchema,
+  publicPaymentIntentAttributes,
+} from "../../utils";
+
+export const metadata: OperationObject = {
+  summary: "Get a payment intent",
+  description:
+    "Retrieves the details of a payment intent shown on the hosted checkout.",
+  operationId: "getPaymentIntent",
+  tags: ["Payment"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Payment intent retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: basePaymentIntentSchema,
+          },
+        },
+      },
+    },
+    404: notFoundMetadataResponse("Payment Intent"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { params } = data;
+
+  const intent = await models.paymentIntent.findOne({
+    where: { id: params.id },
+    attributes: publicPaymentIntentAttributes,
+    include: [
+      {
+        model: models.paymentIntentProduct,
+        as: "products",
+        attributes: [
+          "id",
+          "name",
+          "image",
+          "quantity",
+          "price",
+          "currency",
+          "sku",
+        ],
+      },
+    ],
+  });
+
+  if (!intent) {
+    throw createError({ statusCode: 404, message: "Payment intent not found" });
+  }
+
+  return intent.get({ plain: true });
+};
@@ -0,0 +1,198 @@
+// backend/api/ext/payment/intent/[id]/refund.post.ts
+
+import { models, sequelize } from "@b/db";
+import { recordWalletChanges } from "@b/utils/ledger";
+import { createError } from "@b/utils/error";
+import { handleNotification } from "@b/utils/notifications";
+import { updateRecordResponses } from "@b/utils/query";
+import {
+  getMerchantPaymentIntent,
+  getMerchantWallet,
+  getPaymentIntentTotal,
+  scheduleIpn,
+} from "../../utils";
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+export const metadata: OperationObject = {
+  summary: "Refund a payment intent",
+  description:
+    "Refunds all or part of a completed payment from the merchant wallet. The customer is credited the matching share of what they paid, in the currency of the wallet they paid from.",
+  operationId: "refundPaymentIntent",
+  tags: ["Payment", "Merchant"],
+  parameters: [
+    {
+      name: "id",
+      in: "path",
+      required: true,
+      description: "ID of the payment intent",
+      schema: { type: "string" },
+    },
+  ],
+  requestBody: {
+    required: false,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: {
+              type: "number",
+              description:
+                "Amount to refund in the intent currency, the remaining total by default",
+            },
+            reason: { type: "string", description: "Reason of the refund" },
+          },
+        },
+      },
+    },
+  },
+  responses: updateRecordResponses("Payment Intent"),
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { params, body } = data;
+  const { id } = await getMerchantPaymentIntent(data, params.id);
+
+  const { intent, refund } = await sequelize.transaction(
+    async (transaction) => {
+      const intent = await models.paymentIntent.findOne({
+        where: { id },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (intent.status !== "COMPLETED") {
+        throw createError({
+          statusCode: 400,
+          message: "Only completed payments can be refunded",
+        });
+      }
+
+      const total = getPaymentIntentTotal(intent);
+      const refundable = roundTo8DecimalPlaces(total - intent.refundedAmount);
+      const refund =
+        body?.amount !== undefined
+          ? roundTo8DecimalPlaces(Number(body.amount))
+          : refundable;
+      if (!(refund > 0) || refund > refundable) {
+        throw createError({
+          statusCode: 400,
+          message: `Refund must be between 0 and ${refundable}`,
+        });
+      }
+
+      const merchantWallet = await getMerchantWallet(intent, transaction);
+      if (merchantWallet.balance < refund) {
+        throw createError({
+          statusCode: 400,
+          message: "Insufficient merchant balance",
+        });
+      }
+
+      const payment = await models.transaction.findOne({
+        where: { id: intent.transactionId },
+        transaction,
+      });
+      const customerWallet = await models.wallet.findOne({
+        where: { id: intent.walletId },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (!payment || !customerWallet) {
+        throw createError({
+          statusCode: 404,
+          message: "Original payment not found",
+        });
+      }
+      const credit = roundTo8DecimalPlaces((payment.amount * refund) / total);
+
+      const merchantPrevious = {
+        balance: merchantWallet.balance,
+        inOrder: merchantWallet.inOrder || 0,
+      };
+      const customerPrevious = {
+        balance: customerWallet.balance,
+        inOrder: customerWallet.inOrder || 0,
+      };
+      await merchantWallet.update(
+        { balance: roundTo8DecimalPlaces(merchantWallet.balance - refund) },
+        { transaction }
+      );
+      await customerWallet.update(
+        { balance: roundTo8DecimalPlaces(customerWallet.balance + credit) },
+        { transaction }
+      );
+      await recordWalletChanges(
+        [
+          { wallet: merchantWallet, previous: merchantPrevious },
+          { wallet: customerWallet, previous: customerPrevious },
+        ],
+        {
+          account: "EXCHANGE",
+          description: "Payment intent refund",
+          referenceType: "paymentIntent",
+          referenceId: intent.id,
+        },
+        transaction
+      );
+
+      const reason = body?.reason ? `: ${body.reason}` : "";
+      await models.transaction.bulkCreate(
+        [
+          {
+            userId: intent.merchantId,
+            walletId: merchantWallet.id,
+            type: "REFUND",
+            status: "COMPLETED",
+            amount: refund,
+            description: `Refund issued for payment ${intent.id}${reason}`,
+            referenceId: intent.id,
+          },
+          {
+            userId: intent.userId,
+            walletId: customerWallet.id,
+            type: "REFUND",
+            status: "COMPLETED",
+            amount: credit,
+            description: `Refund of payment ${intent.id}${reason}`,
+            referenceId: intent.id,
+          },
+        ],
+        { transaction }
+      );
+
+      const refundedAmount = roundTo8DecimalPlaces(
+        intent.refundedAmount + refund
+      );
+      await intent.update(
+        {
+          refundedAmount,
+          status: refundedAmount >= total ? "REFUNDED" : "COMPLETED",
+        },
+        { transaction }
+      );
+      await scheduleIpn(intent, transaction);
+
+      return { intent, refund: credit };
+    }
+  );
+
+  try {
+    await handleNotification({
+      userId: intent.userId,
+      title: "Payment Refunded",
+      message: `You have been refunded for payment ${intent.id}.`,
+      type: "ACTIVITY",
+    });
+  } catch (error) {
+    console.error(`Failed to send notification: ${error.message}`);
+  }
+
+  return {
+    message: "Payment refunded successfully",
+    refundedAmount: intent.refundedAmount,
+    credited: refund,
+  };
+};
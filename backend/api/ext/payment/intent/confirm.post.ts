@@ -0,0 +1,215 @@
+// backend/api/ext/payment/intent/confirm.post.ts
+
+import { models, sequelize } from "@b/db";
+import { recordWalletChanges } from "@b/utils/ledger";
+import { createError } from "@b/utils/error";
+import { logError } from "@b/utils/logger";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import {
+  convertToWalletAmount,
+  deliverIpn,
+  getMerchantWallet,
+  getPaymentIntentTotal,
+  scheduleIpn,
+} from "../utils";
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+export const metadata: OperationObject = {
+  summary: "Pay a payment intent",
+  description:
+    "Pays a pending payment intent from a wallet of the authenticated user. The total is converted into the wallet currency and credited to the merchant.",
+  operationId: "confirmPaymentIntent",
+  tags: ["Payment"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            paymentIntentId: {
+              type: "string",
+              description: "ID of the payment intent to pay",
+            },
+            walletId: {
+              type: "string",
+              description: "ID of the wallet to pay from",
+            },
+          },
+          required: ["paymentIntentId", "walletId"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Payment completed successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              redirectUrl: {
+                type: "string",
+                description: "Merchant page to send the customer back to",
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Payment Intent"),
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, body } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const { paymentIntentId, walletId } = body;
+
+  const pending = await models.paymentIntent.findOne({
+    where: { id: paymentIntentId, status: "PENDING" },
+  });
+  if (!pending) {
+    throw createError({
+      statusCode: 404,
+      message: "Payment intent not found or no longer payable",
+    });
+  }
+  if (pending.merchantId === user.id) {
+    throw createError({
+      statusCode: 400,
+      message: "You cannot pay your own payment intent",
+    });
+  }
+
+  const wallet = await models.wallet.findOne({
+    where: { id: walletId, userId: user.id },
+  });
+  if (!wallet) {
+    throw createError({ statusCode: 404, message: "Wallet not found" });
+  }
+
+  // Prices are read before the transaction so no row stays locked on them
+  const total = getPaymentIntentTotal(pending);
+  const cost = await convertToWalletAmount(total, pending.currency, wallet);
+
+  const intent = await sequelize.transaction(async (transaction) => {
+    const intent = await models.paymentIntent.findOne({
+      where: { id: paymentIntentId, status: "PENDING" },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!intent) {
+      throw createError({
+        statusCode: 404,
+        message: "Payment intent not found or no longer payable",
+      });
+    }
+    if (intent.expiresAt && new Date(intent.expiresAt) <= new Date()) {
+      throw createError({
+        statusCode: 400,
+        message: "Payment intent has expired",
+      });
+    }
+
+    const payerWallet = await models.wallet.findOne({
+      where: { id: walletId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (payerWallet.balance < cost) {
+      throw createError({ statusCode: 400, message: "Insufficient balance" });
+    }
+    const payerPrevious = {
+      balance: payerWallet.balance,
+      inOrder: payerWallet.inOrder || 0,
+    };
+    await payerWallet.update(
+      { balance: roundTo8DecimalPlaces(payerWallet.balance - cost) },
+      { transaction }
+    );
+
+    const merchantWallet = await getMerchantWallet(intent, transaction);
+    const merchantPrevious = {
+      balance: merchantWallet.balance,
+      inOrder: merchantWallet.inOrder || 0,
+    };
+    await merchantWallet.update(
+      { balance: roundTo8DecimalPlaces(merchantWallet.balance + total) },
+      { transaction }
+    );
+
+    // Payments in another currency are converted at the exchange
+    await recordWalletChanges(
+      [
+        { wallet: payerWallet, previous: payerPrevious },
+        { wallet: merchantWallet, previous: merchantPrevious },
+      ],
+      {
+        account: "EXCHANGE",
+        description: "Payment intent confirmation",
+        referenceType: "paymentIntent",
+        referenceId: intent.id,
+      },
+      transaction
+    );
+
+    const description = intent.description || `Payment ${intent.id}`;
+    const payment = await models.transaction.create(
+      {
+        userId: user.id,
+        walletId: payerWallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: cost,
+        description: `${description}: ${total} ${intent.currency}`,
+        referenceId: intent.id,
+      },
+      { transaction }
+    );
+    await models.transaction.create(
+      {
+        userId: intent.merchantId,
+        walletId: merchantWallet.id,
+        type: "PAYMENT",
+        status: "COMPLETED",
+        amount: total,
+        description: `Payment received: ${description}`,
+        referenceId: intent.id,
+      },
+      { transaction }
+    );
+
+    await intent.update(
+      {
+        status: "COMPLETED",
+        userId: user.id,
+        walletId: payerWallet.id,
+        transactionId: payment.id,
+      },
+      { transaction }
+    );
+    await scheduleIpn(intent, transaction);
+    return intent;
+  });
+
+  // The cron retries the IPN if this first delivery fails
+  deliverIpn(intent).catch((error) =>
+    logError("payment_ipn", error, __filename)
+  );
+
+  return { redirectUrl: intent.successUrl };
+};
@@ -0,0 +1,66 @@
+// backend/api/ext/payment/intent/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import { basePaymentIntentSchema } from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "List merchant payment intents",
+  description:
+    "Retrieves the payment intents created by the authenticated merchant, newest first.",
+  operationId: "listPaymentIntents",
+  tags: ["Payment", "Merchant"],
+  parameters: [
+    {
+      name: "status",
+      in: "query",
+      description: "Only return intents with this status",
+      schema: {
+        type: "string",
+        enum: ["PENDING", "COMPLETED", "FAILED", "EXPIRED", "REFUNDED"],
+      },
+    },
+  ],
+  responses: {
+    200: {
+      description: "Payment intents retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ...basePaymentIntentSchema,
+                ipnAttempts: { type: "number" },
+                ipnDeliveredAt: { type: "string", nullable: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const where: any = { merchantId: user.id };
+  if (query.status) where.status = query.status;
+
+  return models.paymentIntent.findAll({
+    where,
+    attributes: { exclude: ["apiKey"] },
+    include: [{ model: models.paymentIntentProduct, as: "products" }],
+    order: [["createdAt", "DESC"]],
+    limit: 500,
+  });
+};
@@ -0,0 +1,188 @@
+// backend/api/ext/payment/intent/index.post.ts
+
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+import {
+  getMerchantApiKey,
+  PAYMENT_INTENT_TTL,
+  validateIpnUrl,
+} from "../utils";
+
+export const metadata: OperationObject = {
+  summary: "Create a payment intent",
+  description:
+    "Creates a payment intent for the merchant owning the API key and returns the hosted checkout URL the customer is sent to.",
+  operationId: "createPaymentIntent",
+  tags: ["Payment", "Merchant"],
+  requestBody: {
+    required: true,
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            amount: { type: "number", description: "Amount to collect" },
+            currency: {
+              type: "string",
+              description: "Fiat currency of the amount",
+            },
+            tax: { type: "number", description: "Tax added to the amount" },
+            discount: {
+              type: "number",
+              description: "Discount taken off the amount",
+            },
+            description: {
+              type: "string",
+              description: "Description shown at checkout",
+            },
+            products: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  quantity: { type: "number" },
+                  price: { type: "number" },
+                  currency: { type: "string" },
+                  sku: { type: "string" },
+                  image: { type: "string" },
+                },
+                required: ["name", "quantity", "price"],
+              },
+            },
+            ipnUrl: {
+              type: "string",
+              description:
+                "https URL notified of every status change, must resolve to a public address",
+            },
+            successUrl: {
+              type: "string",
+              description: "URL the customer returns to after paying",
+            },
+            failUrl: {
+              type: "string",
+              description: "URL the customer returns to when the payment fails",
+            },
+            expiresIn: {
+              type: "number",
+              description:
+                "Seconds the intent can be paid for, 1 hour by default",
+            },
+          },
+          required: ["amount", "currency", "ipnUrl", "successUrl", "failUrl"],
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Payment intent created successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "ID of the payment intent" },
+              checkoutUrl: {
+                type: "string",
+                description: "Hosted checkout to redirect the customer to",
+              },
+              expiresAt: { type: "string", format: "date-time" },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+  requiresAuth: true,
+};
+
+export default async (data: Handler) => {
+  const { body } = data;
+  const apiKey = await getMerchantApiKey(data);
+
+  const {
+    amount,
+    currency,
+    tax = 0,
+    discount = 0,
+    description,
+    products = [],
+    ipnUrl,
+    successUrl,
+    failUrl,
+    expiresIn,
+  } = body;
+
+  if (!(amount > 0) || amount + tax - discount <= 0) {
+    throw createError({
+      statusCode: 400,
+      message: "The payment total must be greater than 0",
+    });
+  }
+
+  await validateIpnUrl(ipnUrl);
+
+  const fiatCurrency = await models.currency.findOne({
+    where: { id: currency, status: true },
+  });
+  if (!fiatCurrency) {
+    throw createError({
+      statusCode: 400,
+      message: `Currency ${currency} is not supported`,
+    });
+  }
+
+  const expiresAt = new Date(
+    Date.now() + (expiresIn > 0 ? expiresIn * 1000 : PAYMENT_INTENT_TTL)
+  );
+
+  const intent = await sequelize.transaction(async (transaction) => {
+    const intent = await models.paymentIntent.create(
+      {
+        merchantId: apiKey.userId,
+        amount,
+        currency,
+        tax,
+        discount,
+        description,
+        status: "PENDING",
+        ipnUrl,
+        successUrl,
+        failUrl,
+        // IPNs are signed with the secret the merchant signs requests with,
+        // kept encrypted like on the API key
+        apiKey: apiKey.encryptedSecret,
+        expiresAt,
+        transactionId: null,
+      },
+      { transaction }
+    );
+
+    if (products.length > 0) {
+      await models.paymentIntentProduct.bulkCreate(
+        products.map((product) => ({
+          paymentIntentId: intent.id,
+          name: product.name,
+          quantity: product.quantity,
+          price: product.price,
+          currency: product.currency || currency,
+          sku: product.sku,
+          image: product.image,
+        })),
+        { transaction }
+      );
+    }
+
+    return intent;
+  });
+
+  return {
+    id: intent.id,
+    checkoutUrl: `${process.env.NEXT_PUBLIC_SITE_URL}/payment/${intent.id}`,
+    expiresAt,
+  };
+};
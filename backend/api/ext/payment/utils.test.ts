@@ -0,0 +1,80 @@
+import { lookup } from "dns/promises";
+import { isPublicAddress, validateIpnUrl } from "./utils";
+
+jest.mock("dns/promises", () => ({ lookup: jest.fn() }));
+jest.mock("@b/db", () => ({ models: {} }));
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/api/finance/currency/utils", () => ({}));
+
+const resolvesTo = (...addresses: string[]) =>
+  (lookup as unknown as jest.Mock).mockResolvedValue(
+    addresses.map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    }))
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("isPublicAddress", () => {
+  it("rejects loopback, private and link-local addresses", () => {
+    ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254"]
+      .map((address) => isPublicAddress(address, 4))
+      .forEach((isPublic) => expect(isPublic).toBe(false));
+    ["::1", "fd00::1", "fe80::1"]
+      .map((address) => isPublicAddress(address, 6))
+      .forEach((isPublic) => expect(isPublic).toBe(false));
+  });
+
+  it("checks IPv4-mapped addresses as IPv4", () => {
+    expect(isPublicAddress("::ffff:127.0.0.1", 6)).toBe(false);
+    expect(isPublicAddress("::ffff:93.184.216.34", 6)).toBe(true);
+  });
+
+  it("accepts public addresses", () => {
+    expect(isPublicAddress("93.184.216.34", 4)).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1::1", 6)).toBe(true);
+  });
+});
+
+describe("validateIpnUrl", () => {
+  it("accepts an https URL on a public host", async () => {
+    resolvesTo("93.184.216.34");
+
+    await expect(
+      validateIpnUrl("https://merchant.example/ipn")
+    ).resolves.toBeUndefined();
+    expect(lookup).toHaveBeenCalledWith("merchant.example", {
+      all: true,
+      verbatim: true,
+    });
+  });
+
+  it("requires https", async () => {
+    await expect(validateIpnUrl("http://merchant.example/ipn")).rejects.toThrow(
+      "The IPN URL must use https"
+    );
+    await expect(validateIpnUrl("not a url")).rejects.toThrow(
+      "The IPN URL is not a valid URL"
+    );
+  });
+
+  it("rejects hosts with any non-public address", async () => {
+    resolvesTo("93.184.216.34", "10.0.0.5");
+
+    await expect(
+      validateIpnUrl("https://merchant.example/ipn")
+    ).rejects.toThrow("The IPN URL must point to a public host");
+  });
+
+  it("resolves literal addresses as well", async () => {
+    resolvesTo("::1");
+
+    await expect(validateIpnUrl("https://[::1]/ipn")).rejects.toThrow(
+      "The IPN URL must point to a public host"
+    );
+    expect(lookup).toHaveBeenCalledWith("::1", expect.anything());
+  });
+});
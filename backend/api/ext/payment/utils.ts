@@ -0,0 +1,349 @@
+// backend/api/ext/payment/utils.ts
+
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList } from "net";
+import { Transaction } from "sequelize";
+import { models } from "@b/db";
+import { decrypt } from "@b/utils/encrypt";
+import { createError } from "@b/utils/error";
+import { logError } from "@b/utils/logger";
+import { baseNumberSchema, baseStringSchema } from "@b/utils/schema";
+import {
+  getEcoPriceInUSD,
+  getFiatPriceInUSD,
+  getSpotPriceInUSD,
+} from "@b/api/finance/currency/utils";
+
+// Intents left unpaid for longer than this expire
+export const PAYMENT_INTENT_TTL = 60 * 60 * 1000;
+
+// IPN retries back off exponentially from one minute up to a day
+const IPN_MAX_ATTEMPTS = 10;
+const IPN_BASE_DELAY = 60 * 1000;
+const IPN_MAX_DELAY = 24 * 60 * 60 * 1000;
+const IPN_TIMEOUT = 10 * 1000;
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+export const basePaymentIntentSchema = {
+  id: baseStringSchema("ID of the payment intent"),
+  amount: baseNumberSchema("Amount of the payment, before tax and discount"),
+  currency: baseStringSchema("Fiat currency of the payment"),
+  tax: baseNumberSchema("Tax added to the amount"),
+  discount: baseNumberSchema("Discount taken off the amount"),
+  description: baseStringSchema("Description of the payment"),
+  status: {
+    ...baseStringSchema("Status of the payment intent"),
+    enum: ["PENDING", "COMPLETED", "FAILED", "EXPIRED", "REFUNDED"],
+  },
+  refundedAmount: baseNumberSchema("Amount refunded to the customer"),
+  expiresAt: baseStringSchema("Date the payment intent expires"),
+  createdAt: baseStringSchema("Creation date of the payment intent"),
+  products: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        id: baseStringSchema("ID of the product"),
+        name: baseStringSchema("Name of the product"),
+        image: baseStringSchema("Image of the product"),
+        quantity: baseNumberSchema("Quantity of the product"),
+        price: baseNumberSchema("Unit price of the product"),
+        currency: baseStringSchema("Currency of the product"),
+        sku: baseStringSchema("SKU of the product"),
+      },
+    },
+  },
+};
+
+// Fields of an intent that are safe to show to the paying customer
+export const publicPaymentIntentAttributes = [
+  "id",
+  "amount",
+  "currency",
+  "tax",
+  "discount",
+  "description",
+  "status",
+  "refundedAmount",
+  "expiresAt",
+  "createdAt",
+];
+
+export const getPaymentIntentTotal = (intent: paymentIntentAttributes) =>
+  roundTo8DecimalPlaces(intent.amount + intent.tax - intent.discount);
+
+/**
+ * Resolves the API key a merchant request is made with. Merchant routes accept
+ * only keys of the authenticated user that carry the payment permission.
+ */
+export async function getMerchantApiKey(data: Handler) {
+  const { user, headers } = data;
+  const key = headers["x-api-key"];
+  if (!user?.id || !key) {
+    throw createError({
+      statusCode: 401,
+      message: "A merchant API key is required",
+    });
+  }
+
+  const apiKey = await models.apiKey.findOne({
+    where: { key, userId: user.id },
+  });
+  const permissions =
+    typeof apiKey?.permissions === "string"
+      ? JSON.parse(apiKey.permissions)
+      : apiKey?.permissions || [];
+  if (!apiKey || !permissions.includes("payment")) {
+    throw createError({
+      statusCode: 403,
+      message: "This API key is not allowed to accept payments",
+    });
+  }
+
+  return apiKey;
+}
+
+export async function getMerchantPaymentIntent(data: Handler, id: string) {
+  const apiKey = await getMerchantApiKey(data);
+  const intent = await models.paymentIntent.findOne({
+    where: { id, merchantId: apiKey.userId },
+  });
+  if (!intent) {
+    throw createError({
+      statusCode: 404,
+      message: "Payment intent not found",
+    });
+  }
+  return intent;
+}
+
+async function getPriceInUSD(type: string, currency: string) {
+  switch (type) {
+    case "FIAT":
+      return getFiatPriceInUSD(currency);
+    case "SPOT":
+      return getSpotPriceInUSD(currency);
+    case "ECO":
+      return getEcoPriceInUSD(currency);
+    default:
+      throw createError({
+        statusCode: 400,
+        message: `Invalid wallet type: ${type}`,
+      });
+  }
+}
+
+// The amount of a wallet that pays for a fiat total
+export async function convertToWalletAmount(
+  total: number,
+  currency: string,
+  wallet: walletAttributes
+): Promise<number> {
+  if (wallet.type === "FIAT" && wallet.currency === currency) {
+    return total;
+  }
+
+  const [fiatPrice, walletPrice] = await Promise.all([
+    getPriceInUSD("FIAT", currency),
+    getPriceInUSD(wallet.type, wallet.currency),
+  ]);
+  if (!fiatPrice || !walletPrice) {
+    throw createError({
+      statusCode: 400,
+      message: `No exchange rate between ${currency} and ${wallet.currency}`,
+    });
+  }
+
+  return roundTo8DecimalPlaces((total * fiatPrice) / walletPrice);
+}
+
+// The fiat wallet of the merchant that collects the payments of an intent
+export async function getMerchantWallet(
+  intent: paymentIntentAttributes,
+  transaction: Transaction
+) {
+  const where = {
+    userId: intent.merchantId,
+    type: "FIAT",
+    currency: intent.currency,
+  };
+  const wallet = await models.wallet.findOne({
+    where,
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+  if (wallet) return wallet;
+
+  return models.wallet.create(
+    { ...where, balance: 0, inOrder: 0, status: true },
+    { transaction }
+  );
+}
+
+// Queues an IPN for the current state of an intent
+export function scheduleIpn(intent: any, transaction?: Transaction) {
+  return intent.update(
+    { ipnAttempts: 0, ipnNextAttemptAt: new Date(), ipnDeliveredAt: null },
+    { transaction }
+  );
+}
+
+// Address ranges an IPN must not reach: unspecified, loopback, private,
+// carrier-grade NAT, link-local, benchmarking, multicast and reserved
+const nonPublicAddresses = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]: [string, number]) =>
+  nonPublicAddresses.addSubnet(address, prefix, "ipv4")
+);
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([address, prefix]: [string, number]) =>
+  nonPublicAddresses.addSubnet(address, prefix, "ipv6")
+);
+
+export function isPublicAddress(address: string, family: number) {
+  // IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return !nonPublicAddresses.check(mapped[1], "ipv4");
+  return !nonPublicAddresses.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Checks that an IPN URL uses https and that its host only resolves to public
+ * addresses, so that merchants cannot make the server call internal services.
+ */
+export async function validateIpnUrl(ipnUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(ipnUrl);
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: "The IPN URL is not a valid URL",
+    });
+  }
+  if (url.protocol !== "https:") {
+    throw createError({
+      statusCode: 400,
+      message: "The IPN URL must use https",
+    });
+  }
+
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), {
+      all: true,
+      verbatim: true,
+    });
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: "The IPN URL host cannot be resolved",
+    });
+  }
+  if (
+    addresses.length === 0 ||
+    !addresses.every(({ address, family }) => isPublicAddress(address, family))
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "The IPN URL must point to a public host",
+    });
+  }
+}
+
+export function signIpnPayload(
+  payload: string,
+  timestamp: number,
+  secret: string
+) {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+}
+
+/**
+ * Posts the current state of an intent to the IPN URL of the merchant, signed
+ * with the secret of their API key. Failed deliveries are retried with
+ * exponential backoff until the attempts run out.
+ */
+export async function deliverIpn(intent: any) {
+  const payload = JSON.stringify({
+    id: intent.id,
+    status: intent.status,
+    amount: intent.amount,
+    currency: intent.currency,
+    tax: intent.tax,
+    discount: intent.discount,
+    refundedAmount: intent.refundedAmount,
+    transactionId: intent.transactionId,
+    updatedAt: intent.updatedAt,
+  });
+  const timestamp = Date.now();
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), IPN_TIMEOUT);
+  const attempts = intent.ipnAttempts + 1;
+
+  try {
+    // Checked again at delivery, the host may resolve elsewhere by now
+    await validateIpnUrl(intent.ipnUrl);
+
+    const response = await fetch(intent.ipnUrl, {
+      method: "POST",
+      redirect: "error",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Timestamp": String(timestamp),
+        "X-Signature": signIpnPayload(
+          payload,
+          timestamp,
+          decrypt(intent.apiKey)
+        ),
+      },
+      body: payload,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`IPN endpoint responded with ${response.status}`);
+    }
+
+    await intent.update({
+      ipnAttempts: attempts,
+      ipnNextAttemptAt: null,
+      ipnDeliveredAt: new Date(),
+    });
+  } catch (error) {
+    const delay = Math.min(IPN_BASE_DELAY * 2 ** (attempts - 1), IPN_MAX_DELAY);
+    await intent.update({
+      ipnAttempts: attempts,
+      ipnNextAttemptAt:
+        attempts < IPN_MAX_ATTEMPTS ? new Date(Date.now() + delay) : null,
+    });
+    logError(
+      "payment_ipn",
+      new Error(`IPN for ${intent.id} failed: ${error.message}`),
+      __filename
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+}
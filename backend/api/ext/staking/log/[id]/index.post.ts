@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
@@ -78,20 +79,22 @@ export default async (data: Handler) => {
     const wallet = await models.wallet.findOne({
       where: { id: transactionRecord.walletId },
       transaction: t,
+      lock: t.LOCK.UPDATE,
     });
     if (!wallet) throw new Error("Wallet not found");
 
     const reward = parseFloat(metadata.reward || "0");
     const totalAmount = stake.amount + reward;
 
-    const newBalance = wallet.balance + totalAmount;
-    await wallet.update(
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance + totalAmount },
       {
-        balance: newBalance,
+        description: `Collected stake and reward from the ${stake.pool.name} pool`,
+        referenceType: "stakingLog",
+        referenceId: stake.id,
       },
-      {
-        transaction: t,
-      }
+      t
     );
 
     // Update the stake status
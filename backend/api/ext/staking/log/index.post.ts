@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { createError } from "@b/utils/error";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendStakingInitiationEmail } from "./utils";
 import { createRecordResponses } from "@b/utils/query";
 
@@ -57,6 +58,7 @@ export default async (data: Handler) => {
         type: pool.type,
       },
       transaction,
+      lock: transaction.LOCK.UPDATE,
     });
     if (!wallet) throw new Error("Wallet not found");
 
@@ -69,9 +71,6 @@ export default async (data: Handler) => {
     });
     if (!duration) throw new Error("Staking duration not found");
 
-    const newBalance = wallet.balance - amount;
-    await wallet.update({ balance: newBalance }, { transaction });
-
     const releaseDate = new Date();
     releaseDate.setDate(releaseDate.getDate() + duration.duration);
 
@@ -86,6 +85,17 @@ export default async (data: Handler) => {
       { transaction }
     );
 
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance - amount },
+      {
+        description: `Staked in the ${pool.name} pool`,
+        referenceType: "stakingLog",
+        referenceId: newStake.id,
+      },
+      transaction
+    );
+
     const reward = (amount * duration.duration * duration.interestRate) / 100;
     await models.transaction.create(
       {
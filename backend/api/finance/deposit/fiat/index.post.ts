@@ -7,6 +7,7 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { checkKycTierLimit, requireKycFeature } from "@b/utils/kycTiers";
 
 export const metadata: OperationObject = {
   summary: "Performs a custom fiat deposit transaction",
@@ -102,6 +103,9 @@ export default async (data: Handler) => {
   }
 
   const parsedAmount = parseFloat(amount);
+
+  await requireKycFeature(user.id, "fiat");
+
   const fixedFee = method.fixedFee || 0;
   const percentageFee = method.percentageFee || 0;
   const taxAmount = parseFloat(
@@ -110,6 +114,15 @@ export default async (data: Handler) => {
 
   // Start a transaction to create the deposit and admin profit records
   const transaction = await sequelize.transaction(async (t) => {
+    await checkKycTierLimit(
+      user.id,
+      "DEPOSIT",
+      "FIAT",
+      wallet.currency,
+      parsedAmount,
+      t
+    );
+
     // Create the main transaction record for the deposit
     const depositTransaction = await models.transaction.create(
       {
@@ -1,6 +1,7 @@
 // /server/api/deposit/paypal.post.ts
 
 import { models } from "@b/db";
+import { checkKycTierLimit, requireKycFeature } from "@b/utils/kycTiers";
 import { paypalClient, paypalOrders } from "./utils";
 import { createRecordResponses } from "@b/utils/query";
 
@@ -45,6 +46,17 @@ export default async (data: Handler) => {
 
   const { amount, currency } = body;
 
+  await requireKycFeature(user.id, "fiat");
+  // Refused before the user pays; verify checks again under lock when the
+  // deposit is recorded
+  await checkKycTierLimit(
+    user.id,
+    "DEPOSIT",
+    "FIAT",
+    currency,
+    parseFloat(amount)
+  );
+
   const paypalGateway = await models.depositGateway.findOne({
     where: { alias: "paypal", status: true },
   });
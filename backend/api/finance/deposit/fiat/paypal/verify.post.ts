@@ -7,6 +7,8 @@ import {
 
 import { sendFiatTransactionEmail } from "@b/utils/emails";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
+import { checkKycTierLimit } from "@b/utils/kycTiers";
 import { paypalClient, paypalOrders } from "./utils";
 
 export const metadata: OperationObject = {
@@ -176,13 +178,18 @@ export default async (data: Handler) => {
     const recievedAmount = Number(
       (grossAmount - taxAmount).toFixed(currencyData.precision || 2)
     );
-    let newBalance = Number(wallet.balance);
-    newBalance += recievedAmount;
-    newBalance = Number(newBalance.toFixed(currencyData.precision || 2));
-
     // Start a transaction to create a new transaction record and update the wallet balance
     const createdTransaction = await sequelize.transaction(
       async (transaction) => {
+        await checkKycTierLimit(
+          user.id,
+          "DEPOSIT",
+          "FIAT",
+          currency,
+          grossAmount,
+          transaction
+        );
+
         // Create a new transaction record
         const newTransaction = await models.transaction.create(
           {
@@ -200,14 +207,23 @@ export default async (data: Handler) => {
         );
 
         // Update the wallet balance
-        await models.wallet.update(
+        await wallet.reload({ transaction, lock: transaction.LOCK.UPDATE });
+        await setWalletBalances(
+          wallet,
           {
-            balance: newBalance,
+            balance: Number(
+              (Number(wallet.balance) + recievedAmount).toFixed(
+                currencyData.precision || 2
+              )
+            ),
           },
           {
-            where: { id: wallet.id },
-            transaction,
-          }
+            fee: taxAmount,
+            description: "Fiat deposit by PayPal",
+            referenceType: "transaction",
+            referenceId: newTransaction.id,
+          },
+          transaction
         );
 
         // **Admin Profit Recording:**
@@ -235,7 +251,7 @@ export default async (data: Handler) => {
         userPk,
         createdTransaction,
         currency,
-        newBalance
+        wallet.balance
       );
     } catch (error) {
       console.error("Error sending email:", error);
@@ -243,7 +259,7 @@ export default async (data: Handler) => {
 
     return {
       transaction: createdTransaction,
-      balance: newBalance.toFixed(2),
+      balance: wallet.balance.toFixed(2),
       currency,
       method: "PAYPAL",
     };
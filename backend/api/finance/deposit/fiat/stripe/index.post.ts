@@ -7,6 +7,7 @@ import {
 
 import { useStripe } from "./utils";
 import { models } from "@b/db";
+import { checkKycTierLimit, requireKycFeature } from "@b/utils/kycTiers";
 
 const publicUrl = process.env.NEXT_PUBLIC_SITE_URL;
 const isProduction = process.env.NODE_ENV === "production";
@@ -90,6 +91,12 @@ export default async (data: Handler) => {
   if (!user) throw new Error("User not authenticated");
 
   const { amount, currency, intent } = body;
+
+  await requireKycFeature(user.id, "fiat");
+  // Refused before the user pays; verify checks again under lock when the
+  // deposit is recorded
+  await checkKycTierLimit(user.id, "DEPOSIT", "FIAT", currency, amount);
+
   const amountCent = amount * 100;
 
   const gateway = await models.depositGateway.findOne({
@@ -7,6 +7,8 @@ import {
 } from "@b/utils/query";
 import { useStripe } from "./utils";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
+import { checkKycTierLimit } from "@b/utils/kycTiers";
 import { sendFiatTransactionEmail } from "@b/utils/emails";
 
 export const metadata: OperationObject = {
@@ -145,12 +147,17 @@ export default async (data: Handler) => {
       }
 
       const fee = mappedLineItems[1]?.amount || 0;
-      let newBalance = wallet.balance;
-      newBalance += Number(amount);
-      newBalance = parseFloat(newBalance.toFixed(currencyData.precision || 2));
-
       // Sequelize transaction
       const result = await sequelize.transaction(async (t) => {
+        await checkKycTierLimit(
+          user.id,
+          "DEPOSIT",
+          "FIAT",
+          currency,
+          amount,
+          t
+        );
+
         // Create a new transaction
         const newTransaction = await models.transaction.create(
           {
@@ -170,14 +177,23 @@ export default async (data: Handler) => {
         );
 
         // Update the wallet's balance
-        await models.wallet.update(
+        await wallet.reload({ transaction: t, lock: t.LOCK.UPDATE });
+        await setWalletBalances(
+          wallet,
           {
-            balance: newBalance,
+            balance: parseFloat(
+              (wallet.balance + Number(amount)).toFixed(
+                currencyData.precision || 2
+              )
+            ),
           },
           {
-            where: { id: wallet.id },
-            transaction: t,
-          }
+            fee,
+            description: "Fiat deposit by Stripe",
+            referenceType: "transaction",
+            referenceId: newTransaction.id,
+          },
+          t
         );
 
         // **Admin Profit Recording:**
@@ -199,7 +215,12 @@ export default async (data: Handler) => {
       });
 
       try {
-        await sendFiatTransactionEmail(userPk, result, currency, newBalance);
+        await sendFiatTransactionEmail(
+          userPk,
+          result,
+          currency,
+          wallet.balance
+        );
       } catch (error) {
         console.error("Error sending email:", error);
       }
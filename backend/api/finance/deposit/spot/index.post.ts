@@ -1,12 +1,13 @@
 // /server/api/wallets/fiat/customDeposit.post.ts
 import ExchangeManager from "@b/utils/exchange";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
   unauthorizedResponse,
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { checkKycTierLimit } from "@b/utils/kycTiers";
 import { handleNetworkMappingReverse } from "../../currency/[type]/[code]/[method]/index.get";
 
 export const metadata: OperationObject = {
@@ -104,15 +105,23 @@ export default async (data: Handler) => {
     });
   }
 
-  const transaction = await models.transaction.create({
-    userId: user.id,
-    walletId: wallet.id,
-    type: "DEPOSIT",
-    amount: 0,
-    status: "PENDING",
-    description: `${currency} deposit transaction initiated`,
-    metadata: JSON.stringify({ currency, chain: parsedChain, trx }),
-    referenceId: trx,
+  const transaction = await sequelize.transaction(async (t) => {
+    // The amount is only known once the deposit arrives on the exchange
+    await checkKycTierLimit(user.id, "DEPOSIT", "SPOT", currency, 0, t);
+
+    return models.transaction.create(
+      {
+        userId: user.id,
+        walletId: wallet.id,
+        type: "DEPOSIT",
+        amount: 0,
+        status: "PENDING",
+        description: `${currency} deposit transaction initiated`,
+        metadata: JSON.stringify({ currency, chain: parsedChain, trx }),
+        referenceId: trx,
+      },
+      { transaction: t }
+    );
   });
 
   return {
@@ -5,10 +5,11 @@ import { createError } from "@b/utils/error";
 import { processRewards } from "@b/utils/affiliate";
 import { getUserById } from "@b/api/user/profile/index.get";
 import { sendSpotWalletDepositConfirmationEmail } from "@b/utils/emails";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
 import { updateTransaction } from "../../utils";
 import { handleNotification } from "@b/utils/notifications";
 import { CacheManager } from "@b/utils/cache";
+import { setWalletBalances } from "@b/utils/ledger";
 
 const path = "/api/finance/deposit/spot";
 export const metadata = {};
@@ -315,7 +316,8 @@ export async function verifyTransaction(
     wallet.currency,
     amount,
     fee,
-    "DEPOSIT"
+    "DEPOSIT",
+    transaction.id
   )) as walletAttributes;
 
   if (!updatedWallet) {
@@ -440,55 +442,67 @@ export async function updateSpotWalletBalance(
   currency: string,
   amount: number,
   fee: number,
-  type: "DEPOSIT" | "WITHDRAWAL" | "REFUND_WITHDRAWAL"
+  type: "DEPOSIT" | "WITHDRAWAL" | "REFUND_WITHDRAWAL",
+  referenceId?: string
 ) {
-  const wallet = await models.wallet.findOne({
-    where: {
-      userId: userId,
-      currency: currency,
-      type: "SPOT",
-    },
-  });
+  return await sequelize.transaction(async (t) => {
+    const wallet = await models.wallet.findOne({
+      where: {
+        userId: userId,
+        currency: currency,
+        type: "SPOT",
+      },
+      transaction: t,
+      lock: t.LOCK.UPDATE,
+    });
 
-  if (!wallet) {
-    return new Error("Wallet not found");
-  }
+    if (!wallet) {
+      return new Error("Wallet not found");
+    }
 
-  let balance;
-  switch (type) {
-    case "WITHDRAWAL":
-      balance = wallet.balance - (amount + fee);
-      break;
-    case "DEPOSIT":
-      balance = wallet.balance + (amount - fee);
-      break;
-    case "REFUND_WITHDRAWAL":
-      balance = wallet.balance + amount + fee;
-      break;
-    default:
-      break;
-  }
+    let balance;
+    // The fee is booked as fee revenue, and a refund takes it back
+    let ledgerFee = fee;
+    switch (type) {
+      case "WITHDRAWAL":
+        balance = wallet.balance - (amount + fee);
+        break;
+      case "DEPOSIT":
+        balance = wallet.balance + (amount - fee);
+        break;
+      case "REFUND_WITHDRAWAL":
+        balance = wallet.balance + amount + fee;
+        ledgerFee = -fee;
+        break;
+      default:
+        break;
+    }
 
-  if (balance < 0) {
-    throw new Error("Insufficient balance");
-  }
+    if (balance < 0) {
+      throw new Error("Insufficient balance");
+    }
 
-  await models.wallet.update(
-    {
-      balance: balance,
-    },
-    {
-      where: {
-        id: wallet.id,
+    await setWalletBalances(
+      wallet,
+      { balance },
+      {
+        account: "EXCHANGE",
+        fee: ledgerFee,
+        description: `Spot ${type.toLowerCase().replace("_", " ")}`,
+        referenceType: referenceId ? "transaction" : undefined,
+        referenceId,
       },
-    }
-  );
+      t
+    );
 
-  const updatedWallet = await models.wallet.findByPk(wallet.id);
+    const updatedWallet = await models.wallet.findByPk(wallet.id, {
+      transaction: t,
+    });
 
-  if (!updatedWallet) {
-    throw new Error("Wallet not found");
-  }
+    if (!updatedWallet) {
+      throw new Error("Wallet not found");
+    }
 
-  return updatedWallet.get({ plain: true });
+    return updatedWallet.get({ plain: true });
+  });
 }
@@ -2,6 +2,7 @@
 
 import { sendInvestmentEmail } from "@b/utils/emails";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { createError } from "@b/utils/error";
 import {
   notFoundMetadataResponse,
@@ -122,14 +123,23 @@ export default async (data: Handler) => {
     });
 
     // Update wallet balance
-    await models.wallet.update(
+    const lockedWallet = await models.wallet.findByPk(wallet.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!lockedWallet) {
+      throw new Error("Wallet not found");
+    }
+    await setWalletBalances(
+      lockedWallet,
+      { balance: lockedWallet.balance + investment.amount },
       {
-        balance: sequelize.literal(`balance + ${investment.amount}`),
+        description: "Cancelled investment",
+        referenceType:
+          type.toLowerCase() === "forex" ? "forexInvestment" : "investment",
+        referenceId: id,
       },
-      {
-        where: { id: wallet.id },
-        transaction,
-      }
+      transaction
     );
 
     // Delete investment
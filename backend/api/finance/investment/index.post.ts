@@ -2,6 +2,7 @@
 
 import { sendInvestmentEmail } from "@b/utils/emails";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import { createError } from "@b/utils/error";
 import { createRecordResponses } from "@b/utils/query";
 import { getWallet } from "../wallet/utils";
@@ -106,16 +107,14 @@ export default async (data: Handler) => {
 
   const roi = (plan.profitPercentage / 100) * amount;
 
-  const newBalance = wallet.balance - amount;
-
   const newInvestment = await sequelize.transaction(async (transaction) => {
-    await models.wallet.update(
-      { balance: newBalance },
-      {
-        where: { id: wallet.id },
-        transaction,
-      }
-    );
+    const lockedWallet = await models.wallet.findByPk(wallet.id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!lockedWallet || lockedWallet.balance < amount) {
+      throw new Error("Insufficient balance");
+    }
 
     let newInvestment;
     try {
@@ -140,7 +139,7 @@ export default async (data: Handler) => {
     }
 
     // Assuming transaction model exists and is for logging financial transactions
-    await models.transaction.create(
+    const record = await models.transaction.create(
       {
         userId: user.id,
         walletId: wallet.id,
@@ -154,6 +153,17 @@ export default async (data: Handler) => {
       { transaction }
     );
 
+    await setWalletBalances(
+      lockedWallet,
+      { balance: lockedWallet.balance - amount },
+      {
+        description: `Investment in the ${plan.name} plan`,
+        referenceType: "transaction",
+        referenceId: record.id,
+      },
+      transaction
+    );
+
     return newInvestment;
   });
 
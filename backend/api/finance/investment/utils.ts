@@ -1,5 +1,6 @@
 import { makeUuid } from "@b/utils/passwords";
 import { models, sequelize } from "@b/db";
+import { setWalletBalances } from "@b/utils/ledger";
 import {
   baseBooleanSchema,
   baseIntegerSchema,
@@ -120,19 +121,16 @@ export async function checkInvestments(): Promise<void> {
           type: investment.plan.walletType,
         },
         transaction,
+        lock: transaction.LOCK.UPDATE,
       });
       if (!wallet) throw new Error("Wallet not found");
 
       if (investment.profit) {
         const profit = investment.amount * (investment.profit / 100);
         const roi = investment.amount + profit;
-        const balance = wallet.balance + roi;
-
-        // Update wallet balance
-        await wallet.update({ balance }, { transaction });
 
         // Create a transaction record for ROI
-        await models.transaction.create(
+        const record = await models.transaction.create(
           {
             userId: investment.userId,
             walletId: wallet.id,
@@ -146,6 +144,18 @@ export async function checkInvestments(): Promise<void> {
           { transaction }
         );
 
+        // Update wallet balance
+        await setWalletBalances(
+          wallet,
+          { balance: wallet.balance + roi },
+          {
+            description: "Investment return",
+            referenceType: "transaction",
+            referenceId: record.id,
+          },
+          transaction
+        );
+
         // Mark investment as COMPLETED
         await investment.update({ status: "COMPLETED" }, { transaction });
       }
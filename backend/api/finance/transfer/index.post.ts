@@ -19,6 +19,7 @@ import {
   updateWalletBalances,
 } from "./utils";
 import { CacheManager } from "@b/utils/cache";
+import { recordWalletChanges, WalletChange } from "@b/utils/ledger";
 
 export const metadata: OperationObject = {
   summary: "Performs a transfer transaction",
@@ -593,21 +594,38 @@ async function handlePendingTransfer({
   currencyData,
   t,
 }: any) {
-  const newFromBalance = calculateNewBalance(
-    fromWallet.balance,
-    -totalDeducted,
-    currencyData
+  const changes: WalletChange[] = [];
+  const update = async (wallet, balance: number) => {
+    changes.push({
+      wallet,
+      previous: { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+    });
+    await wallet.update({ balance }, { transaction: t });
+  };
+
+  await update(
+    fromWallet,
+    calculateNewBalance(fromWallet.balance, -totalDeducted, currencyData)
   );
-  await fromWallet.update({ balance: newFromBalance }, { transaction: t });
 
   if (transferStatus === "COMPLETED") {
-    const newToBalance = calculateNewBalance(
-      toWallet.balance,
-      targetReceiveAmount,
-      currencyData
+    await update(
+      toWallet,
+      calculateNewBalance(toWallet.balance, targetReceiveAmount, currencyData)
     );
-    await toWallet.update({ balance: newToBalance }, { transaction: t });
   }
+
+  // Funds not credited yet sit in clearing until the transfer completes
+  await recordWalletChanges(
+    changes,
+    {
+      account: "CLEARING",
+      description: "Wallet transfer",
+      referenceType: "wallet",
+      referenceId: fromWallet.id,
+    },
+    t
+  );
 }
 
 export function parseAddresses(address: any): { [key: string]: any } {
@@ -4,6 +4,7 @@ import {
   sendOutgoingTransferEmail,
 } from "@b/utils/emails";
 import { createError } from "@b/utils/error";
+import { recordWalletChanges } from "@b/utils/ledger";
 
 export async function updatePrivateLedger(
   walletId: string,
@@ -112,8 +113,29 @@ export async function updateWalletBalances(
     precision
   );
 
+  const previous = (wallet) => ({
+    balance: wallet.balance,
+    inOrder: wallet.inOrder || 0,
+  });
+  const changes = [
+    { wallet: fromWallet, previous: previous(fromWallet) },
+    { wallet: toWallet, previous: previous(toWallet) },
+  ];
+
   await fromWallet.update({ balance: updatedFromBalance }, { transaction: t });
   await toWallet.update({ balance: updatedToBalance }, { transaction: t });
+
+  // What the sender pays beyond what the recipient receives is the fee
+  await recordWalletChanges(
+    changes,
+    {
+      account: "FEES",
+      description: "Wallet transfer",
+      referenceType: "wallet",
+      referenceId: fromWallet.id,
+    },
+    t
+  );
 }
 
 export function calculateNewBalance(
@@ -0,0 +1,101 @@
+import { models } from "@b/db";
+import {
+  notFoundMetadataResponse,
+  serverErrorResponse,
+  unauthorizedResponse,
+} from "@b/utils/query";
+import { createError } from "@b/utils/error";
+import {
+  LIABILITY_DECIMALS,
+  getMerkleSumProof,
+  getMerkleSumRoot,
+  loadReserveSnapshotTree,
+  toLiabilityUnits,
+} from "@b/utils/reserves";
+
+export const metadata: OperationObject = {
+  summary: "Retrieves the proof of reserves inclusion proof of the user",
+  description:
+    "Returns the user's leaf in a proof of reserves snapshot and the sibling nodes needed to hash it up to the published root. The leaf hash is sha256 of 'userId:nonce:balance' and each node is sha256 of 'leftHash:leftSum:rightHash:rightSum', with balances and sums as integers of the returned precision.",
+  operationId: "getReserveInclusionProof",
+  tags: ["Finance", "Wallets"],
+  requiresAuth: true,
+  parameters: [
+    {
+      in: "query",
+      name: "currency",
+      required: true,
+      schema: { type: "string" },
+      description: "Currency of the snapshot",
+    },
+    {
+      in: "query",
+      name: "snapshotId",
+      required: false,
+      schema: { type: "string" },
+      description: "Snapshot to prove against, the latest one by default",
+    },
+  ],
+  responses: {
+    200: {
+      description: "Inclusion proof retrieved successfully",
+    },
+    401: unauthorizedResponse,
+    404: notFoundMetadataResponse("Reserve Snapshot"),
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user, query } = data;
+  if (!user) throw createError({ statusCode: 401, message: "Unauthorized" });
+
+  const { currency, snapshotId } = query;
+  if (!currency) {
+    throw createError({ statusCode: 400, message: "Currency is required" });
+  }
+
+  const snapshot = await models.reserveSnapshot.findOne({
+    where: snapshotId ? { id: snapshotId, currency } : { currency },
+    order: [["createdAt", "DESC"]],
+  });
+  if (!snapshot) {
+    throw createError({ statusCode: 404, message: "Snapshot not found" });
+  }
+
+  const leaf = await models.reserveSnapshotLeaf.findOne({
+    where: { snapshotId: snapshot.id, userId: user.id },
+  });
+  if (!leaf) {
+    throw createError({
+      statusCode: 404,
+      message:
+        "No balance of yours is recorded in this snapshot, or its proofs have expired",
+    });
+  }
+
+  const levels = await loadReserveSnapshotTree(snapshot.id);
+  const root = getMerkleSumRoot(levels);
+
+  return {
+    snapshot: {
+      id: snapshot.id,
+      currency: snapshot.currency,
+      rootHash: snapshot.rootHash,
+      totalLiabilities: snapshot.totalLiabilities,
+      leafCount: snapshot.leafCount,
+      createdAt: snapshot.createdAt,
+    },
+    decimals: LIABILITY_DECIMALS,
+    leaf: {
+      userId: user.id,
+      nonce: leaf.nonce,
+      balance: leaf.balance,
+      sum: toLiabilityUnits(leaf.balance).toString(),
+      hash: leaf.hash,
+      position: leaf.position,
+    },
+    proof: getMerkleSumProof(levels, leaf.position),
+    root: { hash: root.hash, sum: root.sum.toString() },
+  };
+};
@@ -0,0 +1,51 @@
+import { serverErrorResponse } from "@b/utils/query";
+import { getLatestReserveSnapshots } from "@b/utils/reserves";
+
+export const metadata: OperationObject = {
+  summary: "Lists the published proof of reserves",
+  description:
+    "Retrieves, per currency, the Merkle sum tree root of the latest liabilities snapshot along with the assets covering it.",
+  operationId: "listReserveSnapshots",
+  tags: ["Finance", "Wallets"],
+  requiresAuth: false,
+  responses: {
+    200: {
+      description: "Proof of reserves retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                currency: { type: "string" },
+                rootHash: { type: "string" },
+                totalLiabilities: { type: "number" },
+                totalAssets: { type: "number" },
+                reserveRatio: { type: "number", nullable: true },
+                leafCount: { type: "number" },
+                createdAt: { type: "string", format: "date-time" },
+              },
+            },
+          },
+        },
+      },
+    },
+    500: serverErrorResponse,
+  },
+};
+
+export default async () => {
+  const snapshots = await getLatestReserveSnapshots();
+  return snapshots.map((snapshot) => ({
+    id: snapshot.id,
+    currency: snapshot.currency,
+    rootHash: snapshot.rootHash,
+    totalLiabilities: snapshot.totalLiabilities,
+    totalAssets: snapshot.totalAssets,
+    reserveRatio: snapshot.reserveRatio,
+    leafCount: snapshot.leafCount,
+    createdAt: snapshot.createdAt,
+  }));
+};
@@ -7,6 +7,12 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { checkKycTierLimit, requireKycFeature } from "@b/utils/kycTiers";
+import { setWalletBalances } from "@b/utils/ledger";
+import {
+  verifyPasskeyStepUp,
+  webAuthnAssertionSchema,
+} from "@b/utils/webauthn";
 
 export const metadata: OperationObject = {
   summary: "Performs a custom fiat withdraw transaction",
@@ -38,6 +44,7 @@ export const metadata: OperationObject = {
               type: "object",
               description: "Custom data for the withdraw",
             },
+            webauthn: webAuthnAssertionSchema,
           },
           required: ["methodId", "amount", "currency", "customFields"],
         },
@@ -72,6 +79,8 @@ export default async (data: Handler) => {
   if (!user?.id)
     throw createError({ statusCode: 401, message: "Unauthorized" });
 
+  await verifyPasskeyStepUp(user.id, body.webauthn);
+
   const { methodId, amount, currency, customFields } = body;
 
   const userPk = await models.user.findByPk(user.id);
@@ -98,6 +107,9 @@ export default async (data: Handler) => {
   }
 
   const parsedAmount = Math.abs(parseFloat(amount));
+
+  await requireKycFeature(user.id, "fiat");
+
   const fixedFee = method.fixedFee || 0;
   const percentageFee = method.percentageFee || 0;
   const taxAmount = parseFloat(
@@ -109,8 +121,19 @@ export default async (data: Handler) => {
   }
 
   const transaction = await sequelize.transaction(async (t) => {
-    wallet.balance -= parsedAmount + taxAmount;
-    await wallet.save({ transaction: t });
+    await checkKycTierLimit(
+      user.id,
+      "WITHDRAW",
+      "FIAT",
+      wallet.currency,
+      parsedAmount,
+      t
+    );
+
+    await wallet.reload({ transaction: t, lock: t.LOCK.UPDATE });
+    if (wallet.balance < parsedAmount + taxAmount) {
+      throw new Error("Insufficient funds");
+    }
 
     const trx = await models.transaction.create(
       {
@@ -129,6 +152,18 @@ export default async (data: Handler) => {
       { transaction: t }
     );
 
+    await setWalletBalances(
+      wallet,
+      { balance: wallet.balance - (parsedAmount + taxAmount) },
+      {
+        fee: taxAmount,
+        description: `Fiat withdrawal by ${method.title}`,
+        referenceType: "transaction",
+        referenceId: trx.id,
+      },
+      t
+    );
+
     await models.adminProfit.create(
       {
         amount: taxAmount,
@@ -8,9 +8,15 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { createError } from "@b/utils/error";
+import { checkKycTierLimit } from "@b/utils/kycTiers";
+import { setWalletBalances } from "@b/utils/ledger";
 import { sendTransactionStatusUpdateEmail } from "@b/utils/emails";
 import { handleNetworkMappingReverse } from "../../currency/[type]/[code]/[method]/index.get";
 import { CacheManager } from "@b/utils/cache";
+import {
+  verifyPasskeyStepUp,
+  webAuthnAssertionSchema,
+} from "@b/utils/webauthn";
 
 export const metadata: OperationObject = {
   summary: "Performs a withdraw transaction",
@@ -42,6 +48,7 @@ export const metadata: OperationObject = {
               type: "string",
               description: "Withdraw toAddress",
             },
+            webauthn: webAuthnAssertionSchema,
           },
           required: ["currency", "chain", "amount", "toAddress"],
         },
@@ -76,6 +83,8 @@ export default async (data: Handler) => {
   if (!user?.id)
     throw createError({ statusCode: 401, message: "Unauthorized" });
 
+  await verifyPasskeyStepUp(user.id, body.webauthn);
+
   const { currency, chain, amount, toAddress, memo } = body;
 
   // Validate required fields
@@ -155,18 +164,25 @@ export default async (data: Handler) => {
     throw createError({ statusCode: 400, message: "Insufficient funds" });
   }
 
-  const newBalance = parseFloat(
-    (wallet.balance - Total).toFixed(currencyData.precision || 6)
-  );
-
-  if (newBalance < 0) {
-    throw createError({ statusCode: 400, message: "Insufficient funds" });
-  }
-
   // Start initial transaction to deduct amount and create transaction record
   const result = await sequelize.transaction(async (t) => {
-    wallet.balance = newBalance;
-    await wallet.save({ transaction: t });
+    await checkKycTierLimit(
+      user.id,
+      "WITHDRAW",
+      "SPOT",
+      wallet.currency,
+      parsedAmount,
+      t
+    );
+
+    await wallet.reload({ transaction: t, lock: t.LOCK.UPDATE });
+    const newBalance = parseFloat(
+      (wallet.balance - Total).toFixed(currencyData.precision || 6)
+    );
+
+    if (newBalance < 0) {
+      throw createError({ statusCode: 400, message: "Insufficient funds" });
+    }
 
     const dbTransaction = await models.transaction.create(
       {
@@ -187,6 +203,19 @@ export default async (data: Handler) => {
       { transaction: t }
     );
 
+    await setWalletBalances(
+      wallet,
+      { balance: newBalance },
+      {
+        account: "EXCHANGE",
+        fee: combinedFeeAmount,
+        description: "Spot withdrawal",
+        referenceType: "transaction",
+        referenceId: dbTransaction.id,
+      },
+      t
+    );
+
     // **Admin Profit Recording:**
     const adminProfit = await models.adminProfit.create(
       {
@@ -426,8 +455,25 @@ export default async (data: Handler) => {
           { where: { id: result.dbTransaction.id }, transaction: t }
         );
 
-        wallet.balance += Total; // Refund the total amount deducted
-        await wallet.save({ transaction: t });
+        const refunded = await models.wallet.findByPk(wallet.id, {
+          transaction: t,
+          lock: t.LOCK.UPDATE,
+        });
+        if (refunded) {
+          // Refund the total amount deducted
+          await setWalletBalances(
+            refunded,
+            { balance: refunded.balance + Total },
+            {
+              account: "EXCHANGE",
+              fee: -combinedFeeAmount,
+              description: "Refund of a failed spot withdrawal",
+              referenceType: "transaction",
+              referenceId: result.dbTransaction.id,
+            },
+            t
+          );
+        }
 
         await models.adminProfit.destroy({
           where: { id: result.adminProfit.id },
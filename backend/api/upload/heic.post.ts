@@ -1,7 +1,10 @@
 import heicConvert from "heic-convert";
-import fs from "fs/promises";
-import path from "path";
 import { sanitizePath } from "@b/utils/validation";
+import {
+  getStorage,
+  isPrivateUploadDir,
+  privateReference,
+} from "@b/utils/storage";
 
 import {
   notFoundMetadataResponse,
@@ -46,6 +49,10 @@ export const metadata = {
             type: "object",
             properties: {
               url: { type: "string", description: "URL of the converted file" },
+              signedUrl: {
+                type: "string",
+                description: "Short-lived URL to preview a private file",
+              },
             },
           },
         },
@@ -57,8 +64,6 @@ export const metadata = {
   },
 };
 
-const BASE_CONVERT_DIR = path.join(process.cwd(), "public", "converted");
-
 export default async (data) => {
   const { body, user } = data;
   if (!user) throw new Error("User not found");
@@ -72,14 +77,11 @@ export default async (data) => {
   const base64Data = base64File.split(",")[1];
   const buffer = Buffer.from(base64Data, "base64");
 
-  // Validate the directory path and create directories if necessary
-  const sanitizedDir = sanitizePath(dir.replace(/-/g, "/"));
-  const mediaDir = path.join(BASE_CONVERT_DIR, sanitizedDir);
-  await ensureDirExists(mediaDir);
+  // Validate the directory path
+  const sanitizedDir = sanitizePath(dir.replace(/-/g, "/")).replace(/\\/g, "/");
 
   // Define the output filename
   const filename = `${Date.now()}-${Math.round(Math.random() * 1e9)}.jpg`;
-  const outputPath = path.join(mediaDir, filename);
 
   // Check MIME type and ensure it's a supported HEIC format
   if (!mimeType.includes("heic") && !mimeType.includes("heif")) {
@@ -96,26 +98,29 @@ export default async (data) => {
       quality: 0.8, // Quality scale: 0-1 (optional, defaults to 1)
     });
 
-    // Write the converted JPEG file to the target directory
-    await fs.writeFile(outputPath, jpegBuffer);
+    // Store the converted JPEG file in the target directory
+    const storage = getStorage();
+    if (isPrivateUploadDir(sanitizedDir)) {
+      const key = `${sanitizedDir}/${filename}`;
+      await storage.put(key, Buffer.from(jpegBuffer), {
+        contentType: "image/jpeg",
+        visibility: "private",
+      });
+      return {
+        url: privateReference(key),
+        signedUrl: await storage.signedUrl(key),
+      };
+    }
+
+    const key = `converted/${sanitizedDir}/${filename}`;
+    await storage.put(key, Buffer.from(jpegBuffer), {
+      contentType: "image/jpeg",
+    });
 
     // Return the file URL
-    return { url: `/converted/${sanitizedDir}/${filename}` };
+    return { url: storage.url(key) };
   } catch (error) {
     console.error("Error converting HEIC to JPEG using `heic-convert`:", error);
     throw new Error("HEIC to JPEG conversion failed using `heic-convert`.");
   }
 };
-
-// Helper function to ensure the directory exists
-async function ensureDirExists(dir) {
-  try {
-    await fs.access(dir);
-  } catch (error) {
-    if (error.code === "ENOENT") {
-      await fs.mkdir(dir, { recursive: true });
-    } else {
-      throw error;
-    }
-  }
-}
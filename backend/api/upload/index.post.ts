@@ -1,5 +1,3 @@
-import fs from "fs/promises";
-import path from "path";
 import sharp from "sharp";
 import {
   notFoundMetadataResponse,
@@ -7,9 +5,11 @@ import {
   unauthorizedResponse,
 } from "@b/utils/query";
 import { sanitizePath } from "@b/utils/validation";
-
-const rootPath = process.cwd();
-const BASE_UPLOAD_DIR = path.join(rootPath, "public", "uploads");
+import {
+  getStorage,
+  isPrivateUploadDir,
+  privateReference,
+} from "@b/utils/storage";
 
 export const metadata: OperationObject = {
   summary: "Uploads a file to a specified directory",
@@ -60,7 +60,12 @@ export const metadata: OperationObject = {
             properties: {
               url: {
                 type: "string",
-                description: "URL of the uploaded file",
+                description:
+                  "URL of the uploaded file, or the reference of a private file",
+              },
+              signedUrl: {
+                type: "string",
+                description: "Short-lived URL to preview a private file",
               },
             },
           },
@@ -84,11 +89,9 @@ export default async (data) => {
   }
 
   // Sanitize the directory path to prevent LFI
-  const sanitizedDir = sanitizePath(dir.replace(/-/g, "/"));
+  const sanitizedDir = sanitizePath(dir.replace(/-/g, "/")).replace(/\\/g, "/");
   const base64Data = base64File.split(",")[1];
   const mimeType = base64File.match(/^data:(.*);base64,/)?.[1] || "";
-  const mediaDir = path.join(BASE_UPLOAD_DIR, sanitizedDir);
-  await ensureDirExists(mediaDir);
 
   const buffer = Buffer.from(base64Data, "base64");
   let filename = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
@@ -111,41 +114,37 @@ export default async (data) => {
     throw new Error("Unsupported file format.");
   }
 
-  const filePath = path.join(mediaDir, filename);
+  const storage = getStorage();
+  if (isPrivateUploadDir(sanitizedDir)) {
+    const key = `${sanitizedDir}/${filename}`;
+    await storage.put(key, processedImage, { visibility: "private" });
+    return {
+      url: privateReference(key),
+      signedUrl: await storage.signedUrl(key),
+    };
+  }
 
-  await fs.writeFile(filePath, processedImage);
+  const key = `uploads/${sanitizedDir}/${filename}`;
+  await storage.put(key, processedImage, {
+    contentType: filename.endsWith(".webp") ? "image/webp" : mimeType,
+  });
 
   if (oldPath) {
     try {
-      await removeOldImageIfAvatar(oldPath);
+      await removeOldImage(oldPath);
     } catch (error) {
       console.error("Error removing old image:", error);
     }
   }
 
-  return { url: `/uploads/${sanitizedDir.replace(/\\/g, "/")}/${filename}` };
+  return { url: storage.url(key) };
 };
 
-async function ensureDirExists(dir) {
-  try {
-    await fs.access(dir);
-  } catch (error) {
-    if (error.code === "ENOENT") {
-      await fs.mkdir(dir, { recursive: true });
-    } else {
-      throw error;
-    }
-  }
-}
-
-async function removeOldImageIfAvatar(oldPath) {
-  if (oldPath) {
-    const oldImageFullPath = path.join(rootPath, "public", oldPath);
-    try {
-      await fs.access(oldImageFullPath);
-      await fs.unlink(oldImageFullPath);
-    } catch (error) {
-      console.error("Error removing old image:", error);
-    }
+// Only files in the uploads area can be replaced
+async function removeOldImage(oldPath: string) {
+  const storage = getStorage();
+  const key = storage.keyFromUrl(oldPath);
+  if (key && key.startsWith("uploads/")) {
+    await storage.delete(key);
   }
 }
@@ -0,0 +1,173 @@
+// /server/api/user/fee/index.get.ts
+
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getUserHoldings, qualifiesForTier } from "@b/utils/fees";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+
+const tierSchema = {
+  type: "object",
+  nullable: true,
+  properties: {
+    id: { type: "string", description: "ID of the tier" },
+    name: { type: "string", description: "Name of the tier" },
+    level: { type: "number", description: "Level of the tier" },
+    minVolume: {
+      type: "number",
+      description: "30-day traded volume in USD required for the tier",
+    },
+    minBalance: {
+      type: "number",
+      description: "Holdings of the balance currency required for the tier",
+    },
+    balanceCurrency: {
+      type: "string",
+      nullable: true,
+      description: "Currency the holdings requirement is measured in",
+    },
+    makerFee: { type: "number", description: "Maker fee in percent" },
+    takerFee: { type: "number", description: "Taker fee in percent" },
+  },
+};
+
+export const metadata: OperationObject = {
+  summary: "Retrieves the fee tier of the current user",
+  description:
+    "Fetches the fee tier the current user was placed in, the fee schedule and the progress towards the next tier.",
+  operationId: "getUserFeeTier",
+  tags: ["User", "Fees"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "Fee tier retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              volume: {
+                type: "number",
+                description: "30-day traded volume in USD at the last run",
+              },
+              computedAt: {
+                type: "string",
+                format: "date-time",
+                nullable: true,
+                description: "Date the tier was last computed",
+              },
+              tier: tierSchema,
+              nextTier: tierSchema,
+              progress: {
+                type: "object",
+                nullable: true,
+                properties: {
+                  volume: {
+                    type: "number",
+                    description: "Percent of the next tier volume reached",
+                  },
+                  balance: {
+                    type: "number",
+                    nullable: true,
+                    description: "Percent of the next tier holdings reached",
+                  },
+                  holdings: {
+                    type: "number",
+                    nullable: true,
+                    description: "Current holdings of the balance currency",
+                  },
+                  qualified: {
+                    type: "boolean",
+                    description:
+                      "Whether the next tier is reached, applied on the next nightly run",
+                  },
+                },
+              },
+              override: {
+                type: "object",
+                nullable: true,
+                properties: {
+                  makerFee: { type: "number", nullable: true },
+                  takerFee: { type: "number", nullable: true },
+                },
+              },
+              tiers: { type: "array", items: tierSchema },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+};
+
+const tierAttributes = [
+  "id",
+  "name",
+  "level",
+  "minVolume",
+  "minBalance",
+  "balanceCurrency",
+  "makerFee",
+  "takerFee",
+];
+
+const toPercent = (value: number, target: number) =>
+  target > 0 ? Math.min(100, Math.round((value / target) * 10000) / 100) : 100;
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const [record, tiers] = await Promise.all([
+    models.userFeeTier.findOne({ where: { userId: user.id } }),
+    models.feeTier.findAll({
+      where: { status: true },
+      attributes: tierAttributes,
+      order: [["level", "ASC"]],
+    }),
+  ]);
+
+  const volume = record?.volume || 0;
+  const tier =
+    tiers.find((candidate) => candidate.id === record?.feeTierId) || null;
+  const nextTier =
+    tiers.find((next) => next.level > (tier ? tier.level : -1)) || null;
+
+  let progress: any = null;
+  if (nextTier) {
+    const gated = !!nextTier.balanceCurrency && nextTier.minBalance > 0;
+    const holdings = gated
+      ? await getUserHoldings(user.id, nextTier.balanceCurrency as string)
+      : null;
+    progress = {
+      volume: toPercent(volume, nextTier.minVolume),
+      balance: gated
+        ? toPercent(holdings as number, nextTier.minBalance)
+        : null,
+      holdings,
+      qualified: qualifiesForTier(nextTier, volume, holdings || 0),
+    };
+  }
+
+  const hasOverride =
+    record &&
+    (record.makerFeeOverride !== null || record.takerFeeOverride !== null);
+
+  return {
+    volume,
+    computedAt: record?.computedAt || null,
+    tier,
+    nextTier,
+    progress,
+    override: hasOverride
+      ? {
+          makerFee: record.makerFeeOverride,
+          takerFee: record.takerFeeOverride,
+        }
+      : null,
+    tiers,
+  };
+};
@@ -1,6 +1,7 @@
 // /server/api/kyc/index.get.ts
 import { models } from "@b/db";
 import { createError } from "@b/utils/error";
+import { signPrivateReferences } from "@b/utils/storage";
 import {
   notFoundMetadataResponse,
   serverErrorResponse,
@@ -100,5 +101,8 @@ export async function getKyc(userId: string): Promise<Kyc> {
     throw new Error("KYC record not found");
   }
 
-  return response.get({ plain: true }) as unknown as Kyc;
+  // Documents are private files, sent as short-lived signed URLs
+  const kyc = response.get({ plain: true }) as any;
+  kyc.data = await signPrivateReferences(kyc.data);
+  return kyc as Kyc;
 }
@@ -0,0 +1,117 @@
+// /server/api/user/kyc/tier/index.get.ts
+
+import { createError } from "@b/utils/error";
+import { getKycLimitUsage, getUserKycTier } from "@b/utils/kycTiers";
+import { serverErrorResponse, unauthorizedResponse } from "@b/utils/query";
+
+const limitSchema = (description: string) => ({
+  type: "number",
+  nullable: true,
+  description: `${description} in USD, null when unlimited`,
+});
+
+const tierSchema = {
+  type: "object",
+  nullable: true,
+  properties: {
+    id: { type: "string", description: "ID of the tier" },
+    name: { type: "string", description: "Name of the tier" },
+    level: {
+      type: "number",
+      description: "Approved KYC level that unlocks the tier",
+    },
+    description: { type: "string", nullable: true },
+    dailyWithdrawLimit: limitSchema("Daily withdrawal limit"),
+    monthlyWithdrawLimit: limitSchema("Monthly withdrawal limit"),
+    dailyDepositLimit: limitSchema("Daily deposit limit"),
+    monthlyDepositLimit: limitSchema("Monthly deposit limit"),
+    p2pAccess: { type: "boolean" },
+    futuresAccess: { type: "boolean" },
+    icoAccess: { type: "boolean" },
+    fiatAccess: { type: "boolean" },
+  },
+};
+
+const usageSchema = {
+  type: "object",
+  properties: {
+    daily: { type: "number", description: "USD used today" },
+    monthly: { type: "number", description: "USD used this month" },
+  },
+};
+
+export const metadata: OperationObject = {
+  summary: "Retrieves the KYC tier of the current user",
+  description:
+    "Fetches the tier the current user's approved KYC level unlocks, the withdrawal and deposit limits used so far and the next tier to reach.",
+  operationId: "getUserKycTier",
+  tags: ["KYC"],
+  requiresAuth: true,
+  responses: {
+    200: {
+      description: "KYC tier retrieved successfully",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: {
+              enforced: {
+                type: "boolean",
+                description: "Whether any tier is active",
+              },
+              kycLevel: {
+                type: "number",
+                description: "Approved KYC level of the user",
+              },
+              tier: tierSchema,
+              nextTier: tierSchema,
+              usage: {
+                type: "object",
+                properties: {
+                  withdraw: usageSchema,
+                  deposit: usageSchema,
+                },
+              },
+              progress: {
+                type: "number",
+                description:
+                  "Percent of the tiers unlocked, 100 on the highest tier",
+              },
+              tiers: { type: "array", items: tierSchema },
+            },
+          },
+        },
+      },
+    },
+    401: unauthorizedResponse,
+    500: serverErrorResponse,
+  },
+};
+
+export default async (data: Handler) => {
+  const { user } = data;
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  const [{ enforced, kycLevel, tier, nextTier, tiers }, withdraw, deposit] =
+    await Promise.all([
+      getUserKycTier(user.id),
+      getKycLimitUsage(user.id, "WITHDRAW"),
+      getKycLimitUsage(user.id, "DEPOSIT"),
+    ]);
+
+  const unlocked = tiers.filter((candidate) => candidate.level <= kycLevel);
+
+  return {
+    enforced,
+    kycLevel,
+    tier,
+    nextTier,
+    usage: { withdraw, deposit },
+    progress: tiers.length
+      ? Math.round((unlocked.length / tiers.length) * 100)
+      : 100,
+    tiers,
+  };
+};
@@ -1,6 +1,7 @@
 import { Sequelize } from "sequelize";
 import { Models, initModels } from "@db/init";
 import { isMainThread } from "worker_threads";
+import { registerAuditHooks } from "@b/utils/audit";
 
 export class SequelizeSingleton {
   private static instance: SequelizeSingleton;
@@ -50,6 +51,7 @@ export class SequelizeSingleton {
 
   private initModels() {
     const models = initModels(this.sequelize);
+    registerAuditHooks(models);
     return models;
   }
 
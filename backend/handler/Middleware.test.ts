@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import { models } from "@b/db";
+import { signApiRequest } from "@b/utils/apiKey";
+import { encrypt, setDynamicEncryptionKey } from "@b/utils/encrypt";
+import { RedisSingleton } from "@b/utils/redis";
+import { handleApiVerification } from "./Middleware";
+
+jest.mock("@b/db", () => ({
+  models: { apiKey: { findOne: jest.fn(), update: jest.fn() } },
+  sequelize: { literal: jest.fn() },
+}));
+jest.mock("@b/utils/redis", () => ({
+  RedisSingleton: { getInstance: jest.fn() },
+}));
+jest.mock("@b/utils/token", () => ({}));
+jest.mock("@b/utils/logger", () => ({
+  __esModule: true,
+  default: jest.fn(),
+  logError: jest.fn(),
+}));
+jest.mock("@b/utils/webauthn", () => ({}));
+jest.mock("@b/utils/audit", () => ({}));
+jest.mock("./Request", () => ({}));
+jest.mock("./Response", () => ({}));
+jest.mock("..", () => ({}));
+
+const SECRET = "s".repeat(64);
+
+// Nonces stored in redis, by key
+let nonces: Set<string>;
+
+function signedRequest(overrides: Record<string, string> = {}) {
+  const headers = {
+    "x-api-key": "key",
+    "x-api-timestamp": String(Date.now()),
+    "x-api-nonce": "nonce-0001",
+  };
+  const req = {
+    method: "get",
+    url: "/api/finance/wallet",
+    rawQuery: "type=SPOT",
+    rawBodyText: "",
+    remoteAddress: "203.0.113.7",
+    headers: {
+      ...headers,
+      "x-api-signature": signApiRequest(SECRET, {
+        timestamp: headers["x-api-timestamp"],
+        nonce: headers["x-api-nonce"],
+        method: "get",
+        path: "/api/finance/wallet?type=SPOT",
+        body: "",
+      }),
+      ...overrides,
+    },
+  };
+  return req;
+}
+
+async function verify(req: ReturnType<typeof signedRequest>) {
+  const res = { handleError: jest.fn() };
+  const next = jest.fn();
+  await handleApiVerification(res, req, next);
+  return {
+    error: res.handleError.mock.calls[0],
+    passed: next.mock.calls.length > 0,
+  };
+}
+
+beforeAll(() => {
+  setDynamicEncryptionKey(crypto.randomBytes(32).toString("hex"));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  nonces = new Set();
+  (models.apiKey.findOne as jest.Mock).mockResolvedValue({
+    id: "api-key-1",
+    type: "plugin",
+    encryptedSecret: encrypt(SECRET),
+    permissions: ["read"],
+    ipRestriction: false,
+    ipWhitelist: [],
+  });
+  (models.apiKey.update as jest.Mock).mockResolvedValue([1]);
+  (RedisSingleton.getInstance as jest.Mock).mockReturnValue({
+    set: jest.fn(async (key: string) => {
+      if (nonces.has(key)) return null;
+      nonces.add(key);
+      return "OK";
+    }),
+  });
+});
+
+describe("API key request signing", () => {
+  it("accepts a request signed with the decrypted secret", async () => {
+    expect(await verify(signedRequest())).toEqual({
+      error: undefined,
+      passed: true,
+    });
+  });
+
+  it("rejects a request signed with another secret", async () => {
+    const req = signedRequest({ "x-api-signature": "ab".repeat(32) });
+
+    expect(await verify(req)).toEqual({
+      error: [401, "Invalid signature"],
+      passed: false,
+    });
+  });
+
+  it("rejects a body changed after signing", async () => {
+    const req = { ...signedRequest(), rawBodyText: '{"amount":1}' };
+
+    expect((await verify(req)).error).toEqual([401, "Invalid signature"]);
+  });
+
+  it("rejects a timestamp outside the recv window", async () => {
+    const req = signedRequest({
+      "x-api-timestamp": String(Date.now() - 10000),
+    });
+
+    expect((await verify(req)).error).toEqual([
+      401,
+      "The request timestamp is outside the recv window",
+    ]);
+  });
+});
+
+describe("API key nonces", () => {
+  it("refuses a nonce that was already used", async () => {
+    const req = signedRequest();
+
+    expect((await verify(req)).passed).toBe(true);
+    expect(await verify(req)).toEqual({
+      error: [401, "This nonce has already been used"],
+      passed: false,
+    });
+  });
+
+  it("remembers a nonce per key for the recv window", async () => {
+    await verify(signedRequest());
+
+    const redis = (RedisSingleton.getInstance as jest.Mock).mock.results[0]
+      .value;
+    expect(redis.set).toHaveBeenCalledWith(
+      "apiKeyNonce:api-key-1:nonce-0001",
+      expect.any(Number),
+      "PX",
+      6000,
+      "NX"
+    );
+  });
+
+  it("does not store the nonce of a request with a bad signature", async () => {
+    await verify(signedRequest({ "x-api-signature": "ab".repeat(32) }));
+
+    expect(nonces.size).toBe(0);
+  });
+
+  it("rejects malformed nonces", async () => {
+    const req = signedRequest({ "x-api-nonce": "short" });
+
+    expect((await verify(req)).error).toEqual([
+      400,
+      "The nonce must be 8 to 64 letters, digits, dashes or underscores",
+    ]);
+  });
+});
@@ -9,22 +9,179 @@ import { Response } from "./Response";
 import { Request } from "./Request";
 import { MashServer } from "..";
 import logger, { logError } from "@b/utils/logger";
-import { models } from "@b/db";
+import { models, sequelize } from "@b/db";
+import { createError } from "@b/utils/error";
+import {
+  API_KEY_CLOCK_SKEW,
+  API_KEY_DEFAULT_RECV_WINDOW,
+  API_KEY_MAX_RECV_WINDOW,
+  isIpAllowed,
+  isValidApiSignature,
+  signApiRequest,
+} from "@b/utils/apiKey";
+import { decrypt } from "@b/utils/encrypt";
+import { isSecurityKeyRequiredForAdmins } from "@b/utils/webauthn";
+import { appendAuditEntry, collectAuditChanges } from "@b/utils/audit";
 
 const isDemo = process.env.NEXT_PUBLIC_DEMO_STATUS === "true" || false;
 const isMaintenance =
   process.env.NEXT_PUBLIC_MAINTENANCE_STATUS === "true" || false;
 const AUTH_PAGES = ["/logout"];
 
+// Routes an API key may only reach with the matching permission. Other reads
+// need the "read" permission, and other writes are closed to API keys.
 const PERMISSION_MAP = {
   trade: ["/api/exchange/order", "/api/ext/ecosystem/order"],
   futures: ["/api/ext/futures"],
   deposit: ["/api/finance/deposit"],
-  withdraw: ["/api/finance/withdraw"],
+  withdraw: ["/api/finance/withdraw", "/api/ext/ecosystem/withdraw"],
   transfer: ["/api/finance/transfer"],
   payment: ["/api/ext/payment/intent"],
 };
 
+const API_NONCE_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const AUDITED_METHODS = ["post", "put", "patch", "delete", "del"];
+const MAX_AUDIT_REASON_LENGTH = 500;
+
+function getApiKeyPermission(path: string, method: string): string | null {
+  const entry = Object.entries(PERMISSION_MAP).find(([_, routes]) =>
+    routes.some((route) => path.startsWith(route))
+  );
+  if (entry) return entry[0];
+  return method.toLowerCase() === "get" ? "read" : null;
+}
+
+/**
+ * Verifies a request made with an API key: the key must have a secret, the
+ * caller's IP must be allowed, and the request must be signed within the recv
+ * window with a nonce that was not used before. Returns the key on success.
+ */
+async function verifyApiKeyRequest(req: Request) {
+  const apiKeyRecord = await models.apiKey.findOne({
+    where: { key: req.headers["x-api-key"] },
+  });
+  if (!apiKeyRecord) {
+    throw createError({ statusCode: 401, message: "Invalid API key" });
+  }
+  if (!apiKeyRecord.encryptedSecret) {
+    throw createError({
+      statusCode: 401,
+      message: "This API key has no secret, generate one to sign requests",
+    });
+  }
+
+  const ipWhitelist =
+    typeof apiKeyRecord.ipWhitelist === "string"
+      ? JSON.parse(apiKeyRecord.ipWhitelist)
+      : apiKeyRecord.ipWhitelist || [];
+  if (
+    apiKeyRecord.ipRestriction &&
+    !isIpAllowed(req.remoteAddress, ipWhitelist)
+  ) {
+    throw createError({
+      statusCode: 403,
+      message: "This IP address is not allowed to use this API key",
+    });
+  }
+
+  const timestamp = req.headers["x-api-timestamp"];
+  const recvWindow = Number(
+    req.headers["x-api-recv-window"] || API_KEY_DEFAULT_RECV_WINDOW
+  );
+  const nonce = req.headers["x-api-nonce"];
+  const signature = req.headers["x-api-signature"];
+  if (!timestamp || !nonce || !signature) {
+    throw createError({
+      statusCode: 401,
+      message: "Signed requests need a timestamp, nonce and signature",
+    });
+  }
+  if (
+    !Number.isInteger(recvWindow) ||
+    recvWindow <= 0 ||
+    recvWindow > API_KEY_MAX_RECV_WINDOW
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: `The recv window must be between 1 and ${API_KEY_MAX_RECV_WINDOW} ms`,
+    });
+  }
+  if (!API_NONCE_PATTERN.test(nonce)) {
+    throw createError({
+      statusCode: 400,
+      message:
+        "The nonce must be 8 to 64 letters, digits, dashes or underscores",
+    });
+  }
+
+  const now = Date.now();
+  const requestTime = Number(timestamp);
+  if (
+    !Number.isFinite(requestTime) ||
+    requestTime > now + API_KEY_CLOCK_SKEW ||
+    now - requestTime > recvWindow
+  ) {
+    throw createError({
+      statusCode: 401,
+      message: "The request timestamp is outside the recv window",
+    });
+  }
+
+  const expected = signApiRequest(decrypt(apiKeyRecord.encryptedSecret), {
+    timestamp,
+    nonce,
+    method: req.method,
+    path: req.rawQuery ? `${req.url}?${req.rawQuery}` : req.url,
+    body: req.rawBodyText,
+  });
+  if (!isValidApiSignature(expected, signature)) {
+    throw createError({ statusCode: 401, message: "Invalid signature" });
+  }
+
+  // A nonce only has to be remembered for as long as its timestamp is
+  // accepted, after that the request is rejected as expired anyway
+  const stored = await RedisSingleton.getInstance().set(
+    `apiKeyNonce:${apiKeyRecord.id}:${nonce}`,
+    requestTime,
+    "PX",
+    recvWindow + API_KEY_CLOCK_SKEW,
+    "NX"
+  );
+  if (!stored) {
+    throw createError({
+      statusCode: 401,
+      message: "This nonce has already been used",
+    });
+  }
+
+  const permissions =
+    typeof apiKeyRecord.permissions === "string"
+      ? JSON.parse(apiKeyRecord.permissions)
+      : apiKeyRecord.permissions || [];
+  const requiredPermission = getApiKeyPermission(req.url, req.method);
+  if (!requiredPermission || !permissions.includes(requiredPermission)) {
+    throw createError({
+      statusCode: 403,
+      message:
+        "Forbidden - This API key does not have permission to access this",
+    });
+  }
+
+  models.apiKey
+    .update(
+      {
+        lastUsedAt: new Date(),
+        lastUsedIp: req.remoteAddress,
+        usageCount: sequelize.literal("usageCount + 1"),
+      },
+      { where: { id: apiKeyRecord.id } }
+    )
+    .catch((error) => logError("auth", error, __filename));
+
+  return { apiKeyRecord, permissions };
+}
+
 export async function authenticate(
   res: Response,
   req: Request,
@@ -46,20 +203,9 @@ export async function authenticate(
 
     const apiKey = req.headers["x-api-key"];
     if (apiKey) {
+      let verified;
       try {
-        // Fetch the API key details from the database
-        const apiKeyRecord = await models.apiKey.findOne({
-          where: { key: apiKey },
-        });
-        if (!apiKeyRecord) throw new Error("Invalid API Key");
-
-        const userPermissions =
-          typeof apiKeyRecord.permissions === "string"
-            ? JSON.parse(apiKeyRecord.permissions)
-            : apiKeyRecord.permissions;
-        req.setUser({ id: apiKeyRecord.userId, permissions: userPermissions });
-
-        return next(); // Pass control to the next middleware (rolesGate)
+        verified = await verifyApiKeyRequest(req);
       } catch (error) {
         logger(
           "error",
@@ -67,8 +213,13 @@ export async function authenticate(
           __filename,
           `API Key Verification Error: ${error.message}`
         );
-        return res.handleError(401, "Authentication Required");
+        return res.handleError(error.statusCode || 401, error.message);
       }
+
+      const { apiKeyRecord, permissions } = verified;
+      req.setUser({ id: apiKeyRecord.userId, permissions });
+
+      return next(); // Pass control to the next middleware (rolesGate)
     }
 
     const accessToken = req.cookies.accessToken || req.headers.accesstoken;
@@ -192,35 +343,20 @@ export async function handleApiVerification(res, req, next) {
       return res.handleError(401, "API key is required");
     }
 
-    const apiKeyRecord = await models.apiKey.findOne({
-      where: { key: apiKey },
-    });
-
-    if (!apiKeyRecord) {
-      return res.handleError(401, "Invalid API key");
+    let verified;
+    try {
+      verified = await verifyApiKeyRequest(req);
+    } catch (error) {
+      return res.handleError(error.statusCode || 401, error.message);
     }
 
-    const { type, permissions = [] } = apiKeyRecord;
-
-    if (type !== "plugin") {
+    if (verified.apiKeyRecord.type !== "plugin") {
       return res.handleError(
         403,
         "Forbidden: Access restricted to plugin type"
       );
     }
 
-    const routePermissions = Object.entries(PERMISSION_MAP).find(
-      ([_, routes]) => routes.some((route) => req.url.startsWith(route))
-    );
-
-    if (routePermissions) {
-      const [requiredPermission] = routePermissions;
-
-      if (!permissions.includes(requiredPermission)) {
-        return res.handleError(403, "Forbidden: Permission denied");
-      }
-    }
-
     // Allow access if all checks pass
     next();
   } catch (error) {
@@ -326,38 +462,7 @@ export async function rolesGate(
     const user = req.getUser();
     if (!user) return res.handleError(401, "Authentication Required");
 
-    // Check if the request is authenticated using API Key
-    if (req.headers["x-api-key"]) {
-      const apiKey = req.headers["x-api-key"];
-      const apiKeyRecord = await models.apiKey.findOne({
-        where: { key: apiKey },
-      });
-      if (!apiKeyRecord) return res.handleError(401, "Authentication Required");
-
-      const userPermissions =
-        typeof apiKeyRecord.permissions === "string"
-          ? JSON.parse(apiKeyRecord.permissions)
-          : apiKeyRecord.permissions;
-
-      // Check if route requires specific permissions based on API Key
-      for (const permission in PERMISSION_MAP) {
-        if (
-          PERMISSION_MAP[permission].some((route) =>
-            routePath.startsWith(route)
-          )
-        ) {
-          if (!userPermissions.includes(permission)) {
-            return res.handleError(
-              403,
-              "Forbidden - You do not have permission to access this"
-            );
-          }
-          break;
-        }
-      }
-    }
-
-    // Fallback to role-based authorization
+    // Role-based authorization
     const userRole = app.getRole(user.role);
 
     if (
@@ -370,6 +475,17 @@ export async function rolesGate(
         "Forbidden - You do not have permission to access this"
       );
 
+    if (
+      routePath.startsWith("/api/admin") &&
+      !user.webauthn &&
+      (await isSecurityKeyRequiredForAdmins())
+    ) {
+      return res.handleError(
+        403,
+        "Forbidden - Log in with your security key to access admin features"
+      );
+    }
+
     if (
       isDemo &&
       routePath.startsWith("/api/admin") &&
@@ -420,3 +536,46 @@ export async function siteMaintenanceAccessGate(app, res, req, next) {
     return res.handleError(500, error.message);
   }
 }
+
+/**
+ * Records every admin write in the audit trail: who made it from where, the
+ * route, the rows it changed and the reason given in the x-audit-reason
+ * header or the request body. The response is never held up or failed by the
+ * trail.
+ */
+export async function auditTrail(
+  res: Response,
+  req: Request,
+  routePath: string,
+  method: string,
+  next: NextFunction
+) {
+  if (!routePath.startsWith("/api/admin") || !AUDITED_METHODS.includes(method))
+    return next();
+
+  const changes = await collectAuditChanges(async () => {
+    await next();
+  });
+
+  try {
+    const reason = req.headers["x-audit-reason"] || req.body?.reason;
+    await appendAuditEntry(
+      {
+        userId: req.getUser()?.id,
+        ip: req.remoteAddress,
+        method: method === "del" ? "DELETE" : method.toUpperCase(),
+        route: routePath,
+        path: req.url,
+        params: req.params,
+        statusCode: res.statusCode,
+        reason:
+          typeof reason === "string"
+            ? reason.slice(0, MAX_AUDIT_REASON_LENGTH)
+            : undefined,
+      },
+      changes
+    );
+  } catch (error) {
+    logError("audit", error, __filename);
+  }
+}
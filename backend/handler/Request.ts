@@ -20,6 +20,9 @@ export class Request {
   public regExp: RegExp | undefined;
   public query: Record<string, any>;
   public body: any;
+  // Unparsed body and query string, kept for verifying request signatures
+  public rawBodyText = "";
+  public rawQuery = "";
   public params: Record<string, string> = {};
   public cookies: Record<string, string> = {};
   public headers: Record<string, string> = {};
@@ -93,7 +96,8 @@ export class Request {
   }
 
   public parseQuery(): Record<string, any> {
-    return url.parse(`?${this.req.getQuery()}`, true).query;
+    this.rawQuery = this.req.getQuery() || "";
+    return url.parse(`?${this.rawQuery}`, true).query;
   }
 
   public async parseBody(): Promise<void> {
@@ -116,6 +120,7 @@ export class Request {
 
     try {
       const bodyContent = await this.readRequestBody();
+      this.rawBodyText = bodyContent;
 
       this.body = this.processBodyContent(contentType, bodyContent);
 
@@ -336,8 +341,10 @@ export class Request {
   }
 
   public getUser(): {
-    id: number;
+    id: string;
     role: number;
+    // Set on sessions opened with a passkey
+    webauthn?: boolean;
   } | null {
     return this.user;
   }
@@ -14,6 +14,8 @@ const isProd = process.env.NODE_ENV === "production";
 
 export class Response {
   private aborted = false;
+  // Status of the response once it is sent
+  public statusCode?: number;
 
   constructor(private res: HttpResponse) {
     this.res.onAborted(() => {
@@ -27,6 +29,7 @@ export class Response {
 
   public handleError(code: number, message: any) {
     const errorMsg = typeof message === "string" ? message : String(message);
+    this.statusCode = code;
     this.res.cork(() => {
       this.res
         .writeStatus(`${code} ${getStatusMessage(code)}`)
@@ -237,6 +240,7 @@ export class Response {
     if (this.aborted) {
       return;
     }
+    this.statusCode = Number(statusCode);
 
     try {
       this.res.cork(() => {
@@ -2,6 +2,7 @@ import fs from "fs/promises";
 import path from "path";
 import { Request, Response } from "..";
 import {
+  auditTrail,
   authenticate,
   handleApiVerification,
   rateLimit,
@@ -161,7 +162,9 @@ async function handleHttpMethod(app, method, routePath, entryPath) {
       await authenticate(res, req, async () => {
         await rolesGate(app, res, req, routePath, method, async () => {
           await siteMaintenanceAccessGate(app, res, req, async () => {
-            await handleRequest(res, req, handler, entryPath);
+            await auditTrail(res, req, routePath, method, async () => {
+              await handleRequest(res, req, handler, entryPath);
+            });
             endBenchmarking();
           });
         });
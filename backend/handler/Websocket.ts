@@ -6,8 +6,40 @@ import { makeUuid } from "@b/utils/passwords";
 import { getRecord, getRecords } from "@b/utils/query";
 import { logError } from "@b/utils/logger";
 import { routeCache } from "./Routes";
+import WebsocketBroker, { BrokerEnvelope } from "./WebsocketBroker";
 
 const clients = new Map();
+const broker = WebsocketBroker.getInstance();
+
+// Delivers messages published by other backend instances to local sockets
+const deliverEnvelope = (envelope: BrokerEnvelope) => {
+  switch (envelope.kind) {
+    case "route":
+      deliverToRoute(envelope.route, envelope.subscription, envelope.message);
+      break;
+    case "routeClients":
+      deliverToRouteClients(envelope.route, envelope.message);
+      break;
+    case "client":
+      deliverToClient(
+        envelope.route,
+        envelope.clientId,
+        envelope.message,
+        envelope.isBinary
+      );
+      break;
+  }
+};
+
+const listClients = () => {
+  const entries: [string, string][] = [];
+  clients.forEach((routeClients, route) => {
+    routeClients.forEach((_details, clientId) => {
+      entries.push([route, clientId]);
+    });
+  });
+  return entries;
+};
 
 export async function handleWsMethod(app, routePath, entryPath) {
   let handler, metadata, onClose;
@@ -37,6 +69,8 @@ export async function handleWsMethod(app, routePath, entryPath) {
     throw new Error(`Handler is not a function for ${entryPath}`);
   }
 
+  broker.start({ deliver: deliverEnvelope, listClients });
+
   app.ws(routePath, {
     upgrade: async (response, request, context) => {
       const res = new Response(response);
@@ -153,6 +187,7 @@ export const addClient = (route, clientId, ws, subscription) => {
       ws,
       subscriptions: new Set(subscription ? [subscription] : []),
     });
+    broker.trackClient(route, clientId);
   } else {
     const clientDetails = routeClients.get(clientId);
     if (subscription) {
@@ -164,7 +199,9 @@ export const addClient = (route, clientId, ws, subscription) => {
 export const removeClient = (route, clientId) => {
   if (clients.has(route)) {
     const routeClients = clients.get(route);
-    routeClients.delete(clientId);
+    if (routeClients.delete(clientId)) {
+      broker.untrackClient(route, clientId);
+    }
     if (routeClients.size === 0) {
       clients.delete(route);
     }
@@ -177,6 +214,7 @@ export const removeSubscription = (route, clientId, subscription) => {
     clientDetails.subscriptions.delete(subscription);
     if (clientDetails.subscriptions.size === 0) {
       clients.get(route).delete(clientId);
+      broker.untrackClient(route, clientId);
       if (clients.get(route).size === 0) {
         clients.delete(route);
       }
@@ -206,54 +244,49 @@ function handleSubscriptionChange(ws, parsedMessage) {
   }
 }
 
-export const sendMessageToClient = (clientId, message, isBinary = false) => {
-  const route = "/api/user";
-  if (clients.has(route) && clients.get(route).has(clientId)) {
-    const clientDetails = clients.get(route).get(clientId);
-    try {
-      clientDetails.ws.cork(() => {
-        if (isBinary) {
-          // If the message should be sent as binary, we need to convert it to a buffer
-          const bufferMessage = Buffer.from(JSON.stringify(message));
-          clientDetails.ws.send(bufferMessage, true); // The second parameter indicates it's a binary message
-        } else {
-          clientDetails.ws.send(JSON.stringify(message));
-        }
-      });
-    } catch (error) {
-      logError("websocket", error, route);
-      clients.get(route).delete(clientId);
-    }
-  } else {
-    console.error(`Client ${clientId} not found in route ${route}`);
+// Sends to a socket held by this node, returning false if there is none
+const deliverToClient = (route, clientId, message, isBinary = false) => {
+  if (!clients.has(route) || !clients.get(route).has(clientId)) {
+    return false;
   }
-};
 
-export const sendMessageToRoute = (route, payload, data) => {
+  const clientDetails = clients.get(route).get(clientId);
   try {
-    const subscription = JSON.stringify(payload);
-    const message = JSON.stringify(data);
-    if (clients.has(route)) {
-      const routeClients = clients.get(route);
-      routeClients.forEach((clientDetails) => {
-        if (clientDetails.subscriptions.has(subscription)) {
-          try {
-            clientDetails.ws.cork(() => {
-              clientDetails.ws.send(message);
-            });
-          } catch (error) {
-            logError("websocket", error, route);
-          }
-        }
-      });
-    }
+    clientDetails.ws.cork(() => {
+      if (isBinary) {
+        // If the message should be sent as binary, we need to convert it to a buffer
+        const bufferMessage = Buffer.from(message);
+        clientDetails.ws.send(bufferMessage, true); // The second parameter indicates it's a binary message
+      } else {
+        clientDetails.ws.send(message);
+      }
+    });
   } catch (error) {
-    console.log("Error in sendMessageToRoute", error);
+    logError("websocket", error, route);
+    clients.get(route).delete(clientId);
+    broker.untrackClient(route, clientId);
   }
+  return true;
 };
 
-export const sendMessageToRouteClients = (route, data) => {
-  const message = JSON.stringify(data);
+const deliverToRoute = (route, subscription, message) => {
+  if (clients.has(route)) {
+    const routeClients = clients.get(route);
+    routeClients.forEach((clientDetails) => {
+      if (clientDetails.subscriptions.has(subscription)) {
+        try {
+          clientDetails.ws.cork(() => {
+            clientDetails.ws.send(message);
+          });
+        } catch (error) {
+          logError("websocket", error, route);
+        }
+      }
+    });
+  }
+};
+
+const deliverToRouteClients = (route, message) => {
   if (clients.has(route)) {
     const routeClients = clients.get(route);
     routeClients.forEach((clientDetails) => {
@@ -268,8 +301,65 @@ export const sendMessageToRouteClients = (route, data) => {
   }
 };
 
+/**
+ * Sends a message to a user's socket on /api/user, on whichever backend
+ * instance holds it.
+ */
+export const sendMessageToClient = (clientId, message, isBinary = false) => {
+  const route = "/api/user";
+  const data = JSON.stringify(message);
+  if (deliverToClient(route, clientId, data, isBinary)) return;
+
+  broker
+    .sendToClient({ kind: "client", route, clientId, message: data, isBinary })
+    .then((sent) => {
+      if (!sent) {
+        console.error(`Client ${clientId} not found in route ${route}`);
+      }
+    })
+    .catch((error) => logError("websocket", error, route));
+};
+
+/**
+ * Sends a message to the clients of a route subscribed to the payload, across
+ * all backend instances. Pass `local` for data every instance produces on its
+ * own, such as polled tickers, so subscribers do not receive it twice.
+ */
+export const sendMessageToRoute = (
+  route,
+  payload,
+  data,
+  options: { local?: boolean } = {}
+) => {
+  try {
+    const subscription = JSON.stringify(payload);
+    const message = JSON.stringify(data);
+    deliverToRoute(route, subscription, message);
+    if (!options.local) {
+      broker.publish({ kind: "route", route, subscription, message });
+    }
+  } catch (error) {
+    console.log("Error in sendMessageToRoute", error);
+  }
+};
+
+export const sendMessageToRouteClients = (
+  route,
+  data,
+  options: { local?: boolean } = {}
+) => {
+  const message = JSON.stringify(data);
+  deliverToRouteClients(route, message);
+  if (!options.local) {
+    broker.publish({ kind: "routeClients", route, message });
+  }
+};
+
 export const getClients = () => clients;
 export const hasClients = (route) => clients.has(route);
+// Whether any backend instance has clients on the route
+export const hasClusterClients = async (route) =>
+  clients.has(route) || (await broker.getClusterClientCount(route)) > 0;
 export const getRouteClients = (route) => {
   if (clients.has(route)) {
     return clients.get(route);
@@ -0,0 +1,128 @@
+import { RedisSingleton } from "@b/utils/redis";
+import WebsocketBroker, { NODE_ID } from "./WebsocketBroker";
+
+// Hashes and keys of an in-memory Redis, with the untrack script run as a
+// compare-and-delete
+jest.mock("@b/utils/redis", () => {
+  const hashes: Record<string, Record<string, string>> = {};
+  const keys = new Set<string>();
+  const subscriber = { on: jest.fn(), subscribe: jest.fn() };
+  const redis = {
+    hashes,
+    keys,
+    hget: async (key: string, field: string) => hashes[key]?.[field] ?? null,
+    hset: async (key: string, field: string, value: string) => {
+      (hashes[key] ||= {})[field] = value;
+    },
+    hlen: async (key: string) => Object.keys(hashes[key] || {}).length,
+    exists: async (key: string) => (keys.has(key) ? 1 : 0),
+    eval: jest.fn(
+      async (script, numKeys, key: string, field: string, value: string) => {
+        if (hashes[key]?.[field] !== value) return 0;
+        delete hashes[key][field];
+        return 1;
+      }
+    ),
+    publish: jest.fn(async () => 1),
+  };
+  return {
+    RedisSingleton: {
+      getInstance: () => redis,
+      getSubscriberInstance: () => subscriber,
+    },
+  };
+});
+
+jest.mock("@b/utils/passwords", () => ({ makeUuid: () => "node-a" }));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+const redis = RedisSingleton.getInstance() as any;
+const broker = WebsocketBroker.getInstance();
+
+const ROUTE = "/api/user/notification";
+
+function connect(clientId: string, nodeId: string, alive = true) {
+  (redis.hashes[`ws:presence:${ROUTE}`] ||= {})[clientId] = nodeId;
+  if (alive) redis.keys.add(`ws:heartbeat:${nodeId}`);
+}
+
+const published = () =>
+  (redis.publish as jest.Mock).mock.calls.map(([channel, raw]) => ({
+    channel,
+    ...JSON.parse(raw),
+  }));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  for (const key of Object.keys(redis.hashes)) delete redis.hashes[key];
+  redis.keys.clear();
+});
+
+describe("locateClient", () => {
+  it("finds the node holding the client", async () => {
+    connect("client-1", "node-b");
+
+    await expect(broker.locateClient(ROUTE, "client-1")).resolves.toBe(
+      "node-b"
+    );
+    await expect(broker.locateClient(ROUTE, "client-2")).resolves.toBeNull();
+  });
+
+  it("drops the entry of a node that stopped sending heartbeats", async () => {
+    connect("client-1", "node-b", false);
+
+    await expect(broker.locateClient(ROUTE, "client-1")).resolves.toBeNull();
+    expect(redis.hashes[`ws:presence:${ROUTE}`]).toEqual({});
+    await expect(broker.getClusterClientCount(ROUTE)).resolves.toBe(0);
+  });
+
+  it("keeps an entry the client moved to a live node meanwhile", async () => {
+    connect("client-1", "node-b", false);
+    // The client reconnects elsewhere between the lookup and the cleanup
+    const untrack = redis.eval.getMockImplementation();
+    redis.eval.mockImplementationOnce(async (...args) => {
+      connect("client-1", "node-c");
+      return untrack(...args);
+    });
+
+    await broker.locateClient(ROUTE, "client-1");
+
+    expect(redis.hashes[`ws:presence:${ROUTE}`]).toEqual({
+      "client-1": "node-c",
+    });
+  });
+});
+
+describe("sendToClient", () => {
+  const envelope = {
+    kind: "client" as const,
+    route: ROUTE,
+    clientId: "client-1",
+    message: '{"type":"notification"}',
+    isBinary: false,
+  };
+
+  it("publishes to the node holding the client", async () => {
+    connect("client-1", "node-b");
+
+    await expect(broker.sendToClient(envelope)).resolves.toBe(true);
+    expect(published()).toEqual([
+      { channel: "ws:node:node-b", origin: NODE_ID, envelope },
+    ]);
+  });
+
+  it("publishes nothing for a client connected nowhere", async () => {
+    connect("client-1", "node-b", false);
+
+    await expect(broker.sendToClient(envelope)).resolves.toBe(false);
+    expect(redis.publish).not.toHaveBeenCalled();
+  });
+
+  it("leaves clients of this node to the local sockets", async () => {
+    connect("client-1", NODE_ID);
+
+    await expect(broker.sendToClient(envelope)).resolves.toBe(false);
+    expect(redis.publish).not.toHaveBeenCalled();
+  });
+});
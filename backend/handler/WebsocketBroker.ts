@@ -0,0 +1,169 @@
+import { RedisSingleton } from "@b/utils/redis";
+import { makeUuid } from "@b/utils/passwords";
+import { logError } from "@b/utils/logger";
+
+const BROADCAST_CHANNEL = "ws:broadcast";
+const NODE_CHANNEL_PREFIX = "ws:node:";
+const PRESENCE_PREFIX = "ws:presence:";
+const HEARTBEAT_PREFIX = "ws:heartbeat:";
+
+// Nodes that miss a few heartbeats are treated as gone
+const HEARTBEAT_INTERVAL = 15 * 1000;
+const HEARTBEAT_TTL = 45;
+
+// Only drops the presence entry if it still points at this node, since the
+// client may have reconnected to another one meanwhile
+const UNTRACK_SCRIPT = `
+  if redis.call("HGET", KEYS[1], ARGV[1]) == ARGV[2] then
+    return redis.call("HDEL", KEYS[1], ARGV[1])
+  end
+  return 0
+`;
+
+export const NODE_ID = makeUuid();
+
+export type BrokerEnvelope =
+  | { kind: "route"; route: string; subscription: string; message: string }
+  | { kind: "routeClients"; route: string; message: string }
+  | {
+      kind: "client";
+      route: string;
+      clientId: string;
+      message: string;
+      isBinary: boolean;
+    };
+
+interface BrokerHooks {
+  // Delivers a message published by another node to the sockets held here
+  deliver: (envelope: BrokerEnvelope) => void;
+  // Lists the clients connected to this node as [route, clientId] pairs
+  listClients: () => [string, string][];
+}
+
+/**
+ * Fans websocket messages out across backend instances over Redis pub/sub.
+ * Route messages are broadcast to every node, while client messages are sent
+ * to the node holding the socket, found through a presence hash per route.
+ */
+class WebsocketBroker {
+  private static instance: WebsocketBroker;
+  private redis = RedisSingleton.getInstance();
+  private hooks: BrokerHooks | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): WebsocketBroker {
+    if (!WebsocketBroker.instance) {
+      WebsocketBroker.instance = new WebsocketBroker();
+    }
+    return WebsocketBroker.instance;
+  }
+
+  public async start(hooks: BrokerHooks) {
+    if (this.hooks) return;
+    this.hooks = hooks;
+
+    const subscriber = RedisSingleton.getSubscriberInstance();
+    subscriber.on("message", (_channel, raw) => this.onMessage(raw));
+    try {
+      await subscriber.subscribe(
+        BROADCAST_CHANNEL,
+        `${NODE_CHANNEL_PREFIX}${NODE_ID}`
+      );
+      await this.beat();
+    } catch (error) {
+      logError("websocket", error, __filename);
+    }
+    this.heartbeat = setInterval(() => this.beat(), HEARTBEAT_INTERVAL);
+  }
+
+  private onMessage(raw: string) {
+    try {
+      const { origin, envelope } = JSON.parse(raw);
+      if (origin === NODE_ID || !this.hooks) return;
+      this.hooks.deliver(envelope);
+    } catch (error) {
+      logError("websocket", error, __filename);
+    }
+  }
+
+  // Refreshes this node's heartbeat and re-asserts its presence entries, which
+  // restores them if Redis lost its data
+  private async beat() {
+    try {
+      const pipeline = this.redis.pipeline();
+      pipeline.set(
+        `${HEARTBEAT_PREFIX}${NODE_ID}`,
+        Date.now(),
+        "EX",
+        HEARTBEAT_TTL
+      );
+      for (const [route, clientId] of this.hooks?.listClients() || []) {
+        pipeline.hset(`${PRESENCE_PREFIX}${route}`, clientId, NODE_ID);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      logError("websocket", error, __filename);
+    }
+  }
+
+  private publishTo(channel: string, envelope: BrokerEnvelope) {
+    this.redis
+      .publish(channel, JSON.stringify({ origin: NODE_ID, envelope }))
+      .catch((error) => logError("websocket", error, __filename));
+  }
+
+  public publish(envelope: BrokerEnvelope) {
+    this.publishTo(BROADCAST_CHANNEL, envelope);
+  }
+
+  public trackClient(route: string, clientId: string) {
+    this.redis
+      .hset(`${PRESENCE_PREFIX}${route}`, clientId, NODE_ID)
+      .catch((error) => logError("websocket", error, __filename));
+  }
+
+  public untrackClient(route: string, clientId: string) {
+    this.redis
+      .eval(UNTRACK_SCRIPT, 1, `${PRESENCE_PREFIX}${route}`, clientId, NODE_ID)
+      .catch((error) => logError("websocket", error, __filename));
+  }
+
+  /**
+   * Finds the node holding a client's socket on a route, dropping entries left
+   * behind by nodes that stopped.
+   */
+  public async locateClient(
+    route: string,
+    clientId: string
+  ): Promise<string | null> {
+    const key = `${PRESENCE_PREFIX}${route}`;
+    const nodeId = await this.redis.hget(key, clientId);
+    if (!nodeId) return null;
+
+    if (!(await this.redis.exists(`${HEARTBEAT_PREFIX}${nodeId}`))) {
+      await this.redis.eval(UNTRACK_SCRIPT, 1, key, clientId, nodeId);
+      return null;
+    }
+    return nodeId;
+  }
+
+  // Sends a message to the node holding the client, returning false if the
+  // client is not connected anywhere
+  public async sendToClient(
+    envelope: Extract<BrokerEnvelope, { kind: "client" }>
+  ): Promise<boolean> {
+    const nodeId = await this.locateClient(envelope.route, envelope.clientId);
+    if (!nodeId || nodeId === NODE_ID) return false;
+    this.publishTo(`${NODE_CHANNEL_PREFIX}${nodeId}`, envelope);
+    return true;
+  }
+
+  // Counts the clients connected to a route across all nodes
+  public async getClusterClientCount(route: string): Promise<number> {
+    return this.redis.hlen(`${PRESENCE_PREFIX}${route}`);
+  }
+}
+
+export default WebsocketBroker;
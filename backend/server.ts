@@ -28,6 +28,7 @@ import { baseUrl } from "@b/utils/constants";
 import { CacheManager } from "./utils/cache";
 import { isMainThread, threadId } from "worker_threads";
 import { sequelize } from "@b/db";
+import { serveMailwizardTracking } from "@b/utils/mailwizard";
 
 export class MashServer extends RouteHandler {
   private app;
@@ -52,7 +53,11 @@ export class MashServer extends RouteHandler {
 
       try {
         const url = req.getUrl();
-        if (["/uploads/", "/themes/"].some((path) => url.startsWith(path))) {
+        if (
+          ["/uploads/", "/themes/", "/private/"].some((path) =>
+            url.startsWith(path)
+          )
+        ) {
           const handled = serveStaticFile(
             res,
             req,
@@ -61,6 +66,10 @@ export class MashServer extends RouteHandler {
           );
           if (handled) return;
         }
+        if (url.startsWith("/mailwizard/")) {
+          serveMailwizardTracking(res, req, url, () => (responseSent = true));
+          return;
+        }
         this.processRoute(res, req, () => (responseSent = true));
       } catch (error) {
         console.error("Server error :", error);
@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import {
+  generateApiSecret,
+  isIpAllowed,
+  isValidApiSignature,
+  signApiRequest,
+} from "./apiKey";
+import { decrypt, setDynamicEncryptionKey } from "./encrypt";
+
+beforeAll(() => {
+  setDynamicEncryptionKey(crypto.randomBytes(32).toString("hex"));
+});
+
+const request = {
+  timestamp: 1700000000000,
+  nonce: "nonce-0001",
+  method: "post",
+  path: "/api/exchange/order?symbol=BTC/USDT",
+  body: '{"amount":1}',
+};
+
+describe("generateApiSecret", () => {
+  it("stores the secret encrypted and never in the clear", () => {
+    const { secret, encryptedSecret } = generateApiSecret();
+
+    expect(secret).toMatch(/^[A-Za-z0-9]{64}$/);
+    expect(encryptedSecret).not.toContain(secret);
+    expect(decrypt(encryptedSecret)).toBe(secret);
+  });
+});
+
+describe("signApiRequest", () => {
+  it("signs the concatenated request with the secret", () => {
+    const expected = crypto
+      .createHmac("sha256", "secret")
+      .update(
+        '1700000000000nonce-0001POST/api/exchange/order?symbol=BTC/USDT{"amount":1}'
+      )
+      .digest("hex");
+
+    expect(signApiRequest("secret", request)).toBe(expected);
+  });
+
+  it("changes with every signed part", () => {
+    const signature = signApiRequest("secret", request);
+
+    expect(signApiRequest("other", request)).not.toBe(signature);
+    expect(
+      signApiRequest("secret", { ...request, nonce: "nonce-0002" })
+    ).not.toBe(signature);
+    expect(signApiRequest("secret", { ...request, body: "{}" })).not.toBe(
+      signature
+    );
+  });
+});
+
+describe("isValidApiSignature", () => {
+  it("accepts only the exact signature", () => {
+    const signature = signApiRequest("secret", request);
+
+    expect(isValidApiSignature(signature, signature)).toBe(true);
+    expect(isValidApiSignature(signature, signature.slice(0, -2))).toBe(false);
+    expect(isValidApiSignature(signature, "")).toBe(false);
+  });
+});
+
+describe("isIpAllowed", () => {
+  it("matches single addresses and CIDR ranges", () => {
+    const whitelist = ["203.0.113.7", "198.51.100.0/24"];
+
+    expect(isIpAllowed("203.0.113.7", whitelist)).toBe(true);
+    expect(isIpAllowed("198.51.100.42", whitelist)).toBe(true);
+    expect(isIpAllowed("192.0.2.1", whitelist)).toBe(false);
+  });
+});
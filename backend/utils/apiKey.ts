@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import ip from "ip";
+import { encrypt } from "./encrypt";
+
+// How far a signed request's timestamp may lag behind the server clock
+export const API_KEY_DEFAULT_RECV_WINDOW = 5000;
+export const API_KEY_MAX_RECV_WINDOW = 60000;
+// Tolerated drift for clients whose clock runs ahead of the server
+export const API_KEY_CLOCK_SKEW = 1000;
+
+const KEY_CHARACTERS =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * @desc Generates a random alphanumeric string for API keys and secrets
+ * @param length Length of the generated string
+ */
+export function generateApiKey(length = 64): string {
+  const bytes = crypto.randomBytes(length);
+  let apiKey = "";
+  for (let i = 0; i < length; i++) {
+    // 248 is the largest multiple of 62 below 256, which avoids modulo bias
+    let byte = bytes[i];
+    while (byte >= 248) {
+      byte = crypto.randomBytes(1)[0];
+    }
+    apiKey += KEY_CHARACTERS.charAt(byte % KEY_CHARACTERS.length);
+  }
+  return apiKey;
+}
+
+/**
+ * @desc Generates a new secret with the encrypted copy to store for it. The
+ * secret is shown to the owner once and only kept encrypted afterwards.
+ */
+export function generateApiSecret(): {
+  secret: string;
+  encryptedSecret: string;
+} {
+  const secret = generateApiKey(64);
+  return { secret, encryptedSecret: encrypt(secret) };
+}
+
+/**
+ * @desc Signs a request as clients are expected to: an HMAC-SHA256, keyed
+ * with the secret, over the timestamp, nonce, upper-case method, path with
+ * query string and raw body, concatenated in that order.
+ */
+export function signApiRequest(
+  secret: string,
+  {
+    timestamp,
+    nonce,
+    method,
+    path,
+    body,
+  }: {
+    timestamp: string | number;
+    nonce: string;
+    method: string;
+    path: string;
+    body: string;
+  }
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}${nonce}${method.toUpperCase()}${path}${body}`)
+    .digest("hex");
+}
+
+export function isValidApiSignature(expected: string, actual: string) {
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const actualBuffer = Buffer.from(actual || "", "hex");
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+/**
+ * @desc Checks an address against an allow-list of single addresses and
+ * CIDR ranges
+ */
+export function isIpAllowed(address: string, whitelist: string[]): boolean {
+  return whitelist.some((entry) => {
+    try {
+      return entry.includes("/")
+        ? ip.cidrSubnet(entry).contains(address)
+        : ip.isEqual(entry, address);
+    } catch (error) {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,344 @@
+import { models } from "@b/db";
+import { getUsdPrice } from "@b/utils/fees";
+import { handleNotification } from "@b/utils/notifications";
+import { updateWalletBalance } from "@b/api/admin/finance/wallet/[id]/balance.post";
+import { deleteRole } from "@b/api/admin/crm/role/[id]/index.del";
+import {
+  expireApprovalRequests,
+  requestApproval,
+  reviewApprovalRequest,
+} from "./approvals";
+
+jest.mock("@b/db", () => ({
+  models: {
+    approvalRequest: {
+      create: jest.fn(),
+      findByPk: jest.fn(),
+      findAll: jest.fn(),
+      update: jest.fn(),
+    },
+    approvalComment: { create: jest.fn() },
+    user: { findByPk: jest.fn() },
+  },
+}));
+
+const settings: Record<string, any> = {};
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getSetting: async (key: string) => settings[key] }),
+  },
+}));
+
+jest.mock("@b/utils/fees", () => ({ getUsdPrice: jest.fn() }));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+jest.mock("@b/utils/notifications", () => ({
+  handleNotification: jest.fn().mockResolvedValue(undefined),
+  notifyUsersWithPermission: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock("@b/utils/query", () => ({ updateRecord: jest.fn() }));
+
+jest.mock("@b/utils/roles", () => ({
+  rolesManager: {
+    roles: new Map([
+      ["super", { name: "Super Admin", permissions: [] }],
+      [
+        "finance",
+        {
+          name: "Finance",
+          permissions: [
+            "Access Approval Management",
+            "Access Wallet Management",
+            "Access Role Management",
+          ],
+        },
+      ],
+      [
+        "support",
+        { name: "Support", permissions: ["Access Wallet Management"] },
+      ],
+    ]),
+  },
+}));
+
+jest.mock("@b/api/admin/finance/wallet/[id]/balance.post", () => ({
+  updateWalletBalance: jest.fn(),
+}));
+jest.mock("@b/api/admin/finance/wallet/[id]/withdraw/approve.post", () => ({
+  approveSpotWithdrawal: jest.fn(),
+}));
+jest.mock("@b/api/admin/crm/role/[id]/index.put", () => ({
+  updateRole: jest.fn(),
+}));
+jest.mock("@b/api/admin/crm/role/[id]/index.del", () => ({
+  deleteRole: jest.fn(),
+}));
+jest.mock("@b/api/admin/crm/role/[id]/sync.post", () => ({
+  syncRolePermissions: jest.fn(),
+}));
+jest.mock(
+  "@b/api/admin/ext/ecosystem/wallet/custodial/[id]/transfer/native.post",
+  () => ({ transferCustodialNative: jest.fn() })
+);
+jest.mock(
+  "@b/api/admin/ext/ecosystem/wallet/custodial/[id]/transfer/token.post",
+  () => ({ transferCustodialTokens: jest.fn() })
+);
+
+const HOUR = 60 * 60 * 1000;
+
+// Users by id, with the id of their role
+const users: Record<string, string> = {
+  requester: "finance",
+  reviewer: "finance",
+  support: "support",
+  root: "super",
+};
+
+function makeRequest(overrides: Record<string, any> = {}) {
+  const request = {
+    id: "request-1",
+    action: "walletBalance",
+    summary: "Add 100 USDT",
+    payload: { walletId: "wallet-1", type: "ADD", amount: 100 },
+    status: "PENDING",
+    requestedById: "requester",
+    expiresAt: new Date(Date.now() + HOUR),
+    ...overrides,
+  };
+  (models.approvalRequest.findByPk as jest.Mock).mockResolvedValue(request);
+  return request;
+}
+
+const statusUpdates = () =>
+  (models.approvalRequest.update as jest.Mock).mock.calls.map(
+    ([values, { where }]) => ({ ...values, where })
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  for (const key of Object.keys(settings)) delete settings[key];
+  (models.user.findByPk as jest.Mock).mockImplementation(async (id) =>
+    users[id] ? { id, roleId: users[id] } : null
+  );
+  (models.approvalRequest.create as jest.Mock).mockImplementation(
+    async (values) => ({ id: "request-1", ...values })
+  );
+  (models.approvalRequest.update as jest.Mock).mockResolvedValue([1]);
+});
+
+describe("requestApproval", () => {
+  const balanceChange = (value: number) => ({
+    summary: "Add funds",
+    payload: { walletId: "wallet-1", type: "ADD", amount: value },
+    amount: { currency: "BTC", value },
+  });
+
+  it("runs amounts under the threshold right away", async () => {
+    settings.approvalWalletBalanceThreshold = "1000";
+    (getUsdPrice as jest.Mock).mockResolvedValue(100);
+
+    await expect(
+      requestApproval("walletBalance", balanceChange(10), { id: "requester" })
+    ).resolves.toBeNull();
+    expect(models.approvalRequest.create).not.toHaveBeenCalled();
+  });
+
+  it("holds amounts above the threshold for a day by default", async () => {
+    settings.approvalWalletBalanceThreshold = "1000";
+    (getUsdPrice as jest.Mock).mockResolvedValue(100);
+
+    const request = await requestApproval(
+      "walletBalance",
+      balanceChange(11),
+      { id: "requester" },
+      "Customer refund"
+    );
+
+    expect(request).toMatchObject({
+      type: "WALLET_BALANCE",
+      valueUsd: 1100,
+      requestedById: "requester",
+    });
+    expect(request!.expiresAt.getTime() - Date.now()).toBeCloseTo(
+      24 * HOUR,
+      -4
+    );
+    expect(models.approvalComment.create).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Customer refund" })
+    );
+  });
+
+  it("holds amounts that can't be priced when a threshold is set", async () => {
+    settings.approvalWalletBalanceThreshold = "1000";
+    (getUsdPrice as jest.Mock).mockResolvedValue(0);
+
+    const request = await requestApproval(
+      "walletBalance",
+      balanceChange(0.0001),
+      { id: "requester" }
+    );
+
+    expect(request).toMatchObject({ valueUsd: undefined });
+  });
+
+  it("runs everything right away without a threshold", async () => {
+    (getUsdPrice as jest.Mock).mockResolvedValue(0);
+
+    await expect(
+      requestApproval("walletBalance", balanceChange(1e9), { id: "requester" })
+    ).resolves.toBeNull();
+  });
+});
+
+describe("reviewApprovalRequest", () => {
+  it("refuses a requester approving their own request", async () => {
+    makeRequest();
+
+    await expect(
+      reviewApprovalRequest("request-1", "requester", "APPROVE")
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(models.approvalRequest.update).not.toHaveBeenCalled();
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+
+  it("needs the approval permission and that of the action", async () => {
+    makeRequest();
+
+    await expect(
+      reviewApprovalRequest("request-1", "support", "APPROVE")
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      message: "You do not have permission to review this action",
+    });
+  });
+
+  it("leaves role changes to super admins", async () => {
+    makeRequest({ action: "roleDelete", payload: { roleId: "role-1" } });
+
+    await expect(
+      reviewApprovalRequest("request-1", "reviewer", "APPROVE")
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(deleteRole).not.toHaveBeenCalled();
+
+    await reviewApprovalRequest("request-1", "root", "APPROVE");
+    expect(deleteRole).toHaveBeenCalledWith("role-1");
+  });
+
+  it("claims the request before running its action", async () => {
+    makeRequest();
+    (updateWalletBalance as jest.Mock).mockResolvedValue({ balance: 100 });
+
+    await expect(
+      reviewApprovalRequest("request-1", "reviewer", "APPROVE", " Checked ")
+    ).resolves.toEqual({
+      message: "Approval request approved and carried out",
+    });
+
+    expect(statusUpdates()).toEqual([
+      {
+        status: "APPROVED",
+        reviewedById: "reviewer",
+        reviewedAt: expect.any(Date),
+        where: { id: "request-1", status: "PENDING" },
+      },
+      { result: { balance: 100 }, where: { id: "request-1" } },
+    ]);
+    expect(updateWalletBalance).toHaveBeenCalledWith("wallet-1", "ADD", 100);
+    expect(models.approvalComment.create).toHaveBeenCalledWith({
+      approvalRequestId: "request-1",
+      userId: "reviewer",
+      message: "Checked",
+    });
+  });
+
+  it("refuses a second reviewer that lost the claim", async () => {
+    makeRequest();
+    (models.approvalRequest.update as jest.Mock).mockResolvedValueOnce([0]);
+
+    await expect(
+      reviewApprovalRequest("request-1", "reviewer", "APPROVE")
+    ).rejects.toMatchObject({
+      statusCode: 409,
+      message: "Approval request was already reviewed",
+    });
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+
+  it("marks an approved action that throws as failed", async () => {
+    makeRequest();
+    (updateWalletBalance as jest.Mock).mockRejectedValue(
+      new Error("Wallet not found")
+    );
+
+    await expect(
+      reviewApprovalRequest("request-1", "reviewer", "APPROVE")
+    ).rejects.toMatchObject({
+      statusCode: 500,
+      message: "The approved action failed: Wallet not found",
+    });
+    expect(statusUpdates()[1]).toEqual({
+      status: "FAILED",
+      error: "Wallet not found",
+      where: { id: "request-1" },
+    });
+    expect(handleNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "requester",
+        message: expect.stringContaining("was approved but failed"),
+      })
+    );
+  });
+
+  it("does not run a rejected action", async () => {
+    makeRequest();
+
+    await reviewApprovalRequest("request-1", "reviewer", "REJECT");
+
+    expect(statusUpdates()[0]).toMatchObject({ status: "REJECTED" });
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+
+  it("expires a request reviewed past its deadline", async () => {
+    makeRequest({ expiresAt: new Date(Date.now() - 1) });
+
+    await expect(
+      reviewApprovalRequest("request-1", "reviewer", "APPROVE")
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message: "Approval request expired",
+    });
+    expect(statusUpdates()).toEqual([
+      { status: "EXPIRED", where: { id: "request-1", status: "PENDING" } },
+    ]);
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+});
+
+describe("expireApprovalRequests", () => {
+  it("expires overdue requests and tells only those it expired", async () => {
+    (models.approvalRequest.findAll as jest.Mock).mockResolvedValue([
+      { id: "request-1", summary: "A", requestedById: "requester" },
+      { id: "request-2", summary: "B", requestedById: "requester" },
+    ]);
+    // The second was reviewed in the meantime
+    (models.approvalRequest.update as jest.Mock)
+      .mockResolvedValueOnce([1])
+      .mockResolvedValueOnce([0]);
+
+    await expireApprovalRequests();
+
+    expect(statusUpdates().map(({ where }) => where)).toEqual([
+      { id: "request-1", status: "PENDING" },
+      { id: "request-2", status: "PENDING" },
+    ]);
+    expect(handleNotification).toHaveBeenCalledTimes(1);
+    expect(handleNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: 'Your request "A" expired before it was reviewed.',
+      })
+    );
+  });
+});
@@ -0,0 +1,406 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { CacheManager } from "@b/utils/cache";
+import { createError } from "@b/utils/error";
+import { getUsdPrice } from "@b/utils/fees";
+import { logError } from "@b/utils/logger";
+import {
+  handleNotification,
+  notifyUsersWithPermission,
+} from "@b/utils/notifications";
+import { updateRecord } from "@b/utils/query";
+import { rolesManager } from "@b/utils/roles";
+import { updateWalletBalance } from "@b/api/admin/finance/wallet/[id]/balance.post";
+import { approveSpotWithdrawal } from "@b/api/admin/finance/wallet/[id]/withdraw/approve.post";
+import { updateRole } from "@b/api/admin/crm/role/[id]/index.put";
+import { deleteRole } from "@b/api/admin/crm/role/[id]/index.del";
+import { syncRolePermissions } from "@b/api/admin/crm/role/[id]/sync.post";
+import { transferCustodialNative } from "@b/api/admin/ext/ecosystem/wallet/custodial/[id]/transfer/native.post";
+import { transferCustodialTokens } from "@b/api/admin/ext/ecosystem/wallet/custodial/[id]/transfer/token.post";
+
+export const APPROVAL_PERMISSION = "Access Approval Management";
+export const DEFAULT_APPROVAL_EXPIRY_HOURS = 24;
+const APPROVAL_LINK = "/admin/system/approval";
+
+interface ApprovalAction {
+  type: ApprovalType;
+  // Permission a reviewer needs for the action itself, on top of the
+  // approval permission
+  permission: string;
+  superAdminOnly?: boolean;
+  execute: (payload: Record<string, any>) => Promise<any>;
+}
+
+// Operations that can wait for approval, by the action name requests store
+const APPROVAL_ACTIONS: Record<string, ApprovalAction> = {
+  walletBalance: {
+    type: "WALLET_BALANCE",
+    permission: "Access Wallet Management",
+    execute: ({ walletId, type, amount }) =>
+      updateWalletBalance(walletId, type, amount),
+  },
+  withdrawalApproval: {
+    type: "WITHDRAWAL",
+    permission: "Access Wallet Management",
+    execute: ({ transactionId }) => approveSpotWithdrawal(transactionId),
+  },
+  roleUpdate: {
+    type: "ROLE_CHANGE",
+    permission: "Access Role Management",
+    superAdminOnly: true,
+    execute: ({ roleId, name, permissions }) =>
+      updateRole(roleId, name, permissions),
+  },
+  roleDelete: {
+    type: "ROLE_CHANGE",
+    permission: "Access Role Management",
+    superAdminOnly: true,
+    execute: ({ roleId }) => deleteRole(roleId),
+  },
+  rolePermissionSync: {
+    type: "ROLE_CHANGE",
+    permission: "Access Role Management",
+    superAdminOnly: true,
+    execute: ({ roleId, permissionIds }) =>
+      syncRolePermissions(roleId, permissionIds),
+  },
+  masterWalletUpdate: {
+    type: "MASTER_WALLET",
+    permission: "Access Ecosystem Master Wallet Management",
+    execute: ({ id, fields }) =>
+      updateRecord("ecosystemMasterWallet", id, fields),
+  },
+  custodialNativeTransfer: {
+    type: "MASTER_WALLET",
+    permission: "Access Ecosystem Custodial Wallet Management",
+    execute: ({ id, recipient, amount }) =>
+      transferCustodialNative(id, recipient, amount),
+  },
+  custodialTokenTransfer: {
+    type: "MASTER_WALLET",
+    permission: "Access Ecosystem Custodial Wallet Management",
+    execute: ({ id, tokenAddress, recipient, amount }) =>
+      transferCustodialTokens(id, tokenAddress, recipient, amount),
+  },
+};
+
+async function getSetting(key: string) {
+  return CacheManager.getInstance().getSetting(key);
+}
+
+// Amounts above the USD threshold need approval. No threshold set turns the
+// check off, and an amount that can't be priced is treated as above it.
+function exceedsThreshold(setting: any, valueUsd?: number) {
+  if (setting === undefined || setting === null || setting === "") {
+    return false;
+  }
+  const threshold = Number(setting);
+  if (!Number.isFinite(threshold)) return false;
+  return valueUsd === undefined || !(valueUsd <= threshold);
+}
+
+const isEnabled = (setting: any) => setting === true || setting === "true";
+
+async function needsApproval(type: ApprovalType, valueUsd?: number) {
+  switch (type) {
+    case "WALLET_BALANCE":
+      return exceedsThreshold(
+        await getSetting("approvalWalletBalanceThreshold"),
+        valueUsd
+      );
+    case "WITHDRAWAL":
+      return exceedsThreshold(
+        await getSetting("approvalWithdrawalThreshold"),
+        valueUsd
+      );
+    case "ROLE_CHANGE":
+      return isEnabled(await getSetting("approvalRoleChanges"));
+    case "MASTER_WALLET":
+      return isEnabled(await getSetting("approvalMasterWalletOperations"));
+    default:
+      return false;
+  }
+}
+
+async function getApprovalExpiryHours(): Promise<number> {
+  const value = Number(await getSetting("approvalExpiryHours"));
+  return value > 0 ? value : DEFAULT_APPROVAL_EXPIRY_HOURS;
+}
+
+/**
+ * Holds an action for a second admin when the approval settings call for it.
+ * Returns the pending request, or null when the caller may run the action
+ * right away.
+ */
+export async function requestApproval(
+  action: string,
+  {
+    summary,
+    payload,
+    amount,
+  }: {
+    summary: string;
+    payload: Record<string, any>;
+    amount?: { currency: string; value: number };
+  },
+  user: { id: string } | undefined,
+  comment?: string
+) {
+  const definition = APPROVAL_ACTIONS[action];
+  if (!definition) {
+    throw new Error(`Unknown approval action: ${action}`);
+  }
+  if (!user?.id) {
+    throw createError({ statusCode: 401, message: "Unauthorized" });
+  }
+
+  let valueUsd: number | undefined;
+  if (amount) {
+    const price = await getUsdPrice(amount.currency);
+    valueUsd = price > 0 ? Number(amount.value) * price : undefined;
+  }
+
+  if (!(await needsApproval(definition.type, valueUsd))) return null;
+
+  const expiryHours = await getApprovalExpiryHours();
+  const request = await models.approvalRequest.create({
+    type: definition.type,
+    action,
+    summary: summary.slice(0, 255),
+    payload,
+    valueUsd,
+    requestedById: user.id,
+    expiresAt: new Date(Date.now() + expiryHours * 60 * 60 * 1000),
+  });
+
+  if (comment) {
+    await models.approvalComment.create({
+      approvalRequestId: request.id,
+      userId: user.id,
+      message: comment,
+    });
+  }
+
+  notifyUsersWithPermission(
+    APPROVAL_PERMISSION,
+    "Approval Required",
+    `${summary}. Another admin must approve it within ${expiryHours} hours.`,
+    "SYSTEM" as NotificationType,
+    `${APPROVAL_LINK}/${request.id}`
+  ).catch((error) => logError("approvals", error, __filename));
+
+  return request;
+}
+
+// Response of a route whose action was held for approval
+export const approvalPendingResponse = (
+  request: approvalRequestAttributes
+) => ({
+  message:
+    "This action needs the approval of another admin, a request was sent",
+  approvalRequestId: request.id,
+});
+
+async function canReview(reviewerId: string, definition: ApprovalAction) {
+  const reviewer = await models.user.findByPk(reviewerId, {
+    attributes: ["id", "roleId"],
+  });
+  const role = reviewer && rolesManager.roles.get(reviewer.roleId);
+  if (!role) return false;
+  if (role.name === "Super Admin") return true;
+  if (definition.superAdminOnly) return false;
+  return (
+    role.permissions.includes(APPROVAL_PERMISSION) &&
+    role.permissions.includes(definition.permission)
+  );
+}
+
+function notifyRequester(request: approvalRequestAttributes, message: string) {
+  return handleNotification({
+    userId: request.requestedById,
+    type: "SYSTEM",
+    title: "Approval Request Update",
+    message,
+    link: `${APPROVAL_LINK}/${request.id}`,
+  }).catch((error) => logError("approvals", error, __filename));
+}
+
+async function findPendingRequest(id: string) {
+  const request = await models.approvalRequest.findByPk(id);
+  if (!request) {
+    throw createError({
+      statusCode: 404,
+      message: "Approval request not found",
+    });
+  }
+  if (request.status !== "PENDING") {
+    throw createError({
+      statusCode: 400,
+      message: `Approval request is already ${request.status.toLowerCase()}`,
+    });
+  }
+  if (request.expiresAt < new Date()) {
+    await expireRequest(request);
+    throw createError({ statusCode: 400, message: "Approval request expired" });
+  }
+  return request;
+}
+
+// Moves a pending request to its next status. Only one reviewer can win, so
+// an action is never run twice.
+async function claimRequest(
+  id: string,
+  status: ApprovalStatus,
+  reviewedById?: string
+) {
+  const [updated] = await models.approvalRequest.update(
+    {
+      status,
+      ...(reviewedById && { reviewedById, reviewedAt: new Date() }),
+    },
+    { where: { id, status: "PENDING" } }
+  );
+  if (!updated) {
+    throw createError({
+      statusCode: 409,
+      message: "Approval request was already reviewed",
+    });
+  }
+}
+
+export async function addApprovalComment(
+  approvalRequestId: string,
+  userId: string,
+  message?: string
+) {
+  if (!message || !message.trim()) return null;
+  return models.approvalComment.create({
+    approvalRequestId,
+    userId,
+    message: message.trim(),
+  });
+}
+
+/**
+ * Approves or rejects a pending request. The reviewer must be another admin
+ * than the requester, with the permission the action needs. An approved
+ * action runs right away, and is marked as failed if it throws.
+ */
+export async function reviewApprovalRequest(
+  id: string,
+  reviewerId: string,
+  decision: "APPROVE" | "REJECT",
+  comment?: string
+) {
+  const request = await findPendingRequest(id);
+  const definition = APPROVAL_ACTIONS[request.action];
+  if (!definition) {
+    throw createError({
+      statusCode: 400,
+      message: `Unknown approval action: ${request.action}`,
+    });
+  }
+
+  if (request.requestedById === reviewerId) {
+    throw createError({
+      statusCode: 403,
+      message: "An action must be approved by another admin than its requester",
+    });
+  }
+  if (!(await canReview(reviewerId, definition))) {
+    throw createError({
+      statusCode: 403,
+      message: "You do not have permission to review this action",
+    });
+  }
+
+  await claimRequest(
+    id,
+    decision === "APPROVE" ? "APPROVED" : "REJECTED",
+    reviewerId
+  );
+  await addApprovalComment(id, reviewerId, comment);
+
+  if (decision === "REJECT") {
+    notifyRequester(request, `Your request "${request.summary}" was rejected.`);
+    return { message: "Approval request rejected" };
+  }
+
+  try {
+    const result = await definition.execute(request.payload);
+    await models.approvalRequest.update(
+      { result: result ?? null },
+      { where: { id } }
+    );
+  } catch (error) {
+    logError("approvals", error, __filename);
+    await models.approvalRequest.update(
+      { status: "FAILED", error: error.message },
+      { where: { id } }
+    );
+    notifyRequester(
+      request,
+      `Your request "${request.summary}" was approved but failed: ${error.message}`
+    );
+    throw createError({
+      statusCode: 500,
+      message: `The approved action failed: ${error.message}`,
+    });
+  }
+
+  notifyRequester(
+    request,
+    `Your request "${request.summary}" was approved and carried out.`
+  );
+  return { message: "Approval request approved and carried out" };
+}
+
+// Lets the requester withdraw a request nobody reviewed yet
+export async function cancelApprovalRequest(
+  id: string,
+  userId: string,
+  comment?: string
+) {
+  const request = await findPendingRequest(id);
+  if (request.requestedById !== userId) {
+    throw createError({
+      statusCode: 403,
+      message: "Only the requester can cancel an approval request",
+    });
+  }
+
+  await claimRequest(id, "CANCELLED");
+  await addApprovalComment(id, userId, comment);
+  return { message: "Approval request cancelled" };
+}
+
+async function expireRequest(request: approvalRequestAttributes) {
+  const [updated] = await models.approvalRequest.update(
+    { status: "EXPIRED" },
+    { where: { id: request.id, status: "PENDING" } }
+  );
+  if (updated) {
+    notifyRequester(
+      request,
+      `Your request "${request.summary}" expired before it was reviewed.`
+    );
+  }
+}
+
+export async function expireApprovalRequests() {
+  try {
+    const requests = await models.approvalRequest.findAll({
+      where: { status: "PENDING", expiresAt: { [Op.lt]: new Date() } },
+    });
+    for (const request of requests) {
+      try {
+        await expireRequest(request);
+      } catch (error) {
+        logError("expireApprovalRequests", error, __filename);
+      }
+    }
+  } catch (error) {
+    logError("expireApprovalRequests", error, __filename);
+    throw error;
+  }
+}
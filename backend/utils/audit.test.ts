@@ -0,0 +1,191 @@
+import { Op, UniqueConstraintError } from "sequelize";
+import { models } from "@b/db";
+import { appendAuditEntry, hashAuditEntry, verifyAuditChain } from "./audit";
+
+jest.mock("@b/db", () => ({
+  models: {
+    adminAuditLog: {
+      findOne: jest.fn(),
+      findAll: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+  sequelize: {
+    transaction: (callback) => callback({ LOCK: { UPDATE: "UPDATE" } }),
+  },
+}));
+jest.mock("@b/utils/logger", () => ({
+  __esModule: true,
+  default: jest.fn(),
+  logError: jest.fn(),
+}));
+
+// The stored trail, in sequence order
+let entries: any[];
+
+const request = (path: string) => ({
+  userId: "admin-1",
+  ip: "203.0.113.7",
+  method: "PUT",
+  route: "/api/admin/crm/user/:id",
+  path,
+  params: { id: "user-1" },
+  statusCode: 200,
+});
+
+async function appendEntries(count: number) {
+  for (let i = 1; i <= count; i++) {
+    await appendAuditEntry(request(`/api/admin/crm/user/${i}`), [
+      { model: "user", action: "UPDATE", id: `user-${i}` },
+    ]);
+  }
+}
+
+// Entries as read back from the JSON columns of the database
+const stored = () => JSON.parse(JSON.stringify(entries));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  entries = [];
+  (models.adminAuditLog.findOne as jest.Mock).mockImplementation(
+    async () => entries[entries.length - 1] || null
+  );
+  (models.adminAuditLog.create as jest.Mock).mockImplementation(
+    async (entry) => {
+      const created = { id: `entry-${entry.sequence}`, ...entry };
+      entries.push(created);
+      return created;
+    }
+  );
+  (models.adminAuditLog.findAll as jest.Mock).mockImplementation(
+    async ({ where, limit }) =>
+      stored()
+        .filter((entry) => entry.sequence >= where.sequence[Op.gte])
+        .slice(0, limit)
+  );
+});
+
+describe("appendAuditEntry", () => {
+  it("links each entry to the hash of the one before it", async () => {
+    await appendEntries(3);
+
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entries[0].previousHash).toBe("0".repeat(64));
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+  });
+
+  it("redacts secrets from the request parameters", async () => {
+    await appendAuditEntry(
+      { ...request("/api/admin/api"), params: { id: "1", secret: "s3cret" } },
+      []
+    );
+
+    expect(entries[0].params).toEqual({ id: "1", secret: "[REDACTED]" });
+  });
+
+  it("retries on top of an entry another writer appended first", async () => {
+    await appendEntries(1);
+    (models.adminAuditLog.create as jest.Mock).mockRejectedValueOnce(
+      new UniqueConstraintError({})
+    );
+
+    await appendEntries(1);
+
+    expect(models.adminAuditLog.create).toHaveBeenCalledTimes(3);
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2]);
+  });
+});
+
+describe("hashAuditEntry", () => {
+  it("hashes the same content the same regardless of key order", () => {
+    const entry = {
+      ...request("/api/admin/crm/user/1"),
+      sequence: 1,
+      changes: [
+        {
+          model: "user",
+          action: "UPDATE" as const,
+          id: "1",
+          after: { a: 1, b: 2 },
+        },
+      ],
+      createdAt: new Date("2026-01-01T00:00:00Z"),
+    };
+    const reordered = {
+      ...entry,
+      changes: [
+        {
+          after: { b: 2, a: 1 },
+          id: "1",
+          action: "UPDATE" as const,
+          model: "user",
+        },
+      ],
+    };
+
+    expect(hashAuditEntry("0".repeat(64), reordered)).toBe(
+      hashAuditEntry("0".repeat(64), entry)
+    );
+  });
+});
+
+describe("verifyAuditChain", () => {
+  it("accepts an intact chain and reports its head", async () => {
+    await appendEntries(3);
+
+    expect(await verifyAuditChain()).toEqual({
+      valid: true,
+      checked: 3,
+      head: { sequence: 3, hash: entries[2].hash },
+    });
+  });
+
+  it("finds an entry whose content was changed", async () => {
+    await appendEntries(3);
+    entries[1].statusCode = 500;
+
+    expect(await verifyAuditChain()).toMatchObject({
+      valid: false,
+      checked: 1,
+      brokenAt: {
+        sequence: 2,
+        reason: "Entry content does not match its hash",
+      },
+    });
+  });
+
+  it("finds an entry that was removed", async () => {
+    await appendEntries(3);
+    entries.splice(1, 1);
+
+    expect(await verifyAuditChain()).toMatchObject({
+      valid: false,
+      brokenAt: { sequence: 3, reason: "Entry 2 is missing" },
+    });
+  });
+
+  it("finds an entry rehashed without its predecessor", async () => {
+    await appendEntries(3);
+    const forged = entries[1];
+    forged.path = "/api/admin/crm/user/forged";
+    forged.previousHash = "f".repeat(64);
+    forged.hash = hashAuditEntry(forged.previousHash, forged);
+
+    expect(await verifyAuditChain()).toMatchObject({
+      valid: false,
+      brokenAt: {
+        sequence: 2,
+        reason: "Entry does not link to the entry before it",
+      },
+    });
+  });
+
+  it("reports no head for an empty trail", async () => {
+    expect(await verifyAuditChain()).toEqual({
+      valid: true,
+      checked: 0,
+      head: undefined,
+    });
+  });
+});
@@ -0,0 +1,366 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { Op, UniqueConstraintError } from "sequelize";
+import { models, sequelize } from "@b/db";
+import logger, { logError } from "@b/utils/logger";
+
+// Previous hash of the first entry of the chain
+const GENESIS_HASH = "0".repeat(64);
+const VERIFY_BATCH_SIZE = 500;
+const APPEND_ATTEMPTS = 3;
+
+// Keeps a single request from writing an unbounded entry, changes past the
+// cap are only counted
+const MAX_CHANGES = 100;
+const MAX_VALUE_LENGTH = 2000;
+
+// Tables that are not audited: the trail itself, and the ledger which only
+// mirrors wallet changes that are already recorded
+const EXCLUDED_MODELS = [
+  "adminAuditLog",
+  "ledgerAccount",
+  "ledgerJournal",
+  "ledgerEntry",
+];
+const SENSITIVE_FIELDS =
+  /password|secret|mnemonic|private|xprv|accesstoken|refreshtoken|^data$/i;
+
+interface AuditContext {
+  changes: AuditChange[];
+  omitted: number;
+  closed: boolean;
+}
+
+export interface AuditRequest {
+  userId?: string;
+  ip?: string;
+  method: string;
+  route: string;
+  path: string;
+  params?: Record<string, any>;
+  statusCode?: number;
+  reason?: string;
+}
+
+export interface AuditChainStatus {
+  valid: boolean;
+  checked: number;
+  head?: { sequence: number; hash: string };
+  brokenAt?: { id: string; sequence: number; reason: string };
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+// JSON with sorted keys, so an entry hashes the same after a round trip
+// through a JSON column that reorders them
+function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sanitizeValues(values: Record<string, any>) {
+  const sanitized: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (SENSITIVE_FIELDS.test(key)) {
+      sanitized[key] = "[REDACTED]";
+    } else if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+      sanitized[key] = `${value.slice(0, MAX_VALUE_LENGTH)}...`;
+    } else {
+      sanitized[key] = value;
+    }
+  }
+  // Stored as it will be read back, dates as strings
+  return JSON.parse(JSON.stringify(sanitized));
+}
+
+/**
+ * Hashes an entry together with the hash of the entry before it, so changing,
+ * removing or reordering an entry breaks every link after it.
+ */
+export function hashAuditEntry(
+  previousHash: string,
+  entry: AuditRequest & {
+    sequence: number;
+    changes: AuditChange[];
+    createdAt: Date;
+  }
+) {
+  return sha256(
+    `${previousHash}:${canonicalize({
+      sequence: entry.sequence,
+      userId: entry.userId ?? null,
+      ip: entry.ip ?? null,
+      method: entry.method,
+      route: entry.route,
+      path: entry.path,
+      params: entry.params ?? null,
+      statusCode: entry.statusCode ?? null,
+      reason: entry.reason ?? null,
+      changes: entry.changes,
+      createdAt: new Date(entry.createdAt).toISOString(),
+    })}`
+  );
+}
+
+function pushChange(change: AuditChange, transaction?: any) {
+  const context = storage.getStore();
+  if (!context) return;
+
+  const push = () => {
+    if (context.closed) return;
+    if (context.changes.length >= MAX_CHANGES) {
+      context.omitted++;
+      return;
+    }
+    context.changes.push(change);
+  };
+
+  // Changes rolled back with their transaction never happened
+  if (transaction) {
+    transaction.afterCommit(push);
+  } else {
+    push();
+  }
+}
+
+function getAttributeValues(instance: any) {
+  const attributes = Object.keys(instance.constructor.rawAttributes);
+  const values: Record<string, any> = {};
+  for (const attribute of attributes) {
+    values[attribute] = instance.getDataValue(attribute);
+  }
+  return values;
+}
+
+/**
+ * Records the changes models make while an audited request is handled. Bulk
+ * updates and deletes run their individual hooks during such requests so
+ * every affected row is part of the diff.
+ */
+export function registerAuditHooks(db: Record<string, any>) {
+  for (const [name, model] of Object.entries(db)) {
+    if (EXCLUDED_MODELS.includes(name) || typeof model?.addHook !== "function")
+      continue;
+
+    for (const hookType of [
+      "beforeBulkCreate",
+      "beforeBulkUpdate",
+      "beforeBulkDestroy",
+    ]) {
+      model.addHook(hookType, "audit", (options) => {
+        if (storage.getStore()) {
+          options.individualHooks = true;
+        }
+      });
+    }
+
+    model.addHook("afterCreate", "audit", (instance, options) => {
+      if (!storage.getStore()) return;
+      pushChange(
+        {
+          model: name,
+          action: "CREATE",
+          id: instance.id,
+          after: sanitizeValues(getAttributeValues(instance)),
+        },
+        options.transaction
+      );
+    });
+
+    model.addHook("afterUpdate", "audit", (instance, options) => {
+      if (!storage.getStore()) return;
+      const changed = instance.changed();
+      if (!changed || !changed.length) return;
+
+      const before: Record<string, any> = {};
+      const after: Record<string, any> = {};
+      for (const field of changed) {
+        before[field] = instance.previous(field);
+        after[field] = instance.getDataValue(field);
+      }
+      pushChange(
+        {
+          model: name,
+          action: "UPDATE",
+          id: instance.id,
+          before: sanitizeValues(before),
+          after: sanitizeValues(after),
+        },
+        options.transaction
+      );
+    });
+
+    model.addHook("afterDestroy", "audit", (instance, options) => {
+      if (!storage.getStore()) return;
+      pushChange(
+        {
+          model: name,
+          action: "DELETE",
+          id: instance.id,
+          before: sanitizeValues(getAttributeValues(instance)),
+        },
+        options.transaction
+      );
+    });
+  }
+}
+
+/**
+ * Runs a request handler while collecting the model changes it makes, and
+ * returns them once it is done.
+ */
+export async function collectAuditChanges(handler: () => Promise<any>) {
+  const context: AuditContext = { changes: [], omitted: 0, closed: false };
+  await storage.run(context, handler);
+  context.closed = true;
+
+  if (context.omitted) {
+    context.changes.push({
+      model: "*",
+      action: "OMITTED",
+      count: context.omitted,
+    });
+  }
+  return context.changes;
+}
+
+/**
+ * Appends an entry to the end of the chain. The last entry is locked while
+ * the new one is hashed, and a writer that loses the race for a sequence
+ * number retries on top of the new end.
+ */
+export async function appendAuditEntry(
+  request: AuditRequest,
+  changes: AuditChange[]
+) {
+  const entry = {
+    ...request,
+    params: request.params ? sanitizeValues(request.params) : undefined,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sequelize.transaction(async (transaction) => {
+        const last = await models.adminAuditLog.findOne({
+          attributes: ["sequence", "hash"],
+          order: [["sequence", "DESC"]],
+          lock: transaction.LOCK.UPDATE,
+          transaction,
+        });
+
+        const sequence = (last?.sequence || 0) + 1;
+        const previousHash = last?.hash || GENESIS_HASH;
+        const createdAt = new Date();
+
+        return models.adminAuditLog.create(
+          {
+            ...entry,
+            sequence,
+            changes,
+            previousHash,
+            hash: hashAuditEntry(previousHash, {
+              ...entry,
+              sequence,
+              changes,
+              createdAt,
+            }),
+            createdAt,
+          },
+          { transaction }
+        );
+      });
+    } catch (error) {
+      if (
+        !(error instanceof UniqueConstraintError) ||
+        attempt >= APPEND_ATTEMPTS
+      )
+        throw error;
+    }
+  }
+}
+
+/**
+ * Walks the chain from its first entry and reports the first one that is
+ * missing, does not link to the entry before it, or no longer matches its
+ * hash. Entries removed from the end leave a valid chain, so the head is
+ * returned for it to be compared with one noted earlier.
+ */
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  let previousHash = GENESIS_HASH;
+  let expected = 1;
+  let checked = 0;
+
+  while (true) {
+    const entries = await models.adminAuditLog.findAll({
+      where: { sequence: { [Op.gte]: expected } },
+      order: [["sequence", "ASC"]],
+      limit: VERIFY_BATCH_SIZE,
+    });
+    if (!entries.length) break;
+
+    for (const entry of entries) {
+      let reason: string | null = null;
+      if (entry.sequence !== expected) {
+        reason = `Entry ${expected} is missing`;
+      } else if (entry.previousHash !== previousHash) {
+        reason = "Entry does not link to the entry before it";
+      } else if (hashAuditEntry(entry.previousHash, entry) !== entry.hash) {
+        reason = "Entry content does not match its hash";
+      }
+
+      if (reason) {
+        return {
+          valid: false,
+          checked,
+          brokenAt: { id: entry.id, sequence: entry.sequence, reason },
+        };
+      }
+
+      previousHash = entry.hash;
+      expected++;
+      checked++;
+    }
+  }
+
+  return {
+    valid: true,
+    checked,
+    head: checked ? { sequence: expected - 1, hash: previousHash } : undefined,
+  };
+}
+
+// Verifies the chain and writes its head to the log files, which are kept
+// apart from the database and show if entries are later cut from the end
+export async function verifyAuditTrail() {
+  try {
+    const status = await verifyAuditChain();
+    if (!status.valid) {
+      throw new Error(
+        `Audit trail broken at entry ${status.brokenAt?.sequence}: ${status.brokenAt?.reason}`
+      );
+    }
+    logger(
+      "info",
+      "audit",
+      __filename,
+      `Audit trail verified, ${status.checked} entries, head ${
+        status.head ? `${status.head.sequence}:${status.head.hash}` : "none"
+      }`
+    );
+  } catch (error) {
+    logError("verifyAuditTrail", error, __filename);
+    throw error;
+  }
+}
@@ -25,10 +25,21 @@ import { processForexInvestments } from "./crons/forex";
 import { processIcoPhases } from "./crons/ico";
 import { processStakingLogs } from "./crons/staking";
 import { processMailwizardCampaigns } from "./crons/mailwizard";
+import { processEndedAuctions } from "./crons/nftAuction";
+import { processPaymentIntents } from "./crons/payment";
+import { processP2pTradeDeadlines } from "./crons/p2p";
 import { processGeneralInvestments } from "./crons/investment";
 import { processAiInvestments } from "./crons/aiInvestment";
 import { processPendingOrders } from "./crons/order";
 import { processPendingEcoWithdrawals } from "./eco/cron";
+import { scanEcosystemDeposits } from "./eco/blockScanner";
+import { FUNDING_INTERVAL, processFuturesFunding } from "./futures/funding";
+import { reconcileLedger } from "./ledger";
+import { reconcileExchangeBalances } from "./crons/exchange";
+import { recomputeFeeTiers } from "./fees";
+import { snapshotReserves } from "./crons/reserves";
+import { verifyAuditTrail } from "./audit";
+import { expireApprovalRequests } from "./approvals";
 
 const redis = RedisSingleton.getInstance();
 
@@ -132,6 +143,66 @@ class CronJobManager {
         function: cleanupOldPnlRecords,
         lastRun: null,
         lastRunError: null,
+      },
+      {
+        name: "reconcileLedger",
+        title: "Reconcile Ledger",
+        period: 60 * 60 * 1000,
+        description:
+          "Compares wallet balances with the ledger and flags discrepancies.",
+        function: reconcileLedger,
+        lastRun: null,
+        lastRunError: null,
+      },
+      {
+        name: "reconcileExchangeBalances",
+        title: "Reconcile Exchange Balances",
+        period: 60 * 60 * 1000,
+        description:
+          "Compares the balances held on the active exchange providers with spot wallet balances.",
+        function: reconcileExchangeBalances,
+        lastRun: null,
+        lastRunError: null,
+      },
+      {
+        name: "recomputeFeeTiers",
+        title: "Recompute Fee Tiers",
+        period: 24 * 60 * 60 * 1000,
+        description:
+          "Places users in fee tiers from their 30-day traded volume and holdings.",
+        function: recomputeFeeTiers,
+        lastRun: null,
+        lastRunError: null,
+      },
+      {
+        name: "snapshotReserves",
+        title: "Snapshot Proof of Reserves",
+        period: 24 * 60 * 60 * 1000,
+        description:
+          "Commits user balances to a Merkle sum tree and records the reserves covering them.",
+        function: snapshotReserves,
+        lastRun: null,
+        lastRunError: null,
+      },
+      {
+        name: "verifyAuditTrail",
+        title: "Verify Audit Trail",
+        period: 24 * 60 * 60 * 1000,
+        description:
+          "Checks the hash chain of the admin audit trail and logs its head.",
+        function: verifyAuditTrail,
+        lastRun: null,
+        lastRunError: null,
+      },
+      {
+        name: "expireApprovalRequests",
+        title: "Expire Approval Requests",
+        period: 60 * 60 * 1000,
+        description:
+          "Expires the approval requests no admin reviewed in time and notifies their requesters.",
+        function: expireApprovalRequests,
+        lastRun: null,
+        lastRunError: null,
       }
     );
   }
@@ -142,12 +213,35 @@ class CronJobManager {
         {
           name: "processPendingEcoWithdrawals",
           title: "Process Pending Ecosystem Withdrawals",
-          period: 30 * 60 * 1000,
-          description: "Processes pending funding wallet withdrawals.",
+          period: 5 * 60 * 1000,
+          description:
+            "Queues pending funding wallet withdrawals and recovers stalled withdrawal jobs.",
           function: processPendingEcoWithdrawals,
           lastRun: null,
           lastRunError: null,
         },
+        {
+          name: "scanEcosystemDeposits",
+          title: "Scan Ecosystem Deposits",
+          period: 15 * 1000,
+          description:
+            "Follows new blocks of the block scanned EVM chains and credits deposits to custodial addresses.",
+          function: scanEcosystemDeposits,
+          lastRun: null,
+          lastRunError: null,
+        },
+      ],
+      futures: [
+        {
+          name: "processFuturesFunding",
+          title: "Process Futures Funding",
+          period: FUNDING_INTERVAL,
+          description:
+            "Settles funding payments between long and short futures positions.",
+          function: processFuturesFunding,
+          lastRun: null,
+          lastRunError: null,
+        },
       ],
       ai_investment: [
         {
@@ -194,6 +288,42 @@ class CronJobManager {
           lastRunError: null,
         },
       ],
+      nft: [
+        {
+          name: "processEndedAuctions",
+          title: "Process Ended NFT Auctions",
+          period: 5 * 60 * 1000,
+          description:
+            "Settles ended NFT auctions and releases bids below the reserve price.",
+          function: processEndedAuctions,
+          lastRun: null,
+          lastRunError: null,
+        },
+      ],
+      payment_gateway: [
+        {
+          name: "processPaymentIntents",
+          title: "Process Payment Intents",
+          period: 60 * 1000,
+          description:
+            "Expires stale payment intents and retries failed merchant IPN callbacks.",
+          function: processPaymentIntents,
+          lastRun: null,
+          lastRunError: null,
+        },
+      ],
+      p2p: [
+        {
+          name: "processP2pTradeDeadlines",
+          title: "Process P2P Trade Deadlines",
+          period: 60 * 1000,
+          description:
+            "Cancels unpaid P2P trades and escalates unreleased ones to escrow review.",
+          function: processP2pTradeDeadlines,
+          lastRun: null,
+          lastRunError: null,
+        },
+      ],
       mailwizard: [
         {
           name: "processMailwizardCampaigns",
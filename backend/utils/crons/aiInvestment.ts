@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { logError } from "../logger";
+import { setWalletBalances } from "../ledger";
 import { addDays, addHours, isPast } from "date-fns";
 import { getTransactionByRefId } from "@b/api/finance/transaction/[id]/index.get";
 import { getWalletById } from "@b/api/finance/wallet/utils";
@@ -120,25 +121,30 @@ export async function processAiInvestment(investment) {
         wallet = await getWalletById(transaction.walletId);
         if (!wallet) throw new Error("Wallet not found");
 
-        let newBalance = wallet.balance;
+        let payout = amount;
         if (investmentResult === "WIN") {
-          newBalance += amount + roi;
+          payout += roi;
         } else if (investmentResult === "LOSS") {
-          newBalance += amount - roi;
-        } else {
-          newBalance += amount;
+          payout -= roi;
         }
 
         // Update Wallet
         updatedInvestment = await sequelize.transaction(async (transaction) => {
-          await models.wallet.update(
+          const locked = await models.wallet.findByPk(wallet.id, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+          if (!locked) throw new Error("Wallet not found");
+
+          await setWalletBalances(
+            locked,
+            { balance: locked.balance + payout },
             {
-              balance: newBalance,
+              description: `AI investment ${investmentResult.toLowerCase()} payout`,
+              referenceType: "aiInvestment",
+              referenceId: id,
             },
-            {
-              where: { id: wallet.id },
-              transaction,
-            }
+            transaction
           );
 
           await models.transaction.create(
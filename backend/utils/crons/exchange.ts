@@ -0,0 +1,106 @@
+import ExchangeManager from "@b/utils/exchange";
+import { models } from "@b/db";
+import { fn, literal } from "sequelize";
+import { logError } from "../logger";
+
+// Differences below this are rounding noise rather than missing funds
+const RECONCILIATION_TOLERANCE = 1e-8;
+
+// Compares what the active providers hold, per currency, with what users hold
+// in their spot wallets, so funds routed across providers stay covered
+export async function reconcileExchangeBalances() {
+  try {
+    const providers = await ExchangeManager.getActiveProviders();
+    if (!providers.length) return;
+
+    const providerBalances: Record<string, Record<string, number>> = {};
+    for (const provider of providers) {
+      try {
+        const exchange = await ExchangeManager.startExchangeProvider(provider);
+        if (!exchange) {
+          throw new Error(`Exchange provider ${provider} is unavailable`);
+        }
+
+        const balance = await exchange.fetchBalance();
+        for (const [currency, total] of Object.entries(balance.total || {})) {
+          if (!total) continue;
+          providerBalances[currency] = providerBalances[currency] || {};
+          providerBalances[currency][provider] = Number(total);
+        }
+        await ExchangeManager.reportProviderSuccess(provider);
+      } catch (error) {
+        await ExchangeManager.reportProviderFailure(provider, error);
+        // A partial picture would report every currency of the missing
+        // provider as a deficit, so wait for the next run instead
+        throw new Error(
+          `Failed to fetch the balance of ${provider}: ${error.message}`
+        );
+      }
+    }
+
+    const walletTotals = (await models.wallet.findAll({
+      attributes: [
+        "currency",
+        [fn("SUM", literal("balance + inOrder")), "total"],
+      ],
+      where: { type: "SPOT" },
+      group: ["currency"],
+      raw: true,
+    })) as unknown as { currency: string; total: number }[];
+
+    const currencies = new Set([
+      ...Object.keys(providerBalances),
+      ...walletTotals.map((wallet) => wallet.currency),
+    ]);
+
+    const deficits: string[] = [];
+    for (const currency of currencies) {
+      const balances = providerBalances[currency] || {};
+      const providerTotal = Object.values(balances).reduce(
+        (sum, total) => sum + total,
+        0
+      );
+      const walletTotal = Number(
+        walletTotals.find((wallet) => wallet.currency === currency)?.total || 0
+      );
+      if (!providerTotal && !walletTotal) continue;
+
+      const difference = providerTotal - walletTotal;
+      const status =
+        Math.abs(difference) <= RECONCILIATION_TOLERANCE
+          ? "BALANCED"
+          : difference > 0
+            ? "SURPLUS"
+            : "DEFICIT";
+      if (status === "DEFICIT") {
+        deficits.push(`${currency} (${difference})`);
+      }
+
+      try {
+        await models.exchangeReconciliation.upsert({
+          currency,
+          providerBalances: balances,
+          providerTotal,
+          walletTotal,
+          difference,
+          status,
+        });
+      } catch (error) {
+        logError("reconcileExchangeBalances", error, __filename);
+      }
+    }
+
+    if (deficits.length) {
+      logError(
+        "reconcileExchangeBalances",
+        new Error(
+          `Exchange balances don't cover spot wallets for: ${deficits.join(", ")}`
+        ),
+        __filename
+      );
+    }
+  } catch (error) {
+    logError("reconcileExchangeBalances", error, __filename);
+    throw error;
+  }
+}
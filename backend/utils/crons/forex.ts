@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { logError } from "../logger";
+import { setWalletBalances } from "../ledger";
 import { addDays, addHours, isPast } from "date-fns";
 import { sendInvestmentEmail } from "../emails";
 import { handleNotification } from "../notifications";
@@ -167,7 +168,13 @@ async function handleInvestmentUpdate(investment, user, roi, investmentResult) {
       investmentResult
     );
 
-    await updateWalletBalance(wallet.id, newBalance, transaction);
+    await updateWalletBalance(
+      wallet,
+      newBalance,
+      investment.id,
+      investmentResult,
+      transaction
+    );
 
     updatedInvestment = await updateInvestmentStatus(
       investment.id,
@@ -217,11 +224,23 @@ function calculateNewBalance(balance, amount, roi, result) {
   }
 }
 
-async function updateWalletBalance(walletId, newBalance, transaction) {
+async function updateWalletBalance(
+  wallet,
+  newBalance,
+  investmentId,
+  result,
+  transaction
+) {
   try {
-    await models.wallet.update(
+    await setWalletBalances(
+      wallet,
       { balance: newBalance },
-      { where: { id: walletId }, transaction }
+      {
+        description: `Forex investment ${result.toLowerCase()} payout`,
+        referenceType: "forexInvestment",
+        referenceId: investmentId,
+      },
+      transaction
     );
   } catch (error) {
     logError(`updateWalletBalance`, error, __filename);
@@ -261,6 +280,7 @@ async function fetchWallet(userId, currency, walletType, transaction) {
     const wallet = await models.wallet.findOne({
       where: { userId, currency, type: walletType },
       transaction,
+      lock: transaction.LOCK.UPDATE,
     });
     if (!wallet) throw new Error("Wallet not found");
     return wallet;
@@ -1,5 +1,6 @@
 import { models, sequelize } from "@b/db";
 import { logError } from "../logger";
+import { setWalletBalances } from "../ledger";
 import { addDays, addHours, isPast } from "date-fns";
 import { sendInvestmentEmail } from "../emails";
 import { handleNotification } from "../notifications";
@@ -112,29 +113,37 @@ export async function processGeneralInvestment(investment) {
     if (isPast(endDate)) {
       let updatedInvestment;
       try {
-        // Fetch the wallet
-        const wallet = await models.wallet.findOne({
-          where: {
-            userId: userId,
-            currency: plan.currency,
-            type: plan.walletType,
-          },
-        });
-        if (!wallet) throw new Error("Wallet not found");
-
-        // FIX: Add principal + ROI on WIN, do nothing on LOSS, principal only on DRAW
-        const newBalance = getNewBalance(
-          wallet.balance,
-          amount,
-          roi,
-          investmentResult
-        );
-
         // Update wallet & investment in a transaction
         updatedInvestment = await sequelize.transaction(async (transaction) => {
-          await models.wallet.update(
-            { balance: newBalance },
-            { where: { id: wallet.id }, transaction }
+          // Fetch the wallet
+          const wallet = await models.wallet.findOne({
+            where: {
+              userId: userId,
+              currency: plan.currency,
+              type: plan.walletType,
+            },
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+          });
+          if (!wallet) throw new Error("Wallet not found");
+
+          // FIX: Add principal + ROI on WIN, do nothing on LOSS, principal only on DRAW
+          await setWalletBalances(
+            wallet,
+            {
+              balance: getNewBalance(
+                wallet.balance,
+                amount,
+                roi,
+                investmentResult
+              ),
+            },
+            {
+              description: `Investment ${investmentResult.toLowerCase()} payout`,
+              referenceType: "investment",
+              referenceId: id,
+            },
+            transaction
           );
 
           await models.investment.update(
@@ -1,6 +1,13 @@
 import { models } from "@b/db";
 import { logError } from "../logger";
 import { sendEmailToTargetWithTemplate } from "../emails";
+import {
+  campaignSubjects,
+  parseCampaignTargets,
+  renderCampaignEmail,
+  resolveCampaignRecipients,
+  unsubscribeHeaders,
+} from "../mailwizard";
 
 export async function processMailwizardCampaigns() {
   try {
@@ -15,46 +22,46 @@ export async function processMailwizardCampaigns() {
     });
 
     for (const campaign of campaigns) {
-      let sentCount = 0;
-
-      if (!campaign.targets) continue;
+      try {
+        // The segment is resolved when the campaign starts sending
+        if (!campaign.recipientsResolvedAt) {
+          await resolveCampaignRecipients(campaign);
+        }
 
-      let targets: {
-        email: string;
-        status: string;
-      }[] = [];
+        const recipients = await models.mailwizardRecipient.findAll({
+          where: { campaignId: campaign.id, status: "PENDING" },
+          limit: campaign.speed,
+        });
 
-      try {
-        targets = JSON.parse(campaign.targets);
-      } catch (error) {
-        logError(`processMailwizardCampaigns`, error, __filename);
-        continue;
-      }
+        const subjects = campaignSubjects(campaign);
+        const statuses: Record<string, string> = {};
 
-      for (const target of targets) {
-        if (target.status === "PENDING" && sentCount < campaign.speed) {
+        for (const recipient of recipients) {
           try {
-            await sendEmailToTargetWithTemplate(
-              target.email,
-              campaign.subject,
-              campaign.template.content
+            const sent = await sendEmailToTargetWithTemplate(
+              recipient.email,
+              subjects[recipient.variant] || campaign.subject,
+              renderCampaignEmail(campaign.template.content, recipient.token),
+              unsubscribeHeaders(recipient.token)
+            );
+            await recipient.update(
+              sent
+                ? { status: "SENT", sentAt: new Date() }
+                : { status: "SKIPPED" }
             );
-            target.status = "SENT";
-            sentCount++;
           } catch (error) {
             logError(`processMailwizardCampaigns`, error, __filename);
-            target.status = "FAILED";
+            await recipient.update({ status: "FAILED", error: error.message });
           }
+          statuses[recipient.email.toLowerCase()] = recipient.status;
         }
-      }
 
-      try {
-        await updateMailwizardCampaignTargets(
-          campaign.id,
-          JSON.stringify(targets)
-        );
+        await syncMailwizardCampaignTargets(campaign, statuses);
 
-        if (targets.every((target) => target.status !== "PENDING")) {
+        const pending = await models.mailwizardRecipient.count({
+          where: { campaignId: campaign.id, status: "PENDING" },
+        });
+        if (!pending) {
           await updateMailwizardCampaignStatus(campaign.id, "COMPLETED");
         }
       } catch (error) {
@@ -67,6 +74,25 @@ export async function processMailwizardCampaigns() {
   }
 }
 
+// Mirrors the delivery of hand-picked targets into the campaign targets
+async function syncMailwizardCampaignTargets(
+  campaign: mailwizardCampaignAttributes,
+  statuses: Record<string, string>
+) {
+  const targets = parseCampaignTargets(campaign.targets);
+  let changed = false;
+  for (const target of targets) {
+    const status = statuses[target.email?.toLowerCase()];
+    if (status && status !== target.status) {
+      target.status = status;
+      changed = true;
+    }
+  }
+  if (changed) {
+    await updateMailwizardCampaignTargets(campaign.id, JSON.stringify(targets));
+  }
+}
+
 export async function updateMailwizardCampaignTargets(id, targets) {
   try {
     await models.mailwizardCampaign.update(
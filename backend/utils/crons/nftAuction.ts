@@ -1,102 +1,123 @@
-// scripts/processEndedAuctions.ts
-
 import { models, sequelize } from "@b/db";
 import { Op } from "sequelize";
 import { handleNotification } from "../notifications";
+import { logError } from "../logger";
+import { releaseBid, settleNftSale } from "@b/api/ext/nft/utils";
 
-async function processEndedAuctions() {
-  const transaction = await sequelize.transaction();
-
+export async function processEndedAuctions() {
   try {
-    const endedAuctions = (await models.nftAuction.findAll({
+    const endedAuctions = await models.nftAuction.findAll({
+      attributes: ["id"],
       where: {
         status: "ACTIVE",
         endTime: { [Op.lte]: new Date() },
       },
+    });
+
+    for (const auction of endedAuctions) {
+      try {
+        await settleAuction(auction.id);
+      } catch (error) {
+        logError("processEndedAuctions", error, __filename);
+      }
+    }
+  } catch (error) {
+    logError("processEndedAuctions", error, __filename);
+    throw error;
+  }
+}
+
+/**
+ * Closes an ended auction. The highest bid buys the asset out of its escrow
+ * when it meets the reserve price; otherwise the bid is released back to the
+ * bidder and the auction is cancelled. The auction is re-read under a row
+ * lock, so a run overlapping another or a late bid cannot settle it twice.
+ */
+async function settleAuction(auctionId: string) {
+  const settled = await sequelize.transaction(async (transaction) => {
+    const auction = (await models.nftAuction.findOne({
+      where: { id: auctionId, status: "ACTIVE" },
       include: [
-        {
-          model: models.nftBid,
-          as: "nftBids",
-          where: { status: "PENDING" },
-          required: false,
-          separate: true,
-          order: [["amount", "DESC"]],
-          limit: 1,
-        },
         {
           model: models.nftAsset,
           as: "nftAsset",
+          include: [{ model: models.nftCollection, as: "collection" }],
         },
       ],
-    })) as any[];
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    })) as any;
+    if (!auction) return null;
 
-    for (const auction of endedAuctions) {
-      if (auction.nftBids.length > 0) {
-        const highestBid = auction.nftBids[0];
+    const nftAsset = auction.nftAsset;
+    const collection = nftAsset.collection;
+    const sellerId = nftAsset.ownerId;
+    const highestBid = await models.nftBid.findOne({
+      where: { auctionId: auction.id, status: "PENDING" },
+      order: [["amount", "DESC"]],
+      transaction,
+    });
 
-        // Check if reserve price is met
-        if (auction.reservePrice && highestBid.amount < auction.reservePrice) {
-          // Reserve price not met, cancel auction
-          await auction.update({ status: "CANCELLED" }, { transaction });
-          await highestBid.update({ status: "DECLINED" }, { transaction });
-        } else {
-          // Complete the transaction
-          const nftAsset = auction.nftAsset;
-          const sellerId = nftAsset.ownerId;
-          const buyerId = highestBid.bidderId;
-          const price = highestBid.amount;
+    if (!highestBid) {
+      // No bids, cancel auction
+      await auction.update({ status: "CANCELLED" }, { transaction });
+      return { sold: false, nftAsset, sellerId, highestBid };
+    }
 
-          // Transfer ownership
-          await nftAsset.update({ ownerId: buyerId }, { transaction });
+    // Check if reserve price is met
+    if (auction.reservePrice && highestBid.amount < auction.reservePrice) {
+      // Reserve price not met, cancel auction and release the escrow
+      await releaseBid(highestBid, collection, transaction);
+      await auction.update({ status: "CANCELLED" }, { transaction });
+      await highestBid.update({ status: "DECLINED" }, { transaction });
+      return { sold: false, nftAsset, sellerId, highestBid };
+    }
 
-          // Record the transaction
-          // await models.nftTransaction.create(
-          //   {
-          //     nftAssetId: nftAsset.id,
-          //     sellerId,
-          //     buyerId,
-          //     price,
-          //     transactionHash: generateTransactionHash(),
-          //     status: "COMPLETED",
-          //   },
-          //   { transaction }
-          // );
+    await settleNftSale(
+      {
+        asset: nftAsset,
+        collection,
+        buyerId: highestBid.bidderId,
+        price: highestBid.amount,
+        escrowed: true,
+      },
+      transaction
+    );
 
-          // Update auction and bid status
-          await auction.update({ status: "COMPLETED" }, { transaction });
-          await highestBid.update({ status: "ACCEPTED" }, { transaction });
+    // Update auction and bid status
+    await auction.update({ status: "COMPLETED" }, { transaction });
+    await highestBid.update({ status: "ACCEPTED" }, { transaction });
+    return { sold: true, nftAsset, sellerId, highestBid };
+  });
 
-          // Send notifications
-          await handleNotification({
-            userId: sellerId,
-            title: "Auction Sold",
-            message: `Your NFT "${nftAsset.name}" has been sold via auction.`,
-            type: "ACTIVITY",
-          });
+  // Already settled by another run
+  if (!settled) return;
 
-          await handleNotification({
-            userId: buyerId,
-            title: "Auction Won",
-            message: `You have won the auction for "${nftAsset.name}".`,
-            type: "ACTIVITY",
-          });
-        }
-      } else {
-        // No bids, cancel auction
-        await auction.update({ status: "CANCELLED" }, { transaction });
-      }
+  const { sold, nftAsset, sellerId, highestBid } = settled;
+  if (!sold) {
+    if (highestBid) {
+      await handleNotification({
+        userId: highestBid.bidderId,
+        title: "Auction Cancelled",
+        message: `The auction for "${nftAsset.name}" ended below its reserve price and your bid was released.`,
+        type: "ACTIVITY",
+      });
     }
-
-    await transaction.commit();
-  } catch (error) {
-    await transaction.rollback();
-    console.error("Error processing ended auctions:", error);
+    return;
   }
-}
 
-function generateTransactionHash(): string {
-  return "0x" + Math.random().toString(16).substr(2, 64);
-}
+  // Send notifications
+  await handleNotification({
+    userId: sellerId,
+    title: "Auction Sold",
+    message: `Your NFT "${nftAsset.name}" has been sold via auction.`,
+    type: "ACTIVITY",
+  });
 
-// Schedule this function to run periodically
-processEndedAuctions();
+  await handleNotification({
+    userId: highestBid.bidderId,
+    title: "Auction Won",
+    message: `You have won the auction for "${nftAsset.name}".`,
+    type: "ACTIVITY",
+  });
+}
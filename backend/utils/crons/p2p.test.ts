@@ -0,0 +1,179 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { sendMessageToRoute } from "@b/handler/Websocket";
+import { logError } from "../logger";
+import { handleNotification } from "../notifications";
+import { processP2pTradeDeadlines } from "./p2p";
+
+jest.mock("@b/db", () => ({
+  models: {
+    p2pTrade: {
+      findAll: jest.fn(),
+      findOne: jest.fn(),
+      findByPk: jest.fn(),
+      update: jest.fn(),
+    },
+    p2pOffer: { update: jest.fn() },
+    p2pDispute: { destroy: jest.fn() },
+    p2pCommission: { destroy: jest.fn() },
+    p2pEscrow: { destroy: jest.fn() },
+    user: {},
+  },
+  sequelize: {
+    literal: (value: string) => ({ literal: value }),
+    transaction: async (callback) => callback({ LOCK: { UPDATE: "UPDATE" } }),
+  },
+}));
+
+jest.mock("@b/utils/emails", () => ({ emailQueue: { add: jest.fn() } }));
+
+jest.mock("@b/utils/cache", () => ({}));
+
+jest.mock("@b/handler/Websocket", () => ({ sendMessageToRoute: jest.fn() }));
+
+jest.mock("../notifications", () => ({ handleNotification: jest.fn() }));
+
+jest.mock("../logger", () => ({ logError: jest.fn() }));
+
+const NOW = new Date("2025-01-01T12:00:00Z");
+
+// Trades due by status, as listed by the cron
+let dueTrades: Record<string, any[]>;
+
+function makeTrade(overrides: Record<string, any> = {}) {
+  const trade = {
+    id: "trade-1",
+    userId: "buyer",
+    sellerId: "seller",
+    offerId: "offer-1",
+    amount: 2,
+    status: "PENDING",
+    offer: { status: "ACTIVE" },
+    user: { id: "buyer", email: "buyer@example.com", firstName: "Buyer" },
+    seller: { id: "seller", email: "seller@example.com", firstName: "Seller" },
+    ...overrides,
+    update: jest.fn(async (values) => Object.assign(trade, values)),
+  };
+  return trade;
+}
+
+const notifiedUsers = () =>
+  (handleNotification as jest.Mock).mock.calls.map(([{ userId, message }]) => [
+    userId,
+    message,
+  ]);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers().setSystemTime(NOW);
+  dueTrades = { PENDING: [], PAID: [] };
+  (models.p2pTrade.findAll as jest.Mock).mockImplementation(
+    async ({ where }) => dueTrades[where.status]
+  );
+  (models.p2pTrade.update as jest.Mock).mockResolvedValue([1]);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("unpaid trades", () => {
+  function expire(
+    trade: ReturnType<typeof makeTrade>,
+    currentStatus = "PENDING"
+  ) {
+    dueTrades.PENDING.push({ id: trade.id });
+    (models.p2pTrade.findOne as jest.Mock).mockResolvedValue(trade);
+    (models.p2pTrade.findByPk as jest.Mock).mockResolvedValue({
+      status: currentStatus,
+    });
+  }
+
+  it("cancels trades past their payment deadline and reopens the offer", async () => {
+    const trade = makeTrade({ offer: { status: "COMPLETED" } });
+    expire(trade);
+
+    await processP2pTradeDeadlines();
+
+    expect(models.p2pTrade.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: "PENDING", paymentDeadline: { [Op.lte]: NOW } },
+      })
+    );
+    expect(models.p2pOffer.update).toHaveBeenCalledWith(
+      { inOrder: { literal: "inOrder - 2" }, status: "ACTIVE" },
+      expect.objectContaining({ where: { id: "offer-1" } })
+    );
+    expect(trade).toMatchObject({
+      status: "CANCELLED",
+      cancelReason: "PAYMENT_TIMEOUT",
+    });
+    expect(models.p2pEscrow.destroy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { tradeId: "trade-1" } })
+    );
+    expect(notifiedUsers()).toEqual(
+      ["buyer", "seller"].map((userId) => [
+        userId,
+        "Trade #trade-1 has been cancelled because the payment window expired",
+      ])
+    );
+  });
+
+  it("leaves a trade the buyer marked as paid meanwhile", async () => {
+    const trade = makeTrade();
+    expire(trade, "PAID");
+
+    await processP2pTradeDeadlines();
+
+    expect(trade.update).not.toHaveBeenCalled();
+    expect(models.p2pOffer.update).not.toHaveBeenCalled();
+    expect(handleNotification).not.toHaveBeenCalled();
+    expect(logError).toHaveBeenCalledWith(
+      "cancelUnpaidTrades",
+      expect.objectContaining({
+        message: "Trade can only be cancelled if it is pending",
+      }),
+      expect.any(String)
+    );
+  });
+});
+
+describe("unreleased trades", () => {
+  it("escalates paid trades past their release deadline to review", async () => {
+    const trade = makeTrade({ status: "PAID" });
+    dueTrades.PAID.push(trade);
+
+    await processP2pTradeDeadlines();
+
+    expect(models.p2pTrade.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: "PAID", releaseDeadline: { [Op.lte]: NOW } },
+      })
+    );
+    expect(models.p2pTrade.update).toHaveBeenCalledWith(
+      { status: "ESCROW_REVIEW" },
+      { where: { id: "trade-1", status: "PAID" } }
+    );
+    expect(sendMessageToRoute).toHaveBeenCalledWith(
+      "/api/ext/p2p/trade",
+      { id: "trade-1" },
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "ESCROW_REVIEW" }),
+      })
+    );
+    expect(notifiedUsers().map(([userId]) => userId)).toEqual([
+      "buyer",
+      "seller",
+    ]);
+  });
+
+  it("skips a trade released or disputed meanwhile", async () => {
+    dueTrades.PAID.push(makeTrade({ status: "PAID" }));
+    (models.p2pTrade.update as jest.Mock).mockResolvedValue([0]);
+
+    await processP2pTradeDeadlines();
+
+    expect(sendMessageToRoute).not.toHaveBeenCalled();
+    expect(handleNotification).not.toHaveBeenCalled();
+  });
+});
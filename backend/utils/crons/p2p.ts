@@ -0,0 +1,74 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { handleNotification } from "../notifications";
+import { logError } from "../logger";
+import {
+  handleTradeCancellation,
+  sendP2PTradeDeadlines,
+} from "@b/api/ext/p2p/trade/utils";
+
+export async function processP2pTradeDeadlines() {
+  try {
+    await cancelUnpaidTrades();
+    await escalateUnreleasedTrades();
+  } catch (error) {
+    logError("processP2pTradeDeadlines", error, __filename);
+    throw error;
+  }
+}
+
+// Cancels the trades whose buyer didn't pay within the offer's payment window,
+// returning the escrowed amount to the offer
+async function cancelUnpaidTrades() {
+  const expiredTrades = await models.p2pTrade.findAll({
+    where: {
+      status: "PENDING",
+      paymentDeadline: { [Op.lte]: new Date() },
+    },
+    attributes: ["id"],
+    limit: 100,
+  });
+
+  for (const trade of expiredTrades) {
+    try {
+      await handleTradeCancellation(trade.id, false, "PAYMENT_TIMEOUT");
+    } catch (error) {
+      logError("cancelUnpaidTrades", error, __filename);
+    }
+  }
+}
+
+// Hands the trades the seller didn't release in time over to an admin
+async function escalateUnreleasedTrades() {
+  const overdueTrades = await models.p2pTrade.findAll({
+    where: {
+      status: "PAID",
+      releaseDeadline: { [Op.lte]: new Date() },
+    },
+    limit: 100,
+  });
+
+  for (const trade of overdueTrades) {
+    try {
+      const [updated] = await models.p2pTrade.update(
+        { status: "ESCROW_REVIEW" },
+        { where: { id: trade.id, status: "PAID" } }
+      );
+      if (updated === 0) continue;
+
+      trade.status = "ESCROW_REVIEW";
+      sendP2PTradeDeadlines(trade);
+
+      for (const userId of [trade.userId, trade.sellerId]) {
+        await handleNotification({
+          userId,
+          title: "Trade Under Review",
+          message: `Trade #${trade.id} was not released in time and has been escalated to escrow review`,
+          type: "ACTIVITY",
+        });
+      }
+    } catch (error) {
+      logError("escalateUnreleasedTrades", error, __filename);
+    }
+  }
+}
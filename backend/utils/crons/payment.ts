@@ -0,0 +1,51 @@
+import { models } from "@b/db";
+import { Op } from "sequelize";
+import { logError } from "../logger";
+import { deliverIpn, scheduleIpn } from "@b/api/ext/payment/utils";
+
+export async function processPaymentIntents() {
+  try {
+    await expireStalePaymentIntents();
+    await retryPaymentIpns();
+  } catch (error) {
+    logError("processPaymentIntents", error, __filename);
+    throw error;
+  }
+}
+
+// Expires the pending intents whose checkout window closed
+async function expireStalePaymentIntents() {
+  const staleIntents = await models.paymentIntent.findAll({
+    where: {
+      status: "PENDING",
+      expiresAt: { [Op.lte]: new Date() },
+    },
+  });
+
+  for (const intent of staleIntents) {
+    try {
+      const [updated] = await models.paymentIntent.update(
+        { status: "EXPIRED" },
+        { where: { id: intent.id, status: "PENDING" } }
+      );
+      if (updated > 0) {
+        await scheduleIpn(intent);
+      }
+    } catch (error) {
+      logError("expireStalePaymentIntents", error, __filename);
+    }
+  }
+}
+
+async function retryPaymentIpns() {
+  const dueIntents = await models.paymentIntent.findAll({
+    where: {
+      ipnNextAttemptAt: { [Op.lte]: new Date() },
+    },
+    limit: 100,
+  });
+
+  for (const intent of dueIntents) {
+    await deliverIpn(intent);
+  }
+}
@@ -0,0 +1,236 @@
+import { randomBytes } from "crypto";
+import { Op, fn, literal } from "sequelize";
+import { models, sequelize } from "@b/db";
+import { chainConfigs } from "../eco/chains";
+import { getProvider } from "../eco/provider";
+import {
+  getCustodialWalletBalances,
+  getCustodialWalletContract,
+} from "../eco/custodialWallet";
+import {
+  buildMerkleSumTree,
+  fromLiabilityUnits,
+  getMerkleSumRoot,
+  hashLiabilityLeaf,
+  toLiabilityUnits,
+} from "../reserves";
+import { logError } from "../logger";
+
+// Leaves are kept this long so users can still verify older snapshots, the
+// snapshots themselves are kept as history
+const LEAF_RETENTION_DAYS = 90;
+const LEAF_BATCH_SIZE = 1000;
+
+type AssetSources = Record<string, Record<string, number>>;
+
+/**
+ * Commits the liabilities of every currency, the SPOT and ECO balances users
+ * hold including funds in orders, to a Merkle sum tree and publishes its root
+ * next to the assets covering them.
+ */
+export async function snapshotReserves() {
+  try {
+    const liabilities = await loadLiabilities();
+    const assets = await loadAssets();
+
+    const currencies = new Set([
+      ...Object.keys(liabilities),
+      ...Object.keys(assets),
+    ]);
+    for (const currency of currencies) {
+      try {
+        await snapshotCurrency(
+          currency,
+          liabilities[currency] || {},
+          assets[currency] || {}
+        );
+      } catch (error) {
+        logError("snapshotReserves", error, __filename);
+      }
+    }
+
+    await pruneSnapshotLeaves();
+  } catch (error) {
+    logError("snapshotReserves", error, __filename);
+    throw error;
+  }
+}
+
+async function loadLiabilities() {
+  const balances = (await models.wallet.findAll({
+    attributes: [
+      "userId",
+      "currency",
+      [fn("SUM", literal("balance + inOrder")), "total"],
+    ],
+    where: { type: { [Op.in]: ["SPOT", "ECO"] } },
+    group: ["userId", "currency"],
+    raw: true,
+  })) as unknown as { userId: string; currency: string; total: number }[];
+
+  const liabilities: Record<string, Record<string, number>> = {};
+  for (const { userId, currency, total } of balances) {
+    const amount = Number(total);
+    if (amount < 0) {
+      logError(
+        "snapshotReserves",
+        new Error(`Negative ${currency} balance for user ${userId}`),
+        __filename
+      );
+      continue;
+    }
+    if (!amount) continue;
+    liabilities[currency] = liabilities[currency] || {};
+    liabilities[currency][userId] = amount;
+  }
+
+  return liabilities;
+}
+
+// Assets per currency and source: ecosystem master and custodial wallets, and
+// the exchange provider balances from the last reconciliation backing the
+// SPOT wallets. A source that can't be read fails the run rather than
+// publishing understated reserves.
+async function loadAssets() {
+  const assets: AssetSources = {};
+  const add = (currency: string, source: string, amount: number) => {
+    if (!amount) return;
+    assets[currency] = assets[currency] || {};
+    assets[currency][source] = (assets[currency][source] || 0) + amount;
+  };
+
+  const masterWallets = await models.ecosystemMasterWallet.findAll({
+    where: { status: true },
+    attributes: ["currency", "balance"],
+  });
+  for (const wallet of masterWallets) {
+    add(wallet.currency, "masterWallets", Number(wallet.balance));
+  }
+
+  const custodialWallets = await models.ecosystemCustodialWallet.findAll({
+    where: { status: "ACTIVE" },
+  });
+  for (const wallet of custodialWallets) {
+    try {
+      const tokens = await models.ecosystemToken.findAll({
+        where: {
+          chain: wallet.chain,
+          network: wallet.network,
+          contractType: "NO_PERMIT",
+          status: true,
+        },
+        attributes: ["currency", "contract", "decimals"],
+        raw: true,
+      });
+
+      const provider = await getProvider(wallet.chain);
+      const contract = await getCustodialWalletContract(
+        wallet.address,
+        provider
+      );
+      const { balances, native } = await getCustodialWalletBalances(
+        contract,
+        tokens
+      );
+
+      add(
+        chainConfigs[wallet.chain]?.currency || wallet.chain,
+        "custodialWallets",
+        Number(native)
+      );
+      for (const token of balances) {
+        add(token.currency, "custodialWallets", Number(token.balance));
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to read custodial wallet ${wallet.address} on ${wallet.chain}: ${error.message}`
+      );
+    }
+  }
+
+  const reconciliations = await models.exchangeReconciliation.findAll({
+    attributes: ["currency", "providerTotal"],
+  });
+  for (const reconciliation of reconciliations) {
+    add(
+      reconciliation.currency,
+      "exchangeProviders",
+      Number(reconciliation.providerTotal)
+    );
+  }
+
+  return assets;
+}
+
+async function snapshotCurrency(
+  currency: string,
+  balances: Record<string, number>,
+  assets: Record<string, number>
+) {
+  // Leaves are shuffled so positions reveal nothing about the users
+  const entries = Object.entries(balances);
+  for (let i = entries.length - 1; i > 0; i--) {
+    const j = randomBytes(4).readUInt32BE(0) % (i + 1);
+    [entries[i], entries[j]] = [entries[j], entries[i]];
+  }
+
+  const leaves = entries.map(([userId, amount], position) => {
+    const units = toLiabilityUnits(amount);
+    const nonce = randomBytes(16).toString("hex");
+    return {
+      userId,
+      position,
+      balance: fromLiabilityUnits(units),
+      nonce,
+      hash: hashLiabilityLeaf(userId, nonce, units),
+      sum: units,
+    };
+  });
+
+  const root = getMerkleSumRoot(buildMerkleSumTree(leaves));
+  const totalLiabilities = fromLiabilityUnits(root.sum);
+  const totalAssets = Object.values(assets).reduce(
+    (sum, amount) => sum + amount,
+    0
+  );
+
+  await sequelize.transaction(async (transaction) => {
+    const snapshot = await models.reserveSnapshot.create(
+      {
+        currency,
+        rootHash: root.hash,
+        totalLiabilities,
+        totalAssets,
+        assets,
+        reserveRatio: totalLiabilities
+          ? totalAssets / totalLiabilities
+          : undefined,
+        leafCount: leaves.length,
+      },
+      { transaction }
+    );
+
+    for (let i = 0; i < leaves.length; i += LEAF_BATCH_SIZE) {
+      await models.reserveSnapshotLeaf.bulkCreate(
+        leaves
+          .slice(i, i + LEAF_BATCH_SIZE)
+          .map(({ userId, position, balance, nonce, hash }) => ({
+            snapshotId: snapshot.id,
+            userId,
+            position,
+            balance,
+            nonce,
+            hash,
+          })),
+        { transaction }
+      );
+    }
+  });
+}
+
+async function pruneSnapshotLeaves() {
+  const cutoff = new Date(Date.now() - LEAF_RETENTION_DAYS * 86400000);
+  await models.reserveSnapshotLeaf.destroy({
+    where: { createdAt: { [Op.lt]: cutoff } },
+  });
+}
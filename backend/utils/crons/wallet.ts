@@ -238,7 +238,8 @@ export async function processPendingWithdrawals() {
             transaction.wallet?.currency,
             Number(transaction.amount),
             Number(transaction.fee),
-            "REFUND_WITHDRAWAL"
+            "REFUND_WITHDRAWAL",
+            transaction.id
           );
           await handleNotification({
             userId,
@@ -0,0 +1,142 @@
+import { ethers } from "ethers";
+import { ChainAdapter } from "./types";
+import { chainConfigs } from "../chains";
+import {
+  getProvider,
+  initializeProvider,
+  isProviderHealthy,
+} from "../provider";
+import { fetchAndParseTransactions } from "../transactions";
+import { handleEvmWithdrawal } from "../withdraw";
+import { EVMDeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/EVMDeposits";
+import { MODeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/MODeposits";
+import {
+  chainProviders,
+  initializeHttpProvider,
+  initializeWebSocketProvider,
+} from "@b/api/ext/ecosystem/deposit/util/ProviderManager";
+
+export const createEVMWallet = () => {
+  // Generate a random wallet
+  const wallet = ethers.Wallet.createRandom();
+
+  if (!wallet.mnemonic) {
+    throw new Error("Mnemonic not found");
+  }
+
+  // Derive the HDNode from the wallet's mnemonic
+  const hdNode = ethers.HDNodeWallet.fromPhrase(wallet.mnemonic.phrase);
+
+  if (!hdNode || !hdNode.mnemonic) {
+    throw new Error("Mnemonic not found");
+  }
+
+  return {
+    address: hdNode.address,
+    data: {
+      mnemonic: hdNode.mnemonic.phrase,
+      publicKey: hdNode.publicKey,
+      privateKey: hdNode.privateKey,
+      xprv: hdNode.extendedKey,
+      xpub: hdNode.neuter().extendedKey,
+      chainCode: hdNode.chainCode,
+      path: hdNode.path,
+    },
+  };
+};
+
+// Used for every chain without an adapter of its own
+const evmAdapter: ChainAdapter = {
+  chains: [],
+
+  getNetwork: (token) => token.network,
+
+  async ensureAvailable(chain) {
+    const provider = await initializeProvider(chain);
+    if (!(await isProviderHealthy(provider))) {
+      throw new Error(`Provider for chain ${chain} is unavailable`);
+    }
+  },
+
+  createWallet: async () => createEVMWallet(),
+
+  validateAddress(chain, address) {
+    if (!ethers.isAddress(address)) {
+      throw new Error(`Invalid target wallet address: ${address}`);
+    }
+  },
+
+  async getBalance(chain, address) {
+    const provider = await getProvider(chain);
+    const balance = await provider.getBalance(address);
+    return ethers.formatUnits(balance.toString(), chainConfigs[chain].decimals);
+  },
+
+  async fetchTransactions(chain, address) {
+    const config = chainConfigs[chain];
+    if (!config) {
+      throw new Error(`Unsupported chain: ${chain}`);
+    }
+    return fetchAndParseTransactions(address, chain, config);
+  },
+
+  createDepositMonitor(options) {
+    const { wallet, chain, currency, address, contractType } = options;
+    // MO tokens are followed through their logs as it has no explorer API
+    if (chain === "MO" && contractType !== "NATIVE") {
+      return new MODeposits({ wallet, chain, currency, address, contractType });
+    }
+    return new EVMDeposits(options);
+  },
+
+  async verifyDeposit(chain, txHash, txDetails) {
+    let provider = chainProviders.get(chain);
+    if (!provider) {
+      provider = await initializeWebSocketProvider(chain);
+      if (!provider) {
+        provider = await initializeHttpProvider(chain);
+      }
+    }
+
+    if (!provider) {
+      console.error(`Provider not available for chain ${chain}`);
+      return null;
+    }
+
+    try {
+      const receipt = await provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        console.log(`Transaction ${txHash} not yet confirmed.`);
+        return null;
+      }
+
+      const confirmed = receipt.status === 1;
+      return {
+        confirmed,
+        details: {
+          ...txDetails,
+          gasUsed: receipt.gasUsed.toString(),
+          status: confirmed ? "COMPLETED" : "FAILED",
+        },
+      };
+    } catch (error) {
+      console.error(`Error fetching receipt for ${txHash}: ${error.message}`);
+      return null;
+    }
+  },
+
+  // Gas isn't charged on top of the withdrawal fee on EVM chains
+  estimateWithdrawalFee: async () => 0,
+
+  async withdraw(transaction, metadata) {
+    await handleEvmWithdrawal(
+      transaction.id,
+      transaction.walletId,
+      metadata.chain,
+      transaction.amount,
+      metadata.toAddress
+    );
+  },
+};
+
+export default evmAdapter;
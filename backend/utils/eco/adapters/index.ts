@@ -0,0 +1,66 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+import fs from "fs";
+import path from "path";
+import { ChainAdapter } from "./types";
+
+export * from "./types";
+
+// Check if the environment is production
+const isProduction = process.env.NODE_ENV === "production";
+
+// The EVM adapter serves every chain without an adapter of its own, so it is
+// loaded on its own rather than registered for a list of chains
+const EXCLUDED_FILES = ["index", "types", "evm"];
+
+let adapters: Map<string, ChainAdapter> | null = null;
+
+// Adapters are loaded on first use, as they depend on the wallet utilities
+// that look them up
+function loadAdapters() {
+  const registry = new Map<string, ChainAdapter>();
+  const fileExtension = isProduction ? ".js" : ".ts";
+
+  const adapterFiles = fs.readdirSync(__dirname).filter((file) => {
+    return (
+      file.indexOf(".") !== 0 &&
+      file.endsWith(fileExtension) &&
+      !file.endsWith(".d.ts") &&
+      !EXCLUDED_FILES.includes(path.basename(file, fileExtension))
+    );
+  });
+
+  for (const file of adapterFiles) {
+    const adapterModule = require(path.join(__dirname, file));
+    const adapter: ChainAdapter = adapterModule.default || adapterModule;
+    if (!adapter || !Array.isArray(adapter.chains)) {
+      console.error(`Chain adapter ${file} does not export a valid adapter.`);
+      continue;
+    }
+
+    for (const chain of adapter.chains) {
+      if (registry.has(chain)) {
+        console.error(`Chain ${chain} is already handled by another adapter.`);
+        continue;
+      }
+      registry.set(chain, adapter);
+    }
+  }
+
+  return registry;
+}
+
+export function getChainAdapter(chain: string): ChainAdapter {
+  if (!adapters) {
+    adapters = loadAdapters();
+  }
+  return adapters.get(chain) || require("./evm").default;
+}
+
+// For chains whose deposit monitors only report settled transactions
+export async function verifyMonitoredDeposit(txDetails: any) {
+  return {
+    confirmed:
+      txDetails.status === "COMPLETED" || txDetails.status === "CONFIRMED",
+    details: txDetails,
+  };
+}
@@ -0,0 +1,72 @@
+import { PublicKey } from "@solana/web3.js";
+import SolanaService from "@b/blockchains/sol";
+import { ChainAdapter } from "./types";
+import { verifyMonitoredDeposit } from ".";
+import { SolanaDeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/SolanaDeposits";
+
+const solanaAdapter: ChainAdapter = {
+  chains: ["SOL"],
+
+  // SPL tokens are held on a keypair of their own
+  tokenWallets: true,
+
+  getNetwork: () => process.env.SOLANA_NETWORK || "mainnet",
+
+  async ensureAvailable() {
+    await SolanaService.getInstance();
+  },
+
+  async createWallet() {
+    const solanaService = await SolanaService.getInstance();
+    return solanaService.createWallet();
+  },
+
+  validateAddress(chain, address) {
+    try {
+      new PublicKey(address);
+    } catch (error) {
+      throw new Error(`Invalid Solana address: ${address}`);
+    }
+  },
+
+  async getBalance(chain, address) {
+    const solanaService = await SolanaService.getInstance();
+    return solanaService.getBalance(address);
+  },
+
+  async fetchTransactions(chain, address) {
+    const solanaService = await SolanaService.getInstance();
+    return solanaService.fetchTransactions(address);
+  },
+
+  createDepositMonitor: ({ wallet, chain, currency, address }) =>
+    new SolanaDeposits({ wallet, chain, currency, address }),
+
+  verifyDeposit: (chain, txHash, txDetails) =>
+    verifyMonitoredDeposit(txDetails),
+
+  estimateWithdrawalFee: async () => 0,
+
+  async withdraw(transaction, metadata) {
+    const solanaService = await SolanaService.getInstance();
+    if (metadata.contractType === "PERMIT") {
+      await solanaService.handleSplTokenWithdrawal(
+        transaction.id,
+        transaction.walletId,
+        metadata.contract,
+        transaction.amount,
+        metadata.toAddress,
+        metadata.decimals
+      );
+    } else {
+      await solanaService.handleSolanaWithdrawal(
+        transaction.id,
+        transaction.walletId,
+        transaction.amount,
+        metadata.toAddress
+      );
+    }
+  },
+};
+
+export default solanaAdapter;
@@ -0,0 +1,62 @@
+import TonWeb from "tonweb";
+import TonService from "@b/blockchains/ton";
+import { ChainAdapter } from "./types";
+import { verifyMonitoredDeposit } from ".";
+import { TonDeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/TonDeposits";
+
+const tonAdapter: ChainAdapter = {
+  chains: ["TON"],
+
+  getNetwork: () => process.env.TON_NETWORK || "mainnet",
+
+  async ensureAvailable() {
+    await TonService.getInstance();
+  },
+
+  async createWallet() {
+    const tonService = await TonService.getInstance();
+    return tonService.createWallet();
+  },
+
+  validateAddress(chain, address) {
+    try {
+      // Accept both raw and user-friendly TON addresses
+      const tonAddress = new TonWeb.utils.Address(address);
+      if (!tonAddress || !tonAddress.toString()) {
+        throw new Error(`Invalid TON address: ${address}`);
+      }
+    } catch (error) {
+      throw new Error(`Invalid TON address: ${address}`);
+    }
+  },
+
+  async getBalance(chain, address) {
+    const tonService = await TonService.getInstance();
+    return tonService.getBalance(address);
+  },
+
+  async fetchTransactions(chain, address) {
+    const tonService = await TonService.getInstance();
+    return tonService.fetchTransactions(address);
+  },
+
+  createDepositMonitor: ({ wallet, chain, address }) =>
+    new TonDeposits({ wallet, chain, address }),
+
+  verifyDeposit: (chain, txHash, txDetails) =>
+    verifyMonitoredDeposit(txDetails),
+
+  estimateWithdrawalFee: async () => 0,
+
+  async withdraw(transaction, metadata) {
+    const tonService = await TonService.getInstance();
+    await tonService.handleTonWithdrawal(
+      transaction.id,
+      transaction.walletId,
+      transaction.amount,
+      metadata.toAddress
+    );
+  },
+};
+
+export default tonAdapter;
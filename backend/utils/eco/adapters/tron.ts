@@ -0,0 +1,89 @@
+import TronService from "@b/blockchains/tron";
+import { ChainAdapter } from "./types";
+import { verifyMonitoredDeposit } from ".";
+import { getWalletData } from "../wallet";
+import { TronDeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/TronDeposits";
+
+// Sending to an address that was never used activates it for 1 TRX
+const ACTIVATION_FEE = 1;
+
+const tronAdapter: ChainAdapter = {
+  chains: ["TRON"],
+
+  getNetwork: () => process.env.TRON_NETWORK || "mainnet",
+
+  async ensureAvailable() {
+    await TronService.getInstance();
+  },
+
+  async createWallet() {
+    const tronService = await TronService.getInstance();
+    const { address, data } = tronService.createWallet();
+    if (!address) {
+      throw new Error("Failed to generate a Tron address");
+    }
+    return { address, data };
+  },
+
+  validateAddress(chain, address) {
+    if (!address.startsWith("T")) {
+      throw new Error(`Invalid Tron address: ${address}`);
+    }
+  },
+
+  async getBalance(chain, address) {
+    const tronService = await TronService.getInstance();
+    return tronService.getBalance(address);
+  },
+
+  async fetchTransactions(chain, address) {
+    const tronService = await TronService.getInstance();
+    return tronService.fetchTransactions(address);
+  },
+
+  createDepositMonitor: ({ wallet, chain, address }) =>
+    new TronDeposits({ wallet, chain, address }),
+
+  verifyDeposit: (chain, txHash, txDetails) =>
+    verifyMonitoredDeposit(txDetails),
+
+  async estimateWithdrawalFee({ chain, wallet, toAddress, amount }) {
+    const tronService = await TronService.getInstance();
+
+    const isActivated = await tronService.isAddressActivated(toAddress);
+    const activationFee = isActivated ? 0 : ACTIVATION_FEE;
+
+    const walletData = await getWalletData(wallet.id, chain);
+    if (!walletData) {
+      throw new Error("Wallet data not found");
+    }
+
+    const addresses =
+      typeof wallet.address === "string"
+        ? JSON.parse(wallet.address)
+        : wallet.address;
+    const fromAddress = addresses[chain].address;
+
+    // Fees are estimated in Sun, TRX's smallest unit
+    const amountSun = Math.round(amount * 1e6);
+    const estimatedFeeSun = await tronService.estimateTransactionFee(
+      fromAddress,
+      toAddress,
+      amountSun
+    );
+
+    return activationFee + estimatedFeeSun / 1e6;
+  },
+
+  async withdraw(transaction, metadata) {
+    const tronService = await TronService.getInstance();
+    await tronService.handleTronWithdrawal(
+      transaction.id,
+      transaction.walletId,
+      transaction.amount,
+      metadata.toAddress
+    );
+  },
+};
+
+export default tronAdapter;
@@ -0,0 +1,67 @@
+import { IDepositMonitor } from "@b/api/ext/ecosystem/deposit/util/monitor/IDepositMonitor";
+
+export interface ChainWallet {
+  address: string;
+  // Key material, stored encrypted in the wallet data
+  data: Record<string, any>;
+}
+
+export interface DepositMonitorOptions {
+  wallet: walletAttributes;
+  chain: string;
+  currency: string;
+  address: string;
+  contractType: "PERMIT" | "NO_PERMIT" | "NATIVE";
+}
+
+export interface WithdrawalFeeOptions {
+  chain: string;
+  wallet: walletAttributes;
+  toAddress: string;
+  amount: number;
+}
+
+/**
+ * Everything the ecosystem wallets need from a blockchain. Each module of this
+ * directory default-exports one adapter, registered for the chains it lists.
+ */
+export interface ChainAdapter {
+  chains: string[];
+
+  // Tokens get a keypair of their own per user instead of an address derived
+  // from the master wallet
+  tokenWallets?: boolean;
+
+  // Network the deposit addresses of the token are created on
+  getNetwork(token: ecosystemTokenAttributes): string;
+
+  // Throws when the chain can't be reached, before anything is broadcast
+  ensureAvailable(chain: string): Promise<void>;
+
+  // The name identifies the wallet on chains whose keys live in a wallet RPC
+  createWallet(chain: string, name: string): Promise<ChainWallet>;
+
+  // Throws when the address can't receive funds on the chain
+  validateAddress(chain: string, address: string): void;
+
+  // Native balance of the address, in whole units
+  getBalance(chain: string, address: string): Promise<string>;
+
+  fetchTransactions(chain: string, address: string): Promise<any[]>;
+
+  createDepositMonitor(options: DepositMonitorOptions): IDepositMonitor;
+
+  // Resolves the pending deposit once the chain settled it, or with null
+  // while it should stay pending
+  verifyDeposit(
+    chain: string,
+    txHash: string,
+    txDetails: any
+  ): Promise<{ confirmed: boolean; details: any } | null>;
+
+  // Network fees charged to the user on top of the withdrawal fee
+  estimateWithdrawalFee(options: WithdrawalFeeOptions): Promise<number>;
+
+  // Signs and broadcasts the withdrawal, waiting for it to be confirmed
+  withdraw(transaction: any, metadata: any): Promise<void>;
+}
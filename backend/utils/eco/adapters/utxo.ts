@@ -0,0 +1,48 @@
+import { ChainAdapter } from "./types";
+import {
+  createUTXOWallet,
+  fetchUTXOTransactions,
+  fetchUTXOWalletBalance,
+  handleUTXOWithdrawal,
+  verifyUTXOTransaction,
+} from "../utxo";
+import { UTXODeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/UTXODeposits";
+
+const utxoAdapter: ChainAdapter = {
+  chains: ["BTC", "LTC", "DOGE", "DASH"],
+
+  getNetwork: (token) => token.network,
+
+  // Explorer APIs are only reached once the withdrawal is built
+  ensureAvailable: async () => {},
+
+  createWallet: async (chain) => createUTXOWallet(chain) as any,
+
+  // Addresses are checked by the payment scripts when the withdrawal is built
+  validateAddress: () => {},
+
+  getBalance: async (chain, address) =>
+    String(await fetchUTXOWalletBalance(chain, address)),
+
+  fetchTransactions: (chain, address) => fetchUTXOTransactions(chain, address),
+
+  createDepositMonitor: ({ wallet, chain, address }) =>
+    new UTXODeposits({ wallet, chain, address }),
+
+  async verifyDeposit(chain, txHash, txDetails) {
+    const { confirmed } = await verifyUTXOTransaction(chain, txHash);
+    return {
+      confirmed,
+      details: { ...txDetails, status: confirmed ? "COMPLETED" : "PENDING" },
+    };
+  },
+
+  // The miner fee is paid out of the withdrawal fee
+  estimateWithdrawalFee: async () => 0,
+
+  async withdraw(transaction) {
+    await handleUTXOWithdrawal(transaction);
+  },
+};
+
+export default utxoAdapter;
@@ -0,0 +1,61 @@
+import MoneroService from "@b/blockchains/xmr";
+import { ChainAdapter } from "./types";
+import { verifyMonitoredDeposit } from ".";
+import { MoneroDeposits } from "@b/api/ext/ecosystem/deposit/util/monitor/MoneroDeposits";
+
+// The master wallet's balance and history are read from the wallet RPC, which
+// only knows wallets by name
+const MASTER_WALLET = "master_wallet";
+
+const moneroAdapter: ChainAdapter = {
+  chains: ["XMR"],
+
+  getNetwork: () => process.env.MONERO_NETWORK || "mainnet",
+
+  async ensureAvailable() {
+    await MoneroService.getInstance();
+  },
+
+  async createWallet(chain, name) {
+    const moneroService = await MoneroService.getInstance();
+    return moneroService.createWallet(name);
+  },
+
+  validateAddress(chain, address) {
+    if (!address.startsWith("4") && !address.startsWith("8")) {
+      throw new Error(`Invalid Monero address: ${address}`);
+    }
+  },
+
+  async getBalance() {
+    const moneroService = await MoneroService.getInstance();
+    return moneroService.getBalance(MASTER_WALLET);
+  },
+
+  async fetchTransactions() {
+    const moneroService = await MoneroService.getInstance();
+    return moneroService.fetchTransactions(MASTER_WALLET);
+  },
+
+  createDepositMonitor: ({ wallet }) => new MoneroDeposits({ wallet }),
+
+  verifyDeposit: (chain, txHash, txDetails) =>
+    verifyMonitoredDeposit(txDetails),
+
+  async estimateWithdrawalFee() {
+    const moneroService = await MoneroService.getInstance();
+    return moneroService.estimateMoneroFee();
+  },
+
+  async withdraw(transaction, metadata) {
+    const moneroService = await MoneroService.getInstance();
+    await moneroService.handleMoneroWithdrawal(
+      transaction.id,
+      transaction.walletId,
+      transaction.amount,
+      metadata.toAddress
+    );
+  },
+};
+
+export default moneroAdapter;
@@ -0,0 +1,282 @@
+import { ethers } from "ethers";
+import { models } from "@b/db";
+import { logError } from "../logger";
+import { scanEcosystemDeposits } from "./blockScanner";
+import { getProvider } from "./provider";
+import { handleEcosystemDeposit } from "./wallet";
+
+jest.mock("@b/db", () => ({
+  models: {
+    ecosystemBlockCheckpoint: { findOrCreate: jest.fn() },
+    ecosystemToken: { findAll: jest.fn() },
+    wallet: { findAll: jest.fn() },
+  },
+}));
+
+jest.mock("./chains", () => ({
+  chainConfigs: { ETH: { decimals: 18, smartContract: { file: "ERC20" } } },
+}));
+
+jest.mock("./provider", () => ({ getProvider: jest.fn() }));
+
+jest.mock("./wallet", () => ({ handleEcosystemDeposit: jest.fn() }));
+
+jest.mock("@b/handler/Websocket", () => ({ sendMessageToRoute: jest.fn() }));
+
+jest.mock("../notifications", () => ({ handleNotification: jest.fn() }));
+
+jest.mock("../logger", () => ({ logError: jest.fn() }));
+
+jest.mock("@b/api/ext/ecosystem/deposit/util/DepositUtils", () => ({
+  createTransactionDetails: jest.fn(
+    async (
+      contractType,
+      walletId,
+      tx,
+      to,
+      chain,
+      decimals,
+      feeDecimals,
+      type,
+      amount
+    ) => ({
+      contractType,
+      walletId,
+      to,
+      amount: ethers.formatUnits(amount, decimals),
+    })
+  ),
+}));
+
+const USER_ADDRESS = "0x" + "11".repeat(20);
+const SENDER_ADDRESS = "0x" + "33".repeat(20);
+const TOKEN_CONTRACT = "0x" + "22".repeat(20);
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+const hashOf = (number: number, fork = "") =>
+  ethers.id(`block-${number}${fork}`);
+
+// A JSON-RPC provider over an in-memory chain
+let head: number;
+let forks: Record<number, string>;
+let transfers: Record<number, any[]>;
+let logs: any[];
+let provider: any;
+
+let checkpoint: any;
+
+function makeCheckpoint(blockNumber: number, recentBlocks: number[] = []) {
+  checkpoint = {
+    blockNumber,
+    recentBlocks: recentBlocks.map((number) => ({
+      number,
+      hash: hashOf(number),
+    })),
+    update: jest.fn(async (values) => Object.assign(checkpoint, values)),
+  };
+  (models.ecosystemBlockCheckpoint.findOrCreate as jest.Mock).mockResolvedValue(
+    [checkpoint, false]
+  );
+}
+
+function nativeTransfer(block: number, hash: string, value: bigint) {
+  transfers[block] = [
+    ...(transfers[block] || []),
+    { hash, to: USER_ADDRESS, value },
+  ];
+}
+
+function tokenTransfer(block: number, hash: string, amount: bigint) {
+  logs.push({
+    address: TOKEN_CONTRACT,
+    blockNumber: block,
+    index: 0,
+    transactionHash: hash,
+    topics: [
+      TRANSFER_TOPIC,
+      ethers.zeroPadValue(SENDER_ADDRESS, 32),
+      ethers.zeroPadValue(USER_ADDRESS, 32),
+    ],
+    data: ethers.toBeHex(amount, 32),
+  });
+}
+
+const credited = () =>
+  (handleEcosystemDeposit as jest.Mock).mock.calls.map(([details]) => details);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.ETH_DEPOSIT_SCANNER = "true";
+  process.env.ETH_CONFIRMATIONS = "2";
+
+  head = 105;
+  forks = {};
+  transfers = {};
+  logs = [];
+  provider = {
+    getBlockNumber: jest.fn(async () => head),
+    getBlock: jest.fn(async (number: number) =>
+      number > head
+        ? null
+        : {
+            number,
+            hash: hashOf(number, forks[number]),
+            prefetchedTransactions: transfers[number] || [],
+          }
+    ),
+    getTransaction: jest.fn(async (hash: string) => ({ hash })),
+    getTransactionReceipt: jest.fn(async () => ({
+      status: 1,
+      gasUsed: BigInt(21000),
+    })),
+    getLogs: jest.fn(async ({ fromBlock, toBlock }) =>
+      logs.filter(
+        (log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+      )
+    ),
+  };
+  (getProvider as jest.Mock).mockResolvedValue(provider);
+
+  (models.ecosystemToken.findAll as jest.Mock).mockResolvedValue([
+    { currency: "ETH", contractType: "NATIVE" },
+    {
+      currency: "USDT",
+      contractType: "PERMIT",
+      contract: TOKEN_CONTRACT,
+      decimals: 6,
+    },
+  ]);
+  (models.wallet.findAll as jest.Mock).mockResolvedValue(
+    ["ETH", "USDT"].map((currency) => ({
+      id: `wallet-${currency}`,
+      currency,
+      address: JSON.stringify({ ETH: { address: USER_ADDRESS } }),
+    }))
+  );
+  (handleEcosystemDeposit as jest.Mock).mockResolvedValue({
+    transaction: { id: "transaction" },
+    wallet: { userId: "user-1", currency: "ETH", balance: 1 },
+  });
+});
+
+describe("scanEcosystemDeposits", () => {
+  it("starts a new chain at its safe head without replaying history", async () => {
+    (
+      models.ecosystemBlockCheckpoint.findOrCreate as jest.Mock
+    ).mockImplementation(async ({ defaults }) => {
+      makeCheckpoint(defaults.blockNumber);
+      return [checkpoint, true];
+    });
+
+    await scanEcosystemDeposits();
+
+    expect(models.ecosystemBlockCheckpoint.findOrCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        defaults: { chain: "ETH", blockNumber: 103, recentBlocks: [] },
+      })
+    );
+    expect(provider.getLogs).not.toHaveBeenCalled();
+    expect(checkpoint.update).not.toHaveBeenCalled();
+  });
+
+  it("credits native and token transfers to our addresses", async () => {
+    makeCheckpoint(100, [100]);
+    nativeTransfer(101, "0xnative", ethers.parseEther("1.5"));
+    tokenTransfer(102, "0xtoken", BigInt(250000000));
+
+    await scanEcosystemDeposits();
+
+    expect(credited()).toEqual([
+      expect.objectContaining({
+        walletId: "wallet-ETH",
+        amount: "1.5",
+        hash: "0xnative",
+        gasUsed: "21000",
+        status: "COMPLETED",
+      }),
+      expect.objectContaining({
+        walletId: "wallet-USDT",
+        amount: "250.0",
+        hash: "0xtoken",
+        from: ethers.getAddress(SENDER_ADDRESS),
+        status: "COMPLETED",
+      }),
+    ]);
+  });
+
+  it("skips reverted transfers and token transfers with an indexed ID", async () => {
+    makeCheckpoint(100, [100]);
+    nativeTransfer(101, "0xreverted", ethers.parseEther("1"));
+    provider.getTransactionReceipt.mockResolvedValueOnce({ status: 0 });
+    tokenTransfer(102, "0xnft", BigInt(1));
+    logs[0].topics.push(ethers.zeroPadValue("0x01", 32));
+
+    await scanEcosystemDeposits();
+
+    expect(handleEcosystemDeposit).not.toHaveBeenCalled();
+  });
+
+  it("leaves blocks within the confirmation depth for a later scan", async () => {
+    makeCheckpoint(100, [100]);
+    nativeTransfer(103, "0xconfirmed", ethers.parseEther("1"));
+    nativeTransfer(104, "0xpending", ethers.parseEther("1"));
+
+    await scanEcosystemDeposits();
+
+    expect(credited().map(({ hash }) => hash)).toEqual(["0xconfirmed"]);
+    expect(provider.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 101, toBlock: 103 })
+    );
+    expect(checkpoint.blockNumber).toBe(103);
+
+    head = 106;
+    await scanEcosystemDeposits();
+
+    expect(credited().map(({ hash }) => hash)).toEqual([
+      "0xconfirmed",
+      "0xpending",
+    ]);
+  });
+
+  it("resumes from its checkpoint and records the scanned head", async () => {
+    makeCheckpoint(100, [99, 100]);
+
+    await scanEcosystemDeposits();
+    await scanEcosystemDeposits();
+
+    expect(provider.getLogs).toHaveBeenCalledTimes(1);
+    expect(checkpoint.update).toHaveBeenCalledTimes(1);
+    expect(checkpoint).toMatchObject({
+      blockNumber: 103,
+      recentBlocks: [99, 100, 103].map((number) => ({
+        number,
+        hash: hashOf(number),
+      })),
+    });
+  });
+
+  it("rescans from the last canonical block after a reorg", async () => {
+    makeCheckpoint(100, [98, 99, 100]);
+    forks[99] = "-fork";
+    forks[100] = "-fork";
+    nativeTransfer(99, "0xreorged", ethers.parseEther("1"));
+
+    await scanEcosystemDeposits();
+
+    expect(logError).toHaveBeenCalledWith(
+      "scanEcosystemDeposits",
+      expect.objectContaining({
+        message: expect.stringContaining("after block 98 must be reviewed"),
+      }),
+      expect.any(String)
+    );
+    expect(provider.getLogs).toHaveBeenCalledWith(
+      expect.objectContaining({ fromBlock: 99, toBlock: 103 })
+    );
+    expect(credited().map(({ hash }) => hash)).toEqual(["0xreorged"]);
+    expect(checkpoint.recentBlocks).toEqual([
+      { number: 98, hash: hashOf(98) },
+      { number: 103, hash: hashOf(103) },
+    ]);
+  });
+});
@@ -0,0 +1,382 @@
+import { ethers, JsonRpcProvider } from "ethers";
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { chainConfigs } from "./chains";
+import { getProvider } from "./provider";
+import { handleEcosystemDeposit } from "./wallet";
+import { sendMessageToRoute } from "@b/handler/Websocket";
+import { handleNotification } from "../notifications";
+import { logError } from "../logger";
+import { createTransactionDetails } from "@b/api/ext/ecosystem/deposit/util/DepositUtils";
+
+// Follows the blocks of EVM chains over JSON-RPC and credits the native and
+// ERC-20 transfers to our custodial addresses, for chains or private networks
+// without an etherscan-style explorer API. Enabled per chain with
+// <CHAIN>_DEPOSIT_SCANNER=true.
+
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+const DEFAULT_CONFIRMATIONS = 12;
+const MAX_BLOCKS_PER_SCAN =
+  Number(process.env.DEPOSIT_SCANNER_MAX_BLOCKS) || 100;
+const ADDRESSES_PER_LOG_QUERY = 100;
+const RECENT_BLOCKS_KEPT = 64;
+
+type WatchedAddresses = Map<
+  string,
+  { address: string; wallets: Map<string, string> }
+>;
+
+interface ScanContext {
+  chain: string;
+  provider: JsonRpcProvider;
+  addresses: WatchedAddresses;
+  creditedHashes: Set<string>;
+}
+
+export function isBlockScannerEnabled(chain: string) {
+  return (
+    process.env[`${chain}_DEPOSIT_SCANNER`] === "true" &&
+    chainConfigs[chain]?.smartContract?.file === "ERC20"
+  );
+}
+
+function getConfirmations(chain: string) {
+  const confirmations = parseInt(process.env[`${chain}_CONFIRMATIONS`] || "");
+  return Number.isInteger(confirmations) && confirmations >= 0
+    ? confirmations
+    : DEFAULT_CONFIRMATIONS;
+}
+
+export async function scanEcosystemDeposits() {
+  const chains = Object.keys(chainConfigs).filter(isBlockScannerEnabled);
+  for (const chain of chains) {
+    try {
+      await scanChain(chain);
+    } catch (error) {
+      logError("scanEcosystemDeposits", error, __filename);
+    }
+  }
+}
+
+async function scanChain(chain: string) {
+  const provider = await getProvider(chain);
+  const head = await provider.getBlockNumber();
+  const safeHead = head - getConfirmations(chain);
+  if (safeHead < 0) return;
+
+  // A new checkpoint starts at the current safe head instead of replaying
+  // the whole history of the chain
+  const [checkpoint] = await models.ecosystemBlockCheckpoint.findOrCreate({
+    where: { chain },
+    defaults: { chain, blockNumber: safeHead, recentBlocks: [] },
+  });
+
+  const { lastBlock, recentBlocks } = await findLastCanonicalBlock(
+    chain,
+    provider,
+    checkpoint
+  );
+  const fromBlock = lastBlock + 1;
+  const toBlock = Math.min(safeHead, fromBlock + MAX_BLOCKS_PER_SCAN - 1);
+  if (fromBlock > toBlock) return;
+
+  const { tokens, nativeCurrency, addresses } =
+    await loadWatchedAddresses(chain);
+  if (addresses.size) {
+    const context: ScanContext = {
+      chain,
+      provider,
+      addresses,
+      creditedHashes: new Set(),
+    };
+    if (nativeCurrency) {
+      await scanNativeTransfers(context, nativeCurrency, fromBlock, toBlock);
+    }
+    if (tokens.length) {
+      await scanTokenTransfers(context, tokens, fromBlock, toBlock);
+    }
+  }
+
+  const block = await provider.getBlock(toBlock);
+  if (!block?.hash) {
+    throw new Error(`Block ${toBlock} of ${chain} not found`);
+  }
+  await checkpoint.update({
+    blockNumber: toBlock,
+    recentBlocks: [
+      ...recentBlocks,
+      { number: toBlock, hash: block.hash },
+    ].slice(-RECENT_BLOCKS_KEPT),
+  });
+}
+
+// Returns the last scanned block that is still part of the canonical chain.
+// Deposits are only credited past the confirmation depth, so a mismatch means
+// a reorg deeper than that: the dropped range is scanned again and the
+// deposits credited from it need to be reviewed.
+async function findLastCanonicalBlock(
+  chain: string,
+  provider: JsonRpcProvider,
+  checkpoint: ecosystemBlockCheckpointAttributes
+) {
+  const recentBlocks = checkpoint.recentBlocks || [];
+  if (!recentBlocks.length) {
+    return { lastBlock: checkpoint.blockNumber, recentBlocks };
+  }
+
+  for (let i = recentBlocks.length - 1; i >= 0; i--) {
+    const block = await provider.getBlock(recentBlocks[i].number);
+    if (block?.hash === recentBlocks[i].hash) {
+      if (i < recentBlocks.length - 1) {
+        logError(
+          "scanEcosystemDeposits",
+          new Error(
+            `Reorg on ${chain} past the confirmation depth, deposits credited after block ${recentBlocks[i].number} must be reviewed`
+          ),
+          __filename
+        );
+      }
+      return {
+        lastBlock: recentBlocks[i].number,
+        recentBlocks: recentBlocks.slice(0, i + 1),
+      };
+    }
+  }
+
+  logError(
+    "scanEcosystemDeposits",
+    new Error(
+      `Reorg on ${chain} past the kept checkpoints, deposits credited after block ${recentBlocks[0].number - 1} must be reviewed`
+    ),
+    __filename
+  );
+  return { lastBlock: recentBlocks[0].number - 1, recentBlocks: [] };
+}
+
+// Maps our custodial addresses on the chain to the ECO wallet of each
+// currency. NO_PERMIT tokens are left out as their deposits go to shared
+// addresses that can't be told apart by address alone.
+async function loadWatchedAddresses(chain: string) {
+  const tokens = (
+    await models.ecosystemToken.findAll({
+      where: {
+        chain,
+        network: process.env[`${chain}_NETWORK`],
+        status: true,
+      },
+    })
+  ).filter((token) => token.contractType !== "NO_PERMIT");
+
+  const nativeCurrency = tokens.find(
+    (token) => token.contractType === "NATIVE"
+  )?.currency;
+  const contractTokens = tokens.filter(
+    (token) => token.contractType !== "NATIVE" && token.contract
+  );
+
+  const wallets = await models.wallet.findAll({
+    where: {
+      type: "ECO",
+      currency: { [Op.in]: tokens.map((token) => token.currency) },
+    },
+    attributes: ["id", "currency", "address"],
+  });
+
+  const addresses: WatchedAddresses = new Map();
+  for (const wallet of wallets) {
+    if (!wallet.address) continue;
+    try {
+      const walletAddresses =
+        typeof wallet.address === "string"
+          ? JSON.parse(wallet.address)
+          : wallet.address;
+      const address = walletAddresses[chain]?.address;
+      if (!address) continue;
+
+      const key = address.toLowerCase();
+      if (!addresses.has(key)) {
+        addresses.set(key, { address, wallets: new Map() });
+      }
+      addresses.get(key)!.wallets.set(wallet.currency, wallet.id);
+    } catch (error) {
+      logError("scanEcosystemDeposits", error, __filename);
+    }
+  }
+
+  return { tokens: contractTokens, nativeCurrency, addresses };
+}
+
+// Plain value transfers only, transfers made from inside contract calls
+// would need tracing support from the node
+async function scanNativeTransfers(
+  context: ScanContext,
+  currency: string,
+  fromBlock: number,
+  toBlock: number
+) {
+  const { chain, provider, addresses } = context;
+  const decimals = chainConfigs[chain].decimals;
+
+  for (let number = fromBlock; number <= toBlock; number++) {
+    const block = await provider.getBlock(number, true);
+    if (!block) {
+      throw new Error(`Block ${number} of ${chain} not found`);
+    }
+
+    for (const tx of block.prefetchedTransactions) {
+      const watched = tx.to && addresses.get(tx.to.toLowerCase());
+      const walletId = watched && watched.wallets.get(currency);
+      if (!walletId || tx.value <= 0) continue;
+
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (!receipt || receipt.status !== 1) continue;
+
+      const details = await createTransactionDetails(
+        "NATIVE",
+        walletId,
+        tx,
+        watched.address,
+        chain,
+        decimals,
+        decimals,
+        "DEPOSIT",
+        tx.value
+      );
+      await creditDeposit(context, {
+        ...details,
+        hash: getDepositReference(context, tx.hash, 0),
+        gasUsed: receipt.gasUsed.toString(),
+      });
+    }
+  }
+}
+
+async function scanTokenTransfers(
+  context: ScanContext,
+  tokens: ecosystemTokenAttributes[],
+  fromBlock: number,
+  toBlock: number
+) {
+  const { chain, provider, addresses } = context;
+  const feeDecimals = chainConfigs[chain].decimals;
+  const watchedAddresses = Array.from(addresses.values()).map((watched) =>
+    ethers.zeroPadValue(watched.address, 32)
+  );
+
+  const logs: ethers.Log[] = [];
+  for (let i = 0; i < watchedAddresses.length; i += ADDRESSES_PER_LOG_QUERY) {
+    logs.push(
+      ...(await provider.getLogs({
+        address: tokens.map((token) => token.contract),
+        topics: [
+          TRANSFER_TOPIC,
+          null,
+          watchedAddresses.slice(i, i + ADDRESSES_PER_LOG_QUERY),
+        ],
+        fromBlock,
+        toBlock,
+      }))
+    );
+  }
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  for (const log of logs) {
+    // ERC-721 transfers share the signature but index the token ID as well
+    if (log.topics.length !== 3) continue;
+
+    const token = tokens.find(
+      (token) => token.contract.toLowerCase() === log.address.toLowerCase()
+    );
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+    const watched = addresses.get(to.toLowerCase());
+    const walletId = token && watched && watched.wallets.get(token.currency);
+    if (!walletId) continue;
+
+    const amount = BigInt(log.data);
+    if (amount <= 0) continue;
+
+    const [tx, receipt] = await Promise.all([
+      provider.getTransaction(log.transactionHash),
+      provider.getTransactionReceipt(log.transactionHash),
+    ]);
+    if (!tx) continue;
+
+    const details = await createTransactionDetails(
+      token.contractType,
+      walletId,
+      tx,
+      watched.address,
+      chain,
+      token.decimals,
+      feeDecimals,
+      "DEPOSIT",
+      amount
+    );
+    await creditDeposit(context, {
+      ...details,
+      from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+      hash: getDepositReference(context, log.transactionHash, log.index),
+      gasUsed: receipt?.gasUsed.toString(),
+    });
+  }
+}
+
+// Deposits are keyed by transaction hash, like those found by the explorer
+// based watchers, so a deposit seen by both is only credited once. Further
+// transfers to us in the same transaction get the log index appended.
+function getDepositReference(
+  context: ScanContext,
+  hash: string,
+  logIndex: number
+) {
+  if (!context.creditedHashes.has(hash)) {
+    context.creditedHashes.add(hash);
+    return hash;
+  }
+  return `${hash}-${logIndex}`;
+}
+
+async function creditDeposit(context: ScanContext, details: any) {
+  const { chain } = context;
+  try {
+    const response = await handleEcosystemDeposit({
+      ...details,
+      status: "COMPLETED",
+    });
+    if (!response.transaction) return;
+
+    sendMessageToRoute(
+      "/api/ext/ecosystem/deposit",
+      {
+        currency: response.wallet?.currency,
+        chain,
+        address: details.to,
+      },
+      {
+        stream: "verification",
+        data: {
+          status: 200,
+          message: "Transaction completed",
+          ...response,
+          trx: details,
+          balance: response.wallet?.balance,
+          currency: response.wallet?.currency,
+          chain,
+          method: "Wallet Deposit",
+        },
+      }
+    );
+
+    if (response.wallet?.userId) {
+      await handleNotification({
+        userId: response.wallet.userId,
+        title: "Deposit Confirmation",
+        message: `Your deposit of ${details.amount} ${response.wallet.currency} has been confirmed`,
+        type: "ACTIVITY",
+      });
+    }
+  } catch (error) {
+    if (error.message?.includes("already processed")) return;
+    throw error;
+  }
+}
@@ -20,6 +20,9 @@ export function getLatestOrdersForCandles(orders: Order[]): Order[] {
   const latestOrdersMap: Record<string, Order> = {};
 
   orders.forEach((order) => {
+    // Orders cancelled by self-trade prevention may carry no trades
+    if (!order.trades) return;
+
     if (
       !latestOrdersMap[order.symbol] ||
       latestOrdersMap[order.symbol].updatedAt < order.updatedAt
@@ -1,33 +1,53 @@
 import { models } from "@b/db";
-import WithdrawalQueue from "./withdrawalQueue";
+import WithdrawalQueue, {
+  getWithdrawalIdempotencyKey,
+} from "./withdrawalQueue";
+
+const findEcoWithdrawals = (status: string) =>
+  models.transaction.findAll({
+    where: {
+      type: "WITHDRAW",
+      status,
+    },
+    include: [
+      {
+        model: models.wallet,
+        as: "wallet",
+        where: {
+          type: "ECO",
+        },
+      },
+    ],
+  });
 
 export async function processPendingEcoWithdrawals() {
   try {
-    // Fetch all pending withdrawal transactions for ECO wallets
-    const pendingTransactions = await models.transaction.findAll({
-      where: {
-        type: "WITHDRAW",
-        status: "PENDING",
-      },
-      include: [
-        {
-          model: models.wallet,
-          as: "wallet",
-          where: {
-            type: "ECO",
-          },
-        },
-      ],
-    });
+    const withdrawalQueue = WithdrawalQueue.getInstance();
 
-    if (pendingTransactions.length === 0) {
-      return;
-    }
+    // Hand back jobs abandoned by a worker that stopped
+    await withdrawalQueue.recoverStaleJobs();
 
-    const withdrawalQueue = WithdrawalQueue.getInstance();
+    // Withdrawals stuck in PROCESSING without a job were interrupted before
+    // the queue was persistent, so they are dead-lettered for review
+    const processingTransactions = await findEcoWithdrawals("PROCESSING");
+    for (const transaction of processingTransactions) {
+      const idempotencyKey = getWithdrawalIdempotencyKey(transaction.id);
+      await models.ecosystemWithdrawalJob.findOrCreate({
+        where: { idempotencyKey },
+        defaults: {
+          transactionId: transaction.id,
+          idempotencyKey,
+          status: "DEAD",
+          lastError:
+            "Transaction was left processing by a previous run, verify the chain before requeueing",
+        },
+      });
+    }
 
+    // Enqueuing is idempotent, so pending withdrawals already queued are kept
+    const pendingTransactions = await findEcoWithdrawals("PENDING");
     for (const transaction of pendingTransactions) {
-      withdrawalQueue.addTransaction(transaction.id);
+      await withdrawalQueue.addTransaction(transaction.id);
     }
   } catch (error) {
     console.error(`processPendingEcoWithdrawals failed: ${error.message}`);
@@ -1,6 +1,11 @@
 import { fromBigInt, removeTolerance, toBigIntFloat } from "./blockchain";
 import { getLatestOrdersForCandles, intervals } from "./candles";
-import { matchAndCalculateOrders, validateOrder } from "./matchmaking";
+import {
+  expireUnfilledOrders,
+  getSelfTradePreventionMode,
+  matchAndCalculateOrders,
+  validateOrder,
+} from "./matchmaking";
 import {
   applyUpdatesToOrderBook,
   fetchExistingAmounts,
@@ -12,11 +17,15 @@ import {
   fetchOrderBooks,
   generateOrderUpdateQueries,
   getAllOpenOrders,
+  getAllPendingTriggerOrders,
   getLastCandles,
   getYesterdayCandles,
+  updatePendingTriggerOrder,
   type Candle,
   type Order,
+  type TriggerOrder,
 } from "./scylla/queries";
+import { evaluateTriggerOrder, fireTriggerOrder } from "./triggerOrders";
 import {
   handleCandleBroadcast,
   handleOrderBookBroadcast,
@@ -44,6 +53,7 @@ export class MatchingEngine {
   private lockedOrders: Set<string> = new Set();
   private lastCandle: Record<string, Record<string, Candle>> = {};
   private yesterdayCandle: Record<string, Candle> = {};
+  private triggerOrders: Record<string, TriggerOrder[]> = {};
 
   public static getInstance(): Promise<MatchingEngine> {
     if (!this.instancePromise) {
@@ -61,13 +71,15 @@ export class MatchingEngine {
     await this.initializeOrders();
     await this.initializeLastCandles();
     await this.initializeYesterdayCandles();
+    await this.initializeTriggerOrders();
   }
 
   private async initializeMarkets() {
     const markets: any[] = await getEcoSystemMarkets();
     markets.forEach((market) => {
-      this.marketsBySymbol[market.symbol] = market;
-      this.orderQueue[market.symbol] = [];
+      const symbol = `${market.currency}/${market.pair}`;
+      this.marketsBySymbol[symbol] = market;
+      this.orderQueue[symbol] = [];
     });
   }
 
@@ -157,9 +169,22 @@ export class MatchingEngine {
     }
   }
 
+  private async initializeTriggerOrders() {
+    try {
+      const pendingTriggerOrders = await getAllPendingTriggerOrders();
+      pendingTriggerOrders.forEach((triggerOrder) =>
+        this.addTriggerOrder(triggerOrder)
+      );
+    } catch (error) {
+      logError("matching_engine", error, __filename);
+      console.error(`Failed to initialize trigger orders: ${error}`);
+    }
+  }
+
   private async processQueue() {
     const ordersToUpdate: Order[] = [];
     const orderBookUpdates: Record<string, any> = {};
+    const lastPrices: Record<string, bigint> = {};
 
     const allOrderBookEntries = await fetchOrderBooks();
 
@@ -179,20 +204,38 @@ export class MatchingEngine {
 
     const calculationPromises: Promise<void>[] = [];
     for (const symbol in this.orderQueue) {
-      const orders = this.orderQueue[symbol];
+      // Snapshot the queue so orders arriving mid-pass keep their own pass
+      const orders = [...this.orderQueue[symbol]];
       if (orders.length === 0) continue;
 
+      if (!mappedOrderBook[symbol]) {
+        mappedOrderBook[symbol] = { bids: {}, asks: {} };
+      }
+
       const promise = (async () => {
-        const { matchedOrders, bookUpdates } = await matchAndCalculateOrders(
+        const { matchedOrders, bookUpdates, lastPrice } =
+          await matchAndCalculateOrders(
+            orders,
+            mappedOrderBook[symbol],
+            getSelfTradePreventionMode(this.marketsBySymbol[symbol])
+          );
+
+        if (lastPrice !== null) {
+          lastPrices[symbol] = lastPrice;
+        }
+
+        // IOC/FOK orders never rest on the book past their matching pass
+        const expiredOrders = await expireUnfilledOrders(
           orders,
-          mappedOrderBook[symbol] || { bids: {}, asks: {} }
+          mappedOrderBook[symbol],
+          bookUpdates
         );
 
-        if (matchedOrders.length === 0) {
+        if (matchedOrders.length === 0 && expiredOrders.length === 0) {
           return;
         }
 
-        ordersToUpdate.push(...matchedOrders);
+        ordersToUpdate.push(...matchedOrders, ...expiredOrders);
         orderBookUpdates[symbol] = bookUpdates;
       })();
 
@@ -229,6 +272,12 @@ export class MatchingEngine {
     await Promise.all(cleanupPromises);
 
     this.broadcastUpdates(ordersToUpdate, finalOrderBooks);
+
+    // Triggers fire only once the pass is over, so the orders they place are
+    // matched in a pass of their own
+    for (const symbol in lastPrices) {
+      await this.handleLastPrice(symbol, lastPrices[symbol]);
+    }
   }
 
   private async performUpdates(
@@ -528,6 +577,100 @@ export class MatchingEngine {
     await this.processQueue();
   }
 
+  public addTriggerOrder(triggerOrder: TriggerOrder) {
+    if (!this.triggerOrders[triggerOrder.symbol]) {
+      this.triggerOrders[triggerOrder.symbol] = [];
+    }
+    this.triggerOrders[triggerOrder.symbol].push(triggerOrder);
+  }
+
+  public getTriggerOrder(symbol: string, id: string): TriggerOrder | undefined {
+    return this.triggerOrders[symbol]?.find(
+      (triggerOrder) => triggerOrder.id === id
+    );
+  }
+
+  public removeTriggerOrder(symbol: string, id: string) {
+    if (!this.triggerOrders[symbol]) return;
+    this.triggerOrders[symbol] = this.triggerOrders[symbol].filter(
+      (triggerOrder) => triggerOrder.id !== id
+    );
+  }
+
+  /**
+   * Fires every pending trigger order of `symbol` whose condition is met by
+   * the last traded price and converts it into a regular order.
+   */
+  private async handleLastPrice(symbol: string, lastPrice: bigint) {
+    const pending = this.triggerOrders[symbol];
+    if (!pending || pending.length === 0) return;
+
+    const firedOrders: TriggerOrder[] = [];
+    const trailedOrders: TriggerOrder[] = [];
+
+    // Fired orders leave the watch list synchronously so they fire only once
+    this.triggerOrders[symbol] = pending.filter((triggerOrder) => {
+      const { triggered, trailingUpdated } = evaluateTriggerOrder(
+        triggerOrder,
+        lastPrice
+      );
+      if (triggered) {
+        firedOrders.push(triggerOrder);
+      } else if (trailingUpdated) {
+        trailedOrders.push(triggerOrder);
+      }
+      return !triggered;
+    });
+
+    try {
+      await Promise.all(trailedOrders.map(updatePendingTriggerOrder));
+    } catch (error) {
+      logError("matching_engine", error, __filename);
+      console.error(`Failed to update trailing stops: ${error}`);
+    }
+
+    for (const triggerOrder of firedOrders) {
+      await fireTriggerOrder(triggerOrder);
+    }
+  }
+
+  /**
+   * Checks whether a limit order at `price` would immediately cross any
+   * resting order on the opposite side of the book.
+   */
+  public wouldCrossBook(symbol: string, side: string, price: bigint): boolean {
+    return (this.orderQueue[symbol] || []).some(
+      (order) =>
+        order.status === "OPEN" &&
+        order.side !== side &&
+        (side === "BUY" ? order.price <= price : order.price >= price)
+    );
+  }
+
+  /**
+   * Sums the resting quantity another user's order could fill against right
+   * now. The user's own orders are excluded since self-trade prevention keeps
+   * them from trading.
+   */
+  public getFillableAmount(
+    symbol: string,
+    side: string,
+    type: string,
+    price: bigint,
+    userId: string
+  ): bigint {
+    return (this.orderQueue[symbol] || [])
+      .filter(
+        (order) =>
+          order.status === "OPEN" &&
+          order.side !== side &&
+          order.userId !== userId &&
+          (type === "MARKET" ||
+            (side === "BUY" ? order.price <= price : order.price >= price))
+      )
+      .reduce((total, order) => total + order.remaining, BigInt(0));
+  }
+
   public getTickers(): { [symbol: string]: any } {
     const symbolsWithTickers: { [symbol: string]: any } = {};
     for (const symbol in this.lastCandle) {
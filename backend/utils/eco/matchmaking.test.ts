@@ -0,0 +1,345 @@
+import { models } from "@b/db";
+import { expireUnfilledOrders, matchAndCalculateOrders } from "./matchmaking";
+import type { Order, OrderBook } from "./scylla/queries";
+import { updateWalletBalance } from "./wallet";
+import { handleTradesBroadcast } from "./ws";
+import { toBigIntFloat } from "./blockchain";
+
+jest.mock("@b/db", () => ({
+  models: {
+    wallet: { findOne: jest.fn() },
+  },
+}));
+
+jest.mock("@b/utils/logger", () => ({
+  logError: jest.fn(),
+}));
+
+jest.mock("./wallet", () => ({
+  updateWalletBalance: jest.fn(),
+  orderLedgerContext: (orderId: string, description: string) => ({
+    account: "ORDER_ESCROW",
+    description,
+    referenceId: orderId,
+  }),
+}));
+
+jest.mock("./ws", () => ({
+  handleTradesBroadcast: jest.fn(),
+}));
+
+const SCALE = BigInt(10 ** 18);
+let sequence = 0;
+
+function makeOrder(
+  overrides: Partial<Omit<Order, "price" | "amount">> & {
+    price?: number;
+    amount?: number;
+  }
+): Order {
+  sequence++;
+  const amount = toBigIntFloat(overrides.amount ?? 1);
+  const price = toBigIntFloat(overrides.price ?? 100);
+  const createdAt = new Date(1_700_000_000_000 + sequence * 1000);
+
+  return {
+    id: `order-${sequence}`,
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    type: "LIMIT",
+    timeInForce: "GTC",
+    side: "BUY",
+    trades: "[]",
+    fee: BigInt(0),
+    feeCurrency: "USDT",
+    status: "OPEN",
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+    price,
+    amount,
+    filled: BigInt(0),
+    remaining: amount,
+    cost: (amount * price) / SCALE,
+  } as Order;
+}
+
+function makeBook(orders: Order[]): OrderBook {
+  const book: OrderBook = { bids: {}, asks: {} };
+  orders.forEach((order) => {
+    const side = order.side === "BUY" ? "bids" : "asks";
+    const key = order.price.toString();
+    book[side][key] = (book[side][key] || BigInt(0)) + order.remaining;
+  });
+  return book;
+}
+
+async function match(orders: Order[], mode?: any) {
+  return matchAndCalculateOrders(orders, makeBook(orders), mode);
+}
+
+const tradePrices = () =>
+  (handleTradesBroadcast as jest.Mock).mock.calls.map(
+    ([, trades]) => trades[0].price
+  );
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (models.wallet.findOne as jest.Mock).mockImplementation(({ where }) =>
+    Promise.resolve({ id: `${where.userId}-${where.currency}`, ...where })
+  );
+});
+
+describe("maker price execution", () => {
+  it("fills at the resting sell price when a higher buy arrives", async () => {
+    const sell = makeOrder({ userId: "maker", side: "SELL", price: 100 });
+    const buy = makeOrder({ userId: "taker", side: "BUY", price: 105 });
+
+    await match([sell, buy]);
+
+    expect(tradePrices()).toEqual([100]);
+    expect(buy.status).toBe("CLOSED");
+    expect(sell.status).toBe("CLOSED");
+  });
+
+  it("fills at the resting buy price when a lower sell arrives", async () => {
+    const buy = makeOrder({ userId: "maker", side: "BUY", price: 105 });
+    const sell = makeOrder({ userId: "taker", side: "SELL", price: 100 });
+
+    await match([buy, sell]);
+
+    expect(tradePrices()).toEqual([105]);
+  });
+
+  it("refunds the buyer's price improvement in the quote currency", async () => {
+    const sell = makeOrder({ userId: "maker", side: "SELL", price: 100 });
+    const buy = makeOrder({ userId: "taker", side: "BUY", price: 105 });
+
+    await match([sell, buy]);
+
+    const quoteCredits = (updateWalletBalance as jest.Mock).mock.calls.filter(
+      ([wallet]) => wallet.userId === "taker" && wallet.currency === "USDT"
+    );
+    expect(quoteCredits).toHaveLength(1);
+    expect(quoteCredits[0][1]).toBeCloseTo(5);
+    expect(quoteCredits[0][2]).toBe("add");
+  });
+
+  it("credits the seller from the escrow and books their fee", async () => {
+    const sell = makeOrder({
+      userId: "maker",
+      side: "SELL",
+      price: 100,
+      fee: toBigIntFloat(1),
+    });
+    const buy = makeOrder({ userId: "taker", side: "BUY", price: 100 });
+
+    await match([sell, buy]);
+
+    const [sellerCredit] = (updateWalletBalance as jest.Mock).mock.calls.filter(
+      ([wallet]) => wallet.userId === "maker"
+    );
+    expect(sellerCredit[1]).toBeCloseTo(99);
+    expect(sellerCredit[3]).toMatchObject({
+      account: "ORDER_ESCROW",
+      referenceId: sell.id,
+    });
+    expect(sellerCredit[3].fee).toBeCloseTo(1);
+  });
+
+  it("returns the last traded price of the pass", async () => {
+    const asks = [
+      makeOrder({ userId: "maker-1", side: "SELL", price: 100 }),
+      makeOrder({ userId: "maker-2", side: "SELL", price: 101 }),
+    ];
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 101,
+      amount: 2,
+      timeInForce: "IOC",
+    });
+
+    const { lastPrice } = await match([...asks, buy]);
+
+    expect(lastPrice).toBe(toBigIntFloat(101));
+  });
+
+  it("leaves non-crossing orders on the book", async () => {
+    const sell = makeOrder({ userId: "maker", side: "SELL", price: 110 });
+    const buy = makeOrder({ userId: "taker", side: "BUY", price: 105 });
+
+    const { matchedOrders } = await match([sell, buy]);
+
+    expect(matchedOrders).toHaveLength(0);
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe("self-trade prevention", () => {
+  const crossingPair = () => {
+    const resting = makeOrder({ side: "SELL", price: 100, amount: 2 });
+    const incoming = makeOrder({ side: "BUY", price: 100, amount: 1 });
+    return { resting, incoming };
+  };
+
+  it("cancels the newest order by default", async () => {
+    const { resting, incoming } = crossingPair();
+
+    await match([resting, incoming]);
+
+    expect(incoming.status).toBe("CANCELED");
+    expect(resting.status).toBe("OPEN");
+    expect(resting.remaining).toBe(resting.amount);
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+  });
+
+  it("cancels the resting order in CANCEL_OLDEST mode", async () => {
+    const { resting, incoming } = crossingPair();
+
+    await match([resting, incoming], "CANCEL_OLDEST");
+
+    expect(resting.status).toBe("CANCELED");
+    expect(incoming.status).toBe("OPEN");
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+  });
+
+  it("cancels both orders in CANCEL_BOTH mode", async () => {
+    const { resting, incoming } = crossingPair();
+
+    await match([resting, incoming], "CANCEL_BOTH");
+
+    expect(resting.status).toBe("CANCELED");
+    expect(incoming.status).toBe("CANCELED");
+  });
+
+  it("decrements both orders by the overlap in DECREMENT mode", async () => {
+    const { resting, incoming } = crossingPair();
+
+    await match([resting, incoming], "DECREMENT");
+
+    expect(incoming.status).toBe("CANCELED");
+    expect(incoming.remaining).toBe(BigInt(0));
+    expect(resting.status).toBe("OPEN");
+    expect(resting.remaining).toBe(toBigIntFloat(1));
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+  });
+
+  it("refunds the locked funds of a cancelled order", async () => {
+    const { resting, incoming } = crossingPair();
+
+    await match([resting, incoming]);
+
+    expect(updateWalletBalance).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-1", currency: "USDT" }),
+      100,
+      "add",
+      expect.objectContaining({ account: "ORDER_ESCROW" })
+    );
+  });
+});
+
+describe("time in force", () => {
+  const twoLevelBook = () => [
+    makeOrder({ userId: "maker-1", side: "SELL", price: 100, amount: 1 }),
+    makeOrder({ userId: "maker-2", side: "SELL", price: 101, amount: 1 }),
+  ];
+
+  it("sweeps several levels with an immediate-or-cancel order", async () => {
+    const asks = twoLevelBook();
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 101,
+      amount: 3,
+      timeInForce: "IOC",
+    });
+
+    const book = makeBook([...asks, buy]);
+    await matchAndCalculateOrders([...asks, buy], book);
+
+    expect(tradePrices()).toEqual([100, 101]);
+    expect(buy.filled).toBe(toBigIntFloat(2));
+    expect(buy.status).toBe("OPEN");
+
+    const expired = await expireUnfilledOrders([buy], book, {
+      bids: {},
+      asks: {},
+    });
+    expect(expired).toEqual([buy]);
+    expect(buy.status).toBe("EXPIRED");
+    expect(buy.remaining).toBe(BigInt(0));
+  });
+
+  it("fills a fill-or-kill order completely across levels", async () => {
+    const asks = twoLevelBook();
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 101,
+      amount: 2,
+      timeInForce: "FOK",
+    });
+
+    await match([...asks, buy]);
+
+    expect(tradePrices()).toEqual([100, 101]);
+    expect(buy.status).toBe("CLOSED");
+    expect(asks.map((ask) => ask.status)).toEqual(["CLOSED", "CLOSED"]);
+  });
+
+  it("kills a fill-or-kill order without any fill when liquidity is short", async () => {
+    const asks = twoLevelBook();
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 101,
+      amount: 3,
+      timeInForce: "FOK",
+    });
+
+    const { matchedOrders } = await match([...asks, buy]);
+
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+    expect(buy.status).toBe("EXPIRED");
+    expect(buy.filled).toBe(BigInt(0));
+    expect(matchedOrders).toEqual([buy]);
+    expect(asks.map((ask) => ask.remaining)).toEqual([
+      toBigIntFloat(1),
+      toBigIntFloat(1),
+    ]);
+  });
+
+  it("only counts liquidity within the fill-or-kill limit price", async () => {
+    const asks = twoLevelBook();
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 100,
+      amount: 2,
+      timeInForce: "FOK",
+    });
+
+    await match([...asks, buy]);
+
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+    expect(buy.status).toBe("EXPIRED");
+  });
+
+  it("does not count the user's own orders toward a fill-or-kill fill", async () => {
+    const ownAsk = makeOrder({ userId: "taker", side: "SELL", price: 100 });
+    const otherAsk = makeOrder({ userId: "maker", side: "SELL", price: 101 });
+    const buy = makeOrder({
+      userId: "taker",
+      side: "BUY",
+      price: 101,
+      amount: 2,
+      timeInForce: "FOK",
+    });
+
+    await match([ownAsk, otherAsk, buy], "CANCEL_OLDEST");
+
+    expect(handleTradesBroadcast).not.toHaveBeenCalled();
+    expect(buy.status).toBe("EXPIRED");
+  });
+});
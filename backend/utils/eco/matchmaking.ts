@@ -6,19 +6,44 @@ import {
   removeTolerance,
 } from "./blockchain";
 import type { Order, OrderBook } from "./scylla/queries";
-import { updateWalletBalance } from "./wallet";
+import { orderLedgerContext, updateWalletBalance } from "./wallet";
 import { handleTradesBroadcast } from "./ws";
 import { logError } from "@b/utils/logger";
 
 const SCALING_FACTOR = BigInt(10 ** 18);
 
+export type SelfTradePreventionMode =
+  "CANCEL_NEWEST" | "CANCEL_OLDEST" | "CANCEL_BOTH" | "DECREMENT";
+
+export const SELF_TRADE_PREVENTION_MODES: SelfTradePreventionMode[] = [
+  "CANCEL_NEWEST",
+  "CANCEL_OLDEST",
+  "CANCEL_BOTH",
+  "DECREMENT",
+];
+
+export const DEFAULT_SELF_TRADE_PREVENTION: SelfTradePreventionMode =
+  "CANCEL_NEWEST";
+
+export function getSelfTradePreventionMode(
+  market: any
+): SelfTradePreventionMode {
+  const mode = market?.metadata?.selfTradePrevention;
+  return SELF_TRADE_PREVENTION_MODES.includes(mode)
+    ? mode
+    : DEFAULT_SELF_TRADE_PREVENTION;
+}
+
 export const matchAndCalculateOrders = async (
   orders: Order[],
-  currentOrderBook: OrderBook
+  currentOrderBook: OrderBook,
+  selfTradePrevention: SelfTradePreventionMode = DEFAULT_SELF_TRADE_PREVENTION
 ) => {
   const matchedOrders: Order[] = [];
   const bookUpdates: OrderBook = { bids: {}, asks: {} };
   const processedOrders: Set<string> = new Set();
+  const checkedFillOrKill: Set<string> = new Set();
+  let lastPrice: bigint | null = null;
 
   const buyOrders = filterAndSortOrders(orders, "BUY", true);
   const sellOrders = filterAndSortOrders(orders, "SELL", false);
@@ -46,12 +71,110 @@ export const matchAndCalculateOrders = async (
       matchFound = true;
     }
 
+    const takerOrder =
+      getMakerOrder(buyOrder, sellOrder) === buyOrder ? sellOrder : buyOrder;
+
+    // A fill-or-kill order is checked against the liquidity it can reach in
+    // this pass the first time it crosses, and killed whole when it falls
+    // short, so it is never left partially filled.
+    const unfillableOrder = matchFound
+      ? [buyOrder, sellOrder].find((order) => {
+          if (order.timeInForce !== "FOK" || checkedFillOrKill.has(order.id)) {
+            return false;
+          }
+          checkedFillOrKill.add(order.id);
+          const isBuy = order === buyOrder;
+          return (
+            getReachableQuantity(
+              order,
+              isBuy ? sellOrders : buyOrders,
+              isBuy ? sellIndex : buyIndex,
+              processedOrders,
+              selfTradePrevention
+            ) < order.remaining
+          );
+        })
+      : undefined;
+
+    if (unfillableOrder) {
+      try {
+        await releaseOrderQuantity(
+          unfillableOrder,
+          unfillableOrder.remaining,
+          "EXPIRED",
+          currentOrderBook,
+          bookUpdates
+        );
+        matchedOrders.push(unfillableOrder);
+      } catch (error) {
+        logError("match_calculate_orders", error, __filename);
+        console.error(`Failed to kill fill-or-kill order: ${error}`);
+      }
+
+      processedOrders.add(unfillableOrder.id);
+      if (unfillableOrder === buyOrder) buyIndex++;
+      else sellIndex++;
+      continue;
+    }
+
+    // A post-only order must never take liquidity; the book may have moved
+    // since it was accepted, so it is rejected instead of crossing.
+    if (matchFound && takerOrder.timeInForce === "PO") {
+      try {
+        await releaseOrderQuantity(
+          takerOrder,
+          takerOrder.remaining,
+          "REJECTED",
+          currentOrderBook,
+          bookUpdates
+        );
+        matchedOrders.push(takerOrder);
+      } catch (error) {
+        logError("match_calculate_orders", error, __filename);
+        console.error(`Failed to reject post-only order: ${error}`);
+      }
+
+      processedOrders.add(takerOrder.id);
+      if (takerOrder === buyOrder) buyIndex++;
+      else sellIndex++;
+      continue;
+    }
+
+    if (matchFound && buyOrder.userId === sellOrder.userId) {
+      try {
+        const affectedOrders = await preventSelfTrade(
+          buyOrder,
+          sellOrder,
+          selfTradePrevention,
+          currentOrderBook,
+          bookUpdates
+        );
+        matchedOrders.push(...affectedOrders);
+      } catch (error) {
+        logError("match_calculate_orders", error, __filename);
+        console.error(`Failed to apply self-trade prevention: ${error}`);
+        // Never let the orders trade against each other, even on failure
+        processedOrders.add(buyOrder.id);
+        processedOrders.add(sellOrder.id);
+      }
+
+      if (buyOrder.status !== "OPEN") {
+        processedOrders.add(buyOrder.id);
+        buyIndex++;
+      }
+      if (sellOrder.status !== "OPEN") {
+        processedOrders.add(sellOrder.id);
+        sellIndex++;
+      }
+      continue;
+    }
+
     if (matchFound) {
       processedOrders.add(buyOrder.id);
       processedOrders.add(sellOrder.id);
 
       try {
-        await processMatchedOrders(
+        lastPrice = await processMatchedOrders(
           buyOrder,
           sellOrder,
           currentOrderBook,
@@ -71,10 +194,11 @@ export const matchAndCalculateOrders = async (
         sellIndex++;
       }
 
-      if (buyOrder.type === "MARKET" && buyOrder.remaining > BigInt(0)) {
+      // Market and immediate orders keep sweeping the book within the pass
+      if (isSweepingOrder(buyOrder) && buyOrder.remaining > BigInt(0)) {
         processedOrders.delete(buyOrder.id);
       }
-      if (sellOrder.type === "MARKET" && sellOrder.remaining > BigInt(0)) {
+      if (isSweepingOrder(sellOrder) && sellOrder.remaining > BigInt(0)) {
         processedOrders.delete(sellOrder.id);
       }
     } else {
@@ -93,15 +217,84 @@ export const matchAndCalculateOrders = async (
     }
   }
 
-  return { matchedOrders, bookUpdates };
+  return { matchedOrders, bookUpdates, lastPrice };
 };
 
+const isSweepingOrder = (order: Order) =>
+  order.type === "MARKET" ||
+  order.timeInForce === "IOC" ||
+  order.timeInForce === "FOK";
+
+/**
+ * Sums the resting quantity `order` would trade against if it swept the
+ * counter side from `fromIndex`, in the order the matching loop visits it.
+ * Counter orders that would not trade with it are skipped: post-only takers
+ * are rejected and other fill-or-kill orders may be killed. The sweep stops at
+ * the first order that no longer crosses and at the user's own orders, where
+ * self-trade prevention would cut the fill short.
+ */
+export function getReachableQuantity(
+  order: Order,
+  counterOrders: Order[],
+  fromIndex: number,
+  processedOrders: Set<string>,
+  selfTradePrevention: SelfTradePreventionMode
+): bigint {
+  let quantity = BigInt(0);
+
+  for (let i = fromIndex; i < counterOrders.length; i++) {
+    if (quantity >= order.remaining) break;
+
+    const counterOrder = counterOrders[i];
+    if (
+      processedOrders.has(counterOrder.id) ||
+      counterOrder.status !== "OPEN"
+    ) {
+      continue;
+    }
+
+    const [buyOrder, sellOrder] =
+      order.side === "BUY" ? [order, counterOrder] : [counterOrder, order];
+    const crosses =
+      buyOrder.type === "MARKET" ||
+      sellOrder.type === "MARKET" ||
+      buyOrder.price >= sellOrder.price;
+    if (!crosses) break;
+
+    if (counterOrder.userId === order.userId) {
+      // The sweep only carries on when self-trade prevention cancels the
+      // counter order alone
+      const counterIsMaker =
+        getMakerOrder(buyOrder, sellOrder) === counterOrder;
+      if (
+        (selfTradePrevention === "CANCEL_OLDEST" && counterIsMaker) ||
+        (selfTradePrevention === "CANCEL_NEWEST" && !counterIsMaker)
+      ) {
+        continue;
+      }
+      break;
+    }
+
+    if (counterOrder.timeInForce === "FOK") continue;
+    if (
+      counterOrder.timeInForce === "PO" &&
+      getMakerOrder(buyOrder, sellOrder) !== counterOrder
+    ) {
+      continue;
+    }
+
+    quantity += counterOrder.remaining;
+  }
+
+  return quantity;
+}
+
 export async function processMatchedOrders(
   buyOrder: Order,
   sellOrder: Order,
   currentOrderBook: OrderBook,
   bookUpdates: OrderBook
-) {
+): Promise<bigint> {
   // Determine the amount to fill
   const amountToFill =
     buyOrder.remaining < sellOrder.remaining
@@ -136,17 +329,24 @@ export async function processMatchedOrders(
 
   // Determine the final trade price
   // If one order is market, we take the other's price
-  // If both are limit, the match occurs at the best crossing price logic
+  // If both are limit, the trade executes at the resting (maker) order's price
   const finalPrice =
     buyOrder.type.toUpperCase() === "MARKET"
       ? sellOrder.price
       : sellOrder.type.toUpperCase() === "MARKET"
         ? buyOrder.price
-        : buyOrder.price; // Typically, matching engines define a specific priority, here we just use buyOrder.price as example
+        : getMakerOrder(buyOrder, sellOrder).price;
 
   // Calculate cost: amountToFill * finalPrice (scaled by 10^18)
   const cost = (amountToFill * finalPrice) / SCALING_FACTOR;
 
+  // The buyer locked funds at their own price; when the fill happens at a
+  // better price the difference is released back to their quote wallet.
+  const priceImprovement =
+    buyOrder.price > finalPrice
+      ? ((buyOrder.price - finalPrice) * amountToFill) / SCALING_FACTOR
+      : BigInt(0);
+
   // Fee to be deducted from seller’s proceeds: this was determined at order creation time.
   // For SELL orders, the fee is stored in `sellOrder.fee` and it should be applied at match time.
   // For BUY orders, the fee is already covered by the buyer (included in buyer’s locked cost).
@@ -161,16 +361,34 @@ export async function processMatchedOrders(
   await updateWalletBalance(
     buyerBaseWallet,
     fromBigInt(removeTolerance(amountToFill)), // Convert to normal number
-    "add"
+    "add",
+    orderLedgerContext(buyOrder.id, "Order filled")
   );
 
   // Seller receives (cost - fee) in QUOTE tokens
   await updateWalletBalance(
     sellerQuoteWallet,
     fromBigInt(removeTolerance(cost - fee)), // Convert to normal number
-    "add"
+    "add",
+    {
+      ...orderLedgerContext(sellOrder.id, "Order filled"),
+      fee: fromBigInt(removeTolerance(fee)),
+    }
   );
 
+  if (priceImprovement > BigInt(0)) {
+    const buyerQuoteWallet = await getUserEcosystemWalletByCurrency(
+      buyOrder.userId,
+      quoteCurrency
+    );
+    await updateWalletBalance(
+      buyerQuoteWallet,
+      fromBigInt(removeTolerance(priceImprovement)),
+      "add",
+      orderLedgerContext(buyOrder.id, "Price improvement released")
+    );
+  }
+
   // Record the trades
   const buyTradeDetail: TradeDetail = {
     id: `${buyOrder.id}`,
@@ -199,6 +417,170 @@ export async function processMatchedOrders(
   // Update the orderbook entries
   updateOrderBook(bookUpdates, buyOrder, currentOrderBook, amountToFill);
   updateOrderBook(bookUpdates, sellOrder, currentOrderBook, amountToFill);
+
+  return finalPrice;
+}
+
+/**
+ * Expires the unfilled remainder of immediate-or-cancel orders once they have
+ * had their matching pass. Fill-or-kill orders only reach this point unfilled,
+ * when nothing on the book crossed them.
+ * @returns The orders that were expired.
+ */
+export async function expireUnfilledOrders(
+  orders: Order[],
+  currentOrderBook: OrderBook,
+  bookUpdates: OrderBook
+): Promise<Order[]> {
+  const expiredOrders: Order[] = [];
+
+  for (const order of orders) {
+    if (
+      order.status !== "OPEN" ||
+      (order.timeInForce !== "IOC" && order.timeInForce !== "FOK")
+    ) {
+      continue;
+    }
+
+    try {
+      await releaseOrderQuantity(
+        order,
+        order.remaining,
+        "EXPIRED",
+        currentOrderBook,
+        bookUpdates
+      );
+      expiredOrders.push(order);
+    } catch (error) {
+      logError("expire_unfilled_orders", error, __filename);
+      console.error(`Failed to expire order ${order.id}: ${error}`);
+    }
+  }
+
+  return expiredOrders;
+}
+
+// The maker is the order that was resting on the book first.
+export function getMakerOrder(buyOrder: Order, sellOrder: Order): Order {
+  return sellOrder.createdAt.getTime() <= buyOrder.createdAt.getTime()
+    ? sellOrder
+    : buyOrder;
+}
+
+/**
+ * Resolves a crossing between two orders of the same user according to the
+ * market's self-trade prevention mode. No trade is recorded; the affected
+ * quantity is removed from the book and its locked funds are refunded.
+ * @returns The orders whose state changed and must be persisted.
+ */
+export async function preventSelfTrade(
+  buyOrder: Order,
+  sellOrder: Order,
+  mode: SelfTradePreventionMode,
+  currentOrderBook: OrderBook,
+  bookUpdates: OrderBook
+): Promise<Order[]> {
+  const makerOrder = getMakerOrder(buyOrder, sellOrder);
+  const takerOrder = makerOrder === buyOrder ? sellOrder : buyOrder;
+
+  switch (mode) {
+    case "CANCEL_OLDEST":
+      await releaseOrderQuantity(
+        makerOrder,
+        makerOrder.remaining,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      return [makerOrder];
+
+    case "CANCEL_BOTH":
+      await releaseOrderQuantity(
+        buyOrder,
+        buyOrder.remaining,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      await releaseOrderQuantity(
+        sellOrder,
+        sellOrder.remaining,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      return [buyOrder, sellOrder];
+
+    case "DECREMENT": {
+      const quantity =
+        buyOrder.remaining < sellOrder.remaining
+          ? buyOrder.remaining
+          : sellOrder.remaining;
+      await releaseOrderQuantity(
+        buyOrder,
+        quantity,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      await releaseOrderQuantity(
+        sellOrder,
+        quantity,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      return [buyOrder, sellOrder];
+    }
+
+    case "CANCEL_NEWEST":
+    default:
+      await releaseOrderQuantity(
+        takerOrder,
+        takerOrder.remaining,
+        "CANCELED",
+        currentOrderBook,
+        bookUpdates
+      );
+      return [takerOrder];
+  }
+}
+
+/**
+ * Removes `quantity` from an order's unfilled remainder without trading it:
+ * the locked funds are refunded and the book entry is reduced. Once nothing
+ * remains the order takes `closedStatus`.
+ */
+export async function releaseOrderQuantity(
+  order: Order,
+  quantity: bigint,
+  closedStatus: "CANCELED" | "EXPIRED" | "REJECTED",
+  currentOrderBook: OrderBook,
+  bookUpdates: OrderBook
+) {
+  if (quantity <= BigInt(0)) return;
+
+  const [baseCurrency, quoteCurrency] = order.symbol.split("/");
+
+  // BUY orders locked amount * price + fee in QUOTE, SELL orders locked BASE
+  const refundAmount =
+    order.side === "BUY" ? (order.cost * quantity) / order.amount : quantity;
+  const refundWallet = await getUserEcosystemWalletByCurrency(
+    order.userId,
+    order.side === "BUY" ? quoteCurrency : baseCurrency
+  );
+
+  order.remaining -= quantity;
+  order.status = order.remaining === BigInt(0) ? closedStatus : "OPEN";
+
+  await updateWalletBalance(
+    refundWallet,
+    fromBigInt(removeTolerance(refundAmount)),
+    "add",
+    orderLedgerContext(order.id, "Unfilled order refunded")
+  );
+
+  updateOrderBook(bookUpdates, order, currentOrderBook, quantity);
 }
 
 export function addTradeToOrder(order: Order, trade: TradeDetail) {
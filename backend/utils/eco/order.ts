@@ -0,0 +1,355 @@
+import { createError } from "@b/utils/error";
+import { models } from "@b/db";
+import { fromBigInt, removeTolerance, toBigIntFloat } from "./blockchain";
+import { MatchingEngine } from "./matchingEngine";
+import {
+  createOrder,
+  getOrderBook,
+  rollbackOrderCreation,
+  type Order,
+} from "./scylla/queries";
+import {
+  getWalletByUserIdAndCurrency,
+  orderLedgerContext,
+  updateWalletBalance,
+} from "./wallet";
+import { handleOrderRejectionBroadcast } from "./ws";
+import { getUserFeeRates } from "@b/utils/fees";
+
+export interface PlaceOrderParams {
+  currency: string;
+  pair: string;
+  amount: number;
+  price?: number;
+  type: string;
+  side: string;
+  timeInForce?: string;
+}
+
+// Helper: Get the best price from the order book for a given side.
+export async function getBestPriceFromOrderBook(
+  symbol: string,
+  side: string
+): Promise<number | null> {
+  const { asks, bids } = await getOrderBook(symbol);
+  if (side.toUpperCase() === "BUY") {
+    // best buy price is lowest ask
+    if (!asks || asks.length === 0) return null;
+    return asks[0][0];
+  } else {
+    // best sell price is highest bid
+    if (!bids || bids.length === 0) return null;
+    return bids[0][0];
+  }
+}
+
+/**
+ * Validates an order against its market, locks the user's funds and hands it
+ * to the matching engine.
+ * @param userId - The ID of the user placing the order.
+ * @param params - The order parameters as submitted by the user.
+ * @returns A Promise that resolves with the created order.
+ */
+export async function placeEcosystemOrder(
+  userId: string,
+  params: PlaceOrderParams
+): Promise<Order> {
+  const { currency, pair, amount, price, type, side } = params;
+  const timeInForce = (params.timeInForce || "GTC").toUpperCase();
+
+  // Basic validations
+  if (!amount || Number(amount) <= 0) {
+    throw createError({
+      statusCode: 422,
+      message: "Amount must be greater than zero.",
+    });
+  }
+  if (!type) {
+    throw createError({
+      statusCode: 422,
+      message: "Order type (limit/market) is required.",
+    });
+  }
+
+  if (!currency || !pair) {
+    throw createError({
+      statusCode: 422,
+      message: "Invalid currency/pair symbol.",
+    });
+  }
+
+  if (!["GTC", "IOC", "FOK", "PO"].includes(timeInForce)) {
+    throw createError({
+      statusCode: 422,
+      message: "Time in force must be one of GTC, IOC, FOK or PO.",
+    });
+  }
+
+  if (timeInForce === "PO" && type.toLowerCase() !== "limit") {
+    throw createError({
+      statusCode: 422,
+      message: "Post-only is only available for limit orders.",
+    });
+  }
+
+  const symbol = `${currency}/${pair}`;
+
+  const market = (await models.ecosystemMarket.findOne({
+    where: { currency, pair },
+  })) as any;
+
+  if (!market || !market.metadata) {
+    throw createError({
+      statusCode: 422,
+      message: "Market data not found or incomplete.",
+    });
+  }
+
+  if (
+    !market.metadata.precision ||
+    !market.metadata.precision.amount ||
+    !market.metadata.precision.price
+  ) {
+    throw createError({
+      statusCode: 422,
+      message: "Market metadata missing precision details.",
+    });
+  }
+
+  if (!market.metadata.maker || !market.metadata.taker) {
+    throw createError({
+      statusCode: 422,
+      message: "Market metadata missing fee rates.",
+    });
+  }
+
+  const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
+  const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
+  const minPrice = Number(market.metadata?.limits?.price?.min || 0);
+  const maxPrice = Number(market.metadata?.limits?.price?.max || 0);
+  const minCost = Number(market.metadata?.limits?.cost?.min || 0);
+  const maxCost = Number(market.metadata?.limits?.cost?.max || 0);
+
+  if (side.toUpperCase() === "SELL" && amount < minAmount) {
+    throw createError({
+      statusCode: 422,
+      message: `Amount is too low, you need at least ${minAmount} ${currency}`,
+    });
+  }
+
+  // Optional check for BUY minimum amount:
+  if (side.toUpperCase() === "BUY" && amount < minAmount) {
+    throw createError({
+      statusCode: 422,
+      message: `Amount is too low, minimum is ${minAmount} ${currency}`,
+    });
+  }
+
+  if (side.toUpperCase() === "SELL" && maxAmount > 0 && amount > maxAmount) {
+    throw createError({
+      statusCode: 422,
+      message: `Amount is too high, maximum is ${maxAmount} ${currency}`,
+    });
+  }
+
+  // For limit orders, price must be provided and > 0
+  if (type.toLowerCase() === "limit" && (!price || price <= 0)) {
+    throw createError({
+      statusCode: 422,
+      message: "Price must be greater than zero for limit orders.",
+    });
+  }
+
+  let effectivePrice = price;
+  // Market order: derive price from orderbook
+  if (type.toLowerCase() === "market") {
+    const bestPrice = await getBestPriceFromOrderBook(symbol, side);
+    if (!bestPrice) {
+      throw createError({
+        statusCode: 422,
+        message: "Cannot execute market order: no price available.",
+      });
+    }
+    effectivePrice = bestPrice;
+  }
+
+  if (effectivePrice && effectivePrice < minPrice) {
+    throw createError({
+      statusCode: 422,
+      message: `Price is too low, you need at least ${minPrice} ${pair}`,
+    });
+  }
+
+  if (maxPrice > 0 && effectivePrice && effectivePrice > maxPrice) {
+    throw createError({
+      statusCode: 422,
+      message: `Price is too high, maximum is ${maxPrice} ${pair}`,
+    });
+  }
+
+  const precision =
+    Number(
+      side.toUpperCase() === "BUY"
+        ? market.metadata.precision.amount
+        : market.metadata.precision.price
+    ) || 8;
+
+  const feeRates = await getUserFeeRates(userId, market.metadata);
+  const feeRate =
+    side.toUpperCase() === "BUY" ? feeRates.taker : feeRates.maker;
+
+  if (isNaN(feeRate) || feeRate < 0) {
+    throw createError({
+      statusCode: 422,
+      message: "Invalid fee rate from market metadata.",
+    });
+  }
+
+  if (!effectivePrice || isNaN(effectivePrice)) {
+    throw createError({
+      statusCode: 422,
+      message: "No valid price determined for the order.",
+    });
+  }
+
+  const feeCalculated = (amount * effectivePrice * feeRate) / 100;
+  const fee = parseFloat(feeCalculated.toFixed(precision));
+  const costCalculated =
+    side.toUpperCase() === "BUY" ? amount * effectivePrice + fee : amount;
+  const cost = parseFloat(costCalculated.toFixed(precision));
+
+  if (side.toUpperCase() === "BUY" && (isNaN(cost) || cost <= 0)) {
+    throw createError({
+      statusCode: 422,
+      message: "Calculated cost is invalid. Check your price and amount.",
+    });
+  }
+
+  if (side.toUpperCase() === "BUY" && cost < minCost) {
+    throw createError({
+      statusCode: 422,
+      message: `Cost is too low, you need at least ${minCost} ${pair}`,
+    });
+  }
+
+  if (side.toUpperCase() === "BUY" && maxCost > 0 && cost > maxCost) {
+    throw createError({
+      statusCode: 422,
+      message: `Cost is too high, maximum is ${maxCost} ${pair}`,
+    });
+  }
+
+  const [currencyWallet, pairWallet] = await Promise.all([
+    getWalletByUserIdAndCurrency(userId, currency),
+    getWalletByUserIdAndCurrency(userId, pair),
+  ]);
+
+  if (side.toUpperCase() === "SELL") {
+    if (
+      !currencyWallet ||
+      parseFloat(currencyWallet.balance.toString()) < amount
+    ) {
+      throw createError({
+        statusCode: 400,
+        message: `Insufficient balance. You need ${amount} ${currency}`,
+      });
+    }
+  } else {
+    // BUY
+    if (!pairWallet || parseFloat(pairWallet.balance.toString()) < cost) {
+      throw createError({
+        statusCode: 400,
+        message: `Insufficient balance. You need ${cost} ${pair}`,
+      });
+    }
+  }
+
+  // Orders crossing the user's own resting orders are resolved by the
+  // matching engine according to the market's self-trade prevention mode.
+
+  // Post-only and fill-or-kill orders are rejected before any funds are
+  // locked when the book cannot honour them.
+  if (timeInForce === "PO" || timeInForce === "FOK") {
+    const matchingEngine = await MatchingEngine.getInstance();
+    const orderPrice = removeTolerance(toBigIntFloat(effectivePrice));
+    let rejectionReason: string | null = null;
+
+    if (
+      timeInForce === "PO" &&
+      matchingEngine.wouldCrossBook(symbol, side.toUpperCase(), orderPrice)
+    ) {
+      rejectionReason = "Post-only order would immediately match.";
+    }
+
+    if (
+      timeInForce === "FOK" &&
+      matchingEngine.getFillableAmount(
+        symbol,
+        side.toUpperCase(),
+        type.toUpperCase(),
+        orderPrice,
+        userId
+      ) < removeTolerance(toBigIntFloat(amount))
+    ) {
+      rejectionReason = "Fill-or-kill order cannot be filled completely.";
+    }
+
+    if (rejectionReason) {
+      handleOrderRejectionBroadcast(
+        userId,
+        {
+          symbol,
+          type: type.toUpperCase(),
+          side: side.toUpperCase(),
+          timeInForce,
+          amount,
+          price: effectivePrice,
+          createdAt: new Date(),
+        },
+        rejectionReason
+      );
+      throw createError({ statusCode: 400, message: rejectionReason });
+    }
+  }
+
+  // Create the order
+  const newOrder = await createOrder({
+    userId,
+    symbol,
+    amount: toBigIntFloat(amount),
+    price: toBigIntFloat(effectivePrice),
+    cost: toBigIntFloat(cost),
+    type,
+    side,
+    fee: toBigIntFloat(fee),
+    feeCurrency: pair,
+    timeInForce,
+  });
+
+  // Atomicity: Update wallet after order creation
+  try {
+    if (side.toUpperCase() === "BUY") {
+      await updateWalletBalance(
+        pairWallet,
+        fromBigInt(newOrder.cost),
+        "subtract",
+        orderLedgerContext(newOrder.id, "Order placed")
+      );
+    } else {
+      await updateWalletBalance(
+        currencyWallet,
+        fromBigInt(newOrder.amount),
+        "subtract",
+        orderLedgerContext(newOrder.id, "Order placed")
+      );
+    }
+  } catch (e) {
+    await rollbackOrderCreation(newOrder.id, userId, newOrder.createdAt);
+    throw createError({
+      statusCode: 500,
+      message: "Failed to update wallet balance. Order rolled back.",
+    });
+  }
+
+  return newOrder;
+}
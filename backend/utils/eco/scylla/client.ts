@@ -97,7 +97,8 @@ export function initialize(): Promise<void> {
     await initializeDatabase(
       scyllaFuturesKeyspace,
       futuresTableQueries,
-      futuresViewQueries
+      futuresViewQueries,
+      futuresColumnMigrations
     );
     client.keyspace = scyllaKeyspace;
   })();
@@ -110,10 +111,27 @@ export function initialize(): Promise<void> {
   return initializationPromise;
 }
 
+// CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so columns added
+// later are added here. A column that already exists is not an error.
+async function addColumns(columnQueries: string[]) {
+  for (const query of columnQueries) {
+    try {
+      await client.execute(query);
+    } catch (err) {
+      if (
+        !/already exists|conflicts with an existing column/i.test(err.message)
+      ) {
+        throw err;
+      }
+    }
+  }
+}
+
 async function initializeDatabase(
   keyspace: string,
   tableQueries: string[],
-  materializedViewQueries: string[]
+  materializedViewQueries: string[],
+  columnQueries: string[] = []
 ) {
   try {
     const query = `SELECT keyspace_name FROM system_schema.keyspaces WHERE keyspace_name = '${keyspace}'`;
@@ -130,6 +148,7 @@ async function initializeDatabase(
     try {
       // Execute table creation queries first
       await Promise.all(tableQueries.map((query) => client.execute(query)));
+      await addColumns(columnQueries);
       // Execute materialized view creation queries next
       await Promise.all(
         materializedViewQueries.map((query) => client.execute(query))
@@ -186,6 +205,24 @@ const tradingTableQueries = [
     side TEXT,
     PRIMARY KEY ((symbol, side), price)
   ) WITH CLUSTERING ORDER BY (price ASC);`,
+
+  `CREATE TABLE IF NOT EXISTS ${scyllaKeyspace}.trigger_orders (
+    id UUID,
+    "userId" UUID,
+    symbol TEXT,
+    type TEXT,
+    side TEXT,
+    amount VARINT,
+    price VARINT,
+    "stopPrice" VARINT,
+    "trailingPercent" DOUBLE,
+    "trailingPrice" VARINT,
+    "orderId" UUID,
+    status TEXT,
+    "createdAt" TIMESTAMP,
+    "updatedAt" TIMESTAMP,
+    PRIMARY KEY (("userId"), "createdAt", id)
+  ) WITH CLUSTERING ORDER BY ("createdAt" DESC, id ASC);`,
 ];
 
 const tradingViewQueries = [
@@ -211,6 +248,12 @@ const tradingViewQueries = [
   SELECT price, side, amount FROM ${scyllaKeyspace}.orderbook
   WHERE symbol IS NOT NULL AND price IS NOT NULL AND side IS NOT NULL
   PRIMARY KEY (symbol, price, side);`,
+
+  `CREATE MATERIALIZED VIEW IF NOT EXISTS ${scyllaKeyspace}.pending_trigger_orders AS
+  SELECT * FROM ${scyllaKeyspace}.trigger_orders
+  WHERE status = 'PENDING' AND "userId" IS NOT NULL AND "createdAt" IS NOT NULL AND id IS NOT NULL
+  PRIMARY KEY ((status, "userId"), "createdAt", id)
+  WITH CLUSTERING ORDER BY ("createdAt" DESC, id ASC);`,
 ];
 
 const futuresTableQueries = [
@@ -233,6 +276,8 @@ const futuresTableQueries = [
     status TEXT,
     "stopLossPrice" VARINT,
     "takeProfitPrice" VARINT,
+    "isLiquidation" BOOLEAN,
+    "marginMode" TEXT,
     trades TEXT,
     "createdAt" TIMESTAMP,
     "updatedAt" TIMESTAMP,
@@ -250,6 +295,9 @@ const futuresTableQueries = [
     "unrealizedPnl" VARINT,
     "stopLossPrice" VARINT,
     "takeProfitPrice" VARINT,
+    "liquidationPrice" VARINT,
+    "marginMode" TEXT,
+    margin VARINT,
     status TEXT,
     "createdAt" TIMESTAMP,
     "updatedAt" TIMESTAMP,
@@ -276,6 +324,41 @@ const futuresTableQueries = [
     "updatedAt" TIMESTAMP,
     PRIMARY KEY (symbol, interval, "createdAt")
   ) WITH CLUSTERING ORDER BY (interval ASC, "createdAt" DESC);`,
+
+  `CREATE TABLE IF NOT EXISTS ${scyllaFuturesKeyspace}.order_groups (
+    id UUID,
+    "userId" UUID,
+    symbol TEXT,
+    type TEXT,
+    leverage VARINT,
+    legs TEXT,
+    status TEXT,
+    "createdAt" TIMESTAMP,
+    "updatedAt" TIMESTAMP,
+    PRIMARY KEY (("userId"), id)
+  ) WITH CLUSTERING ORDER BY (id ASC);`,
+
+  `CREATE TABLE IF NOT EXISTS ${scyllaFuturesKeyspace}.funding_history (
+    id UUID,
+    "userId" UUID,
+    "positionId" UUID,
+    symbol TEXT,
+    side TEXT,
+    "fundingRate" DOUBLE,
+    "markPrice" DOUBLE,
+    "indexPrice" DOUBLE,
+    amount DOUBLE,
+    "createdAt" TIMESTAMP,
+    PRIMARY KEY (("userId"), "createdAt", id)
+  ) WITH CLUSTERING ORDER BY ("createdAt" DESC, id ASC);`,
+];
+
+const futuresColumnMigrations = [
+  `ALTER TABLE ${scyllaFuturesKeyspace}.orders ADD "isLiquidation" BOOLEAN;`,
+  `ALTER TABLE ${scyllaFuturesKeyspace}.position ADD "liquidationPrice" VARINT;`,
+  `ALTER TABLE ${scyllaFuturesKeyspace}.orders ADD "marginMode" TEXT;`,
+  `ALTER TABLE ${scyllaFuturesKeyspace}.position ADD "marginMode" TEXT;`,
+  `ALTER TABLE ${scyllaFuturesKeyspace}.position ADD margin VARINT;`,
 ];
 
 const futuresViewQueries = [
@@ -7,7 +7,11 @@ import {
 import client from "./client";
 import { makeUuid } from "@b/utils/passwords";
 import { MatchingEngine } from "../matchingEngine";
-import { getWalletByUserIdAndCurrency, updateWalletBalance } from "../wallet";
+import {
+  getWalletByUserIdAndCurrency,
+  orderLedgerContext,
+  updateWalletBalance,
+} from "../wallet";
 const scyllaKeyspace = process.env.SCYLLA_KEYSPACE || "trading";
 
 // Define a TypeScript interface for the "orders" table
@@ -32,6 +36,24 @@ export interface Order {
   updatedAt: Date;
 }
 
+// Define a TypeScript interface for the "trigger_orders" table
+export interface TriggerOrder {
+  id: string;
+  userId: string;
+  symbol: string;
+  type: "STOP_LIMIT" | "STOP_MARKET" | "TRAILING_STOP";
+  side: string;
+  amount: bigint;
+  price?: bigint | null;
+  stopPrice?: bigint | null;
+  trailingPercent?: number | null;
+  trailingPrice?: bigint | null;
+  orderId?: string | null;
+  status: "PENDING" | "TRIGGERED" | "CANCELED" | "REJECTED";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface MatchedOrder {
   userId: string;
   symbol: string;
@@ -257,6 +279,7 @@ export async function createOrder({
   side,
   fee,
   feeCurrency,
+  timeInForce = "GTC",
 }: {
   userId: string;
   symbol: string;
@@ -267,6 +290,7 @@ export async function createOrder({
   side: string;
   fee: bigint;
   feeCurrency: string;
+  timeInForce?: string;
 }): Promise<Order> {
   const currentTimestamp = new Date();
   const query = `
@@ -283,7 +307,7 @@ export async function createOrder({
     userId,
     symbol,
     type,
-    "GTC",
+    timeInForce,
     side,
     priceTolerance.toString(),
     amountTolerance.toString(),
@@ -307,7 +331,7 @@ export async function createOrder({
       userId,
       symbol,
       type,
-      timeInForce: "GTC",
+      timeInForce,
       side,
       price: priceTolerance,
       amount: amountTolerance,
@@ -705,7 +729,12 @@ async function cancelAndRefundOrder(userId, id, createdAt) {
     return;
   }
 
-  await updateWalletBalance(wallet, refundAmount, "add");
+  await updateWalletBalance(
+    wallet,
+    refundAmount,
+    "add",
+    orderLedgerContext(id, "Order canceled")
+  );
 }
 
 /**
@@ -773,3 +802,227 @@ export async function rollbackOrderCreation(
   const params = [userId, createdAt, orderId];
   await client.execute(query, params, { prepare: true });
 }
+
+function toNullableBigInt(value: any): bigint | null {
+  return value === null || value === undefined ? null : BigInt(value);
+}
+
+function mapRowToTriggerOrder(row: any): TriggerOrder {
+  return {
+    id: row.id.toString(),
+    userId: row.userId.toString(),
+    symbol: row.symbol,
+    type: row.type,
+    side: row.side,
+    amount: BigInt(row.amount ?? 0),
+    price: toNullableBigInt(row.price),
+    stopPrice: toNullableBigInt(row.stopPrice),
+    trailingPercent: row.trailingPercent ?? null,
+    trailingPrice: toNullableBigInt(row.trailingPrice),
+    orderId: row.orderId ? row.orderId.toString() : null,
+    status: row.status,
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+  };
+}
+
+/**
+ * Creates a new pending trigger order. Trigger orders are kept apart from the
+ * orders table until they fire and are converted into a regular order.
+ * @param triggerOrder - The trigger order to be inserted into the table.
+ * @returns A Promise that resolves with the stored trigger order.
+ */
+export async function createTriggerOrder({
+  userId,
+  symbol,
+  type,
+  side,
+  amount,
+  price = null,
+  stopPrice = null,
+  trailingPercent = null,
+  trailingPrice = null,
+}: {
+  userId: string;
+  symbol: string;
+  type: TriggerOrder["type"];
+  side: string;
+  amount: bigint;
+  price?: bigint | null;
+  stopPrice?: bigint | null;
+  trailingPercent?: number | null;
+  trailingPrice?: bigint | null;
+}): Promise<TriggerOrder> {
+  const currentTimestamp = new Date();
+  const id = makeUuid();
+  const triggerOrder: TriggerOrder = {
+    id,
+    userId,
+    symbol,
+    type,
+    side,
+    amount: removeTolerance(amount),
+    price: price !== null ? removeTolerance(price) : null,
+    stopPrice: stopPrice !== null ? removeTolerance(stopPrice) : null,
+    trailingPercent,
+    trailingPrice:
+      trailingPrice !== null ? removeTolerance(trailingPrice) : null,
+    orderId: null,
+    status: "PENDING",
+    createdAt: currentTimestamp,
+    updatedAt: currentTimestamp,
+  };
+
+  const query = `
+    INSERT INTO ${scyllaKeyspace}.trigger_orders (id, "userId", symbol, type, side, amount, price, "stopPrice", "trailingPercent", "trailingPrice", status, "createdAt", "updatedAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+  `;
+  const params = [
+    id,
+    userId,
+    symbol,
+    type,
+    side,
+    triggerOrder.amount.toString(),
+    triggerOrder.price?.toString() ?? null,
+    triggerOrder.stopPrice?.toString() ?? null,
+    trailingPercent,
+    triggerOrder.trailingPrice?.toString() ?? null,
+    triggerOrder.status,
+    currentTimestamp,
+    currentTimestamp,
+  ];
+
+  try {
+    await client.execute(query, params, { prepare: true });
+    return triggerOrder;
+  } catch (error) {
+    console.error(`Failed to create trigger order: ${error.message}`);
+    throw new Error(`Failed to create trigger order: ${error.message}`);
+  }
+}
+
+export async function getTriggerOrderByUuid(
+  userId: string,
+  id: string,
+  createdAt: string
+): Promise<TriggerOrder | null> {
+  const query = `
+    SELECT * FROM ${scyllaKeyspace}.trigger_orders
+    WHERE "userId" = ? AND "createdAt" = ? AND id = ?;
+  `;
+  const params = [userId, new Date(createdAt), id];
+
+  const result = await client.execute(query, params, { prepare: true });
+  return result.rows.length > 0 ? mapRowToTriggerOrder(result.rows[0]) : null;
+}
+
+/**
+ * Retrieves a user's trigger orders, optionally restricted to one symbol.
+ * @param userId - The ID of the user whose trigger orders are to be retrieved.
+ * @param symbol - Optional symbol to filter by.
+ * @returns A Promise that resolves with an array of trigger orders.
+ */
+export async function getTriggerOrdersByUserId(
+  userId: string,
+  symbol?: string
+): Promise<TriggerOrder[]> {
+  const query = `
+    SELECT * FROM ${scyllaKeyspace}.trigger_orders
+    WHERE "userId" = ?
+    ORDER BY "createdAt" DESC;
+  `;
+
+  try {
+    const result = await client.execute(query, [userId], { prepare: true });
+    return result.rows
+      .map(mapRowToTriggerOrder)
+      .filter((triggerOrder) => !symbol || triggerOrder.symbol === symbol);
+  } catch (error) {
+    console.error(`Failed to fetch trigger orders: ${error.message}`);
+    throw new Error(`Failed to fetch trigger orders: ${error.message}`);
+  }
+}
+
+/**
+ * Retrieves all trigger orders with status 'PENDING'.
+ * @returns A Promise that resolves with an array of pending trigger orders.
+ */
+export async function getAllPendingTriggerOrders(): Promise<TriggerOrder[]> {
+  const query = `
+    SELECT * FROM ${scyllaKeyspace}.pending_trigger_orders
+    WHERE status = 'PENDING' ALLOW FILTERING;
+  `;
+
+  try {
+    const result = await client.execute(query, [], { prepare: true });
+    return result.rows.map(mapRowToTriggerOrder);
+  } catch (error) {
+    console.error(`Failed to fetch pending trigger orders: ${error.message}`);
+    throw new Error(`Failed to fetch pending trigger orders: ${error.message}`);
+  }
+}
+
+/**
+ * Persists the mutable fields of a trigger order.
+ * @param triggerOrder - The trigger order holding the new values.
+ */
+export async function updateTriggerOrder(
+  triggerOrder: TriggerOrder
+): Promise<void> {
+  try {
+    await executeTriggerOrderUpdate(triggerOrder, "");
+  } catch (error) {
+    console.error(`Failed to update trigger order: ${error.message}`);
+    throw new Error(`Failed to update trigger order: ${error.message}`);
+  }
+}
+
+/**
+ * Persists the mutable fields of a trigger order only while it is still
+ * pending, so a cancellation, an amendment and the order firing cannot
+ * overwrite one another.
+ * @param triggerOrder - The trigger order holding the new values.
+ * @returns A Promise that resolves with whether the update was applied.
+ */
+export async function updatePendingTriggerOrder(
+  triggerOrder: TriggerOrder
+): Promise<boolean> {
+  try {
+    const result = await executeTriggerOrderUpdate(
+      triggerOrder,
+      " IF status = 'PENDING'"
+    );
+    return result.wasApplied();
+  } catch (error) {
+    console.error(`Failed to update trigger order: ${error.message}`);
+    throw new Error(`Failed to update trigger order: ${error.message}`);
+  }
+}
+
+async function executeTriggerOrderUpdate(
+  triggerOrder: TriggerOrder,
+  condition: string
+) {
+  const query = `
+    UPDATE ${scyllaKeyspace}.trigger_orders
+    SET amount = ?, price = ?, "stopPrice" = ?, "trailingPercent" = ?, "trailingPrice" = ?, "orderId" = ?, status = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND "createdAt" = ? AND id = ?${condition};
+  `;
+  triggerOrder.updatedAt = new Date();
+  const params = [
+    triggerOrder.amount.toString(),
+    triggerOrder.price?.toString() ?? null,
+    triggerOrder.stopPrice?.toString() ?? null,
+    triggerOrder.trailingPercent ?? null,
+    triggerOrder.trailingPrice?.toString() ?? null,
+    triggerOrder.orderId ?? null,
+    triggerOrder.status,
+    triggerOrder.updatedAt,
+    triggerOrder.userId,
+    triggerOrder.createdAt,
+    triggerOrder.id,
+  ];
+
+  return client.execute(query, params, { prepare: true });
+}
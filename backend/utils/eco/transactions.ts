@@ -1,12 +1,8 @@
 import { differenceInMinutes } from "date-fns";
 import { chainConfigs } from "./chains";
-import { fetchUTXOTransactions } from "./utxo";
 import { RedisSingleton } from "../redis";
 import { logError } from "@b/utils/logger";
-import SolanaService from "../../blockchains/sol";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
-import TonService from "@b/blockchains/ton";
+import { getChainAdapter } from "./adapters";
 
 const CACHE_EXPIRATION = 30;
 
@@ -31,35 +27,15 @@ export const fetchEcosystemTransactions = async (
   chain: string,
   address: string
 ) => {
-  const config = chainConfigs[chain];
-  if (!config) {
-    throw new Error(`Unsupported chain: ${chain}`);
-  }
   try {
-    if (["BTC", "LTC", "DOGE", "DASH"].includes(chain)) {
-      return await fetchUTXOTransactions(chain, address);
-    } else if (chain === "SOL") {
-      const solanaService = await SolanaService.getInstance();
-      return await solanaService.fetchTransactions(address);
-    } else if (chain === "TRON") {
-      const tronService = await TronService.getInstance();
-      return await tronService.fetchTransactions(address);
-    } else if (chain === "XMR") {
-      const moneroService = await MoneroService.getInstance();
-      return await moneroService.fetchTransactions("master_wallet");
-    } else if (chain === "TON") {
-      const tonService = await TonService.getInstance();
-      return await tonService.fetchTransactions(address);
-    } else {
-      return await fetchAndParseTransactions(address, chain, config);
-    }
+    return await getChainAdapter(chain).fetchTransactions(chain, address);
   } catch (error) {
     logError("fetch_ecosystem_transactions", error, __filename);
     throw new Error(error.message);
   }
 };
 
-const fetchAndParseTransactions = async (
+export const fetchAndParseTransactions = async (
   address: string,
   chain: string,
   config: any
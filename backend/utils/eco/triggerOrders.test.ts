@@ -0,0 +1,177 @@
+import { placeEcosystemOrder } from "./order";
+import {
+  updatePendingTriggerOrder,
+  updateTriggerOrder,
+  type TriggerOrder,
+} from "./scylla/queries";
+import {
+  evaluateTriggerOrder,
+  fireTriggerOrder,
+  getTrailingStopPrice,
+  isStopReached,
+} from "./triggerOrders";
+import { toBigIntFloat } from "./blockchain";
+
+jest.mock("@b/db", () => ({ models: {} }));
+
+jest.mock("./order", () => ({
+  placeEcosystemOrder: jest.fn(),
+}));
+
+jest.mock("./scylla/queries", () => ({
+  updatePendingTriggerOrder: jest.fn(),
+  updateTriggerOrder: jest.fn(),
+}));
+
+jest.mock("./ws", () => ({
+  handleTriggerOrderBroadcast: jest.fn(),
+}));
+
+jest.mock("@b/utils/logger", () => ({
+  logError: jest.fn(),
+}));
+
+function makeTriggerOrder(overrides: Partial<TriggerOrder>): TriggerOrder {
+  return {
+    id: "trigger-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    type: "STOP_MARKET",
+    side: "SELL",
+    amount: toBigIntFloat(1),
+    price: null,
+    stopPrice: toBigIntFloat(90),
+    trailingPercent: null,
+    trailingPrice: null,
+    orderId: null,
+    status: "PENDING",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("isStopReached", () => {
+  it("fires buy stops on a rally and sell stops on a drop", () => {
+    expect(isStopReached("BUY", toBigIntFloat(110), toBigIntFloat(110))).toBe(
+      true
+    );
+    expect(isStopReached("BUY", toBigIntFloat(110), toBigIntFloat(109))).toBe(
+      false
+    );
+    expect(isStopReached("SELL", toBigIntFloat(90), toBigIntFloat(90))).toBe(
+      true
+    );
+    expect(isStopReached("SELL", toBigIntFloat(90), toBigIntFloat(91))).toBe(
+      false
+    );
+  });
+});
+
+describe("evaluateTriggerOrder", () => {
+  it("fires a stop order once the last price reaches its stop", () => {
+    const order = makeTriggerOrder({
+      type: "STOP_LIMIT",
+      price: toBigIntFloat(89),
+    });
+
+    expect(evaluateTriggerOrder(order, toBigIntFloat(95)).triggered).toBe(
+      false
+    );
+    expect(evaluateTriggerOrder(order, toBigIntFloat(90))).toEqual({
+      triggered: true,
+      trailingUpdated: false,
+    });
+  });
+
+  it("ratchets a trailing sell stop up with the price and fires on the pullback", () => {
+    const order = makeTriggerOrder({
+      type: "TRAILING_STOP",
+      stopPrice: null,
+      trailingPercent: 10,
+      trailingPrice: toBigIntFloat(100),
+    });
+
+    expect(evaluateTriggerOrder(order, toBigIntFloat(120))).toEqual({
+      triggered: false,
+      trailingUpdated: true,
+    });
+    expect(getTrailingStopPrice(order)).toBe(toBigIntFloat(108));
+
+    // A drop above the stop leaves the reference price where it was
+    expect(evaluateTriggerOrder(order, toBigIntFloat(110))).toEqual({
+      triggered: false,
+      trailingUpdated: false,
+    });
+    expect(evaluateTriggerOrder(order, toBigIntFloat(108)).triggered).toBe(
+      true
+    );
+  });
+
+  it("trails a buy stop down with the price", () => {
+    const order = makeTriggerOrder({
+      type: "TRAILING_STOP",
+      side: "BUY",
+      stopPrice: null,
+      trailingPercent: 5,
+      trailingPrice: toBigIntFloat(100),
+    });
+
+    evaluateTriggerOrder(order, toBigIntFloat(80));
+
+    expect(getTrailingStopPrice(order)).toBe(toBigIntFloat(84));
+    expect(evaluateTriggerOrder(order, toBigIntFloat(84)).triggered).toBe(true);
+  });
+});
+
+describe("fireTriggerOrder", () => {
+  it("places the order after claiming the pending trigger", async () => {
+    const order = makeTriggerOrder({
+      type: "STOP_LIMIT",
+      price: toBigIntFloat(89),
+    });
+    (updatePendingTriggerOrder as jest.Mock).mockResolvedValue(true);
+    (placeEcosystemOrder as jest.Mock).mockResolvedValue({ id: "order-1" });
+
+    await fireTriggerOrder(order);
+
+    expect(placeEcosystemOrder).toHaveBeenCalledWith("user-1", {
+      currency: "BTC",
+      pair: "USDT",
+      amount: 1,
+      price: 89,
+      type: "LIMIT",
+      side: "SELL",
+    });
+    expect(order.status).toBe("TRIGGERED");
+    expect(order.orderId).toBe("order-1");
+    expect(updateTriggerOrder).toHaveBeenCalledWith(order);
+  });
+
+  it("does not place an order for a trigger cancelled in the meantime", async () => {
+    const order = makeTriggerOrder({});
+    (updatePendingTriggerOrder as jest.Mock).mockResolvedValue(false);
+
+    await fireTriggerOrder(order);
+
+    expect(placeEcosystemOrder).not.toHaveBeenCalled();
+    expect(updateTriggerOrder).not.toHaveBeenCalled();
+  });
+
+  it("rejects the trigger when the order cannot be placed", async () => {
+    const order = makeTriggerOrder({});
+    (updatePendingTriggerOrder as jest.Mock).mockResolvedValue(true);
+    (placeEcosystemOrder as jest.Mock).mockRejectedValue(
+      new Error("Insufficient balance")
+    );
+
+    await fireTriggerOrder(order);
+
+    expect(order.status).toBe("REJECTED");
+    expect(updateTriggerOrder).toHaveBeenCalledWith(order);
+  });
+});
@@ -0,0 +1,151 @@
+import { fromBigInt } from "./blockchain";
+import { placeEcosystemOrder } from "./order";
+import {
+  updatePendingTriggerOrder,
+  updateTriggerOrder,
+  type TriggerOrder,
+} from "./scylla/queries";
+import { handleTriggerOrderBroadcast } from "./ws";
+import { logError } from "@b/utils/logger";
+
+export const TRIGGER_ORDER_TYPES = [
+  "STOP_LIMIT",
+  "STOP_MARKET",
+  "TRAILING_STOP",
+];
+
+// Trailing percentages are applied in hundredths of a percent
+const PERCENT_SCALE = BigInt(10000);
+
+export function isStopReached(
+  side: string,
+  stopPrice: bigint,
+  lastPrice: bigint
+): boolean {
+  // BUY stops fire on a rally, SELL stops on a drop
+  return side === "BUY" ? lastPrice >= stopPrice : lastPrice <= stopPrice;
+}
+
+/**
+ * Computes the current stop level of a trailing stop from the best price seen
+ * since it was placed.
+ */
+export function getTrailingStopPrice(
+  triggerOrder: TriggerOrder
+): bigint | null {
+  if (
+    triggerOrder.trailingPrice === null ||
+    triggerOrder.trailingPrice === undefined ||
+    !triggerOrder.trailingPercent
+  ) {
+    return null;
+  }
+
+  const offset = BigInt(Math.round(triggerOrder.trailingPercent * 100));
+  return triggerOrder.side === "SELL"
+    ? (triggerOrder.trailingPrice * (PERCENT_SCALE - offset)) / PERCENT_SCALE
+    : (triggerOrder.trailingPrice * (PERCENT_SCALE + offset)) / PERCENT_SCALE;
+}
+
+/**
+ * Evaluates a pending trigger order against the last traded price. Trailing
+ * stops first move their reference price when the market moves in the
+ * order's favour.
+ * @returns Whether the order fired and whether its trailing price moved.
+ */
+export function evaluateTriggerOrder(
+  triggerOrder: TriggerOrder,
+  lastPrice: bigint
+): { triggered: boolean; trailingUpdated: boolean } {
+  if (triggerOrder.type !== "TRAILING_STOP") {
+    return {
+      triggered:
+        !!triggerOrder.stopPrice &&
+        isStopReached(triggerOrder.side, triggerOrder.stopPrice, lastPrice),
+      trailingUpdated: false,
+    };
+  }
+
+  const trailingPrice = triggerOrder.trailingPrice;
+  const trailingUpdated =
+    trailingPrice === null ||
+    trailingPrice === undefined ||
+    (triggerOrder.side === "SELL" && lastPrice > trailingPrice) ||
+    (triggerOrder.side === "BUY" && lastPrice < trailingPrice);
+
+  if (trailingUpdated) {
+    triggerOrder.trailingPrice = lastPrice;
+  }
+
+  const stopPrice = getTrailingStopPrice(triggerOrder);
+  return {
+    triggered:
+      stopPrice !== null &&
+      isStopReached(triggerOrder.side, stopPrice, lastPrice),
+    trailingUpdated,
+  };
+}
+
+/**
+ * Converts a fired trigger order into a regular order. Funds are only locked
+ * at this point, so an order that can no longer be placed (e.g. insufficient
+ * balance) leaves the trigger REJECTED. The trigger is claimed first, so one
+ * cancelled in the meantime never places an order.
+ */
+export async function fireTriggerOrder(triggerOrder: TriggerOrder) {
+  const [currency, pair] = triggerOrder.symbol.split("/");
+
+  triggerOrder.status = "TRIGGERED";
+  try {
+    if (!(await updatePendingTriggerOrder(triggerOrder))) return;
+  } catch (error) {
+    logError("trigger_order", error, __filename);
+    return;
+  }
+
+  try {
+    const order = await placeEcosystemOrder(triggerOrder.userId, {
+      currency,
+      pair,
+      amount: fromBigInt(triggerOrder.amount),
+      price:
+        triggerOrder.type === "STOP_LIMIT" && triggerOrder.price
+          ? fromBigInt(triggerOrder.price)
+          : undefined,
+      type: triggerOrder.type === "STOP_LIMIT" ? "LIMIT" : "MARKET",
+      side: triggerOrder.side,
+    });
+    triggerOrder.orderId = order.id;
+  } catch (error) {
+    logError("trigger_order", error, __filename);
+    console.error(
+      `Failed to place order for trigger ${triggerOrder.id}: ${error.message}`
+    );
+    triggerOrder.status = "REJECTED";
+  }
+
+  try {
+    await updateTriggerOrder(triggerOrder);
+  } catch (error) {
+    logError("trigger_order", error, __filename);
+  }
+
+  handleTriggerOrderBroadcast(triggerOrder);
+}
+
+export function formatTriggerOrder(triggerOrder: TriggerOrder) {
+  return {
+    ...triggerOrder,
+    amount: fromBigInt(triggerOrder.amount),
+    price: triggerOrder.price ? fromBigInt(triggerOrder.price) : null,
+    stopPrice:
+      triggerOrder.type === "TRAILING_STOP"
+        ? fromBigInt(getTrailingStopPrice(triggerOrder))
+        : triggerOrder.stopPrice
+          ? fromBigInt(triggerOrder.stopPrice)
+          : null,
+    trailingPrice: triggerOrder.trailingPrice
+      ? fromBigInt(triggerOrder.trailingPrice)
+      : null,
+  };
+}
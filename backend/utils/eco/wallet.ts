@@ -1,5 +1,4 @@
 import { ethers } from "ethers";
-import TonWeb from "tonweb";
 import { fromBigInt } from "./blockchain";
 import { estimateGas, getAdjustedGasPrice } from "./gas";
 import { getTokenContractAddress } from "./tokens";
@@ -7,13 +6,14 @@ import { decrypt, encrypt } from "../encrypt";
 import { models, sequelize } from "@b/db";
 import { getSmartContract } from "./smartContract";
 import { getChainId, getTimestampInSeconds } from "./chains";
-import { Op } from "sequelize";
+import { Op, Transaction } from "sequelize";
 import {
   getActiveCustodialWallets,
   getCustodialWalletContract,
   getCustodialWalletTokenBalance,
 } from "./custodialWallet";
 import { logError } from "@b/utils/logger";
+import { LedgerContext, recordWalletChange } from "@b/utils/ledger";
 
 export const walletResponseAttributes = [
   "id",
@@ -24,13 +24,8 @@ export const walletResponseAttributes = [
   "balance",
 ];
 
-import { createUTXOWallet } from "@b/utils/eco/utxo";
 import { createError } from "@b/utils/error";
-import { PublicKey } from "@solana/web3.js";
-import SolanaService from "@b/blockchains/sol";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
-import TonService from "@b/blockchains/ton";
+import { getChainAdapter } from "./adapters";
 
 export async function getActiveTokensByCurrency(
   currency: string
@@ -184,8 +179,8 @@ export const generateAndAddAddresses = async (wallet, tokens, transaction) => {
     try {
       switch (token.contractType) {
         case "PERMIT":
-          if (token.chain === "SOL") {
-            await handleSolanaWallet(wallet, addresses, transaction);
+          if (getChainAdapter(token.chain).tokenWallets) {
+            await handleChainWallet(token, wallet, addresses, transaction);
           } else {
             await handlePermitContract(token, wallet, addresses, transaction);
           }
@@ -194,17 +189,7 @@ export const generateAndAddAddresses = async (wallet, tokens, transaction) => {
           await handleNoPermitContract(token, wallet, addresses);
           break;
         case "NATIVE":
-          if (token.chain === "SOL") {
-            await handleSolanaNativeWallet(wallet, addresses, transaction);
-          } else if (token.chain === "TRON") {
-            await handleTronNativeWallet(wallet, addresses, transaction);
-          } else if (token.chain === "XMR") {
-            await handleMoneroNativeWallet(wallet, addresses, transaction);
-          } else if (token.chain === "TON") {
-            await handleTonNativeWallet(wallet, addresses, transaction);
-          } else {
-            await handleNativeContract(token, wallet, addresses, transaction);
-          }
+          await handleChainWallet(token, wallet, addresses, transaction);
           break;
         default:
           handleError(`Unknown contract type for token ${token.name}`, false);
@@ -242,46 +227,22 @@ export const generateAndAddAddresses = async (wallet, tokens, transaction) => {
   return updatedWallet;
 };
 
-const handleNativeContract = async (
-  token,
-  newWallet,
-  addresses,
-  transaction
-) => {
-  let encryptedWalletData;
-  if (["BTC", "LTC", "DOGE", "DASH"].includes(token.chain)) {
-    const wallet = createUTXOWallet(token.chain);
-    addresses[token.chain] = {
-      address: wallet.address,
-      network: token.network,
-      balance: 0,
-    };
+// Creates the wallet's own keypair on the token's chain
+const handleChainWallet = async (token, newWallet, addresses, transaction) => {
+  const adapter = getChainAdapter(token.chain);
+  const { address, data } = await adapter.createWallet(
+    token.chain,
+    newWallet.id
+  );
 
-    encryptedWalletData = encrypt(JSON.stringify(wallet.data));
-  } else {
-    const wallet = ethers.Wallet.createRandom();
-    if (!wallet.mnemonic) throw new Error("Mnemonic not found");
-    const hdNode = ethers.HDNodeWallet.fromPhrase(wallet.mnemonic.phrase);
-
-    addresses[token.chain] = {
-      address: hdNode.address,
-      network: token.network,
-      balance: 0,
-    };
+  addresses[token.chain] = {
+    address,
+    network: adapter.getNetwork(token),
+    balance: 0,
+  };
+
+  const encryptedWalletData = encrypt(JSON.stringify(data));
 
-    if (!hdNode.mnemonic) throw new Error("Mnemonic not found");
-    encryptedWalletData = encrypt(
-      JSON.stringify({
-        mnemonic: hdNode.mnemonic.phrase,
-        publicKey: hdNode.publicKey,
-        privateKey: hdNode.privateKey,
-        xprv: hdNode.extendedKey,
-        xpub: hdNode.neuter().extendedKey,
-        chainCode: hdNode.chainCode,
-        path: hdNode.path,
-      })
-    );
-  }
   const walletData = await models.walletData.findOne({
     where: {
       walletId: newWallet.id,
@@ -295,11 +256,11 @@ const handleNativeContract = async (
     // Update the existing record
     await walletData.update(
       {
-        balance: 0, // Update this as per your logic
+        balance: 0,
         index: 0,
         data: encryptedWalletData,
       },
-      transaction
+      { transaction }
     );
   } else {
     // Create a new record
@@ -317,231 +278,6 @@ const handleNativeContract = async (
   }
 };
 
-const handleSolanaNativeWallet = async (wallet, addresses, transaction) => {
-  const solanaService = await SolanaService.getInstance();
-  const { address, data } = solanaService.createWallet();
-
-  addresses["SOL"] = {
-    address,
-    network: process.env.SOLANA_NETWORK || "mainnet",
-    balance: 0,
-  };
-
-  const encryptedWalletData = encrypt(JSON.stringify(data));
-
-  const walletData = await models.walletData.findOne({
-    where: {
-      walletId: wallet.id,
-      currency: "SOL",
-      chain: "SOL",
-    },
-    transaction,
-  });
-
-  if (walletData) {
-    // Update the existing record
-    await walletData.update(
-      {
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  } else {
-    // Create a new record
-    await models.walletData.create(
-      {
-        walletId: wallet.id,
-        currency: "SOL",
-        chain: "SOL",
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  }
-};
-
-const handleSolanaWallet = async (wallet, addresses, transaction) => {
-  const solanaService = await SolanaService.getInstance();
-  const { address, data } = solanaService.createWallet();
-
-  addresses["SOL"] = {
-    address,
-    network: process.env.SOLANA_NETWORK || "mainnet",
-    balance: 0,
-  };
-
-  const encryptedWalletData = encrypt(JSON.stringify(data));
-
-  const walletData = await models.walletData.findOne({
-    where: {
-      walletId: wallet.id,
-      currency: wallet.currency,
-      chain: "SOL",
-    },
-    transaction,
-  });
-
-  if (walletData) {
-    // Update the existing record
-    await walletData.update(
-      {
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  } else {
-    // Create a new record
-    await models.walletData.create(
-      {
-        walletId: wallet.id,
-        currency: wallet.currency,
-        chain: "SOL",
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  }
-};
-
-const handleTronNativeWallet = async (wallet, addresses, transaction) => {
-  const tronService = await TronService.getInstance();
-  const { address, data } = tronService.createWallet();
-
-  addresses["TRON"] = {
-    address,
-    network: process.env.TRON_NETWORK || "mainnet",
-    balance: 0,
-  };
-
-  const encryptedWalletData = encrypt(JSON.stringify(data));
-
-  const walletData = await models.walletData.findOne({
-    where: {
-      walletId: wallet.id,
-      currency: "TRX",
-      chain: "TRON",
-    },
-    transaction,
-  });
-
-  if (walletData) {
-    // Update the existing record
-    await walletData.update(
-      {
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  } else {
-    // Create a new record
-    await models.walletData.create(
-      {
-        walletId: wallet.id,
-        currency: "TRX",
-        chain: "TRON",
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  }
-};
-
-const handleMoneroNativeWallet = async (wallet, addresses, transaction) => {
-  const moneroService = await MoneroService.getInstance();
-  const { address, data } = await moneroService.createWallet(wallet.id);
-
-  addresses["XMR"] = {
-    address,
-    network: process.env.MONERO_NETWORK || "mainnet",
-    balance: 0,
-  };
-
-  const encryptedWalletData = encrypt(JSON.stringify(data));
-
-  const walletData = await models.walletData.findOne({
-    where: {
-      walletId: wallet.id,
-      currency: "XMR",
-      chain: "XMR",
-    },
-    transaction,
-  });
-
-  if (walletData) {
-    // Update the existing record
-    await walletData.update(
-      {
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  } else {
-    // Create a new record
-    await models.walletData.create(
-      {
-        walletId: wallet.id,
-        currency: "XMR",
-        chain: "XMR",
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  }
-};
-
-const handleTonNativeWallet = async (wallet, addresses, transaction) => {
-  const tonService = await TonService.getInstance();
-  const { address, data } = await tonService.createWallet();
-
-  addresses["TON"] = {
-    address,
-    network: process.env.TON_NETWORK || "mainnet",
-    balance: 0,
-  };
-
-  const encryptedWalletData = encrypt(JSON.stringify(data));
-
-  const walletData = await models.walletData.findOne({
-    where: {
-      walletId: wallet.id,
-      currency: "TON",
-      chain: "TON",
-    },
-    transaction,
-  });
-
-  if (walletData) {
-    // Update the existing record
-    await walletData.update(
-      {
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  } else {
-    // Create a new record
-    await models.walletData.create(
-      {
-        walletId: wallet.id,
-        currency: "TON",
-        chain: "TON",
-        balance: 0,
-        data: encryptedWalletData,
-      },
-      { transaction }
-    );
-  }
-};
-
 const handleError = (message, throwIt = true) => {
   console.error(message);
   if (throwIt) {
@@ -723,39 +459,7 @@ export async function getGasPayer(chain, provider) {
 }
 
 export const validateAddress = (toAddress: string, chain: string) => {
-  if (chain === "SOL") {
-    // Solana address validation
-    try {
-      new PublicKey(toAddress);
-    } catch (error) {
-      throw new Error(`Invalid Solana address: ${toAddress}`);
-    }
-  } else if (chain === "TRON") {
-    // Tron address validation (should start with 'T')
-    if (!toAddress.startsWith("T")) {
-      throw new Error(`Invalid Tron address: ${toAddress}`);
-    }
-  } else if (chain === "XMR") {
-    // Monero address validation (starts with '4' or '8')
-    if (!toAddress.startsWith("4") && !toAddress.startsWith("8")) {
-      throw new Error(`Invalid Monero address: ${toAddress}`);
-    }
-  } else if (chain === "TON") {
-    try {
-      // Accept both raw and user-friendly TON addresses
-      const tonAddress = new TonWeb.utils.Address(toAddress);
-      if (!tonAddress || !tonAddress.toString()) {
-        throw new Error(`Invalid TON address: ${toAddress}`);
-      }
-    } catch (error) {
-      throw new Error(`Invalid TON address: ${toAddress}`);
-    }
-  } else {
-    // Ethereum address validation (via ethers.js)
-    if (!ethers.isAddress(toAddress)) {
-      throw new Error(`Invalid target wallet address: ${toAddress}`);
-    }
-  }
+  getChainAdapter(chain).validateAddress(chain, toAddress);
 };
 
 export const validateEcosystemBalances = async (
@@ -1168,24 +872,6 @@ export const handleEcosystemDeposit = async (trx) => {
       throw new Error("Transaction already processed");
     }
 
-    const wallet = await models.wallet.findOne({
-      where: { id: trx.id },
-    });
-
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
-
-    const addresses = JSON.parse(wallet.address as any);
-    const chainAddress = addresses[trx.chain];
-    if (!chainAddress) {
-      throw new Error("Address not found for the given chain");
-    }
-
-    chainAddress.balance = (chainAddress.balance || 0) + parseFloat(trx.amount);
-
-    const walletBalance = wallet.balance + parseFloat(trx.amount);
-
     // **Calculate the fee appropriately**
     let fee = 0;
     const utxoChains = ["BTC", "DOGE", "LTC", "DASH"];
@@ -1210,54 +896,99 @@ export const handleEcosystemDeposit = async (trx) => {
       }
     }
 
-    await models.wallet.update(
-      {
-        balance: walletBalance,
-        address: JSON.stringify(addresses) as any,
-      },
-      {
-        where: { id: wallet.id },
+    return await sequelize.transaction(async (t) => {
+      const wallet = await models.wallet.findOne({
+        where: { id: trx.id },
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
+
+      if (!wallet) {
+        throw new Error("Wallet not found");
       }
-    );
 
-    const createdTransaction = await models.transaction.create({
-      userId: wallet.userId,
-      walletId: wallet.id,
-      type: "DEPOSIT",
-      status: trx.status === "CONFIRMED" ? "COMPLETED" : trx.status,
-      amount: parseFloat(trx.amount),
-      description: `Deposit of ${trx.amount} ${wallet.currency} from ${trx.from}`,
-      referenceId: trx.hash,
-      fee: fee,
-      metadata: JSON.stringify({
-        chain: trx.chain,
-        currency: wallet.currency,
-        gasLimit: trx.gasLimit,
-        gasPrice: trx.gasPrice,
-        gasUsed: trx.gasUsed,
-      }),
-    });
+      const addresses = JSON.parse(wallet.address as any);
+      const chainAddress = addresses[trx.chain];
+      if (!chainAddress) {
+        throw new Error("Address not found for the given chain");
+      }
 
-    const updatedWallet = await models.wallet.findOne({
-      where: { id: wallet.id },
-    });
+      chainAddress.balance =
+        (chainAddress.balance || 0) + parseFloat(trx.amount);
 
-    await models.walletData.update(
-      {
-        balance: sequelize.literal(`balance + ${trx.amount}`),
-      },
-      {
-        where: {
+      const walletBalance = wallet.balance + parseFloat(trx.amount);
+
+      await models.wallet.update(
+        {
+          balance: walletBalance,
+          address: JSON.stringify(addresses) as any,
+        },
+        {
+          where: { id: wallet.id },
+          transaction: t,
+        }
+      );
+
+      const createdTransaction = await models.transaction.create(
+        {
+          userId: wallet.userId,
           walletId: wallet.id,
-          chain: trx.chain,
+          type: "DEPOSIT",
+          status: trx.status === "CONFIRMED" ? "COMPLETED" : trx.status,
+          amount: parseFloat(trx.amount),
+          description: `Deposit of ${trx.amount} ${wallet.currency} from ${trx.from}`,
+          referenceId: trx.hash,
+          fee: fee,
+          metadata: JSON.stringify({
+            chain: trx.chain,
+            currency: wallet.currency,
+            gasLimit: trx.gasLimit,
+            gasPrice: trx.gasPrice,
+            gasUsed: trx.gasUsed,
+          }),
         },
-      }
-    );
+        { transaction: t }
+      );
 
-    return {
-      transaction: createdTransaction,
-      wallet: updatedWallet,
-    };
+      await recordWalletChange(
+        {
+          id: wallet.id,
+          currency: wallet.currency,
+          balance: walletBalance,
+          inOrder: wallet.inOrder,
+        },
+        { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+        {
+          description: `Deposit on ${trx.chain}`,
+          referenceType: "transaction",
+          referenceId: createdTransaction.id,
+        },
+        t
+      );
+
+      await models.walletData.update(
+        {
+          balance: sequelize.literal(`balance + ${trx.amount}`),
+        },
+        {
+          where: {
+            walletId: wallet.id,
+            chain: trx.chain,
+          },
+          transaction: t,
+        }
+      );
+
+      const updatedWallet = await models.wallet.findOne({
+        where: { id: wallet.id },
+        transaction: t,
+      });
+
+      return {
+        transaction: createdTransaction,
+        wallet: updatedWallet,
+      };
+    });
   } catch (error) {
     logError("wallet", error, __filename);
     throw error;
@@ -1332,12 +1063,26 @@ const updateBalancePrecision = (balance, chain) => {
   return balance;
 };
 
-export const decrementWalletBalance = async (userWallet, chain, amount) => {
+export const decrementWalletBalance = async (
+  userWallet,
+  chain,
+  amount,
+  transaction: Transaction,
+  ledger: LedgerContext = {}
+) => {
   try {
-    let newBalance = userWallet.balance - amount;
+    const wallet = await models.wallet.findOne({
+      where: { id: userWallet.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!wallet) throw new Error("Wallet not found");
+
+    let newBalance = wallet.balance - amount;
     newBalance = updateBalancePrecision(newBalance, chain);
+    if (newBalance < 0) throw new Error("Insufficient funds");
 
-    const addresses = JSON.parse(userWallet.address);
+    const addresses = JSON.parse(wallet.address as any);
     if (addresses[chain]) {
       addresses[chain].balance = updateBalancePrecision(
         addresses[chain].balance - amount,
@@ -1355,9 +1100,22 @@ export const decrementWalletBalance = async (userWallet, chain, amount) => {
         address: JSON.stringify(addresses) as any,
       },
       {
-        where: { id: userWallet.id },
+        where: { id: wallet.id },
+        transaction,
       }
     );
+
+    await recordWalletChange(
+      {
+        id: wallet.id,
+        currency: wallet.currency,
+        balance: newBalance,
+        inOrder: wallet.inOrder,
+      },
+      { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+      ledger,
+      transaction
+    );
   } catch (error) {
     logError("wallet", error, __filename);
     throw error;
@@ -1372,25 +1130,29 @@ export async function createPendingTransaction(
   amount,
   toAddress,
   withdrawalFee,
-  token
+  token,
+  transaction?: Transaction
 ) {
   try {
-    return await models.transaction.create({
-      userId: userId,
-      walletId: walletId,
-      type: "WITHDRAW",
-      status: "PENDING",
-      amount: amount,
-      fee: withdrawalFee,
-      description: `Pending withdrawal of ${amount} ${currency} to ${toAddress}`,
-      metadata: JSON.stringify({
-        toAddress: toAddress,
-        chain: chain,
-        contractType: token.contractType,
-        contract: token.contract,
-        decimals: token.decimals,
-      }),
-    });
+    return await models.transaction.create(
+      {
+        userId: userId,
+        walletId: walletId,
+        type: "WITHDRAW",
+        status: "PENDING",
+        amount: amount,
+        fee: withdrawalFee,
+        description: `Pending withdrawal of ${amount} ${currency} to ${toAddress}`,
+        metadata: JSON.stringify({
+          toAddress: toAddress,
+          chain: chain,
+          contractType: token.contractType,
+          contract: token.contract,
+          decimals: token.decimals,
+        }),
+      },
+      { transaction }
+    );
   } catch (error) {
     logError("transaction", error, __filename);
     throw error;
@@ -1399,41 +1161,63 @@ export async function createPendingTransaction(
 
 export const refundUser = async (transaction) => {
   try {
-    await models.transaction.update(
-      {
-        status: "FAILED",
-        description: `Refund of ${transaction.amount}`,
-      },
-      {
-        where: { id: transaction.id },
-      }
-    );
-
-    const wallet = await models.wallet.findOne({
-      where: { id: transaction.walletId },
-    });
+    await sequelize.transaction(async (t) => {
+      await models.transaction.update(
+        {
+          status: "FAILED",
+          description: `Refund of ${transaction.amount}`,
+        },
+        {
+          where: { id: transaction.id },
+          transaction: t,
+        }
+      );
 
-    if (!wallet) {
-      throw new Error("Wallet not found");
-    }
+      const wallet = await models.wallet.findOne({
+        where: { id: transaction.walletId },
+        transaction: t,
+        lock: t.LOCK.UPDATE,
+      });
 
-    const metadata = JSON.parse(transaction.metadata);
-    const addresses = JSON.parse(wallet.address as any);
-    const amount = transaction.amount + transaction.fee;
-    if (metadata?.chain && addresses[metadata?.chain]) {
-      addresses[metadata?.chain].balance += amount;
-    }
-    const walletBalance = wallet.balance + amount;
+      if (!wallet) {
+        throw new Error("Wallet not found");
+      }
 
-    await models.wallet.update(
-      {
-        balance: walletBalance,
-        address: JSON.stringify(addresses) as any,
-      },
-      {
-        where: { id: wallet.id },
+      const metadata = JSON.parse(transaction.metadata);
+      const addresses = JSON.parse(wallet.address as any);
+      const amount = transaction.amount + transaction.fee;
+      if (metadata?.chain && addresses[metadata?.chain]) {
+        addresses[metadata?.chain].balance += amount;
       }
-    );
+      const walletBalance = wallet.balance + amount;
+
+      await models.wallet.update(
+        {
+          balance: walletBalance,
+          address: JSON.stringify(addresses) as any,
+        },
+        {
+          where: { id: wallet.id },
+          transaction: t,
+        }
+      );
+
+      await recordWalletChange(
+        {
+          id: wallet.id,
+          currency: wallet.currency,
+          balance: walletBalance,
+          inOrder: wallet.inOrder,
+        },
+        { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+        {
+          description: "Refund of a failed withdrawal",
+          referenceType: "transaction",
+          referenceId: transaction.id,
+        },
+        t
+      );
+    });
   } catch (error) {
     logError("wallet", error, __filename);
     throw error;
@@ -1475,10 +1259,27 @@ export const updateAlternativeWallet = async (currency, chain, amount) => {
   }
 };
 
+// Orders hold their funds in escrow from placement until they fill or are
+// refunded
+export const orderLedgerContext = (
+  orderId: string,
+  description: string
+): LedgerContext => ({
+  account: "ORDER_ESCROW",
+  description,
+  referenceType: "ecosystemOrder",
+  referenceId: orderId,
+});
+
+/**
+ * Adds to or subtracts from the balance of a wallet and journals the change
+ * against the account of the ledger context in the same transaction.
+ */
 export async function updateWalletBalance(
   wallet: walletAttributes,
   balanceChange: number,
-  type: "add" | "subtract"
+  type: "add" | "subtract",
+  ledger: LedgerContext = {}
 ): Promise<void> {
   try {
     if (!wallet) throw new Error("Wallet not found");
@@ -1502,14 +1303,29 @@ export async function updateWalletBalance(
         throw new Error("Invalid type specified for updating wallet balance.");
     }
 
-    await models.wallet.update(
-      {
-        balance: newBalance,
-      },
-      {
-        where: { id: wallet.id },
-      }
-    );
+    await sequelize.transaction(async (transaction) => {
+      await models.wallet.update(
+        {
+          balance: newBalance,
+        },
+        {
+          where: { id: wallet.id },
+          transaction,
+        }
+      );
+
+      await recordWalletChange(
+        {
+          id: wallet.id,
+          currency: wallet.currency,
+          balance: newBalance,
+          inOrder: wallet.inOrder,
+        },
+        { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+        ledger,
+        transaction
+      );
+    });
   } catch (error) {
     logError("wallet", error, __filename);
     throw error;
@@ -0,0 +1,356 @@
+import { hostname } from "os";
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { refundUser } from "@b/utils/eco/wallet";
+import { getChainAdapter } from "./adapters";
+import WithdrawalQueue, {
+  getWithdrawalIdempotencyKey,
+} from "./withdrawalQueue";
+
+jest.mock("@b/db", () => ({
+  models: {
+    ecosystemWithdrawalJob: {
+      findOrCreate: jest.fn(),
+      findAll: jest.fn(),
+      findOne: jest.fn(),
+      findByPk: jest.fn(),
+      update: jest.fn(),
+    },
+    transaction: { findOne: jest.fn(), findByPk: jest.fn(), update: jest.fn() },
+    user: { findOne: jest.fn() },
+    wallet: { findOne: jest.fn() },
+    adminProfit: { create: jest.fn() },
+  },
+  sequelize: {
+    literal: (value: string) => ({ literal: value }),
+    transaction: async (callback) => callback({}),
+  },
+}));
+
+jest.mock("@b/utils/eco/wallet", () => ({ refundUser: jest.fn() }));
+
+jest.mock("@b/utils/emails", () => ({ emailQueue: { add: jest.fn() } }));
+
+jest.mock("@b/utils/notifications", () => ({ handleNotification: jest.fn() }));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+jest.mock("./adapters", () => ({ getChainAdapter: jest.fn() }));
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const MINUTE = 60 * 1000;
+
+const queue = WithdrawalQueue.getInstance();
+const adapter = {
+  ensureAvailable: jest.fn(),
+  withdraw: jest.fn(),
+};
+
+// In-memory tables behind the model mocks, applying conditional updates the
+// way the database does
+let jobs: Record<string, any>;
+let transactions: Record<string, any>;
+
+function matches(row: any, where: Record<string | symbol, any>) {
+  return Object.entries(where).every(([key, condition]) => {
+    if (
+      condition &&
+      typeof condition === "object" &&
+      !(condition instanceof Date)
+    ) {
+      if (Op.in in condition) return condition[Op.in].includes(row[key]);
+      if (Op.lt in condition) return row[key] < condition[Op.lt];
+      if (Op.lte in condition) return row[key] <= condition[Op.lte];
+    }
+    return row[key] === condition;
+  });
+}
+
+function updateRows(table: Record<string, any>) {
+  return async (values: Record<string, any>, { where }) => {
+    const rows = Object.values(table).filter((row) => matches(row, where));
+    for (const row of rows) {
+      for (const [key, value] of Object.entries(values)) {
+        row[key] = value?.literal === "attempts + 1" ? row.attempts + 1 : value;
+      }
+    }
+    return [rows.length];
+  };
+}
+
+function addJob(overrides: Record<string, any> = {}): Record<string, any> {
+  const job = {
+    id: `job-${Object.keys(jobs).length + 1}`,
+    transactionId: "tx-1",
+    status: "PENDING",
+    attempts: 0,
+    maxAttempts: 3,
+    nextAttemptAt: new Date(Date.now() - 1000),
+    lockedBy: null,
+    lockedAt: null,
+    ...overrides,
+  };
+  jobs[job.id] = job;
+  return job;
+}
+
+function addTransaction(overrides: Record<string, any> = {}) {
+  const transaction = {
+    id: "tx-1",
+    userId: "user-1",
+    status: "PENDING",
+    amount: 1,
+    fee: 0,
+    metadata: JSON.stringify({ chain: "ETH", toAddress: "0xabc" }),
+    wallet: { currency: "ETH" },
+    ...overrides,
+  };
+  transactions[transaction.id] = transaction;
+  return transaction;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers().setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  jobs = {};
+  transactions = {};
+
+  const { ecosystemWithdrawalJob: job, transaction } = models as any;
+  job.findOrCreate.mockImplementation(async ({ where, defaults }) => {
+    const existing = Object.values(jobs).find((row) => matches(row, where));
+    return existing ? [existing, false] : [addJob(defaults), true];
+  });
+  job.findAll.mockImplementation(async ({ where }) =>
+    Object.values(jobs)
+      .filter((row) => matches(row, where))
+      .map((row) => ({ ...row }))
+  );
+  job.findOne.mockResolvedValue(null);
+  job.findByPk.mockImplementation(async (id) => jobs[id] && { ...jobs[id] });
+  job.update.mockImplementation(updateRows(jobs));
+  transaction.findOne.mockImplementation(
+    async ({ where }) => transactions[where.id] && { ...transactions[where.id] }
+  );
+  transaction.findByPk.mockImplementation(
+    async (id) => transactions[id] && { ...transactions[id] }
+  );
+  transaction.update.mockImplementation(updateRows(transactions));
+
+  (getChainAdapter as jest.Mock).mockReturnValue(adapter);
+  adapter.ensureAvailable.mockResolvedValue(undefined);
+  adapter.withdraw.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe("addTransaction", () => {
+  it("enqueues a transaction once under its idempotency key", async () => {
+    const processNext = jest
+      .spyOn(queue, "processNext")
+      .mockResolvedValue(undefined);
+
+    await queue.addTransaction("tx-1");
+    await queue.addTransaction("tx-1");
+    processNext.mockRestore();
+
+    expect(Object.values(jobs)).toEqual([
+      expect.objectContaining({
+        transactionId: "tx-1",
+        idempotencyKey: getWithdrawalIdempotencyKey("tx-1"),
+      }),
+    ]);
+    expect(getWithdrawalIdempotencyKey("tx-1")).toBe("eco-withdraw:tx-1");
+  });
+});
+
+describe("processNext", () => {
+  it("claims a job, broadcasts it and completes it", async () => {
+    const job = addJob();
+    addTransaction();
+
+    await queue.processNext();
+
+    expect(adapter.withdraw).toHaveBeenCalledTimes(1);
+    expect(job).toMatchObject({
+      status: "COMPLETED",
+      attempts: 1,
+      lockedBy: null,
+      broadcastAt: expect.any(Date),
+    });
+    expect(transactions["tx-1"].status).toBe("COMPLETED");
+  });
+
+  it("skips a job another worker claimed first", async () => {
+    const taken = addJob({ transactionId: "tx-taken" });
+    const job = addJob();
+    addTransaction();
+    // Both look pending when listed, but the first is claimed in between
+    (models.ecosystemWithdrawalJob.findAll as jest.Mock).mockImplementationOnce(
+      async () => {
+        const listed = [{ ...taken }, { ...job }];
+        Object.assign(taken, { status: "PROCESSING", lockedBy: "other" });
+        return listed;
+      }
+    );
+
+    await queue.processNext();
+
+    expect(taken).toMatchObject({ status: "PROCESSING", lockedBy: "other" });
+    expect(job.status).toBe("COMPLETED");
+    expect(adapter.withdraw).toHaveBeenCalledTimes(1);
+    expect(adapter.withdraw.mock.calls[0][0].id).toBe("tx-1");
+  });
+
+  it("backs off and retries a job that fails before the broadcast", async () => {
+    const job = addJob();
+    addTransaction();
+    adapter.ensureAvailable.mockRejectedValue(new Error("RPC unreachable"));
+
+    await queue.processNext();
+
+    expect(job).toMatchObject({
+      status: "PENDING",
+      attempts: 1,
+      lockedBy: null,
+      lastError: "RPC unreachable",
+      nextAttemptAt: new Date(Date.now() + 30 * 1000),
+    });
+    expect(adapter.withdraw).not.toHaveBeenCalled();
+    expect(transactions["tx-1"].status).toBe("PENDING");
+  });
+
+  it("fails and refunds a job out of attempts before the broadcast", async () => {
+    const job = addJob({ attempts: 2 });
+    addTransaction();
+    adapter.ensureAvailable.mockRejectedValue(new Error("RPC unreachable"));
+
+    await queue.processNext();
+
+    expect(job).toMatchObject({ status: "FAILED", attempts: 3 });
+    expect(transactions["tx-1"].status).toBe("FAILED");
+    expect(refundUser).toHaveBeenCalledTimes(1);
+    expect(refundUser).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "tx-1" })
+    );
+  });
+
+  it("dead-letters a job that fails during the broadcast", async () => {
+    const job = addJob();
+    addTransaction();
+    adapter.withdraw.mockRejectedValue(new Error("nonce too low"));
+
+    await queue.processNext();
+
+    expect(job).toMatchObject({
+      status: "DEAD",
+      lockedBy: null,
+      lastError: expect.stringContaining("nonce too low"),
+    });
+    // The withdrawal may be on chain, so nothing is refunded
+    expect(transactions["tx-1"].status).toBe("PROCESSING");
+    expect(refundUser).not.toHaveBeenCalled();
+  });
+
+  it("backs off without broadcasting when its lock was lost", async () => {
+    const job = addJob();
+    addTransaction();
+    // The claim timed out while the chain was checked and another worker
+    // took the job
+    adapter.ensureAvailable.mockImplementation(async () => {
+      job.lockedBy = "other";
+    });
+
+    await queue.processNext();
+
+    expect(adapter.withdraw).not.toHaveBeenCalled();
+    expect(job).toMatchObject({ status: "PROCESSING", lockedBy: "other" });
+    expect(transactions["tx-1"].status).toBe("PENDING");
+  });
+
+  it("mirrors a transaction settled outside of the job", async () => {
+    const job = addJob();
+    addTransaction({ status: "REJECTED" });
+
+    await queue.processNext();
+
+    expect(job).toMatchObject({
+      status: "FAILED",
+      lastError: "Transaction is already rejected",
+    });
+    expect(adapter.withdraw).not.toHaveBeenCalled();
+  });
+});
+
+describe("recoverStaleJobs", () => {
+  it("retries stale claims and dead-letters stale broadcasts", async () => {
+    const lockedAt = (minutes: number) =>
+      new Date(Date.now() - minutes * MINUTE);
+    const staleClaim = addJob({
+      status: "PROCESSING",
+      lockedBy: WORKER_ID,
+      lockedAt: lockedAt(6),
+    });
+    const freshClaim = addJob({
+      status: "PROCESSING",
+      lockedBy: WORKER_ID,
+      lockedAt: lockedAt(4),
+    });
+    const staleBroadcast = addJob({
+      status: "BROADCASTING",
+      lockedBy: WORKER_ID,
+      lockedAt: lockedAt(31),
+    });
+    const freshBroadcast = addJob({
+      status: "BROADCASTING",
+      lockedBy: WORKER_ID,
+      lockedAt: lockedAt(29),
+    });
+
+    await queue.recoverStaleJobs();
+
+    expect(staleClaim).toMatchObject({ status: "PENDING", lockedBy: null });
+    expect(freshClaim.status).toBe("PROCESSING");
+    expect(staleBroadcast).toMatchObject({
+      status: "DEAD",
+      lockedBy: null,
+      lastError: expect.stringContaining("verify the chain"),
+    });
+    expect(freshBroadcast.status).toBe("BROADCASTING");
+  });
+});
+
+describe("requeueJob", () => {
+  it("puts a dead-lettered job back with fresh attempts", async () => {
+    const processNext = jest
+      .spyOn(queue, "processNext")
+      .mockResolvedValue(undefined);
+    const job = addJob({ status: "DEAD", attempts: 3, lastError: "failed" });
+    addTransaction({ status: "PROCESSING" });
+
+    await queue.requeueJob(job.id);
+    processNext.mockRestore();
+
+    expect(job).toMatchObject({
+      status: "PENDING",
+      attempts: 0,
+      broadcastAt: null,
+      lastError: null,
+    });
+    expect(transactions["tx-1"].status).toBe("PENDING");
+  });
+
+  it("only requeues dead-lettered jobs", async () => {
+    const job = addJob({ status: "BROADCASTING" });
+
+    await expect(queue.requeueJob(job.id)).rejects.toThrow(
+      "Only dead-lettered jobs can be requeued"
+    );
+    await expect(queue.requeueJob("missing")).rejects.toThrow(
+      "Withdrawal job not found"
+    );
+    expect(job.status).toBe("BROADCASTING");
+  });
+});
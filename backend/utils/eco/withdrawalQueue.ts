@@ -1,19 +1,44 @@
-import { models } from "@b/db";
-import { handleUTXOWithdrawal } from "@b/utils/eco/utxo";
+import { hostname } from "os";
+import { Op } from "sequelize";
+import { models, sequelize } from "@b/db";
 import { handleNotification } from "@b/utils/notifications";
-import SolanaService from "@b/blockchains/sol";
 import { refundUser } from "@b/utils/eco/wallet";
 import { emailQueue } from "@b/utils/emails";
-import { handleEvmWithdrawal } from "./withdraw";
-import TronService from "@b/blockchains/tron";
-import MoneroService from "@b/blockchains/xmr";
-import TonService from "@b/blockchains/ton";
-
+import { logError } from "@b/utils/logger";
+import { getChainAdapter } from "./adapters";
+
+// Identifies this process in the job locks so several workers can share the table
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+// A claimed job whose worker went silent this long is handed back to the queue
+const CLAIM_TIMEOUT = 5 * 60 * 1000;
+// Chain handlers wait for confirmations, so broadcasts get longer to finish
+const BROADCAST_TIMEOUT = 30 * 60 * 1000;
+// Retries back off from 30 seconds, doubling up to 30 minutes
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+export const getWithdrawalIdempotencyKey = (transactionId: string) =>
+  `eco-withdraw:${transactionId}`;
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY);
+
+/**
+ * Persistent queue of ecosystem withdrawals. Jobs live in the
+ * ecosystem_withdrawal_job table and are claimed with conditional updates, so
+ * any number of workers can process them and a restart loses nothing.
+ *
+ * A job only moves to BROADCASTING right before the chain handler is called.
+ * Failures before that point are retried with backoff; failures after it are
+ * dead-lettered for an admin, because the withdrawal may already be on chain
+ * and retrying could send it twice.
+ */
 class WithdrawalQueue {
   private static instance: WithdrawalQueue;
-  private queue: string[] = [];
   private isProcessing: boolean = false;
-  private processingTransactions: Set<string> = new Set();
+  private wakeRequested: boolean = false;
+  private wakeTimer: NodeJS.Timeout | null = null;
 
   private constructor() {}
 
@@ -24,154 +49,341 @@ class WithdrawalQueue {
     return WithdrawalQueue.instance;
   }
 
-  public addTransaction(transactionId: string) {
-    if (this.processingTransactions.has(transactionId)) {
-      // Transaction is already being processed
+  /**
+   * Enqueues a withdrawal transaction. Enqueuing the same transaction again is
+   * a no-op thanks to its idempotency key.
+   */
+  public async addTransaction(transactionId: string) {
+    const idempotencyKey = getWithdrawalIdempotencyKey(transactionId);
+    await models.ecosystemWithdrawalJob.findOrCreate({
+      where: { idempotencyKey },
+      defaults: { transactionId, idempotencyKey },
+    });
+    this.processNext();
+  }
+
+  public async processNext() {
+    if (this.isProcessing) {
+      this.wakeRequested = true;
       return;
     }
-    if (!this.queue.includes(transactionId)) {
-      this.queue.push(transactionId);
-      this.processNext();
+
+    this.isProcessing = true;
+    try {
+      let job = await this.claimNextJob();
+      while (job) {
+        await this.runJob(job);
+        job = await this.claimNextJob();
+      }
+    } catch (error) {
+      logError("withdrawal_queue", error, __filename);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    if (this.wakeRequested) {
+      this.wakeRequested = false;
+      setImmediate(() => this.processNext());
+    } else {
+      await this.scheduleWake();
     }
   }
 
-  private async processNext() {
-    if (this.isProcessing || this.queue.length === 0) {
-      return;
+  // Wakes the worker up when the next retry becomes due
+  private async scheduleWake() {
+    const next = await models.ecosystemWithdrawalJob.findOne({
+      where: { status: "PENDING" },
+      order: [["nextAttemptAt", "ASC"]],
+      attributes: ["nextAttemptAt"],
+    });
+    if (!next) return;
+
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+    const delay = Math.max(
+      new Date(next.nextAttemptAt).getTime() - Date.now(),
+      1000
+    );
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.processNext();
+    }, delay);
+  }
+
+  private async claimNextJob() {
+    const candidates = await models.ecosystemWithdrawalJob.findAll({
+      where: { status: "PENDING", nextAttemptAt: { [Op.lte]: new Date() } },
+      order: [["nextAttemptAt", "ASC"]],
+      limit: 10,
+    });
+
+    for (const candidate of candidates) {
+      // Only one worker can flip a job out of PENDING
+      const [claimed] = await models.ecosystemWithdrawalJob.update(
+        {
+          status: "PROCESSING",
+          lockedBy: WORKER_ID,
+          lockedAt: new Date(),
+          attempts: sequelize.literal("attempts + 1"),
+        },
+        { where: { id: candidate.id, status: "PENDING" } }
+      );
+      if (claimed === 1) {
+        return models.ecosystemWithdrawalJob.findByPk(candidate.id);
+      }
     }
 
-    this.isProcessing = true;
-    const transactionId = this.queue.shift();
+    return null;
+  }
 
-    if (transactionId) {
-      try {
-        this.processingTransactions.add(transactionId);
-
-        // Fetch the transaction from the database
-        const transaction = await models.transaction.findOne({
-          where: { id: transactionId },
-          include: [
-            {
-              model: models.wallet,
-              as: "wallet",
-              where: { type: "ECO" },
-            },
-          ],
-        });
+  // Updates a job this worker holds, returning false if the lock was lost
+  private async updateOwnedJob(
+    job: ecosystemWithdrawalJobAttributes,
+    status: ecosystemWithdrawalJobAttributes["status"],
+    values: Record<string, any>
+  ): Promise<boolean> {
+    const [updated] = await models.ecosystemWithdrawalJob.update(
+      { status, ...values },
+      { where: { id: job.id, status: job.status, lockedBy: WORKER_ID } }
+    );
+    if (updated === 1) job.status = status;
+    return updated === 1;
+  }
 
-        if (!transaction) {
-          console.error(`Transaction ${transactionId} not found.`);
-          throw new Error("Transaction not found");
-        }
+  private async runJob(job: ecosystemWithdrawalJobAttributes) {
+    let broadcasting = false;
+
+    try {
+      const transaction = await models.transaction.findOne({
+        where: { id: job.transactionId },
+        include: [
+          {
+            model: models.wallet,
+            as: "wallet",
+            where: { type: "ECO" },
+          },
+        ],
+      });
 
-        if (!transaction.wallet) {
-          console.error(`Wallet not found for transaction ${transactionId}`);
-          throw new Error("Wallet not found for transaction");
-        }
+      if (!transaction || !transaction.wallet) {
+        throw new Error("Transaction or its ECO wallet not found");
+      }
 
-        // Update transaction status to 'PROCESSING' to prevent duplicate processing
-        const [updatedCount] = await models.transaction.update(
-          { status: "PROCESSING" },
-          { where: { id: transactionId, status: "PENDING" } }
-        );
+      if (transaction.status !== "PENDING") {
+        await this.settleHandledJob(job, transaction.status);
+        return;
+      }
 
-        if (updatedCount === 0) {
-          throw new Error("Transaction already processed or in process");
-        }
+      const metadata =
+        typeof transaction.metadata === "string"
+          ? JSON.parse(transaction.metadata)
+          : transaction.metadata;
 
-        const metadata =
-          typeof transaction.metadata === "string"
-            ? JSON.parse(transaction.metadata)
-            : transaction.metadata;
+      if (!metadata || !metadata.chain) {
+        throw new Error("Invalid or missing chain in transaction metadata");
+      }
 
-        if (!metadata || !metadata.chain) {
-          throw new Error("Invalid or missing chain in transaction metadata");
-        }
+      await this.checkChainAvailable(metadata.chain);
 
-        // Process withdrawal based on the blockchain chain type
-        await this.processWithdrawal(transaction, metadata);
+      const [updatedCount] = await models.transaction.update(
+        { status: "PROCESSING" },
+        { where: { id: transaction.id, status: "PENDING" } }
+      );
+      if (updatedCount === 0) {
+        throw new Error("Transaction already processed or in process");
+      }
 
-        // Send email to the user
-        await this.sendWithdrawalConfirmationEmail(transaction, metadata);
+      // Past this point the withdrawal may reach the chain and is never
+      // retried automatically
+      const marked = await this.updateOwnedJob(job, "BROADCASTING", {
+        broadcastAt: new Date(),
+        lockedAt: new Date(),
+      });
+      if (!marked) {
+        await models.transaction.update(
+          { status: "PENDING" },
+          { where: { id: transaction.id, status: "PROCESSING" } }
+        );
+        return;
+      }
+      broadcasting = true;
+
+      await this.processWithdrawal(transaction, metadata);
+      await this.updateOwnedJob(job, "COMPLETED", {
+        lockedBy: null,
+        lockedAt: null,
+        lastError: null,
+      });
 
-        // Record admin profit if a fee is associated with the transaction
+      try {
+        await this.sendWithdrawalConfirmationEmail(transaction, metadata);
         await this.recordAdminProfit(transaction, metadata);
       } catch (error) {
-        console.error(
-          `Failed to process transaction ${transactionId}: ${error.message}`
-        );
-
-        // Mark transaction as 'FAILED' and attempt to refund the user
-        await this.markTransactionFailed(transactionId, error.message);
+        logError("withdrawal_queue", error, __filename);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to process withdrawal job ${job.id}: ${error.message}`
+      );
 
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      } finally {
-        this.processingTransactions.delete(transactionId);
-        this.isProcessing = false;
-        setImmediate(() => this.processNext()); // Process the next transaction
+      if (broadcasting) {
+        await this.updateOwnedJob(job, "DEAD", {
+          lockedBy: null,
+          lockedAt: null,
+          lastError: `Failed during broadcast, verify the chain before requeueing: ${error.message}`,
+        });
+      } else {
+        await this.retryOrFail(job, error.message);
       }
+    }
+  }
+
+  // Mirrors a transaction that was settled outside of this job
+  private async settleHandledJob(
+    job: ecosystemWithdrawalJobAttributes,
+    status: string
+  ) {
+    const unlock = { lockedBy: null, lockedAt: null };
+    if (status === "COMPLETED") {
+      await this.updateOwnedJob(job, "COMPLETED", unlock);
+    } else if (["FAILED", "REJECTED", "EXPIRED"].includes(status)) {
+      await this.updateOwnedJob(job, "FAILED", {
+        ...unlock,
+        lastError: `Transaction is already ${status.toLowerCase()}`,
+      });
     } else {
-      this.isProcessing = false;
+      await this.updateOwnedJob(job, "DEAD", {
+        ...unlock,
+        lastError: `Transaction was left ${status.toLowerCase()} by a previous run, verify the chain before requeueing`,
+      });
     }
   }
 
-  private async processWithdrawal(transaction: any, metadata: any) {
-    if (["BTC", "LTC", "DOGE", "DASH"].includes(metadata.chain)) {
-      await handleUTXOWithdrawal(transaction);
-    } else if (metadata.chain === "SOL") {
-      const solanaService = await SolanaService.getInstance();
-      if (metadata.contractType === "PERMIT") {
-        await solanaService.handleSplTokenWithdrawal(
-          transaction.id,
-          transaction.walletId,
-          metadata.contract,
-          transaction.amount,
-          metadata.toAddress,
-          metadata.decimals
-        );
-      } else {
-        await solanaService.handleSolanaWithdrawal(
-          transaction.id,
-          transaction.walletId,
-          transaction.amount,
-          metadata.toAddress
-        );
+  private async retryOrFail(
+    job: ecosystemWithdrawalJobAttributes,
+    errorMessage: string
+  ) {
+    if (job.attempts < job.maxAttempts) {
+      await this.updateOwnedJob(job, "PENDING", {
+        lockedBy: null,
+        lockedAt: null,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+        lastError: errorMessage,
+      });
+      return;
+    }
+
+    // Nothing was broadcast, so the user can safely be refunded
+    const failed = await this.updateOwnedJob(job, "FAILED", {
+      lockedBy: null,
+      lockedAt: null,
+      lastError: errorMessage,
+    });
+    if (failed) {
+      await this.markTransactionFailed(job.transactionId, errorMessage);
+    }
+  }
+
+  // Fails fast on an unreachable chain so the attempt can be retried safely
+  private async checkChainAvailable(chain: string) {
+    await getChainAdapter(chain).ensureAvailable(chain);
+  }
+
+  /**
+   * Hands stale jobs back after a crash. Jobs claimed but never broadcast are
+   * retried, jobs stuck mid-broadcast are dead-lettered.
+   */
+  public async recoverStaleJobs() {
+    const now = Date.now();
+
+    await models.ecosystemWithdrawalJob.update(
+      { status: "PENDING", lockedBy: null, lockedAt: null },
+      {
+        where: {
+          status: "PROCESSING",
+          lockedAt: { [Op.lt]: new Date(now - CLAIM_TIMEOUT) },
+        },
       }
-    } else if (metadata.chain === "TRON") {
-      const tronService = await TronService.getInstance();
-      await tronService.handleTronWithdrawal(
-        transaction.id,
-        transaction.walletId,
-        transaction.amount,
-        metadata.toAddress
-      );
-    } else if (metadata.chain === "XMR") {
-      const moneroService = await MoneroService.getInstance();
-      await moneroService.handleMoneroWithdrawal(
-        transaction.id,
-        transaction.walletId,
-        transaction.amount,
-        metadata.toAddress
-      );
-    } else if (metadata.chain === "TON") {
-      const tonService = await TonService.getInstance();
-
-      await tonService.handleTonWithdrawal(
-        transaction.id,
-        transaction.walletId,
-        transaction.amount,
-        metadata.toAddress
+    );
+
+    await models.ecosystemWithdrawalJob.update(
+      {
+        status: "DEAD",
+        lockedBy: null,
+        lockedAt: null,
+        lastError:
+          "Worker stopped during the broadcast, verify the chain before requeueing",
+      },
+      {
+        where: {
+          status: "BROADCASTING",
+          lockedAt: { [Op.lt]: new Date(now - BROADCAST_TIMEOUT) },
+        },
+      }
+    );
+  }
+
+  /**
+   * Puts a dead-lettered job back in the queue. Only do this once the chain
+   * shows the withdrawal was not sent.
+   */
+  public async requeueJob(id: string) {
+    const job = await models.ecosystemWithdrawalJob.findByPk(id);
+    if (!job) throw new Error("Withdrawal job not found");
+    if (job.status !== "DEAD") {
+      throw new Error("Only dead-lettered jobs can be requeued");
+    }
+
+    await sequelize.transaction(async (t) => {
+      const [updated] = await models.ecosystemWithdrawalJob.update(
+        {
+          status: "PENDING",
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          broadcastAt: null,
+          lastError: null,
+        },
+        { where: { id, status: "DEAD" }, transaction: t }
       );
-    } else {
-      await handleEvmWithdrawal(
-        transaction.id,
-        transaction.walletId,
-        metadata.chain,
-        transaction.amount,
-        metadata.toAddress
+      if (updated === 0) {
+        throw new Error("Only dead-lettered jobs can be requeued");
+      }
+      await models.transaction.update(
+        { status: "PENDING" },
+        {
+          where: { id: job.transactionId, status: "PROCESSING" },
+          transaction: t,
+        }
       );
+    });
+
+    this.processNext();
+  }
+
+  /**
+   * Fails a job that is waiting for a retry or dead-lettered, and refunds the
+   * user. Only fail a dead-lettered job once the chain shows it was not sent.
+   */
+  public async failJob(id: string, reason: string) {
+    const [updated] = await models.ecosystemWithdrawalJob.update(
+      {
+        status: "FAILED",
+        lockedBy: null,
+        lockedAt: null,
+        lastError: reason,
+      },
+      { where: { id, status: { [Op.in]: ["PENDING", "DEAD"] } } }
+    );
+    if (updated === 0) {
+      throw new Error("Only queued or dead-lettered jobs can be failed");
     }
 
+    const job = await models.ecosystemWithdrawalJob.findByPk(id);
+    await this.markTransactionFailed(job.transactionId, reason);
+  }
+
+  private async processWithdrawal(transaction: any, metadata: any) {
+    await getChainAdapter(metadata.chain).withdraw(transaction, metadata);
+
     // Mark the transaction as completed after successful processing
     await models.transaction.update(
       { status: "COMPLETED" },
@@ -227,13 +439,20 @@ class WithdrawalQueue {
     transactionId: string,
     errorMessage: string
   ) {
-    await models.transaction.update(
+    // Only a transaction that is still open is failed, so a refund happens once
+    const [updatedCount] = await models.transaction.update(
       {
         status: "FAILED",
         description: `Transaction failed: ${errorMessage}`,
       },
-      { where: { id: transactionId } }
+      {
+        where: {
+          id: transactionId,
+          status: { [Op.in]: ["PENDING", "PROCESSING"] },
+        },
+      }
     );
+    if (updatedCount === 0) return;
 
     const transaction = await models.transaction.findByPk(transactionId, {
       include: [{ model: models.wallet, as: "wallet", where: { type: "ECO" } }],
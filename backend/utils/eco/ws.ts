@@ -2,6 +2,8 @@ import { startOfMinute, startOfHour, startOfDay, startOfWeek } from "date-fns";
 import { RedisSingleton } from "../redis";
 import { sendMessageToRoute } from "@b/handler/Websocket";
 import { fromBigInt, fromWei } from "./blockchain";
+import type { TriggerOrder } from "./scylla/queries";
+import { formatTriggerOrder } from "./triggerOrders";
 
 const redis = RedisSingleton.getInstance();
 const setAsync = (key: string, value: string) => redis.set(key, value);
@@ -68,6 +70,32 @@ export async function handleOrderBroadcast(order) {
   );
 }
 
+export async function handleOrderRejectionBroadcast(
+  userId: string,
+  order: Record<string, any>,
+  reason: string
+) {
+  sendMessageToRoute(
+    `/api/ext/ecosystem/order`,
+    { type: "orders", userId },
+    {
+      stream: "orders",
+      data: [{ ...order, userId, status: "REJECTED", reason }],
+    }
+  );
+}
+
+export async function handleTriggerOrderBroadcast(triggerOrder: TriggerOrder) {
+  sendMessageToRoute(
+    `/api/ext/ecosystem/order`,
+    { type: "orders", userId: triggerOrder.userId },
+    {
+      stream: "triggerOrders",
+      data: [formatTriggerOrder(triggerOrder)],
+    }
+  );
+}
+
 export async function handleTradesBroadcast(symbol: string, trades: any) {
   sendMessageToRoute(
     `/api/ext/ecosystem/market`,
@@ -6,6 +6,7 @@ import {
   sendEmailWithProvider,
 } from "./mailer";
 import { format } from "date-fns";
+import { isEmailSuppressed } from "./mailwizard";
 const APP_EMAILER = process.env.APP_EMAILER || "nodemailer-service";
 
 export const emailQueue = new Bull("emailQueue", {
@@ -491,29 +492,36 @@ export async function sendOrderConfirmationEmail(user, order, product) {
 }
 
 /**
- * Send an email to a specific target with a provided HTML template.
+ * Send a marketing email to a specific target with a provided HTML template.
+ * Addresses on the Mailwizard suppression list are skipped.
  *
  * @param {string} to - The email address of the target recipient.
  * @param {string} subject - The subject of the email.
  * @param {string} html - The HTML content to be sent.
- * @returns {Promise<void>} - The result of the email sending operation.
+ * @param {Record<string, string>} headers - Extra headers, such as List-Unsubscribe.
+ * @returns {Promise<boolean>} - False when the address is suppressed.
  */
 export async function sendEmailToTargetWithTemplate(
   to: string,
   subject: string,
-  html: string
-): Promise<void> {
+  html: string,
+  headers?: Record<string, string>
+): Promise<boolean> {
+  if (await isEmailSuppressed(to)) return false;
+
   // Options for the email.
   const options: EmailOptions = {
     to,
     subject,
     html,
+    headers,
   };
 
   // Select the email provider.
   const emailer = APP_EMAILER;
 
   await sendEmailWithProvider(emailer, options);
+  return true;
 }
 
 export async function sendKycEmail(user: any, kyc: any, type: string) {
@@ -0,0 +1,264 @@
+import * as ccxt from "ccxt";
+import { models } from "@b/db";
+import { RedisSingleton } from "@b/utils/redis";
+import ExchangeManager from "./exchange";
+
+jest.mock("@b/db", () => ({ models: { exchange: { findAll: jest.fn() } } }));
+
+// Strings and hashes of an in-memory Redis
+jest.mock("@b/utils/redis", () => {
+  const strings: Record<string, string> = {};
+  const hashes: Record<string, Record<string, string>> = {};
+  const redis = {
+    strings,
+    hashes,
+    get: async (key: string) => strings[key] ?? null,
+    set: async (key: string, value: any) => {
+      strings[key] = String(value);
+    },
+    hgetall: async (key: string) => ({ ...hashes[key] }),
+    hincrby: async (key: string, field: string, increment: number) => {
+      const hash = (hashes[key] ||= {});
+      hash[field] = String(parseInt(hash[field] || "0") + increment);
+      return parseInt(hash[field]);
+    },
+    hset: async (key: string, fields: Record<string, any>) => {
+      const hash = (hashes[key] ||= {});
+      for (const [field, value] of Object.entries(fields)) {
+        hash[field] = String(value);
+      }
+    },
+    hdel: async (key: string, ...fields: string[]) => {
+      for (const field of fields) delete hashes[key]?.[field];
+    },
+  };
+  return { RedisSingleton: { getInstance: () => redis } };
+});
+
+const settings: Record<string, any> = {};
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getSetting: async (key: string) => settings[key] }),
+  },
+}));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+const redis = RedisSingleton.getInstance() as any;
+const manager = ExchangeManager as any;
+
+const SYMBOL = "BTC/USDT";
+const MINUTE = 60 * 1000;
+
+// A started provider quoting the given order book
+function addProvider(
+  name: string,
+  orderBook: { asks?: number[][]; bids?: number[][] } = {},
+  markets: Record<string, any> = { [SYMBOL]: {} }
+) {
+  const exchange = {
+    markets,
+    fetchOrderBook: jest.fn(async () => ({ asks: [], bids: [], ...orderBook })),
+  };
+  manager.exchangeCache.set(name, exchange);
+  return exchange;
+}
+
+function setActiveProviders(names: string[]) {
+  (models.exchange.findAll as jest.Mock).mockResolvedValue(
+    names.map((name) => ({ name }))
+  );
+}
+
+const health = (provider: string) =>
+  redis.hashes[`exchange:health:${provider}`];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  for (const key of Object.keys(settings)) delete settings[key];
+  for (const key of Object.keys(redis.strings)) delete redis.strings[key];
+  for (const key of Object.keys(redis.hashes)) delete redis.hashes[key];
+  manager.exchangeCache.clear();
+  ExchangeManager.refreshProviders();
+});
+
+describe("getOrderRoutes", () => {
+  it("keeps the priority order of the available providers", async () => {
+    setActiveProviders(["binance", "kucoin", "okx", "bitget"]);
+    const binance = addProvider("binance", { asks: [[200, 10]] });
+    addProvider("kucoin", {}, { "ETH/USDT": {} });
+    addProvider("okx");
+    addProvider("bitget");
+    redis.hashes["exchange:health:okx"] = {
+      disabledUntil: String(Date.now() + MINUTE),
+    };
+
+    const routes = await ExchangeManager.getOrderRoutes(SYMBOL, "BUY", 1);
+
+    // kucoin does not list the market and okx is cooling down
+    expect(routes.map(({ provider }) => provider)).toEqual([
+      "binance",
+      "bitget",
+    ]);
+    expect(binance.fetchOrderBook).not.toHaveBeenCalled();
+  });
+
+  it("skips a provider that banned us", async () => {
+    setActiveProviders(["binance", "kucoin"]);
+    addProvider("binance");
+    addProvider("kucoin");
+    redis.strings["exchange:ban_status:binance"] = String(Date.now() + MINUTE);
+
+    const routes = await ExchangeManager.getOrderRoutes(SYMBOL, "BUY", 1);
+
+    expect(routes.map(({ provider }) => provider)).toEqual(["kucoin"]);
+  });
+
+  it("ranks buys by the average price of walking the asks", async () => {
+    settings.exchangeRoutingStrategy = "BEST_PRICE";
+    setActiveProviders(["binance", "kucoin", "okx"]);
+    addProvider("binance", {
+      asks: [
+        [100, 1],
+        [110, 1],
+      ],
+    });
+    addProvider("kucoin", { asks: [[104, 5]] });
+    // Cheapest, but too thin to fill the order
+    addProvider("okx", { asks: [[90, 0.5]] });
+
+    const routes = await ExchangeManager.getOrderRoutes(SYMBOL, "BUY", 2);
+
+    expect(routes.map(({ provider, price }) => [provider, price])).toEqual([
+      ["kucoin", 104],
+      ["binance", 105],
+      ["okx", undefined],
+    ]);
+  });
+
+  it("ranks sells by the average price of walking the bids", async () => {
+    settings.exchangeRoutingStrategy = "BEST_PRICE";
+    setActiveProviders(["binance", "kucoin"]);
+    addProvider("binance", { bids: [[99, 3]] });
+    addProvider("kucoin", {
+      bids: [
+        [102, 1],
+        [98, 2],
+      ],
+    });
+
+    const routes = await ExchangeManager.getOrderRoutes(SYMBOL, "SELL", 3);
+
+    expect(routes.map(({ provider }) => provider)).toEqual([
+      "kucoin",
+      "binance",
+    ]);
+    expect(routes[0].price).toBeCloseTo(99.33);
+    expect(routes[1].price).toBe(99);
+  });
+
+  it("puts providers whose book can't be fetched last and counts the failure", async () => {
+    settings.exchangeRoutingStrategy = "BEST_PRICE";
+    setActiveProviders(["binance", "kucoin"]);
+    const binance = addProvider("binance");
+    binance.fetchOrderBook.mockRejectedValue(
+      new ccxt.NetworkError("ECONNRESET")
+    );
+    addProvider("kucoin", { asks: [[104, 5]] });
+
+    const routes = await ExchangeManager.getOrderRoutes(SYMBOL, "BUY", 1);
+
+    expect(routes.map(({ provider }) => provider)).toEqual([
+      "kucoin",
+      "binance",
+    ]);
+    expect(health("binance")).toMatchObject({
+      failures: "1",
+      lastError: "ECONNRESET",
+    });
+  });
+});
+
+describe("isFailoverError", () => {
+  it.each([
+    [new ccxt.NetworkError("ECONNRESET"), true],
+    [new ccxt.ExchangeNotAvailable("maintenance"), true],
+    [new ccxt.InsufficientFunds("balance"), true],
+    [new ccxt.AuthenticationError("invalid key"), true],
+    [new ccxt.ExchangeError(`IP banned until ${Date.now() + MINUTE}`), true],
+    // The order may have reached the provider
+    [new ccxt.RequestTimeout("timed out"), false],
+    [new ccxt.InvalidOrder("min notional"), false],
+    [new Error("unexpected"), false],
+  ])("%s fails over: %s", (error, expected) => {
+    expect(ExchangeManager.isFailoverError(error)).toBe(expected);
+  });
+});
+
+describe("provider health", () => {
+  it("disables a provider for a while after consecutive failures", async () => {
+    addProvider("binance");
+
+    for (let i = 0; i < 2; i++) {
+      await ExchangeManager.reportProviderFailure(
+        "binance",
+        new Error("ECONNRESET")
+      );
+    }
+    await expect(
+      ExchangeManager.getProviderHealth("binance")
+    ).resolves.toMatchObject({ available: true, failures: 2 });
+    expect(manager.exchangeCache.has("binance")).toBe(true);
+
+    await ExchangeManager.reportProviderFailure(
+      "binance",
+      new Error("ECONNRESET")
+    );
+
+    const state = await ExchangeManager.getProviderHealth("binance");
+    expect(state).toMatchObject({
+      available: false,
+      failures: 3,
+      lastError: "ECONNRESET",
+    });
+    expect(state.disabledUntil! - Date.now()).toBeCloseTo(5 * MINUTE, -3);
+    // It is started again once it comes back
+    expect(manager.exchangeCache.has("binance")).toBe(false);
+  });
+
+  it("brings a provider back on its next success", async () => {
+    for (let i = 0; i < 3; i++) {
+      await ExchangeManager.reportProviderFailure(
+        "binance",
+        new Error("ECONNRESET")
+      );
+    }
+
+    await ExchangeManager.reportProviderSuccess("binance");
+
+    await expect(
+      ExchangeManager.getProviderHealth("binance")
+    ).resolves.toMatchObject({
+      available: true,
+      failures: 0,
+      disabledUntil: null,
+      lastSuccessAt: expect.any(Number),
+    });
+  });
+
+  it("keeps the ban of a provider apart from the others", async () => {
+    const bannedUntil = Date.now() + MINUTE;
+
+    await ExchangeManager.reportProviderFailure(
+      "binance",
+      new Error(`IP banned until ${bannedUntil}`)
+    );
+
+    await expect(
+      ExchangeManager.getProviderHealth("binance")
+    ).resolves.toMatchObject({ available: false, bannedUntil, failures: 1 });
+    await expect(
+      ExchangeManager.getProviderHealth("kucoin")
+    ).resolves.toMatchObject({ available: true, bannedUntil: null });
+  });
+});
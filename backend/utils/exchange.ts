@@ -2,38 +2,83 @@ import * as ccxt from "ccxt";
 import { sleep } from "./system";
 import { models } from "@b/db";
 import { logError } from "@b/utils/logger";
+import { RedisSingleton } from "@b/utils/redis";
+import { CacheManager } from "@b/utils/cache";
 import {
   loadBanStatus,
   saveBanStatus,
   handleBanStatus,
+  extractBanTime,
+  sanitizeErrorMessage,
 } from "@b/api/exchange/utils";
 
+const redis = RedisSingleton.getInstance();
+
+const PROVIDER_HEALTH_KEY = "exchange:health";
+const PROVIDER_FAILURE_THRESHOLD = 3;
+const PROVIDER_COOLDOWN = 5 * 60 * 1000; // 5 minutes
+const ORDER_BOOK_TIMEOUT = 3000;
+
+export type OrderRoute = {
+  provider: string;
+  exchange: any;
+  price?: number;
+};
+
+export type ProviderHealth = {
+  provider: string;
+  available: boolean;
+  failures: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  disabledUntil: number | null;
+  bannedUntil: number | null;
+};
+
 class ExchangeManager {
   static readonly instance = new ExchangeManager();
   private readonly exchangeCache = new Map<string, any>();
+  private readonly attempts = new Map<
+    string,
+    { count: number; lastTime: number | null }
+  >();
   private provider: string | null = null;
   private exchange: any = null;
   private exchangeProvider: any = null;
-  private lastAttemptTime: number | null = null;
-  private attemptCount: number = 0;
 
   private constructor() {}
 
   private async fetchActiveProvider(): Promise<string | null> {
+    const providers = await this.getActiveProviders();
+    return providers[0] || null;
+  }
+
+  // Active providers ordered by their admin priority, lowest first
+  public async getActiveProviders(): Promise<string[]> {
     try {
-      const provider = await models.exchange.findOne({
+      const providers = await models.exchange.findAll({
         where: {
           status: true,
         },
+        attributes: ["name"],
+        order: [
+          ["priority", "ASC"],
+          ["name", "ASC"],
+        ],
       });
-      if (!provider) {
-        return null;
-      }
-      return provider.name;
+      return providers.map((provider) => provider.name);
     } catch (error) {
       logError("exchange", error, __filename);
-      return null;
+      return [];
+    }
+  }
+
+  private getAttempts(provider: string) {
+    if (!this.attempts.has(provider)) {
+      this.attempts.set(provider, { count: 0, lastTime: null });
     }
+    return this.attempts.get(provider)!;
   }
 
   private async initializeExchange(
@@ -49,10 +94,11 @@ class ExchangeManager {
     }
 
     const now = Date.now();
+    const attempts = this.getAttempts(provider);
     if (
-      this.attemptCount >= 3 &&
-      this.lastAttemptTime &&
-      now - this.lastAttemptTime < 30 * 60 * 1000
+      attempts.count >= 3 &&
+      attempts.lastTime &&
+      now - attempts.lastTime < 30 * 60 * 1000
     ) {
       return null;
     }
@@ -68,8 +114,8 @@ class ExchangeManager {
         new Error(`API credentials for ${provider} are missing.`),
         __filename
       );
-      this.attemptCount += 1;
-      this.lastAttemptTime = now;
+      attempts.count += 1;
+      attempts.lastTime = now;
       return null;
     }
 
@@ -109,17 +155,17 @@ class ExchangeManager {
       }
 
       this.exchangeCache.set(provider, exchange);
-      this.attemptCount = 0;
-      this.lastAttemptTime = null;
+      attempts.count = 0;
+      attempts.lastTime = null;
       return exchange;
     } catch (error) {
       logError("exchange", error, __filename);
-      this.attemptCount += 1;
-      this.lastAttemptTime = now;
+      attempts.count += 1;
+      attempts.lastTime = now;
 
       if (
         retries > 0 &&
-        (this.attemptCount < 3 || now - this.lastAttemptTime >= 30 * 60 * 1000)
+        (attempts.count < 3 || now - attempts.lastTime >= 30 * 60 * 1000)
       ) {
         await sleep(5000);
         return this.initializeExchange(provider, retries - 1);
@@ -185,6 +231,13 @@ class ExchangeManager {
     }
   }
 
+  // Makes the primary provider be resolved again after the active
+  // providers or their priorities changed
+  public refreshProviders(): void {
+    this.provider = null;
+    this.exchange = null;
+  }
+
   public async getProvider(): Promise<string | null> {
     if (!this.provider) {
       this.provider = await this.fetchActiveProvider();
@@ -243,6 +296,141 @@ class ExchangeManager {
     }
   }
 
+  public async getProviderHealth(provider: string): Promise<ProviderHealth> {
+    const health = await redis.hgetall(`${PROVIDER_HEALTH_KEY}:${provider}`);
+    const toTime = (value?: string) => (value ? parseInt(value) : null);
+    const now = Date.now();
+
+    const bannedUntil = Math.max(
+      await loadBanStatus(),
+      await loadBanStatus(provider)
+    );
+    const disabledUntil = toTime(health.disabledUntil);
+
+    return {
+      provider,
+      available: bannedUntil <= now && (!disabledUntil || disabledUntil <= now),
+      failures: parseInt(health.failures || "0"),
+      lastError: health.lastError || null,
+      lastFailureAt: toTime(health.lastFailureAt),
+      lastSuccessAt: toTime(health.lastSuccessAt),
+      disabledUntil,
+      bannedUntil: bannedUntil > now ? bannedUntil : null,
+    };
+  }
+
+  // Counts a failed call against the provider; after a few consecutive
+  // failures, or when the provider bans us, it is skipped for a while
+  public async reportProviderFailure(
+    provider: string,
+    error: any
+  ): Promise<void> {
+    const key = `${PROVIDER_HEALTH_KEY}:${provider}`;
+    const now = Date.now();
+
+    try {
+      const banTime = extractBanTime(error?.message || "");
+      if (banTime) {
+        await saveBanStatus(banTime, provider);
+      }
+
+      const failures = await redis.hincrby(key, "failures", 1);
+      const fields: Record<string, string | number> = {
+        lastError: String(sanitizeErrorMessage(error?.message)).slice(0, 255),
+        lastFailureAt: now,
+      };
+      if (failures >= PROVIDER_FAILURE_THRESHOLD) {
+        fields.disabledUntil = now + PROVIDER_COOLDOWN;
+        this.removeExchange(provider);
+      }
+      await redis.hset(key, fields);
+    } catch (redisError) {
+      logError("exchange", redisError, __filename);
+    }
+  }
+
+  public async reportProviderSuccess(provider: string): Promise<void> {
+    const key = `${PROVIDER_HEALTH_KEY}:${provider}`;
+    try {
+      await redis.hset(key, { failures: 0, lastSuccessAt: Date.now() });
+      await redis.hdel(key, "disabledUntil");
+    } catch (error) {
+      logError("exchange", error, __filename);
+    }
+  }
+
+  // Errors after which the order can safely be retried on another provider.
+  // Timeouts are left out as the order may have reached the provider anyway.
+  public isFailoverError(error: any): boolean {
+    if (error instanceof ccxt.RequestTimeout) {
+      return false;
+    }
+    return (
+      error instanceof ccxt.NetworkError ||
+      error instanceof ccxt.InsufficientFunds ||
+      error instanceof ccxt.AuthenticationError ||
+      !!extractBanTime(error?.message || "")
+    );
+  }
+
+  // Returns the available providers able to fill the order, in the order
+  // they should be tried according to the "exchangeRoutingStrategy" setting
+  public async getOrderRoutes(
+    symbol: string,
+    side: "BUY" | "SELL",
+    amount: number
+  ): Promise<OrderRoute[]> {
+    const routes: OrderRoute[] = [];
+    for (const provider of await this.getActiveProviders()) {
+      const health = await this.getProviderHealth(provider);
+      if (!health.available) {
+        continue;
+      }
+
+      const exchange =
+        this.exchangeCache.get(provider) ||
+        (await this.initializeExchange(provider));
+      if (!exchange || (exchange.markets && !exchange.markets[symbol])) {
+        continue;
+      }
+      routes.push({ provider, exchange });
+    }
+
+    const strategy = await CacheManager.getInstance().getSetting(
+      "exchangeRoutingStrategy"
+    );
+    if (strategy !== "BEST_PRICE" || routes.length < 2) {
+      return routes;
+    }
+
+    const quotedRoutes = await Promise.all(
+      routes.map(async (route) => {
+        try {
+          const orderBook = await withTimeout<ccxt.OrderBook>(
+            route.exchange.fetchOrderBook(symbol),
+            ORDER_BOOK_TIMEOUT
+          );
+          const levels = side === "BUY" ? orderBook.asks : orderBook.bids;
+          return { ...route, price: getFillPrice(levels, amount) };
+        } catch (error) {
+          await this.reportProviderFailure(route.provider, error);
+          return route;
+        }
+      })
+    );
+
+    // Providers without enough depth to fill the order go last, keeping
+    // their priority order
+    return quotedRoutes.sort((a, b) => {
+      if (a.price === undefined || b.price === undefined) {
+        return (
+          (a.price === undefined ? 1 : 0) - (b.price === undefined ? 1 : 0)
+        );
+      }
+      return side === "BUY" ? a.price - b.price : b.price - a.price;
+    });
+  }
+
   public async stopExchange(): Promise<void> {
     if (this.exchange) {
       await this.exchange.close();
@@ -253,6 +441,40 @@ class ExchangeManager {
 
 export default ExchangeManager.instance;
 
+// Average price paid when filling the amount from the given order book side,
+// undefined when the book is too thin to fill it
+function getFillPrice(
+  levels: ccxt.OrderBook["asks"],
+  amount: number
+): number | undefined {
+  let remaining = amount;
+  let cost = 0;
+  for (const [price, volume] of levels || []) {
+    if (price === undefined || volume === undefined) {
+      continue;
+    }
+    const filled = Math.min(remaining, volume);
+    cost += filled * price;
+    remaining -= filled;
+    if (remaining <= 0) {
+      return cost / amount;
+    }
+  }
+  return undefined;
+}
+
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error("Request timed out")), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 export function mapChainNameToChainId(chainName: string) {
   const chainMap: { [key: string]: string } = {
     BEP20: "bsc",
@@ -0,0 +1,279 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import client from "@b/utils/eco/scylla/client";
+import {
+  FEE_VOLUME_WINDOW,
+  getUserFeeRates,
+  qualifiesForTier,
+  recomputeFeeTiers,
+} from "./fees";
+
+jest.mock("@b/db", () => ({
+  models: {
+    userFeeTier: { findOne: jest.fn(), findAll: jest.fn(), create: jest.fn() },
+    feeTier: { findAll: jest.fn() },
+    exchangeOrder: { findAll: jest.fn() },
+    exchangeCurrency: { findOne: jest.fn() },
+    wallet: { findAll: jest.fn() },
+  },
+  sequelize: {
+    fn: (name: string, ...args: any[]) => ({ fn: name, args }),
+    literal: (value: string) => ({ literal: value }),
+  },
+}));
+
+const extensions = new Set<string>();
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: {
+    getInstance: () => ({ getExtensions: async () => extensions }),
+  },
+}));
+
+jest.mock("@b/api/finance/currency/utils", () => ({
+  getEcoPriceInUSD: jest.fn(async () => {
+    throw new Error("No market");
+  }),
+}));
+
+jest.mock("@b/utils/eco/blockchain", () => ({
+  fromBigInt: (value: bigint) => Number(value) / 1e18,
+}));
+
+jest.mock("@b/utils/eco/scylla/client", () => ({
+  __esModule: true,
+  default: { execute: jest.fn() },
+  scyllaKeyspace: "trading",
+  scyllaFuturesKeyspace: "futures",
+}));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+const MARKET = { maker: 0.1, taker: 0.2 };
+
+function makeTier(
+  overrides: Partial<feeTierAttributes> = {}
+): feeTierAttributes {
+  return {
+    id: "tier-1",
+    name: "VIP 1",
+    level: 1,
+    minVolume: 0,
+    minBalance: 0,
+    makerFee: 0.08,
+    takerFee: 0.1,
+    status: true,
+    ...overrides,
+  } as feeTierAttributes;
+}
+
+function setFeeRecord(record: Record<string, any> | null) {
+  (models.userFeeTier.findOne as jest.Mock).mockResolvedValue(record);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  extensions.clear();
+});
+
+describe("getUserFeeRates", () => {
+  it("charges the market rates to users without a tier", async () => {
+    setFeeRecord(null);
+
+    await expect(getUserFeeRates("user-1", MARKET)).resolves.toEqual(MARKET);
+  });
+
+  it("only applies the sides of a tier cheaper than the market", async () => {
+    setFeeRecord({ tier: makeTier({ makerFee: 0.05, takerFee: 0.3 }) });
+
+    await expect(getUserFeeRates("user-1", MARKET)).resolves.toEqual({
+      maker: 0.05,
+      taker: 0.2,
+    });
+  });
+
+  it("charges the market rates when the tier was disabled", async () => {
+    // The tier is only included while active
+    setFeeRecord({ tier: null, makerFeeOverride: null });
+
+    await expect(getUserFeeRates("user-1", MARKET)).resolves.toEqual(MARKET);
+  });
+
+  it("lets an override win over both the tier and the market", async () => {
+    setFeeRecord({
+      tier: makeTier({ makerFee: 0.01, takerFee: 0.01 }),
+      makerFeeOverride: 0,
+      takerFeeOverride: 0.5,
+    });
+
+    await expect(getUserFeeRates("user-1", MARKET)).resolves.toEqual({
+      maker: 0,
+      taker: 0.5,
+    });
+  });
+});
+
+describe("qualifiesForTier", () => {
+  const tier = makeTier({
+    minVolume: 100000,
+    balanceCurrency: "BNB",
+    minBalance: 10,
+  });
+
+  it("needs both the volume and the holdings of the tier", () => {
+    expect(qualifiesForTier(tier, 100000, 10)).toBe(true);
+    expect(qualifiesForTier(tier, 99999, 10)).toBe(false);
+    expect(qualifiesForTier(tier, 100000, 9.99)).toBe(false);
+  });
+
+  it("ignores holdings when the tier sets no minimum", () => {
+    expect(qualifiesForTier({ ...tier, minBalance: 0 }, 100000, 0)).toBe(true);
+    expect(
+      qualifiesForTier({ ...tier, balanceCurrency: undefined }, 100000, 0)
+    ).toBe(true);
+  });
+});
+
+describe("recomputeFeeTiers", () => {
+  const NOW = new Date("2025-03-31T00:00:00Z");
+  const vip2 = makeTier({
+    id: "vip-2",
+    level: 2,
+    minVolume: 100000,
+    balanceCurrency: "BNB",
+    minBalance: 10,
+  });
+  const vip1 = makeTier({ id: "vip-1", level: 1, minVolume: 50000 });
+
+  function setVolumes(
+    rows: { userId: string; symbol: string; volume: number }[]
+  ) {
+    (models.exchangeOrder.findAll as jest.Mock).mockResolvedValue(rows);
+  }
+
+  function setHoldings(rows: { userId: string; total: number }[]) {
+    (models.wallet.findAll as jest.Mock).mockImplementation(
+      async ({ where }) =>
+        where.currency ? rows.map((row) => ({ ...row, currency: "BNB" })) : []
+    );
+  }
+
+  function makeRecord(userId: string, overrides: Record<string, any> = {}) {
+    const record = {
+      userId,
+      feeTierId: "vip-2",
+      makerFeeOverride: 0,
+      ...overrides,
+      update: jest.fn(async (values) => Object.assign(record, values)),
+    };
+    return record;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+    (models.feeTier.findAll as jest.Mock).mockResolvedValue([vip2, vip1]);
+    (models.userFeeTier.findAll as jest.Mock).mockResolvedValue([]);
+    (models.exchangeCurrency.findOne as jest.Mock).mockImplementation(
+      async ({ where }) => (where.currency === "BTC" ? { price: 50000 } : null)
+    );
+    setHoldings([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("sums the USD volume of the last 30 days", async () => {
+    setVolumes([
+      { userId: "user-1", symbol: "BTC/USDT", volume: 40000 },
+      { userId: "user-1", symbol: "ETH/BTC", volume: 0.5 },
+      // Quoted in a currency without a price
+      { userId: "user-1", symbol: "ETH/XYZ", volume: 1000000 },
+    ]);
+
+    await recomputeFeeTiers();
+
+    const since = new Date(NOW.getTime() - FEE_VOLUME_WINDOW);
+    expect(since.toISOString()).toBe("2025-03-01T00:00:00.000Z");
+    expect(models.exchangeOrder.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { createdAt: { [Op.gte]: since }, filled: { [Op.gt]: 0 } },
+      })
+    );
+    expect(models.userFeeTier.create).toHaveBeenCalledWith({
+      userId: "user-1",
+      feeTierId: "vip-1",
+      volume: 65000,
+      computedAt: NOW,
+    });
+  });
+
+  it("places users in the highest tier they hold enough for", async () => {
+    setVolumes([
+      { userId: "holder", symbol: "BTC/USDT", volume: 150000 },
+      { userId: "trader", symbol: "BTC/USDT", volume: 150000 },
+    ]);
+    setHoldings([
+      { userId: "holder", total: 10 },
+      { userId: "trader", total: 9 },
+    ]);
+
+    await recomputeFeeTiers();
+
+    expect(models.wallet.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { currency: { [Op.in]: ["BNB"] } } })
+    );
+    expect(
+      (models.userFeeTier.create as jest.Mock).mock.calls.map(
+        ([{ userId, feeTierId }]) => [userId, feeTierId]
+      )
+    ).toEqual([
+      ["holder", "vip-2"],
+      ["trader", "vip-1"],
+    ]);
+  });
+
+  it("drops users out of their tier and keeps their overrides", async () => {
+    setVolumes([{ userId: "user-1", symbol: "BTC/USDT", volume: 1000 }]);
+    const record = makeRecord("user-1");
+    (models.userFeeTier.findAll as jest.Mock).mockResolvedValue([record]);
+
+    await recomputeFeeTiers();
+
+    expect(record.update).toHaveBeenCalledWith({
+      feeTierId: null,
+      volume: 1000,
+      computedAt: NOW,
+    });
+    expect(record.makerFeeOverride).toBe(0);
+    expect(models.userFeeTier.create).not.toHaveBeenCalled();
+  });
+
+  it("counts ecosystem trades when the extension is enabled", async () => {
+    extensions.add("ecosystem");
+    setVolumes([]);
+    (models.wallet.findAll as jest.Mock).mockImplementation(
+      async ({ where }) => (where.type === "ECO" ? [{ userId: "user-1" }] : [])
+    );
+    (client.execute as jest.Mock).mockResolvedValue({
+      rows: [
+        {
+          symbol: "BTC/USDT",
+          filled: BigInt(2e18),
+          average: BigInt(0),
+          price: BigInt(30000e18),
+        },
+      ],
+    });
+
+    await recomputeFeeTiers();
+
+    expect(client.execute).toHaveBeenCalledWith(
+      expect.stringContaining("FROM trading.orders"),
+      ["user-1", new Date(NOW.getTime() - FEE_VOLUME_WINDOW)],
+      { prepare: true }
+    );
+    expect(models.userFeeTier.create).toHaveBeenCalledWith(
+      expect.objectContaining({ feeTierId: "vip-1", volume: 60000 })
+    );
+  });
+});
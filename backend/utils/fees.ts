@@ -0,0 +1,310 @@
+import { Op } from "sequelize";
+import type userFeeTier from "@db/userFeeTier";
+import { models, sequelize } from "@b/db";
+import { CacheManager } from "@b/utils/cache";
+import { logError } from "@b/utils/logger";
+import { getEcoPriceInUSD } from "@b/api/finance/currency/utils";
+import { fromBigInt } from "@b/utils/eco/blockchain";
+import client, {
+  scyllaFuturesKeyspace,
+  scyllaKeyspace,
+} from "@b/utils/eco/scylla/client";
+
+// Tiers are earned on the USD value traded over this rolling window
+export const FEE_VOLUME_WINDOW = 30 * 24 * 60 * 60 * 1000;
+
+export interface FeeRates {
+  maker: number;
+  taker: number;
+}
+
+/**
+ * Resolves the maker and taker rates a user pays on a market. A per-user
+ * override always wins; otherwise the user's tier applies wherever it is
+ * cheaper than the market's own rates, so a tier never raises a fee. Users
+ * the nightly job has not placed in a tier pay the market rates.
+ * @param userId - The ID of the user placing the order.
+ * @param marketMetadata - The metadata of the market holding its base rates.
+ * @returns A Promise that resolves with the effective fee rates in percent.
+ */
+export async function getUserFeeRates(
+  userId: string,
+  marketMetadata: any
+): Promise<FeeRates> {
+  const rates: FeeRates = {
+    maker: Number(marketMetadata?.maker),
+    taker: Number(marketMetadata?.taker),
+  };
+
+  const record = await models.userFeeTier.findOne({
+    where: { userId },
+    include: [
+      {
+        model: models.feeTier,
+        as: "tier",
+        where: { status: true },
+        required: false,
+      },
+    ],
+  });
+  if (!record) return rates;
+
+  if (record.tier) {
+    rates.maker = Math.min(rates.maker, record.tier.makerFee);
+    rates.taker = Math.min(rates.taker, record.tier.takerFee);
+  }
+  if (
+    record.makerFeeOverride !== null &&
+    record.makerFeeOverride !== undefined
+  ) {
+    rates.maker = record.makerFeeOverride;
+  }
+  if (
+    record.takerFeeOverride !== null &&
+    record.takerFeeOverride !== undefined
+  ) {
+    rates.taker = record.takerFeeOverride;
+  }
+
+  return rates;
+}
+
+// Whether a user with the given volume and holdings qualifies for a tier
+export function qualifiesForTier(
+  tier: feeTierAttributes,
+  volume: number,
+  holdings: number
+): boolean {
+  if (volume < tier.minVolume) return false;
+  if (tier.balanceCurrency && tier.minBalance > 0) {
+    return holdings >= tier.minBalance;
+  }
+  return true;
+}
+
+/**
+ * Sums what a user holds of a currency across all their wallets, including
+ * funds locked in orders.
+ */
+export async function getUserHoldings(
+  userId: string,
+  currency: string
+): Promise<number> {
+  const result = (await models.wallet.findOne({
+    attributes: [
+      [sequelize.fn("SUM", sequelize.literal("balance + inOrder")), "total"],
+    ],
+    where: { userId, currency },
+    raw: true,
+  })) as any;
+  return Number(result?.total) || 0;
+}
+
+// USD price of a currency from its exchange listing or ecosystem market, 0
+// when it has neither
+export async function getUsdPrice(currency: string): Promise<number> {
+  if (currency === "USDT") return 1;
+
+  const exchangeCurrency = await models.exchangeCurrency.findOne({
+    where: { currency },
+    attributes: ["price"],
+  });
+  if (exchangeCurrency && Number(exchangeCurrency.price) > 0) {
+    return Number(exchangeCurrency.price);
+  }
+
+  try {
+    return await getEcoPriceInUSD(currency);
+  } catch (error) {
+    logError("fees", new Error(`No USD price for ${currency}`), __filename);
+    return 0;
+  }
+}
+
+// Prices quote currencies in USD, memoized for the length of one run
+function createQuotePricer() {
+  const prices = new Map<string, Promise<number>>();
+
+  return (currency: string) => {
+    if (!prices.has(currency)) prices.set(currency, getUsdPrice(currency));
+    return prices.get(currency) as Promise<number>;
+  };
+}
+
+function addVolume(
+  volumes: Map<string, number>,
+  userId: string,
+  value: number
+) {
+  if (!(value > 0)) return;
+  volumes.set(userId, (volumes.get(userId) || 0) + value);
+}
+
+async function addSpotVolumes(
+  volumes: Map<string, number>,
+  since: Date,
+  priceOf: (currency: string) => Promise<number>
+) {
+  const rows = (await models.exchangeOrder.findAll({
+    attributes: [
+      "userId",
+      "symbol",
+      [
+        sequelize.fn(
+          "SUM",
+          sequelize.literal("filled * COALESCE(NULLIF(average, 0), price)")
+        ),
+        "volume",
+      ],
+    ],
+    where: { createdAt: { [Op.gte]: since }, filled: { [Op.gt]: 0 } },
+    group: ["userId", "symbol"],
+    raw: true,
+  })) as any[];
+
+  for (const row of rows) {
+    const [, pair] = row.symbol.split("/");
+    addVolume(volumes, row.userId, Number(row.volume) * (await priceOf(pair)));
+  }
+}
+
+async function addScyllaVolumes(
+  volumes: Map<string, number>,
+  keyspace: string,
+  walletType: "ECO" | "FUTURES",
+  since: Date,
+  priceOf: (currency: string) => Promise<number>
+) {
+  const wallets = await models.wallet.findAll({
+    where: { type: walletType },
+    attributes: ["userId"],
+    group: ["userId"],
+    raw: true,
+  });
+
+  const query = `
+    SELECT symbol, price, average, filled FROM ${keyspace}.orders
+    WHERE "userId" = ? AND "createdAt" >= ?;
+  `;
+  for (const { userId } of wallets) {
+    try {
+      const result = await client.execute(query, [userId, since], {
+        prepare: true,
+      });
+      for (const row of result.rows) {
+        const filled = fromBigInt(row.filled);
+        if (!(filled > 0)) continue;
+        const price = fromBigInt(row.average) || fromBigInt(row.price);
+        const [, pair] = row.symbol.split("/");
+        addVolume(volumes, userId, filled * price * (await priceOf(pair)));
+      }
+    } catch (error) {
+      logError("fees", error, __filename);
+    }
+  }
+}
+
+/**
+ * Computes the USD value every user traded since the given date across spot,
+ * ecosystem and futures markets.
+ */
+export async function getTradedVolumes(
+  since: Date
+): Promise<Map<string, number>> {
+  const volumes = new Map<string, number>();
+  const priceOf = createQuotePricer();
+  const extensions = await CacheManager.getInstance().getExtensions();
+
+  await addSpotVolumes(volumes, since, priceOf);
+  if (extensions.has("ecosystem")) {
+    await addScyllaVolumes(volumes, scyllaKeyspace, "ECO", since, priceOf);
+  }
+  if (extensions.has("futures")) {
+    await addScyllaVolumes(
+      volumes,
+      scyllaFuturesKeyspace,
+      "FUTURES",
+      since,
+      priceOf
+    );
+  }
+
+  return volumes;
+}
+
+/**
+ * Recomputes the fee tier of every user from their rolling traded volume and
+ * holdings. Overrides are kept untouched, only the earned tier changes.
+ */
+export async function recomputeFeeTiers() {
+  const tiers = await models.feeTier.findAll({
+    where: { status: true },
+    order: [["level", "DESC"]],
+  });
+  const volumes = await getTradedVolumes(
+    new Date(Date.now() - FEE_VOLUME_WINDOW)
+  );
+
+  // Holdings are only needed for the currencies tiers are gated on
+  const holdings = new Map<string, number>();
+  const currencies = [
+    ...new Set(tiers.map((tier) => tier.balanceCurrency).filter(Boolean)),
+  ];
+  if (currencies.length > 0) {
+    const rows = (await models.wallet.findAll({
+      attributes: [
+        "userId",
+        "currency",
+        [sequelize.fn("SUM", sequelize.literal("balance + inOrder")), "total"],
+      ],
+      where: { currency: { [Op.in]: currencies } },
+      group: ["userId", "currency"],
+      raw: true,
+    })) as any[];
+    for (const row of rows) {
+      holdings.set(`${row.userId}:${row.currency}`, Number(row.total) || 0);
+    }
+  }
+
+  const records: userFeeTier[] = await models.userFeeTier.findAll();
+  const recordsByUser = new Map<string, userFeeTier>(
+    records.map((record) => [record.userId, record])
+  );
+  const userIds = new Set<string>([
+    ...recordsByUser.keys(),
+    ...volumes.keys(),
+    ...[...holdings.keys()].map((key) => key.split(":")[0]),
+  ]);
+
+  const computedAt = new Date();
+  for (const userId of userIds) {
+    const volume = volumes.get(userId) || 0;
+    const tier = tiers.find((candidate) =>
+      qualifiesForTier(
+        candidate,
+        volume,
+        holdings.get(`${userId}:${candidate.balanceCurrency}`) || 0
+      )
+    );
+
+    try {
+      const record = recordsByUser.get(userId);
+      if (record) {
+        await record.update({
+          feeTierId: tier ? tier.id : null,
+          volume,
+          computedAt,
+        });
+      } else if (tier) {
+        await models.userFeeTier.create({
+          userId,
+          feeTierId: tier.id,
+          volume,
+          computedAt,
+        });
+      }
+    } catch (error) {
+      logError("fees", error, __filename);
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { CacheManager } from "@b/utils/cache";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import {
+  calculateFundingRate,
+  calculatePremiumIndex,
+  settleFunding,
+} from "./funding";
+import { createFundingPayments } from "./queries/funding";
+import { getOrderBook } from "./queries/orderbook";
+import { getOpenPositionsBySymbol } from "./queries/positions";
+import { getUserWalletByCurrency } from "./wallet";
+import { toBigIntFloat } from "@b/utils/eco/blockchain";
+
+jest.mock("@b/db", () => ({ models: {} }));
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: { getInstance: jest.fn() },
+}));
+jest.mock("@b/utils/eco/matchingEngine", () => ({
+  MatchingEngine: { getInstance: jest.fn() },
+}));
+jest.mock("@b/utils/eco/wallet", () => ({ updateWalletBalance: jest.fn() }));
+jest.mock("@b/utils/exchange", () => ({ startExchange: jest.fn() }));
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/api/exchange/utils", () => ({ loadBanStatus: jest.fn() }));
+jest.mock("./markets", () => ({ getFuturesMarkets: jest.fn() }));
+jest.mock("./matchingEngine", () => ({
+  FuturesMatchingEngine: { getInstance: jest.fn() },
+}));
+jest.mock("./queries/orderbook", () => ({ getOrderBook: jest.fn() }));
+jest.mock("./queries/positions", () => ({
+  getOpenPositionsBySymbol: jest.fn(),
+}));
+jest.mock("./queries/funding", () => ({ createFundingPayments: jest.fn() }));
+jest.mock("./wallet", () => ({ getUserWalletByCurrency: jest.fn() }));
+
+const { MatchingEngine } = jest.requireMock("@b/utils/eco/matchingEngine");
+
+const position = (userId: string, side: string, amount: number) => ({
+  id: `${userId}-position`,
+  userId,
+  side,
+  amount: toBigIntFloat(amount),
+});
+
+// Mark price from the futures book, index price from the spot market
+function setPrices(markPrice: number, indexPrice: number) {
+  (getOrderBook as jest.Mock).mockResolvedValue({
+    asks: [[markPrice + 1, 1]],
+    bids: [[markPrice - 1, 1]],
+  });
+  (CacheManager.getInstance as jest.Mock).mockReturnValue({
+    getExtensions: async () => new Map([["ecosystem", {}]]),
+  });
+  MatchingEngine.getInstance.mockResolvedValue({
+    getTicker: () => ({ last: indexPrice }),
+  });
+}
+
+const wallets: Record<string, { userId: string; balance: number }> = {};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  Object.keys(wallets).forEach((userId) => delete wallets[userId]);
+  (getUserWalletByCurrency as jest.Mock).mockImplementation(
+    async (userId: string) => wallets[userId]
+  );
+});
+
+describe("funding rate", () => {
+  it("measures the premium of the mark over the index", () => {
+    expect(calculatePremiumIndex(101, 100)).toBeCloseTo(0.01);
+    expect(calculatePremiumIndex(99, 100)).toBeCloseTo(-0.01);
+  });
+
+  it("charges the interest rate while the premium is within the clamp", () => {
+    expect(calculateFundingRate(0)).toBeCloseTo(0.0001);
+    expect(calculateFundingRate(0.0003)).toBeCloseTo(0.0001);
+  });
+
+  it("follows the premium beyond the clamp", () => {
+    expect(calculateFundingRate(0.002)).toBeCloseTo(0.0015);
+    expect(calculateFundingRate(-0.002)).toBeCloseTo(-0.0015);
+  });
+
+  it("caps the rate of a single interval", () => {
+    expect(calculateFundingRate(0.05)).toBe(0.0075);
+    expect(calculateFundingRate(-0.05)).toBe(-0.0075);
+  });
+});
+
+describe("settleFunding", () => {
+  it("moves funding from longs to shorts by notional", async () => {
+    setPrices(101, 100);
+    wallets.long = { userId: "long", balance: 1000 };
+    wallets.short1 = { userId: "short1", balance: 0 };
+    wallets.short2 = { userId: "short2", balance: 0 };
+    (getOpenPositionsBySymbol as jest.Mock).mockResolvedValue([
+      position("long", "BUY", 10),
+      position("short1", "SELL", 3),
+      position("short2", "SELL", 1),
+    ]);
+
+    await settleFunding("BTC/USDT", "USDT");
+
+    // Premium 1% gives a 0.75% capped rate on a 1010 notional
+    const calls = (updateWalletBalance as jest.Mock).mock.calls;
+    expect(calls[0][0]).toBe(wallets.long);
+    expect(calls[0][1]).toBeCloseTo(7.575);
+    expect(calls[0][2]).toBe("subtract");
+    expect(calls[1][1]).toBeCloseTo(5.68125);
+    expect(calls[2][1]).toBeCloseTo(1.89375);
+
+    const [payments] = (createFundingPayments as jest.Mock).mock.calls[0];
+    const total = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    expect(total).toBeCloseTo(0);
+  });
+
+  it("only shares out what the paying side could cover", async () => {
+    setPrices(99, 100);
+    wallets.long = { userId: "long", balance: 0 };
+    wallets.short = { userId: "short", balance: 2 };
+    (getOpenPositionsBySymbol as jest.Mock).mockResolvedValue([
+      position("long", "BUY", 10),
+      position("short", "SELL", 10),
+    ]);
+
+    await settleFunding("BTC/USDT", "USDT");
+
+    expect(updateWalletBalance).toHaveBeenNthCalledWith(
+      1,
+      wallets.short,
+      2,
+      "subtract"
+    );
+    expect(updateWalletBalance).toHaveBeenNthCalledWith(
+      2,
+      wallets.long,
+      2,
+      "add"
+    );
+  });
+
+  it("skips markets without both sides open", async () => {
+    setPrices(101, 100);
+    (getOpenPositionsBySymbol as jest.Mock).mockResolvedValue([
+      position("long", "BUY", 10),
+    ]);
+
+    await settleFunding("BTC/USDT", "USDT");
+
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+    expect(createFundingPayments).not.toHaveBeenCalled();
+  });
+});
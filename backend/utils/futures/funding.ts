@@ -0,0 +1,184 @@
+import { CacheManager } from "@b/utils/cache";
+import { fromBigInt } from "@b/utils/eco/blockchain";
+import { MatchingEngine } from "@b/utils/eco/matchingEngine";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import ExchangeManager from "@b/utils/exchange";
+import { logError } from "@b/utils/logger";
+import { loadBanStatus } from "@b/api/exchange/utils";
+import { getFuturesMarkets } from "./markets";
+import { FuturesMatchingEngine } from "./matchingEngine";
+import { getOrderBook } from "./queries/orderbook";
+import { getOpenPositionsBySymbol } from "./queries/positions";
+import {
+  createFundingPayments,
+  FuturesFundingPayment,
+} from "./queries/funding";
+import { getUserWalletByCurrency } from "./wallet";
+
+export const FUNDING_INTERVAL = 8 * 60 * 60 * 1000;
+
+// Interest rate per funding interval and the clamp applied around it
+const INTEREST_RATE = 0.0001;
+const INTEREST_CLAMP = 0.0005;
+// Largest rate charged in a single funding interval
+const MAX_FUNDING_RATE = 0.0075;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+/**
+ * The futures mark price, taken as the mid of the best bid and ask and falling
+ * back to the last traded price when one side of the book is empty.
+ */
+export async function getMarkPrice(symbol: string): Promise<number> {
+  const { asks, bids } = await getOrderBook(symbol);
+  if (asks.length > 0 && bids.length > 0) {
+    return (Number(asks[0][0]) + Number(bids[0][0])) / 2;
+  }
+
+  const engine = await FuturesMatchingEngine.getInstance();
+  return engine.getTicker(symbol).last;
+}
+
+/**
+ * The spot index price, read from the ecosystem market of the same symbol if
+ * there is one and from the exchange ticker otherwise.
+ */
+export async function getIndexPrice(symbol: string): Promise<number> {
+  const cacheManager = CacheManager.getInstance();
+  const extensions = await cacheManager.getExtensions();
+  if (extensions.has("ecosystem")) {
+    const engine = await MatchingEngine.getInstance();
+    const { last } = engine.getTicker(symbol);
+    if (last > 0) return last;
+  }
+
+  if (Date.now() < (await loadBanStatus())) return 0;
+
+  const exchange = await ExchangeManager.startExchange();
+  if (!exchange) return 0;
+
+  const ticker = await exchange.fetchTicker(symbol);
+  return ticker?.last || 0;
+}
+
+export function calculatePremiumIndex(
+  markPrice: number,
+  indexPrice: number
+): number {
+  return (markPrice - indexPrice) / indexPrice;
+}
+
+// A positive rate means longs pay shorts, a negative one the reverse
+export function calculateFundingRate(premiumIndex: number): number {
+  const rate =
+    premiumIndex +
+    clamp(INTEREST_RATE - premiumIndex, -INTEREST_CLAMP, INTEREST_CLAMP);
+  return clamp(rate, -MAX_FUNDING_RATE, MAX_FUNDING_RATE);
+}
+
+export async function processFuturesFunding() {
+  try {
+    const markets = await getFuturesMarkets();
+
+    for (const market of markets) {
+      const symbol = `${market.currency}/${market.pair}`;
+      try {
+        await settleFunding(symbol, market.pair);
+      } catch (error) {
+        logError("processFuturesFunding", error, __filename);
+      }
+    }
+  } catch (error) {
+    logError("processFuturesFunding", error, __filename);
+    throw error;
+  }
+}
+
+/**
+ * Settles one funding interval of a market. The paying side is charged first,
+ * capped at what its wallets hold, and the amount collected is shared out to
+ * the receiving side by notional so that funding never creates money.
+ */
+export async function settleFunding(symbol: string, pair: string) {
+  const positions = await getOpenPositionsBySymbol(symbol);
+  if (positions.length === 0) return;
+
+  const [markPrice, indexPrice] = await Promise.all([
+    getMarkPrice(symbol),
+    getIndexPrice(symbol),
+  ]);
+  if (!(markPrice > 0) || !(indexPrice > 0)) return;
+
+  const fundingRate = calculateFundingRate(
+    calculatePremiumIndex(markPrice, indexPrice)
+  );
+  if (fundingRate === 0) return;
+
+  const payingSide = fundingRate > 0 ? "BUY" : "SELL";
+  const notionalOf = (position) => fromBigInt(position.amount) * markPrice;
+  const payers = positions.filter((position) => position.side === payingSide);
+  const receivers = positions.filter(
+    (position) => position.side !== payingSide
+  );
+  if (payers.length === 0 || receivers.length === 0) return;
+
+  const createdAt = new Date();
+  const payments: Omit<FuturesFundingPayment, "id">[] = [];
+  const addPayment = (position, amount: number) =>
+    payments.push({
+      userId: position.userId,
+      positionId: position.id,
+      symbol,
+      side: position.side,
+      fundingRate,
+      markPrice,
+      indexPrice,
+      amount,
+      createdAt,
+    });
+
+  let collected = 0;
+  for (const position of payers) {
+    try {
+      const wallet = await getUserWalletByCurrency(position.userId, pair);
+      const due = roundTo8DecimalPlaces(
+        notionalOf(position) * Math.abs(fundingRate)
+      );
+      const paid = Math.min(due, wallet.balance);
+      if (paid <= 0) continue;
+
+      await updateWalletBalance(wallet, paid, "subtract");
+      collected += paid;
+      addPayment(position, -paid);
+    } catch (error) {
+      logError("settleFunding", error, __filename);
+    }
+  }
+
+  const receivingNotional = receivers.reduce(
+    (total, position) => total + notionalOf(position),
+    0
+  );
+  if (collected > 0 && receivingNotional > 0) {
+    for (const position of receivers) {
+      try {
+        const share = roundTo8DecimalPlaces(
+          (collected * notionalOf(position)) / receivingNotional
+        );
+        if (share <= 0) continue;
+
+        const wallet = await getUserWalletByCurrency(position.userId, pair);
+        await updateWalletBalance(wallet, share, "add");
+        addPayment(position, share);
+      } catch (error) {
+        logError("settleFunding", error, __filename);
+      }
+    }
+  }
+
+  await createFundingPayments(payments);
+}
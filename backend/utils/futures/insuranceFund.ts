@@ -0,0 +1,116 @@
+import { models, sequelize } from "@b/db";
+import { CacheManager } from "@b/utils/cache";
+import { setWalletBalances } from "@b/utils/ledger";
+import { logError } from "@b/utils/logger";
+
+export const INSURANCE_FUND_TRANSACTION_TYPES = [
+  "LIQUIDATION_SURPLUS",
+  "LIQUIDATION_SHORTFALL",
+];
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+/**
+ * Resolves the account whose FUTURES wallets hold the insurance fund: the
+ * user set in the `futuresInsuranceFundUserId` setting, or the first Super
+ * Admin when none is set.
+ */
+export async function getInsuranceFundUserId(): Promise<string> {
+  const configured = await CacheManager.getInstance().getSetting(
+    "futuresInsuranceFundUserId"
+  );
+  if (configured) return String(configured);
+
+  const owner = await models.user.findOne({
+    attributes: ["id"],
+    include: [
+      {
+        model: models.role,
+        as: "role",
+        where: { name: "Super Admin" },
+        attributes: [],
+      },
+    ],
+    order: [["createdAt", "ASC"]],
+  });
+  if (!owner) {
+    throw new Error("No account is set to hold the futures insurance fund");
+  }
+
+  return owner.id;
+}
+
+/**
+ * Books the outcome of a liquidation on the insurance fund wallet of its
+ * currency. A positive amount is a surplus paid into the fund, a negative one
+ * a shortfall the fund covers.
+ */
+export async function recordInsuranceFundChange({
+  currency,
+  amount,
+  symbol,
+  userId,
+  orderId,
+  description,
+}: {
+  currency: string;
+  amount: number;
+  symbol: string;
+  userId?: string;
+  orderId?: string;
+  description?: string;
+}): Promise<void> {
+  const change = roundTo8DecimalPlaces(amount);
+  if (change === 0) return;
+
+  try {
+    const fundUserId = await getInsuranceFundUserId();
+
+    await sequelize.transaction(async (transaction) => {
+      const [wallet] = await models.wallet.findOrCreate({
+        where: { userId: fundUserId, currency, type: "FUTURES" },
+        defaults: {
+          userId: fundUserId,
+          currency,
+          type: "FUTURES",
+          balance: 0,
+          inOrder: 0,
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      const balance = roundTo8DecimalPlaces(wallet.balance + change);
+      await setWalletBalances(
+        wallet,
+        { balance },
+        {
+          description: description || "Insurance fund liquidation outcome",
+          referenceType: orderId ? "futuresOrder" : undefined,
+          referenceId: orderId,
+        },
+        transaction
+      );
+
+      await models.transaction.create(
+        {
+          userId: fundUserId,
+          walletId: wallet.id,
+          type: change > 0 ? "LIQUIDATION_SURPLUS" : "LIQUIDATION_SHORTFALL",
+          status: "COMPLETED",
+          amount: Math.abs(change),
+          fee: 0,
+          description,
+          // The order reference keeps a liquidation from being booked twice
+          referenceId: orderId,
+          metadata: JSON.stringify({ symbol, userId, orderId, balance }),
+        },
+        { transaction }
+      );
+    });
+  } catch (error) {
+    logError("insurance_fund", error, __filename);
+    throw error;
+  }
+}
@@ -0,0 +1,260 @@
+import client from "@b/utils/eco/scylla/client";
+import { getMarkPrice } from "./funding";
+import { recordInsuranceFundChange } from "./insuranceFund";
+import {
+  calculateBankruptcyPrice,
+  calculateLiquidationPrice,
+  checkForLiquidation,
+  DEFAULT_MAINTENANCE_MARGIN_TIERS,
+  getMaintenanceMarginRate,
+  getMaintenanceMarginTiers,
+  getPositionPnl,
+  settleLiquidationOrder,
+} from "./liquidation";
+import { createOrder, type FuturesOrder } from "./queries/order";
+import { getPositions, type FuturesPosition } from "./queries/positions";
+import { getUserWalletByCurrency } from "./wallet";
+import { toBigIntFloat } from "@b/utils/eco/blockchain";
+
+jest.mock("@b/db", () => ({
+  models: { user: { findOne: jest.fn() } },
+}));
+
+jest.mock("@b/utils/eco/scylla/client", () => ({
+  __esModule: true,
+  default: { execute: jest.fn() },
+  scyllaFuturesKeyspace: "futures",
+}));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("@b/utils/eco/wallet", () => ({ updateWalletBalance: jest.fn() }));
+jest.mock("../emails", () => ({ emailQueue: { add: jest.fn() } }));
+jest.mock("./queries/positions", () => ({ getPositions: jest.fn() }));
+jest.mock("./queries/order", () => ({ createOrder: jest.fn() }));
+jest.mock("./ws", () => ({ handlePositionBroadcast: jest.fn() }));
+jest.mock("./markets", () => ({ getFuturesMarket: jest.fn() }));
+jest.mock("./funding", () => ({ getMarkPrice: jest.fn() }));
+jest.mock("./insuranceFund", () => ({ recordInsuranceFundChange: jest.fn() }));
+jest.mock("./wallet", () => ({ getUserWalletByCurrency: jest.fn() }));
+
+function makePosition(overrides: Partial<FuturesPosition>): FuturesPosition {
+  return {
+    id: "position-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    side: "BUY",
+    entryPrice: toBigIntFloat(100),
+    amount: toBigIntFloat(10),
+    leverage: 10,
+    unrealizedPnl: BigInt(0),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as FuturesPosition;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("maintenance margin tiers", () => {
+  it("falls back to the default tiers", () => {
+    expect(getMaintenanceMarginTiers({ metadata: {} })).toBe(
+      DEFAULT_MAINTENANCE_MARGIN_TIERS
+    );
+  });
+
+  it("sorts market tiers with the open-ended tier last", () => {
+    const tiers = getMaintenanceMarginTiers({
+      metadata: {
+        marginTiers: [
+          { maxNotional: "", maintenanceMarginRate: "4" },
+          { maxNotional: "10000", maintenanceMarginRate: "1" },
+        ],
+      },
+    });
+
+    expect(tiers).toEqual([
+      { maxNotional: 10000, maintenanceMarginRate: 1 },
+      { maxNotional: null, maintenanceMarginRate: 4 },
+    ]);
+  });
+
+  it("picks the rate of the tier the notional falls in", () => {
+    const tiers = DEFAULT_MAINTENANCE_MARGIN_TIERS;
+
+    expect(getMaintenanceMarginRate(tiers, 50000)).toBe(0.005);
+    expect(getMaintenanceMarginRate(tiers, 50001)).toBe(0.01);
+    expect(getMaintenanceMarginRate(tiers, 5000000)).toBe(0.05);
+  });
+});
+
+describe("liquidation prices", () => {
+  it("computes the bankruptcy price where the margin is used up", () => {
+    expect(calculateBankruptcyPrice("BUY", 100, 0.1)).toBeCloseTo(90);
+    expect(calculateBankruptcyPrice("SELL", 100, 0.1)).toBeCloseTo(110);
+    expect(calculateBankruptcyPrice("BUY", 100, 1.5)).toBe(0);
+  });
+
+  it("liquidates before bankruptcy by the maintenance margin", () => {
+    expect(calculateLiquidationPrice("BUY", 100, 0.1, 0.005)).toBeCloseTo(90.5);
+    expect(calculateLiquidationPrice("SELL", 100, 0.1, 0.005)).toBeCloseTo(
+      109.5
+    );
+  });
+
+  it("computes the profit and loss of both sides", () => {
+    const long = makePosition({ side: "BUY" });
+    const short = makePosition({ side: "SELL" });
+
+    expect(getPositionPnl(long, 110)).toBeCloseTo(100);
+    expect(getPositionPnl(short, 110)).toBeCloseTo(-100);
+  });
+});
+
+describe("checkForLiquidation", () => {
+  const applied = (wasApplied: boolean) =>
+    (client.execute as jest.Mock).mockResolvedValue({
+      wasApplied: () => wasApplied,
+    });
+
+  it("leaves an isolated position above its liquidation price open", async () => {
+    const position = makePosition({ liquidationPrice: toBigIntFloat(90.5) });
+
+    await checkForLiquidation(position, 91);
+
+    expect(client.execute).not.toHaveBeenCalled();
+    expect(position.status).toBe("OPEN");
+  });
+
+  it("sends a bankruptcy-priced close order once the price is breached", async () => {
+    applied(true);
+    const position = makePosition({ liquidationPrice: toBigIntFloat(90.5) });
+
+    await checkForLiquidation(position, 90);
+
+    expect(position.status).toBe("LIQUIDATED");
+    expect(createOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        side: "SELL",
+        type: "MARKET",
+        amount: position.amount,
+        price: toBigIntFloat(90),
+        isLiquidation: true,
+      })
+    );
+  });
+
+  it("does not liquidate a position another check already took over", async () => {
+    applied(false);
+    const position = makePosition({
+      side: "SELL",
+      liquidationPrice: toBigIntFloat(109.5),
+    });
+
+    await checkForLiquidation(position, 110);
+
+    expect(createOrder).not.toHaveBeenCalled();
+    expect(position.status).toBe("OPEN");
+  });
+});
+
+describe("cross margin liquidation", () => {
+  const cross = (overrides: Partial<FuturesPosition>) =>
+    makePosition({
+      marginMode: "CROSS",
+      margin: toBigIntFloat(100),
+      ...overrides,
+    });
+
+  // A long in BTC at 100 and a long in ETH at 100, 10 of each, sharing a
+  // wallet of 50 with 100 margin each
+  function setAccount(ethMarkPrice: number) {
+    const btc = cross({});
+    const eth = cross({
+      id: "position-2",
+      symbol: "ETH/USDT",
+      // The stored profit dates from the last ETH trade
+      unrealizedPnl: toBigIntFloat(500),
+    });
+    (getPositions as jest.Mock).mockResolvedValue([btc, eth]);
+    (getUserWalletByCurrency as jest.Mock).mockResolvedValue({ balance: 50 });
+    (getMarkPrice as jest.Mock).mockResolvedValue(ethMarkPrice);
+    (client.execute as jest.Mock).mockResolvedValue({ wasApplied: () => true });
+    return btc;
+  }
+
+  it("offsets the loss of a position with the profit of another", async () => {
+    const btc = setAccount(120);
+
+    // Equity 50 + 200 - 250 + 200 = 200 against 9.75 maintenance
+    await checkForLiquidation(btc, 75);
+
+    expect(getMarkPrice).toHaveBeenCalledWith("ETH/USDT");
+    expect(btc.status).toBe("OPEN");
+  });
+
+  it("values the other positions at their mark price, not their stored profit", async () => {
+    const btc = setAccount(80);
+
+    // Equity 50 + 200 - 250 - 200 = -200, the stored +500 would have kept it
+    await checkForLiquidation(btc, 75);
+
+    expect(btc.status).toBe("LIQUIDATED");
+    expect(createOrder).toHaveBeenCalled();
+  });
+
+  it("falls back to the entry price when there is no mark price", async () => {
+    const btc = setAccount(0);
+
+    // Equity 50 + 200 - 250 = 0 against 8.75 maintenance
+    await checkForLiquidation(btc, 75);
+
+    expect(btc.status).toBe("LIQUIDATED");
+  });
+});
+
+describe("settleLiquidationOrder", () => {
+  const liquidationOrder = (side: string, trades: object[]) =>
+    ({
+      id: "order-1",
+      userId: "user-1",
+      symbol: "BTC/USDT",
+      side,
+      price: toBigIntFloat(90),
+      feeCurrency: "USDT",
+      trades: JSON.stringify(trades),
+    }) as FuturesOrder;
+
+  it("pays the surplus of a close above bankruptcy into the fund", async () => {
+    await settleLiquidationOrder(
+      liquidationOrder("SELL", [
+        { amount: 6, cost: 552 },
+        { amount: 4, cost: 364 },
+      ])
+    );
+
+    const [change] = (recordInsuranceFundChange as jest.Mock).mock.calls[0];
+    expect(change).toMatchObject({ currency: "USDT", orderId: "order-1" });
+    expect(change.amount).toBeCloseTo(16);
+  });
+
+  it("covers the shortfall of a close below bankruptcy from the fund", async () => {
+    await settleLiquidationOrder(
+      liquidationOrder("SELL", [{ amount: 10, cost: 880 }])
+    );
+
+    const [change] = (recordInsuranceFundChange as jest.Mock).mock.calls[0];
+    expect(change.amount).toBeCloseTo(-20);
+  });
+
+  it("mirrors the outcome for a short closed by a buy", async () => {
+    await settleLiquidationOrder(
+      liquidationOrder("BUY", [{ amount: 10, cost: 880 }])
+    );
+
+    const [change] = (recordInsuranceFundChange as jest.Mock).mock.calls[0];
+    expect(change.amount).toBeCloseTo(20);
+  });
+});
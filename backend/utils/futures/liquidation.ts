@@ -1,112 +1,340 @@
 import { fromBigInt, toBigIntFloat } from "@b/utils/eco/blockchain";
 import client, { scyllaFuturesKeyspace } from "@b/utils/eco/scylla/client";
 import { emailQueue } from "../emails";
-import {
-  getWalletByUserIdAndCurrency,
-  updateWalletBalance,
-} from "@b/utils/eco/wallet";
 import { models } from "@b/db";
-import { FuturesPosition } from "./queries/positions";
+import { logError } from "@b/utils/logger";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import {
+  FuturesMarginMode,
+  FuturesPosition,
+  getPositions,
+} from "./queries/positions";
+import { createOrder, FuturesOrder } from "./queries/order";
 import { handlePositionBroadcast } from "./ws";
+import { getFuturesMarket } from "./markets";
+import { getMarkPrice } from "./funding";
+import { recordInsuranceFundChange } from "./insuranceFund";
+import { getUserWalletByCurrency } from "./wallet";
+
+export interface MaintenanceMarginTier {
+  // Upper bound of the position notional, null for the last tier
+  maxNotional: number | null;
+  // Maintenance margin as a percentage of the notional
+  maintenanceMarginRate: number;
+}
+
+// Used for markets whose metadata has no marginTiers of their own
+export const DEFAULT_MAINTENANCE_MARGIN_TIERS: MaintenanceMarginTier[] = [
+  { maxNotional: 50000, maintenanceMarginRate: 0.5 },
+  { maxNotional: 250000, maintenanceMarginRate: 1 },
+  { maxNotional: 1000000, maintenanceMarginRate: 2.5 },
+  { maxNotional: null, maintenanceMarginRate: 5 },
+];
+
+export function getMaintenanceMarginTiers(
+  market: any
+): MaintenanceMarginTier[] {
+  const tiers = market?.metadata?.marginTiers;
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return DEFAULT_MAINTENANCE_MARGIN_TIERS;
+  }
+
+  return tiers
+    .map((tier) => ({
+      maxNotional:
+        tier.maxNotional === null ||
+        tier.maxNotional === undefined ||
+        tier.maxNotional === ""
+          ? null
+          : Number(tier.maxNotional),
+      maintenanceMarginRate: Number(tier.maintenanceMarginRate),
+    }))
+    .sort((a, b) => (a.maxNotional ?? Infinity) - (b.maxNotional ?? Infinity));
+}
+
+/**
+ * Looks up the maintenance margin rate of the tier a notional falls in.
+ * @returns The rate as a fraction of the notional.
+ */
+export function getMaintenanceMarginRate(
+  tiers: MaintenanceMarginTier[],
+  notional: number
+): number {
+  const tier =
+    tiers.find(
+      (tier) => tier.maxNotional === null || notional <= tier.maxNotional
+    ) || tiers[tiers.length - 1];
+  return tier.maintenanceMarginRate / 100;
+}
+
+// The margin backing a position, derived from its leverage for positions
+// opened before margins were tracked
+export function getPositionMargin(
+  position: Pick<FuturesPosition, "entryPrice" | "amount" | "leverage"> & {
+    margin?: bigint;
+  }
+): number {
+  if (position.margin !== undefined) {
+    return fromBigInt(position.margin);
+  }
+  return (
+    (fromBigInt(position.entryPrice) * fromBigInt(position.amount)) /
+    Math.max(1, position.leverage)
+  );
+}
+
+// Unrealized profit or loss of a position at the given price
+export function getPositionPnl(
+  position: Pick<FuturesPosition, "side" | "entryPrice" | "amount">,
+  price: number
+): number {
+  const difference = price - fromBigInt(position.entryPrice);
+  return (
+    (position.side === "BUY" ? difference : -difference) *
+    fromBigInt(position.amount)
+  );
+}
+
+// The price at which the margin backing the position is used up. The margin
+// ratio is the margin as a fraction of the entry notional.
+export function calculateBankruptcyPrice(
+  side: string,
+  entryPrice: number,
+  marginRatio: number
+): number {
+  return side === "BUY"
+    ? Math.max(0, entryPrice * (1 - marginRatio))
+    : entryPrice * (1 + marginRatio);
+}
+
+// The price at which the margin left equals the maintenance margin
+export function calculateLiquidationPrice(
+  side: string,
+  entryPrice: number,
+  marginRatio: number,
+  maintenanceMarginRate: number
+): number {
+  return side === "BUY"
+    ? Math.max(0, entryPrice * (1 - marginRatio + maintenanceMarginRate))
+    : entryPrice * (1 + marginRatio - maintenanceMarginRate);
+}
+
+export async function getPositionMaintenanceMarginRate(
+  position: Pick<FuturesPosition, "symbol" | "entryPrice" | "amount">
+): Promise<number> {
+  const market = await getFuturesMarket(position.symbol);
+  return getMaintenanceMarginRate(
+    getMaintenanceMarginTiers(market),
+    fromBigInt(position.entryPrice) * fromBigInt(position.amount)
+  );
+}
+
+/**
+ * Computes the liquidation price of a position. Cross positions are also
+ * backed by the free balance of their FUTURES wallet, so their price is an
+ * estimate that assumes the user's other positions stay where they are.
+ */
+export async function getPositionLiquidationPrice(
+  position: Pick<
+    FuturesPosition,
+    "userId" | "symbol" | "side" | "entryPrice" | "amount" | "leverage"
+  > & { marginMode?: FuturesMarginMode; margin?: bigint }
+): Promise<bigint> {
+  const entryPrice = fromBigInt(position.entryPrice);
+  const notional = entryPrice * fromBigInt(position.amount);
+  if (notional === 0) return BigInt(0);
+
+  let collateral = getPositionMargin(position);
+  if (position.marginMode === "CROSS") {
+    const [, pair] = position.symbol.split("/");
+    const wallet = await getUserWalletByCurrency(position.userId, pair);
+    collateral += wallet.balance;
+  }
 
-const calculateMargin = (
+  return toBigIntFloat(
+    calculateLiquidationPrice(
+      position.side,
+      entryPrice,
+      collateral / notional,
+      await getPositionMaintenanceMarginRate(position)
+    )
+  );
+}
+
+/**
+ * Checks the account of a cross position at the given price. All open cross
+ * positions settled in the same currency share the wallet balance, so the
+ * profit of one offsets the loss of another. The other positions are valued
+ * at their mark price rather than their stored unrealized profit, which is
+ * only refreshed when they trade.
+ * @returns The wallet balance the position needs on top of its margin to
+ * cover its loss, or null when the account is above maintenance.
+ */
+async function getCrossMarginShortfall(
   position: FuturesPosition,
   matchedPrice: number
-): number => {
-  const currentPriceBigInt = toBigIntFloat(matchedPrice); // Scale up by 18
-  const entryPriceBigInt = position.entryPrice;
-  const leverageBigInt = BigInt(position.leverage);
-
-  // Ensure entryPriceBigInt is not zero to avoid division by zero
-  if (entryPriceBigInt === BigInt(0)) {
-    throw new Error("Entry price cannot be zero");
+): Promise<number | null> {
+  const [, pair] = position.symbol.split("/");
+  const wallet = await getUserWalletByCurrency(position.userId, pair);
+  const crossPositions = (
+    await getPositions(position.userId, undefined, "OPEN")
+  ).filter(
+    (other) =>
+      other.marginMode === "CROSS" && other.symbol.split("/")[1] === pair
+  );
+
+  const prices: Record<string, number> = { [position.symbol]: matchedPrice };
+  for (const other of crossPositions) {
+    if (prices[other.symbol] === undefined) {
+      const markPrice = await getMarkPrice(other.symbol);
+      prices[other.symbol] =
+        markPrice > 0 ? markPrice : fromBigInt(other.entryPrice);
+    }
   }
 
-  // Calculate price difference based on the side of the position
-  const priceDifferenceBigInt =
-    position.side === "BUY"
-      ? currentPriceBigInt - entryPriceBigInt
-      : entryPriceBigInt - currentPriceBigInt;
-  const entryPriceWithLeverageBigInt = entryPriceBigInt / leverageBigInt;
-  const marginBigInt =
-    (priceDifferenceBigInt * BigInt(1000000000000000000)) /
-    entryPriceWithLeverageBigInt;
+  let equity = wallet.balance;
+  let maintenanceMargin = 0;
+  for (const other of crossPositions) {
+    const price = prices[other.symbol];
 
-  // Convert margin back to number for the result
-  const margin = Number(marginBigInt) / 1000000000000000000;
+    equity += getPositionMargin(other) + getPositionPnl(other, price);
+    maintenanceMargin +=
+      (await getPositionMaintenanceMarginRate(other)) *
+      price *
+      fromBigInt(other.amount);
+  }
 
-  return margin;
-};
+  if (equity > maintenanceMargin) return null;
+
+  const loss = -getPositionPnl(position, matchedPrice);
+  return Math.min(
+    wallet.balance,
+    Math.max(0, loss - getPositionMargin(position))
+  );
+}
 
 export const checkForLiquidation = async (
   position: FuturesPosition,
   matchedPrice: number
 ) => {
-  const margin = calculateMargin(position, matchedPrice);
-
-  const partialLiquidationThreshold = -0.8; // 80% loss for partial liquidation
-  const fullLiquidationThreshold = -1.0; // 100% loss for full liquidation
-
-  if (
-    margin <= partialLiquidationThreshold &&
-    margin > fullLiquidationThreshold
-  ) {
-    await liquidatePosition(position, matchedPrice, true); // Partial liquidation
-  } else if (margin <= fullLiquidationThreshold) {
-    await liquidatePosition(position, matchedPrice); // Full liquidation
+  if (position.status !== "OPEN") return;
+
+  if (position.marginMode === "CROSS") {
+    const shortfall = await getCrossMarginShortfall(position, matchedPrice);
+    if (shortfall !== null) {
+      await liquidatePosition(position, matchedPrice, shortfall);
+    }
+    return;
+  }
+
+  const liquidationPrice =
+    position.liquidationPrice ?? (await getPositionLiquidationPrice(position));
+  const currentPrice = toBigIntFloat(matchedPrice);
+
+  const breached =
+    position.side === "BUY"
+      ? currentPrice <= liquidationPrice
+      : currentPrice >= liquidationPrice;
+
+  if (breached) {
+    await liquidatePosition(position, matchedPrice);
   }
 };
 
+/**
+ * Takes over a position that fell through its liquidation price. The margin,
+ * and for cross positions the wallet balance needed to cover the loss, is
+ * forfeited and the position is closed out on the book by a market order
+ * priced at bankruptcy; the difference to the actual fills goes to the
+ * insurance fund once the order is filled.
+ */
 export const liquidatePosition = async (
   position: FuturesPosition,
   matchedPrice: number,
-  partial: boolean = false
+  walletCollateral = 0
 ) => {
-  // Calculate the amount to liquidate
-  const amountToLiquidate = partial
-    ? (position.amount * BigInt(80)) / BigInt(100) // Liquidate 80% of the position in partial liquidation
-    : position.amount;
-
-  // Update the position in the database
-  await client.execute(
-    `UPDATE ${scyllaFuturesKeyspace}.position SET amount = ?, status = ? WHERE "userId" = ? AND id = ?`,
-    [
-      partial ? amountToLiquidate.toString() : "0",
-      partial ? "PARTIALLY_LIQUIDATED" : "LIQUIDATED",
-      position.userId,
-      position.id,
-    ],
+  // Only the first caller to move the position out of OPEN liquidates it
+  const result = await client.execute(
+    `UPDATE ${scyllaFuturesKeyspace}.position SET status = 'LIQUIDATED', "updatedAt" = ? WHERE "userId" = ? AND id = ? IF status = 'OPEN'`,
+    [new Date(), position.userId, position.id],
     { prepare: true }
   );
+  if (!result.wasApplied()) return;
 
-  // Update the user's wallet balance
-  const wallet = await getWalletByUserIdAndCurrency(
-    position.userId,
-    position.symbol.split("/")[1]
-  );
+  position.status = "LIQUIDATED";
 
-  if (wallet) {
-    const amountToRefund =
-      fromBigInt(amountToLiquidate) * fromBigInt(position.entryPrice);
-    await updateWalletBalance(wallet, amountToRefund, "add");
+  const [, pair] = position.symbol.split("/");
+  if (walletCollateral > 0) {
+    const wallet = await getUserWalletByCurrency(position.userId, pair);
+    await updateWalletBalance(wallet, walletCollateral, "subtract");
   }
 
+  const entryPrice = fromBigInt(position.entryPrice);
+  const bankruptcyPrice = calculateBankruptcyPrice(
+    position.side,
+    entryPrice,
+    (getPositionMargin(position) + walletCollateral) /
+      (entryPrice * fromBigInt(position.amount))
+  );
+
+  // The position amount is already leveraged, so the order is not
+  await createOrder({
+    userId: position.userId,
+    symbol: position.symbol,
+    amount: position.amount,
+    price: toBigIntFloat(bankruptcyPrice),
+    cost: BigInt(0),
+    type: "MARKET",
+    side: position.side === "BUY" ? "SELL" : "BUY",
+    fee: BigInt(0),
+    feeCurrency: pair,
+    leverage: 1,
+    isLiquidation: true,
+  });
+
   // Broadcast position update
   await handlePositionBroadcast(position);
 
   // Send liquidation email
   const user = await models.user.findOne({ where: { id: position.userId } });
   if (user && user.email) {
-    if (partial) {
-      await sendPartialLiquidationNotificationEmail(
-        user,
-        position,
-        matchedPrice
-      );
-    } else {
-      await sendLiquidationNotificationEmail(user, position, matchedPrice);
+    await sendLiquidationNotificationEmail(user, position, matchedPrice);
+  }
+};
+
+/**
+ * Books a filled liquidation order against the insurance fund. Closing out
+ * at a better price than bankruptcy leaves a surplus, a worse price a
+ * shortfall.
+ */
+export const settleLiquidationOrder = async (order: FuturesOrder) => {
+  let trades: any = [];
+  try {
+    trades = JSON.parse(order.trades || "[]");
+    if (typeof trades === "string") {
+      trades = JSON.parse(trades);
     }
+  } catch (error) {
+    logError("settle_liquidation_order", error, __filename);
+    return;
   }
+
+  const filled = trades.reduce((sum, trade) => sum + Number(trade.amount), 0);
+  const proceeds = trades.reduce((sum, trade) => sum + Number(trade.cost), 0);
+  const bankruptcyPrice = fromBigInt(order.price);
+  const bankruptcyValue = bankruptcyPrice * filled;
+
+  await recordInsuranceFundChange({
+    currency: order.feeCurrency,
+    amount:
+      order.side === "SELL"
+        ? proceeds - bankruptcyValue
+        : bankruptcyValue - proceeds,
+    symbol: order.symbol,
+    userId: order.userId,
+    orderId: order.id,
+    description: `Liquidation of ${filled} ${order.symbol} against bankruptcy price ${bankruptcyPrice}`,
+  });
 };
 
 export const sendWarningEmail = async (
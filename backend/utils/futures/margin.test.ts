@@ -0,0 +1,165 @@
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import {
+  addIsolatedMargin,
+  changePositionLeverage,
+  changePositionMarginMode,
+  getRemovableMargin,
+  removeIsolatedMargin,
+} from "./margin";
+import { getFuturesMarket } from "./markets";
+import type { FuturesPosition } from "./queries/positions";
+import { updatePositionMargin } from "./queries/positions";
+import { getUserWalletByCurrency } from "./wallet";
+import { toBigIntFloat } from "@b/utils/eco/blockchain";
+
+jest.mock("@b/db", () => ({ models: {} }));
+jest.mock("@b/utils/eco/wallet", () => ({ updateWalletBalance: jest.fn() }));
+jest.mock("@b/utils/eco/scylla/client", () => ({
+  __esModule: true,
+  default: { execute: jest.fn() },
+  scyllaFuturesKeyspace: "futures",
+}));
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+jest.mock("../emails", () => ({ emailQueue: { add: jest.fn() } }));
+jest.mock("./funding", () => ({ getMarkPrice: jest.fn() }));
+jest.mock("./insuranceFund", () => ({ recordInsuranceFundChange: jest.fn() }));
+jest.mock("./queries/order", () => ({ createOrder: jest.fn() }));
+jest.mock("./markets", () => ({ getFuturesMarket: jest.fn() }));
+jest.mock("./matchingEngine", () => ({
+  FuturesMatchingEngine: { getInstance: jest.fn() },
+}));
+jest.mock("./queries/positions", () => ({
+  getPositions: jest.fn(),
+  updatePositionMargin: jest.fn(),
+}));
+jest.mock("./wallet", () => ({ getUserWalletByCurrency: jest.fn() }));
+jest.mock("./ws", () => ({ handlePositionBroadcast: jest.fn() }));
+
+const { FuturesMatchingEngine } = jest.requireMock("./matchingEngine");
+
+// A long of 10 at 100 with 10x leverage, so 100 of margin
+function makePosition(overrides: Partial<FuturesPosition>): FuturesPosition {
+  return {
+    id: "position-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    side: "BUY",
+    entryPrice: toBigIntFloat(100),
+    amount: toBigIntFloat(10),
+    leverage: 10,
+    unrealizedPnl: BigInt(0),
+    marginMode: "ISOLATED",
+    margin: toBigIntFloat(100),
+    status: "OPEN",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function setLastPrice(last: number) {
+  FuturesMatchingEngine.getInstance.mockResolvedValue({
+    getTicker: () => ({ last }),
+  });
+}
+
+const wallet = { balance: 0 };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  wallet.balance = 1000;
+  (getUserWalletByCurrency as jest.Mock).mockResolvedValue(wallet);
+  (getFuturesMarket as jest.Mock).mockResolvedValue(null);
+  setLastPrice(100);
+});
+
+describe("getRemovableMargin", () => {
+  it("keeps the initial margin of the leverage", async () => {
+    const position = makePosition({ margin: toBigIntFloat(150) });
+
+    expect(await getRemovableMargin(position)).toBeCloseTo(50);
+  });
+
+  it("also holds back the unrealized loss", async () => {
+    setLastPrice(98);
+    const position = makePosition({ margin: toBigIntFloat(150) });
+
+    expect(await getRemovableMargin(position)).toBeCloseTo(30);
+  });
+
+  it("does not release unrealized profit", async () => {
+    setLastPrice(110);
+    const position = makePosition({ margin: toBigIntFloat(150) });
+
+    expect(await getRemovableMargin(position)).toBeCloseTo(50);
+  });
+});
+
+describe("isolated margin", () => {
+  it("moves added margin from the wallet to the position", async () => {
+    const updated = await addIsolatedMargin(makePosition({}), 25);
+
+    expect(updateWalletBalance).toHaveBeenCalledWith(wallet, 25, "subtract");
+    expect(updated.margin).toBe(toBigIntFloat(125));
+    expect(updatePositionMargin).toHaveBeenCalledWith(
+      "user-1",
+      "position-1",
+      expect.objectContaining({ margin: toBigIntFloat(125) })
+    );
+  });
+
+  it("refuses to remove more than the removable margin", async () => {
+    await expect(
+      removeIsolatedMargin(makePosition({ margin: toBigIntFloat(120) }), 30)
+    ).rejects.toThrow("At most 20 can be removed from this position");
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+
+  it("only works on isolated positions", async () => {
+    await expect(
+      addIsolatedMargin(makePosition({ marginMode: "CROSS" }), 10)
+    ).rejects.toThrow("Margin can only be added to isolated positions");
+  });
+});
+
+describe("changePositionLeverage", () => {
+  it("takes the missing margin from the wallet when lowering leverage", async () => {
+    const updated = await changePositionLeverage(makePosition({}), 5);
+
+    expect(updateWalletBalance).toHaveBeenCalledWith(wallet, 100, "subtract");
+    expect(updated.leverage).toBe(5);
+    expect(updated.margin).toBe(toBigIntFloat(200));
+    // 20% margin less the 0.5% maintenance margin of the first tier
+    expect(updated.liquidationPrice).toBe(toBigIntFloat(80.5));
+  });
+
+  it("releases the margin no longer needed when raising leverage", async () => {
+    const updated = await changePositionLeverage(makePosition({}), 20);
+
+    expect(updateWalletBalance).toHaveBeenCalledWith(wallet, 50, "add");
+    expect(updated.margin).toBe(toBigIntFloat(50));
+  });
+
+  it("rejects a leverage the market does not offer", async () => {
+    (getFuturesMarket as jest.Mock).mockResolvedValue({
+      metadata: { limits: { leverage: "5,10" } },
+    });
+
+    await expect(changePositionLeverage(makePosition({}), 20)).rejects.toThrow(
+      "Leverage must be one of 5, 10"
+    );
+  });
+});
+
+describe("changePositionMarginMode", () => {
+  it("refuses to isolate a position whose margin its loss exceeds", async () => {
+    setLastPrice(89);
+
+    await expect(
+      changePositionMarginMode(
+        makePosition({ marginMode: "CROSS" }),
+        "ISOLATED"
+      )
+    ).rejects.toThrow("Position margin does not cover its unrealized loss");
+  });
+});
@@ -0,0 +1,192 @@
+import { fromBigInt, toBigIntFloat } from "@b/utils/eco/blockchain";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import {
+  checkForLiquidation,
+  getPositionLiquidationPrice,
+  getPositionMargin,
+  getPositionPnl,
+} from "./liquidation";
+import { getFuturesMarket } from "./markets";
+import { FuturesMatchingEngine } from "./matchingEngine";
+import {
+  FuturesMarginMode,
+  FuturesPosition,
+  updatePositionMargin,
+} from "./queries/positions";
+import { getUserWalletByCurrency } from "./wallet";
+import { handlePositionBroadcast } from "./ws";
+
+const roundTo8DecimalPlaces = (num: number) =>
+  Math.round((num + Number.EPSILON) * 1e8) / 1e8;
+
+// The margin a position must hold at the given leverage
+const getInitialMargin = (position: FuturesPosition, leverage: number) =>
+  (fromBigInt(position.entryPrice) * fromBigInt(position.amount)) / leverage;
+
+const getPositionWallet = (position: FuturesPosition) =>
+  getUserWalletByCurrency(position.userId, position.symbol.split("/")[1]);
+
+async function getLastPrice(symbol: string): Promise<number> {
+  const engine = await FuturesMatchingEngine.getInstance();
+  return engine.getTicker(symbol).last;
+}
+
+/**
+ * The margin that can be taken out of a position without dropping it below
+ * the initial margin of its leverage, after covering any unrealized loss.
+ */
+export async function getRemovableMargin(
+  position: FuturesPosition,
+  leverage = position.leverage
+): Promise<number> {
+  const lastPrice = await getLastPrice(position.symbol);
+  const pnl = lastPrice > 0 ? getPositionPnl(position, lastPrice) : 0;
+
+  return Math.max(
+    0,
+    roundTo8DecimalPlaces(
+      getPositionMargin(position) +
+        Math.min(0, pnl) -
+        getInitialMargin(position, leverage)
+    )
+  );
+}
+
+/**
+ * Stores new margin settings on an open position, recomputes its liquidation
+ * price and re-runs the liquidation check at the last traded price.
+ */
+async function applyMarginChange(
+  position: FuturesPosition,
+  changes: {
+    leverage?: number;
+    marginMode?: FuturesMarginMode;
+    margin?: number;
+  }
+): Promise<FuturesPosition> {
+  const margin = toBigIntFloat(changes.margin ?? getPositionMargin(position));
+  const updated: FuturesPosition = {
+    ...position,
+    leverage: changes.leverage ?? position.leverage,
+    marginMode: changes.marginMode ?? position.marginMode,
+    margin,
+  };
+  const liquidationPrice = await getPositionLiquidationPrice(updated);
+  updated.liquidationPrice = liquidationPrice;
+
+  await updatePositionMargin(updated.userId, updated.id, {
+    leverage: updated.leverage,
+    marginMode: updated.marginMode,
+    margin,
+    liquidationPrice,
+  });
+  await handlePositionBroadcast(updated);
+
+  const lastPrice = await getLastPrice(updated.symbol);
+  if (lastPrice > 0) {
+    await checkForLiquidation(updated, lastPrice);
+  }
+
+  return updated;
+}
+
+export async function addIsolatedMargin(
+  position: FuturesPosition,
+  amount: number
+): Promise<FuturesPosition> {
+  if (position.marginMode !== "ISOLATED") {
+    throw new Error("Margin can only be added to isolated positions");
+  }
+
+  const wallet = await getPositionWallet(position);
+  if (wallet.balance < amount) {
+    throw new Error("Insufficient balance");
+  }
+
+  await updateWalletBalance(wallet, amount, "subtract");
+  return applyMarginChange(position, {
+    margin: getPositionMargin(position) + amount,
+  });
+}
+
+export async function removeIsolatedMargin(
+  position: FuturesPosition,
+  amount: number
+): Promise<FuturesPosition> {
+  if (position.marginMode !== "ISOLATED") {
+    throw new Error("Margin can only be removed from isolated positions");
+  }
+
+  const removable = await getRemovableMargin(position);
+  if (amount > removable) {
+    throw new Error(`At most ${removable} can be removed from this position`);
+  }
+
+  const wallet = await getPositionWallet(position);
+  await updateWalletBalance(wallet, amount, "add");
+  return applyMarginChange(position, {
+    margin: getPositionMargin(position) - amount,
+  });
+}
+
+/**
+ * Moves the margin of a position to the initial margin of a new leverage.
+ * Lowering the leverage takes the missing margin from the wallet, raising it
+ * releases the margin that is no longer needed and not held by a loss.
+ */
+export async function changePositionLeverage(
+  position: FuturesPosition,
+  leverage: number
+): Promise<FuturesPosition> {
+  const market = (await getFuturesMarket(position.symbol)) as any;
+  const allowed = market?.metadata?.limits?.leverage
+    ? String(market.metadata.limits.leverage).split(",").map(Number)
+    : null;
+  if (allowed && !allowed.includes(leverage)) {
+    throw new Error(`Leverage must be one of ${allowed.join(", ")}`);
+  }
+
+  const margin = getPositionMargin(position);
+  const requiredMargin = roundTo8DecimalPlaces(
+    getInitialMargin(position, leverage)
+  );
+  const wallet = await getPositionWallet(position);
+
+  if (requiredMargin > margin) {
+    const missing = roundTo8DecimalPlaces(requiredMargin - margin);
+    if (wallet.balance < missing) {
+      throw new Error(`Insufficient balance. You need ${missing}`);
+    }
+    await updateWalletBalance(wallet, missing, "subtract");
+    return applyMarginChange(position, { leverage, margin: requiredMargin });
+  }
+
+  const released = await getRemovableMargin(position, leverage);
+  if (released > 0) {
+    await updateWalletBalance(wallet, released, "add");
+  }
+  return applyMarginChange(position, { leverage, margin: margin - released });
+}
+
+/**
+ * Switches a position between isolated and cross margin. Leaving cross margin
+ * is refused when the position could not stand on its own margin.
+ */
+export async function changePositionMarginMode(
+  position: FuturesPosition,
+  marginMode: FuturesMarginMode
+): Promise<FuturesPosition> {
+  if (position.marginMode === marginMode) {
+    return position;
+  }
+
+  if (marginMode === "ISOLATED") {
+    const lastPrice = await getLastPrice(position.symbol);
+    const pnl = lastPrice > 0 ? getPositionPnl(position, lastPrice) : 0;
+    if (getPositionMargin(position) + pnl <= 0) {
+      throw new Error("Position margin does not cover its unrealized loss");
+    }
+  }
+
+  return applyMarginChange(position, { marginMode });
+}
@@ -7,3 +7,12 @@ export async function getFuturesMarkets(): Promise<futuresMarketAttributes[]> {
     },
   });
 }
+
+export async function getFuturesMarket(
+  symbol: string
+): Promise<futuresMarketAttributes | null> {
+  const [currency, pair] = symbol.split("/");
+  return models.futuresMarket.findOne({
+    where: { currency, pair },
+  });
+}
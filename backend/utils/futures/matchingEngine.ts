@@ -7,6 +7,7 @@ import {
   handleTickerBroadcast,
   handleTickersBroadcast,
   handlePositionBroadcast,
+  handleOrderGroupBroadcast,
 } from "./ws";
 import { getFuturesMarkets } from "./markets";
 import { logError } from "@b/utils/logger";
@@ -17,9 +18,14 @@ import {
 } from "@b/utils/eco/blockchain";
 import { getLatestOrdersForCandles, intervals } from "./candles";
 import { normalizeTimeToInterval } from "@b/utils/eco/ws";
-import { matchAndCalculateOrders, validateOrder } from "./matchmaking";
+import {
+  matchAndCalculateOrders,
+  updateOrderBook,
+  validateOrder,
+} from "./matchmaking";
 import { Candle } from "@b/utils/eco/scylla/queries";
 import {
+  cancelOrderByUuid,
   FuturesOrder,
   generateOrderUpdateQueries,
   getAllOpenOrders,
@@ -34,11 +40,26 @@ import {
 } from "./queries/orderbook";
 import {
   getAllOpenPositions,
+  getOpenPositionsBySymbol,
   getPositions,
   updatePositionInDB,
 } from "./queries/positions"; // Import getPositions and updatePositionInDB
-import { checkForLiquidation } from "./liquidation"; // Import checkForLiquidation
+import { checkForLiquidation, settleLiquidationOrder } from "./liquidation";
 import { calculateUnrealizedPnl } from "./position";
+import {
+  FuturesOrderGroup,
+  FuturesOrderLeg,
+  getAllActiveOrderGroups,
+  updateOrderGroup,
+} from "./queries/orderGroup";
+import {
+  getRefundAmount,
+  refundFuturesOrder,
+  resolveOrderGroupStatus,
+} from "./orderGroup";
+import { placeFuturesOrder } from "./order";
+import { isStopReached } from "@b/utils/eco/triggerOrders";
+import { makeUuid } from "@b/utils/passwords";
 
 export class FuturesMatchingEngine {
   private static instancePromise: Promise<FuturesMatchingEngine> | null = null;
@@ -47,6 +68,7 @@ export class FuturesMatchingEngine {
   private lockedOrders: Set<string> = new Set();
   private lastCandle: Record<string, Record<string, Candle>> = {};
   private yesterdayCandle: Record<string, Candle> = {};
+  private orderGroups: Record<string, FuturesOrderGroup[]> = {};
 
   public static getInstance(): Promise<FuturesMatchingEngine> {
     if (!this.instancePromise) {
@@ -61,6 +83,7 @@ export class FuturesMatchingEngine {
 
   public async init() {
     await this.initializeMarkets();
+    await this.initializeOrderGroups();
     await this.initializeOrders();
     await this.initializeLastCandles();
     await this.initializeYesterdayCandles();
@@ -75,6 +98,21 @@ export class FuturesMatchingEngine {
     });
   }
 
+  private async initializeOrderGroups() {
+    try {
+      const activeGroups = await getAllActiveOrderGroups();
+      activeGroups.forEach((group) => {
+        if (!this.orderGroups[group.symbol]) {
+          this.orderGroups[group.symbol] = [];
+        }
+        this.orderGroups[group.symbol].push(group);
+      });
+    } catch (error) {
+      logError("matching_engine", error, __filename);
+      console.error(`Failed to initialize order groups: ${error}`);
+    }
+  }
+
   private async initializeOrders() {
     try {
       const openOrders = await getAllOpenOrders();
@@ -237,22 +275,45 @@ export class FuturesMatchingEngine {
       ] = removeTolerance(toBigIntFloat(Number(entry.amount)));
     });
 
+    const canceledLegOrders: FuturesOrder[] = [];
+    const legRefunds: Record<string, number> = {};
+    const changedGroups: Set<FuturesOrderGroup> = new Set();
+
     const calculationPromises: Promise<void>[] = [];
     for (const symbol in this.orderQueue) {
       const orders = this.orderQueue[symbol];
       if (orders.length === 0) continue;
 
+      if (!mappedOrderBook[symbol]) {
+        mappedOrderBook[symbol] = { bids: {}, asks: {} };
+      }
+
       const promise = (async () => {
         const { matchedOrders, bookUpdates } = await matchAndCalculateOrders(
           orders,
-          mappedOrderBook[symbol] || { bids: {}, asks: {} }
+          mappedOrderBook[symbol]
         );
 
         if (matchedOrders.length === 0) {
           return;
         }
 
-        ordersToUpdate.push(...matchedOrders);
+        // Siblings of filled legs are canceled in the same batch as the fill
+        const siblingOrders = this.cancelFilledLegSiblings(
+          symbol,
+          matchedOrders,
+          mappedOrderBook[symbol],
+          bookUpdates,
+          changedGroups
+        );
+        siblingOrders.forEach((order) => {
+          legRefunds[order.id] = getRefundAmount(order);
+          order.status = "CANCELED";
+          order.remaining = BigInt(0);
+        });
+
+        ordersToUpdate.push(...matchedOrders, ...siblingOrders);
+        canceledLegOrders.push(...siblingOrders);
         orderBookUpdates[symbol] = bookUpdates;
       })();
 
@@ -265,7 +326,15 @@ export class FuturesMatchingEngine {
       return;
     }
 
-    await this.performUpdates(ordersToUpdate, orderBookUpdates);
+    // Legs are only refunded and groups advanced once the fills are stored
+    const applied = await this.performUpdates(ordersToUpdate, orderBookUpdates);
+    if (applied) {
+      await this.settleOrderGroups(
+        canceledLegOrders,
+        legRefunds,
+        changedGroups
+      );
+    }
 
     const finalOrderBooks: Record<string, any> = {};
     for (const symbol in orderBookUpdates) {
@@ -289,18 +358,27 @@ export class FuturesMatchingEngine {
     await Promise.all(cleanupPromises);
 
     this.broadcastUpdates(ordersToUpdate, finalOrderBooks);
+
+    for (const symbol in orderBookUpdates) {
+      await this.handleLastPrice(symbol);
+    }
   }
 
+  /**
+   * Stores a batch of order, candle and order book updates and runs the
+   * position checks that follow it.
+   * @returns Whether the batch was applied.
+   */
   private async performUpdates(
     ordersToUpdate: FuturesOrder[],
     orderBookUpdates: Record<string, any>
-  ) {
+  ): Promise<boolean> {
     const locked = this.lockOrders(ordersToUpdate);
     if (!locked) {
       console.warn(
         "Couldn't obtain a lock on all orders, skipping this batch."
       );
-      return;
+      return false;
     }
 
     const updateQueries: Array<{ query: string; params: any[] }> = [];
@@ -322,20 +400,17 @@ export class FuturesMatchingEngine {
       } catch (error) {
         logError("matching_engine", error, __filename);
         console.error("Failed to batch update:", error);
+        this.unlockOrders(ordersToUpdate);
+        return false;
       }
     } else {
       console.warn("No queries to batch update.");
     }
 
-    // Broadcast position updates and check for liquidation
+    // Broadcast position updates
     const positionPromises = ordersToUpdate.map(async (order) => {
       const positions = await getPositions(order.userId, order.symbol, "OPEN");
       if (positions.length > 0) {
-        await Promise.all(
-          positions.map((position) =>
-            checkForLiquidation(position, fromBigInt(order.price))
-          )
-        );
         await Promise.all(
           positions.map((position) => handlePositionBroadcast(position))
         );
@@ -344,7 +419,43 @@ export class FuturesMatchingEngine {
 
     await Promise.all(positionPromises);
 
+    // Every open position of a traded symbol is checked against the new
+    // price, not only those of the users who traded
+    const symbols = [...new Set(ordersToUpdate.map((order) => order.symbol))];
+    await Promise.all(
+      symbols.map(async (symbol) => {
+        const lastPrice = this.lastCandle[symbol]?.["1m"]?.close;
+        if (!lastPrice) return;
+
+        try {
+          const positions = await getOpenPositionsBySymbol(symbol);
+          await Promise.all(
+            positions.map((position) =>
+              checkForLiquidation(position, lastPrice)
+            )
+          );
+        } catch (error) {
+          logError("matching_engine", error, __filename);
+          console.error(`Failed to check liquidations for ${symbol}:`, error);
+        }
+      })
+    );
+
+    await Promise.all(
+      ordersToUpdate
+        .filter((order) => order.isLiquidation && order.status === "CLOSED")
+        .map(async (order) => {
+          try {
+            await settleLiquidationOrder(order);
+          } catch (error) {
+            logError("matching_engine", error, __filename);
+            console.error(`Failed to settle liquidation ${order.id}:`, error);
+          }
+        })
+    );
+
     this.unlockOrders(ordersToUpdate);
+    return true;
   }
 
   public async addToQueue(order: FuturesOrder) {
@@ -601,12 +712,336 @@ export class FuturesMatchingEngine {
       (order) => order.id !== orderId
     );
 
+    // Canceling one order of a group cancels the rest of the group with it
+    const link = this.findOrderGroupLeg(symbol, orderId);
+    if (link) {
+      link.leg.status = "CANCELED";
+      await this.cancelOrderGroup(link.group);
+    }
+
     const updatedOrderBook = await fetchExistingAmounts(symbol);
     handleOrderBookBroadcast(symbol, updatedOrderBook);
 
     await this.processQueue();
   }
 
+  public addOrderGroup(group: FuturesOrderGroup) {
+    if (!this.orderGroups[group.symbol]) {
+      this.orderGroups[group.symbol] = [];
+    }
+    this.orderGroups[group.symbol].push(group);
+  }
+
+  public getOrderGroup(symbol: string, id: string): FuturesOrderGroup | null {
+    return (
+      (this.orderGroups[symbol] || []).find((group) => group.id === id) || null
+    );
+  }
+
+  private findOrderGroupLeg(
+    symbol: string,
+    orderId: string
+  ): { group: FuturesOrderGroup; leg: FuturesOrderLeg } | null {
+    for (const group of this.orderGroups[symbol] || []) {
+      const leg = group.legs.find((leg) => leg.orderId === orderId);
+      if (leg) return { group, leg };
+    }
+    return null;
+  }
+
+  private findOpenLegOrder(
+    symbol: string,
+    leg: FuturesOrderLeg
+  ): FuturesOrder | undefined {
+    return (this.orderQueue[symbol] || []).find(
+      (order) => order.id === leg.orderId && order.status === "OPEN"
+    );
+  }
+
+  /**
+   * Marks the legs of matched orders as filled and takes their siblings off
+   * the book. Sibling orders are returned so their cancellation is written in
+   * the same batch as the fill that caused it.
+   */
+  private cancelFilledLegSiblings(
+    symbol: string,
+    matchedOrders: FuturesOrder[],
+    currentOrderBook: Record<"bids" | "asks", Record<string, bigint>>,
+    bookUpdates: Record<"bids" | "asks", Record<string, bigint>>,
+    changedGroups: Set<FuturesOrderGroup>
+  ): FuturesOrder[] {
+    const siblingOrders: FuturesOrder[] = [];
+
+    for (const order of new Set(matchedOrders)) {
+      const link = this.findOrderGroupLeg(symbol, order.id);
+      if (!link || order.filled === BigInt(0)) continue;
+
+      const { group, leg } = link;
+      if (order.status === "CLOSED") {
+        leg.status = "FILLED";
+      }
+      changedGroups.add(group);
+
+      // Bracket entries spawn their exit legs once settled
+      if (leg.role === "ENTRY") continue;
+
+      group.legs.forEach((sibling) => {
+        if (
+          sibling === leg ||
+          sibling.role === "ENTRY" ||
+          sibling.status === "FILLED" ||
+          sibling.status === "CANCELED"
+        ) {
+          return;
+        }
+
+        const siblingOrder = this.findOpenLegOrder(symbol, sibling);
+        if (siblingOrder && !siblingOrders.includes(siblingOrder)) {
+          updateOrderBook(
+            bookUpdates,
+            siblingOrder,
+            currentOrderBook,
+            siblingOrder.remaining
+          );
+          siblingOrders.push(siblingOrder);
+        }
+        sibling.status = "CANCELED";
+      });
+    }
+
+    return siblingOrders;
+  }
+
+  private async settleOrderGroups(
+    canceledOrders: FuturesOrder[],
+    refunds: Record<string, number>,
+    changedGroups: Set<FuturesOrderGroup>
+  ) {
+    for (const order of canceledOrders) {
+      try {
+        await refundFuturesOrder(order, refunds[order.id]);
+      } catch (error) {
+        logError("matching_engine", error, __filename);
+        console.error(`Failed to refund canceled order ${order.id}: ${error}`);
+      }
+    }
+
+    for (const group of changedGroups) {
+      const entry = group.legs.find((leg) => leg.role === "ENTRY");
+      if (entry?.status === "FILLED") {
+        await this.activateBracketLegs(group, entry);
+      }
+      await this.saveOrderGroup(group);
+    }
+  }
+
+  // Arms the stop and places the take-profit of a bracket whose entry filled
+  private async activateBracketLegs(
+    group: FuturesOrderGroup,
+    entry: FuturesOrderLeg
+  ) {
+    for (const leg of group.legs) {
+      if (leg === entry || leg.status !== "WAITING") continue;
+
+      if (leg.type === "STOP") {
+        leg.status = "ARMED";
+      } else {
+        await this.placeOrderGroupLeg(group, leg, Number(leg.price));
+      }
+    }
+  }
+
+  /**
+   * Places the order of a leg. The order ID is assigned to the leg before the
+   * order reaches the engine so that its fills are always linked.
+   * @returns Whether the order was placed.
+   */
+  private async placeOrderGroupLeg(
+    group: FuturesOrderGroup,
+    leg: FuturesOrderLeg,
+    price: number
+  ): Promise<boolean> {
+    const [currency, pair] = group.symbol.split("/");
+    leg.orderId = makeUuid();
+    leg.status = "OPEN";
+
+    try {
+      await placeFuturesOrder(
+        group.userId,
+        {
+          currency,
+          pair,
+          amount: leg.amount,
+          price,
+          type: leg.type === "STOP" ? "MARKET" : leg.type,
+          side: leg.side,
+          leverage: group.leverage,
+        },
+        leg.orderId
+      );
+      return true;
+    } catch (error) {
+      logError("matching_engine", error, __filename);
+      console.error(`Failed to place ${leg.role} order: ${error}`);
+      leg.orderId = null;
+      leg.status = "CANCELED";
+      return false;
+    }
+  }
+
+  private async saveOrderGroup(group: FuturesOrderGroup) {
+    group.status = resolveOrderGroupStatus(group);
+    if (group.status !== "ACTIVE") {
+      this.orderGroups[group.symbol] = (
+        this.orderGroups[group.symbol] || []
+      ).filter((activeGroup) => activeGroup.id !== group.id);
+    }
+
+    try {
+      await updateOrderGroup(group);
+    } catch (error) {
+      logError("matching_engine", error, __filename);
+      console.error(`Failed to update order group ${group.id}: ${error}`);
+    }
+
+    handleOrderGroupBroadcast(group);
+  }
+
+  // Cancels a resting order outside of a matching pass and refunds it
+  private async cancelLegOrder(order: FuturesOrder) {
+    const refund = getRefundAmount(order);
+
+    await cancelOrderByUuid(
+      order.userId,
+      order.id,
+      order.createdAt.toISOString(),
+      order.symbol,
+      order.price,
+      order.side,
+      order.remaining
+    );
+
+    order.status = "CANCELED";
+    order.remaining = BigInt(0);
+    await refundFuturesOrder(order, refund);
+    handleOrderBroadcast(order);
+  }
+
+  /**
+   * Cancels every leg of a group that can still trade. Resting orders leave
+   * the queue before anything is awaited so they cannot fill meanwhile.
+   */
+  public async cancelOrderGroup(group: FuturesOrderGroup) {
+    const { symbol } = group;
+    const legOrders: FuturesOrder[] = [];
+
+    group.legs.forEach((leg) => {
+      if (leg.status === "FILLED" || leg.status === "CANCELED") return;
+
+      const order = this.findOpenLegOrder(symbol, leg);
+      if (order) legOrders.push(order);
+      leg.status = "CANCELED";
+    });
+
+    this.orderQueue[symbol] = (this.orderQueue[symbol] || []).filter(
+      (order) => !legOrders.includes(order)
+    );
+
+    for (const order of legOrders) {
+      try {
+        await this.cancelLegOrder(order);
+      } catch (error) {
+        logError("matching_engine", error, __filename);
+        console.error(`Failed to cancel order ${order.id}: ${error}`);
+      }
+    }
+
+    await this.saveOrderGroup(group);
+
+    if (legOrders.length > 0) {
+      handleOrderBookBroadcast(symbol, await fetchExistingAmounts(symbol));
+    }
+  }
+
+  /**
+   * Fires the armed stop legs crossed by the last traded price. A fired stop
+   * is sent as a market order and its resting sibling is canceled.
+   */
+  private async handleLastPrice(symbol: string) {
+    const lastClose = this.lastCandle[symbol]?.["1m"]?.close;
+    if (!lastClose) return;
+
+    const lastPrice = toBigIntFloat(lastClose);
+    const firedLegs: Array<{ group: FuturesOrderGroup; leg: FuturesOrderLeg }> =
+      [];
+
+    // Fired legs leave the ARMED state synchronously so they fire only once
+    (this.orderGroups[symbol] || []).forEach((group) => {
+      group.legs.forEach((leg) => {
+        if (
+          leg.type === "STOP" &&
+          leg.status === "ARMED" &&
+          isStopReached(
+            leg.side,
+            toBigIntFloat(Number(leg.stopPrice)),
+            lastPrice
+          )
+        ) {
+          leg.status = "OPEN";
+          firedLegs.push({ group, leg });
+        }
+      });
+    });
+
+    for (const { group, leg } of firedLegs) {
+      await this.fireStopLeg(group, leg, lastClose);
+    }
+  }
+
+  private async fireStopLeg(
+    group: FuturesOrderGroup,
+    leg: FuturesOrderLeg,
+    price: number
+  ) {
+    const { symbol } = group;
+    const siblings = group.legs.filter(
+      (sibling) =>
+        sibling !== leg && sibling.role !== "ENTRY" && sibling.status === "OPEN"
+    );
+    const siblingOrders = siblings
+      .map((sibling) => this.findOpenLegOrder(symbol, sibling))
+      .filter((order): order is FuturesOrder => !!order);
+
+    // Take the siblings off the book first so they cannot fill with the stop
+    this.orderQueue[symbol] = (this.orderQueue[symbol] || []).filter(
+      (order) => !siblingOrders.includes(order)
+    );
+
+    const placed = await this.placeOrderGroupLeg(group, leg, price);
+    if (!placed) {
+      this.orderQueue[symbol].push(...siblingOrders);
+      await this.saveOrderGroup(group);
+      return;
+    }
+
+    siblings.forEach((sibling) => {
+      sibling.status = "CANCELED";
+    });
+    for (const order of siblingOrders) {
+      try {
+        await this.cancelLegOrder(order);
+      } catch (error) {
+        logError("matching_engine", error, __filename);
+        console.error(`Failed to cancel order ${order.id}: ${error}`);
+      }
+    }
+
+    await this.saveOrderGroup(group);
+    if (siblingOrders.length > 0) {
+      handleOrderBookBroadcast(symbol, await fetchExistingAmounts(symbol));
+    }
+  }
+
   public getTickers(): { [symbol: string]: any } {
     const symbolsWithTickers: { [symbol: string]: any } = {};
     for (const symbol in this.lastCandle) {
@@ -238,7 +238,7 @@ export function addTradeToOrder(order: FuturesOrder, trade: TradeDetail) {
   return order.trades;
 }
 
-const updateOrderBook = (
+export const updateOrderBook = (
   bookUpdates: OrderBook,
   order: FuturesOrder,
   currentOrderBook: OrderBook,
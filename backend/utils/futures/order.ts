@@ -0,0 +1,178 @@
+import { models } from "@b/db";
+import { getWallet } from "@b/api/finance/wallet/utils";
+import { toBigIntFloat } from "@b/utils/eco/blockchain";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import { createOrder, FuturesOrder } from "./queries/order";
+import { FuturesMarginMode } from "./queries/positions";
+import { getUserFeeRates } from "@b/utils/fees";
+
+export interface PlaceFuturesOrderParams {
+  currency: string;
+  pair: string;
+  amount: number;
+  price: number;
+  type: string;
+  side: string;
+  leverage: number;
+  stopLossPrice?: number;
+  takeProfitPrice?: number;
+  marginMode?: FuturesMarginMode;
+}
+
+export interface FuturesOrderQuote {
+  symbol: string;
+  cost: number;
+  fee: number;
+  wallet: any;
+}
+
+/**
+ * Validates an order against its futures market limits and checks the user's
+ * FUTURES wallet can cover its cost and fee.
+ * @param userId - The ID of the user placing the order.
+ * @param params - The order parameters.
+ * @returns A Promise that resolves with the order cost, fee and pair wallet.
+ */
+export async function getFuturesOrderQuote(
+  userId: string,
+  params: PlaceFuturesOrderParams
+): Promise<FuturesOrderQuote> {
+  const { currency, pair, amount, price, side } = params;
+
+  if (!currency || !pair) {
+    throw new Error("Invalid symbol");
+  }
+
+  const market = (await models.futuresMarket.findOne({
+    where: { currency, pair },
+  })) as any;
+
+  if (!market) {
+    throw new Error("Futures market data not found");
+  }
+
+  if (!market.metadata) {
+    throw new Error("Futures market metadata not found");
+  }
+
+  const minAmount = Number(market.metadata?.limits?.amount?.min || 0);
+  const maxAmount = Number(market.metadata?.limits?.amount?.max || 0);
+  const minPrice = Number(market.metadata?.limits?.price?.min || 0);
+  const maxPrice = Number(market.metadata?.limits?.price?.max || 0);
+  const minCost = Number(market.metadata?.limits?.cost?.min || 0);
+  const maxCost = Number(market.metadata?.limits?.cost?.max || 0);
+
+  if (side === "SELL" && amount < minAmount) {
+    throw new Error(`Amount is too low. You need ${minAmount} ${currency}`);
+  }
+
+  if (side === "SELL" && maxAmount > 0 && amount > maxAmount) {
+    throw new Error(`Amount is too high. Maximum is ${maxAmount} ${currency}`);
+  }
+
+  if (price && price < minPrice) {
+    throw new Error(`Price is too low. You need ${minPrice} ${pair}`);
+  }
+
+  if (maxPrice > 0 && price > maxPrice) {
+    throw new Error(`Price is too high. Maximum is ${maxPrice} ${pair}`);
+  }
+
+  const precision =
+    Number(
+      side === "BUY"
+        ? market.metadata.precision.amount
+        : market.metadata.precision.price
+    ) || 8;
+  const feeRates = await getUserFeeRates(userId, market.metadata);
+  const feeRate = side === "BUY" ? feeRates.taker : feeRates.maker;
+
+  const feeCalculated = (amount * price * feeRate) / 100;
+  const fee = parseFloat(feeCalculated.toFixed(precision));
+  const cost = amount * price;
+
+  if (side === "BUY" && cost < minCost) {
+    throw new Error(`Cost is too low. You need ${minCost} ${pair}`);
+  }
+
+  if (side === "BUY" && maxCost > 0 && cost > maxCost) {
+    throw new Error(`Cost is too high. Maximum is ${maxCost} ${pair}`);
+  }
+
+  let wallet;
+  try {
+    wallet = await getWallet(userId, "FUTURES", pair);
+  } catch (error) {}
+  if (!wallet) {
+    throw new Error(`Insufficient balance. You need ${cost + fee} ${pair}`);
+  }
+
+  // Check for sufficient balance
+  if (wallet.balance < cost + fee) {
+    throw new Error(`Insufficient balance. You need ${cost + fee} ${pair}`);
+  }
+
+  return { symbol: `${currency}/${pair}`, cost, fee, wallet };
+}
+
+/**
+ * Creates a quoted order, hands it to the matching engine and takes its cost
+ * and fee from the pair wallet.
+ * @param userId - The ID of the user placing the order.
+ * @param params - The order parameters.
+ * @param quote - The quote returned by getFuturesOrderQuote.
+ * @param id - Optional order ID, for callers that must know it up front.
+ * @returns A Promise that resolves with the created order.
+ */
+export async function submitFuturesOrder(
+  userId: string,
+  params: PlaceFuturesOrderParams,
+  quote: FuturesOrderQuote,
+  id?: string
+): Promise<FuturesOrder> {
+  const { symbol, cost, fee, wallet } = quote;
+  const {
+    pair,
+    amount,
+    price,
+    type,
+    side,
+    leverage,
+    stopLossPrice,
+    takeProfitPrice,
+    marginMode,
+  } = params;
+
+  const newOrder = await createOrder({
+    id,
+    userId,
+    symbol,
+    amount: toBigIntFloat(amount),
+    price: toBigIntFloat(price),
+    cost: toBigIntFloat(cost),
+    type,
+    side,
+    fee: toBigIntFloat(fee),
+    feeCurrency: pair,
+    leverage,
+    stopLossPrice: stopLossPrice ? toBigIntFloat(stopLossPrice) : undefined,
+    takeProfitPrice: takeProfitPrice
+      ? toBigIntFloat(takeProfitPrice)
+      : undefined,
+    marginMode,
+  });
+
+  // Subtract the cost and fee from the pair wallet
+  await updateWalletBalance(wallet, cost + fee, "subtract");
+
+  return newOrder;
+}
+
+export async function placeFuturesOrder(
+  userId: string,
+  params: PlaceFuturesOrderParams,
+  id?: string
+): Promise<FuturesOrder> {
+  const quote = await getFuturesOrderQuote(userId, params);
+  return submitFuturesOrder(userId, params, quote, id);
+}
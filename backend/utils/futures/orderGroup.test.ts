@@ -0,0 +1,193 @@
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import {
+  buildProtectionLegs,
+  getClosingSide,
+  getRefundAmount,
+  refundFuturesOrder,
+  resolveOrderGroupStatus,
+  validateProtectionPrices,
+} from "./orderGroup";
+import type { FuturesOrder } from "./queries/order";
+import type { FuturesOrderGroup, FuturesOrderLeg } from "./queries/orderGroup";
+import { getUserWalletByCurrency } from "./wallet";
+import { toBigIntFloat } from "@b/utils/eco/blockchain";
+
+jest.mock("@b/db", () => ({ models: {} }));
+
+jest.mock("@b/utils/eco/wallet", () => ({
+  updateWalletBalance: jest.fn(),
+}));
+
+jest.mock("./wallet", () => ({
+  getUserWalletByCurrency: jest.fn(),
+}));
+
+function makeGroup(
+  type: FuturesOrderGroup["type"],
+  legs: FuturesOrderLeg[]
+): FuturesOrderGroup {
+  return {
+    id: "group-1",
+    userId: "user-1",
+    symbol: "BTC/USDT",
+    type,
+    leverage: 5,
+    legs,
+    status: "ACTIVE",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("validateProtectionPrices", () => {
+  it("accepts a take profit above and a stop below a long entry", () => {
+    expect(() => validateProtectionPrices("SELL", 120, 90, 100)).not.toThrow();
+  });
+
+  it("accepts a take profit below and a stop above a short entry", () => {
+    expect(() => validateProtectionPrices("BUY", 80, 110, 100)).not.toThrow();
+  });
+
+  it("rejects levels on the wrong side of each other", () => {
+    expect(() => validateProtectionPrices("SELL", 90, 120)).toThrow(
+      "Take profit price must be above the stop loss price"
+    );
+    expect(() => validateProtectionPrices("BUY", 110, 80)).toThrow(
+      "Stop loss price must be above the take profit price"
+    );
+  });
+
+  it("rejects levels on the wrong side of the reference price", () => {
+    expect(() => validateProtectionPrices("SELL", 120, 105, 100)).toThrow(
+      "Stop loss price must be below 100"
+    );
+    expect(() => validateProtectionPrices("BUY", 105, 110, 100)).toThrow(
+      "Take profit price must be below 100"
+    );
+  });
+});
+
+describe("buildProtectionLegs", () => {
+  it("builds a limit take profit and a stop-loss leg on the closing side", () => {
+    const legs = buildProtectionLegs(
+      getClosingSide("BUY"),
+      2,
+      120,
+      90,
+      "WAITING"
+    );
+
+    expect(legs).toEqual([
+      {
+        role: "TAKE_PROFIT",
+        type: "LIMIT",
+        side: "SELL",
+        amount: 2,
+        price: 120,
+        status: "WAITING",
+      },
+      {
+        role: "STOP_LOSS",
+        type: "STOP",
+        side: "SELL",
+        amount: 2,
+        stopPrice: 90,
+        status: "WAITING",
+      },
+    ]);
+  });
+});
+
+describe("resolveOrderGroupStatus", () => {
+  const legs = (
+    takeProfit: FuturesOrderLeg["status"],
+    stopLoss: FuturesOrderLeg["status"]
+  ) =>
+    buildProtectionLegs("SELL", 1, 120, 90, "OPEN").map((leg, index) => ({
+      ...leg,
+      status: index === 0 ? takeProfit : stopLoss,
+    }));
+
+  it("keeps an OCO active while a leg can still trade", () => {
+    expect(
+      resolveOrderGroupStatus(makeGroup("OCO", legs("OPEN", "ARMED")))
+    ).toBe("ACTIVE");
+  });
+
+  it("completes an OCO once one leg filled and the other was canceled", () => {
+    expect(
+      resolveOrderGroupStatus(makeGroup("OCO", legs("FILLED", "CANCELED")))
+    ).toBe("COMPLETED");
+    expect(
+      resolveOrderGroupStatus(makeGroup("OCO", legs("CANCELED", "FILLED")))
+    ).toBe("COMPLETED");
+  });
+
+  it("cancels a bracket whose entry was canceled before filling", () => {
+    const group = makeGroup("BRACKET", [
+      {
+        role: "ENTRY",
+        type: "LIMIT",
+        side: "BUY",
+        amount: 1,
+        price: 100,
+        status: "CANCELED",
+      },
+      ...legs("CANCELED", "CANCELED"),
+    ]);
+
+    expect(resolveOrderGroupStatus(group)).toBe("CANCELED");
+  });
+
+  it("does not count a filled bracket entry as a completed group", () => {
+    const group = makeGroup("BRACKET", [
+      {
+        role: "ENTRY",
+        type: "LIMIT",
+        side: "BUY",
+        amount: 1,
+        price: 100,
+        status: "FILLED",
+      },
+      ...legs("CANCELED", "CANCELED"),
+    ]);
+
+    expect(resolveOrderGroupStatus(group)).toBe("CANCELED");
+  });
+});
+
+describe("leg refunds", () => {
+  const order = {
+    userId: "user-1",
+    feeCurrency: "USDT",
+    amount: toBigIntFloat(4),
+    remaining: toBigIntFloat(1),
+    cost: toBigIntFloat(100),
+    fee: toBigIntFloat(4),
+  } as FuturesOrder;
+
+  it("refunds the cost and fee share of the unfilled amount", () => {
+    expect(getRefundAmount(order)).toBeCloseTo(26);
+    expect(getRefundAmount({ ...order, amount: BigInt(0) })).toBe(0);
+  });
+
+  it("credits the refund to the fee currency wallet", async () => {
+    const wallet = { id: "wallet-1" };
+    (getUserWalletByCurrency as jest.Mock).mockResolvedValue(wallet);
+
+    await refundFuturesOrder(order, 26);
+
+    expect(getUserWalletByCurrency).toHaveBeenCalledWith("user-1", "USDT");
+    expect(updateWalletBalance).toHaveBeenCalledWith(wallet, 26, "add");
+  });
+
+  it("skips empty refunds", async () => {
+    await refundFuturesOrder(order, 0);
+
+    expect(updateWalletBalance).not.toHaveBeenCalled();
+  });
+});
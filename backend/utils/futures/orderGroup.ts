@@ -0,0 +1,107 @@
+import { fromBigInt } from "@b/utils/eco/blockchain";
+import { updateWalletBalance } from "@b/utils/eco/wallet";
+import { FuturesOrder } from "./queries/order";
+import {
+  FuturesOrderGroup,
+  FuturesOrderGroupStatus,
+  FuturesOrderLeg,
+  FuturesOrderLegStatus,
+} from "./queries/orderGroup";
+import { getUserWalletByCurrency } from "./wallet";
+
+export const getClosingSide = (side: string) =>
+  side === "BUY" ? "SELL" : "BUY";
+
+/**
+ * Checks take-profit and stop-loss levels for orders closing on `side`. A
+ * SELL closes a long, so its profit target sits above the reference price and
+ * its stop below it; a BUY closes a short and mirrors that.
+ */
+export function validateProtectionPrices(
+  side: string,
+  takeProfitPrice: number,
+  stopLossPrice: number,
+  referencePrice?: number
+) {
+  const [above, below] =
+    side === "SELL"
+      ? [takeProfitPrice, stopLossPrice]
+      : [stopLossPrice, takeProfitPrice];
+  const aboveLabel = side === "SELL" ? "Take profit" : "Stop loss";
+  const belowLabel = side === "SELL" ? "Stop loss" : "Take profit";
+
+  if (above <= below) {
+    throw new Error(
+      `${aboveLabel} price must be above the ${belowLabel.toLowerCase()} price`
+    );
+  }
+
+  if (referencePrice && above <= referencePrice) {
+    throw new Error(`${aboveLabel} price must be above ${referencePrice}`);
+  }
+
+  if (referencePrice && below >= referencePrice) {
+    throw new Error(`${belowLabel} price must be below ${referencePrice}`);
+  }
+}
+
+export function buildProtectionLegs(
+  side: string,
+  amount: number,
+  takeProfitPrice: number,
+  stopLossPrice: number,
+  status: FuturesOrderLegStatus
+): FuturesOrderLeg[] {
+  return [
+    {
+      role: "TAKE_PROFIT",
+      type: "LIMIT",
+      side,
+      amount,
+      price: takeProfitPrice,
+      status,
+    },
+    {
+      role: "STOP_LOSS",
+      type: "STOP",
+      side,
+      amount,
+      stopPrice: stopLossPrice,
+      status,
+    },
+  ];
+}
+
+/**
+ * A group is settled once none of its legs can still trade. It completed when
+ * a protective leg filled and was canceled otherwise.
+ */
+export function resolveOrderGroupStatus(
+  group: FuturesOrderGroup
+): FuturesOrderGroupStatus {
+  const settled = group.legs.every(
+    (leg) => leg.status === "FILLED" || leg.status === "CANCELED"
+  );
+  if (!settled) return "ACTIVE";
+
+  return group.legs.some(
+    (leg) => leg.role !== "ENTRY" && leg.status === "FILLED"
+  )
+    ? "COMPLETED"
+    : "CANCELED";
+}
+
+// The share of cost and fee still locked by the unfilled part of an order
+export function getRefundAmount(order: FuturesOrder): number {
+  if (order.amount === BigInt(0)) return 0;
+  return fromBigInt(
+    ((order.cost + order.fee) * order.remaining) / order.amount
+  );
+}
+
+export async function refundFuturesOrder(order: FuturesOrder, amount: number) {
+  if (amount <= 0) return;
+
+  const wallet = await getUserWalletByCurrency(order.userId, order.feeCurrency);
+  await updateWalletBalance(wallet, amount, "add");
+}
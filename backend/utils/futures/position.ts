@@ -10,6 +10,7 @@ import {
   updatePositionStatus,
 } from "./queries/positions";
 import { updateWalletBalance } from "../eco/wallet";
+import { getPositionLiquidationPrice, getPositionMargin } from "./liquidation";
 
 // Constants
 const SCALE_FACTOR = BigInt(10 ** 18);
@@ -52,6 +53,10 @@ export const calculateUnrealizedPnl = (
   return scaleUp(pnl);
 };
 
+// The share of the order cost, which is its margin, paid for a fill
+const getFilledMargin = (order: FuturesOrder, amount: bigint): bigint =>
+  order.amount === BigInt(0) ? BigInt(0) : (order.cost * amount) / order.amount;
+
 // Main functions
 export const updatePositions = async (
   buyOrder: FuturesOrder,
@@ -70,6 +75,9 @@ const updateSinglePosition = async (
   amount: bigint,
   matchedPrice: bigint
 ): Promise<void> => {
+  // Liquidation orders close out a position that is already settled
+  if (order.isLiquidation) return;
+
   const position = await getPosition(order.userId, order.symbol, order.side);
 
   if (position) {
@@ -101,6 +109,20 @@ const updateExistingPosition = async (
     order.side as Side
   );
 
+  const margin =
+    scaleUp(getPositionMargin(position)) + getFilledMargin(order, amount);
+
+  const liquidationPrice = await getPositionLiquidationPrice({
+    userId: position.userId,
+    symbol: position.symbol,
+    side: position.side,
+    entryPrice: scaledNewEntryPrice,
+    amount: scaledNewAmount,
+    leverage: position.leverage,
+    marginMode: position.marginMode,
+    margin,
+  });
+
   await updatePositionInDB(
     position.userId,
     position.id,
@@ -108,7 +130,9 @@ const updateExistingPosition = async (
     scaledNewAmount,
     unrealizedPnl,
     position.stopLossPrice,
-    position.takeProfitPrice
+    position.takeProfitPrice,
+    liquidationPrice,
+    margin
   );
 };
 
@@ -124,6 +148,20 @@ const createNewPosition = async (
     order.side as Side
   );
 
+  const marginMode = order.marginMode || "ISOLATED";
+  const margin = getFilledMargin(order, amount);
+
+  const liquidationPrice = await getPositionLiquidationPrice({
+    userId: order.userId,
+    symbol: order.symbol,
+    side: order.side,
+    entryPrice: order.price,
+    amount,
+    leverage: order.leverage,
+    marginMode,
+    margin,
+  });
+
   await createPosition(
     order.userId,
     order.symbol,
@@ -133,7 +171,10 @@ const createNewPosition = async (
     order.leverage,
     unrealizedPnl,
     order.stopLossPrice,
-    order.takeProfitPrice
+    order.takeProfitPrice,
+    liquidationPrice,
+    marginMode,
+    margin
   );
 };
 
@@ -0,0 +1,101 @@
+import client, { scyllaFuturesKeyspace } from "@b/utils/eco/scylla/client";
+import { makeUuid } from "@b/utils/passwords";
+
+// Define a TypeScript interface for the "funding_history" table. The amount is
+// positive when the position received funding and negative when it paid.
+export interface FuturesFundingPayment {
+  id: string;
+  userId: string;
+  positionId: string;
+  symbol: string;
+  side: string;
+  fundingRate: number;
+  markPrice: number;
+  indexPrice: number;
+  amount: number;
+  createdAt: Date;
+}
+
+function mapRowToFundingPayment(row: any): FuturesFundingPayment {
+  return {
+    id: row.id.toString(),
+    userId: row.userId.toString(),
+    positionId: row.positionId.toString(),
+    symbol: row.symbol,
+    side: row.side,
+    fundingRate: row.fundingRate,
+    markPrice: row.markPrice,
+    indexPrice: row.indexPrice,
+    amount: row.amount,
+    createdAt: new Date(row.createdAt),
+  };
+}
+
+/**
+ * Stores the funding payments of one settlement in a single batch.
+ * @param payments - The payments to be inserted, without id.
+ */
+export async function createFundingPayments(
+  payments: Omit<FuturesFundingPayment, "id">[]
+): Promise<void> {
+  if (payments.length === 0) return;
+
+  const query = `
+    INSERT INTO ${scyllaFuturesKeyspace}.funding_history (id, "userId", "positionId", symbol, side, "fundingRate", "markPrice", "indexPrice", amount, "createdAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+  `;
+  const queries = payments.map((payment) => ({
+    query,
+    params: [
+      makeUuid(),
+      payment.userId,
+      payment.positionId,
+      payment.symbol,
+      payment.side,
+      payment.fundingRate,
+      payment.markPrice,
+      payment.indexPrice,
+      payment.amount,
+      payment.createdAt,
+    ],
+  }));
+
+  try {
+    await client.batch(queries, { prepare: true });
+  } catch (error) {
+    console.error(`Failed to store funding payments: ${error.message}`);
+    throw new Error(`Failed to store funding payments: ${error.message}`);
+  }
+}
+
+/**
+ * Retrieves a user's funding payments, newest first, optionally restricted to
+ * one symbol.
+ * @param userId - The ID of the user whose payments are to be retrieved.
+ * @param symbol - Optional symbol to filter by.
+ * @param limit - Maximum number of payments to read.
+ * @returns A Promise that resolves with an array of funding payments.
+ */
+export async function getFundingHistoryByUserId(
+  userId: string,
+  symbol?: string,
+  limit = 500
+): Promise<FuturesFundingPayment[]> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.funding_history
+    WHERE "userId" = ?
+    LIMIT ?;
+  `;
+
+  try {
+    const result = await client.execute(query, [userId, limit], {
+      prepare: true,
+    });
+    return result.rows
+      .map(mapRowToFundingPayment)
+      .filter((payment) => !symbol || payment.symbol === symbol);
+  } catch (error) {
+    console.error(`Failed to fetch funding history: ${error.message}`);
+    throw new Error(`Failed to fetch funding history: ${error.message}`);
+  }
+}
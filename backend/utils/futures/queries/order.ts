@@ -11,6 +11,7 @@ import {
   updateWalletBalance,
 } from "@b/utils/eco/wallet";
 import { getOrderbookEntry } from "./orderbook";
+import { FuturesMarginMode } from "./positions";
 import { stringify as uuidStringify } from "uuid";
 
 interface Uuid {
@@ -40,6 +41,8 @@ export interface FuturesOrder {
   leverage: number;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
+  isLiquidation?: boolean;
+  marginMode?: FuturesMarginMode;
 }
 
 export interface FuturesMatchedOrder {
@@ -115,6 +118,8 @@ function mapRowToOrder(row: any): FuturesOrder {
     leverage: row.leverage,
     stopLossPrice: row.stopLossPrice,
     takeProfitPrice: row.takeProfitPrice,
+    isLiquidation: !!row.isLiquidation,
+    marginMode: row.marginMode || "ISOLATED",
   };
 }
 
@@ -207,6 +212,7 @@ function applyLeverage(amount: bigint, leverage: number): bigint {
  * @returns A Promise that resolves when the order has been successfully inserted.
  */
 export async function createOrder({
+  id = makeUuid(),
   userId,
   symbol,
   amount,
@@ -219,7 +225,10 @@ export async function createOrder({
   leverage,
   stopLossPrice,
   takeProfitPrice,
+  isLiquidation = false,
+  marginMode = "ISOLATED",
 }: {
+  id?: string;
   userId: string;
   symbol: string;
   amount: bigint;
@@ -232,6 +241,8 @@ export async function createOrder({
   leverage: number;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
+  isLiquidation?: boolean;
+  marginMode?: FuturesMarginMode;
 }): Promise<FuturesOrder> {
   const currentTimestamp = new Date();
   const leveragedAmount = applyLeverage(amount, leverage);
@@ -239,8 +250,8 @@ export async function createOrder({
     INSERT INTO ${scyllaFuturesKeyspace}.orders (
       id, "userId", symbol, type, "timeInForce", side, price, average,
       amount, filled, remaining, cost, leverage, fee, "feeCurrency", status,
-      "stopLossPrice", "takeProfitPrice", "createdAt", "updatedAt"
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+      "stopLossPrice", "takeProfitPrice", "isLiquidation", "marginMode", "createdAt", "updatedAt"
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
   `;
   const priceTolerance = removeTolerance(price);
   const amountTolerance = removeTolerance(leveragedAmount); // Use leveraged amount
@@ -252,7 +263,6 @@ export async function createOrder({
   const takeProfitTolerance = takeProfitPrice
     ? removeTolerance(takeProfitPrice)
     : undefined;
-  const id = makeUuid();
   const params = [
     id,
     userId,
@@ -272,6 +282,8 @@ export async function createOrder({
     "OPEN",
     stopLossTolerance ? stopLossTolerance.toString() : null,
     takeProfitTolerance ? takeProfitTolerance.toString() : null,
+    isLiquidation,
+    marginMode,
     currentTimestamp,
     currentTimestamp,
   ];
@@ -303,6 +315,8 @@ export async function createOrder({
       leverage,
       stopLossPrice: stopLossTolerance,
       takeProfitPrice: takeProfitTolerance,
+      isLiquidation,
+      marginMode,
     };
 
     const matchingEngine = await FuturesMatchingEngine.getInstance();
@@ -0,0 +1,195 @@
+import client, { scyllaFuturesKeyspace } from "@b/utils/eco/scylla/client";
+import { makeUuid } from "@b/utils/passwords";
+
+export type FuturesOrderGroupType = "OCO" | "BRACKET";
+export type FuturesOrderGroupStatus = "ACTIVE" | "COMPLETED" | "CANCELED";
+export type FuturesOrderLegStatus =
+  "WAITING" | "ARMED" | "OPEN" | "FILLED" | "CANCELED";
+
+// A single order of a group. STOP legs are watched by the matching engine and
+// only reach the book as a market order once their stop price is crossed.
+export interface FuturesOrderLeg {
+  role: "ENTRY" | "TAKE_PROFIT" | "STOP_LOSS";
+  type: "LIMIT" | "MARKET" | "STOP";
+  side: string;
+  amount: number;
+  price?: number | null;
+  stopPrice?: number | null;
+  orderId?: string | null;
+  status: FuturesOrderLegStatus;
+}
+
+// Define a TypeScript interface for the "order_groups" table
+export interface FuturesOrderGroup {
+  id: string;
+  userId: string;
+  symbol: string;
+  type: FuturesOrderGroupType;
+  leverage: number;
+  legs: FuturesOrderLeg[];
+  status: FuturesOrderGroupStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function mapRowToOrderGroup(row: any): FuturesOrderGroup {
+  let legs: FuturesOrderLeg[] = [];
+  try {
+    legs = JSON.parse(row.legs || "[]");
+  } catch (error) {
+    console.error(`Failed to parse order group legs: ${error.message}`);
+  }
+
+  return {
+    id: row.id.toString(),
+    userId: row.userId.toString(),
+    symbol: row.symbol,
+    type: row.type,
+    leverage: Number(row.leverage),
+    legs,
+    status: row.status,
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+  };
+}
+
+/**
+ * Creates a new active order group. Leg orders are placed separately once
+ * the group is known to the matching engine.
+ * @param group - The order group to be inserted into the table.
+ * @returns A Promise that resolves with the stored order group.
+ */
+export async function createOrderGroup({
+  userId,
+  symbol,
+  type,
+  leverage,
+  legs,
+}: {
+  userId: string;
+  symbol: string;
+  type: FuturesOrderGroupType;
+  leverage: number;
+  legs: FuturesOrderLeg[];
+}): Promise<FuturesOrderGroup> {
+  const currentTimestamp = new Date();
+  const group: FuturesOrderGroup = {
+    id: makeUuid(),
+    userId,
+    symbol,
+    type,
+    leverage,
+    legs,
+    status: "ACTIVE",
+    createdAt: currentTimestamp,
+    updatedAt: currentTimestamp,
+  };
+
+  const query = `
+    INSERT INTO ${scyllaFuturesKeyspace}.order_groups (id, "userId", symbol, type, leverage, legs, status, "createdAt", "updatedAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);
+  `;
+  const params = [
+    group.id,
+    userId,
+    symbol,
+    type,
+    leverage.toString(),
+    JSON.stringify(legs),
+    group.status,
+    currentTimestamp,
+    currentTimestamp,
+  ];
+
+  try {
+    await client.execute(query, params, { prepare: true });
+    return group;
+  } catch (error) {
+    console.error(`Failed to create order group: ${error.message}`);
+    throw new Error(`Failed to create order group: ${error.message}`);
+  }
+}
+
+export async function getOrderGroupByUuid(
+  userId: string,
+  id: string
+): Promise<FuturesOrderGroup | null> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.order_groups
+    WHERE "userId" = ? AND id = ?;
+  `;
+
+  const result = await client.execute(query, [userId, id], { prepare: true });
+  return result.rows.length > 0 ? mapRowToOrderGroup(result.rows[0]) : null;
+}
+
+/**
+ * Retrieves a user's order groups, newest first, optionally restricted to one
+ * symbol.
+ * @param userId - The ID of the user whose order groups are to be retrieved.
+ * @param symbol - Optional symbol to filter by.
+ * @returns A Promise that resolves with an array of order groups.
+ */
+export async function getOrderGroupsByUserId(
+  userId: string,
+  symbol?: string
+): Promise<FuturesOrderGroup[]> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.order_groups
+    WHERE "userId" = ?;
+  `;
+
+  try {
+    const result = await client.execute(query, [userId], { prepare: true });
+    return result.rows
+      .map(mapRowToOrderGroup)
+      .filter((group) => !symbol || group.symbol === symbol)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error(`Failed to fetch order groups: ${error.message}`);
+    throw new Error(`Failed to fetch order groups: ${error.message}`);
+  }
+}
+
+export async function getAllActiveOrderGroups(): Promise<FuturesOrderGroup[]> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.order_groups WHERE status = 'ACTIVE' ALLOW FILTERING;
+  `;
+
+  try {
+    const result = await client.execute(query, [], { prepare: true });
+    return result.rows.map(mapRowToOrderGroup);
+  } catch (error) {
+    console.error(`Failed to fetch active order groups: ${error.message}`);
+    throw new Error(`Failed to fetch active order groups: ${error.message}`);
+  }
+}
+
+/**
+ * Persists the legs and status of an order group.
+ * @param group - The order group holding the new values.
+ */
+export async function updateOrderGroup(
+  group: FuturesOrderGroup
+): Promise<void> {
+  const query = `
+    UPDATE ${scyllaFuturesKeyspace}.order_groups
+    SET legs = ?, status = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND id = ?;
+  `;
+  group.updatedAt = new Date();
+  const params = [
+    JSON.stringify(group.legs),
+    group.status,
+    group.updatedAt,
+    group.userId,
+    group.id,
+  ];
+
+  try {
+    await client.execute(query, params, { prepare: true });
+  } catch (error) {
+    console.error(`Failed to update order group: ${error.message}`);
+    throw new Error(`Failed to update order group: ${error.message}`);
+  }
+}
@@ -2,6 +2,10 @@ import client, { scyllaFuturesKeyspace } from "@b/utils/eco/scylla/client";
 import { makeUuid } from "@b/utils/passwords";
 import { uuidToString } from "./order";
 
+// ISOLATED positions are backed by their own margin only, CROSS positions by
+// the whole FUTURES wallet of their settlement currency
+export type FuturesMarginMode = "ISOLATED" | "CROSS";
+
 export interface FuturesPosition {
   id: string;
   userId: string;
@@ -13,6 +17,9 @@ export interface FuturesPosition {
   unrealizedPnl: bigint;
   stopLossPrice?: bigint;
   takeProfitPrice?: bigint;
+  liquidationPrice?: bigint;
+  marginMode: FuturesMarginMode;
+  margin?: bigint;
   status: string;
   createdAt: Date;
   updatedAt: Date;
@@ -48,6 +55,11 @@ export async function getPosition(
         takeProfitPrice: row.takeProfitPrice
           ? BigInt(row.takeProfitPrice)
           : undefined,
+        liquidationPrice: row.liquidationPrice
+          ? BigInt(row.liquidationPrice)
+          : undefined,
+        marginMode: row.marginMode || "ISOLATED",
+        margin: row.margin ? BigInt(row.margin) : undefined,
         status: row.status,
         createdAt: new Date(row.createdAt),
         updatedAt: new Date(row.updatedAt),
@@ -98,6 +110,11 @@ export async function getPositions(
       takeProfitPrice: row.takeProfitPrice
         ? BigInt(row.takeProfitPrice)
         : undefined,
+      liquidationPrice: row.liquidationPrice
+        ? BigInt(row.liquidationPrice)
+        : undefined,
+      marginMode: row.marginMode || "ISOLATED",
+      margin: row.margin ? BigInt(row.margin) : undefined,
       status: row.status,
       createdAt: new Date(row.createdAt),
       updatedAt: new Date(row.updatedAt),
@@ -128,6 +145,11 @@ export async function getAllOpenPositions(): Promise<FuturesPosition[]> {
       takeProfitPrice: row.takeProfitPrice
         ? BigInt(row.takeProfitPrice)
         : undefined,
+      liquidationPrice: row.liquidationPrice
+        ? BigInt(row.liquidationPrice)
+        : undefined,
+      marginMode: row.marginMode || "ISOLATED",
+      margin: row.margin ? BigInt(row.margin) : undefined,
       status: row.status,
       createdAt: new Date(row.createdAt),
       updatedAt: new Date(row.updatedAt),
@@ -138,6 +160,46 @@ export async function getAllOpenPositions(): Promise<FuturesPosition[]> {
   }
 }
 
+export async function getOpenPositionsBySymbol(
+  symbol: string
+): Promise<FuturesPosition[]> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.positions_by_symbol
+    WHERE symbol = ? AND status = 'OPEN' ALLOW FILTERING;
+  `;
+
+  try {
+    const result = await client.execute(query, [symbol], { prepare: true });
+    return result.rows.map((row) => ({
+      id: uuidToString(row.id),
+      userId: uuidToString(row.userId),
+      symbol: row.symbol,
+      side: row.side,
+      entryPrice: BigInt(row.entryPrice),
+      amount: BigInt(row.amount),
+      leverage: Number(row.leverage),
+      unrealizedPnl: BigInt(row.unrealizedPnl),
+      stopLossPrice: row.stopLossPrice ? BigInt(row.stopLossPrice) : undefined,
+      takeProfitPrice: row.takeProfitPrice
+        ? BigInt(row.takeProfitPrice)
+        : undefined,
+      liquidationPrice: row.liquidationPrice
+        ? BigInt(row.liquidationPrice)
+        : undefined,
+      marginMode: row.marginMode || "ISOLATED",
+      margin: row.margin ? BigInt(row.margin) : undefined,
+      status: row.status,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    }));
+  } catch (error) {
+    console.error(`Failed to fetch open positions by symbol: ${error.message}`);
+    throw new Error(
+      `Failed to fetch open positions by symbol: ${error.message}`
+    );
+  }
+}
+
 export async function createPosition(
   userId: string,
   symbol: string,
@@ -147,11 +209,14 @@ export async function createPosition(
   leverage: number,
   unrealizedPnl: bigint,
   stopLossPrice?: bigint,
-  takeProfitPrice?: bigint
+  takeProfitPrice?: bigint,
+  liquidationPrice?: bigint,
+  marginMode: FuturesMarginMode = "ISOLATED",
+  margin?: bigint
 ): Promise<void> {
   const query = `
-    INSERT INTO ${scyllaFuturesKeyspace}.position (id, "userId", symbol, side, "entryPrice", amount, leverage, "unrealizedPnl", "stopLossPrice", "takeProfitPrice", status, "createdAt", "updatedAt")
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'OPEN', ?, ?);
+    INSERT INTO ${scyllaFuturesKeyspace}.position (id, "userId", symbol, side, "entryPrice", amount, leverage, "unrealizedPnl", "stopLossPrice", "takeProfitPrice", "liquidationPrice", "marginMode", margin, status, "createdAt", "updatedAt")
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'OPEN', ?, ?);
   `;
   const params = [
     makeUuid(),
@@ -164,6 +229,9 @@ export async function createPosition(
     unrealizedPnl.toString(),
     stopLossPrice?.toString() || null,
     takeProfitPrice?.toString() || null,
+    liquidationPrice?.toString() || null,
+    marginMode,
+    margin?.toString() || null,
     new Date(),
     new Date(),
   ];
@@ -183,11 +251,13 @@ export async function updatePositionInDB(
   amount: bigint,
   unrealizedPnl: bigint,
   stopLossPrice?: bigint,
-  takeProfitPrice?: bigint
+  takeProfitPrice?: bigint,
+  liquidationPrice?: bigint,
+  margin?: bigint
 ): Promise<void> {
   const query = `
     UPDATE ${scyllaFuturesKeyspace}.position
-    SET "entryPrice" = ?, amount = ?, "unrealizedPnl" = ?, "stopLossPrice" = ?, "takeProfitPrice" = ?, "updatedAt" = ?
+    SET "entryPrice" = ?, amount = ?, "unrealizedPnl" = ?, "stopLossPrice" = ?, "takeProfitPrice" = ?, "liquidationPrice" = ?, margin = ?, "updatedAt" = ?
     WHERE "userId" = ? AND id = ?;
   `;
   const params = [
@@ -196,6 +266,8 @@ export async function updatePositionInDB(
     unrealizedPnl.toString(),
     stopLossPrice?.toString() || null,
     takeProfitPrice?.toString() || null,
+    liquidationPrice?.toString(),
+    margin?.toString(),
     new Date(),
     userId,
     id,
@@ -209,6 +281,98 @@ export async function updatePositionInDB(
   }
 }
 
+/**
+ * Retrieves a single position of a user by its ID.
+ * @param userId - The ID of the user owning the position.
+ * @param id - The ID of the position.
+ * @returns A Promise that resolves with the position or null if not found.
+ */
+export async function getPositionById(
+  userId: string,
+  id: string
+): Promise<FuturesPosition | null> {
+  const query = `
+    SELECT * FROM ${scyllaFuturesKeyspace}.position
+    WHERE "userId" = ? AND id = ?;
+  `;
+
+  try {
+    const result = await client.execute(query, [userId, id], {
+      prepare: true,
+    });
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      id: uuidToString(row.id),
+      userId: uuidToString(row.userId),
+      symbol: row.symbol,
+      side: row.side,
+      entryPrice: BigInt(row.entryPrice),
+      amount: BigInt(row.amount),
+      leverage: Number(row.leverage),
+      unrealizedPnl: BigInt(row.unrealizedPnl),
+      stopLossPrice: row.stopLossPrice ? BigInt(row.stopLossPrice) : undefined,
+      takeProfitPrice: row.takeProfitPrice
+        ? BigInt(row.takeProfitPrice)
+        : undefined,
+      liquidationPrice: row.liquidationPrice
+        ? BigInt(row.liquidationPrice)
+        : undefined,
+      marginMode: row.marginMode || "ISOLATED",
+      margin: row.margin ? BigInt(row.margin) : undefined,
+      status: row.status,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+    };
+  } catch (error) {
+    console.error(`Failed to fetch position: ${error.message}`);
+    throw new Error(`Failed to fetch position: ${error.message}`);
+  }
+}
+
+/**
+ * Persists the margin settings of an open position together with the
+ * liquidation price they result in.
+ */
+export async function updatePositionMargin(
+  userId: string,
+  id: string,
+  {
+    leverage,
+    marginMode,
+    margin,
+    liquidationPrice,
+  }: {
+    leverage: number;
+    marginMode: FuturesMarginMode;
+    margin: bigint;
+    liquidationPrice: bigint;
+  }
+): Promise<void> {
+  const query = `
+    UPDATE ${scyllaFuturesKeyspace}.position
+    SET leverage = ?, "marginMode" = ?, margin = ?, "liquidationPrice" = ?, "updatedAt" = ?
+    WHERE "userId" = ? AND id = ?;
+  `;
+  const params = [
+    leverage,
+    marginMode,
+    margin.toString(),
+    liquidationPrice.toString(),
+    new Date(),
+    userId,
+    id,
+  ];
+
+  try {
+    await client.execute(query, params, { prepare: true });
+  } catch (error) {
+    console.error(`Failed to update position margin: ${error.message}`);
+    throw new Error(`Failed to update position margin: ${error.message}`);
+  }
+}
+
 export async function updatePositionStatus(
   userId: string,
   id: string,
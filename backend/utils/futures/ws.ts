@@ -141,6 +141,10 @@ export async function handlePositionBroadcast(position: any) {
     takeProfitPrice: position.takeProfitPrice
       ? fromBigInt(position.takeProfitPrice)
       : undefined,
+    liquidationPrice: position.liquidationPrice
+      ? fromBigInt(position.liquidationPrice)
+      : undefined,
+    margin: position.margin ? fromBigInt(position.margin) : undefined,
   };
 
   sendMessageToRoute(
@@ -152,3 +156,14 @@ export async function handlePositionBroadcast(position: any) {
     }
   );
 }
+
+export async function handleOrderGroupBroadcast(group: any) {
+  sendMessageToRoute(
+    `/api/ext/futures/market/${group.symbol}`,
+    { type: "orders", userId: group.userId },
+    {
+      stream: "orderGroups",
+      data: group,
+    }
+  );
+}
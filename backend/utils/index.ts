@@ -8,6 +8,11 @@ import { Response } from "../handler/Response";
 import { getMime } from "./mime";
 import { sanitizePath } from "./validation";
 import { logError } from "./logger";
+import {
+  getStorage,
+  LocalStorageDriver,
+  verifyLocalSignature,
+} from "./storage";
 
 export const appName = process.env.NEXT_PUBLIC_SITE_NAME || "Platform";
 export const appSupport =
@@ -371,10 +376,29 @@ export function serveStaticFile(res, req, filePath, markResponseSent) {
     }
 
     let fullPath;
+    let cacheControl = `public, max-age=${60 * 60 * 24 * 365}, immutable`; // 1 year
     if (filePath.startsWith("/uploads/")) {
       fullPath = path.join(process.cwd(), "public", sanitizedFilePath);
     } else if (filePath.startsWith("/themes/")) {
       fullPath = path.join(process.cwd(), sanitizedFilePath);
+    } else if (filePath.startsWith("/private/")) {
+      // Private files are only served through the signed URLs of the local
+      // storage driver
+      const key = sanitizedFilePath
+        .replace(/\\/g, "/")
+        .slice("/private/".length);
+      const query = new URLSearchParams(req.getQuery() || "");
+      if (
+        !verifyLocalSignature(key, query.get("expires"), query.get("signature"))
+      ) {
+        if (!aborted) {
+          res.writeStatus("403 Forbidden").end();
+          markResponseSent();
+        }
+        return true;
+      }
+      fullPath = new LocalStorageDriver().resolvePath(key, "private");
+      cacheControl = "private, no-store";
     }
 
     if (fs.existsSync(fullPath) && fs.lstatSync(fullPath).isFile()) {
@@ -383,9 +407,6 @@ export function serveStaticFile(res, req, filePath, markResponseSent) {
 
       fileContent = compressResponse(res, req, fileContent);
 
-      const maxAge = 60 * 60 * 24 * 365; // 1 year
-      const cacheControl = `public, max-age=${maxAge}, immutable`;
-
       if (!aborted) {
         res.writeHeader("Content-Type", contentType);
         res.writeHeader("Cache-Control", cacheControl);
@@ -396,6 +417,20 @@ export function serveStaticFile(res, req, filePath, markResponseSent) {
       return true;
     }
 
+    // Uploads stored in a remote store keep working from their old /uploads
+    // URLs
+    const storage = getStorage();
+    if (filePath.startsWith("/uploads/") && storage.name !== "local") {
+      if (!aborted) {
+        res
+          .writeStatus("302 Found")
+          .writeHeader("Location", storage.url(sanitizedFilePath))
+          .end();
+        markResponseSent();
+      }
+      return true;
+    }
+
     if (!aborted) {
       res.writeStatus("404 Not Found").end();
       markResponseSent();
@@ -0,0 +1,215 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import { getUsdPrice } from "@b/utils/fees";
+import { checkKycTierLimit, getKycLimitUsage } from "./kycTiers";
+
+jest.mock("@b/db", () => ({
+  models: {
+    kycTier: { findAll: jest.fn() },
+    kyc: { max: jest.fn() },
+    transaction: { findAll: jest.fn() },
+    wallet: { findAll: jest.fn() },
+    currency: { findOne: jest.fn() },
+    user: { findOne: jest.fn() },
+  },
+}));
+jest.mock("@b/utils/fees", () => ({ getUsdPrice: jest.fn() }));
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+const START_OF_DAY = new Date("2026-03-15T00:00:00Z");
+
+const tier = (
+  level: number,
+  name: string,
+  daily: number | null,
+  monthly: number | null
+) => ({
+  level,
+  name,
+  dailyWithdrawLimit: daily,
+  monthlyWithdrawLimit: monthly,
+  dailyDepositLimit: null,
+  monthlyDepositLimit: null,
+});
+
+const TIERS = [
+  tier(1, "Basic", 1000, 5000),
+  tier(2, "Advanced", 10000, 50000),
+  tier(3, "Pro", null, null),
+];
+
+const WALLETS = [
+  { id: "btc", type: "SPOT", currency: "BTC" },
+  { id: "eur", type: "FIAT", currency: "EUR" },
+  { id: "usd", type: "FIAT", currency: "USD" },
+];
+
+const prices: Record<string, number> = { BTC: 50000, USDT: 1 };
+
+// Withdrawn amounts by wallet over the current day and month
+function setUsage(
+  daily: Record<string, number>,
+  monthly: Record<string, number> = daily
+) {
+  (models.transaction.findAll as jest.Mock).mockImplementation(
+    async ({ where }) => {
+      const since: Date = where.createdAt[Op.gte];
+      const totals =
+        since.getTime() === START_OF_DAY.getTime() ? daily : monthly;
+      return Object.entries(totals).map(([walletId, total]) => ({
+        walletId,
+        total,
+      }));
+    }
+  );
+}
+
+const setKycLevel = (level: number) =>
+  (models.kyc.max as jest.Mock).mockResolvedValue(level);
+
+const withdraw = (amount: number, currency = "USDT", transaction?: any) =>
+  checkKycTierLimit(
+    "user-1",
+    "WITHDRAW",
+    "SPOT",
+    currency,
+    amount,
+    transaction
+  );
+
+beforeAll(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterAll(() => {
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (models.kycTier.findAll as jest.Mock).mockResolvedValue(TIERS);
+  (models.wallet.findAll as jest.Mock).mockImplementation(async ({ where }) =>
+    WALLETS.filter((wallet) => where.id.includes(wallet.id))
+  );
+  (models.currency.findOne as jest.Mock).mockResolvedValue({ price: 1.1 });
+  (getUsdPrice as jest.Mock).mockImplementation(
+    async (currency: string) => prices[currency] || 0
+  );
+  setKycLevel(1);
+  setUsage({});
+});
+
+describe("getKycLimitUsage", () => {
+  it("values each wallet at its own USD price", async () => {
+    setUsage({ btc: 0.01, eur: 100, usd: -50 }, { btc: 0.1 });
+
+    const usage = await getKycLimitUsage("user-1", "WITHDRAW");
+
+    // 0.01 BTC at 50000, 100 EUR at 1.1 and 50 USD
+    expect(usage.daily).toBeCloseTo(660);
+    expect(usage.monthly).toBeCloseTo(5000);
+    expect(models.transaction.findAll).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          createdAt: { [Op.gte]: START_OF_DAY },
+        }),
+      })
+    );
+  });
+});
+
+describe("checkKycTierLimit", () => {
+  it("allows an amount that fits what is left of both limits", async () => {
+    setUsage({ usd: 400 }, { usd: 4000 });
+
+    await expect(withdraw(600)).resolves.toBeUndefined();
+  });
+
+  it("names the remaining daily allowance and the next tier", async () => {
+    setUsage({ usd: 400 });
+
+    await expect(withdraw(601)).rejects.toThrow(
+      "This withdrawal of $601 exceeds the daily withdrawal limit of $1,000 " +
+        "for your Basic tier ($600 remaining). Complete KYC verification to " +
+        "reach the Advanced tier (KYC level 2) for a higher limit."
+    );
+  });
+
+  it("counts the whole month against the monthly limit", async () => {
+    setUsage({}, { btc: 0.09 });
+
+    await expect(withdraw(600)).rejects.toThrow(
+      "exceeds the monthly withdrawal limit of $5,000 for your Basic tier ($500 remaining)"
+    );
+  });
+
+  it("prices the requested amount in USD", async () => {
+    await expect(withdraw(0.02, "BTC")).resolves.toBeUndefined();
+    await expect(withdraw(0.03, "BTC")).rejects.toThrow(
+      "This withdrawal of $1,500 exceeds the daily withdrawal limit"
+    );
+  });
+
+  it("lets users below the lowest tier move nothing", async () => {
+    setKycLevel(0);
+
+    await expect(withdraw(1)).rejects.toThrow(
+      "limit of $0 for unverified accounts ($0 remaining). Complete KYC " +
+        "verification to reach the Basic tier (KYC level 1)"
+    );
+  });
+
+  it("does not cap tiers without limits", async () => {
+    setKycLevel(3);
+    setUsage({ usd: 1e9 });
+
+    await expect(withdraw(1e6)).resolves.toBeUndefined();
+  });
+
+  it("does not cap anyone while no tiers are active", async () => {
+    (models.kycTier.findAll as jest.Mock).mockResolvedValue([]);
+    setKycLevel(0);
+
+    await expect(withdraw(1e6)).resolves.toBeUndefined();
+    expect(models.transaction.findAll).not.toHaveBeenCalled();
+  });
+
+  it("refuses an amount without a USD price while a limit applies", async () => {
+    await expect(withdraw(1000, "UNPRICED")).rejects.toThrow(
+      "This withdrawal can't be checked against your daily withdrawal limit " +
+        "because UNPRICED has no USD price"
+    );
+  });
+
+  it("allows an unpriced amount on a tier without limits", async () => {
+    setKycLevel(3);
+
+    await expect(withdraw(1000, "UNPRICED")).resolves.toBeUndefined();
+  });
+
+  it("sums the usage under a lock on the user within the transaction", async () => {
+    const transaction = { LOCK: { UPDATE: "UPDATE" } };
+
+    await withdraw(100, "USDT", transaction);
+
+    expect(models.user.findOne).toHaveBeenCalledWith({
+      where: { id: "user-1" },
+      attributes: ["id"],
+      lock: "UPDATE",
+      transaction,
+    });
+    const lockOrder = (models.user.findOne as jest.Mock).mock
+      .invocationCallOrder[0];
+    (models.transaction.findAll as jest.Mock).mock.calls.forEach(
+      ([options], index) => {
+        expect(options.transaction).toBe(transaction);
+        expect(
+          (models.transaction.findAll as jest.Mock).mock.invocationCallOrder[
+            index
+          ]
+        ).toBeGreaterThan(lockOrder);
+      }
+    );
+  });
+});
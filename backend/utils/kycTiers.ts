@@ -0,0 +1,282 @@
+import { col, fn, Op, Transaction } from "sequelize";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { getUsdPrice } from "@b/utils/fees";
+
+export type KycFeature = "p2p" | "futures" | "ico" | "fiat";
+export type KycLimitType = "WITHDRAW" | "DEPOSIT";
+
+type AccessField = "p2pAccess" | "futuresAccess" | "icoAccess" | "fiatAccess";
+type LimitField =
+  | "dailyWithdrawLimit"
+  | "monthlyWithdrawLimit"
+  | "dailyDepositLimit"
+  | "monthlyDepositLimit";
+
+const FEATURES: Record<KycFeature, { field: AccessField; label: string }> = {
+  p2p: { field: "p2pAccess", label: "P2P trading" },
+  futures: { field: "futuresAccess", label: "Futures trading" },
+  ico: { field: "icoAccess", label: "ICO contributions" },
+  fiat: { field: "fiatAccess", label: "Fiat deposits and withdrawals" },
+};
+
+const LIMITS: Record<
+  KycLimitType,
+  { daily: LimitField; monthly: LimitField; label: string }
+> = {
+  WITHDRAW: {
+    daily: "dailyWithdrawLimit",
+    monthly: "monthlyWithdrawLimit",
+    label: "withdrawal",
+  },
+  DEPOSIT: {
+    daily: "dailyDepositLimit",
+    monthly: "monthlyDepositLimit",
+    label: "deposit",
+  },
+};
+
+// Statuses whose amounts never left or reached the wallet
+const VOID_STATUSES = [
+  "FAILED",
+  "CANCELLED",
+  "REJECTED",
+  "EXPIRED",
+  "REFUNDED",
+];
+
+export interface UserKycTier {
+  // False when no active tiers exist, nothing is gated then
+  enforced: boolean;
+  kycLevel: number;
+  tier: kycTierAttributes | null;
+  nextTier: kycTierAttributes | null;
+  tiers: kycTierAttributes[];
+}
+
+/**
+ * Places a user in the highest active tier their approved KYC level unlocks.
+ * Users without an approved application are at level 0 and get no tier when
+ * the lowest tier requires a higher level.
+ * @param userId - The ID of the user.
+ * @returns A Promise that resolves with the user's tier and the next one.
+ */
+export async function getUserKycTier(userId: string): Promise<UserKycTier> {
+  const [tiers, approvedLevel] = await Promise.all([
+    models.kycTier.findAll({
+      where: { status: true },
+      order: [["level", "ASC"]],
+      raw: true,
+    }),
+    models.kyc.max("level", { where: { userId, status: "APPROVED" } }),
+  ]);
+
+  const kycLevel = Number(approvedLevel) || 0;
+  const unlocked = tiers.filter((tier) => tier.level <= kycLevel);
+
+  return {
+    enforced: tiers.length > 0,
+    kycLevel,
+    tier: unlocked.length ? unlocked[unlocked.length - 1] : null,
+    nextTier: tiers.find((tier) => tier.level > kycLevel) || null,
+    tiers,
+  };
+}
+
+const describeTier = (tier: kycTierAttributes) =>
+  `the ${tier.name} tier (KYC level ${tier.level})`;
+
+const currentTierName = (tier: kycTierAttributes | null) =>
+  tier ? `your ${tier.name} tier` : "unverified accounts";
+
+/**
+ * Rejects the request unless the user's tier grants the feature, naming the
+ * lowest tier above it that does.
+ * @param userId - The ID of the user.
+ * @param feature - The gated feature.
+ */
+export async function requireKycFeature(userId: string, feature: KycFeature) {
+  const { enforced, kycLevel, tier, tiers } = await getUserKycTier(userId);
+  const { field, label } = FEATURES[feature];
+  if (!enforced || (tier && tier[field])) return;
+
+  const upgrade = tiers.find(
+    (candidate) => candidate.level > kycLevel && candidate[field]
+  );
+  throw createError({
+    statusCode: 403,
+    message: upgrade
+      ? `${label} is not available for ${currentTierName(
+          tier
+        )}. Complete KYC verification to reach ${describeTier(
+          upgrade
+        )} to unlock it.`
+      : `${label} is not available for your account.`,
+  });
+}
+
+const startOfDay = () => {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  return date;
+};
+
+const startOfMonth = () => {
+  const date = startOfDay();
+  date.setUTCDate(1);
+  return date;
+};
+
+// Fiat wallets are priced from the currency rates, everything else from the
+// exchange and ecosystem markets
+async function getWalletUsdPrice(walletType: string, currency: string) {
+  if (walletType === "FIAT") {
+    if (currency === "USD") return 1;
+    const fiatCurrency = await models.currency.findOne({
+      where: { id: currency },
+      attributes: ["price"],
+    });
+    return Number(fiatCurrency?.price) || 0;
+  }
+  return getUsdPrice(currency);
+}
+
+async function sumUsdSince(
+  userId: string,
+  type: KycLimitType,
+  since: Date,
+  transaction?: Transaction
+) {
+  const totals = (await models.transaction.findAll({
+    where: {
+      userId,
+      type,
+      status: { [Op.notIn]: VOID_STATUSES },
+      createdAt: { [Op.gte]: since },
+    },
+    attributes: ["walletId", [fn("SUM", col("amount")), "total"]],
+    group: ["walletId"],
+    raw: true,
+    transaction,
+  })) as unknown as { walletId: string; total: number }[];
+  if (!totals.length) return 0;
+
+  const wallets = await models.wallet.findAll({
+    where: { id: totals.map((total) => total.walletId) },
+    attributes: ["id", "type", "currency"],
+    transaction,
+  });
+  const prices = new Map<string, Promise<number>>();
+
+  let value = 0;
+  for (const wallet of wallets) {
+    const key = `${wallet.type}:${wallet.currency}`;
+    if (!prices.has(key)) {
+      prices.set(key, getWalletUsdPrice(wallet.type, wallet.currency));
+    }
+    const total = totals.find((row) => row.walletId === wallet.id);
+    value += Math.abs(Number(total?.total) || 0) * (await prices.get(key)!);
+  }
+  return value;
+}
+
+/**
+ * Computes how much of the user's daily and monthly limits of a type is used,
+ * in USD, over the current UTC day and month.
+ * @param userId - The ID of the user.
+ * @param type - Whether to sum withdrawals or deposits.
+ * @param transaction - The transaction to read the records in.
+ */
+export async function getKycLimitUsage(
+  userId: string,
+  type: KycLimitType,
+  transaction?: Transaction
+) {
+  const [daily, monthly] = await Promise.all([
+    sumUsdSince(userId, type, startOfDay(), transaction),
+    sumUsdSince(userId, type, startOfMonth(), transaction),
+  ]);
+  return { daily, monthly };
+}
+
+const formatUsd = (value: number) =>
+  `$${Math.max(value, 0).toLocaleString("en-US", {
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Rejects a withdrawal or deposit that would take the user past the daily or
+ * monthly cap of their tier, naming the remaining allowance and the lowest
+ * tier with a higher cap. An amount that can't be priced in USD is refused
+ * whenever a cap applies.
+ *
+ * Given a transaction, the user's row is locked before the usage is summed,
+ * so concurrent requests are checked one after the other. The record of the
+ * request must then be created in that same transaction, and the check should
+ * come first in it so the sums see what earlier requests committed.
+ * @param userId - The ID of the user.
+ * @param type - Whether the request is a withdrawal or a deposit.
+ * @param walletType - The type of the wallet the amount is in.
+ * @param currency - The currency of the amount.
+ * @param amount - The requested amount in the wallet currency.
+ * @param transaction - The transaction the request's record is created in.
+ */
+export async function checkKycTierLimit(
+  userId: string,
+  type: KycLimitType,
+  walletType: string,
+  currency: string,
+  amount: number,
+  transaction?: Transaction
+) {
+  const { enforced, kycLevel, tier, tiers } = await getUserKycTier(userId);
+  if (!enforced) return;
+
+  if (transaction) {
+    await models.user.findOne({
+      where: { id: userId },
+      attributes: ["id"],
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+  }
+
+  const { label } = LIMITS[type];
+  const price = await getWalletUsdPrice(walletType, currency.toUpperCase());
+  const value = Math.abs(amount) * price;
+  const usage = await getKycLimitUsage(userId, type, transaction);
+
+  for (const period of ["daily", "monthly"] as const) {
+    const field = LIMITS[type][period];
+    // Users below the lowest tier cannot move any amount
+    const limit = tier ? tier[field] : 0;
+    if (limit === null || limit === undefined) continue;
+    if (!(price > 0)) {
+      throw createError({
+        statusCode: 403,
+        message: `This ${label} can't be checked against your ${period} ${label} limit because ${currency.toUpperCase()} has no USD price. Please try again later.`,
+      });
+    }
+    if (usage[period] + value <= limit) continue;
+
+    const upgrade = tiers.find(
+      (candidate) =>
+        candidate.level > kycLevel &&
+        (candidate[field] === null ||
+          candidate[field] === undefined ||
+          (candidate[field] as number) > limit)
+    );
+    throw createError({
+      statusCode: 403,
+      message:
+        `This ${label} of ${formatUsd(value)} exceeds the ${period} ${label} ` +
+        `limit of ${formatUsd(limit)} for ${currentTierName(tier)} ` +
+        `(${formatUsd(limit - usage[period])} remaining).` +
+        (upgrade
+          ? ` Complete KYC verification to reach ${describeTier(
+              upgrade
+            )} for a higher limit.`
+          : ""),
+    });
+  }
+}
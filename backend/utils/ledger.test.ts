@@ -0,0 +1,260 @@
+import { models } from "@b/db";
+import {
+  fromLedgerUnits,
+  postLedgerJournal,
+  recordWalletChange,
+  recordWalletChanges,
+  setWalletBalances,
+  toLedgerUnits,
+} from "./ledger";
+
+jest.mock("@b/db", () => ({
+  models: {
+    ledgerAccount: { findOrCreate: jest.fn() },
+    ledgerJournal: { create: jest.fn() },
+    ledgerEntry: { bulkCreate: jest.fn() },
+    wallet: { update: jest.fn() },
+  },
+  sequelize: {},
+}));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+const transaction = {} as any;
+
+// Accounts already known to the ledger, by key
+let accounts: Set<string>;
+
+const wallet = (id: string, balance: number, currency = "USDT") => ({
+  id,
+  currency,
+  balance,
+  inOrder: 0,
+});
+
+// The signed postings of every journal written, by account key
+function journals() {
+  const types = (models.ledgerJournal.create as jest.Mock).mock.calls.map(
+    ([journal]) => journal.type
+  );
+  return (models.ledgerEntry.bulkCreate as jest.Mock).mock.calls.map(
+    ([entries], index) => ({
+      type: types[index],
+      postings: Object.fromEntries(
+        entries.map((entry) => [
+          entry.accountId,
+          fromLedgerUnits(
+            entry.direction === "CREDIT"
+              ? BigInt(entry.amount)
+              : -BigInt(entry.amount)
+          ),
+        ])
+      ),
+    })
+  );
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  accounts = new Set(["wallet:seller:AVAILABLE", "wallet:seller:IN_ORDER"]);
+  (models.ledgerAccount.findOrCreate as jest.Mock).mockImplementation(
+    async ({ where }) => {
+      const created = !accounts.has(where.key);
+      accounts.add(where.key);
+      return [{ id: where.key }, created];
+    }
+  );
+  (models.ledgerJournal.create as jest.Mock).mockResolvedValue({
+    id: "journal",
+  });
+});
+
+describe("ledger units", () => {
+  it("stores amounts as integers at wallet precision", () => {
+    expect(toLedgerUnits(0.1 + 0.2)).toBe(BigInt(30000000));
+    expect(fromLedgerUnits(toLedgerUnits(1.23456789))).toBe(1.23456789);
+  });
+});
+
+describe("postLedgerJournal", () => {
+  it("refuses postings that do not balance", async () => {
+    await expect(
+      postLedgerJournal(
+        {
+          type: "WALLET_CHANGE",
+          postings: [
+            { accountId: "a", amount: BigInt(100) },
+            { accountId: "b", amount: BigInt(-99) },
+          ],
+        },
+        transaction
+      )
+    ).rejects.toThrow("Unbalanced ledger journal, postings sum to 1");
+    expect(models.ledgerJournal.create).not.toHaveBeenCalled();
+  });
+
+  it("drops zero postings and skips empty journals", async () => {
+    await postLedgerJournal(
+      {
+        type: "WALLET_CHANGE",
+        postings: [{ accountId: "a", amount: BigInt(0) }],
+      },
+      transaction
+    );
+
+    expect(models.ledgerJournal.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordWalletChanges", () => {
+  it("posts a change against the account of its context", async () => {
+    await recordWalletChange(
+      wallet("seller", 80),
+      { balance: 100, inOrder: 0 },
+      { account: "ORDER_ESCROW", referenceId: "order-1" },
+      transaction
+    );
+
+    expect(journals()).toEqual([
+      {
+        type: "WALLET_CHANGE",
+        postings: {
+          "wallet:seller:AVAILABLE": -20,
+          "system:ORDER_ESCROW:USDT": 20,
+        },
+      },
+    ]);
+    expect(models.ledgerJournal.create).toHaveBeenCalledWith(
+      expect.objectContaining({ referenceId: "order-1" }),
+      { transaction }
+    );
+  });
+
+  it("books the fee share of the other side as revenue", async () => {
+    await recordWalletChange(
+      wallet("seller", 199),
+      { balance: 100, inOrder: 0 },
+      { account: "ORDER_ESCROW", fee: 1 },
+      transaction
+    );
+
+    expect(journals()[0].postings).toEqual({
+      "wallet:seller:AVAILABLE": 99,
+      "system:ORDER_ESCROW:USDT": -100,
+      "system:FEES:USDT": 1,
+    });
+  });
+
+  it("moves a transfer between wallets and leaves only the fee", async () => {
+    accounts.add("wallet:buyer:AVAILABLE").add("wallet:buyer:IN_ORDER");
+
+    await recordWalletChanges(
+      [
+        {
+          wallet: wallet("seller", 50),
+          previous: { balance: 100, inOrder: 0 },
+        },
+        { wallet: wallet("buyer", 49.5), previous: { balance: 0, inOrder: 0 } },
+      ],
+      { account: "FEES" },
+      transaction
+    );
+
+    expect(journals()[0].postings).toEqual({
+      "wallet:seller:AVAILABLE": -50,
+      "wallet:buyer:AVAILABLE": 49.5,
+      "system:FEES:USDT": 0.5,
+    });
+  });
+
+  it("balances each currency of a journal on its own", async () => {
+    accounts.add("wallet:btc:AVAILABLE").add("wallet:btc:IN_ORDER");
+
+    await recordWalletChanges(
+      [
+        { wallet: wallet("seller", 0), previous: { balance: 100, inOrder: 0 } },
+        {
+          wallet: wallet("btc", 1, "BTC"),
+          previous: { balance: 0, inOrder: 0 },
+        },
+      ],
+      { account: "EXCHANGE" },
+      transaction
+    );
+
+    expect(journals()[0].postings).toEqual({
+      "wallet:seller:AVAILABLE": -100,
+      "system:EXCHANGE:USDT": 100,
+      "wallet:btc:AVAILABLE": 1,
+      "system:EXCHANGE:BTC": -1,
+    });
+  });
+
+  it("opens a wallet seen for the first time at its previous balances", async () => {
+    await recordWalletChange(
+      { ...wallet("new", 30), inOrder: 5 },
+      { balance: 10, inOrder: 5 },
+      {},
+      transaction
+    );
+
+    expect(journals()).toEqual([
+      {
+        type: "OPENING",
+        postings: {
+          "wallet:new:AVAILABLE": 10,
+          "wallet:new:IN_ORDER": 5,
+          "system:OPENING:USDT": -15,
+        },
+      },
+      {
+        type: "WALLET_CHANGE",
+        postings: {
+          "wallet:new:AVAILABLE": 20,
+          "system:CLEARING:USDT": -20,
+        },
+      },
+    ]);
+  });
+
+  it("fails instead of guessing the currency of a fee", async () => {
+    await expect(
+      recordWalletChanges(
+        [
+          { wallet: wallet("seller", 0), previous: { balance: 1, inOrder: 0 } },
+          {
+            wallet: wallet("btc", 1, "BTC"),
+            previous: { balance: 0, inOrder: 0 },
+          },
+        ],
+        { fee: 0.1 },
+        transaction
+      )
+    ).rejects.toThrow("A ledger fee needs wallets of a single currency");
+    expect(models.ledgerEntry.bulkCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe("setWalletBalances", () => {
+  it("writes the new balances and journals the change", async () => {
+    const seller = { ...wallet("seller", 100), inOrder: 20 };
+
+    await setWalletBalances(
+      seller,
+      { balance: 70 },
+      { account: "EXCHANGE", fee: 5 },
+      transaction
+    );
+
+    expect(models.wallet.update).toHaveBeenCalledWith(
+      { balance: 70 },
+      { where: { id: "seller" }, transaction }
+    );
+    expect(seller).toMatchObject({ balance: 70, inOrder: 20 });
+    expect(journals()[0].postings).toEqual({
+      "wallet:seller:AVAILABLE": -30,
+      "system:EXCHANGE:USDT": 25,
+      "system:FEES:USDT": 5,
+    });
+  });
+});
@@ -0,0 +1,565 @@
+import { Op, Transaction } from "sequelize";
+import { models, sequelize } from "@b/db";
+import { logError } from "@b/utils/logger";
+
+// Ledger amounts are integers in 1e-8 units, the precision wallets round to
+const LEDGER_SCALE = 1e8;
+const RECONCILE_PAGE_SIZE = 500;
+
+export type LedgerJournalType = "OPENING" | "WALLET_CHANGE" | "ADJUSTMENT";
+export type LedgerSystemAccount =
+  | "OPENING"
+  | "CLEARING"
+  | "ADJUSTMENT"
+  // Funds locked by open orders until they fill or are refunded
+  | "ORDER_ESCROW"
+  // Funds held at an external exchange provider
+  | "EXCHANGE"
+  | "FEES";
+
+// Describes the other side of a wallet change in the journal
+export interface LedgerContext {
+  // The account the change is posted against, CLEARING when unset
+  account?: LedgerSystemAccount;
+  // The part of the account's side that is booked as fee revenue instead,
+  // in the currency of the changed wallets
+  fee?: number;
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+}
+
+// A signed posting: credits are positive, debits negative
+interface LedgerPosting {
+  accountId: string;
+  amount: bigint;
+}
+
+export interface WalletBalances {
+  balance: number;
+  inOrder: number;
+}
+
+type LedgerWallet = Pick<
+  walletAttributes,
+  "id" | "currency" | "balance" | "inOrder"
+>;
+
+// A wallet after a change, with the balances it had before
+export interface WalletChange {
+  wallet: LedgerWallet;
+  previous: WalletBalances;
+}
+
+export const toLedgerUnits = (value: number): bigint =>
+  BigInt(Math.round((Number(value) || 0) * LEDGER_SCALE));
+
+export const fromLedgerUnits = (units: bigint): number =>
+  Number(units) / LEDGER_SCALE;
+
+async function findOrCreateAccount(
+  key: string,
+  defaults: Omit<ledgerAccountCreationAttributes, "key">,
+  transaction?: Transaction
+) {
+  const [account, created] = await models.ledgerAccount.findOrCreate({
+    where: { key },
+    defaults: { key, ...defaults },
+    transaction,
+  });
+  return { account, created };
+}
+
+function getSystemAccount(
+  name: string,
+  currency: string,
+  transaction?: Transaction
+) {
+  return findOrCreateAccount(
+    `system:${name}:${currency}`,
+    { type: "SYSTEM", name, currency },
+    transaction
+  );
+}
+
+// Every wallet is backed by one account for its available balance and one for
+// the balance locked in orders
+async function getWalletAccounts(
+  wallet: LedgerWallet,
+  transaction?: Transaction
+) {
+  const [available, inOrder] = await Promise.all(
+    ["AVAILABLE", "IN_ORDER"].map((name) =>
+      findOrCreateAccount(
+        `wallet:${wallet.id}:${name}`,
+        {
+          type: "USER",
+          name,
+          currency: wallet.currency,
+          walletId: wallet.id,
+        },
+        transaction
+      )
+    )
+  );
+
+  return {
+    available: available.account,
+    inOrder: inOrder.account,
+    opened: available.created && inOrder.created,
+  };
+}
+
+/**
+ * Appends a balanced journal. Postings must sum to zero; zero postings are
+ * dropped and a journal left without postings is not written.
+ */
+export async function postLedgerJournal(
+  {
+    type,
+    description,
+    referenceType,
+    referenceId,
+    postings,
+  }: {
+    type: LedgerJournalType;
+    description?: string;
+    referenceType?: string;
+    referenceId?: string;
+    postings: LedgerPosting[];
+  },
+  transaction?: Transaction
+): Promise<void> {
+  const entries = postings.filter((posting) => posting.amount !== BigInt(0));
+  if (entries.length === 0) return;
+
+  const total = entries.reduce(
+    (sum, posting) => sum + posting.amount,
+    BigInt(0)
+  );
+  if (total !== BigInt(0)) {
+    throw new Error(`Unbalanced ledger journal, postings sum to ${total}`);
+  }
+
+  const journal = await models.ledgerJournal.create(
+    { type, description, referenceType, referenceId },
+    { transaction }
+  );
+
+  await models.ledgerEntry.bulkCreate(
+    entries.map((posting) => ({
+      journalId: journal.id,
+      accountId: posting.accountId,
+      direction: posting.amount > BigInt(0) ? "CREDIT" : "DEBIT",
+      amount: (posting.amount > BigInt(0)
+        ? posting.amount
+        : -posting.amount
+      ).toString(),
+    })),
+    { transaction }
+  );
+}
+
+// The postings that move a wallet from one pair of balances to another
+async function getWalletPostings(
+  wallet: LedgerWallet,
+  from: WalletBalances,
+  to: WalletBalances,
+  transaction?: Transaction
+): Promise<LedgerPosting[]> {
+  const accounts = await getWalletAccounts(wallet, transaction);
+  return [
+    {
+      accountId: accounts.available.id,
+      amount: toLedgerUnits(to.balance) - toLedgerUnits(from.balance),
+    },
+    {
+      accountId: accounts.inOrder.id,
+      amount: toLedgerUnits(to.inOrder) - toLedgerUnits(from.inOrder),
+    },
+  ];
+}
+
+// Posts the move of a wallet from one pair of balances to another against a
+// system account
+async function postWalletMove(
+  type: LedgerJournalType,
+  wallet: LedgerWallet,
+  from: WalletBalances,
+  to: WalletBalances,
+  systemAccount: LedgerSystemAccount,
+  context: LedgerContext,
+  transaction?: Transaction
+) {
+  const postings = await getWalletPostings(wallet, from, to, transaction);
+  const { account: contra } = await getSystemAccount(
+    systemAccount,
+    wallet.currency,
+    transaction
+  );
+
+  await postLedgerJournal(
+    {
+      type,
+      description: context.description,
+      referenceType: context.referenceType || "wallet",
+      referenceId: context.referenceId || wallet.id,
+      postings: [
+        ...postings,
+        {
+          accountId: contra.id,
+          amount: -postings.reduce(
+            (sum, { amount }) => sum + amount,
+            BigInt(0)
+          ),
+        },
+      ],
+    },
+    transaction
+  );
+}
+
+/**
+ * Journals balance changes of one or more wallets as a single journal. What
+ * the wallets of a currency gain or lose between them is posted against the
+ * account of the context, so a transfer between two wallets only touches that
+ * account for its fee. Wallets seen for the first time get an opening journal
+ * for the balances they had before the change.
+ *
+ * Must run in the database transaction that changes the balances, so that a
+ * failed journal rolls the change back with it.
+ */
+export async function recordWalletChanges(
+  changes: WalletChange[],
+  context: LedgerContext,
+  transaction: Transaction
+): Promise<void> {
+  const postings: LedgerPosting[] = [];
+  const netByCurrency: Record<string, bigint> = {};
+
+  for (const { wallet, previous } of changes) {
+    const { opened } = await getWalletAccounts(wallet, transaction);
+    if (opened) {
+      await postWalletMove(
+        "OPENING",
+        wallet,
+        { balance: 0, inOrder: 0 },
+        previous,
+        "OPENING",
+        { description: "Opening balance" },
+        transaction
+      );
+    }
+
+    const walletPostings = await getWalletPostings(
+      wallet,
+      previous,
+      { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+      transaction
+    );
+    postings.push(...walletPostings);
+    netByCurrency[wallet.currency] =
+      (netByCurrency[wallet.currency] || BigInt(0)) +
+      walletPostings.reduce((sum, { amount }) => sum + amount, BigInt(0));
+  }
+
+  const currencies = Object.keys(netByCurrency);
+  const fee = toLedgerUnits(context.fee || 0);
+  if (fee !== BigInt(0) && currencies.length !== 1) {
+    throw new Error("A ledger fee needs wallets of a single currency");
+  }
+
+  for (const currency of currencies) {
+    const { account: contra } = await getSystemAccount(
+      context.account || "CLEARING",
+      currency,
+      transaction
+    );
+    postings.push({
+      accountId: contra.id,
+      amount: -netByCurrency[currency] - fee,
+    });
+
+    if (fee !== BigInt(0)) {
+      const { account: fees } = await getSystemAccount(
+        "FEES",
+        currency,
+        transaction
+      );
+      postings.push({ accountId: fees.id, amount: fee });
+    }
+  }
+
+  await postLedgerJournal(
+    {
+      type: "WALLET_CHANGE",
+      description: context.description,
+      referenceType: context.referenceType || "wallet",
+      referenceId:
+        context.referenceId ||
+        (changes.length === 1 ? changes[0].wallet.id : undefined),
+      postings,
+    },
+    transaction
+  );
+}
+
+// Journals the balance change of a single wallet
+export function recordWalletChange(
+  wallet: LedgerWallet,
+  previous: WalletBalances,
+  context: LedgerContext,
+  transaction: Transaction
+): Promise<void> {
+  return recordWalletChanges([{ wallet, previous }], context, transaction);
+}
+
+/**
+ * Writes new balances to a wallet and journals the change in the caller's
+ * transaction. The wallet holds the balances read before the change, under a
+ * lock where the caller needs one, and is given the new ones. Balances left
+ * out are kept.
+ */
+export async function setWalletBalances(
+  wallet: LedgerWallet,
+  values: Partial<WalletBalances>,
+  context: LedgerContext,
+  transaction: Transaction
+): Promise<void> {
+  const previous = {
+    balance: wallet.balance,
+    inOrder: wallet.inOrder || 0,
+  };
+  const next = { ...previous, ...values };
+
+  await models.wallet.update(values, {
+    where: { id: wallet.id },
+    transaction,
+  });
+  Object.assign(wallet, values);
+  await recordWalletChange(
+    { id: wallet.id, currency: wallet.currency, ...next },
+    previous,
+    context,
+    transaction
+  );
+}
+
+/**
+ * Projects the journal onto wallets: the available and in-order balances
+ * their accounts add up to.
+ */
+export async function getLedgerBalances(
+  walletIds: string[],
+  transaction?: Transaction
+): Promise<Record<string, WalletBalances>> {
+  const rows = await models.ledgerEntry.findAll({
+    attributes: [
+      [sequelize.col("account.walletId"), "walletId"],
+      [sequelize.col("account.name"), "name"],
+      [
+        sequelize.literal(
+          "SUM(CASE WHEN direction = 'CREDIT' THEN amount ELSE -amount END)"
+        ),
+        "total",
+      ],
+    ],
+    include: [
+      {
+        model: models.ledgerAccount,
+        as: "account",
+        attributes: [],
+        where: { walletId: { [Op.in]: walletIds }, type: "USER" },
+      },
+    ],
+    group: ["account.walletId", "account.name"],
+    raw: true,
+    transaction,
+  });
+
+  const balances: Record<string, WalletBalances> = {};
+  for (const row of rows as any[]) {
+    const total = fromLedgerUnits(BigInt(row.total || 0));
+    balances[row.walletId] = balances[row.walletId] || {
+      balance: 0,
+      inOrder: 0,
+    };
+    if (row.name === "IN_ORDER") {
+      balances[row.walletId].inOrder = total;
+    } else {
+      balances[row.walletId].balance = total;
+    }
+  }
+  return balances;
+}
+
+async function flagDiscrepancy(
+  wallet: walletAttributes,
+  ledger: WalletBalances | undefined
+) {
+  const open = await models.ledgerDiscrepancy.findOne({
+    where: { walletId: wallet.id, status: "OPEN" },
+  });
+
+  const drifted =
+    !ledger ||
+    toLedgerUnits(ledger.balance) !== toLedgerUnits(wallet.balance) ||
+    toLedgerUnits(ledger.inOrder) !== toLedgerUnits(wallet.inOrder || 0);
+
+  if (!drifted) {
+    if (open) {
+      await open.update({ status: "RESOLVED", resolution: "SELF_CORRECTED" });
+    }
+    return;
+  }
+
+  const values = {
+    balance: wallet.balance,
+    inOrder: wallet.inOrder || 0,
+    ledgerBalance: ledger?.balance || 0,
+    ledgerInOrder: ledger?.inOrder || 0,
+  };
+  if (open) {
+    await open.update(values);
+  } else {
+    await models.ledgerDiscrepancy.create({ walletId: wallet.id, ...values });
+  }
+}
+
+/**
+ * Compares every wallet with its ledger projection and flags the wallets
+ * that drifted, which is what balance changes made without journaling them
+ * leave behind. Wallets that were never journaled are opened at their current
+ * balances instead.
+ */
+export async function reconcileLedger() {
+  try {
+    let offset = 0;
+    while (true) {
+      const wallets = await models.wallet.findAll({
+        attributes: ["id", "currency", "balance", "inOrder"],
+        order: [["id", "ASC"]],
+        limit: RECONCILE_PAGE_SIZE,
+        offset,
+      });
+      if (wallets.length === 0) break;
+      offset += wallets.length;
+
+      const walletIds = wallets.map((wallet) => wallet.id);
+      const [ledgerBalances, accounts] = await Promise.all([
+        getLedgerBalances(walletIds),
+        models.ledgerAccount.findAll({
+          attributes: ["walletId"],
+          where: { walletId: { [Op.in]: walletIds }, type: "USER" },
+          raw: true,
+        }),
+      ]);
+      const journaled = new Set(accounts.map((account) => account.walletId));
+
+      for (const wallet of wallets) {
+        try {
+          if (!journaled.has(wallet.id)) {
+            await postWalletMove(
+              "OPENING",
+              wallet,
+              { balance: 0, inOrder: 0 },
+              { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+              "OPENING",
+              { description: "Opening balance" }
+            );
+            continue;
+          }
+
+          await flagDiscrepancy(wallet, ledgerBalances[wallet.id]);
+        } catch (error) {
+          logError("reconcileLedger", error, __filename);
+        }
+      }
+    }
+
+    const unbalanced = await models.ledgerEntry.findAll({
+      attributes: ["journalId"],
+      group: ["journalId"],
+      having: sequelize.literal(
+        "SUM(CASE WHEN direction = 'CREDIT' THEN amount ELSE -amount END) <> 0"
+      ),
+      raw: true,
+    });
+    if (unbalanced.length > 0) {
+      logError(
+        "reconcileLedger",
+        new Error(
+          `Unbalanced ledger journals: ${unbalanced
+            .map((entry) => entry.journalId)
+            .join(", ")}`
+        ),
+        __filename
+      );
+    }
+  } catch (error) {
+    logError("reconcileLedger", error, __filename);
+    throw error;
+  }
+}
+
+/**
+ * Settles an open discrepancy either by posting an adjustment that brings the
+ * ledger to the wallet, or by restoring the wallet to its ledger projection.
+ */
+export async function resolveLedgerDiscrepancy(
+  id: string,
+  resolution: "ADJUST_LEDGER" | "RESTORE_WALLET",
+  description?: string
+) {
+  return sequelize.transaction(async (transaction) => {
+    const discrepancy = await models.ledgerDiscrepancy.findOne({
+      where: { id, status: "OPEN" },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!discrepancy) {
+      throw new Error("Open discrepancy not found");
+    }
+
+    const wallet = await models.wallet.findOne({
+      where: { id: discrepancy.walletId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!wallet) {
+      throw new Error("Wallet not found");
+    }
+
+    const ledger = (await getLedgerBalances([wallet.id], transaction))[
+      wallet.id
+    ] || { balance: 0, inOrder: 0 };
+
+    if (resolution === "ADJUST_LEDGER") {
+      await postWalletMove(
+        "ADJUSTMENT",
+        wallet,
+        ledger,
+        { balance: wallet.balance, inOrder: wallet.inOrder || 0 },
+        "ADJUSTMENT",
+        {
+          description: description || "Ledger adjusted to wallet balance",
+          referenceType: "ledgerDiscrepancy",
+          referenceId: discrepancy.id,
+        },
+        transaction
+      );
+    } else {
+      // The ledger already holds these balances, so nothing is journaled
+      await models.wallet.update(
+        { balance: ledger.balance, inOrder: ledger.inOrder },
+        { where: { id: wallet.id }, transaction }
+      );
+    }
+
+    await discrepancy.update(
+      { status: "RESOLVED", resolution },
+      { transaction }
+    );
+    return discrepancy;
+  });
+}
@@ -27,6 +27,7 @@ export interface EmailOptions {
   subject: string;
   html?: string;
   text?: string;
+  headers?: Record<string, string>;
 }
 
 export async function sendEmailWithProvider(
@@ -123,6 +124,7 @@ async function emailWithLocalSMTP(options: EmailOptions): Promise<void> {
       subject: options.subject,
       html: options.html,
       text: options.text,
+      headers: options.headers,
     };
 
     await transporter.sendMail(mailOptions);
@@ -149,6 +151,7 @@ export async function emailWithSendgrid(options: EmailOptions): Promise<void> {
       from: options.from,
       subject: options.subject,
       html: options.html ? options.html : options.text,
+      headers: options.headers,
     };
 
     await sgMail.send(msg);
@@ -169,6 +172,7 @@ export async function emailWithNodemailerService(
     to: options.to,
     subject: options.subject,
     html: options.html,
+    headers: options.headers,
   };
 
   if (!service)
@@ -221,6 +225,7 @@ export async function emailWithNodemailerSmtp(
     to: options.to,
     subject: options.subject,
     html: options.html,
+    headers: options.headers,
   };
 
   if (!host)
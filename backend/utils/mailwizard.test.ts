@@ -0,0 +1,305 @@
+import { Op } from "sequelize";
+import { models } from "@b/db";
+import {
+  countSegmentUsers,
+  renderCampaignEmail,
+  serveMailwizardTracking,
+  unsubscribeRecipient,
+  validateSegmentRules,
+} from "./mailwizard";
+
+jest.mock("@b/db", () => {
+  const { Sequelize } = jest.requireActual("sequelize");
+  const table = (name: string) => ({ getTableName: () => name });
+  return {
+    // Escapes like the database the segments run on
+    sequelize: new Sequelize({ dialect: "mysql" }),
+    models: {
+      user: { count: jest.fn() },
+      wallet: table("wallet"),
+      kyc: table("kyc"),
+      mailwizardRecipient: { findOne: jest.fn() },
+      mailwizardSuppression: { findOrCreate: jest.fn() },
+    },
+  };
+});
+
+jest.mock("@b/utils/constants", () => ({
+  NEXT_PUBLIC_SITE_NAME: "Site",
+  NEXT_PUBLIC_SITE_URL: "https://site.test",
+}));
+
+jest.mock("@b/utils/logger", () => ({ logError: jest.fn() }));
+
+process.env.APP_ACCESS_TOKEN_SECRET = "secret";
+
+const TOKEN = "a".repeat(48);
+
+function makeRecipient(overrides: Record<string, any> = {}) {
+  const recipient = {
+    email: "User@Example.com ",
+    campaignId: "campaign-1",
+    unsubscribedAt: null,
+    openCount: 0,
+    clickCount: 0,
+    openedAt: null,
+    clickedAt: null,
+    ...overrides,
+    update: jest.fn(async (values) => Object.assign(recipient, values)),
+  };
+  (models.mailwizardRecipient.findOne as jest.Mock).mockImplementation(
+    async ({ where }) => (where.token === TOKEN ? recipient : null)
+  );
+  return recipient;
+}
+
+// Serves a tracking request and resolves with what was written back
+function track(method: string, link: string) {
+  const { pathname, search } = new URL(link);
+  return new Promise<{ status: string; headers: Record<string, string> }>(
+    (resolve) => {
+      const response = { status: "", headers: {} as Record<string, string> };
+      const res = {
+        onAborted: jest.fn(),
+        cork: (callback: () => void) => callback(),
+        writeStatus: (status: string) => (response.status = status),
+        writeHeader: (key: string, value: string) =>
+          (response.headers[key] = value),
+        end: jest.fn(),
+      };
+      const req = {
+        getMethod: () => method,
+        getQuery: () => search.slice(1),
+      };
+      serveMailwizardTracking(res, req, pathname, () => resolve(response));
+    }
+  );
+}
+
+function clickLink(url: string) {
+  const html = renderCampaignEmail(`<a href="${url}">Open</a>`, TOKEN);
+  return html.match(/href="([^"]+)"/)![1];
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (models.user.count as jest.Mock).mockResolvedValue(0);
+  (models.mailwizardSuppression.findOrCreate as jest.Mock).mockResolvedValue([
+    {},
+    true,
+  ]);
+});
+
+describe("validateSegmentRules", () => {
+  it("keeps the known keys of each rule and normalizes them", () => {
+    expect(
+      validateSegmentRules(
+        JSON.stringify([
+          { field: "kycLevel", operator: "gte", value: "2", extra: 1 },
+          {
+            field: "walletBalance",
+            currency: " usdt ",
+            walletType: "SPOT",
+            operator: "gte",
+            value: 100,
+          },
+          { field: "emailVerified", value: "true" },
+        ])
+      )
+    ).toEqual([
+      { field: "kycLevel", operator: "gte", value: 2 },
+      {
+        field: "walletBalance",
+        currency: "USDT",
+        walletType: "SPOT",
+        operator: "gte",
+        value: 100,
+      },
+      { field: "emailVerified", value: true },
+    ]);
+  });
+
+  it.each([
+    ["not JSON", "Invalid segment rules"],
+    [[], "A segment needs at least one rule"],
+    [[{ field: "country" }], "Rule 1: Unknown field"],
+    [
+      [{ field: "kycLevel", operator: "gte", value: "1 OR 1=1" }],
+      "Rule 1: KYC level must be a number",
+    ],
+    [
+      [{ field: "kycLevel", operator: "like", value: 1 }],
+      "Rule 1: Operator must be one of gte, lte, eq",
+    ],
+    [
+      [
+        { field: "emailVerified", value: true },
+        { field: "walletBalance", operator: "gte", value: 1 },
+      ],
+      "Rule 2: Currency is required",
+    ],
+    [
+      [
+        {
+          field: "walletBalance",
+          currency: "USDT",
+          walletType: "MARGIN",
+          operator: "gte",
+          value: 1,
+        },
+      ],
+      "Rule 1: Wallet type must be one of FIAT, SPOT, ECO, FUTURES",
+    ],
+    [
+      [{ field: "lastLogin", operator: "within", value: 0 }],
+      "Rule 1: Days must be positive",
+    ],
+    [
+      [{ field: "extension", extension: "casino", operator: "used" }],
+      "Rule 1: Extension must be one of",
+    ],
+  ])("refuses %j", (rules, message) => {
+    expect(() => validateSegmentRules(rules)).toThrow(message);
+  });
+});
+
+describe("countSegmentUsers", () => {
+  // The SQL of the subquery a rule filters the users with
+  async function ruleSql(rule: any) {
+    await countSegmentUsers(validateSegmentRules([rule]));
+    const [{ where }] = (models.user.count as jest.Mock).mock.calls[0];
+    const [, condition] = where[Op.and];
+    const { [Op.in]: included, [Op.notIn]: excluded } = condition.id;
+    return (included || excluded).val as string;
+  }
+
+  it("escapes the currency and wallet type of a balance rule", async () => {
+    const sql = await ruleSql({
+      field: "walletBalance",
+      currency: "usdt' OR '1'='1",
+      operator: "gte",
+      value: 5,
+    });
+
+    expect(sql).toContain("WHERE currency = 'USDT\\' OR \\'1\\'=\\'1'");
+    expect(sql).toContain("HAVING SUM(balance) >= 5");
+  });
+
+  it("counts users without a wallet as holding nothing", async () => {
+    const sql = await ruleSql({
+      field: "walletBalance",
+      currency: "USDT",
+      walletType: "SPOT",
+      operator: "lte",
+      value: 5,
+    });
+
+    expect(sql).toContain("AND type = 'SPOT'");
+    expect(sql).toContain("HAVING SUM(balance) > 5");
+    const [{ where }] = (models.user.count as jest.Mock).mock.calls[0];
+    expect(where[Op.and][1].id[Op.notIn]).toBeDefined();
+  });
+
+  it("only counts active users", async () => {
+    await countSegmentUsers(
+      validateSegmentRules([{ field: "emailVerified", value: false }])
+    );
+
+    expect(models.user.count).toHaveBeenCalledWith({
+      where: {
+        [Op.and]: [{ status: "ACTIVE" }, { emailVerified: false }],
+      },
+    });
+  });
+});
+
+describe("click links", () => {
+  it("redirects a signed link and records the click", async () => {
+    const recipient = makeRecipient();
+    const link = clickLink("https://example.org/page?a=1&amp;b=2");
+
+    const response = await track("GET", link);
+
+    expect(response.status).toBe("302 Found");
+    expect(response.headers.Location).toBe("https://example.org/page?a=1&b=2");
+    expect(recipient).toMatchObject({
+      clickCount: 1,
+      clickedAt: expect.any(Date),
+      openedAt: expect.any(Date),
+    });
+  });
+
+  it("refuses a link whose target or expiry was changed", async () => {
+    makeRecipient();
+    const link = new URL(clickLink("https://example.org/"));
+
+    const target = new URL(link.href);
+    target.searchParams.set("url", "https://evil.test/");
+    const expiry = new URL(link.href);
+    expiry.searchParams.set(
+      "expires",
+      String(Number(link.searchParams.get("expires")) + 1)
+    );
+    const unsigned = new URL(link.href);
+    unsigned.searchParams.delete("signature");
+
+    for (const tampered of [target, expiry, unsigned]) {
+      expect((await track("GET", tampered.href)).status).toBe(
+        "400 Bad Request"
+      );
+    }
+    expect(models.mailwizardRecipient.findOne).not.toHaveBeenCalled();
+  });
+
+  it("refuses an expired link", async () => {
+    makeRecipient();
+    const link = clickLink("https://example.org/");
+
+    const now = Date.now();
+    const spy = jest.spyOn(Date, "now").mockReturnValue(now + 91 * 86400000);
+    try {
+      expect((await track("GET", link)).status).toBe("410 Gone");
+    } finally {
+      spy.mockRestore();
+    }
+    expect(models.mailwizardRecipient.findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("unsubscribeRecipient", () => {
+  it("suppresses the address of the recipient once", async () => {
+    const recipient = makeRecipient();
+
+    await expect(unsubscribeRecipient(TOKEN)).resolves.toBe(true);
+    await expect(unsubscribeRecipient(TOKEN)).resolves.toBe(true);
+
+    expect(models.mailwizardSuppression.findOrCreate).toHaveBeenCalledWith({
+      where: { email: "user@example.com" },
+      defaults: {
+        email: "user@example.com",
+        reason: "UNSUBSCRIBED",
+        campaignId: "campaign-1",
+      },
+    });
+    expect(recipient.update).toHaveBeenCalledTimes(1);
+    expect(recipient.unsubscribedAt).toBeInstanceOf(Date);
+  });
+
+  it("ignores an unknown token", async () => {
+    makeRecipient();
+
+    await expect(unsubscribeRecipient("unknown")).resolves.toBe(false);
+    expect(models.mailwizardSuppression.findOrCreate).not.toHaveBeenCalled();
+  });
+
+  it("only unsubscribes on the one-click POST", async () => {
+    const recipient = makeRecipient();
+    const link = `https://site.test/mailwizard/unsubscribe/${TOKEN}`;
+
+    expect((await track("GET", link)).status).toBe("200 OK");
+    expect(recipient.unsubscribedAt).toBeNull();
+
+    expect((await track("POST", link)).status).toBe("200 OK");
+    expect(recipient.unsubscribedAt).toBeInstanceOf(Date);
+  });
+});
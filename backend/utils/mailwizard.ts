@@ -0,0 +1,689 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { col, fn, literal, Op } from "sequelize";
+import { models, sequelize } from "@b/db";
+import {
+  NEXT_PUBLIC_SITE_NAME,
+  NEXT_PUBLIC_SITE_URL,
+} from "@b/utils/constants";
+import { createError } from "@b/utils/error";
+import { logError } from "@b/utils/logger";
+
+const TRACKING_PREFIX = "/mailwizard/";
+const DAY = 24 * 60 * 60 * 1000;
+// How long the tracked links of a sent email keep redirecting
+const LINK_TTL = 90 * DAY;
+const WALLET_TYPES = ["FIAT", "SPOT", "ECO", "FUTURES"];
+
+// Records that show a user used an extension, by extension name
+const EXTENSION_USAGE: Record<string, [model: string, column: string][]> = {
+  ai_investment: [["aiInvestment", "userId"]],
+  ecommerce: [["ecommerceOrder", "userId"]],
+  forex: [["forexAccount", "userId"]],
+  ico: [["icoContribution", "userId"]],
+  mlm: [["mlmReferral", "referrerId"]],
+  p2p: [
+    ["p2pTrade", "userId"],
+    ["p2pTrade", "sellerId"],
+  ],
+  staking: [["stakingLog", "userId"]],
+};
+
+export const SEGMENT_EXTENSIONS = Object.keys(EXTENSION_USAGE);
+
+// 1x1 transparent GIF returned by the open pixel
+const PIXEL = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64"
+);
+
+/* ------------------------------------------------------------------------ */
+/* Segments                                                                 */
+/* ------------------------------------------------------------------------ */
+
+const invalidRule = (index: number, message: string) =>
+  createError({
+    statusCode: 400,
+    message: `Rule ${index + 1}: ${message}`,
+  });
+
+function parseNumber(value: any, index: number, label: string) {
+  const number = Number(value);
+  if (value === "" || value === null || !Number.isFinite(number)) {
+    throw invalidRule(index, `${label} must be a number`);
+  }
+  return number;
+}
+
+function parseOperator<T extends string>(
+  value: any,
+  operators: readonly T[],
+  index: number
+): T {
+  if (!operators.includes(value)) {
+    throw invalidRule(index, `Operator must be one of ${operators.join(", ")}`);
+  }
+  return value;
+}
+
+/**
+ * Checks the rules of a segment and returns them with only the known keys.
+ */
+export function validateSegmentRules(rules: any): MailwizardSegmentRule[] {
+  if (typeof rules === "string") {
+    try {
+      rules = JSON.parse(rules);
+    } catch {
+      throw createError({ statusCode: 400, message: "Invalid segment rules" });
+    }
+  }
+  if (!Array.isArray(rules) || !rules.length) {
+    throw createError({
+      statusCode: 400,
+      message: "A segment needs at least one rule",
+    });
+  }
+
+  return rules.map((rule, index): MailwizardSegmentRule => {
+    switch (rule?.field) {
+      case "kycLevel":
+        return {
+          field: "kycLevel",
+          operator: parseOperator(rule.operator, ["gte", "lte", "eq"], index),
+          value: parseNumber(rule.value, index, "KYC level"),
+        };
+      case "walletBalance": {
+        if (!rule.currency || typeof rule.currency !== "string") {
+          throw invalidRule(index, "Currency is required");
+        }
+        if (rule.walletType && !WALLET_TYPES.includes(rule.walletType)) {
+          throw invalidRule(
+            index,
+            `Wallet type must be one of ${WALLET_TYPES.join(", ")}`
+          );
+        }
+        return {
+          field: "walletBalance",
+          currency: rule.currency.trim().toUpperCase(),
+          ...(rule.walletType && { walletType: rule.walletType }),
+          operator: parseOperator(rule.operator, ["gte", "lte"], index),
+          value: parseNumber(rule.value, index, "Balance"),
+        };
+      }
+      case "lastLogin": {
+        const value = parseNumber(rule.value, index, "Days");
+        if (value <= 0) throw invalidRule(index, "Days must be positive");
+        return {
+          field: "lastLogin",
+          operator: parseOperator(
+            rule.operator,
+            ["within", "notWithin"],
+            index
+          ),
+          value,
+        };
+      }
+      case "extension":
+        if (!EXTENSION_USAGE[rule.extension]) {
+          throw invalidRule(
+            index,
+            `Extension must be one of ${SEGMENT_EXTENSIONS.join(", ")}`
+          );
+        }
+        return {
+          field: "extension",
+          extension: rule.extension,
+          operator: parseOperator(rule.operator, ["used", "notUsed"], index),
+        };
+      case "emailVerified":
+        return {
+          field: "emailVerified",
+          value: rule.value === true || rule.value === "true",
+        };
+      default:
+        throw invalidRule(index, "Unknown field");
+    }
+  });
+}
+
+const table = (model: string) => `\`${models[model].getTableName()}\``;
+
+// Condition on the user id matching (or not) the ids a subquery selects
+const userIdIn = (subquery: string, negate = false) => ({
+  id: { [negate ? Op.notIn : Op.in]: literal(`(${subquery})`) },
+});
+
+function kycLevelCondition(having: string, negate = false) {
+  return userIdIn(
+    `SELECT userId FROM ${table("kyc")} WHERE status = 'APPROVED' AND deletedAt IS NULL GROUP BY userId HAVING ${having}`,
+    negate
+  );
+}
+
+function ruleCondition(rule: MailwizardSegmentRule) {
+  switch (rule.field) {
+    case "kycLevel": {
+      // Users without an approved application are on level 0
+      const level = Number(rule.value);
+      if (rule.operator === "gte") {
+        return level <= 0 ? {} : kycLevelCondition(`MAX(level) >= ${level}`);
+      }
+      if (rule.operator === "lte") {
+        return kycLevelCondition(`MAX(level) > ${level}`, true);
+      }
+      return level <= 0
+        ? kycLevelCondition("MAX(level) > 0", true)
+        : kycLevelCondition(`MAX(level) = ${level}`);
+    }
+    case "walletBalance": {
+      // Users without a wallet in the currency hold a balance of 0
+      const value = Number(rule.value);
+      const wallets = `SELECT userId FROM ${table(
+        "wallet"
+      )} WHERE currency = ${sequelize.escape(rule.currency)}${
+        rule.walletType
+          ? ` AND type = ${sequelize.escape(rule.walletType)}`
+          : ""
+      } AND deletedAt IS NULL GROUP BY userId`;
+      if (rule.operator === "gte") {
+        return value > 0
+          ? userIdIn(`${wallets} HAVING SUM(balance) >= ${value}`)
+          : userIdIn(`${wallets} HAVING SUM(balance) < ${value}`, true);
+      }
+      return userIdIn(`${wallets} HAVING SUM(balance) > ${value}`, true);
+    }
+    case "lastLogin": {
+      const since = new Date(Date.now() - Number(rule.value) * DAY);
+      return rule.operator === "within"
+        ? { lastLogin: { [Op.gte]: since } }
+        : {
+            [Op.or]: [{ lastLogin: null }, { lastLogin: { [Op.lt]: since } }],
+          };
+    }
+    case "extension": {
+      const subquery = EXTENSION_USAGE[rule.extension]
+        .map(
+          ([model, column]) =>
+            `SELECT ${column} FROM ${table(
+              model
+            )} WHERE ${column} IS NOT NULL AND deletedAt IS NULL`
+        )
+        .join(" UNION ");
+      return userIdIn(subquery, rule.operator === "notUsed");
+    }
+    case "emailVerified":
+      return { emailVerified: rule.value };
+  }
+}
+
+// Only active users are ever part of a segment
+function segmentWhere(rules: MailwizardSegmentRule[]) {
+  return {
+    [Op.and]: [{ status: "ACTIVE" }, ...rules.map(ruleCondition)],
+  };
+}
+
+export async function countSegmentUsers(rules: MailwizardSegmentRule[]) {
+  return models.user.count({ where: segmentWhere(rules) });
+}
+
+export async function getSegmentUsers(rules: MailwizardSegmentRule[]) {
+  return models.user.findAll({
+    where: segmentWhere(rules),
+    attributes: ["id", "email", "firstName", "lastName"],
+    raw: true,
+  });
+}
+
+/* ------------------------------------------------------------------------ */
+/* Recipients                                                               */
+/* ------------------------------------------------------------------------ */
+
+const TARGET_STATUSES = ["PENDING", "SENT", "FAILED"];
+
+export const campaignSubjects = (campaign: mailwizardCampaignAttributes) => [
+  campaign.subject,
+  ...(campaign.subjectVariants || []).filter(Boolean),
+];
+
+/**
+ * Reads subject variants sent as a list or as one subject per line.
+ */
+export function parseSubjectVariants(value: any): string[] | null {
+  const variants = (
+    Array.isArray(value) ? value : String(value ?? "").split("\n")
+  )
+    .map((subject) => String(subject).trim())
+    .filter(Boolean);
+  if (variants.some((subject) => subject.length > 191)) {
+    throw createError({
+      statusCode: 400,
+      message: "Subject variants must be at most 191 characters",
+    });
+  }
+  return variants.length ? variants : null;
+}
+
+export function parseCampaignTargets(targets?: string) {
+  if (!targets) return [];
+  try {
+    const parsed = JSON.parse(targets);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    logError("mailwizard", error, __filename);
+    return [];
+  }
+}
+
+/**
+ * Adds recipients to a campaign, skipping emails it already has. Subject
+ * variants are handed out in turn so each gets an even share.
+ */
+export async function addCampaignRecipients(
+  campaign: mailwizardCampaignAttributes,
+  entries: { email: string; userId?: string; status?: string }[]
+) {
+  const existing = await models.mailwizardRecipient.findAll({
+    where: { campaignId: campaign.id },
+    attributes: ["email"],
+    raw: true,
+  });
+  const seen = new Set(existing.map(({ email }) => email.toLowerCase()));
+  const variants = campaignSubjects(campaign).length;
+  let position = existing.length;
+
+  const records: mailwizardRecipientCreationAttributes[] = [];
+  for (const entry of entries) {
+    const email = entry.email?.trim();
+    if (!email || seen.has(email.toLowerCase())) continue;
+    seen.add(email.toLowerCase());
+    records.push({
+      campaignId: campaign.id,
+      userId: entry.userId,
+      email,
+      token: randomBytes(24).toString("hex"),
+      variant: position++ % variants,
+      status: TARGET_STATUSES.includes(entry.status as string)
+        ? (entry.status as mailwizardRecipientAttributes["status"])
+        : "PENDING",
+    });
+  }
+
+  if (records.length) {
+    await models.mailwizardRecipient.bulkCreate(records, {
+      ignoreDuplicates: true,
+    });
+  }
+  return records.length;
+}
+
+/**
+ * Expands the campaign's segment and hand-picked targets into recipients.
+ * Runs when the campaign starts sending, so the segment reflects the users
+ * at that time.
+ */
+export async function resolveCampaignRecipients(
+  campaign: mailwizardCampaignAttributes
+) {
+  const entries: { email: string; userId?: string; status?: string }[] =
+    parseCampaignTargets(campaign.targets).map((target) => ({
+      email: target.email,
+      userId: target.id,
+      status: target.status,
+    }));
+
+  if (campaign.segmentId) {
+    const segment = await models.mailwizardSegment.findByPk(campaign.segmentId);
+    if (segment) {
+      const users = await getSegmentUsers(segment.rules);
+      entries.push(
+        ...users.map((user) => ({ email: user.email, userId: user.id }))
+      );
+    }
+  }
+
+  const added = await addCampaignRecipients(campaign, entries);
+  await models.mailwizardCampaign.update(
+    { recipientsResolvedAt: new Date() },
+    { where: { id: campaign.id } }
+  );
+  return added;
+}
+
+/* ------------------------------------------------------------------------ */
+/* Suppression                                                              */
+/* ------------------------------------------------------------------------ */
+
+export async function isEmailSuppressed(email: string) {
+  const suppression = await models.mailwizardSuppression.findOne({
+    where: { email: email.trim().toLowerCase() },
+    attributes: ["id"],
+  });
+  return !!suppression;
+}
+
+export async function suppressEmail(
+  email: string,
+  reason: mailwizardSuppressionAttributes["reason"],
+  campaignId?: string
+) {
+  const [suppression] = await models.mailwizardSuppression.findOrCreate({
+    where: { email: email.trim().toLowerCase() },
+    defaults: { email: email.trim().toLowerCase(), reason, campaignId },
+  });
+  return suppression;
+}
+
+/* ------------------------------------------------------------------------ */
+/* Tracking                                                                 */
+/* ------------------------------------------------------------------------ */
+
+const trackingUrl = (path: string) =>
+  `${NEXT_PUBLIC_SITE_URL}${TRACKING_PREFIX}${path}`;
+
+const signLink = (token: string, url: string, expires: string) =>
+  createHmac("sha256", process.env.APP_ACCESS_TOKEN_SECRET as string)
+    .update(`${token}:${url}:${expires}`)
+    .digest("hex");
+
+function verifyLink(
+  token: string,
+  url: string | null,
+  expires: string | null,
+  signature: string | null
+) {
+  if (!url || !expires || !signature) return false;
+  const expected = Buffer.from(signLink(token, url, expires));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+export const unsubscribeUrl = (token: string) =>
+  trackingUrl(`unsubscribe/${token}`);
+
+function clickUrl(token: string, url: string) {
+  const expires = String(Date.now() + LINK_TTL);
+  return trackingUrl(
+    `click/${token}?url=${encodeURIComponent(
+      url
+    )}&expires=${expires}&signature=${signLink(token, url, expires)}`
+  );
+}
+
+function insertBeforeBodyEnd(html: string, content: string) {
+  const index = html.search(/<\/body>/i);
+  return index === -1
+    ? html + content
+    : html.slice(0, index) + content + html.slice(index);
+}
+
+/**
+ * Adds click tracking, the open pixel and the unsubscribe link to the email
+ * of a recipient. Templates place the unsubscribe link with
+ * %UNSUBSCRIBE_URL%, otherwise it is added at the end.
+ */
+export function renderCampaignEmail(html: string, token: string) {
+  let rendered = html.replace(
+    /href\s*=\s*(["'])(https?:\/\/[^"']+)\1/gi,
+    (_, quote, url) =>
+      `href=${quote}${clickUrl(token, url.replace(/&amp;/g, "&"))}${quote}`
+  );
+
+  const unsubscribe = unsubscribeUrl(token);
+  if (rendered.includes("%UNSUBSCRIBE_URL%")) {
+    rendered = rendered.replace(/%UNSUBSCRIBE_URL%/g, unsubscribe);
+  } else {
+    rendered = insertBeforeBodyEnd(
+      rendered,
+      `<p style="text-align:center;font-size:12px;color:#888888;">Don't want to receive these emails? <a href="${unsubscribe}" style="color:#888888;">Unsubscribe</a></p>`
+    );
+  }
+
+  return insertBeforeBodyEnd(
+    rendered,
+    `<img src="${trackingUrl(
+      `open/${token}.gif`
+    )}" width="1" height="1" alt="" style="display:none;" />`
+  );
+}
+
+// One-click unsubscribe headers (RFC 8058)
+export const unsubscribeHeaders = (token: string) => ({
+  "List-Unsubscribe": `<${unsubscribeUrl(token)}>`,
+  "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+});
+
+async function recordOpen(token: string) {
+  const recipient = await models.mailwizardRecipient.findOne({
+    where: { token },
+  });
+  if (!recipient) return;
+  await recipient.update({
+    openCount: recipient.openCount + 1,
+    openedAt: recipient.openedAt || new Date(),
+  });
+}
+
+async function recordClick(token: string) {
+  const recipient = await models.mailwizardRecipient.findOne({
+    where: { token },
+  });
+  if (!recipient) return;
+  // A click also tells the email was opened when images were blocked
+  await recipient.update({
+    clickCount: recipient.clickCount + 1,
+    clickedAt: recipient.clickedAt || new Date(),
+    openedAt: recipient.openedAt || new Date(),
+  });
+}
+
+export async function unsubscribeRecipient(token: string) {
+  const recipient = await models.mailwizardRecipient.findOne({
+    where: { token },
+  });
+  if (!recipient) return false;
+
+  await suppressEmail(recipient.email, "UNSUBSCRIBED", recipient.campaignId);
+  if (!recipient.unsubscribedAt) {
+    await recipient.update({ unsubscribedAt: new Date() });
+  }
+  return true;
+}
+
+const unsubscribePage = (message: string, form = "") =>
+  `<!DOCTYPE html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${
+    NEXT_PUBLIC_SITE_NAME || "Unsubscribe"
+  }</title></head><body style="font-family:sans-serif;text-align:center;padding:48px 16px;color:#333333;"><p>${message}</p>${form}</body></html>`;
+
+interface TrackingResponse {
+  status: string;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+}
+
+async function handleTrackingRequest(
+  action: string,
+  token: string,
+  method: string,
+  query: URLSearchParams
+): Promise<TrackingResponse> {
+  switch (action) {
+    case "open":
+      await recordOpen(token.replace(/\.gif$/, ""));
+      return {
+        status: "200 OK",
+        headers: {
+          "Content-Type": "image/gif",
+          "Cache-Control": "no-store, no-cache, must-revalidate",
+        },
+        body: PIXEL,
+      };
+    case "click": {
+      const url = query.get("url");
+      const expires = query.get("expires");
+      if (!verifyLink(token, url, expires, query.get("signature"))) {
+        return { status: "400 Bad Request", body: "Invalid link" };
+      }
+      if (Number(expires) <= Date.now()) {
+        return { status: "410 Gone", body: "Link expired" };
+      }
+      await recordClick(token);
+      return {
+        status: "302 Found",
+        headers: { Location: url as string, "Cache-Control": "no-store" },
+      };
+    }
+    case "unsubscribe": {
+      const headers = { "Content-Type": "text/html; charset=utf-8" };
+      // Mail clients send the one-click unsubscribe as a POST, the GET asks
+      // first so link scanners don't unsubscribe anyone
+      if (method === "POST") {
+        const unsubscribed = await unsubscribeRecipient(token);
+        return unsubscribed
+          ? {
+              status: "200 OK",
+              headers,
+              body: unsubscribePage(
+                "You have been unsubscribed and will no longer receive these emails."
+              ),
+            }
+          : {
+              status: "404 Not Found",
+              headers,
+              body: unsubscribePage("This unsubscribe link is not valid."),
+            };
+      }
+      return {
+        status: "200 OK",
+        headers,
+        body: unsubscribePage(
+          "Do you want to stop receiving these emails?",
+          `<form method="post"><button type="submit" style="padding:8px 24px;font-size:16px;cursor:pointer;">Unsubscribe</button></form>`
+        ),
+      };
+    }
+    default:
+      return { status: "404 Not Found" };
+  }
+}
+
+/**
+ * Serves the open pixel, click redirects and unsubscribe pages linked from
+ * campaign emails.
+ */
+export function serveMailwizardTracking(res, req, url, markResponseSent) {
+  let aborted = false;
+
+  res.onAborted(() => {
+    aborted = true;
+  });
+
+  // The request can't be read once the handler awaits
+  const method = req.getMethod().toUpperCase();
+  const query = new URLSearchParams(req.getQuery() || "");
+  const [action, token = ""] = url.slice(TRACKING_PREFIX.length).split("/");
+
+  const send = ({ status, headers = {}, body = "" }: TrackingResponse) => {
+    if (aborted) return;
+    res.cork(() => {
+      res.writeStatus(status);
+      Object.entries(headers).forEach(([key, value]) =>
+        res.writeHeader(key, value)
+      );
+      res.end(body);
+    });
+    markResponseSent();
+  };
+
+  handleTrackingRequest(action, token, method, query)
+    .then(send)
+    .catch((error) => {
+      logError("mailwizard", error, __filename);
+      send({ status: "500 Internal Server Error" });
+    });
+
+  return true;
+}
+
+/* ------------------------------------------------------------------------ */
+/* Stats                                                                    */
+/* ------------------------------------------------------------------------ */
+
+const rate = (count: number, total: number) =>
+  total ? Math.round((count / total) * 10000) / 100 : 0;
+
+function emptyStats() {
+  return {
+    recipients: 0,
+    pending: 0,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    opened: 0,
+    clicked: 0,
+    unsubscribed: 0,
+    opens: 0,
+    clicks: 0,
+  };
+}
+
+type CampaignStats = ReturnType<typeof emptyStats>;
+
+const withRates = (stats: CampaignStats) => ({
+  ...stats,
+  openRate: rate(stats.opened, stats.sent),
+  clickRate: rate(stats.clicked, stats.sent),
+  unsubscribeRate: rate(stats.unsubscribed, stats.sent),
+});
+
+/**
+ * Delivery and engagement totals of a campaign, overall and per subject
+ * variant. Rates are percentages of the sent emails.
+ */
+export async function getCampaignStats(campaign: mailwizardCampaignAttributes) {
+  const rows: any[] = await models.mailwizardRecipient.findAll({
+    where: { campaignId: campaign.id },
+    attributes: [
+      "variant",
+      "status",
+      [fn("COUNT", col("id")), "recipients"],
+      [fn("COUNT", col("openedAt")), "opened"],
+      [fn("COUNT", col("clickedAt")), "clicked"],
+      [fn("COUNT", col("unsubscribedAt")), "unsubscribed"],
+      [fn("SUM", col("openCount")), "opens"],
+      [fn("SUM", col("clickCount")), "clicks"],
+    ],
+    group: ["variant", "status"],
+    raw: true,
+  });
+
+  const subjects = campaignSubjects(campaign);
+  const total = emptyStats();
+  const variants = subjects.map(emptyStats);
+
+  for (const row of rows) {
+    const variant =
+      variants[row.variant] || (variants[row.variant] = emptyStats());
+    for (const stats of [total, variant]) {
+      const recipients = Number(row.recipients);
+      stats.recipients += recipients;
+      stats[row.status.toLowerCase()] += recipients;
+      stats.opened += Number(row.opened);
+      stats.clicked += Number(row.clicked);
+      stats.unsubscribed += Number(row.unsubscribed);
+      stats.opens += Number(row.opens || 0);
+      stats.clicks += Number(row.clicks || 0);
+    }
+  }
+
+  return {
+    resolvedAt: campaign.recipientsResolvedAt,
+    ...withRates(total),
+    variants: variants.map((stats, index) => ({
+      variant: index,
+      subject: subjects[index] ?? null,
+      ...withRates(stats),
+    })),
+  };
+}
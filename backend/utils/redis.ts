@@ -2,6 +2,7 @@ import { Redis } from "ioredis";
 
 export class RedisSingleton {
   private static instance: Redis;
+  private static subscriber: Redis;
 
   private constructor() {}
 
@@ -11,4 +12,13 @@ export class RedisSingleton {
     }
     return RedisSingleton.instance;
   }
+
+  // A connection in subscriber mode cannot run other commands, so pub/sub
+  // listeners share a dedicated one
+  public static getSubscriberInstance(): Redis {
+    if (!RedisSingleton.subscriber) {
+      RedisSingleton.subscriber = RedisSingleton.getInstance().duplicate();
+    }
+    return RedisSingleton.subscriber;
+  }
 }
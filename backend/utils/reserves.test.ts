@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import {
+  buildMerkleSumTree,
+  fromLiabilityUnits,
+  getMerkleSumProof,
+  getMerkleSumRoot,
+  hashLiabilityLeaf,
+  MerkleSumNode,
+  MerkleSumProofStep,
+  toLiabilityUnits,
+} from "./reserves";
+
+jest.mock("@b/db", () => ({ models: {} }));
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+const leaf = (userId: string, balance: number): MerkleSumNode => {
+  const sum = toLiabilityUnits(balance);
+  return { hash: hashLiabilityLeaf(userId, `nonce-${userId}`, sum), sum };
+};
+
+// Folds a proof as a user checking their inclusion would
+function rootFromProof(node: MerkleSumNode, proof: MerkleSumProofStep[]) {
+  return proof.reduce((current, step) => {
+    const sibling = { hash: step.hash, sum: BigInt(step.sum) };
+    const [left, right] =
+      step.side === "left" ? [sibling, current] : [current, sibling];
+    return {
+      hash: sha256(`${left.hash}:${left.sum}:${right.hash}:${right.sum}`),
+      sum: left.sum + right.sum,
+    };
+  }, node);
+}
+
+const balances: [string, number][] = [
+  ["alice", 1.5],
+  ["bob", 0.1],
+  ["carol", 0.2],
+  ["dave", 1000],
+  ["erin", 0.00000001],
+];
+
+describe("liability units", () => {
+  it("sums balances exactly at liability precision", () => {
+    expect(toLiabilityUnits(0.1) + toLiabilityUnits(0.2)).toBe(
+      toLiabilityUnits(0.3)
+    );
+    expect(fromLiabilityUnits(toLiabilityUnits(1234.56789012))).toBe(
+      1234.56789012
+    );
+  });
+});
+
+describe("buildMerkleSumTree", () => {
+  it("carries the total of all leaves at the root", () => {
+    const levels = buildMerkleSumTree(balances.map(([id, b]) => leaf(id, b)));
+
+    expect(fromLiabilityUnits(getMerkleSumRoot(levels).sum)).toBe(
+      1001.80000001
+    );
+  });
+
+  it("pads odd levels with a zero-sum node", () => {
+    const leaves = balances.slice(0, 3).map(([id, b]) => leaf(id, b));
+    const levels = buildMerkleSumTree(leaves);
+
+    expect(levels.map((level) => level.length)).toEqual([3, 2, 1]);
+    expect(levels[1][1].sum).toBe(leaves[2].sum);
+    expect(levels[1][1].hash).toBe(
+      sha256(`${leaves[2].hash}:${leaves[2].sum}:${"0".repeat(64)}:0`)
+    );
+  });
+
+  it("has a zero root without leaves", () => {
+    expect(getMerkleSumRoot(buildMerkleSumTree([]))).toEqual({
+      hash: "0".repeat(64),
+      sum: BigInt(0),
+    });
+  });
+
+  it("changes the root when any balance changes", () => {
+    const leaves = balances.map(([id, b]) => leaf(id, b));
+    const root = getMerkleSumRoot(buildMerkleSumTree(leaves));
+
+    leaves[3] = leaf("dave", 999);
+    expect(getMerkleSumRoot(buildMerkleSumTree(leaves)).hash).not.toBe(
+      root.hash
+    );
+  });
+});
+
+describe("getMerkleSumProof", () => {
+  it("proves the inclusion of every leaf", () => {
+    const leaves = balances.map(([id, b]) => leaf(id, b));
+    const levels = buildMerkleSumTree(leaves);
+    const root = getMerkleSumRoot(levels);
+
+    leaves.forEach((node, position) => {
+      expect(rootFromProof(node, getMerkleSumProof(levels, position))).toEqual(
+        root
+      );
+    });
+  });
+
+  it("does not prove a leaf with another balance", () => {
+    const leaves = balances.map(([id, b]) => leaf(id, b));
+    const levels = buildMerkleSumTree(leaves);
+    const proof = getMerkleSumProof(levels, 1);
+
+    expect(rootFromProof(leaf("bob", 0), proof).hash).not.toBe(
+      getMerkleSumRoot(levels).hash
+    );
+  });
+
+  it("needs no siblings for a single leaf", () => {
+    const levels = buildMerkleSumTree([leaf("alice", 1)]);
+
+    expect(getMerkleSumProof(levels, 0)).toEqual([]);
+    expect(getMerkleSumRoot(levels)).toEqual(leaf("alice", 1));
+  });
+});
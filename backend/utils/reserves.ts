@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { fn, col, Op } from "sequelize";
+import { models } from "@b/db";
+
+// Liabilities are summed as integers of this precision so every party
+// rebuilding the tree gets the same sums
+export const LIABILITY_DECIMALS = 8;
+
+export interface MerkleSumNode {
+  hash: string;
+  sum: bigint;
+}
+
+export interface MerkleSumProofStep {
+  hash: string;
+  sum: string;
+  // Side of the sibling when hashed with the running node
+  side: "left" | "right";
+}
+
+// Pads levels with an odd node count. Its zero sum keeps the totals intact,
+// which duplicating the last node would not.
+const EMPTY_NODE: MerkleSumNode = { hash: "0".repeat(64), sum: BigInt(0) };
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+export const toLiabilityUnits = (amount: number) =>
+  ethers.parseUnits(amount.toFixed(LIABILITY_DECIMALS), LIABILITY_DECIMALS);
+
+export const fromLiabilityUnits = (units: bigint) =>
+  Number(ethers.formatUnits(units, LIABILITY_DECIMALS));
+
+// A leaf commits to the user, a per-snapshot nonce that keeps it from being
+// linked across snapshots, and the user's balance
+export const hashLiabilityLeaf = (
+  userId: string,
+  nonce: string,
+  units: bigint
+) => sha256(`${userId}:${nonce}:${units.toString()}`);
+
+const hashNode = (left: MerkleSumNode, right: MerkleSumNode) =>
+  sha256(`${left.hash}:${left.sum}:${right.hash}:${right.sum}`);
+
+/**
+ * Builds every level of a Merkle sum tree, from the leaves up to the root.
+ * Each node commits to the hashes and sums of its children and carries their
+ * total, so the root sum is the total of all liabilities.
+ */
+export function buildMerkleSumTree(leaves: MerkleSumNode[]) {
+  const levels: MerkleSumNode[][] = [leaves.length ? leaves : [EMPTY_NODE]];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const parents: MerkleSumNode[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1] || EMPTY_NODE;
+      parents.push({ hash: hashNode(left, right), sum: left.sum + right.sum });
+    }
+    levels.push(parents);
+  }
+
+  return levels;
+}
+
+export const getMerkleSumRoot = (levels: MerkleSumNode[][]) =>
+  levels[levels.length - 1][0];
+
+// Lists the siblings needed to hash the leaf at the position up to the root
+export function getMerkleSumProof(
+  levels: MerkleSumNode[][],
+  position: number
+): MerkleSumProofStep[] {
+  const proof: MerkleSumProofStep[] = [];
+  let index = position;
+
+  for (let depth = 0; depth < levels.length - 1; depth++) {
+    const isRight = index % 2 === 1;
+    const sibling =
+      levels[depth][isRight ? index - 1 : index + 1] || EMPTY_NODE;
+    proof.push({
+      hash: sibling.hash,
+      sum: sibling.sum.toString(),
+      side: isRight ? "left" : "right",
+    });
+    index = Math.floor(index / 2);
+  }
+
+  return proof;
+}
+
+// Rebuilds the tree of a snapshot from its stored leaves
+export async function loadReserveSnapshotTree(snapshotId: string) {
+  const leaves = await models.reserveSnapshotLeaf.findAll({
+    where: { snapshotId },
+    attributes: ["position", "hash", "balance"],
+    order: [["position", "ASC"]],
+    raw: true,
+  });
+
+  return buildMerkleSumTree(
+    leaves.map((leaf) => ({
+      hash: leaf.hash,
+      sum: toLiabilityUnits(leaf.balance),
+    }))
+  );
+}
+
+// Latest snapshot of every currency
+export async function getLatestReserveSnapshots() {
+  const latest = (await models.reserveSnapshot.findAll({
+    attributes: ["currency", [fn("MAX", col("createdAt")), "createdAt"]],
+    group: ["currency"],
+    raw: true,
+  })) as unknown as { currency: string; createdAt: Date }[];
+  if (!latest.length) return [];
+
+  return models.reserveSnapshot.findAll({
+    where: {
+      [Op.or]: latest.map(({ currency, createdAt }) => ({
+        currency,
+        createdAt,
+      })),
+    },
+    order: [["currency", "ASC"]],
+  });
+}
@@ -0,0 +1,559 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { getMime } from "@b/utils/mime";
+import { sanitizePath } from "@b/utils/validation";
+
+// Stored references to private files start with this prefix. They are not
+// URLs, and are turned into short-lived signed URLs when they are served.
+export const PRIVATE_PREFIX = "/private/";
+export const DEFAULT_SIGNED_URL_EXPIRY = 5 * 60;
+
+// Upload directories whose files are private, such as KYC documents
+const PRIVATE_UPLOAD_DIRS = ["kyc"];
+
+export const isPrivateUploadDir = (dir: string) =>
+  PRIVATE_UPLOAD_DIRS.includes(dir.replace(/\\/g, "/").split("/")[0]);
+
+export type StorageVisibility = "public" | "private";
+
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  put(
+    key: string,
+    body: Buffer,
+    options?: { contentType?: string; visibility?: StorageVisibility }
+  ): Promise<void>;
+  get(key: string, visibility?: StorageVisibility): Promise<Buffer | null>;
+  delete(key: string, visibility?: StorageVisibility): Promise<void>;
+  list(
+    prefix: string,
+    visibility?: StorageVisibility
+  ): Promise<StorageObject[]>;
+  // URL a public file is served from
+  url(key: string): string;
+  // Key of a public file from its URL, null for URLs of other origins
+  keyFromUrl(url: string): string | null;
+  // Short-lived URL for a private file
+  signedUrl(key: string, expiresIn?: number): Promise<string>;
+}
+
+// Keys are relative paths such as "uploads/avatars/1.webp"
+export function normalizeKey(key: string) {
+  const normalized = sanitizePath(key.replace(/\\/g, "/"))
+    .replace(/\\/g, "/")
+    .replace(/^\/+/, "");
+  if (!normalized || normalized === ".") {
+    throw new Error("Invalid storage key");
+  }
+  return normalized;
+}
+
+const signingSecret = () =>
+  process.env.APP_STORAGE_SIGNING_SECRET ||
+  (process.env.APP_ACCESS_TOKEN_SECRET as string);
+
+const signLocalKey = (key: string, expires: number) =>
+  createHmac("sha256", signingSecret())
+    .update(`${key}:${expires}`)
+    .digest("hex");
+
+/**
+ * Checks the signature of a local private file URL, as created by the local
+ * driver's signedUrl.
+ */
+export function verifyLocalSignature(
+  key: string,
+  expires: string | null,
+  signature: string | null
+) {
+  const expiresAt = Number(expires);
+  if (!signature || !expiresAt || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+  const expected = Buffer.from(signLocalKey(key, expiresAt));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Keeps public files under public/ where they were always served from, and
+ * private files in a directory the web server never exposes.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = "local";
+  private publicRoot = path.join(process.cwd(), "public");
+  private privateRoot = path.resolve(
+    process.env.APP_STORAGE_PRIVATE_DIR ||
+      path.join(process.cwd(), "storage", "private")
+  );
+
+  resolvePath(key: string, visibility: StorageVisibility = "public") {
+    return path.join(
+      visibility === "private" ? this.privateRoot : this.publicRoot,
+      normalizeKey(key)
+    );
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: { contentType?: string; visibility?: StorageVisibility } = {}
+  ) {
+    const filePath = this.resolvePath(key, options.visibility);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string, visibility?: StorageVisibility) {
+    try {
+      return await fs.readFile(this.resolvePath(key, visibility));
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string, visibility?: StorageVisibility) {
+    try {
+      await fs.unlink(this.resolvePath(key, visibility));
+    } catch (error) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+
+  async list(prefix: string, visibility: StorageVisibility = "public") {
+    const root = visibility === "private" ? this.privateRoot : this.publicRoot;
+    const objects: StorageObject[] = [];
+
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if (error.code === "ENOENT") return;
+        throw error;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const { size, mtime } = await fs.stat(entryPath);
+          objects.push({
+            key: path.relative(root, entryPath).replace(/\\/g, "/"),
+            size,
+            lastModified: mtime,
+          });
+        }
+      }
+    };
+    await walk(path.join(root, normalizeKey(prefix)));
+    return objects;
+  }
+
+  url(key: string) {
+    return `/${normalizeKey(key)}`;
+  }
+
+  keyFromUrl(url: string) {
+    return url.startsWith("/") ? normalizeKey(url.split("?")[0]) : null;
+  }
+
+  // Served by the backend, which checks the signature before reading the file
+  async signedUrl(key: string, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+    const normalized = normalizeKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    return `${PRIVATE_PREFIX}${normalized}?expires=${expires}&signature=${signLocalKey(
+      normalized,
+      expires
+    )}`;
+  }
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicUrl?: string;
+}
+
+const sha256Hex = (value: string | Buffer) =>
+  createHash("sha256").update(value).digest("hex");
+
+const hmac = (key: string | Buffer, value: string) =>
+  createHmac("sha256", key).update(value).digest();
+
+// Percent-encoding AWS expects, which also escapes !'()*
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Works with AWS S3 and S3-compatible stores such as MinIO, signing requests
+ * with AWS Signature Version 4. Private files are kept under the "private/"
+ * prefix, which the bucket policy must not make public, and public ones are
+ * read straight from the bucket or the CDN in front of it.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = "s3";
+
+  constructor(private config: S3Config) {}
+
+  private objectKey(key: string, visibility: StorageVisibility = "public") {
+    const normalized = normalizeKey(key);
+    return visibility === "private" ? `private/${normalized}` : normalized;
+  }
+
+  private objectUrl(objectKey = "") {
+    const endpoint = new URL(this.config.endpoint);
+    const basePath = endpoint.pathname.replace(/\/+$/, "");
+    if (this.config.forcePathStyle) {
+      return new URL(
+        `${endpoint.protocol}//${endpoint.host}${basePath}/${
+          this.config.bucket
+        }/${encodeKey(objectKey)}`
+      );
+    }
+    return new URL(
+      `${endpoint.protocol}//${this.config.bucket}.${
+        endpoint.host
+      }${basePath}/${encodeKey(objectKey)}`
+    );
+  }
+
+  private signingKey(date: string) {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, date);
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, "s3");
+    return hmac(serviceKey, "aws4_request");
+  }
+
+  private canonicalQuery(params: URLSearchParams) {
+    return [...params.entries()]
+      .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+      .sort(([a, av], [b, bv]) =>
+        a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1
+      )
+      .map(([key, value]) => `${key}=${value}`)
+      .join("&");
+  }
+
+  private signature(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string,
+    amzDate: string
+  ) {
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.config.region}/s3/aws4_request`;
+    const headerNames = Object.keys(headers)
+      .map((name) => name.toLowerCase())
+      .sort();
+    const lowerHeaders = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value.trim(),
+      ])
+    );
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(url.searchParams),
+      headerNames.map((name) => `${name}:${lowerHeaders[name]}\n`).join(""),
+      headerNames.join(";"),
+      payloadHash,
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+
+    return {
+      scope,
+      signedHeaders: headerNames.join(";"),
+      signature: createHmac("sha256", this.signingKey(date))
+        .update(stringToSign)
+        .digest("hex"),
+    };
+  }
+
+  private async request(
+    method: string,
+    url: URL,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ) {
+    // Sent exactly as signed, URLSearchParams would encode some characters
+    // differently
+    url.search = this.canonicalQuery(url.searchParams);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const payloadHash = sha256Hex(body || "");
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...extraHeaders,
+    };
+    const { scope, signedHeaders, signature } = this.signature(
+      method,
+      url,
+      headers,
+      payloadHash,
+      amzDate
+    );
+
+    const { host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  private async ensureOk(response: Response, action: string) {
+    if (response.ok) return;
+    const text = await response.text();
+    const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(
+      `S3 ${action} failed with ${response.status}${code ? ` ${code}` : ""}`
+    );
+  }
+
+  async put(
+    key: string,
+    body: Buffer,
+    options: { contentType?: string; visibility?: StorageVisibility } = {}
+  ) {
+    const objectKey = this.objectKey(key, options.visibility);
+    const response = await this.request(
+      "PUT",
+      this.objectUrl(objectKey),
+      body,
+      {
+        "content-type": options.contentType || getMime(objectKey),
+      }
+    );
+    await this.ensureOk(response, "upload");
+  }
+
+  async get(key: string, visibility?: StorageVisibility) {
+    const response = await this.request(
+      "GET",
+      this.objectUrl(this.objectKey(key, visibility))
+    );
+    if (response.status === 404) return null;
+    await this.ensureOk(response, "download");
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string, visibility?: StorageVisibility) {
+    const response = await this.request(
+      "DELETE",
+      this.objectUrl(this.objectKey(key, visibility))
+    );
+    if (response.status === 404) return;
+    await this.ensureOk(response, "delete");
+  }
+
+  async list(prefix: string, visibility?: StorageVisibility) {
+    const objectPrefix = this.objectKey(prefix, visibility);
+    const stripPrefix = visibility === "private" ? "private/" : "";
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const url = this.objectUrl();
+      url.searchParams.set("list-type", "2");
+      url.searchParams.set("prefix", `${objectPrefix}/`);
+      if (continuationToken) {
+        url.searchParams.set("continuation-token", continuationToken);
+      }
+
+      const response = await this.request("GET", url);
+      await this.ensureOk(response, "list");
+      const xml = await response.text();
+
+      for (const [, content] of xml.matchAll(
+        /<Contents>([\s\S]*?)<\/Contents>/g
+      )) {
+        const key = decodeXml(content.match(/<Key>([^<]*)<\/Key>/)?.[1] || "");
+        objects.push({
+          key: key.slice(stripPrefix.length),
+          size: Number(content.match(/<Size>(\d+)<\/Size>/)?.[1] || 0),
+          lastModified: new Date(
+            content.match(/<LastModified>([^<]+)<\/LastModified>/)?.[1] || 0
+          ),
+        });
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+        ? decodeXml(
+            xml.match(
+              /<NextContinuationToken>([^<]+)<\/NextContinuationToken>/
+            )?.[1] || ""
+          ) || undefined
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  url(key: string) {
+    const objectKey = normalizeKey(key);
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/+$/, "")}/${encodeKey(
+        objectKey
+      )}`;
+    }
+    return this.objectUrl(objectKey).toString();
+  }
+
+  keyFromUrl(url: string) {
+    const base = this.config.publicUrl
+      ? `${this.config.publicUrl.replace(/\/+$/, "")}/`
+      : this.objectUrl().toString();
+    const key = url.startsWith(base)
+      ? url.slice(base.length)
+      : url.startsWith("/") // Files uploaded before the move to S3
+        ? url.slice(1)
+        : null;
+    return key ? normalizeKey(decodeURIComponent(key.split("?")[0])) : null;
+  }
+
+  // Presigned GET, the signature travels in the query string
+  async signedUrl(key: string, expiresIn = DEFAULT_SIGNED_URL_EXPIRY) {
+    const url = this.objectUrl(this.objectKey(key, "private"));
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+
+    url.searchParams.set("X-Amz-Algorithm", "AWS4-HMAC-SHA256");
+    url.searchParams.set(
+      "X-Amz-Credential",
+      `${this.config.accessKeyId}/${date}/${this.config.region}/s3/aws4_request`
+    );
+    url.searchParams.set("X-Amz-Date", amzDate);
+    url.searchParams.set("X-Amz-Expires", String(expiresIn));
+    url.searchParams.set("X-Amz-SignedHeaders", "host");
+
+    url.search = this.canonicalQuery(url.searchParams);
+
+    const { signature } = this.signature(
+      "GET",
+      url,
+      { host: url.host },
+      "UNSIGNED-PAYLOAD",
+      amzDate
+    );
+    return `${url.toString()}&X-Amz-Signature=${signature}`;
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+export function createStorageDriver(
+  name = process.env.APP_STORAGE_DRIVER || "local"
+): StorageDriver {
+  switch (name) {
+    case "local":
+      return new LocalStorageDriver();
+    case "s3": {
+      const {
+        APP_S3_BUCKET: bucket,
+        APP_S3_ACCESS_KEY_ID: accessKeyId,
+        APP_S3_SECRET_ACCESS_KEY: secretAccessKey,
+      } = process.env;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error(
+          "APP_S3_BUCKET, APP_S3_ACCESS_KEY_ID and APP_S3_SECRET_ACCESS_KEY are required for the s3 storage driver"
+        );
+      }
+      const region = process.env.APP_S3_REGION || "us-east-1";
+      return new S3StorageDriver({
+        endpoint:
+          process.env.APP_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        forcePathStyle: process.env.APP_S3_FORCE_PATH_STYLE === "true",
+        publicUrl: process.env.APP_S3_PUBLIC_URL || undefined,
+      });
+    }
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+}
+
+export function getStorage() {
+  if (!driver) {
+    driver = createStorageDriver();
+  }
+  return driver;
+}
+
+export const isPrivateReference = (value: unknown): value is string =>
+  typeof value === "string" && value.startsWith(PRIVATE_PREFIX);
+
+export const privateReference = (key: string) =>
+  `${PRIVATE_PREFIX}${normalizeKey(key)}`;
+
+/**
+ * Replaces the private file references found in a value, such as the
+ * documents of a KYC application, with signed URLs. Other values are
+ * returned as they are.
+ */
+export async function signPrivateReferences<T>(
+  value: T,
+  expiresIn = DEFAULT_SIGNED_URL_EXPIRY
+): Promise<T> {
+  if (isPrivateReference(value)) {
+    return (await getStorage().signedUrl(
+      value.slice(PRIVATE_PREFIX.length),
+      expiresIn
+    )) as T;
+  }
+  if (Array.isArray(value)) {
+    return (await Promise.all(
+      value.map((item) => signPrivateReferences(item, expiresIn))
+    )) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const signed: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      signed[key] = await signPrivateReferences(item, expiresIn);
+    }
+    return signed as T;
+  }
+  return value;
+}
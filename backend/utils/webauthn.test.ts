@@ -0,0 +1,225 @@
+import { models } from "@b/db";
+import { RedisSingleton } from "@b/utils/redis";
+import { registerPasskey, verifyPasskeyAssertion } from "./webauthn";
+
+jest.mock("@b/db", () => ({
+  models: { userPasskey: { findOne: jest.fn(), create: jest.fn() } },
+}));
+jest.mock("@b/utils/redis", () => {
+  const redis = { set: jest.fn(), multi: jest.fn() };
+  return { RedisSingleton: { getInstance: () => redis } };
+});
+jest.mock("@b/utils/cache", () => ({
+  CacheManager: { getInstance: jest.fn() },
+}));
+jest.mock("@b/utils/roles", () => ({ rolesManager: { roles: new Map() } }));
+
+// Recorded for https://example.com from a P-256 key made with node crypto.
+// The registration uses "none" attestation with the user present and the
+// key backed up, the assertion has the user present and verified with a
+// counter of 1.
+const PUBLIC_KEY =
+  "MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEBw5H-iIb9AQUWaj8UrDDZ4eW-fr4e0Fa1gjX0NFVUbmfs9xRcXFVjHupxh3nNJmp5NWJTgSKo_3U8Gz3a_-VAg";
+const CREDENTIAL_ID = "iJuD_36OxGNW1UtcjG_vKQ";
+
+const REGISTRATION = {
+  challenge: "2-vFI1kRHsWcS0BScW8jOpPbY93MNo3hvmUhvoT2jUI",
+  credential: {
+    id: CREDENTIAL_ID,
+    type: "public-key",
+    response: {
+      clientDataJSON:
+        "eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiMi12Rkkxa1JIc1djUzBCU2NXOGpPcFBiWTkzTU5vM2h2bVVodm9UMmpVSSIsIm9yaWdpbiI6Imh0dHBzOi8vZXhhbXBsZS5jb20iLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+      attestationObject:
+        "o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUo3mm9u6vuaVeN4wRgDTidR5oL6ufLTCrE9ISVYbOGUdRAAAAAAAAAAAAAAAAAAAAAAAAAAAAEIibg_9-jsRjVtVLXIxv7ymlAQIDJiABIVggBw5H-iIb9AQUWaj8UrDDZ4eW-fr4e0Fa1gjX0NFVUbkiWCCfs9xRcXFVjHupxh3nNJmp5NWJTgSKo_3U8Gz3a_-VAg",
+      transports: ["internal"],
+    },
+  },
+};
+
+const ASSERTION = {
+  challenge: "k_irRWpSMsm82CE-aX35sNkuMNVENvMh0KMTuwP0IsY",
+  credential: {
+    id: CREDENTIAL_ID,
+    type: "public-key",
+    response: {
+      clientDataJSON:
+        "eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoia19pclJXcFNNc204MkNFLWFYMzVzTmt1TU5WRU52TWgwS01UdXdQMElzWSIsIm9yaWdpbiI6Imh0dHBzOi8vZXhhbXBsZS5jb20iLCJjcm9zc09yaWdpbiI6ZmFsc2V9",
+      authenticatorData: "o3mm9u6vuaVeN4wRgDTidR5oL6ufLTCrE9ISVYbOGUcFAAAAAQ",
+      signature:
+        "MEUCIGBXWhl-cHV7LvmPxIMHwQeXXbVsr3XNe_fZ8vGzcsM3AiEA8QcpnT2SAqdAVaGgSlZhQrsEE12kgUzKT_sPJekb4AA",
+    },
+  },
+};
+
+const redis = RedisSingleton.getInstance() as unknown as { multi: jest.Mock };
+
+// Makes the next challenge read return the given one
+function issueChallenge(
+  challenge: string,
+  purpose: string,
+  userId: string | null = "user-1"
+) {
+  const stored = JSON.stringify({ challenge, purpose, userId });
+  const multi = {
+    get: () => multi,
+    del: () => multi,
+    exec: async () => [
+      [null, stored],
+      [null, 1],
+    ],
+  };
+  redis.multi.mockReturnValue(multi);
+}
+
+function storedPasskey(counter = 0) {
+  return {
+    userId: "user-1",
+    credentialId: CREDENTIAL_ID,
+    publicKey: PUBLIC_KEY,
+    algorithm: -7,
+    counter,
+    update: jest.fn(),
+  };
+}
+
+const withSignature = (signature: string) => ({
+  ...ASSERTION.credential,
+  response: { ...ASSERTION.credential.response, signature },
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.NEXT_PUBLIC_SITE_URL = "https://example.com";
+  (models.userPasskey.create as jest.Mock).mockImplementation(
+    async (passkey) => passkey
+  );
+});
+
+describe("registerPasskey", () => {
+  it("stores the public key of a recorded attestation", async () => {
+    issueChallenge(REGISTRATION.challenge, "register");
+
+    const passkey = await registerPasskey(
+      "user-1",
+      "challenge-1",
+      REGISTRATION.credential,
+      "Laptop"
+    );
+
+    expect(passkey).toEqual({
+      userId: "user-1",
+      name: "Laptop",
+      credentialId: CREDENTIAL_ID,
+      publicKey: PUBLIC_KEY,
+      algorithm: -7,
+      counter: 0,
+      transports: ["internal"],
+      backedUp: true,
+    });
+  });
+
+  it("rejects an attestation made for another challenge", async () => {
+    issueChallenge("another-challenge", "register");
+
+    await expect(
+      registerPasskey("user-1", "challenge-1", REGISTRATION.credential)
+    ).rejects.toThrow("Passkey response does not match this request");
+    expect(models.userPasskey.create).not.toHaveBeenCalled();
+  });
+
+  it("rejects a challenge issued to another user", async () => {
+    issueChallenge(REGISTRATION.challenge, "register", "user-2");
+
+    await expect(
+      registerPasskey("user-1", "challenge-1", REGISTRATION.credential)
+    ).rejects.toThrow("Passkey challenge expired, please try again");
+  });
+
+  it("rejects an attestation from another origin", async () => {
+    process.env.NEXT_PUBLIC_SITE_URL = "https://evil.example";
+    issueChallenge(REGISTRATION.challenge, "register");
+
+    await expect(
+      registerPasskey("user-1", "challenge-1", REGISTRATION.credential)
+    ).rejects.toThrow("Passkey response does not match this request");
+  });
+});
+
+describe("verifyPasskeyAssertion", () => {
+  it("accepts a recorded assertion and advances the counter", async () => {
+    const passkey = storedPasskey();
+    (models.userPasskey.findOne as jest.Mock).mockResolvedValue(passkey);
+    issueChallenge(ASSERTION.challenge, "passwordless", null);
+
+    await expect(
+      verifyPasskeyAssertion("passwordless", {
+        challengeId: "challenge-1",
+        credential: ASSERTION.credential,
+      })
+    ).resolves.toBe(passkey);
+    expect(passkey.update).toHaveBeenCalledWith(
+      expect.objectContaining({ counter: 1 })
+    );
+  });
+
+  it("rejects a signature that does not match", async () => {
+    (models.userPasskey.findOne as jest.Mock).mockResolvedValue(
+      storedPasskey()
+    );
+    issueChallenge(ASSERTION.challenge, "2fa");
+    const signature = Buffer.from(
+      ASSERTION.credential.response.signature,
+      "base64url"
+    );
+    signature[signature.length - 1] ^= 0xff;
+
+    await expect(
+      verifyPasskeyAssertion("2fa", {
+        challengeId: "challenge-1",
+        credential: withSignature(signature.toString("base64url")),
+      })
+    ).rejects.toThrow("Invalid passkey signature");
+  });
+
+  it("rejects a counter that did not increase", async () => {
+    (models.userPasskey.findOne as jest.Mock).mockResolvedValue(
+      storedPasskey(1)
+    );
+    issueChallenge(ASSERTION.challenge, "2fa");
+
+    await expect(
+      verifyPasskeyAssertion("2fa", {
+        challengeId: "challenge-1",
+        credential: ASSERTION.credential,
+      })
+    ).rejects.toThrow(
+      "Passkey counter did not increase, the key may be cloned"
+    );
+  });
+
+  it("only accepts the passkeys of the user the challenge was issued to", async () => {
+    (models.userPasskey.findOne as jest.Mock).mockResolvedValue(
+      storedPasskey()
+    );
+    issueChallenge(ASSERTION.challenge, "2fa", "user-2");
+
+    await expect(
+      verifyPasskeyAssertion("2fa", {
+        challengeId: "challenge-1",
+        credential: ASSERTION.credential,
+      })
+    ).rejects.toThrow("Unknown passkey");
+  });
+
+  it("does not accept a challenge issued for another purpose", async () => {
+    issueChallenge(ASSERTION.challenge, "stepup");
+
+    await expect(
+      verifyPasskeyAssertion("2fa", {
+        challengeId: "challenge-1",
+        credential: ASSERTION.credential,
+      })
+    ).rejects.toThrow("Passkey challenge expired, please try again");
+  });
+});
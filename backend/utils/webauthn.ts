@@ -0,0 +1,587 @@
+import crypto from "crypto";
+import { models } from "@b/db";
+import { createError } from "@b/utils/error";
+import { RedisSingleton } from "@b/utils/redis";
+import { CacheManager } from "@b/utils/cache";
+import { rolesManager } from "@b/utils/roles";
+
+const redis = RedisSingleton.getInstance();
+
+const CHALLENGE_PREFIX = "webauthn:challenge:";
+const CHALLENGE_TTL = 300; // seconds
+const CEREMONY_TIMEOUT = 60000; // ms, passed on to the browser
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+// COSE algorithms we accept, in order of preference
+const COSE_ES256 = -7;
+const COSE_EDDSA = -8;
+const COSE_RS256 = -257;
+
+export type WebAuthnPurpose = "register" | "2fa" | "passwordless" | "stepup";
+
+interface StoredChallenge {
+  challenge: string;
+  purpose: WebAuthnPurpose;
+  userId: string | null;
+}
+
+export interface WebAuthnCredential {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject?: string;
+    authenticatorData?: string;
+    signature?: string;
+    userHandle?: string | null;
+    transports?: string[];
+  };
+}
+
+export interface WebAuthnAssertion {
+  challengeId: string;
+  credential: WebAuthnCredential;
+}
+
+export const webAuthnAssertionSchema = {
+  type: "object",
+  description:
+    "Passkey assertion, signed over a challenge from the matching options endpoint",
+  properties: {
+    challengeId: { type: "string" },
+    credential: { type: "object" },
+  },
+  required: ["challengeId", "credential"],
+};
+
+export function getRelyingParty() {
+  const origin = (process.env.NEXT_PUBLIC_SITE_URL || "").replace(/\/$/, "");
+  let id = "localhost";
+  try {
+    id = new URL(origin).hostname;
+  } catch (error) {
+    // Fall back to localhost for development setups without a site URL
+  }
+  return {
+    id,
+    name: process.env.NEXT_PUBLIC_SITE_NAME || id,
+    origin,
+  };
+}
+
+const toBase64Url = (buffer: Buffer) => buffer.toString("base64url");
+const fromBase64Url = (value: string) => Buffer.from(value || "", "base64url");
+
+/**
+ * Decodes the subset of CBOR used by WebAuthn: integers, byte and text
+ * strings, arrays, maps and simple values. Maps are returned as `Map` since
+ * COSE keys use integer labels.
+ */
+function decodeCbor(
+  buffer: Buffer,
+  offset = 0
+): { value: any; offset: number } {
+  const initial = buffer[offset++];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  let length: number;
+  if (info < 24) {
+    length = info;
+  } else if (info === 24) {
+    length = buffer.readUInt8(offset);
+    offset += 1;
+  } else if (info === 25) {
+    length = buffer.readUInt16BE(offset);
+    offset += 2;
+  } else if (info === 26) {
+    length = buffer.readUInt32BE(offset);
+    offset += 4;
+  } else if (info === 27) {
+    length = Number(buffer.readBigUInt64BE(offset));
+    offset += 8;
+  } else {
+    throw new Error("Unsupported CBOR length encoding");
+  }
+
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+      return {
+        value: buffer.subarray(offset, offset + length),
+        offset: offset + length,
+      };
+    case 3:
+      return {
+        value: buffer.toString("utf8", offset, offset + length),
+        offset: offset + length,
+      };
+    case 4: {
+      const items: any[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(buffer, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map = new Map();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(buffer, offset);
+        const value = decodeCbor(buffer, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7:
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22) return { value: null, offset };
+      throw new Error("Unsupported CBOR simple value");
+    default:
+      throw new Error("Unsupported CBOR type");
+  }
+}
+
+function parseAuthenticatorData(authData: Buffer) {
+  if (authData.length < 37) {
+    throw createError({
+      statusCode: 400,
+      message: "Malformed authenticator data",
+    });
+  }
+
+  const flags = authData[32];
+  const parsed: {
+    rpIdHash: Buffer;
+    flags: number;
+    counter: number;
+    credentialId?: Buffer;
+    coseKey?: Map<number, any>;
+  } = {
+    rpIdHash: authData.subarray(0, 32),
+    flags,
+    counter: authData.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // Skip the 16 byte AAGUID, then read the length-prefixed credential ID
+    const idLength = authData.readUInt16BE(53);
+    parsed.credentialId = authData.subarray(55, 55 + idLength);
+    parsed.coseKey = decodeCbor(authData, 55 + idLength).value;
+  }
+
+  return parsed;
+}
+
+function coseToPublicKey(coseKey: Map<number, any>) {
+  const alg = coseKey.get(3);
+  let jwk: crypto.JsonWebKey;
+  switch (alg) {
+    case COSE_ES256:
+      jwk = {
+        kty: "EC",
+        crv: "P-256",
+        x: toBase64Url(coseKey.get(-2)),
+        y: toBase64Url(coseKey.get(-3)),
+      };
+      break;
+    case COSE_EDDSA:
+      jwk = { kty: "OKP", crv: "Ed25519", x: toBase64Url(coseKey.get(-2)) };
+      break;
+    case COSE_RS256:
+      jwk = {
+        kty: "RSA",
+        n: toBase64Url(coseKey.get(-1)),
+        e: toBase64Url(coseKey.get(-2)),
+      };
+      break;
+    default:
+      throw createError({
+        statusCode: 400,
+        message: "Unsupported passkey algorithm",
+      });
+  }
+
+  const key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+  return {
+    algorithm: alg as number,
+    publicKey: toBase64Url(key.export({ type: "spki", format: "der" })),
+  };
+}
+
+function verifyClientData(
+  clientDataJSON: string,
+  type: "webauthn.create" | "webauthn.get",
+  challenge: string
+) {
+  let clientData;
+  try {
+    clientData = JSON.parse(fromBase64Url(clientDataJSON).toString("utf8"));
+  } catch (error) {
+    throw createError({ statusCode: 400, message: "Malformed client data" });
+  }
+
+  if (
+    clientData.type !== type ||
+    clientData.challenge !== challenge ||
+    clientData.origin !== getRelyingParty().origin
+  ) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey response does not match this request",
+    });
+  }
+}
+
+function verifyAuthenticatorFlags(
+  authData: ReturnType<typeof parseAuthenticatorData>,
+  requireUserVerification: boolean
+) {
+  const expectedRpIdHash = crypto
+    .createHash("sha256")
+    .update(getRelyingParty().id)
+    .digest();
+  if (!authData.rpIdHash.equals(expectedRpIdHash)) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey was created for another site",
+    });
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw createError({ statusCode: 400, message: "User presence required" });
+  }
+  if (requireUserVerification && !(authData.flags & FLAG_USER_VERIFIED)) {
+    throw createError({
+      statusCode: 400,
+      message: "User verification required",
+    });
+  }
+}
+
+async function createChallenge(purpose: WebAuthnPurpose, userId?: string) {
+  const challengeId = crypto.randomBytes(16).toString("hex");
+  const challenge = toBase64Url(crypto.randomBytes(32));
+  const stored: StoredChallenge = {
+    challenge,
+    purpose,
+    userId: userId || null,
+  };
+  await redis.set(
+    `${CHALLENGE_PREFIX}${challengeId}`,
+    JSON.stringify(stored),
+    "EX",
+    CHALLENGE_TTL
+  );
+  return { challengeId, challenge };
+}
+
+// Challenges are single use, so they are removed as they are read
+async function consumeChallenge(
+  challengeId: string,
+  purpose: WebAuthnPurpose
+): Promise<StoredChallenge> {
+  const key = `${CHALLENGE_PREFIX}${challengeId}`;
+  const [[, raw]] = (await redis.multi().get(key).del(key).exec()) as any;
+  const stored: StoredChallenge | null = raw ? JSON.parse(raw) : null;
+  if (!stored || stored.purpose !== purpose) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge expired, please try again",
+    });
+  }
+  return stored;
+}
+
+/**
+ * @desc Builds the options for enrolling a new passkey, excluding those the
+ * user already has
+ */
+export async function getRegistrationOptions(user: userAttributes) {
+  const passkeys = await models.userPasskey.findAll({
+    where: { userId: user.id },
+    attributes: ["credentialId", "transports"],
+  });
+  const { challengeId, challenge } = await createChallenge("register", user.id);
+  const rp = getRelyingParty();
+
+  return {
+    challengeId,
+    options: {
+      challenge,
+      rp: { id: rp.id, name: rp.name },
+      user: {
+        id: toBase64Url(Buffer.from(user.id)),
+        name: user.email || user.id,
+        displayName:
+          [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+          user.email ||
+          user.id,
+      },
+      pubKeyCredParams: [COSE_ES256, COSE_EDDSA, COSE_RS256].map((alg) => ({
+        type: "public-key",
+        alg,
+      })),
+      timeout: CEREMONY_TIMEOUT,
+      attestation: "none",
+      excludeCredentials: passkeys.map((passkey) => ({
+        type: "public-key",
+        id: passkey.credentialId,
+        transports: passkey.transports || undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: "preferred",
+        userVerification: "preferred",
+      },
+    },
+  };
+}
+
+/**
+ * @desc Verifies a registration response and stores the new passkey
+ */
+export async function registerPasskey(
+  userId: string,
+  challengeId: string,
+  credential: WebAuthnCredential,
+  name?: string
+) {
+  const stored = await consumeChallenge(challengeId, "register");
+  if (stored.userId !== userId) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey challenge expired, please try again",
+    });
+  }
+
+  verifyClientData(
+    credential.response.clientDataJSON,
+    "webauthn.create",
+    stored.challenge
+  );
+
+  let attestation: Map<string, any>;
+  try {
+    attestation = decodeCbor(
+      fromBase64Url(credential.response.attestationObject as string)
+    ).value;
+  } catch (error) {
+    throw createError({
+      statusCode: 400,
+      message: "Malformed attestation object",
+    });
+  }
+
+  // Only "none" attestation is requested, so the attestation statement is not
+  // checked and the key is trusted on first use
+  const authData = parseAuthenticatorData(attestation.get("authData"));
+  verifyAuthenticatorFlags(authData, false);
+  if (!authData.credentialId || !authData.coseKey) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey response has no credential",
+    });
+  }
+
+  const credentialId = toBase64Url(authData.credentialId);
+  if (credentialId !== credential.id) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey response does not match this request",
+    });
+  }
+
+  const existing = await models.userPasskey.findOne({
+    where: { credentialId },
+  });
+  if (existing) {
+    throw createError({
+      statusCode: 409,
+      message: "This passkey is already registered",
+    });
+  }
+
+  const { algorithm, publicKey } = coseToPublicKey(authData.coseKey);
+  return await models.userPasskey.create({
+    userId,
+    name: name || "Passkey",
+    credentialId,
+    publicKey,
+    algorithm,
+    counter: authData.counter,
+    transports: credential.response.transports || [],
+    backedUp: !!(authData.flags & FLAG_BACKED_UP),
+  });
+}
+
+/**
+ * @desc Builds the options for signing in or confirming an action with a
+ * passkey. Without a user the browser offers any discoverable passkey.
+ */
+export async function getAuthenticationOptions(
+  purpose: Exclude<WebAuthnPurpose, "register">,
+  userId?: string
+) {
+  const passkeys = userId
+    ? await models.userPasskey.findAll({
+        where: { userId },
+        attributes: ["credentialId", "transports"],
+      })
+    : [];
+  if (userId && passkeys.length === 0) {
+    throw createError({
+      statusCode: 400,
+      message: "No passkey is registered for this account",
+    });
+  }
+
+  const { challengeId, challenge } = await createChallenge(purpose, userId);
+  return {
+    challengeId,
+    options: {
+      challenge,
+      rpId: getRelyingParty().id,
+      timeout: CEREMONY_TIMEOUT,
+      allowCredentials: passkeys.map((passkey) => ({
+        type: "public-key",
+        id: passkey.credentialId,
+        transports: passkey.transports || undefined,
+      })),
+      userVerification: purpose === "passwordless" ? "required" : "preferred",
+    },
+  };
+}
+
+/**
+ * @desc Verifies a passkey assertion against a challenge issued for the given
+ * purpose and returns the passkey that signed it. Challenges issued for a
+ * user only accept that user's passkeys.
+ */
+export async function verifyPasskeyAssertion(
+  purpose: Exclude<WebAuthnPurpose, "register">,
+  assertion: WebAuthnAssertion
+) {
+  if (!assertion?.challengeId || !assertion?.credential?.response) {
+    throw createError({
+      statusCode: 400,
+      message: "Passkey confirmation is required",
+    });
+  }
+
+  const { challengeId, credential } = assertion;
+  const stored = await consumeChallenge(challengeId, purpose);
+  verifyClientData(
+    credential.response.clientDataJSON,
+    "webauthn.get",
+    stored.challenge
+  );
+
+  const passkey = await models.userPasskey.findOne({
+    where: { credentialId: credential.id },
+  });
+  if (!passkey || (stored.userId && passkey.userId !== stored.userId)) {
+    throw createError({ statusCode: 401, message: "Unknown passkey" });
+  }
+
+  const authDataBuffer = fromBase64Url(
+    credential.response.authenticatorData as string
+  );
+  const authData = parseAuthenticatorData(authDataBuffer);
+  verifyAuthenticatorFlags(authData, purpose === "passwordless");
+
+  const clientDataHash = crypto
+    .createHash("sha256")
+    .update(fromBase64Url(credential.response.clientDataJSON))
+    .digest();
+  const publicKey = crypto.createPublicKey({
+    key: fromBase64Url(passkey.publicKey),
+    format: "der",
+    type: "spki",
+  });
+  const isValid = crypto.verify(
+    passkey.algorithm === COSE_EDDSA ? null : "sha256",
+    Buffer.concat([authDataBuffer, clientDataHash]),
+    publicKey,
+    fromBase64Url(credential.response.signature as string)
+  );
+  if (!isValid) {
+    throw createError({
+      statusCode: 401,
+      message: "Invalid passkey signature",
+    });
+  }
+
+  // Authenticators that keep a counter must increase it on every use, a
+  // counter that goes backwards points at a cloned key
+  if (
+    (authData.counter > 0 || passkey.counter > 0) &&
+    authData.counter <= passkey.counter
+  ) {
+    throw createError({
+      statusCode: 401,
+      message: "Passkey counter did not increase, the key may be cloned",
+    });
+  }
+
+  await passkey.update({ counter: authData.counter, lastUsedAt: new Date() });
+  return passkey;
+}
+
+export async function isSecurityKeyRequiredForAdmins(): Promise<boolean> {
+  const value = await CacheManager.getInstance().getSetting(
+    "adminSecurityKeyRequired"
+  );
+  return value === true || value === "true";
+}
+
+export function isAdminRole(roleId: number | string) {
+  const role = rolesManager.roles.get(roleId);
+  return (
+    !!role &&
+    (role.name === "Super Admin" ||
+      role.permissions.includes("Access Admin Dashboard"))
+  );
+}
+
+export async function usesPasskeyTwoFactor(userId: string) {
+  const twoFactor = await models.twoFactor.findOne({
+    where: { userId, type: "WEBAUTHN", enabled: true },
+  });
+  return !!twoFactor && process.env.NEXT_PUBLIC_2FA_STATUS === "true";
+}
+
+/**
+ * @desc Confirms a sensitive action, such as a withdrawal, with a passkey.
+ * Users who chose passkeys as their second factor must always confirm, others
+ * may do so optionally.
+ */
+export async function verifyPasskeyStepUp(
+  userId: string,
+  assertion?: WebAuthnAssertion
+) {
+  if (!assertion) {
+    if (await usesPasskeyTwoFactor(userId)) {
+      throw createError({
+        statusCode: 403,
+        message: "Confirm this action with your passkey",
+      });
+    }
+    return;
+  }
+
+  const passkey = await verifyPasskeyAssertion("stepup", assertion);
+  if (passkey.userId !== userId) {
+    throw createError({ statusCode: 401, message: "Unknown passkey" });
+  }
+}
@@ -0,0 +1,164 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import user from "./user";
+
+const parseJson = (value: any) =>
+  typeof value === "string" ? JSON.parse(value) : value;
+
+export default class adminAuditLog
+  extends Model<adminAuditLogAttributes, adminAuditLogCreationAttributes>
+  implements adminAuditLogAttributes
+{
+  id!: string;
+  sequence!: number;
+  userId?: string;
+  ip?: string;
+  method!: string;
+  route!: string;
+  path!: string;
+  params?: Record<string, any>;
+  statusCode?: number;
+  reason?: string;
+  changes!: AuditChange[];
+  previousHash!: string;
+  hash!: string;
+  createdAt!: Date;
+
+  // adminAuditLog belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof adminAuditLog {
+    return adminAuditLog.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        // Position of the entry in the chain, starting at 1
+        sequence: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          unique: "adminAuditLogSequenceKey",
+          validate: {
+            isInt: { msg: "sequence: Sequence must be an integer" },
+          },
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        ip: {
+          type: DataTypes.STRING(45),
+          allowNull: true,
+        },
+        method: {
+          type: DataTypes.STRING(10),
+          allowNull: false,
+        },
+        route: {
+          type: DataTypes.STRING(255),
+          allowNull: false,
+        },
+        path: {
+          type: DataTypes.STRING(255),
+          allowNull: false,
+        },
+        params: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          get() {
+            return parseJson(this.getDataValue("params"));
+          },
+        },
+        statusCode: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        reason: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        changes: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            return parseJson(this.getDataValue("changes")) || [];
+          },
+        },
+        previousHash: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        hash: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        // Set by the writer rather than the database, as it is part of the
+        // hashed content and has to keep its milliseconds
+        createdAt: {
+          type: DataTypes.DATE(3),
+          allowNull: false,
+          defaultValue: DataTypes.NOW,
+        },
+      },
+      {
+        sequelize,
+        modelName: "adminAuditLog",
+        tableName: "admin_audit_log",
+        timestamps: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "adminAuditLogSequenceKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "sequence" }],
+          },
+          {
+            name: "adminAuditLogUserIdIndex",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "adminAuditLogCreatedAtIndex",
+            using: "BTREE",
+            fields: [{ name: "createdAt" }],
+          },
+        ],
+        hooks: {
+          // The trail is append-only, any change would break the chain
+          beforeUpdate() {
+            throw new Error("Audit log entries cannot be modified");
+          },
+          beforeBulkUpdate() {
+            throw new Error("Audit log entries cannot be modified");
+          },
+          beforeDestroy() {
+            throw new Error("Audit log entries cannot be deleted");
+          },
+          beforeBulkDestroy() {
+            throw new Error("Audit log entries cannot be deleted");
+          },
+        },
+      }
+    );
+  }
+  public static associate(models: any) {
+    // No foreign key constraint, entries must outlive the users they name
+    adminAuditLog.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      constraints: false,
+    });
+  }
+}
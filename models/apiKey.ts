@@ -10,10 +10,14 @@ export default class apiKey
   userId?: string;
   name!: string;
   key!: string;
+  encryptedSecret?: string | null;
   type!: string; // Added type
   permissions!: string[];
   ipRestriction!: boolean;
   ipWhitelist!: string[];
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  usageCount!: number;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -54,6 +58,10 @@ export default class apiKey
             notEmpty: { msg: "key: API key must not be empty" },
           },
         },
+        encryptedSecret: {
+          type: DataTypes.STRING(255),
+          allowNull: true,
+        },
         type: {
           type: DataTypes.ENUM("plugin", "user"),
           allowNull: false,
@@ -80,6 +88,19 @@ export default class apiKey
           allowNull: false,
           defaultValue: [],
         },
+        lastUsedAt: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+        lastUsedIp: {
+          type: DataTypes.STRING(45),
+          allowNull: true,
+        },
+        usageCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
       },
       {
         sequelize,
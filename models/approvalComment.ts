@@ -0,0 +1,99 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import approvalRequest from "./approvalRequest";
+import user from "./user";
+
+export default class approvalComment
+  extends Model<approvalCommentAttributes, approvalCommentCreationAttributes>
+  implements approvalCommentAttributes
+{
+  id!: string;
+  approvalRequestId!: string;
+  userId!: string;
+  message!: string;
+  createdAt?: Date;
+
+  // approvalComment belongsTo approvalRequest via approvalRequestId
+  approvalRequest!: approvalRequest;
+  getApprovalRequest!: Sequelize.BelongsToGetAssociationMixin<approvalRequest>;
+  // approvalComment belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof approvalComment {
+    return approvalComment.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        approvalRequestId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: {
+              msg: "approvalRequestId: Approval request ID cannot be null",
+            },
+            isUUID: {
+              args: 4,
+              msg: "approvalRequestId: Approval request ID must be a valid UUID",
+            },
+          },
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "userId: User ID cannot be null" },
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        message: {
+          type: DataTypes.TEXT,
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "message: Message must not be empty" },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "approvalComment",
+        tableName: "approval_comment",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "approvalCommentApprovalRequestIdForeign",
+            using: "BTREE",
+            fields: [{ name: "approvalRequestId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    approvalComment.belongsTo(models.approvalRequest, {
+      as: "approvalRequest",
+      foreignKey: "approvalRequestId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    approvalComment.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import approvalComment from "./approvalComment";
+import user from "./user";
+
+const APPROVAL_STATUSES = [
+  "PENDING",
+  "APPROVED",
+  "REJECTED",
+  "CANCELLED",
+  "EXPIRED",
+  "FAILED",
+];
+
+export default class approvalRequest
+  extends Model<approvalRequestAttributes, approvalRequestCreationAttributes>
+  implements approvalRequestAttributes
+{
+  id!: string;
+  type!: ApprovalType;
+  action!: string;
+  summary!: string;
+  payload!: Record<string, any>;
+  valueUsd?: number;
+  status!: ApprovalStatus;
+  requestedById!: string;
+  reviewedById?: string;
+  reviewedAt?: Date;
+  expiresAt!: Date;
+  result?: Record<string, any>;
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // approvalRequest belongsTo user via requestedById
+  requestedBy!: user;
+  getRequestedBy!: Sequelize.BelongsToGetAssociationMixin<user>;
+  // approvalRequest belongsTo user via reviewedById
+  reviewedBy!: user;
+  getReviewedBy!: Sequelize.BelongsToGetAssociationMixin<user>;
+  // approvalRequest hasMany approvalComment via approvalRequestId
+  comments!: approvalComment[];
+  getComments!: Sequelize.HasManyGetAssociationsMixin<approvalComment>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof approvalRequest {
+    return approvalRequest.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        type: {
+          type: DataTypes.ENUM(
+            "WALLET_BALANCE",
+            "WITHDRAWAL",
+            "ROLE_CHANGE",
+            "MASTER_WALLET"
+          ),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [
+                [
+                  "WALLET_BALANCE",
+                  "WITHDRAWAL",
+                  "ROLE_CHANGE",
+                  "MASTER_WALLET",
+                ],
+              ],
+              msg: "type: Type must be one of ['WALLET_BALANCE', 'WITHDRAWAL', 'ROLE_CHANGE', 'MASTER_WALLET']",
+            },
+          },
+        },
+        // Operation run once the request is approved
+        action: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "action: Action must not be empty" },
+          },
+        },
+        summary: {
+          type: DataTypes.STRING(255),
+          allowNull: false,
+        },
+        payload: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            const value = this.getDataValue("payload");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+        valueUsd: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+        },
+        status: {
+          type: DataTypes.ENUM(...APPROVAL_STATUSES),
+          allowNull: false,
+          defaultValue: "PENDING",
+          validate: {
+            isIn: {
+              args: [APPROVAL_STATUSES],
+              msg: `status: Status must be one of ${APPROVAL_STATUSES.join(
+                ", "
+              )}`,
+            },
+          },
+        },
+        requestedById: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "requestedById: Requester ID cannot be null" },
+            isUUID: {
+              args: 4,
+              msg: "requestedById: Requester ID must be a valid UUID",
+            },
+          },
+        },
+        reviewedById: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        reviewedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+        result: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          get() {
+            const value = this.getDataValue("result");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+        error: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "approvalRequest",
+        tableName: "approval_request",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "approvalRequestStatusExpiresAtIndex",
+            using: "BTREE",
+            fields: [{ name: "status" }, { name: "expiresAt" }],
+          },
+          {
+            name: "approvalRequestRequestedByIdForeign",
+            using: "BTREE",
+            fields: [{ name: "requestedById" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    approvalRequest.belongsTo(models.user, {
+      as: "requestedBy",
+      foreignKey: "requestedById",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    approvalRequest.belongsTo(models.user, {
+      as: "reviewedBy",
+      foreignKey: "reviewedById",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+    approvalRequest.hasMany(models.approvalComment, {
+      as: "comments",
+      foreignKey: "approvalRequestId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
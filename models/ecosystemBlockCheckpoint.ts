@@ -0,0 +1,77 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class ecosystemBlockCheckpoint
+  extends Model<
+    ecosystemBlockCheckpointAttributes,
+    ecosystemBlockCheckpointCreationAttributes
+  >
+  implements ecosystemBlockCheckpointAttributes
+{
+  id!: string;
+  chain!: string;
+  blockNumber!: number;
+  recentBlocks!: { number: number; hash: string }[];
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ecosystemBlockCheckpoint {
+    return ecosystemBlockCheckpoint.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        chain: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "ecosystemBlockCheckpointChainKey",
+          validate: {
+            notEmpty: { msg: "chain: Chain must not be empty" },
+          },
+        },
+        blockNumber: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          get() {
+            return Number(this.getDataValue("blockNumber"));
+          },
+        },
+        recentBlocks: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: [],
+          get() {
+            const value = this.getDataValue("recentBlocks");
+            return typeof value === "string" ? JSON.parse(value) : value || [];
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "ecosystemBlockCheckpoint",
+        tableName: "ecosystem_block_checkpoint",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ecosystemBlockCheckpointChainKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "chain" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
@@ -0,0 +1,166 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import transaction from "./transaction";
+
+export default class ecosystemWithdrawalJob
+  extends Model<
+    ecosystemWithdrawalJobAttributes,
+    ecosystemWithdrawalJobCreationAttributes
+  >
+  implements ecosystemWithdrawalJobAttributes
+{
+  id!: string;
+  transactionId!: string;
+  idempotencyKey!: string;
+  status!:
+    "PENDING" | "PROCESSING" | "BROADCASTING" | "COMPLETED" | "FAILED" | "DEAD";
+  attempts!: number;
+  maxAttempts!: number;
+  nextAttemptAt!: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  broadcastAt?: Date;
+  lastError?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // ecosystemWithdrawalJob belongsTo transaction via transactionId
+  transaction!: transaction;
+  getTransaction!: Sequelize.BelongsToGetAssociationMixin<transaction>;
+  setTransaction!: Sequelize.BelongsToSetAssociationMixin<
+    transaction,
+    transactionId
+  >;
+  createTransaction!: Sequelize.BelongsToCreateAssociationMixin<transaction>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ecosystemWithdrawalJob {
+    return ecosystemWithdrawalJob.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        transactionId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: {
+              args: 4,
+              msg: "transactionId: Transaction ID must be a valid UUID",
+            },
+          },
+        },
+        idempotencyKey: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "ecosystemWithdrawalJobIdempotencyKeyKey",
+          validate: {
+            notEmpty: {
+              msg: "idempotencyKey: Idempotency key must not be empty",
+            },
+          },
+        },
+        status: {
+          type: DataTypes.ENUM(
+            "PENDING",
+            "PROCESSING",
+            "BROADCASTING",
+            "COMPLETED",
+            "FAILED",
+            "DEAD"
+          ),
+          allowNull: false,
+          defaultValue: "PENDING",
+          validate: {
+            isIn: {
+              args: [
+                [
+                  "PENDING",
+                  "PROCESSING",
+                  "BROADCASTING",
+                  "COMPLETED",
+                  "FAILED",
+                  "DEAD",
+                ],
+              ],
+              msg: "status: Status must be one of ['PENDING', 'PROCESSING', 'BROADCASTING', 'COMPLETED', 'FAILED', 'DEAD']",
+            },
+          },
+        },
+        attempts: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        maxAttempts: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 5,
+        },
+        nextAttemptAt: {
+          type: DataTypes.DATE(3),
+          allowNull: false,
+          defaultValue: DataTypes.NOW,
+        },
+        lockedBy: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        lockedAt: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+        broadcastAt: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+        lastError: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "ecosystemWithdrawalJob",
+        tableName: "ecosystem_withdrawal_job",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ecosystemWithdrawalJobIdempotencyKeyKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "idempotencyKey" }],
+          },
+          {
+            name: "ecosystemWithdrawalJobTransactionIdForeign",
+            using: "BTREE",
+            fields: [{ name: "transactionId" }],
+          },
+          {
+            name: "ecosystemWithdrawalJobStatusNextAttemptAtIndex",
+            using: "BTREE",
+            fields: [{ name: "status" }, { name: "nextAttemptAt" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    ecosystemWithdrawalJob.belongsTo(models.transaction, {
+      as: "transaction",
+      foreignKey: "transactionId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -14,6 +14,7 @@ export default class exchange
   version?: string;
   productId?: string;
   type?: string;
+  priority?: number;
 
   public static initModel(sequelize: Sequelize.Sequelize): typeof exchange {
     return exchange.init(
@@ -87,6 +88,14 @@ export default class exchange
             notEmpty: { msg: "type: Type must not be empty" },
           },
         },
+        priority: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isInt: { msg: "priority: Priority must be an integer" },
+          },
+        },
       },
       {
         sequelize,
@@ -21,6 +21,7 @@ export interface exchangeOrderAttributes {
   trades?: string;
   fee: number;
   feeCurrency: string;
+  provider?: string;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -33,6 +34,7 @@ export type exchangeOrderOptionalAttributes =
   | "referenceId"
   | "average"
   | "trades"
+  | "provider"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
@@ -62,6 +64,7 @@ export default class exchangeOrder
   trades?: string;
   fee!: number;
   feeCurrency!: string;
+  provider?: string;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -209,6 +212,10 @@ export default class exchangeOrder
             notEmpty: { msg: "feeCurrency: Fee currency must not be empty" },
           },
         },
+        provider: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
       },
       {
         sequelize,
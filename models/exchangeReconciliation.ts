@@ -0,0 +1,98 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+export default class exchangeReconciliation
+  extends Model<
+    exchangeReconciliationAttributes,
+    exchangeReconciliationCreationAttributes
+  >
+  implements exchangeReconciliationAttributes
+{
+  id!: string;
+  currency!: string;
+  providerBalances!: Record<string, number>;
+  providerTotal!: number;
+  walletTotal!: number;
+  difference!: number;
+  status!: "BALANCED" | "SURPLUS" | "DEFICIT";
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof exchangeReconciliation {
+    return exchangeReconciliation.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "exchangeReconciliationCurrencyKey",
+          validate: {
+            notEmpty: { msg: "currency: Currency must not be empty" },
+          },
+        },
+        providerBalances: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            const value = this.getDataValue("providerBalances");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+        providerTotal: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        walletTotal: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        difference: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: DataTypes.ENUM("BALANCED", "SURPLUS", "DEFICIT"),
+          allowNull: false,
+          defaultValue: "BALANCED",
+          validate: {
+            isIn: {
+              args: [["BALANCED", "SURPLUS", "DEFICIT"]],
+              msg: "status: Status must be one of ['BALANCED', 'SURPLUS', 'DEFICIT']",
+            },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "exchangeReconciliation",
+        tableName: "exchange_reconciliation",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "exchangeReconciliationCurrencyKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "currency" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
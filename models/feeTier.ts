@@ -0,0 +1,131 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import userFeeTier from "./userFeeTier";
+
+export default class feeTier
+  extends Model<feeTierAttributes, feeTierCreationAttributes>
+  implements feeTierAttributes
+{
+  id!: string;
+  name!: string;
+  level!: number;
+  minVolume!: number;
+  minBalance!: number;
+  balanceCurrency?: string;
+  makerFee!: number;
+  takerFee!: number;
+  status!: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // feeTier hasMany userFeeTier via feeTierId
+  userFeeTiers!: userFeeTier[];
+  getUserFeeTiers!: Sequelize.HasManyGetAssociationsMixin<userFeeTier>;
+  countUserFeeTiers!: Sequelize.HasManyCountAssociationsMixin;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof feeTier {
+    return feeTier.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+        },
+        level: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          unique: "feeTierLevelKey",
+          validate: {
+            isInt: { msg: "level: Level must be an integer" },
+            min: { args: [0], msg: "level: Level cannot be negative" },
+          },
+        },
+        minVolume: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isFloat: { msg: "minVolume: Minimum volume must be a number" },
+            min: {
+              args: [0],
+              msg: "minVolume: Minimum volume cannot be negative",
+            },
+          },
+        },
+        minBalance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isFloat: { msg: "minBalance: Minimum balance must be a number" },
+            min: {
+              args: [0],
+              msg: "minBalance: Minimum balance cannot be negative",
+            },
+          },
+        },
+        balanceCurrency: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        makerFee: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "makerFee: Maker fee must be a number" },
+            min: { args: [0], msg: "makerFee: Maker fee cannot be negative" },
+          },
+        },
+        takerFee: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "takerFee: Taker fee must be a number" },
+            min: { args: [0], msg: "takerFee: Taker fee cannot be negative" },
+          },
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "feeTier",
+        tableName: "fee_tier",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "feeTierLevelKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "level" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    feeTier.hasMany(models.userFeeTier, {
+      as: "userFeeTiers",
+      foreignKey: "feeTierId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+  }
+}
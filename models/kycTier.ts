@@ -0,0 +1,129 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+const limitField = (name: string, label: string) => ({
+  type: DataTypes.DOUBLE,
+  allowNull: true,
+  validate: {
+    isFloat: { msg: `${name}: ${label} must be a number` },
+    min: { args: [0] as const, msg: `${name}: ${label} cannot be negative` },
+  },
+});
+
+export default class kycTier
+  extends Model<kycTierAttributes, kycTierCreationAttributes>
+  implements kycTierAttributes
+{
+  id!: string;
+  name!: string;
+  level!: number;
+  description?: string;
+  dailyWithdrawLimit?: number | null;
+  monthlyWithdrawLimit?: number | null;
+  dailyDepositLimit?: number | null;
+  monthlyDepositLimit?: number | null;
+  p2pAccess!: boolean;
+  futuresAccess!: boolean;
+  icoAccess!: boolean;
+  fiatAccess!: boolean;
+  status!: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof kycTier {
+    return kycTier.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+        },
+        // Approved KYC level that unlocks the tier
+        level: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          unique: "kycTierLevelKey",
+          validate: {
+            isInt: { msg: "level: Level must be an integer" },
+            min: { args: [0], msg: "level: Level cannot be negative" },
+          },
+        },
+        description: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        // Limits are in USD, null means unlimited
+        dailyWithdrawLimit: limitField(
+          "dailyWithdrawLimit",
+          "Daily withdrawal limit"
+        ),
+        monthlyWithdrawLimit: limitField(
+          "monthlyWithdrawLimit",
+          "Monthly withdrawal limit"
+        ),
+        dailyDepositLimit: limitField(
+          "dailyDepositLimit",
+          "Daily deposit limit"
+        ),
+        monthlyDepositLimit: limitField(
+          "monthlyDepositLimit",
+          "Monthly deposit limit"
+        ),
+        p2pAccess: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        futuresAccess: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        icoAccess: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        fiatAccess: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "kycTier",
+        tableName: "kyc_tier",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "kycTierLevelKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "level" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
@@ -0,0 +1,118 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import ledgerEntry from "./ledgerEntry";
+import wallet from "./wallet";
+
+export default class ledgerAccount
+  extends Model<ledgerAccountAttributes, ledgerAccountCreationAttributes>
+  implements ledgerAccountAttributes
+{
+  id!: string;
+  key!: string;
+  type!: "USER" | "SYSTEM";
+  name!: string;
+  currency!: string;
+  walletId?: string;
+  createdAt?: Date;
+
+  // ledgerAccount belongsTo wallet via walletId
+  wallet!: wallet;
+  getWallet!: Sequelize.BelongsToGetAssociationMixin<wallet>;
+  setWallet!: Sequelize.BelongsToSetAssociationMixin<wallet, walletId>;
+  createWallet!: Sequelize.BelongsToCreateAssociationMixin<wallet>;
+  // ledgerAccount hasMany ledgerEntry via accountId
+  ledgerEntries!: ledgerEntry[];
+  getLedgerEntries!: Sequelize.HasManyGetAssociationsMixin<ledgerEntry>;
+  countLedgerEntries!: Sequelize.HasManyCountAssociationsMixin;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ledgerAccount {
+    return ledgerAccount.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        key: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          unique: "ledgerAccountKeyKey",
+          validate: {
+            notEmpty: { msg: "key: Key must not be empty" },
+          },
+        },
+        type: {
+          type: DataTypes.ENUM("USER", "SYSTEM"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["USER", "SYSTEM"]],
+              msg: "type: Type must be one of ['USER', 'SYSTEM']",
+            },
+          },
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "currency: Currency must not be empty" },
+          },
+        },
+        walletId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "ledgerAccount",
+        tableName: "ledger_account",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ledgerAccountKeyKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "key" }],
+          },
+          {
+            name: "ledgerAccountWalletIdForeign",
+            using: "BTREE",
+            fields: [{ name: "walletId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    ledgerAccount.belongsTo(models.wallet, {
+      as: "wallet",
+      foreignKey: "walletId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+    ledgerAccount.hasMany(models.ledgerEntry, {
+      as: "ledgerEntries",
+      foreignKey: "accountId",
+      onDelete: "RESTRICT",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,122 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import wallet from "./wallet";
+
+export default class ledgerDiscrepancy
+  extends Model<
+    ledgerDiscrepancyAttributes,
+    ledgerDiscrepancyCreationAttributes
+  >
+  implements ledgerDiscrepancyAttributes
+{
+  id!: string;
+  walletId!: string;
+  balance!: number;
+  ledgerBalance!: number;
+  inOrder!: number;
+  ledgerInOrder!: number;
+  status!: "OPEN" | "RESOLVED";
+  resolution?: "ADJUST_LEDGER" | "RESTORE_WALLET" | "SELF_CORRECTED";
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // ledgerDiscrepancy belongsTo wallet via walletId
+  wallet!: wallet;
+  getWallet!: Sequelize.BelongsToGetAssociationMixin<wallet>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ledgerDiscrepancy {
+    return ledgerDiscrepancy.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        walletId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "walletId: Wallet ID cannot be null" },
+            isUUID: {
+              args: 4,
+              msg: "walletId: Wallet ID must be a valid UUID",
+            },
+          },
+        },
+        balance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "balance: Balance must be a number" },
+          },
+        },
+        ledgerBalance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          validate: {
+            isFloat: { msg: "ledgerBalance: Ledger balance must be a number" },
+          },
+        },
+        inOrder: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        ledgerInOrder: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: DataTypes.ENUM("OPEN", "RESOLVED"),
+          allowNull: false,
+          defaultValue: "OPEN",
+          validate: {
+            isIn: {
+              args: [["OPEN", "RESOLVED"]],
+              msg: "status: Status must be one of ['OPEN', 'RESOLVED']",
+            },
+          },
+        },
+        resolution: {
+          type: DataTypes.ENUM(
+            "ADJUST_LEDGER",
+            "RESTORE_WALLET",
+            "SELF_CORRECTED"
+          ),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "ledgerDiscrepancy",
+        tableName: "ledger_discrepancy",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ledgerDiscrepancyWalletIdForeign",
+            using: "BTREE",
+            fields: [{ name: "walletId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    ledgerDiscrepancy.belongsTo(models.wallet, {
+      as: "wallet",
+      foreignKey: "walletId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
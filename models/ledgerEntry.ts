@@ -0,0 +1,130 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import ledgerAccount from "./ledgerAccount";
+import ledgerJournal from "./ledgerJournal";
+
+export default class ledgerEntry
+  extends Model<ledgerEntryAttributes, ledgerEntryCreationAttributes>
+  implements ledgerEntryAttributes
+{
+  id!: string;
+  journalId!: string;
+  accountId!: string;
+  direction!: "DEBIT" | "CREDIT";
+  amount!: string;
+  createdAt?: Date;
+
+  // ledgerEntry belongsTo ledgerJournal via journalId
+  journal!: ledgerJournal;
+  getJournal!: Sequelize.BelongsToGetAssociationMixin<ledgerJournal>;
+  // ledgerEntry belongsTo ledgerAccount via accountId
+  account!: ledgerAccount;
+  getAccount!: Sequelize.BelongsToGetAssociationMixin<ledgerAccount>;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof ledgerEntry {
+    return ledgerEntry.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        journalId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "journalId: Journal ID cannot be null" },
+            isUUID: {
+              args: 4,
+              msg: "journalId: Journal ID must be a valid UUID",
+            },
+          },
+        },
+        accountId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            notNull: { msg: "accountId: Account ID cannot be null" },
+            isUUID: {
+              args: 4,
+              msg: "accountId: Account ID must be a valid UUID",
+            },
+          },
+        },
+        direction: {
+          type: DataTypes.ENUM("DEBIT", "CREDIT"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["DEBIT", "CREDIT"]],
+              msg: "direction: Direction must be one of ['DEBIT', 'CREDIT']",
+            },
+          },
+        },
+        // Integer amount in 1e-8 units of the account currency
+        amount: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          validate: {
+            isInt: { msg: "amount: Amount must be an integer" },
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "ledgerEntry",
+        tableName: "ledger_entry",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ledgerEntryJournalIdForeign",
+            using: "BTREE",
+            fields: [{ name: "journalId" }],
+          },
+          {
+            name: "ledgerEntryAccountIdForeign",
+            using: "BTREE",
+            fields: [{ name: "accountId" }],
+          },
+        ],
+        hooks: {
+          // The journal is append-only
+          beforeUpdate() {
+            throw new Error("Ledger entries cannot be modified");
+          },
+          beforeBulkUpdate() {
+            throw new Error("Ledger entries cannot be modified");
+          },
+          beforeDestroy() {
+            throw new Error("Ledger entries cannot be deleted");
+          },
+          beforeBulkDestroy() {
+            throw new Error("Ledger entries cannot be deleted");
+          },
+        },
+      }
+    );
+  }
+  public static associate(models: any) {
+    ledgerEntry.belongsTo(models.ledgerJournal, {
+      as: "journal",
+      foreignKey: "journalId",
+      onDelete: "RESTRICT",
+      onUpdate: "CASCADE",
+    });
+    ledgerEntry.belongsTo(models.ledgerAccount, {
+      as: "account",
+      foreignKey: "accountId",
+      onDelete: "RESTRICT",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import ledgerEntry from "./ledgerEntry";
+
+export default class ledgerJournal
+  extends Model<ledgerJournalAttributes, ledgerJournalCreationAttributes>
+  implements ledgerJournalAttributes
+{
+  id!: string;
+  type!: "OPENING" | "WALLET_CHANGE" | "ADJUSTMENT";
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  createdAt?: Date;
+
+  // ledgerJournal hasMany ledgerEntry via journalId
+  ledgerEntries!: ledgerEntry[];
+  getLedgerEntries!: Sequelize.HasManyGetAssociationsMixin<ledgerEntry>;
+  countLedgerEntries!: Sequelize.HasManyCountAssociationsMixin;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof ledgerJournal {
+    return ledgerJournal.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        type: {
+          type: DataTypes.ENUM("OPENING", "WALLET_CHANGE", "ADJUSTMENT"),
+          allowNull: false,
+          validate: {
+            isIn: {
+              args: [["OPENING", "WALLET_CHANGE", "ADJUSTMENT"]],
+              msg: "type: Type must be one of ['OPENING', 'WALLET_CHANGE', 'ADJUSTMENT']",
+            },
+          },
+        },
+        description: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        referenceType: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        referenceId: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "ledgerJournal",
+        tableName: "ledger_journal",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "ledgerJournalReferenceIndex",
+            using: "BTREE",
+            fields: [{ name: "referenceType" }, { name: "referenceId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    ledgerJournal.hasMany(models.ledgerEntry, {
+      as: "ledgerEntries",
+      foreignKey: "journalId",
+      onDelete: "RESTRICT",
+      onUpdate: "CASCADE",
+    });
+  }
+}
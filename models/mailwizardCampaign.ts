@@ -1,5 +1,7 @@
 import * as Sequelize from "sequelize";
 import { DataTypes, Model } from "sequelize";
+import mailwizardRecipient from "./mailwizardRecipient";
+import mailwizardSegment from "./mailwizardSegment";
 import mailwizardTemplate from "./mailwizardTemplate";
 
 export default class mailwizardCampaign
@@ -22,6 +24,9 @@ export default class mailwizardCampaign
   speed!: number;
   targets?: string;
   templateId!: string;
+  segmentId?: string;
+  subjectVariants?: string[];
+  recipientsResolvedAt?: Date | null;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -34,6 +39,12 @@ export default class mailwizardCampaign
     mailwizardTemplateId
   >;
   createTemplate!: Sequelize.BelongsToCreateAssociationMixin<mailwizardTemplate>;
+  // mailwizardCampaign belongsTo mailwizardSegment via segmentId
+  segment!: mailwizardSegment;
+  getSegment!: Sequelize.BelongsToGetAssociationMixin<mailwizardSegment>;
+  // mailwizardCampaign hasMany mailwizardRecipient via campaignId
+  recipients!: mailwizardRecipient[];
+  getRecipients!: Sequelize.HasManyGetAssociationsMixin<mailwizardRecipient>;
 
   public static initModel(sequelize: Sequelize.Sequelize): typeof mailwizardCampaign {
     return mailwizardCampaign.init(
@@ -107,6 +118,24 @@ export default class mailwizardCampaign
           type: DataTypes.TEXT("long"),
           allowNull: true,
         },
+        segmentId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        // Alternative subjects split evenly with the campaign subject
+        subjectVariants: {
+          type: DataTypes.JSON,
+          allowNull: true,
+          get() {
+            const value = this.getDataValue("subjectVariants");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+        // Set once the segment and targets are expanded into recipients
+        recipientsResolvedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
       },
       {
         sequelize,
@@ -126,6 +155,11 @@ export default class mailwizardCampaign
             using: "BTREE",
             fields: [{ name: "templateId" }],
           },
+          {
+            name: "mailwizardCampaignSegmentIdForeign",
+            using: "BTREE",
+            fields: [{ name: "segmentId" }],
+          },
         ],
       }
     );
@@ -137,5 +171,17 @@ export default class mailwizardCampaign
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    mailwizardCampaign.belongsTo(models.mailwizardSegment, {
+      as: "segment",
+      foreignKey: "segmentId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+    mailwizardCampaign.hasMany(models.mailwizardRecipient, {
+      as: "recipients",
+      foreignKey: "campaignId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
   }
 }
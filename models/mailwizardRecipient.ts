@@ -0,0 +1,164 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import mailwizardCampaign from "./mailwizardCampaign";
+
+const RECIPIENT_STATUSES = ["PENDING", "SENT", "FAILED", "SKIPPED"];
+
+export default class mailwizardRecipient
+  extends Model<
+    mailwizardRecipientAttributes,
+    mailwizardRecipientCreationAttributes
+  >
+  implements mailwizardRecipientAttributes
+{
+  id!: string;
+  campaignId!: string;
+  userId?: string;
+  email!: string;
+  token!: string;
+  variant!: number;
+  status!: "PENDING" | "SENT" | "FAILED" | "SKIPPED";
+  error?: string;
+  sentAt?: Date;
+  openedAt?: Date;
+  openCount!: number;
+  clickedAt?: Date;
+  clickCount!: number;
+  unsubscribedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // mailwizardRecipient belongsTo mailwizardCampaign via campaignId
+  campaign!: mailwizardCampaign;
+  getCampaign!: Sequelize.BelongsToGetAssociationMixin<mailwizardCampaign>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof mailwizardRecipient {
+    return mailwizardRecipient.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        campaignId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: {
+              args: 4,
+              msg: "campaignId: Campaign ID must be a valid UUID",
+            },
+          },
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        email: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            isEmail: { msg: "email: Email must be a valid email address" },
+          },
+        },
+        // Identifies the recipient in tracking and unsubscribe links
+        token: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        // Index of the subject the recipient received, 0 is the campaign
+        // subject and the rest are its subject variants
+        variant: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        status: {
+          type: DataTypes.ENUM(...RECIPIENT_STATUSES),
+          allowNull: false,
+          defaultValue: "PENDING",
+          validate: {
+            isIn: {
+              args: [RECIPIENT_STATUSES],
+              msg: `status: Status must be one of ${RECIPIENT_STATUSES.join(
+                ", "
+              )}`,
+            },
+          },
+        },
+        error: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        sentAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        openedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        openCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        clickedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        clickCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        unsubscribedAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "mailwizardRecipient",
+        tableName: "mailwizard_recipient",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "mailwizardRecipientTokenKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "token" }],
+          },
+          {
+            name: "mailwizardRecipientCampaignIdEmailKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "campaignId" }, { name: "email" }],
+          },
+          {
+            name: "mailwizardRecipientCampaignIdStatusIndex",
+            using: "BTREE",
+            fields: [{ name: "campaignId" }, { name: "status" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    mailwizardRecipient.belongsTo(models.mailwizardCampaign, {
+      as: "campaign",
+      foreignKey: "campaignId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import mailwizardCampaign from "./mailwizardCampaign";
+
+export default class mailwizardSegment
+  extends Model<
+    mailwizardSegmentAttributes,
+    mailwizardSegmentCreationAttributes
+  >
+  implements mailwizardSegmentAttributes
+{
+  id!: string;
+  name!: string;
+  description?: string;
+  rules!: MailwizardSegmentRule[];
+  createdAt?: Date;
+  deletedAt?: Date;
+  updatedAt?: Date;
+
+  // mailwizardSegment hasMany mailwizardCampaign via segmentId
+  campaigns!: mailwizardCampaign[];
+  getCampaigns!: Sequelize.HasManyGetAssociationsMixin<mailwizardCampaign>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof mailwizardSegment {
+    return mailwizardSegment.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name cannot be empty" },
+          },
+        },
+        description: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        // Attribute rules a user must all match, resolved when a campaign
+        // starts sending
+        rules: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            const value = this.getDataValue("rules");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+      },
+      {
+        sequelize,
+        modelName: "mailwizardSegment",
+        tableName: "mailwizard_segment",
+        timestamps: true,
+        paranoid: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    mailwizardSegment.hasMany(models.mailwizardCampaign, {
+      as: "campaigns",
+      foreignKey: "segmentId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+
+const SUPPRESSION_REASONS = ["UNSUBSCRIBED", "BOUNCED", "COMPLAINED", "MANUAL"];
+
+export default class mailwizardSuppression
+  extends Model<
+    mailwizardSuppressionAttributes,
+    mailwizardSuppressionCreationAttributes
+  >
+  implements mailwizardSuppressionAttributes
+{
+  id!: string;
+  email!: string;
+  reason!: "UNSUBSCRIBED" | "BOUNCED" | "COMPLAINED" | "MANUAL";
+  campaignId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof mailwizardSuppression {
+    return mailwizardSuppression.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        // Stored lowercased, marketing emails are never sent to it
+        email: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            isEmail: { msg: "email: Email must be a valid email address" },
+          },
+        },
+        reason: {
+          type: DataTypes.ENUM(...SUPPRESSION_REASONS),
+          allowNull: false,
+          defaultValue: "MANUAL",
+          validate: {
+            isIn: {
+              args: [SUPPRESSION_REASONS],
+              msg: `reason: Reason must be one of ${SUPPRESSION_REASONS.join(
+                ", "
+              )}`,
+            },
+          },
+        },
+        // Campaign the address unsubscribed from
+        campaignId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "mailwizardSuppression",
+        tableName: "mailwizard_suppression",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "mailwizardSuppressionEmailKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "email" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {}
+}
@@ -18,6 +18,9 @@ export default class nftCollection
   featured?: boolean;
   views!: number;
   links?: string;
+  currency!: string;
+  walletType!: "FIAT" | "SPOT" | "ECO";
+  status!: boolean;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -169,6 +172,35 @@ export default class nftCollection
           type: DataTypes.TEXT("long"),
           allowNull: true,
         },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "currency: Currency must not be empty" },
+          },
+        },
+        walletType: {
+          type: DataTypes.ENUM("FIAT", "SPOT", "ECO"),
+          allowNull: false,
+          defaultValue: "SPOT",
+          validate: {
+            isIn: {
+              args: [["FIAT", "SPOT", "ECO"]],
+              msg: "walletType: Must be either 'FIAT', 'SPOT', or 'ECO'",
+            },
+          },
+        },
+        status: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: true,
+          validate: {
+            isIn: {
+              args: [[true, false]],
+              msg: "status: Status must be true or false",
+            },
+          },
+        },
       },
       {
         sequelize,
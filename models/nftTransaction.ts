@@ -12,7 +12,7 @@ export default class nftTransaction
   sellerId!: string;
   buyerId!: string;
   price!: number;
-  transactionHash!: string;
+  transactionHash?: string;
   type!: "PURCHASE" | "SALE";
   status!: "PENDING" | "COMPLETED" | "FAILED";
   createdAt?: Date;
@@ -76,7 +76,7 @@ export default class nftTransaction
         },
         transactionHash: {
           type: DataTypes.STRING(191),
-          allowNull: false,
+          allowNull: true,
           validate: {
             notEmpty: { msg: "transactionHash: Must not be empty" },
           },
@@ -20,6 +20,7 @@ export default class p2pOffer
   inOrder!: number;
   price!: number;
   paymentMethodId!: string;
+  paymentWindow!: number;
   status!: "PENDING" | "ACTIVE" | "COMPLETED" | "CANCELLED";
   createdAt?: Date;
   deletedAt?: Date;
@@ -158,6 +159,24 @@ export default class p2pOffer
             isNumeric: { msg: "price: Price must be a numeric value" },
           },
         },
+        paymentWindow: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 15,
+          validate: {
+            isInt: {
+              msg: "paymentWindow: Payment Window must be a whole number of minutes",
+            },
+            min: {
+              args: [5],
+              msg: "paymentWindow: Payment Window must be at least 5 minutes",
+            },
+            max: {
+              args: [1440],
+              msg: "paymentWindow: Payment Window cannot exceed 1440 minutes",
+            },
+          },
+        },
         status: {
           type: DataTypes.ENUM("PENDING", "ACTIVE", "COMPLETED", "CANCELLED"),
           allowNull: false,
@@ -25,6 +25,9 @@ export default class p2pTrade
     | "REFUNDED";
   messages?: ChatMessage[];
   txHash?: string;
+  paymentDeadline?: Date;
+  releaseDeadline?: Date;
+  cancelReason?: "USER" | "ADMIN" | "PAYMENT_TIMEOUT";
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -173,6 +176,24 @@ export default class p2pTrade
           type: DataTypes.STRING(191),
           allowNull: true,
         },
+        paymentDeadline: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        releaseDeadline: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        cancelReason: {
+          type: DataTypes.ENUM("USER", "ADMIN", "PAYMENT_TIMEOUT"),
+          allowNull: true,
+          validate: {
+            isIn: {
+              args: [["USER", "ADMIN", "PAYMENT_TIMEOUT"]],
+              msg: "cancelReason: Cancel reason must be one of USER, ADMIN, PAYMENT_TIMEOUT",
+            },
+          },
+        },
       },
       {
         sequelize,
@@ -208,6 +229,11 @@ export default class p2pTrade
             using: "BTREE",
             fields: [{ name: "offerId" }],
           },
+          {
+            name: "p2pTradeStatusIdx",
+            using: "BTREE",
+            fields: [{ name: "status" }],
+          },
         ],
       }
     );
@@ -11,13 +11,19 @@ export default class paymentIntent
   transactionId: string | null;
   description?: string | undefined;
   id!: string;
+  merchantId?: string;
   userId?: string;
   walletId?: string;
   amount!: number;
   currency!: string;
   tax!: number; // New field
   discount!: number; // New field
-  status!: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
+  status!: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED" | "REFUNDED";
+  refundedAmount!: number;
+  expiresAt?: Date;
+  ipnAttempts!: number;
+  ipnNextAttemptAt?: Date | null;
+  ipnDeliveredAt?: Date | null;
   ipnUrl!: string;
   apiKey!: string;
   successUrl!: string;
@@ -27,6 +33,7 @@ export default class paymentIntent
 
   // Associations
   products!: paymentIntentProduct[];
+  merchant!: user;
   user!: user;
   wallet!: wallet;
 
@@ -39,6 +46,10 @@ export default class paymentIntent
           primaryKey: true,
           allowNull: false,
         },
+        merchantId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
         userId: {
           type: DataTypes.UUID,
           allowNull: true,
@@ -75,10 +86,41 @@ export default class paymentIntent
           },
         },
         status: {
-          type: DataTypes.ENUM("PENDING", "COMPLETED", "FAILED", "EXPIRED"),
+          type: DataTypes.ENUM(
+            "PENDING",
+            "COMPLETED",
+            "FAILED",
+            "EXPIRED",
+            "REFUNDED"
+          ),
           allowNull: false,
           defaultValue: "PENDING",
         },
+        refundedAmount: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+          validate: {
+            isFloat: { msg: "refundedAmount: Must be a valid number" },
+          },
+        },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ipnAttempts: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        ipnNextAttemptAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        ipnDeliveredAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
         ipnUrl: {
           type: DataTypes.TEXT,
           allowNull: false,
@@ -117,6 +159,12 @@ export default class paymentIntent
   }
 
   static associate(models: any) {
+    paymentIntent.belongsTo(models.user, {
+      as: "merchant",
+      foreignKey: "merchantId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     paymentIntent.belongsTo(models.user, {
       as: "user",
       foreignKey: "userId",
@@ -0,0 +1,104 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import reserveSnapshotLeaf from "./reserveSnapshotLeaf";
+
+export default class reserveSnapshot
+  extends Model<reserveSnapshotAttributes, reserveSnapshotCreationAttributes>
+  implements reserveSnapshotAttributes
+{
+  id!: string;
+  currency!: string;
+  rootHash!: string;
+  totalLiabilities!: number;
+  totalAssets!: number;
+  assets!: Record<string, number>;
+  reserveRatio?: number;
+  leafCount!: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // reserveSnapshot hasMany reserveSnapshotLeaf via snapshotId
+  leaves!: reserveSnapshotLeaf[];
+  getLeaves!: Sequelize.HasManyGetAssociationsMixin<reserveSnapshotLeaf>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof reserveSnapshot {
+    return reserveSnapshot.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        currency: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "currency: Currency must not be empty" },
+          },
+        },
+        rootHash: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        totalLiabilities: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        totalAssets: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        assets: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          get() {
+            const value = this.getDataValue("assets");
+            return typeof value === "string" ? JSON.parse(value) : value;
+          },
+        },
+        reserveRatio: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+        },
+        leafCount: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+      },
+      {
+        sequelize,
+        modelName: "reserveSnapshot",
+        tableName: "reserve_snapshot",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "reserveSnapshotCurrencyCreatedAtIndex",
+            using: "BTREE",
+            fields: [{ name: "currency" }, { name: "createdAt" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    reserveSnapshot.hasMany(models.reserveSnapshotLeaf, {
+      as: "leaves",
+      foreignKey: "snapshotId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
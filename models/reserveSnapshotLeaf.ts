@@ -0,0 +1,107 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import reserveSnapshot from "./reserveSnapshot";
+
+export default class reserveSnapshotLeaf
+  extends Model<
+    reserveSnapshotLeafAttributes,
+    reserveSnapshotLeafCreationAttributes
+  >
+  implements reserveSnapshotLeafAttributes
+{
+  id!: string;
+  snapshotId!: string;
+  userId!: string;
+  position!: number;
+  balance!: number;
+  nonce!: string;
+  hash!: string;
+  createdAt?: Date;
+
+  // reserveSnapshotLeaf belongsTo reserveSnapshot via snapshotId
+  snapshot!: reserveSnapshot;
+  getSnapshot!: Sequelize.BelongsToGetAssociationMixin<reserveSnapshot>;
+
+  public static initModel(
+    sequelize: Sequelize.Sequelize
+  ): typeof reserveSnapshotLeaf {
+    return reserveSnapshotLeaf.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        snapshotId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: {
+              args: 4,
+              msg: "snapshotId: Snapshot ID must be a valid UUID",
+            },
+          },
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        position: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        balance: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+        },
+        nonce: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+        hash: {
+          type: DataTypes.STRING(64),
+          allowNull: false,
+        },
+      },
+      {
+        sequelize,
+        modelName: "reserveSnapshotLeaf",
+        tableName: "reserve_snapshot_leaf",
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "reserveSnapshotLeafSnapshotIdUserIdKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "snapshotId" }, { name: "userId" }],
+          },
+          {
+            name: "reserveSnapshotLeafSnapshotIdPositionIndex",
+            using: "BTREE",
+            fields: [{ name: "snapshotId" }, { name: "position" }],
+          },
+        ],
+      }
+    );
+  }
+
+  public static associate(models: any) {
+    reserveSnapshotLeaf.belongsTo(models.reserveSnapshot, {
+      as: "snapshot",
+      foreignKey: "snapshotId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
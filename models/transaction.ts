@@ -35,7 +35,9 @@ export default class transaction
     | "STAKING"
     | "STAKING_REWARD"
     | "P2P_OFFER_TRANSFER"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "LIQUIDATION_SURPLUS"
+    | "LIQUIDATION_SHORTFALL";
   status!:
     | "PENDING"
     | "COMPLETED"
@@ -128,7 +130,9 @@ export default class transaction
             "STAKING",
             "STAKING_REWARD",
             "P2P_OFFER_TRANSFER",
-            "P2P_TRADE"
+            "P2P_TRADE",
+            "LIQUIDATION_SURPLUS",
+            "LIQUIDATION_SHORTFALL"
           ),
           allowNull: false,
           validate: {
@@ -159,9 +163,11 @@ export default class transaction
                   "STAKING_REWARD",
                   "P2P_OFFER_TRANSFER",
                   "P2P_TRADE",
+                  "LIQUIDATION_SURPLUS",
+                  "LIQUIDATION_SHORTFALL",
                 ],
               ],
-              msg: "type: Type must be one of ['FAILED', 'DEPOSIT', 'WITHDRAW', 'OUTGOING_TRANSFER', 'INCOMING_TRANSFER', 'PAYMENT', 'REFUND', 'BINARY_ORDER', 'EXCHANGE_ORDER', 'INVESTMENT', 'INVESTMENT_ROI', 'AI_INVESTMENT', 'AI_INVESTMENT_ROI', 'INVOICE', 'FOREX_DEPOSIT', 'FOREX_WITHDRAW', 'FOREX_INVESTMENT', 'FOREX_INVESTMENT_ROI', 'ICO_CONTRIBUTION', 'REFERRAL_REWARD', 'STAKING', 'STAKING_REWARD', 'P2P_OFFER_TRANSFER', 'P2P_TRADE']",
+              msg: "type: Type must be one of ['FAILED', 'DEPOSIT', 'WITHDRAW', 'OUTGOING_TRANSFER', 'INCOMING_TRANSFER', 'PAYMENT', 'REFUND', 'BINARY_ORDER', 'EXCHANGE_ORDER', 'INVESTMENT', 'INVESTMENT_ROI', 'AI_INVESTMENT', 'AI_INVESTMENT_ROI', 'INVOICE', 'FOREX_DEPOSIT', 'FOREX_WITHDRAW', 'FOREX_INVESTMENT', 'FOREX_INVESTMENT_ROI', 'ICO_CONTRIBUTION', 'REFERRAL_REWARD', 'STAKING', 'STAKING_REWARD', 'P2P_OFFER_TRANSFER', 'P2P_TRADE', 'LIQUIDATION_SURPLUS', 'LIQUIDATION_SHORTFALL']",
             },
           },
         },
@@ -9,7 +9,7 @@ export default class twoFactor
   id!: string;
   userId!: string;
   secret!: string;
-  type!: "EMAIL" | "SMS" | "APP";
+  type!: "EMAIL" | "SMS" | "APP" | "WEBAUTHN";
   enabled!: boolean;
   createdAt?: Date;
   deletedAt?: Date;
@@ -48,12 +48,12 @@ export default class twoFactor
           },
         },
         type: {
-          type: DataTypes.ENUM("EMAIL", "SMS", "APP"),
+          type: DataTypes.ENUM("EMAIL", "SMS", "APP", "WEBAUTHN"),
           allowNull: false,
           validate: {
             isIn: {
-              args: [["EMAIL", "SMS", "APP"]],
-              msg: "type: Type must be one of ['EMAIL', 'SMS', 'APP']",
+              args: [["EMAIL", "SMS", "APP", "WEBAUTHN"]],
+              msg: "type: Type must be one of ['EMAIL', 'SMS', 'APP', 'WEBAUTHN']",
             },
           },
         },
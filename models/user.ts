@@ -29,6 +29,8 @@ import stakingLog from "./stakingLog";
 import supportTicket from "./supportTicket";
 import transaction from "./transaction";
 import twoFactor from "./twoFactor";
+import userFeeTier from "./userFeeTier";
+import userPasskey from "./userPasskey";
 import wallet from "./wallet";
 
 export default class user
@@ -946,6 +948,38 @@ export default class user
   getTwofactor!: Sequelize.HasOneGetAssociationMixin<twoFactor>;
   setTwofactor!: Sequelize.HasOneSetAssociationMixin<twoFactor, twoFactorId>;
   createTwofactor!: Sequelize.HasOneCreateAssociationMixin<twoFactor>;
+  // user hasOne userFeeTier via userId
+  feeTier!: userFeeTier;
+  getFeeTier!: Sequelize.HasOneGetAssociationMixin<userFeeTier>;
+  setFeeTier!: Sequelize.HasOneSetAssociationMixin<userFeeTier, userFeeTierId>;
+  createFeeTier!: Sequelize.HasOneCreateAssociationMixin<userFeeTier>;
+  // user hasMany userPasskey via userId
+  passkeys!: userPasskey[];
+  getPasskeys!: Sequelize.HasManyGetAssociationsMixin<userPasskey>;
+  setPasskeys!: Sequelize.HasManySetAssociationsMixin<
+    userPasskey,
+    userPasskeyId
+  >;
+  addPasskey!: Sequelize.HasManyAddAssociationMixin<userPasskey, userPasskeyId>;
+  addPasskeys!: Sequelize.HasManyAddAssociationsMixin<
+    userPasskey,
+    userPasskeyId
+  >;
+  createPasskey!: Sequelize.HasManyCreateAssociationMixin<userPasskey>;
+  removePasskey!: Sequelize.HasManyRemoveAssociationMixin<
+    userPasskey,
+    userPasskeyId
+  >;
+  removePasskeys!: Sequelize.HasManyRemoveAssociationsMixin<
+    userPasskey,
+    userPasskeyId
+  >;
+  hasPasskey!: Sequelize.HasManyHasAssociationMixin<userPasskey, userPasskeyId>;
+  hasPasskeys!: Sequelize.HasManyHasAssociationsMixin<
+    userPasskey,
+    userPasskeyId
+  >;
+  countPasskeys!: Sequelize.HasManyCountAssociationsMixin;
   // user hasMany wallet via userId
   wallets!: wallet[];
   getWallets!: Sequelize.HasManyGetAssociationsMixin<wallet>;
@@ -1367,6 +1401,18 @@ export default class user
       onDelete: "CASCADE",
       onUpdate: "CASCADE",
     });
+    user.hasOne(models.userFeeTier, {
+      as: "feeTier",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    user.hasMany(models.userPasskey, {
+      as: "passkeys",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
     user.hasMany(models.wallet, {
       as: "wallets",
       foreignKey: "userId",
@@ -0,0 +1,128 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import feeTier from "./feeTier";
+import user from "./user";
+
+export default class userFeeTier
+  extends Model<userFeeTierAttributes, userFeeTierCreationAttributes>
+  implements userFeeTierAttributes
+{
+  id!: string;
+  userId!: string;
+  feeTierId?: string;
+  volume!: number;
+  makerFeeOverride?: number;
+  takerFeeOverride?: number;
+  overrideNote?: string;
+  computedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // userFeeTier belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+  setUser!: Sequelize.BelongsToSetAssociationMixin<user, userId>;
+  createUser!: Sequelize.BelongsToCreateAssociationMixin<user>;
+  // userFeeTier belongsTo feeTier via feeTierId
+  tier!: feeTier;
+  getTier!: Sequelize.BelongsToGetAssociationMixin<feeTier>;
+  setTier!: Sequelize.BelongsToSetAssociationMixin<feeTier, feeTierId>;
+  createTier!: Sequelize.BelongsToCreateAssociationMixin<feeTier>;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof userFeeTier {
+    return userFeeTier.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          unique: "userFeeTierUserIdKey",
+          validate: {
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        feeTierId: {
+          type: DataTypes.UUID,
+          allowNull: true,
+        },
+        volume: {
+          type: DataTypes.DOUBLE,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        makerFeeOverride: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: {
+              args: [0],
+              msg: "makerFeeOverride: Maker fee cannot be negative",
+            },
+          },
+        },
+        takerFeeOverride: {
+          type: DataTypes.DOUBLE,
+          allowNull: true,
+          validate: {
+            min: {
+              args: [0],
+              msg: "takerFeeOverride: Taker fee cannot be negative",
+            },
+          },
+        },
+        overrideNote: {
+          type: DataTypes.STRING(191),
+          allowNull: true,
+        },
+        computedAt: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "userFeeTier",
+        tableName: "user_fee_tier",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "userFeeTierUserIdKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+          {
+            name: "userFeeTierFeeTierIdForeign",
+            using: "BTREE",
+            fields: [{ name: "feeTierId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    userFeeTier.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+    userFeeTier.belongsTo(models.feeTier, {
+      as: "tier",
+      foreignKey: "feeTierId",
+      onDelete: "SET NULL",
+      onUpdate: "CASCADE",
+    });
+  }
+}
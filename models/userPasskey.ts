@@ -0,0 +1,121 @@
+import * as Sequelize from "sequelize";
+import { DataTypes, Model } from "sequelize";
+import user from "./user";
+
+export default class userPasskey
+  extends Model<userPasskeyAttributes, userPasskeyCreationAttributes>
+  implements userPasskeyAttributes
+{
+  id!: string;
+  userId!: string;
+  name!: string;
+  credentialId!: string;
+  publicKey!: string;
+  algorithm!: number;
+  counter!: number;
+  transports?: string[];
+  backedUp!: boolean;
+  lastUsedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  // userPasskey belongsTo user via userId
+  user!: user;
+  getUser!: Sequelize.BelongsToGetAssociationMixin<user>;
+  setUser!: Sequelize.BelongsToSetAssociationMixin<user, userId>;
+  createUser!: Sequelize.BelongsToCreateAssociationMixin<user>;
+
+  public static initModel(sequelize: Sequelize.Sequelize): typeof userPasskey {
+    return userPasskey.init(
+      {
+        id: {
+          type: DataTypes.UUID,
+          defaultValue: DataTypes.UUIDV4,
+          primaryKey: true,
+          allowNull: false,
+        },
+        userId: {
+          type: DataTypes.UUID,
+          allowNull: false,
+          validate: {
+            isUUID: { args: 4, msg: "userId: User ID must be a valid UUID" },
+          },
+        },
+        name: {
+          type: DataTypes.STRING(191),
+          allowNull: false,
+          validate: {
+            notEmpty: { msg: "name: Name must not be empty" },
+          },
+        },
+        credentialId: {
+          type: DataTypes.STRING(512),
+          allowNull: false,
+          unique: "userPasskeyCredentialIdKey",
+          validate: {
+            notEmpty: { msg: "credentialId: Credential ID must not be empty" },
+          },
+        },
+        publicKey: {
+          type: DataTypes.TEXT,
+          allowNull: false,
+        },
+        algorithm: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        counter: {
+          type: DataTypes.INTEGER.UNSIGNED,
+          allowNull: false,
+          defaultValue: 0,
+        },
+        transports: {
+          type: DataTypes.JSON,
+          allowNull: true,
+        },
+        backedUp: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        lastUsedAt: {
+          type: DataTypes.DATE(3),
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        modelName: "userPasskey",
+        tableName: "user_passkey",
+        timestamps: true,
+        indexes: [
+          {
+            name: "PRIMARY",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "id" }],
+          },
+          {
+            name: "userPasskeyCredentialIdKey",
+            unique: true,
+            using: "BTREE",
+            fields: [{ name: "credentialId" }],
+          },
+          {
+            name: "userPasskeyUserIdForeign",
+            using: "BTREE",
+            fields: [{ name: "userId" }],
+          },
+        ],
+      }
+    );
+  }
+  public static associate(models: any) {
+    userPasskey.belongsTo(models.user, {
+      as: "user",
+      foreignKey: "userId",
+      onDelete: "CASCADE",
+      onUpdate: "CASCADE",
+    });
+  }
+}
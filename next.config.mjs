@@ -41,6 +41,14 @@ const nextConfig = async (phase, { defaultConfig }) => {
           source: "/uploads/:path*",
           destination: `http://localhost:${backendPort}/uploads/:path*`, // Proxy to Backend
         },
+        {
+          source: "/private/:path*",
+          destination: `http://localhost:${backendPort}/private/:path*`, // Proxy to Backend
+        },
+        {
+          source: "/mailwizard/:path*",
+          destination: `http://localhost:${backendPort}/mailwizard/:path*`, // Proxy to Backend
+        },
         {
           source: "/themes/:path*",
           destination: `http://localhost:${backendPort}/themes/:path*`, // Proxy to Backend
@@ -0,0 +1,145 @@
+// File: scripts/storage/migrate.ts
+//
+// Moves the files uploaded to the local disk into the configured storage
+// driver, and KYC documents into private storage:
+//
+//   pnpm storage:migrate [--dry-run] [--delete]
+//
+// --dry-run only lists what would be moved, --delete removes the local copy
+// of each public file once it is stored. The public copies of KYC documents
+// are always removed, they must not stay reachable.
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+require("dotenv").config();
+import "../../module-alias-setup";
+import { models, sequelize } from "@b/db";
+import {
+  getStorage,
+  LocalStorageDriver,
+  privateReference,
+} from "@b/utils/storage";
+
+const PUBLIC_AREAS = ["uploads", "converted"];
+const KYC_AREAS = ["uploads/kyc", "converted/kyc"];
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const deleteSource = args.includes("--delete");
+
+const local = new LocalStorageDriver();
+const target = getStorage();
+
+async function moveFile(
+  key: string,
+  targetKey: string,
+  visibility: "public" | "private",
+  removeSource = deleteSource
+) {
+  if (dryRun) {
+    console.log(`${key} -> ${visibility} ${targetKey}`);
+    return;
+  }
+  const body = await local.get(key);
+  if (!body) return;
+  await target.put(targetKey, body, { visibility });
+  if (removeSource) {
+    await local.delete(key);
+  }
+}
+
+async function migratePublicFiles() {
+  // Public files already are where the local driver keeps them
+  if (target.name === "local") return 0;
+
+  let moved = 0;
+  for (const area of PUBLIC_AREAS) {
+    const objects = await local.list(area);
+    for (const { key } of objects) {
+      if (KYC_AREAS.some((kycArea) => key.startsWith(`${kycArea}/`))) continue;
+      await moveFile(key, key, "public");
+      moved++;
+    }
+  }
+  return moved;
+}
+
+async function migrateKycFiles() {
+  let moved = 0;
+  for (const area of KYC_AREAS) {
+    const objects = await local.list(area);
+    for (const { key } of objects) {
+      // "uploads/kyc/..." becomes the private "kyc/..."
+      await moveFile(key, key.slice(key.indexOf("/") + 1), "private", true);
+      moved++;
+    }
+  }
+  return moved;
+}
+
+// Points the documents of KYC applications to their private copies
+function rewriteKycReferences(value: any): any {
+  if (typeof value === "string") {
+    const area = KYC_AREAS.find((kycArea) => value.startsWith(`/${kycArea}/`));
+    return area ? privateReference(value.slice(area.indexOf("/") + 2)) : value;
+  }
+  if (Array.isArray(value)) return value.map(rewriteKycReferences);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        rewriteKycReferences(item),
+      ])
+    );
+  }
+  return value;
+}
+
+async function migrateKycReferences() {
+  let updated = 0;
+  const applications = await models.kyc.findAll({
+    attributes: ["id", "data"],
+  });
+  for (const application of applications) {
+    const data = application.data;
+    const rewritten = rewriteKycReferences(data);
+    if (JSON.stringify(rewritten) === JSON.stringify(data)) continue;
+
+    if (!dryRun) {
+      await models.kyc.update(
+        { data: JSON.stringify(rewritten) },
+        { where: { id: application.id } }
+      );
+    }
+    updated++;
+  }
+  return updated;
+}
+
+async function run() {
+  console.log(
+    `Migrating local files to the ${target.name} storage driver${
+      dryRun ? " (dry run)" : ""
+    }...`
+  );
+
+  const publicFiles = await migratePublicFiles();
+  const kycFiles = await migrateKycFiles();
+  const kycApplications = await migrateKycReferences();
+
+  console.log(
+    `${publicFiles} public files, ${kycFiles} KYC documents and ${kycApplications} KYC applications ${
+      dryRun ? "to migrate" : "migrated"
+    }.`
+  );
+}
+
+run()
+  .then(async () => {
+    await sequelize.close();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("Storage migration failed:", error);
+    await sequelize.close();
+    process.exit(1);
+  });
@@ -10,6 +10,7 @@ const permissionsList = [
   "Access Tag Management",
   "Access KYC Application Management",
   "Access KYC Template Management",
+  "Access KYC Tier Management",
   "Access Permission Management",
   "Access Role Management",
   "Access Support Ticket Management",
@@ -29,6 +30,12 @@ const permissionsList = [
   "Access Ecommerce Shipping Management",
   "Access Ecommerce Wishlist Management",
   "Access Futures Market Management",
+  "Access Futures Insurance Fund Management",
+  "Access NFT Collection Management",
+  "Access NFT Asset Management",
+  "Access NFT Auction Management",
+  "Access NFT Comment Management",
+  "Access NFT Transaction Management",
   "Access Ecosystem Management",
   "Access Ecosystem Private Ledger Management",
   "Access Ecosystem Market Management",
@@ -36,6 +43,7 @@ const permissionsList = [
   "Access Ecosystem UTXO Management",
   "Access Ecosystem Custodial Wallet Management",
   "Access Ecosystem Master Wallet Management",
+  "Access Ecosystem Withdrawal Queue Management",
   "Access FAQ Category Management",
   "Access FAQ Management",
   "Access Forex Account Management",
@@ -76,6 +84,11 @@ const permissionsList = [
   "Access Exchange Order Management",
   "Access Transaction Management",
   "Access Wallet Management",
+  "Access Ledger Management",
+  "Access Proof of Reserves Management",
+  "Access Audit Trail Management",
+  "Access Approval Management",
+  "Access Fee Tier Management",
   "Access Withdrawal Method Management",
   "Access Pages Management",
   "Access Announcement Management",
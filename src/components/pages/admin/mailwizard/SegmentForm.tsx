@@ -0,0 +1,356 @@
+import { useState, FormEvent } from "react";
+import { Icon } from "@iconify/react";
+import { useTranslation } from "next-i18next";
+import Card from "@/components/elements/base/card/Card";
+import Input from "@/components/elements/form/input/Input";
+import Textarea from "@/components/elements/form/textarea/Textarea";
+import Select from "@/components/elements/form/select/Select";
+import Button from "@/components/elements/base/button/Button";
+import IconButton from "@/components/elements/base/button-icon/IconButton";
+import $fetch from "@/utils/api";
+
+export interface SegmentRule {
+  field: string;
+  operator?: string;
+  value?: string;
+  currency?: string;
+  walletType?: string;
+  extension?: string;
+}
+
+export interface SegmentFormValues {
+  name: string;
+  description: string;
+  rules: SegmentRule[];
+}
+
+const defaultRules: Record<string, SegmentRule> = {
+  kycLevel: { field: "kycLevel", operator: "gte", value: "1" },
+  walletBalance: {
+    field: "walletBalance",
+    operator: "gte",
+    value: "0",
+    currency: "USDT",
+    walletType: "",
+  },
+  lastLogin: { field: "lastLogin", operator: "within", value: "30" },
+  extension: { field: "extension", operator: "used", extension: "staking" },
+  emailVerified: { field: "emailVerified", value: "true" },
+};
+
+// Turns rules loaded from the API into form values
+export const toFormRules = (rules: any[] = []): SegmentRule[] =>
+  rules.map((rule) => ({
+    ...defaultRules[rule.field],
+    ...rule,
+    value: rule.value === undefined ? undefined : String(rule.value),
+    walletType: rule.walletType || "",
+  }));
+
+const SegmentForm = ({
+  initialValues,
+  submitLabel,
+  onSubmit,
+}: {
+  initialValues: SegmentFormValues;
+  submitLabel: string;
+  onSubmit: (values: SegmentFormValues) => Promise<void>;
+}) => {
+  const { t } = useTranslation();
+  const [form, setForm] = useState<SegmentFormValues>(initialValues);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [matchingUsers, setMatchingUsers] = useState<number | null>(null);
+
+  const fields = [
+    { value: "kycLevel", label: t("KYC Level") },
+    { value: "walletBalance", label: t("Wallet Balance") },
+    { value: "lastLogin", label: t("Last Login") },
+    { value: "extension", label: t("Extension Usage") },
+    { value: "emailVerified", label: t("Email Verified") },
+  ];
+
+  const updateRule = (index: number, changes: Partial<SegmentRule>) => {
+    setMatchingUsers(null);
+    setForm((prevForm) => ({
+      ...prevForm,
+      rules: prevForm.rules.map((rule, i) =>
+        i === index ? { ...rule, ...changes } : rule
+      ),
+    }));
+  };
+  const handleFieldChange = (index: number, field: string) => {
+    setMatchingUsers(null);
+    setForm((prevForm) => ({
+      ...prevForm,
+      rules: prevForm.rules.map((rule, i) =>
+        i === index ? { ...defaultRules[field] } : rule
+      ),
+    }));
+  };
+  const handleAddRule = () => {
+    setMatchingUsers(null);
+    setForm((prevForm) => ({
+      ...prevForm,
+      rules: [...prevForm.rules, { ...defaultRules.kycLevel }],
+    }));
+  };
+  const handleRemoveRule = (index: number) => {
+    setMatchingUsers(null);
+    setForm((prevForm) => ({
+      ...prevForm,
+      rules: prevForm.rules.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    const { data, error } = await $fetch({
+      url: "/api/admin/ext/mailwizard/segment/preview",
+      method: "POST",
+      body: { rules: form.rules },
+      silent: true,
+    });
+    if (!error) {
+      setMatchingUsers(data.users);
+    }
+    setIsPreviewing(false);
+  };
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    await onSubmit(form);
+    setIsSubmitting(false);
+  };
+
+  const renderRuleInputs = (rule: SegmentRule, index: number) => {
+    switch (rule.field) {
+      case "kycLevel":
+        return (
+          <>
+            <Select
+              label={t("Condition")}
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { operator: e.target.value })}
+              options={[
+                { value: "gte", label: t("At least") },
+                { value: "lte", label: t("At most") },
+                { value: "eq", label: t("Exactly") },
+              ]}
+            />
+            <Input
+              type="number"
+              label={t("Level")}
+              value={rule.value}
+              min={0}
+              onChange={(e) => updateRule(index, { value: e.target.value })}
+            />
+          </>
+        );
+      case "walletBalance":
+        return (
+          <>
+            <Input
+              label={t("Currency")}
+              value={rule.currency}
+              placeholder={t("Ex: USDT")}
+              onChange={(e) => updateRule(index, { currency: e.target.value })}
+            />
+            <Select
+              label={t("Wallet Type")}
+              value={rule.walletType}
+              onChange={(e) =>
+                updateRule(index, { walletType: e.target.value })
+              }
+              options={[
+                { value: "", label: t("All") },
+                { value: "FIAT", label: t("Fiat") },
+                { value: "SPOT", label: t("Spot") },
+                { value: "ECO", label: t("Funding") },
+                { value: "FUTURES", label: t("Futures") },
+              ]}
+            />
+            <Select
+              label={t("Condition")}
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { operator: e.target.value })}
+              options={[
+                { value: "gte", label: t("At least") },
+                { value: "lte", label: t("At most") },
+              ]}
+            />
+            <Input
+              type="number"
+              label={t("Balance")}
+              value={rule.value}
+              onChange={(e) => updateRule(index, { value: e.target.value })}
+            />
+          </>
+        );
+      case "lastLogin":
+        return (
+          <>
+            <Select
+              label={t("Condition")}
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { operator: e.target.value })}
+              options={[
+                { value: "within", label: t("Logged in within") },
+                { value: "notWithin", label: t("Not logged in within") },
+              ]}
+            />
+            <Input
+              type="number"
+              label={t("Days")}
+              value={rule.value}
+              min={1}
+              onChange={(e) => updateRule(index, { value: e.target.value })}
+            />
+          </>
+        );
+      case "extension":
+        return (
+          <>
+            <Select
+              label={t("Extension")}
+              value={rule.extension}
+              onChange={(e) => updateRule(index, { extension: e.target.value })}
+              options={[
+                { value: "staking", label: t("Staking") },
+                { value: "ai_investment", label: t("AI Investment") },
+                { value: "forex", label: t("Forex") },
+                { value: "ico", label: t("ICO") },
+                { value: "ecommerce", label: t("Ecommerce") },
+                { value: "p2p", label: t("P2P") },
+                { value: "mlm", label: t("Affiliate") },
+              ]}
+            />
+            <Select
+              label={t("Condition")}
+              value={rule.operator}
+              onChange={(e) => updateRule(index, { operator: e.target.value })}
+              options={[
+                { value: "used", label: t("Has used") },
+                { value: "notUsed", label: t("Has never used") },
+              ]}
+            />
+          </>
+        );
+      case "emailVerified":
+        return (
+          <Select
+            label={t("Email")}
+            value={rule.value}
+            onChange={(e) => updateRule(index, { value: e.target.value })}
+            options={[
+              { value: "true", label: t("Verified") },
+              { value: "false", label: t("Not verified") },
+            ]}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-10">
+      <Card className="p-5 space-y-5">
+        <Input
+          name="name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          type="text"
+          label={t("Name")}
+          placeholder={t("Enter segment name")}
+          className="w-full"
+        />
+        <Textarea
+          name="description"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          label={t("Description")}
+          placeholder={t("Describe who this segment is for")}
+        />
+      </Card>
+      <Card className="p-5 space-y-5 text-muted-800 dark:text-muted-200">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-xl">{t("Rules")}</h3>
+            <p className="text-sm text-muted-500 dark:text-muted-400">
+              {t(
+                "Active users matching all rules at the time a campaign starts sending are included."
+              )}
+            </p>
+          </div>
+          <IconButton
+            type="button"
+            color="primary"
+            onClick={handleAddRule}
+            variant={"outlined"}
+          >
+            <Icon icon="mdi:plus" className="h-5 w-5" />
+          </IconButton>
+        </div>
+        {form.rules.map((rule, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-1 sm:grid-cols-12 gap-5 items-end"
+          >
+            <div className="col-span-1 sm:col-span-3">
+              <Select
+                label={t("Attribute")}
+                value={rule.field}
+                onChange={(e) => handleFieldChange(index, e.target.value)}
+                options={fields}
+              />
+            </div>
+            <div className="col-span-1 sm:col-span-8 grid grid-cols-1 sm:grid-cols-4 gap-5">
+              {renderRuleInputs(rule, index)}
+            </div>
+            <div className="col-span-1 sm:col-span-1 flex justify-end">
+              <IconButton
+                type="button"
+                color="danger"
+                onClick={() => handleRemoveRule(index)}
+              >
+                <Icon icon="mdi:trash-can" className="h-4 w-4" />
+              </IconButton>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center gap-4">
+          <Button
+            type="button"
+            color="muted"
+            onClick={handlePreview}
+            loading={isPreviewing}
+            disabled={isPreviewing || !form.rules.length}
+          >
+            {t("Count Matching Users")}
+          </Button>
+          {matchingUsers !== null && (
+            <span className="text-sm text-muted-500 dark:text-muted-400">
+              {matchingUsers} {t("users currently match this segment")}
+            </span>
+          )}
+        </div>
+      </Card>
+      <div className="flex items-center justify-center">
+        <Card className="p-2 w-64">
+          <Button
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            color="primary"
+            type="submit"
+            className="w-full"
+          >
+            {submitLabel}
+          </Button>
+        </Card>
+      </div>
+    </form>
+  );
+};
+
+export default SegmentForm;
@@ -42,6 +42,56 @@ const generalFields = [
     description: "Toggle the news section visibility on your application.",
     type: "switch",
   },
+  {
+    name: "adminSecurityKeyRequired",
+    label: "Require Security Key for Admins",
+    placeholder: "Enable or disable",
+    description:
+      "Only allow admin features in sessions opened with a passkey or security key.",
+    type: "switch",
+  },
+  {
+    name: "approvalWalletBalanceThreshold",
+    label: "Balance Adjustment Approval Threshold (USD)",
+    placeholder: "Leave empty to disable",
+    description:
+      "Wallet balance adjustments above this value wait for a second admin's approval.",
+    type: "number",
+    min: 0,
+  },
+  {
+    name: "approvalWithdrawalThreshold",
+    label: "Withdrawal Approval Threshold (USD)",
+    placeholder: "Leave empty to disable",
+    description:
+      "Withdrawals above this value wait for a second admin's approval.",
+    type: "number",
+    min: 0,
+  },
+  {
+    name: "approvalRoleChanges",
+    label: "Role Change Approval",
+    placeholder: "Enable or disable",
+    description:
+      "Role updates, deletions and permission changes wait for a second admin's approval.",
+    type: "switch",
+  },
+  {
+    name: "approvalMasterWalletOperations",
+    label: "Master Wallet Approval",
+    placeholder: "Enable or disable",
+    description:
+      "Master wallet changes and custodial wallet transfers wait for a second admin's approval.",
+    type: "switch",
+  },
+  {
+    name: "approvalExpiryHours",
+    label: "Approval Expiry (Hours)",
+    placeholder: "24",
+    description: "Pending approval requests expire after this many hours.",
+    type: "number",
+    min: 1,
+  },
 ];
 
 const blogFields = [
@@ -12,6 +12,14 @@ const p2pFields = [
     max: 100,
     step: 0.1,
   },
+  {
+    name: "p2pReleaseWindow",
+    label: "P2P Release Window (minutes)",
+    placeholder: "Minutes a seller has to release after payment",
+    type: "number",
+    min: 1,
+    step: 1,
+  },
 ];
 
 const P2PSection = ({
@@ -73,6 +73,18 @@ const walletFields = [
     max: 100,
     step: 0.1,
   },
+  {
+    name: "exchangeRoutingStrategy",
+    label: "Exchange Order Routing",
+    placeholder: "Select routing strategy",
+    description:
+      "How spot orders are routed when several exchange providers are active",
+    type: "select",
+    options: [
+      { label: "Provider Priority", value: "PRIORITY" },
+      { label: "Best Price", value: "BEST_PRICE" },
+    ],
+  },
 ];
 
 const WalletSection = ({
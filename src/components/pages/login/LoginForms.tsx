@@ -3,12 +3,13 @@ import Checkbox from "@/components/elements/form/checkbox/Checkbox";
 import Input from "@/components/elements/form/input/Input";
 import { Icon } from "@iconify/react";
 import Link from "next/link";
-import { memo, useState } from "react";
+import { memo, useEffect, useState } from "react";
 import { useTranslation } from "next-i18next";
 import { useLoginStore } from "@/stores/auth/login";
 import { useRouter } from "next/router";
 import { GoogleAuth } from "./GoogleAuth";
 import { GoogleOAuthProvider } from "@react-oauth/google";
+import { isWebAuthnSupported } from "@/utils/webauthn";
 
 const googleAuthStatus =
   process.env.NEXT_PUBLIC_GOOGLE_AUTH_STATUS === "true" || false;
@@ -23,10 +24,16 @@ const LoginFormsBase = () => {
     password,
     setPassword,
     handleSubmit,
+    handlePasskeyLogin,
     loading,
     errors,
   } = useLoginStore();
   const [showPassword, setShowPassword] = useState(false); // New state for password visibility
+  const [passkeySupported, setPasskeySupported] = useState(false);
+
+  useEffect(() => {
+    setPasskeySupported(isWebAuthnSupported());
+  }, []);
 
   const router = useRouter();
   return (
@@ -114,6 +121,20 @@ const LoginFormsBase = () => {
             {t("Sign in")}
           </Button>
         </div>
+        {passkeySupported && (
+          <div className="mt-4">
+            <Button
+              color="muted"
+              size="md"
+              className="w-full"
+              disabled={loading}
+              onClick={() => handlePasskeyLogin(router)}
+            >
+              <Icon icon="mdi:fingerprint" className="me-2 h-5 w-5" />
+              {t("Sign in with a passkey")}
+            </Button>
+          </div>
+        )}
       </div>
 
       <hr className="my-6 w-full border-muted-300 dark:border-muted-800" />
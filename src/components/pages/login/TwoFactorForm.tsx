@@ -13,12 +13,36 @@ const TwoFactorFormBase = () => {
     setOtp,
     twoFactorType,
     handle2FASubmit,
+    handlePasskey2FA,
     handleResendOtp,
     resendCooldown,
     loading,
   } = useLoginStore();
   const router = useRouter();
 
+  if (twoFactorType === "WEBAUTHN") {
+    return (
+      <div className="flex flex-col gap-4">
+        <p className="text-sm text-muted-500">
+          {t("Confirm your sign in with one of your passkeys")}
+        </p>
+        <Button
+          color="primary"
+          size="md"
+          className="w-full"
+          loading={loading}
+          disabled={loading}
+          onClick={() => {
+            handlePasskey2FA(router);
+          }}
+        >
+          <Icon icon="mdi:fingerprint" className="me-2 h-5 w-5" />
+          {t("Use Passkey")}
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div>
       <div className="flex flex-col gap-4">
@@ -1,4 +1,4 @@
-import { memo } from "react";
+import { memo, useEffect, useState } from "react";
 import ListWidgetItem from "@/components/widgets/ListWidgetItem";
 import IconBox from "@/components/elements/base/iconbox/IconBox";
 import { capitalize } from "lodash";
@@ -7,9 +7,36 @@ import { Icon } from "@iconify/react";
 import useP2PStore from "@/stores/user/p2p/trade";
 import { useTranslation } from "next-i18next";
 
+// Time left until a deadline as h:mm:ss, ticking every second
+const useTimeLeft = (deadline?: string | null) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (!deadline) return "";
+  const seconds = Math.max(
+    0,
+    Math.floor((new Date(deadline).getTime() - now) / 1000)
+  );
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 3600)}:${pad(
+    Math.floor((seconds % 3600) / 60)
+  )}:${pad(seconds % 60)}`;
+};
+
 const TradeInfoBase = () => {
   const { t } = useTranslation();
   const { trade, isSeller } = useP2PStore();
+  const paymentTimeLeft = useTimeLeft(
+    trade?.status === "PENDING" ? trade.paymentDeadline : null
+  );
+  const releaseTimeLeft = useTimeLeft(
+    trade?.status === "PAID" ? trade.releaseDeadline : null
+  );
 
   const disputeStatus = {
     PENDING: {
@@ -204,6 +231,54 @@ const TradeInfoBase = () => {
               text={`${capitalize(trade?.status) || "Loading..."}`}
               itemAction={<></>}
             />
+            {trade?.status === "PENDING" && trade.paymentDeadline && (
+              <ListWidgetItem
+                href="#"
+                avatarSize="xs"
+                avatar={
+                  <IconBox
+                    icon="ph:hourglass-duotone"
+                    className="h-8! w-8! rounded-lg! bg-warning-500/10"
+                    iconClasses="h-5! w-5! text-warning-500"
+                  />
+                }
+                title={t("Payment Due")}
+                text={paymentTimeLeft}
+                itemAction={<></>}
+              />
+            )}
+            {trade?.status === "PAID" && trade.releaseDeadline && (
+              <ListWidgetItem
+                href="#"
+                avatarSize="xs"
+                avatar={
+                  <IconBox
+                    icon="ph:hourglass-duotone"
+                    className="h-8! w-8! rounded-lg! bg-info-500/10"
+                    iconClasses="h-5! w-5! text-info-500"
+                  />
+                }
+                title={t("Release Due")}
+                text={releaseTimeLeft}
+                itemAction={<></>}
+              />
+            )}
+            {trade?.cancelReason === "PAYMENT_TIMEOUT" && (
+              <ListWidgetItem
+                href="#"
+                avatarSize="xs"
+                avatar={
+                  <IconBox
+                    icon="ph:warning-duotone"
+                    className="h-8! w-8! rounded-lg! bg-danger-500/10"
+                    iconClasses="h-5! w-5! text-danger-500"
+                  />
+                }
+                title={t("Cancelled")}
+                text={t("The payment window expired")}
+                itemAction={<></>}
+              />
+            )}
             <ListWidgetItem
               href="#"
               avatarSize="xs"
@@ -8,6 +8,7 @@ import ButtonLink from "@/components/elements/base/button-link/ButtonLink";
 import { useDashboardStore } from "@/stores/dashboard";
 import { useTranslation } from "next-i18next";
 import { debounce } from "lodash";
+import KycTierProgress from "./KycTierProgress";
 const statusClassMap = {
   APPROVED:
     "text-success-700 bg-success-100 border border-success-300 rounded-lg dark:bg-muted-900 dark:border-success-800 dark:text-success-400",
@@ -257,6 +258,7 @@ const IdentityVerification: React.FC = () => {
           </Card>
         </div>
       </div>
+      <KycTierProgress />
       <Faq category="KYC" />
     </>
   );
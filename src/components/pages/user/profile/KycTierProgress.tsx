@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Icon } from "@iconify/react";
+import { useTranslation } from "next-i18next";
+import Card from "@/components/elements/base/card/Card";
+import Progress from "@/components/elements/base/progress/Progress";
+import ButtonLink from "@/components/elements/base/button-link/ButtonLink";
+import $fetch from "@/utils/api";
+
+const formatUsd = (value: number) =>
+  `$${Number(value || 0).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })}`;
+
+const LimitRow = ({ label, used, limit }) => {
+  const { t } = useTranslation();
+  const unlimited = limit === null || limit === undefined;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-500 dark:text-muted-400">{label}</span>
+        <span>
+          {formatUsd(used)} / {unlimited ? t("Unlimited") : formatUsd(limit)}
+        </span>
+      </div>
+      <Progress
+        size="xs"
+        color={!unlimited && used >= limit ? "danger" : "primary"}
+        value={unlimited ? 0 : limit > 0 ? Math.min(used, limit) : 1}
+        max={unlimited ? 100 : limit > 0 ? limit : 1}
+      />
+    </div>
+  );
+};
+
+const KycTierProgress = () => {
+  const { t } = useTranslation();
+  const [data, setData] = useState<any>(null);
+
+  useEffect(() => {
+    const fetchTier = async () => {
+      const { data, error } = await $fetch({
+        url: "/api/user/kyc/tier",
+        silent: true,
+      });
+      if (!error) setData(data);
+    };
+    fetchTier();
+  }, []);
+
+  if (!data?.enforced) return null;
+
+  const { tier, nextTier, usage, progress, tiers } = data;
+  const features = [
+    { field: "p2pAccess", label: t("P2P Trading") },
+    { field: "futuresAccess", label: t("Futures Trading") },
+    { field: "icoAccess", label: t("ICO Contributions") },
+    { field: "fiatAccess", label: t("Fiat Deposits & Withdrawals") },
+  ];
+
+  return (
+    <Card
+      className="p-5 mt-5 space-y-5 text-muted-800 dark:text-muted-200"
+      color={"contrast"}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h4 className="text-lg">{t("Account Tier")}</h4>
+          <p className="text-sm text-muted-500 dark:text-muted-400">
+            {tier
+              ? `${tier.name} (${t("KYC level")} ${tier.level})`
+              : t("Verify your identity to unlock your first tier")}
+          </p>
+        </div>
+        {nextTier && (
+          <ButtonLink
+            href={`/user/profile/kyc?state=new&l=${nextTier.level}`}
+            color="primary"
+            size="sm"
+          >
+            {t("Upgrade to")} {nextTier.name}
+          </ButtonLink>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Progress value={progress} color="success" />
+        <div className="flex justify-between text-xs text-muted-500 dark:text-muted-400">
+          {tiers.map((item) => (
+            <span
+              key={item.id}
+              className={
+                tier && item.level <= tier.level
+                  ? "text-success-500 font-medium"
+                  : ""
+              }
+            >
+              {item.name}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+        <div className="space-y-3">
+          <LimitRow
+            label={t("Daily withdrawals")}
+            used={usage.withdraw.daily}
+            limit={tier ? tier.dailyWithdrawLimit : 0}
+          />
+          <LimitRow
+            label={t("Monthly withdrawals")}
+            used={usage.withdraw.monthly}
+            limit={tier ? tier.monthlyWithdrawLimit : 0}
+          />
+        </div>
+        <div className="space-y-3">
+          <LimitRow
+            label={t("Daily deposits")}
+            used={usage.deposit.daily}
+            limit={tier ? tier.dailyDepositLimit : 0}
+          />
+          <LimitRow
+            label={t("Monthly deposits")}
+            used={usage.deposit.monthly}
+            limit={tier ? tier.monthlyDepositLimit : 0}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4">
+        {features.map(({ field, label }) => {
+          const allowed = !!tier?.[field];
+          const unlockedBy = tiers.find(
+            (item) => item[field] && (!tier || item.level > tier.level)
+          );
+          return (
+            <div key={field} className="flex items-center gap-2 text-sm">
+              <Icon
+                icon={allowed ? "line-md:confirm" : "line-md:close"}
+                className={`h-4 w-4 ${
+                  allowed ? "text-success-500" : "text-muted-400"
+                }`}
+              />
+              <span>{label}</span>
+              {!allowed && unlockedBy && (
+                <span className="text-xs text-muted-500 dark:text-muted-400">
+                  ({t("from")} {unlockedBy.name})
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default KycTierProgress;
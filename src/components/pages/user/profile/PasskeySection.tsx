@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import Input from "@/components/elements/form/input/Input";
+import Button from "@/components/elements/base/button/Button";
+import Card from "@/components/elements/base/card/Card";
+import IconButton from "@/components/elements/base/button-icon/IconButton";
+import { Icon } from "@iconify/react";
+import { useTranslation } from "next-i18next";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import $fetch from "@/utils/api";
+import { createPasskey, isWebAuthnSupported } from "@/utils/webauthn";
+import { useDashboardStore } from "@/stores/dashboard";
+
+const twoFactorStatus = process.env.NEXT_PUBLIC_2FA_STATUS === "true" || false;
+
+const PasskeySection = () => {
+  const { t } = useTranslation();
+  const { profile, setIsFetched } = useDashboardStore() as any;
+  const [passkeys, setPasskeys] = useState<any[]>([]);
+  const [name, setName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [supported, setSupported] = useState(true);
+
+  const fetchPasskeys = async () => {
+    const { data, error } = await $fetch({
+      url: "/api/auth/webauthn",
+      silent: true,
+    });
+    if (!error) setPasskeys(data as any);
+  };
+
+  useEffect(() => {
+    setSupported(isWebAuthnSupported());
+    fetchPasskeys();
+  }, []);
+
+  const handleAddPasskey = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await $fetch({
+        url: "/api/auth/webauthn/register/options",
+        method: "POST",
+        silent: true,
+      });
+      if (error) throw new Error(error);
+
+      const credential = await createPasskey(data.options);
+      const { error: registerError } = await $fetch({
+        url: "/api/auth/webauthn/register",
+        method: "POST",
+        body: { challengeId: data.challengeId, credential, name },
+      });
+      if (!registerError) {
+        setName("");
+        await fetchPasskeys();
+      }
+    } catch (error) {
+      toast.error(t("Passkey registration was cancelled or failed"));
+    }
+    setIsLoading(false);
+  };
+
+  const handleDeletePasskey = async (id: string) => {
+    const { error } = await $fetch({
+      url: `/api/auth/webauthn/${id}`,
+      method: "DELETE",
+    });
+    if (!error) await fetchPasskeys();
+  };
+
+  const handleUseForTwoFactor = async () => {
+    setIsLoading(true);
+    const { error } = await $fetch({
+      url: "/api/auth/otp/save",
+      method: "POST",
+      body: { type: "WEBAUTHN" },
+    });
+    if (!error) setIsFetched(false);
+    setIsLoading(false);
+  };
+
+  const usesPasskeyTwoFactor =
+    profile?.twoFactor?.type === "WEBAUTHN" && profile?.twoFactor?.enabled;
+
+  return (
+    <div className="grid w-full grid-cols-12 gap-6">
+      <div className="col-span-12 lg:col-span-4 ltablet:col-span-4">
+        <div className="mt-4 space-y-2">
+          <h3 className="text-lg font-medium tracking-wide text-muted-800 dark:text-muted-100">
+            {t("Passkeys")}
+          </h3>
+          <p className="max-w-xs text-sm text-muted-400">
+            {t(
+              "Sign in without a password and confirm sensitive actions with your device's screen lock or a hardware security key."
+            )}
+          </p>
+        </div>
+      </div>
+      <div className="col-span-12 lg:col-span-7 ltablet:col-span-7">
+        <div className="lg:max-w-xl flex flex-col gap-4">
+          {!supported && (
+            <p className="text-sm text-red-500 dark:text-red-400">
+              {t("This browser does not support passkeys")}
+            </p>
+          )}
+          {passkeys.map((passkey) => (
+            <Card
+              key={passkey.id}
+              shape="smooth"
+              color="contrast"
+              className="p-4 flex items-center justify-between"
+            >
+              <div className="flex items-center gap-3">
+                <Icon
+                  icon={
+                    passkey.backedUp ? "mdi:cloud-key" : "mdi:usb-flash-drive"
+                  }
+                  className="h-6 w-6 text-muted-400"
+                />
+                <div>
+                  <h4 className="text-sm font-medium text-muted-800 dark:text-muted-100">
+                    {passkey.name || t("Passkey")}
+                  </h4>
+                  <p className="text-xs text-muted-500 dark:text-muted-400">
+                    {passkey.lastUsedAt
+                      ? `${t("Last used")} ${format(
+                          new Date(passkey.lastUsedAt),
+                          "yyyy-MM-dd HH:mm"
+                        )}`
+                      : t("Never used")}
+                  </p>
+                </div>
+              </div>
+              <IconButton
+                type="button"
+                color="danger"
+                variant="outlined"
+                size="sm"
+                onClick={() => handleDeletePasskey(passkey.id)}
+              >
+                <Icon icon="mdi:delete" className="w-4 h-4" />
+              </IconButton>
+            </Card>
+          ))}
+          <Input
+            label={t("Passkey Name")}
+            placeholder={t("Ex: My Laptop")}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              color="primary"
+              loading={isLoading}
+              disabled={isLoading || !supported}
+              onClick={handleAddPasskey}
+            >
+              {t("Add Passkey")}
+            </Button>
+            {twoFactorStatus && passkeys.length > 0 && (
+              <Button
+                color="success"
+                variant="outlined"
+                disabled={isLoading || usesPasskeyTwoFactor}
+                onClick={handleUseForTwoFactor}
+              >
+                {usesPasskeyTwoFactor
+                  ? t("Used for 2FA")
+                  : t("Use Passkeys for 2FA")}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PasskeySection;
@@ -16,6 +16,7 @@ export const adminMenu: IMenu[] = [
       "Access Permission Management",
       "Access KYC Management",
       "Access KYC Template Management",
+      "Access KYC Tier Management",
       "Access Support Ticket Management",
     ],
     menu: [
@@ -65,6 +66,12 @@ export const adminMenu: IMenu[] = [
             permission: ["Access KYC Template Management"],
             icon: "fluent-mdl2:chart-template",
           },
+          {
+            title: "Tiers",
+            href: "/admin/crm/kyc/tier",
+            permission: ["Access KYC Tier Management"],
+            icon: "ph:stairs-duotone",
+          },
         ],
       },
       {
@@ -730,6 +737,20 @@ export const adminMenu: IMenu[] = [
             permission: ["Access Mailwizard Campaign Management"],
             icon: "ph:megaphone-duotone",
           },
+          // segment
+          {
+            title: "Segments",
+            href: "/admin/ext/mailwizard/segment",
+            permission: ["Access Mailwizard Campaign Management"],
+            icon: "ph:users-four-duotone",
+          },
+          // suppression
+          {
+            title: "Suppression List",
+            href: "/admin/ext/mailwizard/suppression",
+            permission: ["Access Mailwizard Campaign Management"],
+            icon: "ph:prohibit-duotone",
+          },
           // template
           {
             title: "Templates",
@@ -921,6 +942,8 @@ export const adminMenu: IMenu[] = [
     icon: "mdi:cog",
     permission: [
       "Access Announcement Management",
+      "Access Approval Management",
+      "Access Audit Trail Management",
       "Access Cron Job Management",
       "Access Database Backup Management",
       "Access Database Migration Management",
@@ -972,6 +995,20 @@ export const adminMenu: IMenu[] = [
         icon: "ph:note-duotone",
         permission: ["Access Log Monitor"],
       },
+      // approval
+      {
+        title: "Approvals",
+        href: "/admin/system/approval",
+        icon: "ph:users-three-duotone",
+        permission: ["Access Approval Management"],
+      },
+      // audit
+      {
+        title: "Audit Trail",
+        href: "/admin/system/audit",
+        icon: "ph:fingerprint-duotone",
+        permission: ["Access Audit Trail Management"],
+      },
       // cron
       {
         title: "Cron Jobs",
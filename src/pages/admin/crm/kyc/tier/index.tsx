@@ -0,0 +1,91 @@
+"use client";
+import React from "react";
+import Layout from "@/layouts/Default";
+import { DataTable } from "@/components/elements/base/datatable";
+import { useTranslation } from "next-i18next";
+const api = "/api/admin/crm/kyc/tier";
+const formatLimit = (value) =>
+  value === null || value === undefined
+    ? "Unlimited"
+    : `$${Number(value).toLocaleString()}`;
+const columnConfig: ColumnConfigType[] = [
+  {
+    field: "name",
+    label: "Tier",
+    type: "text",
+    sortable: true,
+  },
+  {
+    field: "level",
+    label: "KYC Level",
+    type: "number",
+    sortable: true,
+  },
+  {
+    field: "dailyWithdrawLimit",
+    label: "Daily Withdrawal",
+    type: "number",
+    sortable: true,
+    getValue: (row) => formatLimit(row.dailyWithdrawLimit),
+  },
+  {
+    field: "monthlyWithdrawLimit",
+    label: "Monthly Withdrawal",
+    type: "number",
+    sortable: true,
+    getValue: (row) => formatLimit(row.monthlyWithdrawLimit),
+  },
+  {
+    field: "dailyDepositLimit",
+    label: "Daily Deposit",
+    type: "number",
+    sortable: true,
+    getValue: (row) => formatLimit(row.dailyDepositLimit),
+  },
+  {
+    field: "monthlyDepositLimit",
+    label: "Monthly Deposit",
+    type: "number",
+    sortable: true,
+    getValue: (row) => formatLimit(row.monthlyDepositLimit),
+  },
+  {
+    field: "access",
+    label: "Access",
+    type: "text",
+    sortable: false,
+    filterable: false,
+    getValue: (row) =>
+      [
+        row.p2pAccess && "P2P",
+        row.futuresAccess && "Futures",
+        row.icoAccess && "ICO",
+        row.fiatAccess && "Fiat",
+      ]
+        .filter(Boolean)
+        .join(", ") || "None",
+  },
+  {
+    field: "status",
+    label: "Status",
+    type: "switch",
+    sortable: false,
+    api: `${api}/:id/status`,
+  },
+];
+const KycTiers = () => {
+  const { t } = useTranslation();
+  return (
+    <Layout title={t("KYC Tiers")} color="muted">
+      <DataTable
+        title={t("KYC Tiers")}
+        endpoint={api}
+        columnConfig={columnConfig}
+        canView={false}
+        isParanoid={false}
+      />
+    </Layout>
+  );
+};
+export default KycTiers;
+export const permission = "Access KYC Tier Management";
@@ -25,6 +25,9 @@ const CampaignStatus = {
   COMPLETED: "success",
   CANCELLED: "danger",
   STOPPED: "danger",
+  SENT: "success",
+  FAILED: "danger",
+  SKIPPED: "muted",
 };
 const statusText = (status) => {
   const texts = {
@@ -34,6 +37,9 @@ const statusText = (status) => {
     COMPLETED: "Completed",
     CANCELLED: "Canceled",
     STOPPED: "Stopped",
+    SENT: "Sent",
+    FAILED: "Failed",
+    SKIPPED: "Skipped",
   };
   return texts[status] || "Pending";
 };
@@ -75,11 +81,25 @@ const targetsColumnConfig: ColumnConfigType[] = [
     ),
   },
 ];
+const CampaignStat = ({ label, value, rate }: any) => (
+  <div className="flex flex-col gap-1">
+    <span className="text-sm text-muted-500 dark:text-muted-400">{label}</span>
+    <span className="text-xl font-semibold text-muted-800 dark:text-muted-100">
+      {value}
+      {rate !== undefined && (
+        <span className="ms-2 text-sm font-normal text-muted-500 dark:text-muted-400">
+          {rate}%
+        </span>
+      )}
+    </span>
+  </div>
+);
 const CampaignDetails = () => {
   const { t } = useTranslation();
   const router = useRouter();
   const { id } = router.query;
   const [campaign, setCampaign] = useState<any>(null);
+  const [stats, setStats] = useState<any>(null);
   const [items, setItems] = useState<Target[]>([]);
   const [open, setOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -112,9 +132,19 @@ const CampaignDetails = () => {
       }
     }
   };
+  const fetchStats = async () => {
+    const { data, error } = await $fetch({
+      url: `/api/admin/ext/mailwizard/campaign/${id}/stats`,
+      silent: true,
+    });
+    if (!error) {
+      setStats(data);
+    }
+  };
   useEffect(() => {
     if (id) {
       fetchCampaign();
+      fetchStats();
     }
   }, [id]);
   const updateCampaignStatus = async (status) => {
@@ -125,6 +155,7 @@ const CampaignDetails = () => {
     });
     if (!error) {
       await fetchCampaign();
+      await fetchStats();
     }
   };
   const handleUpdateStatus = (status) => {
@@ -375,6 +406,18 @@ const CampaignDetails = () => {
               label={t("Template")}
               value={campaign.template.name}
             />
+            <InfoBlock
+              icon="bx:bx-group"
+              label={t("Segment")}
+              value={campaign.segment?.name || t("None")}
+            />
+            {campaign.subjectVariants && (
+              <InfoBlock
+                icon="bx:bx-git-branch"
+                label={t("Subject Variants")}
+                value={campaign.subjectVariants.split("\n").join(", ")}
+              />
+            )}
             <InfoBlock
               icon="bx:bx-info-circle"
               label={t("Status")}
@@ -393,6 +436,80 @@ const CampaignDetails = () => {
         </div>
 
         <div className="col-span-1 md:col-span-2 lg:col-span-3">
+          {stats && (
+            <Card className="p-5 mb-5 space-y-5">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-medium text-muted-800 dark:text-muted-100">
+                  {t("Campaign Stats")}
+                </h3>
+                <IconButton size="sm" shape="full" onClick={fetchStats}>
+                  <Icon icon="mdi:refresh" className="h-4 w-4" />
+                </IconButton>
+              </div>
+              <div className="grid grid-cols-2 gap-5 sm:grid-cols-4">
+                <CampaignStat
+                  label={t("Recipients")}
+                  value={stats.recipients}
+                />
+                <CampaignStat label={t("Pending")} value={stats.pending} />
+                <CampaignStat label={t("Sent")} value={stats.sent} />
+                <CampaignStat
+                  label={t("Failed / Skipped")}
+                  value={`${stats.failed} / ${stats.skipped}`}
+                />
+                <CampaignStat
+                  label={t("Opened")}
+                  value={stats.opened}
+                  rate={stats.openRate}
+                />
+                <CampaignStat
+                  label={t("Clicked")}
+                  value={stats.clicked}
+                  rate={stats.clickRate}
+                />
+                <CampaignStat
+                  label={t("Unsubscribed")}
+                  value={stats.unsubscribed}
+                  rate={stats.unsubscribeRate}
+                />
+                <CampaignStat
+                  label={t("Total Opens / Clicks")}
+                  value={`${stats.opens} / ${stats.clicks}`}
+                />
+              </div>
+              {stats.variants.length > 1 && (
+                <table className="w-full text-sm text-start text-muted-700 dark:text-muted-200">
+                  <thead>
+                    <tr className="border-b border-muted-200 dark:border-muted-800 text-muted-500 dark:text-muted-400">
+                      <th className="py-2 text-start">{t("Subject")}</th>
+                      <th className="py-2 text-end">{t("Sent")}</th>
+                      <th className="py-2 text-end">{t("Open Rate")}</th>
+                      <th className="py-2 text-end">{t("Click Rate")}</th>
+                      <th className="py-2 text-end">{t("Unsubscribe Rate")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.variants.map((variant) => (
+                      <tr
+                        key={variant.variant}
+                        className="border-b border-muted-200 dark:border-muted-800 last:border-0"
+                      >
+                        <td className="py-2">
+                          {variant.subject || t("Removed variant")}
+                        </td>
+                        <td className="py-2 text-end">{variant.sent}</td>
+                        <td className="py-2 text-end">{variant.openRate}%</td>
+                        <td className="py-2 text-end">{variant.clickRate}%</td>
+                        <td className="py-2 text-end">
+                          {variant.unsubscribeRate}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </Card>
+          )}
           <ObjectTable
             title={t("Targets")}
             items={items}
@@ -18,6 +18,13 @@ const columnConfig: ColumnConfigType[] = [
     sortable: false,
     getValue: (row) => row.template?.name,
   },
+  {
+    field: "segment.name",
+    label: "Segment",
+    type: "text",
+    sortable: false,
+    getValue: (row) => row.segment?.name,
+  },
   {
     field: "speed",
     label: "Speed",
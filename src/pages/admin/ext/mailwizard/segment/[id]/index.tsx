@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Layout from "@/layouts/Default";
+import { BackButton } from "@/components/elements/base/button/BackButton";
+import SegmentForm, {
+  SegmentFormValues,
+  toFormRules,
+} from "@/components/pages/admin/mailwizard/SegmentForm";
+import $fetch from "@/utils/api";
+import { useTranslation } from "next-i18next";
+const EditMailwizardSegment = () => {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { id } = router.query;
+  const [segment, setSegment] = useState<SegmentFormValues | null>(null);
+  useEffect(() => {
+    if (!router.isReady || !id) return;
+    const fetchSegment = async () => {
+      const { data, error } = await $fetch({
+        url: `/api/admin/ext/mailwizard/segment/${id}`,
+        silent: true,
+      });
+      if (!error) {
+        setSegment({
+          name: data.name,
+          description: data.description || "",
+          rules: toFormRules(data.rules),
+        });
+      }
+    };
+    fetchSegment();
+  }, [router.isReady, id]);
+  const handleSubmit = async (values: SegmentFormValues) => {
+    const { error } = await $fetch({
+      url: `/api/admin/ext/mailwizard/segment/${id}`,
+      method: "PUT",
+      body: values,
+    });
+    if (!error) {
+      router.push("/admin/ext/mailwizard/segment");
+    }
+  };
+  return (
+    <Layout title={t("Edit Segment")} color="muted">
+      <div className="flex justify-between items-center w-full mb-5">
+        <h1 className="text-xl text-muted-800 dark:text-muted-200">
+          {t("Edit Segment")}
+        </h1>
+        <BackButton href="/admin/ext/mailwizard/segment" />
+      </div>
+      {segment && (
+        <SegmentForm
+          initialValues={segment}
+          submitLabel={t("Update")}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </Layout>
+  );
+};
+export default EditMailwizardSegment;
+export const permission = "Access Mailwizard Campaign Management";
@@ -0,0 +1,43 @@
+import { useRouter } from "next/router";
+import Layout from "@/layouts/Default";
+import { BackButton } from "@/components/elements/base/button/BackButton";
+import SegmentForm, {
+  SegmentFormValues,
+} from "@/components/pages/admin/mailwizard/SegmentForm";
+import $fetch from "@/utils/api";
+import { useTranslation } from "next-i18next";
+const CreateMailwizardSegment = () => {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const handleSubmit = async (values: SegmentFormValues) => {
+    const { error } = await $fetch({
+      url: "/api/admin/ext/mailwizard/segment",
+      method: "POST",
+      body: values,
+    });
+    if (!error) {
+      router.push("/admin/ext/mailwizard/segment");
+    }
+  };
+  return (
+    <Layout title={t("Create Segment")} color="muted">
+      <div className="flex justify-between items-center w-full mb-5">
+        <h1 className="text-xl text-muted-800 dark:text-muted-200">
+          {t("Create Segment")}
+        </h1>
+        <BackButton href="/admin/ext/mailwizard/segment" />
+      </div>
+      <SegmentForm
+        initialValues={{
+          name: "",
+          description: "",
+          rules: [{ field: "kycLevel", operator: "gte", value: "1" }],
+        }}
+        submitLabel={t("Create")}
+        onSubmit={handleSubmit}
+      />
+    </Layout>
+  );
+};
+export default CreateMailwizardSegment;
+export const permission = "Access Mailwizard Campaign Management";
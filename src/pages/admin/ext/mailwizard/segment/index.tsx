@@ -0,0 +1,70 @@
+"use client";
+import React from "react";
+import Layout from "@/layouts/Default";
+import { DataTable } from "@/components/elements/base/datatable";
+import { useTranslation } from "next-i18next";
+import IconBox from "@/components/elements/base/iconbox/IconBox";
+import Link from "next/link";
+const api = "/api/admin/ext/mailwizard/segment";
+const columnConfig: ColumnConfigType[] = [
+  {
+    field: "name",
+    label: "Segment",
+    type: "text",
+    sortable: true,
+  },
+  {
+    field: "description",
+    label: "Description",
+    type: "text",
+    sortable: false,
+  },
+  {
+    field: "rules",
+    label: "Rules",
+    type: "number",
+    sortable: false,
+    filterable: false,
+    getValue: (row) => row.rules?.length || 0,
+  },
+  {
+    field: "createdAt",
+    label: "Created",
+    type: "date",
+    sortable: true,
+    filterable: false,
+    getValue: (item) =>
+      item.createdAt ? new Date(item.createdAt).toLocaleString() : "N/A",
+  },
+];
+const MailwizardSegments = () => {
+  const { t } = useTranslation();
+  return (
+    <Layout title={t("Mailwizard Segments")} color="muted">
+      <DataTable
+        title={t("Mailwizard Segments")}
+        endpoint={api}
+        columnConfig={columnConfig}
+        hasStructure={false}
+        canCreate={false}
+        canView={false}
+        editPath="/admin/ext/mailwizard/segment/[id]"
+        navSlot={
+          <>
+            <Link href="/admin/ext/mailwizard/segment/create">
+              <IconBox
+                variant={"pastel"}
+                icon={"mdi:plus"}
+                color={"success"}
+                shape="rounded-sm"
+                className="cursor-pointer"
+              />
+            </Link>
+          </>
+        }
+      />
+    </Layout>
+  );
+};
+export default MailwizardSegments;
+export const permission = "Access Mailwizard Campaign Management";
@@ -0,0 +1,52 @@
+"use client";
+import React from "react";
+import Layout from "@/layouts/Default";
+import { DataTable } from "@/components/elements/base/datatable";
+import { useTranslation } from "next-i18next";
+const api = "/api/admin/ext/mailwizard/suppression";
+const columnConfig: ColumnConfigType[] = [
+  {
+    field: "email",
+    label: "Email",
+    type: "text",
+    sortable: true,
+  },
+  {
+    field: "reason",
+    label: "Reason",
+    type: "select",
+    options: [
+      { value: "UNSUBSCRIBED", label: "Unsubscribed", color: "warning" },
+      { value: "BOUNCED", label: "Bounced", color: "danger" },
+      { value: "COMPLAINED", label: "Complained", color: "danger" },
+      { value: "MANUAL", label: "Manual", color: "muted" },
+    ],
+    sortable: true,
+  },
+  {
+    field: "createdAt",
+    label: "Suppressed",
+    type: "date",
+    sortable: true,
+    filterable: false,
+    getValue: (item) =>
+      item.createdAt ? new Date(item.createdAt).toLocaleString() : "N/A",
+  },
+];
+const MailwizardSuppressions = () => {
+  const { t } = useTranslation();
+  return (
+    <Layout title={t("Mailwizard Suppression List")} color="muted">
+      <DataTable
+        title={t("Suppression List")}
+        endpoint={api}
+        columnConfig={columnConfig}
+        canEdit={false}
+        canView={false}
+        isParanoid={false}
+      />
+    </Layout>
+  );
+};
+export default MailwizardSuppressions;
+export const permission = "Access Mailwizard Campaign Management";
@@ -1,10 +1,62 @@
 "use client";
-import React from "react";
+import React, { useState } from "react";
 import Layout from "@/layouts/Default";
 import { DataTable } from "@/components/elements/base/datatable";
 import { useTranslation } from "next-i18next";
 import Alert from "@/components/elements/base/alert/Alert";
+import Input from "@/components/elements/form/input/Input";
+import Tag from "@/components/elements/base/tag/Tag";
+import $fetch from "@/utils/api";
 const api = "/api/admin/finance/exchange/provider";
+const PriorityInput = ({ item }: { item: any }) => {
+  const [priority, setPriority] = useState(String(item.priority ?? 0));
+  const savePriority = async () => {
+    if (Number(priority) === item.priority) return;
+    const { error } = await $fetch({
+      url: `${api}/${item.id}/priority`,
+      method: "PUT",
+      body: { priority: Number(priority) },
+    });
+    if (error) setPriority(String(item.priority ?? 0));
+    else item.priority = Number(priority);
+  };
+  return (
+    <div className="w-20">
+      <Input
+        type="number"
+        size="sm"
+        step={1}
+        value={priority}
+        onChange={(e) => setPriority(e.target.value)}
+        onBlur={savePriority}
+      />
+    </div>
+  );
+};
+const HealthTag = ({ item }: { item: any }) => {
+  const { t } = useTranslation();
+  const health = item.health;
+  if (!item.status || !health) return null;
+  const label = health.bannedUntil
+    ? t("Banned")
+    : !health.available
+      ? t("Cooling Down")
+      : health.failures > 0
+        ? `${t("Degraded")} (${health.failures})`
+        : t("Healthy");
+  const color = !health.available
+    ? "danger"
+    : health.failures > 0
+      ? "warning"
+      : "success";
+  return (
+    <span title={health.lastError || undefined}>
+      <Tag variant="pastel" shape="smooth" color={color}>
+        {label}
+      </Tag>
+    </span>
+  );
+};
 const columnConfig: ColumnConfigType[] = [
   {
     field: "name",
@@ -18,6 +70,20 @@ const columnConfig: ColumnConfigType[] = [
     type: "text",
     sortable: true,
   },
+  {
+    field: "priority",
+    label: "Priority",
+    type: "number",
+    sortable: true,
+    getValue: (item) => <PriorityInput key={item.id} item={item} />,
+  },
+  {
+    field: "health",
+    label: "Health",
+    type: "text",
+    sortable: false,
+    getValue: (item) => <HealthTag item={item} />,
+  },
   {
     field: "status",
     label: "Status",
@@ -40,7 +106,6 @@ const Exchanges = () => {
         isParanoid={false}
         viewPath="/admin/finance/exchange/provider/[productId]"
         hasStructure={false}
-        onlySingleActiveStatus={true}
       />
       <div className="mt-8">
         <Alert
@@ -51,6 +116,10 @@ const Exchanges = () => {
                 "After activating an exchange for the first time or changing the active exchange, you have to import markets and currencies again."
               )}
               <br />
+              {t(
+                "Several exchanges can be active at once. Orders are routed by priority, lowest first, or by best price depending on the exchange order routing setting of the wallet settings, and fail over to the next exchange when one is unavailable."
+              )}
+              <br />
               {t(
                 "You need to view the exchange to check its status, credentials, and connection status."
               )}
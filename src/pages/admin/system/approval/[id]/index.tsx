@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Layout from "@/layouts/Default";
+import Card from "@/components/elements/base/card/Card";
+import { useTranslation } from "next-i18next";
+import { BackButton } from "@/components/elements/base/button/BackButton";
+import Button from "@/components/elements/base/button/Button";
+import Tag from "@/components/elements/base/tag/Tag";
+import Textarea from "@/components/elements/form/textarea/Textarea";
+import $fetch from "@/utils/api";
+import { debounce } from "lodash";
+import { formatDate } from "date-fns";
+import { useDashboardStore } from "@/stores/dashboard";
+
+type ApprovalUser = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  avatar?: string;
+};
+
+type ApprovalRequest = {
+  id: string;
+  type: string;
+  action: string;
+  summary: string;
+  payload: Record<string, any>;
+  valueUsd?: number;
+  status: string;
+  requestedById: string;
+  reviewedAt?: string;
+  expiresAt: string;
+  result?: Record<string, any>;
+  error?: string;
+  createdAt: string;
+  requestedBy?: ApprovalUser;
+  reviewedBy?: ApprovalUser;
+  comments: {
+    id: string;
+    userId: string;
+    message: string;
+    createdAt: string;
+    user?: ApprovalUser;
+  }[];
+};
+
+const api = "/api/admin/system/approval";
+
+const DetailItem = ({ label, value }) => (
+  <div className="text-sm">
+    <span className="text-gray-500 dark:text-gray-400">{label}:</span>{" "}
+    <span className="text-gray-800 dark:text-gray-200">{value || "-"}</span>
+  </div>
+);
+
+const statusClass = (status: string) => {
+  switch (status) {
+    case "APPROVED":
+      return "success";
+    case "PENDING":
+      return "warning";
+    case "REJECTED":
+    case "FAILED":
+      return "danger";
+    default:
+      return "muted";
+  }
+};
+
+const userName = (user?: ApprovalUser) =>
+  user ? `${user.firstName} ${user.lastName}` : null;
+
+const formatDateTime = (date?: string) =>
+  date ? formatDate(new Date(date), "MMM dd, yyyy HH:mm") : null;
+
+const ApprovalRequestDetails = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { id } = router.query;
+  const { profile } = useDashboardStore();
+  const [request, setRequest] = useState<ApprovalRequest | null>(null);
+  const [comment, setComment] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const getRequest = async () => {
+    setIsLoading(true);
+    const { data, error } = await $fetch({
+      url: `${api}/${id}`,
+      silent: true,
+    });
+    if (!error) {
+      setRequest(data);
+    }
+    setIsLoading(false);
+  };
+  const debounceGetRequest = debounce(getRequest, 100);
+  useEffect(() => {
+    if (router.isReady) {
+      debounceGetRequest();
+    }
+  }, [router.isReady]);
+
+  // Approve, reject and cancel share the comment box, which is sent along
+  // with the decision
+  const submit = async (operation: string, body?: Record<string, any>) => {
+    setIsLoading(true);
+    const { error } = await $fetch({
+      url: `${api}/${id}/${operation}`,
+      method: "POST",
+      body: body || { comment },
+    });
+    setIsLoading(false);
+    if (!error) {
+      setComment("");
+      getRequest();
+    }
+  };
+
+  const isPending = request?.status === "PENDING";
+  const isRequester = request?.requestedById === profile?.id;
+
+  return (
+    <Layout title={t("Approval Request")} color="muted">
+      <div className="mx-auto text-gray-800 dark:text-gray-200 max-w-7xl">
+        <div className="flex justify-between items-center w-full mb-5">
+          <h1 className="text-xl">{t("Approval Request")}</h1>
+          <BackButton href="/admin/system/approval" />
+        </div>
+
+        {request && (
+          <div className="flex flex-col gap-5">
+            <Card className="p-5 border rounded-md dark:border-gray-600">
+              <div className="flex items-center justify-between mb-5">
+                <h2 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">
+                  {request.summary}
+                </h2>
+                <div className="flex items-center xs:flex-col sm:flex-row gap-2">
+                  <Tag color="info">{request.type}</Tag>
+                  <Tag color={statusClass(request.status)}>
+                    {request.status}
+                  </Tag>
+                </div>
+              </div>
+              <div className="grid gap-2 xs:grid-cols-1 sm:grid-cols-2">
+                <DetailItem
+                  label={t("Requested By")}
+                  value={userName(request.requestedBy)}
+                />
+                <DetailItem
+                  label={t("Requested At")}
+                  value={formatDateTime(request.createdAt)}
+                />
+                <DetailItem
+                  label={t("Value (USD)")}
+                  value={
+                    request.valueUsd !== null && request.valueUsd !== undefined
+                      ? request.valueUsd.toFixed(2)
+                      : null
+                  }
+                />
+                <DetailItem
+                  label={t("Expires At")}
+                  value={formatDateTime(request.expiresAt)}
+                />
+                <DetailItem
+                  label={t("Reviewed By")}
+                  value={userName(request.reviewedBy)}
+                />
+                <DetailItem
+                  label={t("Reviewed At")}
+                  value={formatDateTime(request.reviewedAt)}
+                />
+              </div>
+            </Card>
+
+            <Card className="p-5 border rounded-md dark:border-gray-600">
+              <h3 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">
+                {t("Details")}:
+              </h3>
+              <pre className="text-sm whitespace-pre-wrap break-all">
+                {JSON.stringify(request.payload, null, 2)}
+              </pre>
+              {request.error && (
+                <p className="text-sm mt-3 text-danger-500">{request.error}</p>
+              )}
+            </Card>
+
+            <Card className="p-5 border rounded-md dark:border-gray-600">
+              <h3 className="text-lg font-semibold mb-2 text-gray-800 dark:text-gray-200">
+                {t("Comments")}:
+              </h3>
+              <div className="flex flex-col gap-3 mb-5">
+                {request.comments.length === 0 && (
+                  <p className="text-sm text-muted-400">
+                    {t("No comments yet")}
+                  </p>
+                )}
+                {request.comments.map((item) => (
+                  <div key={item.id} className="text-sm">
+                    <p className="text-xs text-muted-400">
+                      {userName(item.user) || item.userId} -{" "}
+                      {formatDateTime(item.createdAt)}
+                    </p>
+                    <p className="whitespace-pre-wrap">{item.message}</p>
+                  </div>
+                ))}
+              </div>
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                placeholder={t("Add a comment")}
+                className="w-full p-2 border rounded-md"
+              />
+              <div className="flex gap-2 xs:flex-col sm:flex-row justify-end mt-3">
+                <Button
+                  color="muted"
+                  onClick={() => submit("comment", { message: comment })}
+                  disabled={isLoading || !comment.trim()}
+                  loading={isLoading}
+                >
+                  {t("Comment")}
+                </Button>
+                {isPending && isRequester && (
+                  <Button
+                    color="danger"
+                    onClick={() => submit("cancel")}
+                    disabled={isLoading}
+                    loading={isLoading}
+                  >
+                    {t("Cancel Request")}
+                  </Button>
+                )}
+                {isPending && !isRequester && (
+                  <>
+                    <Button
+                      color="danger"
+                      onClick={() => submit("reject")}
+                      disabled={isLoading}
+                      loading={isLoading}
+                    >
+                      {t("Reject")}
+                    </Button>
+                    <Button
+                      color="success"
+                      onClick={() => submit("approve")}
+                      disabled={isLoading}
+                      loading={isLoading}
+                    >
+                      {t("Approve")}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </Card>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+export default ApprovalRequestDetails;
+export const permission = "Access Approval Management";
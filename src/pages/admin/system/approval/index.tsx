@@ -0,0 +1,90 @@
+"use client";
+import React from "react";
+import Layout from "@/layouts/Default";
+import { DataTable } from "@/components/elements/base/datatable";
+import { useTranslation } from "next-i18next";
+const api = "/api/admin/system/approval";
+
+const columnConfig: ColumnConfigType[] = [
+  {
+    field: "requestedBy",
+    label: "Requested By",
+    sublabel: "requestedBy.email",
+    type: "text",
+    getValue: (item) =>
+      item.requestedBy
+        ? `${item.requestedBy.firstName} ${item.requestedBy.lastName}`
+        : item.requestedById,
+    getSubValue: (item) => item.requestedBy?.email,
+    path: "/admin/crm/user?email=[requestedBy.email]",
+    sortable: true,
+    sortName: "requestedBy.firstName",
+    hasImage: true,
+    imageKey: "requestedBy.avatar",
+    placeholder: "/img/avatars/placeholder.webp",
+    className: "rounded-full",
+  },
+  {
+    field: "summary",
+    label: "Action",
+    sublabel: "type",
+    type: "text",
+    sortable: false,
+  },
+  {
+    field: "valueUsd",
+    label: "Value (USD)",
+    type: "number",
+    sortable: true,
+    filterable: false,
+  },
+  {
+    field: "status",
+    label: "Status",
+    type: "select",
+    sortable: true,
+    options: [
+      { value: "PENDING", label: "Pending", color: "warning" },
+      { value: "APPROVED", label: "Approved", color: "success" },
+      { value: "REJECTED", label: "Rejected", color: "danger" },
+      { value: "CANCELLED", label: "Cancelled", color: "muted" },
+      { value: "EXPIRED", label: "Expired", color: "muted" },
+      { value: "FAILED", label: "Failed", color: "danger" },
+    ],
+    placeholder: "Select status",
+  },
+  {
+    field: "expiresAt",
+    label: "Expires",
+    type: "datetime",
+    sortable: true,
+    filterable: false,
+  },
+  {
+    field: "createdAt",
+    label: "Requested",
+    type: "datetime",
+    sortable: true,
+    filterable: false,
+  },
+];
+const Approvals = () => {
+  const { t } = useTranslation();
+  return (
+    <Layout title={t("Approvals")} color="muted">
+      <DataTable
+        title={t("Approvals")}
+        endpoint={api}
+        columnConfig={columnConfig}
+        isParanoid={false}
+        canCreate={false}
+        canEdit={false}
+        canDelete={false}
+        hasStructure={false}
+        viewPath="/admin/system/approval/[id]"
+      />
+    </Layout>
+  );
+};
+export default Approvals;
+export const permission = "Access Approval Management";
@@ -0,0 +1,187 @@
+"use client";
+import React, { useState } from "react";
+import Layout from "@/layouts/Default";
+import { DataTable } from "@/components/elements/base/datatable";
+import { useTranslation } from "next-i18next";
+import $fetch from "@/utils/api";
+import Button from "@/components/elements/base/button/Button";
+import { Icon } from "@iconify/react";
+import { toast } from "sonner";
+const api = "/api/admin/system/audit";
+
+// Lists the rows a request changed as "model ACTION", most changed first
+const summarizeChanges = (changes: AuditChange[] = []) => {
+  const counts = changes.reduce(
+    (acc, change) => {
+      const key = `${change.model} ${change.action}`;
+      acc[key] = (acc[key] || 0) + (change.count || 1);
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+  const summary = Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, count]) => (count > 1 ? `${key} x${count}` : key))
+    .join(", ");
+  return summary || "No changes";
+};
+
+const columnConfig: ColumnConfigType[] = [
+  {
+    field: "sequence",
+    label: "#",
+    type: "number",
+    sortable: true,
+  },
+  {
+    field: "user",
+    label: "Admin",
+    sublabel: "ip",
+    type: "text",
+    getValue: (item) =>
+      item.user ? `${item.user.firstName} ${item.user.lastName}` : item.userId,
+    getSubValue: (item) => item.ip,
+    path: "/admin/crm/user?email=[user.email]",
+    sortable: true,
+    sortName: "user.firstName",
+    hasImage: true,
+    imageKey: "user.avatar",
+    placeholder: "/img/avatars/placeholder.webp",
+    className: "rounded-full",
+  },
+  {
+    field: "route",
+    label: "Request",
+    sublabel: "path",
+    type: "text",
+    getValue: (item) => `${item.method} ${item.route}`,
+    getSubValue: (item) => item.path,
+    sortable: true,
+  },
+  {
+    field: "statusCode",
+    label: "Status",
+    type: "number",
+    sortable: true,
+  },
+  {
+    field: "changes",
+    label: "Changes",
+    type: "text",
+    getValue: (item) => summarizeChanges(item.changes),
+    sortable: false,
+    filterable: false,
+  },
+  {
+    field: "reason",
+    label: "Reason",
+    type: "text",
+    sortable: false,
+  },
+  {
+    field: "createdAt",
+    label: "Date",
+    type: "datetime",
+    sortable: true,
+    filterable: false,
+  },
+];
+const AuditTrail = () => {
+  const { t } = useTranslation();
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const verifyChain = async () => {
+    setIsVerifying(true);
+    const { data, error } = await $fetch({
+      url: `${api}/verify`,
+      silent: true,
+    });
+    setIsVerifying(false);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    if (data.valid) {
+      toast.success(
+        `${t("Audit trail intact")}, ${data.checked} ${t("entries verified")}`
+      );
+    } else {
+      toast.error(
+        `${t("Audit trail broken at entry")} ${data.brokenAt.sequence}: ${
+          data.brokenAt.reason
+        }`
+      );
+    }
+  };
+
+  // Exports the last 30 days with their hashes, so the chain can be checked
+  // outside the platform
+  const exportEntries = async () => {
+    setIsExporting(true);
+    const { data, error } = await $fetch({
+      url: `${api}/export`,
+      silent: true,
+    });
+    setIsExporting(false);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const element = document.createElement("a");
+    const file = new Blob([JSON.stringify(data, null, 2)], {
+      type: "application/json",
+    });
+    element.href = URL.createObjectURL(file);
+    element.download = `audit-trail-${new Date()
+      .toISOString()
+      .slice(0, 10)}.json`;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+  };
+
+  return (
+    <Layout title={t("Audit Trail")} color="muted">
+      <DataTable
+        title={t("Audit Trail")}
+        endpoint={api}
+        columnConfig={columnConfig}
+        isParanoid={false}
+        canCreate={false}
+        canEdit={false}
+        canDelete={false}
+        canView={false}
+        hasStructure={false}
+        navSlot={
+          <>
+            <Button
+              onClick={verifyChain}
+              color="primary"
+              shape={"rounded-sm"}
+              loading={isVerifying}
+              disabled={isVerifying}
+            >
+              <Icon icon="ph:seal-check-duotone" />
+              {t("Verify Chain")}
+            </Button>
+            <Button
+              onClick={exportEntries}
+              color="muted"
+              shape={"rounded-sm"}
+              loading={isExporting}
+              disabled={isExporting}
+            >
+              <Icon icon="ph:download-simple-duotone" />
+              {t("Export")}
+            </Button>
+          </>
+        }
+      />
+    </Layout>
+  );
+};
+export default AuditTrail;
+export const permission = "Access Audit Trail Management";
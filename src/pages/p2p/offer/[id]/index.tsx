@@ -31,6 +31,7 @@ type P2pOfferType = {
   maxAmount: number;
   inOrder: number;
   price: number;
+  paymentWindow: number;
   status: string;
   createdAt: string;
   updatedAt: string;
@@ -44,6 +45,11 @@ type P2pOfferType = {
     firstName: string;
     lastName: string;
     avatar: string;
+    stats?: {
+      completedTrades: number;
+      noShows: number;
+      completionRate: number | null;
+    };
   };
   paymentMethod: {
     id: string;
@@ -270,6 +276,24 @@ const P2pOffer: React.FC = () => {
                     offer?.currency
                   }`}
                 />
+                <InfoBlock
+                  icon="bx:bx-time"
+                  label={t("Payment Window")}
+                  value={`${offer?.paymentWindow} ${t("minutes")}`}
+                />
+                {offer?.user.stats && (
+                  <InfoBlock
+                    icon="bx:bx-check-circle"
+                    label={t("Seller Completion Rate")}
+                    value={
+                      offer.user.stats.completionRate === null
+                        ? t("No trades yet")
+                        : `${offer.user.stats.completionRate}% (${
+                            offer.user.stats.completedTrades
+                          } ${t("trades")})`
+                    }
+                  />
+                )}
               </DealCard>
             </div>
           </div>
@@ -11,6 +11,7 @@ import Checkbox from "@/components/elements/form/checkbox/Checkbox";
 import Modal from "@/components/elements/base/modal/Modal";
 import IconButton from "@/components/elements/base/button-icon/IconButton";
 import Radio from "@/components/elements/form/radio/Radio";
+import { format } from "date-fns";
 
 const ApiKeyManagement = () => {
   const { t } = useTranslation();
@@ -25,8 +26,17 @@ const ApiKeyManagement = () => {
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
   const [showFullKey, setShowFullKey] = useState<string | null>(null);
+  const [issuedSecret, setIssuedSecret] = useState<{
+    key: string;
+    secret: string;
+  } | null>(null);
 
   const permissionOptions = [
+    {
+      label: t("Read"),
+      value: "read",
+      description: t("Allows reading account data such as balances."),
+    },
     {
       label: t("Trade"),
       value: "trade",
@@ -100,7 +110,9 @@ const ApiKeyManagement = () => {
       },
     });
     if (!error) {
-      setApiKeys([...apiKeys, data]);
+      const { secret, ...apiKey } = data;
+      setApiKeys([...apiKeys, apiKey]);
+      setIssuedSecret({ key: apiKey.key, secret });
       resetForm();
       toast.success(t("API key created successfully"));
     } else {
@@ -122,6 +134,29 @@ const ApiKeyManagement = () => {
     }
   };
 
+  const regenerateSecret = async (id: string) => {
+    const { data, error } = await $fetch({
+      url: `/api/api-key/${id}/secret`,
+      method: "POST",
+    });
+    if (!error) {
+      setApiKeys(
+        apiKeys.map((key) =>
+          key.id === id ? { ...key, hasSecret: true } : key
+        )
+      );
+      setIssuedSecret({ key: data.key, secret: data.secret });
+    } else {
+      toast.error(t("Failed to regenerate API secret"));
+    }
+  };
+
+  const copyToClipboard = (value: string) => {
+    navigator.clipboard.writeText(value).then(() => {
+      toast.success(t("Copied to clipboard"));
+    });
+  };
+
   const handleEdit = (id: string) => {
     const keyToEdit = apiKeys.find((key) => key.id === id);
     if (keyToEdit) {
@@ -246,8 +281,30 @@ const ApiKeyManagement = () => {
                     <p className="text-sm text-muted-600 dark:text-muted-400">
                       {showFullKey === key.id ? key.key : maskApiKey(key.key)}
                     </p>
+                    <p className="text-xs text-muted-500 dark:text-muted-400 mt-1">
+                      {key.lastUsedAt
+                        ? `${t("Last used")} ${format(
+                            new Date(key.lastUsedAt),
+                            "yyyy-MM-dd HH:mm"
+                          )}${key.lastUsedIp ? ` ${t("from")} ${key.lastUsedIp}` : ""}`
+                        : t("Never used")}
+                      {" · "}
+                      {key.usageCount || 0} {t("requests")}
+                    </p>
+                    {!key.hasSecret && (
+                      <p className="text-xs text-red-500 dark:text-red-400 mt-1">
+                        {t(
+                          "This key has no secret and cannot sign requests. Generate one to keep using it."
+                        )}
+                      </p>
+                    )}
                   </div>
                   <div className="flex gap-3 mt-4 sm:mt-0">
+                    <Button onClick={() => regenerateSecret(key.id)}>
+                      {key.hasSecret
+                        ? t("Regenerate Secret")
+                        : t("Generate Secret")}
+                    </Button>
                     <Button onClick={() => handleEdit(key.id)}>
                       {isEditing === key.id ? t("Close") : t("Edit")}
                     </Button>
@@ -527,6 +584,62 @@ const ApiKeyManagement = () => {
             </div>
           </Card>
         </Modal>
+
+        <Modal open={!!issuedSecret} size="xl">
+          <Card shape="smooth" className="dark:bg-muted-900">
+            <div className="flex items-center justify-between p-4 md:p-6">
+              <p className="font-sans text-lg font-medium text-muted-900 dark:text-white">
+                {t("Save Your API Secret")}
+              </p>
+            </div>
+            <div className="p-4 md:px-6 md:py-8 flex flex-col gap-4">
+              <p className="text-sm text-red-500 dark:text-red-400">
+                {t(
+                  "The secret is shown only once. Store it safely, it cannot be viewed again."
+                )}
+              </p>
+              {[
+                { label: t("API Key"), value: issuedSecret?.key },
+                { label: t("Secret"), value: issuedSecret?.secret },
+              ].map((field) => (
+                <div key={field.label}>
+                  <h4 className="text-md font-semibold dark:text-muted-100 mb-1">
+                    {field.label}
+                  </h4>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm break-all text-muted-600 dark:text-muted-400">
+                      {field.value}
+                    </span>
+                    <IconButton
+                      size="sm"
+                      onClick={() => copyToClipboard(field.value || "")}
+                    >
+                      <Icon
+                        icon="mdi:content-copy"
+                        className="h-4 w-4 dark:text-white"
+                      />
+                    </IconButton>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-500 dark:text-muted-400">
+                {t(
+                  "Sign each request with an HMAC-SHA256 of timestamp, nonce, method, path and body, keyed with the SHA-256 of the secret, and send it in the x-api-signature header with x-api-key, x-api-timestamp and x-api-nonce."
+                )}
+              </p>
+            </div>
+            <div className="p-4 md:p-6 flex justify-end gap-2">
+              <Button
+                variant="solid"
+                color="primary"
+                shape="smooth"
+                onClick={() => setIssuedSecret(null)}
+              >
+                {t("I have saved it")}
+              </Button>
+            </div>
+          </Card>
+        </Modal>
       </div>
     </Layout>
   );
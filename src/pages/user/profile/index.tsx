@@ -15,6 +15,7 @@ import WalletConnectButton from "@/components/pages/user/profile/WalletConnectBu
 import WagmiProviderWrapper from "@/context/useWagmi";
 import { useTranslation } from "next-i18next";
 import AccountDeletion from "@/components/pages/user/profile/AccountDeletion";
+import PasskeySection from "@/components/pages/user/profile/PasskeySection";
 
 const twoFactorStatus = process.env.NEXT_PUBLIC_2FA_STATUS === "true" || false;
 const projectId = process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID;
@@ -81,6 +82,12 @@ const Tabs = ({ mainTab, setMainTab }) => {
           tabName="2FA"
         />
       )}
+      <Tab
+        label={t("Passkeys")}
+        activeTab={mainTab}
+        setActiveTab={setMainTab}
+        tabName="PASSKEYS"
+      />
       <Tab
         label={t("Picture")}
         activeTab={mainTab}
@@ -276,6 +283,7 @@ const UserSettings = () => {
               </>
             )}
             {twoFactorStatus && mainTab === "2FA" && <TwoFactor />}
+            {mainTab === "PASSKEYS" && <PasskeySection />}
             {mainTab === "PICTURE" && (
               <PictureSection
                 formData={formData}
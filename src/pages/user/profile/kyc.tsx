@@ -190,6 +190,8 @@ const KycApplication: React.FC = () => {
           success: 1,
           file: {
             url: response.url,
+            // KYC documents are private, their url is only a reference
+            previewUrl: response.signedUrl || response.url,
           },
         };
       } else {
@@ -437,21 +439,21 @@ const KycApplication: React.FC = () => {
       const uploadResponse = await handleFileUpload(frontFile[0]);
       if (uploadResponse.success && uploadResponse.file) {
         documents[selectedDocument].front = uploadResponse.file.url;
-        setFrontPreviewUrl(uploadResponse.file.url);
+        setFrontPreviewUrl(uploadResponse.file.previewUrl);
       }
     }
     if (backFile && selectedDocument === "documentIdCard") {
       const uploadResponse = await handleFileUpload(backFile[0]);
       if (uploadResponse.success && uploadResponse.file) {
         documents[selectedDocument].back = uploadResponse.file.url;
-        setBackPreviewUrl(uploadResponse.file.url);
+        setBackPreviewUrl(uploadResponse.file.previewUrl);
       }
     }
     if (selfieFile && selectedDocument !== null) {
       const uploadResponse = await handleFileUpload(selfieFile[0]);
       if (uploadResponse.success && uploadResponse.file) {
         documents[selectedDocument].selfie = uploadResponse.file.url;
-        setSelfiePreviewUrl(uploadResponse.file.url);
+        setSelfiePreviewUrl(uploadResponse.file.previewUrl);
       }
     }
 
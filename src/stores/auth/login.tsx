@@ -5,6 +5,7 @@ import { useTranslation } from "next-i18next";
 import { useGoogleLogin } from "@react-oauth/google";
 import { toast } from "sonner";
 import $fetch from "@/utils/api";
+import { getPasskeyAssertion } from "@/utils/webauthn";
 import { FormEvent, useEffect } from "react";
 
 export const googleClientId = process.env
@@ -25,6 +26,7 @@ type LoginStore = {
   otp: string;
   userId: string;
   twoFactorType: string;
+  webauthnChallenge: { challengeId: string; options: any } | null;
   resendCooldown: number;
   resendAttempts: number;
   recaptchaRef: any | null;
@@ -46,6 +48,8 @@ type LoginStore = {
   handleSubmit: (router: any) => Promise<void>;
   handleVerificationSubmit: (router: any) => Promise<void>;
   handle2FASubmit: (router: any) => Promise<void>;
+  handlePasskey2FA: (router: any) => Promise<void>;
+  handlePasskeyLogin: (router: any) => Promise<void>;
   handleResendOtp: () => Promise<void>;
   initializeRecaptcha: () => void;
   decrementCooldown: () => void;
@@ -77,6 +81,7 @@ export const useLoginStore = create<LoginStore>()(
       otp: "",
       userId: "",
       twoFactorType: "",
+      webauthnChallenge: null,
       resendCooldown: 0,
       resendAttempts: 0,
       script: null,
@@ -214,6 +219,7 @@ export const useLoginStore = create<LoginStore>()(
             state.is2FAVerificationStep = true;
             state.userId = data.id;
             state.twoFactorType = data.twoFactor.type;
+            state.webauthnChallenge = data.webauthn || null;
           });
         } else {
           // Reset isFetched before redirecting
@@ -270,6 +276,68 @@ export const useLoginStore = create<LoginStore>()(
           state.loading = false;
         });
       },
+      handlePasskey2FA: async (router) => {
+        const { webauthnChallenge } = get();
+        if (!webauthnChallenge) return;
+        set((state) => {
+          state.loading = true;
+        });
+        try {
+          const credential = await getPasskeyAssertion(
+            webauthnChallenge.options
+          );
+          const { data, error } = await $fetch({
+            url: "/api/auth/webauthn/login",
+            method: "POST",
+            body: {
+              id: get().userId,
+              challengeId: webauthnChallenge.challengeId,
+              credential,
+            },
+          });
+          if (data && !error) {
+            useDashboardStore.getState().setIsFetched(false);
+            const returnUrl = router.query.return || defaultUserPath;
+            router.push(returnUrl);
+          }
+        } catch (error) {
+          toast.error("Passkey verification was cancelled or failed");
+        }
+        set((state) => {
+          state.loading = false;
+        });
+      },
+      handlePasskeyLogin: async (router) => {
+        set((state) => {
+          state.loading = true;
+        });
+        try {
+          const { data: challenge, error: challengeError } = await $fetch({
+            url: "/api/auth/webauthn/login/options",
+            method: "POST",
+            silent: true,
+          });
+          if (challengeError) throw new Error(challengeError);
+
+          const credential = await getPasskeyAssertion(challenge.options);
+          const { data, error } = await $fetch({
+            url: "/api/auth/webauthn/login",
+            method: "POST",
+            body: { challengeId: challenge.challengeId, credential },
+          });
+          if (data && !error) {
+            useDashboardStore.getState().setIsFetched(false);
+            await useDashboardStore.getState().fetchProfile();
+            const returnUrl = router.query.return || defaultUserPath;
+            router.push(returnUrl);
+          }
+        } catch (error) {
+          toast.error("Passkey sign-in was cancelled or failed");
+        }
+        set((state) => {
+          state.loading = false;
+        });
+      },
       handleResendOtp: async () => {
         if (get().resendCooldown > 0 || get().resendAttempts >= 5) {
           toast.error("Please wait before resending the OTP.");
@@ -14,6 +14,9 @@ type Trade = {
   amount: number;
   status: string;
   txHash: string;
+  paymentDeadline: string | null;
+  releaseDeadline: string | null;
+  cancelReason: string | null;
   messages: ChatMessage[];
   createdAt: string;
   updatedAt: string;
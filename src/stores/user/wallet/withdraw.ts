@@ -3,6 +3,21 @@ import { immer } from "zustand/middleware/immer";
 import $fetch from "@/utils/api";
 import { toast } from "sonner";
 import { useDashboardStore } from "@/stores/dashboard";
+import { confirmWithPasskey } from "@/utils/webauthn";
+
+// Users who chose passkeys as their second factor confirm every withdrawal
+// with one
+const getWithdrawConfirmation = async () => {
+  const { profile } = useDashboardStore.getState() as any;
+  if (
+    process.env.NEXT_PUBLIC_2FA_STATUS !== "true" ||
+    profile?.twoFactor?.type !== "WEBAUTHN" ||
+    !profile?.twoFactor?.enabled
+  ) {
+    return undefined;
+  }
+  return await confirmWithPasskey();
+};
 
 type WalletType = {
   value: string;
@@ -122,6 +137,7 @@ export const useWithdrawStore = create<WithdrawStore>()(
         get();
 
       try {
+        const webauthn = await getWithdrawConfirmation();
         const { data, error } = await $fetch({
           url: `${endpoint}/withdraw/fiat`,
           method: "POST",
@@ -131,6 +147,7 @@ export const useWithdrawStore = create<WithdrawStore>()(
             currency: selectedCurrency,
             methodId: selectedWithdrawMethod?.id,
             customFields: values,
+            webauthn,
           },
         });
 
@@ -164,6 +181,15 @@ export const useWithdrawStore = create<WithdrawStore>()(
           ? `/api/ext/ecosystem/withdraw`
           : `${endpoint}/withdraw/${selectedWalletType.value}`;
 
+      let webauthn;
+      try {
+        webauthn = await getWithdrawConfirmation();
+      } catch (error) {
+        toast.error("Passkey confirmation was cancelled or failed");
+        setLoading(false);
+        return;
+      }
+
       const { data, error } = await $fetch({
         url,
         silent: true,
@@ -173,6 +199,7 @@ export const useWithdrawStore = create<WithdrawStore>()(
           chain: selectedWithdrawMethod?.chain,
           amount: withdrawAmount,
           toAddress: withdrawAddress,
+          webauthn,
         },
       });
 
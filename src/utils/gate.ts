@@ -13,6 +13,7 @@ export const gate = {
   "/admin/crm/kyc/template/create": "Access KYC Template Management",
   "/admin/crm/kyc/template/index": "Access KYC Template Management",
   "/admin/crm/kyc/template/[id]/index": "Access KYC Template Management",
+  "/admin/crm/kyc/tier/index": "Access KYC Tier Management",
   "/admin/crm/permission/index": "Access Permission Management",
   "/admin/crm/role/index": "Access Role Management",
   "/admin/crm/support/ticket/analysis": "Access Support Ticket Management",
@@ -79,6 +80,14 @@ export const gate = {
     "Access Mailwizard Campaign Management",
   "/admin/ext/mailwizard/campaign/[id]/index":
     "Access Mailwizard Campaign Management",
+  "/admin/ext/mailwizard/segment/index":
+    "Access Mailwizard Campaign Management",
+  "/admin/ext/mailwizard/segment/create":
+    "Access Mailwizard Campaign Management",
+  "/admin/ext/mailwizard/segment/[id]/index":
+    "Access Mailwizard Campaign Management",
+  "/admin/ext/mailwizard/suppression/index":
+    "Access Mailwizard Campaign Management",
   "/admin/ext/mailwizard/template/index":
     "Access Mailwizard Template Management",
   "/admin/ext/mailwizard/template/[id]/index":
@@ -134,6 +143,9 @@ export const gate = {
   "/admin/finance/withdraw/method/index": "Access Withdrawal Method Management",
   "/admin/page/index": "Access Pages Management",
   "/admin/system/announcement/index": "Access Announcement Management",
+  "/admin/system/approval/[id]/index": "Access Approval Management",
+  "/admin/system/approval/index": "Access Approval Management",
+  "/admin/system/audit/index": "Access Audit Trail Management",
   "/admin/system/cron/index": "Access Cron Job Management",
   "/admin/system/database/backup": "Access Database Backup Management",
   "/admin/system/database/migration": "Access Database Migration Management",
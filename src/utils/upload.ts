@@ -126,6 +126,7 @@ export const imageUploader = async ({
     return {
       success: true,
       url: data.url, // Return the uploaded file URL
+      signedUrl: data.signedUrl, // Preview URL of a private file
     };
   } catch (error) {
     console.error("Error uploading file:", error);
@@ -0,0 +1,95 @@
+import $fetch from "@/utils/api";
+
+const toBuffer = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64.padEnd(
+    base64.length + ((4 - (base64.length % 4)) % 4),
+    "="
+  );
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)).buffer;
+};
+
+const toBase64Url = (buffer: ArrayBuffer | null) => {
+  if (!buffer) return null;
+  let binary = "";
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+export const isWebAuthnSupported = () =>
+  typeof window !== "undefined" && !!window.PublicKeyCredential;
+
+// Creates a passkey from the registration options sent by the backend
+export const createPasskey = async (options: any) => {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      user: { ...options.user, id: toBuffer(options.user.id) },
+      excludeCredentials: (options.excludeCredentials || []).map((item) => ({
+        ...item,
+        id: toBuffer(item.id),
+      })),
+    },
+  })) as PublicKeyCredential;
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports ? response.getTransports() : [],
+    },
+  };
+};
+
+// Signs the challenge of the authentication options sent by the backend
+export const getPasskeyAssertion = async (options: any) => {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: toBuffer(options.challenge),
+      allowCredentials: (options.allowCredentials || []).map((item) => ({
+        ...item,
+        id: toBuffer(item.id),
+      })),
+    },
+  })) as PublicKeyCredential;
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: toBase64Url(response.userHandle),
+    },
+  };
+};
+
+// Confirms a sensitive action, such as a withdrawal, with one of the user's
+// passkeys and returns the assertion to send along with it
+export const confirmWithPasskey = async () => {
+  const { data, error } = await $fetch({
+    url: "/api/auth/webauthn/step-up",
+    method: "POST",
+    silent: true,
+  });
+  if (error) throw new Error(error);
+
+  return {
+    challengeId: data.challengeId,
+    credential: await getPasskeyAssertion(data.options),
+  };
+};
@@ -115,6 +115,7 @@ interface ExchangeOrder {
   trades?: any;
   fee: any;
   feeCurrency?: string;
+  provider?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -537,7 +537,7 @@ interface TwoFactor {
   updatedAt: string;
 }
 
-type TwoFactorType = "EMAIL" | "SMS" | "APP";
+type TwoFactorType = "EMAIL" | "SMS" | "APP" | "WEBAUTHN";
 
 interface Settings {
   key: string;
@@ -19,7 +19,7 @@ interface InfoObject {
 interface SchemaObject {
   type: string;
   format?: string;
-  items?: SchemaObject | { $ref: string }; // Allow items to reference other schemas
+  items?: SchemaObject | { $ref: string } | { oneOf: SchemaObject[] }; // Allow items to reference other schemas or be one of several
   properties?: Record<string, SchemaObject>;
   additionalProperties?: SchemaObject | boolean;
   required?: string[];
@@ -0,0 +1,43 @@
+
+
+
+interface AuditChange {
+  model: string;
+  // OMITTED stands in for the changes past the cap of an entry
+  action: "CREATE" | "UPDATE" | "DELETE" | "OMITTED";
+  id?: string | number;
+  count?: number;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+}
+
+interface adminAuditLogAttributes {
+  id: string;
+  sequence: number;
+  userId?: string;
+  ip?: string;
+  method: string;
+  route: string;
+  path: string;
+  params?: Record<string, any>;
+  statusCode?: number;
+  reason?: string;
+  changes: AuditChange[];
+  previousHash: string;
+  hash: string;
+  createdAt: Date;
+}
+
+type adminAuditLogPk = "id";
+type adminAuditLogId = adminAuditLog[adminAuditLogPk];
+type adminAuditLogOptionalAttributes =
+  | "id"
+  | "userId"
+  | "ip"
+  | "params"
+  | "statusCode"
+  | "reason";
+type adminAuditLogCreationAttributes = Optional<
+  adminAuditLogAttributes,
+  adminAuditLogOptionalAttributes
+>;
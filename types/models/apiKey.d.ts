@@ -3,10 +3,14 @@ interface apiKeyAttributes {
   userId?: string;
   name: string; // API key name
   key: string;
+  encryptedSecret?: string | null; // Signing secret, encrypted at rest
   permissions: string[]; // Permissions as an array of strings
   ipRestriction: boolean;
   ipWhitelist: string[]; // IP Whitelist as an array of strings
   type: string;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  usageCount: number;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -17,6 +21,10 @@ type apiKeyId = apiKey[apiKeyPk];
 type apiKeyOptionalAttributes =
   | "id"
   | "userId"
+  | "encryptedSecret"
+  | "lastUsedAt"
+  | "lastUsedIp"
+  | "usageCount"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
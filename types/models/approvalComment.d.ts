@@ -0,0 +1,18 @@
+
+
+
+interface approvalCommentAttributes {
+  id: string;
+  approvalRequestId: string;
+  userId: string;
+  message: string;
+  createdAt?: Date;
+}
+
+type approvalCommentPk = "id";
+type approvalCommentId = approvalComment[approvalCommentPk];
+type approvalCommentOptionalAttributes = "id" | "createdAt";
+type approvalCommentCreationAttributes = Optional<
+  approvalCommentAttributes,
+  approvalCommentOptionalAttributes
+>;
@@ -0,0 +1,51 @@
+
+
+
+type ApprovalType =
+  | "WALLET_BALANCE"
+  | "WITHDRAWAL"
+  | "ROLE_CHANGE"
+  | "MASTER_WALLET";
+
+type ApprovalStatus =
+  | "PENDING"
+  | "APPROVED"
+  | "REJECTED"
+  | "CANCELLED"
+  | "EXPIRED"
+  | "FAILED";
+
+interface approvalRequestAttributes {
+  id: string;
+  type: ApprovalType;
+  action: string;
+  summary: string;
+  payload: Record<string, any>;
+  valueUsd?: number;
+  status: ApprovalStatus;
+  requestedById: string;
+  reviewedById?: string;
+  reviewedAt?: Date;
+  expiresAt: Date;
+  result?: Record<string, any>;
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type approvalRequestPk = "id";
+type approvalRequestId = approvalRequest[approvalRequestPk];
+type approvalRequestOptionalAttributes =
+  | "id"
+  | "valueUsd"
+  | "status"
+  | "reviewedById"
+  | "reviewedAt"
+  | "result"
+  | "error"
+  | "createdAt"
+  | "updatedAt";
+type approvalRequestCreationAttributes = Optional<
+  approvalRequestAttributes,
+  approvalRequestOptionalAttributes
+>;
@@ -0,0 +1,24 @@
+
+
+
+interface ecosystemBlockCheckpointAttributes {
+  id: string;
+  chain: string;
+  blockNumber: number;
+  recentBlocks: { number: number; hash: string }[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type ecosystemBlockCheckpointPk = "id";
+type ecosystemBlockCheckpointId =
+  ecosystemBlockCheckpoint[ecosystemBlockCheckpointPk];
+type ecosystemBlockCheckpointOptionalAttributes =
+  | "id"
+  | "recentBlocks"
+  | "createdAt"
+  | "updatedAt";
+type ecosystemBlockCheckpointCreationAttributes = Optional<
+  ecosystemBlockCheckpointAttributes,
+  ecosystemBlockCheckpointOptionalAttributes
+>;
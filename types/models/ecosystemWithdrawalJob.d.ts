@@ -0,0 +1,44 @@
+
+
+
+interface ecosystemWithdrawalJobAttributes {
+  id: string;
+  transactionId: string;
+  idempotencyKey: string;
+  status:
+    | "PENDING"
+    | "PROCESSING"
+    | "BROADCASTING"
+    | "COMPLETED"
+    | "FAILED"
+    | "DEAD";
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedBy?: string;
+  lockedAt?: Date;
+  broadcastAt?: Date;
+  lastError?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type ecosystemWithdrawalJobPk = "id";
+type ecosystemWithdrawalJobId =
+  ecosystemWithdrawalJob[ecosystemWithdrawalJobPk];
+type ecosystemWithdrawalJobOptionalAttributes =
+  | "id"
+  | "status"
+  | "attempts"
+  | "maxAttempts"
+  | "nextAttemptAt"
+  | "lockedBy"
+  | "lockedAt"
+  | "broadcastAt"
+  | "lastError"
+  | "createdAt"
+  | "updatedAt";
+type ecosystemWithdrawalJobCreationAttributes = Optional<
+  ecosystemWithdrawalJobAttributes,
+  ecosystemWithdrawalJobOptionalAttributes
+>;
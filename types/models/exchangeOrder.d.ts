@@ -20,6 +20,7 @@ interface exchangeOrderAttributes {
   trades?: string;
   fee: number;
   feeCurrency: string;
+  provider?: string;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -32,6 +33,7 @@ type exchangeOrderOptionalAttributes =
   | "referenceId"
   | "average"
   | "trades"
+  | "provider"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
@@ -0,0 +1,30 @@
+
+
+
+interface exchangeReconciliationAttributes {
+  id: string;
+  currency: string;
+  providerBalances: Record<string, number>;
+  providerTotal: number;
+  walletTotal: number;
+  difference: number;
+  status: "BALANCED" | "SURPLUS" | "DEFICIT";
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type exchangeReconciliationPk = "id";
+type exchangeReconciliationId =
+  exchangeReconciliation[exchangeReconciliationPk];
+type exchangeReconciliationOptionalAttributes =
+  | "id"
+  | "providerTotal"
+  | "walletTotal"
+  | "difference"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+type exchangeReconciliationCreationAttributes = Optional<
+  exchangeReconciliationAttributes,
+  exchangeReconciliationOptionalAttributes
+>;
@@ -0,0 +1,31 @@
+
+
+
+interface feeTierAttributes {
+  id: string;
+  name: string;
+  level: number;
+  minVolume: number;
+  minBalance: number;
+  balanceCurrency?: string;
+  makerFee: number;
+  takerFee: number;
+  status: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type feeTierPk = "id";
+type feeTierId = feeTier[feeTierPk];
+type feeTierOptionalAttributes =
+  | "id"
+  | "minVolume"
+  | "minBalance"
+  | "balanceCurrency"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+type feeTierCreationAttributes = Optional<
+  feeTierAttributes,
+  feeTierOptionalAttributes
+>;
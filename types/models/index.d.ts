@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/triple-slash-reference */
+/// <reference path="./adminAuditLog.d.ts" />
 /// <reference path="./adminProfit.d.ts" />
 /// <reference path="./aiInvestment.d.ts" />
 /// <reference path="./aiInvestmentDuration.d.ts" />
@@ -6,6 +7,8 @@
 /// <reference path="./aiInvestmentPlanDuration.d.ts" />
 /// <reference path="./announcement.d.ts" />
 /// <reference path="./apiKey.d.ts" />
+/// <reference path="./approvalComment.d.ts" />
+/// <reference path="./approvalRequest.d.ts" />
 /// <reference path="./author.d.ts" />
 /// <reference path="./binaryOrder.d.ts" />
 /// <reference path="./category.d.ts" />
@@ -24,6 +27,7 @@
 /// <reference path="./ecommerceUserDiscount.d.ts" />
 /// <reference path="./ecommerceWishlist.d.ts" />
 /// <reference path="./ecommerceWishlistItem.d.ts" />
+/// <reference path="./ecosystemBlockCheckpoint.d.ts" />
 /// <reference path="./ecosystemBlockchain.d.ts" />
 /// <reference path="./ecosystemCustodialWallet.d.ts" />
 /// <reference path="./ecosystemMarket.d.ts" />
@@ -31,14 +35,17 @@
 /// <reference path="./ecosystemPrivateLedger.d.ts" />
 /// <reference path="./ecosystemToken.d.ts" />
 /// <reference path="./ecosystemUtxo.d.ts" />
+/// <reference path="./ecosystemWithdrawalJob.d.ts" />
 /// <reference path="./exchange.d.ts" />
 /// <reference path="./exchangeCurrency.d.ts" />
 /// <reference path="./exchangeMarket.d.ts" />
 /// <reference path="./exchangeOrder.d.ts" />
+/// <reference path="./exchangeReconciliation.d.ts" />
 /// <reference path="./exchangeWatchlist.d.ts" />
 /// <reference path="./extension.d.ts" />
 /// <reference path="./faq.d.ts" />
 /// <reference path="./faqCategory.d.ts" />
+/// <reference path="./feeTier.d.ts" />
 /// <reference path="./forexAccount.d.ts" />
 /// <reference path="./forexAccountSignal.d.ts" />
 /// <reference path="./forexDuration.d.ts" />
@@ -61,8 +68,16 @@
 /// <reference path="./invoice.d.ts" />
 /// <reference path="./kyc.d.ts" />
 /// <reference path="./kycTemplate.d.ts" />
+/// <reference path="./kycTier.d.ts" />
+/// <reference path="./ledgerAccount.d.ts" />
+/// <reference path="./ledgerDiscrepancy.d.ts" />
+/// <reference path="./ledgerEntry.d.ts" />
+/// <reference path="./ledgerJournal.d.ts" />
 /// <reference path="./mailwizardBlock.d.ts" />
 /// <reference path="./mailwizardCampaign.d.ts" />
+/// <reference path="./mailwizardRecipient.d.ts" />
+/// <reference path="./mailwizardSegment.d.ts" />
+/// <reference path="./mailwizardSuppression.d.ts" />
 /// <reference path="./mailwizardTemplate.d.ts" />
 /// <reference path="./mlmBinaryNode.d.ts" />
 /// <reference path="./mlmReferral.d.ts" />
@@ -94,6 +109,8 @@
 /// <reference path="./post.d.ts" />
 /// <reference path="./postTag.d.ts" />
 /// <reference path="./providerUser.d.ts" />
+/// <reference path="./reserveSnapshot.d.ts" />
+/// <reference path="./reserveSnapshotLeaf.d.ts" />
 /// <reference path="./role.d.ts" />
 /// <reference path="./rolePermission.d.ts" />
 /// <reference path="./settings.d.ts" />
@@ -106,6 +123,8 @@
 /// <reference path="./transaction.d.ts" />
 /// <reference path="./twoFactor.d.ts" />
 /// <reference path="./user.d.ts" />
+/// <reference path="./userFeeTier.d.ts" />
+/// <reference path="./userPasskey.d.ts" />
 /// <reference path="./wallet.d.ts" />
 /// <reference path="./walletData.d.ts" />
 /// <reference path="./walletPnl.d.ts" />
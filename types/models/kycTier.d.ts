@@ -0,0 +1,41 @@
+
+
+
+interface kycTierAttributes {
+  id: string;
+  name: string;
+  level: number;
+  description?: string;
+  dailyWithdrawLimit?: number | null;
+  monthlyWithdrawLimit?: number | null;
+  dailyDepositLimit?: number | null;
+  monthlyDepositLimit?: number | null;
+  p2pAccess: boolean;
+  futuresAccess: boolean;
+  icoAccess: boolean;
+  fiatAccess: boolean;
+  status: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type kycTierPk = "id";
+type kycTierId = kycTier[kycTierPk];
+type kycTierOptionalAttributes =
+  | "id"
+  | "description"
+  | "dailyWithdrawLimit"
+  | "monthlyWithdrawLimit"
+  | "dailyDepositLimit"
+  | "monthlyDepositLimit"
+  | "p2pAccess"
+  | "futuresAccess"
+  | "icoAccess"
+  | "fiatAccess"
+  | "status"
+  | "createdAt"
+  | "updatedAt";
+type kycTierCreationAttributes = Optional<
+  kycTierAttributes,
+  kycTierOptionalAttributes
+>;
@@ -0,0 +1,20 @@
+
+
+
+interface ledgerAccountAttributes {
+  id: string;
+  key: string;
+  type: "USER" | "SYSTEM";
+  name: string;
+  currency: string;
+  walletId?: string;
+  createdAt?: Date;
+}
+
+type ledgerAccountPk = "id";
+type ledgerAccountId = ledgerAccount[ledgerAccountPk];
+type ledgerAccountOptionalAttributes = "id" | "walletId" | "createdAt";
+type ledgerAccountCreationAttributes = Optional<
+  ledgerAccountAttributes,
+  ledgerAccountOptionalAttributes
+>;
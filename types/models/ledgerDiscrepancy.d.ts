@@ -0,0 +1,30 @@
+
+
+
+interface ledgerDiscrepancyAttributes {
+  id: string;
+  walletId: string;
+  balance: number;
+  ledgerBalance: number;
+  inOrder: number;
+  ledgerInOrder: number;
+  status: "OPEN" | "RESOLVED";
+  resolution?: "ADJUST_LEDGER" | "RESTORE_WALLET" | "SELF_CORRECTED";
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type ledgerDiscrepancyPk = "id";
+type ledgerDiscrepancyId = ledgerDiscrepancy[ledgerDiscrepancyPk];
+type ledgerDiscrepancyOptionalAttributes =
+  | "id"
+  | "inOrder"
+  | "ledgerInOrder"
+  | "status"
+  | "resolution"
+  | "createdAt"
+  | "updatedAt";
+type ledgerDiscrepancyCreationAttributes = Optional<
+  ledgerDiscrepancyAttributes,
+  ledgerDiscrepancyOptionalAttributes
+>;
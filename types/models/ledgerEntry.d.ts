@@ -0,0 +1,19 @@
+
+
+
+interface ledgerEntryAttributes {
+  id: string;
+  journalId: string;
+  accountId: string;
+  direction: "DEBIT" | "CREDIT";
+  amount: string;
+  createdAt?: Date;
+}
+
+type ledgerEntryPk = "id";
+type ledgerEntryId = ledgerEntry[ledgerEntryPk];
+type ledgerEntryOptionalAttributes = "id" | "createdAt";
+type ledgerEntryCreationAttributes = Optional<
+  ledgerEntryAttributes,
+  ledgerEntryOptionalAttributes
+>;
@@ -0,0 +1,24 @@
+
+
+
+interface ledgerJournalAttributes {
+  id: string;
+  type: "OPENING" | "WALLET_CHANGE" | "ADJUSTMENT";
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  createdAt?: Date;
+}
+
+type ledgerJournalPk = "id";
+type ledgerJournalId = ledgerJournal[ledgerJournalPk];
+type ledgerJournalOptionalAttributes =
+  | "id"
+  | "description"
+  | "referenceType"
+  | "referenceId"
+  | "createdAt";
+type ledgerJournalCreationAttributes = Optional<
+  ledgerJournalAttributes,
+  ledgerJournalOptionalAttributes
+>;
@@ -15,6 +15,9 @@ interface mailwizardCampaignAttributes {
   speed: number;
   targets?: string;
   templateId: string;
+  segmentId?: string;
+  subjectVariants?: string[];
+  recipientsResolvedAt?: Date | null;
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -27,6 +30,9 @@ type mailwizardCampaignOptionalAttributes =
   | "status"
   | "speed"
   | "targets"
+  | "segmentId"
+  | "subjectVariants"
+  | "recipientsResolvedAt"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
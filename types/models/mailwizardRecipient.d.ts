@@ -0,0 +1,42 @@
+
+
+
+interface mailwizardRecipientAttributes {
+  id: string;
+  campaignId: string;
+  userId?: string;
+  email: string;
+  token: string;
+  variant: number;
+  status: "PENDING" | "SENT" | "FAILED" | "SKIPPED";
+  error?: string;
+  sentAt?: Date;
+  openedAt?: Date;
+  openCount: number;
+  clickedAt?: Date;
+  clickCount: number;
+  unsubscribedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type mailwizardRecipientPk = "id";
+type mailwizardRecipientId = mailwizardRecipient[mailwizardRecipientPk];
+type mailwizardRecipientOptionalAttributes =
+  | "id"
+  | "userId"
+  | "variant"
+  | "status"
+  | "error"
+  | "sentAt"
+  | "openedAt"
+  | "openCount"
+  | "clickedAt"
+  | "clickCount"
+  | "unsubscribedAt"
+  | "createdAt"
+  | "updatedAt";
+type mailwizardRecipientCreationAttributes = Optional<
+  mailwizardRecipientAttributes,
+  mailwizardRecipientOptionalAttributes
+>;
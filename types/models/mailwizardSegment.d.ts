@@ -0,0 +1,42 @@
+
+
+
+type MailwizardSegmentRule =
+  | { field: "kycLevel"; operator: "gte" | "lte" | "eq"; value: number }
+  | {
+      field: "walletBalance";
+      currency: string;
+      walletType?: "FIAT" | "SPOT" | "ECO" | "FUTURES";
+      operator: "gte" | "lte";
+      value: number;
+    }
+  | { field: "lastLogin"; operator: "within" | "notWithin"; value: number }
+  | {
+      field: "extension";
+      extension: string;
+      operator: "used" | "notUsed";
+    }
+  | { field: "emailVerified"; value: boolean };
+
+interface mailwizardSegmentAttributes {
+  id: string;
+  name: string;
+  description?: string;
+  rules: MailwizardSegmentRule[];
+  createdAt?: Date;
+  deletedAt?: Date;
+  updatedAt?: Date;
+}
+
+type mailwizardSegmentPk = "id";
+type mailwizardSegmentId = mailwizardSegment[mailwizardSegmentPk];
+type mailwizardSegmentOptionalAttributes =
+  | "id"
+  | "description"
+  | "createdAt"
+  | "deletedAt"
+  | "updatedAt";
+type mailwizardSegmentCreationAttributes = Optional<
+  mailwizardSegmentAttributes,
+  mailwizardSegmentOptionalAttributes
+>;
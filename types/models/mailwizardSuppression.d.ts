@@ -0,0 +1,24 @@
+
+
+
+interface mailwizardSuppressionAttributes {
+  id: string;
+  email: string;
+  reason: "UNSUBSCRIBED" | "BOUNCED" | "COMPLAINED" | "MANUAL";
+  campaignId?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type mailwizardSuppressionPk = "id";
+type mailwizardSuppressionId = mailwizardSuppression[mailwizardSuppressionPk];
+type mailwizardSuppressionOptionalAttributes =
+  | "id"
+  | "reason"
+  | "campaignId"
+  | "createdAt"
+  | "updatedAt";
+type mailwizardSuppressionCreationAttributes = Optional<
+  mailwizardSuppressionAttributes,
+  mailwizardSuppressionOptionalAttributes
+>;
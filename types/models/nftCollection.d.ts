@@ -12,6 +12,9 @@ interface nftCollectionAttributes {
   featured?: boolean;
   views: number;
   links?: string;
+  currency: string;
+  walletType: "FIAT" | "SPOT" | "ECO";
+  status: boolean;
   createdAt?: Date;
   updatedAt?: Date;
   deletedAt?: Date;
@@ -32,6 +35,8 @@ type nftCollectionOptionalAttributes =
   | "featured"
   | "views"
   | "links"
+  | "walletType"
+  | "status"
   | "createdAt"
   | "updatedAt"
   | "deletedAt";
@@ -7,7 +7,7 @@ interface nftTransactionAttributes {
   sellerId: string;
   buyerId: string;
   price: number;
-  transactionHash: string;
+  transactionHash?: string;
   type: "PURCHASE" | "SALE";
   status: "PENDING" | "COMPLETED" | "FAILED";
   createdAt?: Date;
@@ -18,6 +18,7 @@ type nftTransactionPk = "id";
 type nftTransactionId = nftTransaction[nftTransactionPk];
 type nftTransactionOptionalAttributes =
   | "id"
+  | "transactionHash"
   | "status"
   | "createdAt"
   | "updatedAt";
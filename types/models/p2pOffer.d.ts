@@ -13,6 +13,7 @@ interface p2pOfferAttributes {
   inOrder: number;
   price: number;
   paymentMethodId: string;
+  paymentWindow: number;
   status: "PENDING" | "ACTIVE" | "COMPLETED" | "CANCELLED";
   createdAt?: Date;
   deletedAt?: Date;
@@ -28,6 +29,7 @@ type p2pOfferOptionalAttributes =
   | "minAmount"
   | "maxAmount"
   | "inOrder"
+  | "paymentWindow"
   | "status"
   | "createdAt"
   | "deletedAt"
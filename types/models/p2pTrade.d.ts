@@ -17,6 +17,9 @@ interface p2pTradeAttributes {
     | "REFUNDED";
   messages?: ChatMessage[];
   txHash?: string;
+  paymentDeadline?: Date;
+  releaseDeadline?: Date;
+  cancelReason?: "USER" | "ADMIN" | "PAYMENT_TIMEOUT";
   createdAt?: Date;
   deletedAt?: Date;
   updatedAt?: Date;
@@ -29,6 +32,9 @@ type p2pTradeOptionalAttributes =
   | "status"
   | "messages"
   | "txHash"
+  | "paymentDeadline"
+  | "releaseDeadline"
+  | "cancelReason"
   | "createdAt"
   | "deletedAt"
   | "updatedAt";
@@ -1,12 +1,18 @@
 interface paymentIntentAttributes {
   id: string;
+  merchantId?: string;
   userId?: string;
   walletId?: string;
   amount: number;
   currency: string;
   tax: number; // New field
   discount: number; // New field
-  status: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED";
+  status: "PENDING" | "COMPLETED" | "FAILED" | "EXPIRED" | "REFUNDED";
+  refundedAmount: number;
+  expiresAt?: Date;
+  ipnAttempts: number;
+  ipnNextAttemptAt?: Date | null;
+  ipnDeliveredAt?: Date | null;
   ipnUrl: string;
   successUrl: string;
   failUrl: string;
@@ -21,6 +27,7 @@ type paymentIntentPk = "id";
 type paymentIntentId = paymentIntent[paymentIntentPk];
 type paymentIntentOptionalAttributes =
   | "id"
+  | "merchantId"
   | "userId"
   | "walletId"
   | "transactionId"
@@ -28,7 +35,12 @@ type paymentIntentOptionalAttributes =
   | "createdAt"
   | "updatedAt"
   | "tax"
-  | "discount";
+  | "discount"
+  | "refundedAmount"
+  | "expiresAt"
+  | "ipnAttempts"
+  | "ipnNextAttemptAt"
+  | "ipnDeliveredAt";
 
 type paymentIntentCreationAttributes = Optional<
   paymentIntentAttributes,
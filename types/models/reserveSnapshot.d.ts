@@ -0,0 +1,30 @@
+
+
+
+interface reserveSnapshotAttributes {
+  id: string;
+  currency: string;
+  rootHash: string;
+  totalLiabilities: number;
+  totalAssets: number;
+  assets: Record<string, number>;
+  reserveRatio?: number;
+  leafCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type reserveSnapshotPk = "id";
+type reserveSnapshotId = reserveSnapshot[reserveSnapshotPk];
+type reserveSnapshotOptionalAttributes =
+  | "id"
+  | "totalLiabilities"
+  | "totalAssets"
+  | "reserveRatio"
+  | "leafCount"
+  | "createdAt"
+  | "updatedAt";
+type reserveSnapshotCreationAttributes = Optional<
+  reserveSnapshotAttributes,
+  reserveSnapshotOptionalAttributes
+>;
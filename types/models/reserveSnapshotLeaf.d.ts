@@ -0,0 +1,21 @@
+
+
+
+interface reserveSnapshotLeafAttributes {
+  id: string;
+  snapshotId: string;
+  userId: string;
+  position: number;
+  balance: number;
+  nonce: string;
+  hash: string;
+  createdAt?: Date;
+}
+
+type reserveSnapshotLeafPk = "id";
+type reserveSnapshotLeafId = reserveSnapshotLeaf[reserveSnapshotLeafPk];
+type reserveSnapshotLeafOptionalAttributes = "id" | "createdAt";
+type reserveSnapshotLeafCreationAttributes = Optional<
+  reserveSnapshotLeafAttributes,
+  reserveSnapshotLeafOptionalAttributes
+>;
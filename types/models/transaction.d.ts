@@ -29,7 +29,9 @@ interface transactionAttributes {
     | "STAKING"
     | "STAKING_REWARD"
     | "P2P_OFFER_TRANSFER"
-    | "P2P_TRADE";
+    | "P2P_TRADE"
+    | "LIQUIDATION_SURPLUS"
+    | "LIQUIDATION_SHORTFALL";
   status:
     | "PENDING"
     | "COMPLETED"
@@ -5,7 +5,7 @@ interface twoFactorAttributes {
   id: string;
   userId: string;
   secret: string;
-  type: "EMAIL" | "SMS" | "APP";
+  type: "EMAIL" | "SMS" | "APP" | "WEBAUTHN";
   enabled: boolean;
   createdAt?: Date;
   deletedAt?: Date;
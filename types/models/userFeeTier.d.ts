@@ -0,0 +1,32 @@
+
+
+
+interface userFeeTierAttributes {
+  id: string;
+  userId: string;
+  feeTierId?: string;
+  volume: number;
+  makerFeeOverride?: number;
+  takerFeeOverride?: number;
+  overrideNote?: string;
+  computedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type userFeeTierPk = "id";
+type userFeeTierId = userFeeTier[userFeeTierPk];
+type userFeeTierOptionalAttributes =
+  | "id"
+  | "feeTierId"
+  | "volume"
+  | "makerFeeOverride"
+  | "takerFeeOverride"
+  | "overrideNote"
+  | "computedAt"
+  | "createdAt"
+  | "updatedAt";
+type userFeeTierCreationAttributes = Optional<
+  userFeeTierAttributes,
+  userFeeTierOptionalAttributes
+>;
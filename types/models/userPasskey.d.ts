@@ -0,0 +1,32 @@
+
+
+
+interface userPasskeyAttributes {
+  id: string;
+  userId: string;
+  name: string;
+  credentialId: string; // base64url credential ID
+  publicKey: string; // base64url SPKI public key
+  algorithm: number; // COSE algorithm identifier
+  counter: number;
+  transports?: string[];
+  backedUp: boolean;
+  lastUsedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+type userPasskeyPk = "id";
+type userPasskeyId = userPasskey[userPasskeyPk];
+type userPasskeyOptionalAttributes =
+  | "id"
+  | "counter"
+  | "transports"
+  | "backedUp"
+  | "lastUsedAt"
+  | "createdAt"
+  | "updatedAt";
+type userPasskeyCreationAttributes = Optional<
+  userPasskeyAttributes,
+  userPasskeyOptionalAttributes
+>;
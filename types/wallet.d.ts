@@ -110,6 +110,8 @@ enum TransactionType {
   STAKING_REWARD = "STAKING_REWARD",
   P2P_OFFER_TRANSFER = "P2P_OFFER_TRANSFER",
   P2P_TRADE = "P2P_TRADE",
+  LIQUIDATION_SURPLUS = "LIQUIDATION_SURPLUS",
+  LIQUIDATION_SHORTFALL = "LIQUIDATION_SHORTFALL",
 }
 
 // The Transaction type maps to your Prisma model for transactions